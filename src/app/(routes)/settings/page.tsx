@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { toast } from "react-toastify";
+import { useSearchParams } from "next/navigation";
 
 // We'll use a dynamic import for Inngest to prevent node: protocol import errors
 import dynamic from 'next/dynamic';
@@ -54,14 +55,100 @@ const FunctionLogsTable = dynamic(() => import('@/components/FunctionLogs').then
   ),
 });
 
+const FunctionStatsPanel = dynamic(() => import('@/components/FunctionLogs').then(mod => ({ default: mod.FunctionStatsPanel })), {
+  ssr: false,
+  loading: () => (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+      <div className="animate-pulse h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded mb-4"></div>
+      <div className="animate-pulse h-32 bg-gray-100 dark:bg-gray-900 rounded-lg"></div>
+    </div>
+  ),
+});
+
+// Import ExportPanel with dynamic loading
+const ExportPanel = dynamic(() => import('@/components/Export').then(mod => ({ default: mod.ExportPanel })), {
+  ssr: false,
+  loading: () => (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+      <div className="animate-pulse h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded mb-4"></div>
+      <div className="animate-pulse h-10 w-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+    </div>
+  ),
+});
+
+// Import BackupPanel with dynamic loading
+const BackupPanel = dynamic(() => import('@/components/Export').then(mod => ({ default: mod.BackupPanel })), {
+  ssr: false,
+  loading: () => (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+      <div className="animate-pulse h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded mb-4"></div>
+      <div className="animate-pulse h-10 w-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+    </div>
+  ),
+});
+
+// Import ImportPanel with dynamic loading
+const ImportPanel = dynamic(() => import('@/components/Import').then(mod => ({ default: mod.ImportPanel })), {
+  ssr: false,
+  loading: () => (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+      <div className="animate-pulse h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded mb-4"></div>
+      <div className="animate-pulse h-10 w-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+    </div>
+  ),
+});
+
+// Import DigestSettingsPanel with dynamic loading
+const DigestSettingsPanel = dynamic(() => import('@/components/Digest').then(mod => ({ default: mod.DigestSettingsPanel })), {
+  ssr: false,
+  loading: () => (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+      <div className="animate-pulse h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded mb-4"></div>
+      <div className="animate-pulse h-10 w-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+    </div>
+  ),
+});
+
+// Import NotificationSettingsPanel with dynamic loading
+const NotificationSettingsPanel = dynamic(() => import('@/components/Notifications').then(mod => ({ default: mod.NotificationSettingsPanel })), {
+  ssr: false,
+  loading: () => (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+      <div className="animate-pulse h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded mb-4"></div>
+      <div className="animate-pulse h-10 w-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+    </div>
+  ),
+});
+
+// Import ApiTokensPanel with dynamic loading
+const ApiTokensPanel = dynamic(() => import('@/components/ApiTokens').then(mod => ({ default: mod.ApiTokensPanel })), {
+  ssr: false,
+  loading: () => (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+      <div className="animate-pulse h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded mb-4"></div>
+      <div className="animate-pulse h-10 w-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+    </div>
+  ),
+});
+
+// Tab navigation
+const tabs = [
+  { id: "integrations", label: "Integrations" },
+  { id: "background-jobs", label: "Automations" },
+  { id: "export", label: "Import, Export & Backup" },
+  { id: "api", label: "API" },
+];
+
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState("integrations");
 
-  // Tab navigation - changed to just two tabs
-  const tabs = [
-    { id: "integrations", label: "Integrations" },
-    { id: "background-jobs", label: "Automations" },
-  ];
+  // Notifications link straight to a tab with ?tab=
+  const requestedTab = useSearchParams().get("tab");
+  useEffect(() => {
+    if (requestedTab && tabs.some(tab => tab.id === requestedTab)) {
+      setActiveTab(requestedTab);
+    }
+  }, [requestedTab]);
 
   return (
     <div className="container mx-auto p-6">
@@ -95,17 +182,44 @@ export default function SettingsPage() {
       {/* Automations */}
       {activeTab === "background-jobs" && (
         <div>          
+          {/* Notification delivery */}
+          <NotificationSettingsPanel />
+          
+          {/* Highlight digest email */}
+          <DigestSettingsPanel />
+          
           {/* Scheduled Tasks Table */}
           <div id="scheduled-tasks-section" className="mb-6">
             <ScheduledTasksTable />
           </div>
           
+          {/* Per-function run statistics */}
+          <div id="function-stats-section" className="mb-6">
+            <FunctionStatsPanel />
+          </div>
+          
           {/* Function Logs Table */}
           <div id="function-logs-section" className="mb-6">
             <FunctionLogsTable />
           </div>
         </div>
       )}
+      
+      {/* Import, Export & Backup */}
+      {activeTab === "export" && (
+        <div>
+          <ImportPanel />
+          <ExportPanel />
+          <BackupPanel />
+        </div>
+      )}
+
+      {/* API tokens */}
+      {activeTab === "api" && (
+        <div>
+          <ApiTokensPanel />
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
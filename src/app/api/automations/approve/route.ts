@@ -2,21 +2,35 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { AutomationServiceImpl } from '@/lib/categorization/automation-service';
 import { getRepositories, getServerRepositories } from '@/repositories';
-import { CategorizationAction, Category, Tag } from '@/lib/categorization/types';
+import { CategorizationAction, Category, Tag, AutomationStatus, AutomationActionStatus } from '@/lib/categorization/types';
+import { findDependency, isCreateAction } from '@/lib/categorization/automation-status';
 
 /**
  * Server-side endpoint for approving automations
  * This executes with the service role client to bypass RLS restrictions
+ *
+ * Request body:
+ * {
+ *   automationId: string;
+ *   actionIds?: string[];  // Optional, approve only these actions; omit to approve every pending action
+ * }
+ *
+ * NOTE: Approving an add action also approves the pending create action for its tag/category.
+ * The automation status is derived afterwards, so a partial approval leaves it 'partially_approved'.
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
-    const { automationId } = await request.json();
+    const { automationId, actionIds } = await request.json();
 
     if (!automationId) {
       return NextResponse.json({ success: false, error: 'Missing automationId' }, { status: 400 });
     }
 
+    if (actionIds !== undefined && (!Array.isArray(actionIds) || !actionIds.every(id => typeof id === 'string'))) {
+      return NextResponse.json({ success: false, error: 'actionIds must be an array of action IDs' }, { status: 400 });
+    }
+
     // Create server client with service role
     const supabase = createServerClient();
     
@@ -74,7 +88,7 @@ export async function POST(request: NextRequest) {
             return {
               id: action.id,
               actionData: action.action_data,
-              status: action.status as 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'reverted',
+              status: action.status as AutomationActionStatus,
               executedAt: action.executed_at ? new Date(action.executed_at) : undefined
             };
           });
@@ -84,7 +98,7 @@ export async function POST(request: NextRequest) {
             userId: automation.user_id,
             name: automation.name,
             source: automation.source as 'ai' | 'user' | 'system',
-            status: automation.status as 'pending' | 'approved' | 'rejected' | 'reverted',
+            status: automation.status as AutomationStatus,
             actions: categorizationActions,
             createdAt: new Date(automation.created_at)
           };
@@ -95,7 +109,7 @@ export async function POST(request: NextRequest) {
       }
       
       // Server-side implementation of approveAutomation using service role
-      async serverApproveAutomation(automationId: string) {
+      async serverApproveAutomation(automationId: string, actionIds?: string[]) {
         const repos = getServerRepositories();
         
         try {
@@ -108,43 +122,70 @@ export async function POST(request: NextRequest) {
             };
           }
           
-          // Verify the automation is in pending status
-          if (automation.status !== 'pending') {
+          // Only automations still under review can have actions approved
+          if (automation.status !== 'pending' && automation.status !== 'partially_approved') {
             return {
               success: false,
               error: `Automation is already ${automation.status}`
             };
           }
           
-          // Update automation status to approved
-          await repos.automations.updateAutomationStatus(automationId, 'approved');
+          // Failed actions can be retried alongside pending ones
+          const approvable = automation.actions.filter(a => 
+            a.id && (a.status === 'pending' || a.status === 'failed'));
           
-          // Separate create and add actions to ensure proper ordering
-          const createActions = automation.actions.filter(a => 
-            a.actionData.action === 'create_category' || a.actionData.action === 'create_tag');
+          const selected = actionIds
+            ? approvable.filter(a => actionIds.includes(a.id!))
+            : approvable;
+          
+          // Add actions referencing a new tag/category by name need its create action too
+          for (const action of [...selected]) {
+            const dependency = findDependency(action, approvable);
+            if (dependency && !selected.includes(dependency)) {
+              selected.push(dependency);
+            }
+          }
+          
+          if (selected.length === 0) {
+            return {
+              success: false,
+              error: 'No pending actions to approve'
+            };
+          }
           
-          const addActions = automation.actions.filter(a => 
-            a.actionData.action === 'add_category' || a.actionData.action === 'add_tag');
+          // Separate create and add actions to ensure proper ordering
+          const createActions = selected.filter(a => isCreateAction(a.actionData));
+          const addActions = selected.filter(a => !isCreateAction(a.actionData));
           
           const createdResources = {
             categories: [] as Category[],
             tags: [] as Tag[]
           };
+          const failures: string[] = [];
           
-          // Execute actions with server permissions for each action
-          for (const action of createActions) {
-            if (!action.id) continue;
-            await this.serverExecuteAction(action, automation.userId, createdResources);
+          // Execute actions with server permissions; a failing action doesn't block the others
+          for (const action of [...createActions, ...addActions]) {
+            try {
+              await this.serverExecuteAction(action, automation.userId, createdResources);
+            } catch (error) {
+              console.error(`Error executing action ${action.id}:`, error);
+              failures.push(error instanceof Error ? error.message : 'Unknown error');
+              await repos.automations.updateActionStatus(action.id!, 'failed').catch(statusError => {
+                console.error(`Error marking action ${action.id} as failed:`, statusError);
+              });
+            }
           }
           
-          for (const action of addActions) {
-            if (!action.id) continue;
-            await this.serverExecuteAction(action, automation.userId, createdResources);
-          }
+          // Derive approved / partially_approved from the action statuses
+          const status = await repos.automations.refreshAutomationStatus(automationId);
           
           return {
-            success: true,
+            success: failures.length === 0,
             automationId,
+            status,
+            error: failures.length > 0
+              ? `${failures.length} of ${selected.length} actions failed: ${failures[0]}`
+              : undefined,
             createdResources: (createdResources.categories.length > 0 || createdResources.tags.length > 0)
               ? createdResources
               : undefined
@@ -538,7 +579,7 @@ export async function POST(request: NextRequest) {
 
     // Execute the automation approval with server permissions
     const serverAutomationService = new ServerAutomationService();
-    const result = await serverAutomationService.serverApproveAutomation(automationId);
+    const result = await serverAutomationService.serverApproveAutomation(automationId, actionIds);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -6,16 +6,29 @@ import { getRepositories, getServerRepositories } from '@/repositories';
 /**
  * Server-side endpoint for rejecting automations
  * This executes with the service role client to bypass RLS restrictions
+ *
+ * Request body:
+ * {
+ *   automationId: string;
+ *   actionIds?: string[];  // Optional, reject only these actions; omit to reject every pending action
+ * }
+ *
+ * NOTE: Rejecting a create action also rejects the add actions that depend on it.
+ * Actions that were already approved stay applied.
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
-    const { automationId } = await request.json();
+    const { automationId, actionIds } = await request.json();
 
     if (!automationId) {
       return NextResponse.json({ success: false, error: 'Missing automationId' }, { status: 400 });
     }
 
+    if (actionIds !== undefined && (!Array.isArray(actionIds) || !actionIds.every(id => typeof id === 'string'))) {
+      return NextResponse.json({ success: false, error: 'actionIds must be an array of action IDs' }, { status: 400 });
+    }
+
     // Create server client with service role
     const supabase = createServerClient();
     
@@ -48,18 +61,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'Not authorized to reject this automation' }, { status: 403 });
     }
 
-    // Verify the automation is in pending status
-    if (automation.status !== 'pending') {
+    // Verify the automation is still under review
+    if (automation.status !== 'pending' && automation.status !== 'partially_approved') {
       return NextResponse.json({ 
         success: false, 
-        error: `Can only reject pending automations, current status: ${automation.status}` 
+        error: `Can only reject pending or partially approved automations, current status: ${automation.status}` 
       }, { status: 400 });
     }
 
     // Create a special server-side service for automations
     class ServerAutomationService extends AutomationServiceImpl {
       // Implement server-side reject function that uses the service role
-      async serverRejectAutomation(automationId: string) {
+      async serverRejectAutomation(automationId: string, actionIds?: string[]) {
         const repos = getServerRepositories();
         
         try {
@@ -74,13 +87,20 @@ export async function POST(request: NextRequest) {
             };
           }
           
-          // Mark all pending actions as rejected
-          await repos.automations.updateAllActionStatusForAutomation(automationId, 'rejected', { currentStatus: 'pending' });
+          // Mark the selected (or all) pending actions as rejected
+          const rejectedActionIds = await repos.automations.rejectAutomationActions(automationId, actionIds);
+          
+          if (rejectedActionIds.length === 0) {
+            return {
+              success: false,
+              error: 'No pending actions to reject'
+            };
+          }
           
-          // Update automation status to rejected
-          await repos.automations.updateAutomationStatus(automationId, 'rejected');
+          // Derive the automation status from the remaining actions
+          const status = await repos.automations.refreshAutomationStatus(automationId);
           
-          return { success: true, automationId };
+          return { success: true, automationId, status };
         } catch (error) {
           console.error('Error rejecting automation:', error);
           
@@ -98,7 +118,7 @@ export async function POST(request: NextRequest) {
 
     // Execute the automation rejection with server permissions
     const serverAutomationService = new ServerAutomationService();
-    const result = await serverAutomationService.serverRejectAutomation(automationId);
+    const result = await serverAutomationService.serverRejectAutomation(automationId, actionIds);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -6,16 +6,28 @@ import { getRepositories, getServerRepositories } from '@/repositories';
 /**
  * Server-side endpoint for reverting automations
  * This executes with the service role client to bypass RLS restrictions
+ *
+ * Request body:
+ * {
+ *   automationId: string;
+ *   actionIds?: string[];  // Optional, revert only these executed actions; omit to revert all of them
+ * }
+ *
+ * NOTE: Created tags/categories are removed once none of their add actions remain applied.
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
-    const { automationId } = await request.json();
+    const { automationId, actionIds } = await request.json();
 
     if (!automationId) {
       return NextResponse.json({ success: false, error: 'Missing automationId' }, { status: 400 });
     }
 
+    if (actionIds !== undefined && (!Array.isArray(actionIds) || !actionIds.every(id => typeof id === 'string'))) {
+      return NextResponse.json({ success: false, error: 'actionIds must be an array of action IDs' }, { status: 400 });
+    }
+
     // Create server client with service role
     const supabase = createServerClient();
     
@@ -48,18 +60,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'Not authorized to revert this automation' }, { status: 403 });
     }
 
-    // Verify the automation is in approved status
-    if (automation.status !== 'approved') {
+    // Verify the automation has applied actions
+    if (automation.status !== 'approved' && automation.status !== 'partially_approved') {
       return NextResponse.json({ 
         success: false, 
-        error: `Can only revert approved automations, current status: ${automation.status}` 
+        error: `Can only revert approved or partially approved automations, current status: ${automation.status}` 
       }, { status: 400 });
     }
 
     // Create a special server-side service for automations
     class ServerAutomationService extends AutomationServiceImpl {
       // Implement server-side revert function that uses the service role
-      async serverRevertAutomation(automationId: string) {
+      async serverRevertAutomation(automationId: string, actionIds?: string[]) {
         const repos = getServerRepositories();
         
         try {
@@ -74,16 +86,20 @@ export async function POST(request: NextRequest) {
             };
           }
           
-          // First get all executed actions for this automation to revert their effects
-          await repos.automations.revertAutomationActions(automationId, automation.user_id);
+          // Revert the effects of the executed actions; each reverted action is marked as it's undone
+          const revertedActionIds = await repos.automations.revertAutomationActions(automationId, automation.user_id, actionIds);
           
-          // Then update automation status to reverted
-          await repos.automations.updateAutomationStatus(automationId, 'reverted');
+          if (revertedActionIds.length === 0) {
+            return {
+              success: false,
+              error: 'No executed actions to revert'
+            };
+          }
           
-          // Then mark all executed actions as reverted
-          await repos.automations.updateAllActionStatusForAutomation(automationId, 'reverted', { currentStatus: 'executed' });
+          // Then derive the automation status from the remaining actions
+          const status = await repos.automations.refreshAutomationStatus(automationId);
           
-          return { success: true, automationId };
+          return { success: true, automationId, status };
         } catch (error) {
           console.error('Error reverting automation:', error);
           
@@ -101,7 +117,7 @@ export async function POST(request: NextRequest) {
 
     // Execute the automation reversion with server permissions
     const serverAutomationService = new ServerAutomationService();
-    const result = await serverAutomationService.serverRevertAutomation(automationId);
+    const result = await serverAutomationService.serverRevertAutomation(automationId, actionIds);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { restoreBackup, validateBackupArchive } from '@/lib/backup';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+/**
+ * Restore a JSON backup into the caller's library
+ *
+ * Request body:
+ * {
+ *   userId: string;
+ *   archive: BackupArchive;
+ *   dryRun?: boolean;  // Report what would be created and what conflicts, without writing
+ * }
+ *
+ * Returns a RestoreReport with per-table counts and the conflicts found.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, archive, dryRun = false } = await request.json();
+
+    if (!userId) {
+      return createErrorResponse('User ID is required', 400);
+    }
+
+    const validation = validateBackupArchive(archive);
+    if (!validation.valid) {
+      return createErrorResponse(validation.error || 'Invalid backup file', 400);
+    }
+
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    const report = await restoreBackup(createServerClient(), userId, archive, { dryRun: !!dryRun });
+
+    return createSuccessResponse(
+      report,
+      dryRun ? 'Backup checked (dry run, nothing was written)' : 'Backup restored'
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to restore backup'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
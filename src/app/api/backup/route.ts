@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { createBackup } from '@/lib/backup';
+import { authenticateRequest, createErrorResponse } from '@/lib/api-utils';
+
+/**
+ * Download a JSON backup of the caller's library
+ *
+ * Request body:
+ * {
+ *   userId: string;
+ *   includeEmbeddings?: boolean;  // Off by default; embeddings can be regenerated
+ * }
+ *
+ * NOTE: Credentials in user settings (API keys, tokens) are never included.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, includeEmbeddings = false } = await request.json();
+
+    if (!userId) {
+      return createErrorResponse('User ID is required', 400);
+    }
+
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    const archive = await createBackup(createServerClient(), userId, {
+      includeEmbeddings: !!includeEmbeddings
+    });
+
+    const fileName = `spark-backup-${archive.createdAt.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(archive), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to create backup'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
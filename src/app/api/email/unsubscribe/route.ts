@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { DIGEST_TASK_ID } from '@/inngest';
+import { UserSettings } from '@/lib/types';
+
+function page(message: string, status: number = 200, extraHtml: string = '') {
+  return new NextResponse(
+    `<!doctype html><html><body style="font-family: sans-serif; max-width: 480px; margin: 80px auto; text-align: center;"><p>${message}</p>${extraHtml}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+async function findUserSettings(token: string) {
+  const { data, error } = await createServerClient()
+    .from('user_settings')
+    .select('id, settings')
+    .eq('settings->digest->>unsubscribeToken', token)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * GET /api/email/unsubscribe?token=<unsubscribeToken>
+ *
+ * Linked from every digest email. Only asks for confirmation: mail scanners and link
+ * prefetchers open links on their own, so a GET must not change anything.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!token) {
+    return page('This unsubscribe link is incomplete.', 400);
+  }
+
+  try {
+    if (!await findUserSettings(token)) {
+      return page('This unsubscribe link is no longer valid.', 404);
+    }
+
+    const action = `/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+    return page(
+      'Stop receiving the highlight digest?',
+      200,
+      `<form method="post" action="${escapeHtml(action)}"><button type="submit" style="padding: 8px 16px; cursor: pointer;">Unsubscribe</button></form>`
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return page('Something went wrong, please try again later.', 500);
+  }
+}
+
+/**
+ * POST /api/email/unsubscribe?token=<unsubscribeToken>
+ *
+ * Turns off the highlight digest for the user owning the token. Sent by the confirmation
+ * page and by mail clients' one-click unsubscribe (RFC 8058), so it works without a
+ * session; the token is the only credential.
+ */
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!token) {
+    return page('This unsubscribe link is incomplete.', 400);
+  }
+
+  try {
+    const data = await findUserSettings(token);
+
+    if (!data) {
+      return page('This unsubscribe link is no longer valid.', 404);
+    }
+
+    const settings = (data.settings || {}) as UserSettings;
+    const scheduledTasks = settings.scheduledTasks || {};
+
+    const { error: updateError } = await createServerClient()
+      .from('user_settings')
+      .update({
+        settings: {
+          ...settings,
+          scheduledTasks: {
+            ...scheduledTasks,
+            [DIGEST_TASK_ID]: {
+              ...scheduledTasks[DIGEST_TASK_ID],
+              enabled: false,
+              frequency: 'off'
+            }
+          }
+        },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', data.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return page('You have been unsubscribed from the highlight digest. You can turn it back on in Settings.');
+  } catch (error) {
+    console.error('API Error:', error);
+    return page('Something went wrong, please try again later.', 500);
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
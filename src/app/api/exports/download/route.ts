@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { exportsService } from '@/services';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+// Long enough to start a large download, short enough that a leaked link goes stale
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 10;
+
+/**
+ * Returns a signed download URL for a completed export archive
+ *
+ * NOTE: The exports bucket is private and only writable by the service role,
+ * so the URL is signed here after checking the export belongs to the caller.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, exportId } = await request.json();
+
+    const validation = exportsService.validateExportData(userId, exportId);
+    if (!validation.valid) {
+      return createErrorResponse(validation.error || 'Invalid input data', 400);
+    }
+
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    const supabase = createServerClient();
+
+    const { data: exportRow, error } = await supabase
+      .from('exports')
+      .select('status, storage_path')
+      .eq('id', exportId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!exportRow) {
+      return createErrorResponse('Export not found', 404);
+    }
+
+    if (exportRow.status !== 'completed' || !exportRow.storage_path) {
+      return createErrorResponse('Export is not ready yet', 409);
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from('exports')
+      .createSignedUrl(exportRow.storage_path, DOWNLOAD_URL_TTL_SECONDS, {
+        download: `spark-export-${exportId.slice(0, 8)}.zip`
+      });
+
+    if (signError || !signed) {
+      throw signError || new Error('Failed to sign download URL');
+    }
+
+    return createSuccessResponse({ url: signed.signedUrl });
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to create export download link'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
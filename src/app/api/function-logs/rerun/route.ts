@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { inngest } from '@/inngest';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+import { REDACTED_VALUE } from '@/lib/function-logs-service';
+import { createServerClient } from '@/lib/supabase';
+
+/**
+ * Re-send the event that triggered a logged run, so the function runs again with the same input
+ *
+ * Logged payloads have their secrets redacted. A redacted `apiKey` from older runs is dropped,
+ * since functions resolve integration tokens themselves; any other redacted value means the
+ * run can't be reproduced.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, logId } = await request.json();
+
+    if (!userId || !logId) {
+      return createErrorResponse('User ID and log ID are required', 400);
+    }
+
+    // Authenticate the request
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    const supabase = createServerClient();
+    const { data: log, error: logError } = await supabase
+      .from('function_logs')
+      .select('id, user_id, function_name, input_params')
+      .eq('id', logId)
+      .maybeSingle();
+
+    if (logError) {
+      return createErrorResponse(`Error loading function log: ${logError.message}`);
+    }
+
+    if (!log || log.user_id !== userId) {
+      return createErrorResponse('Function log not found', 404);
+    }
+
+    const event = log.input_params?.event;
+    const eventName: string | undefined = event?.name || log.input_params?.eventName;
+    if (!eventName) {
+      return createErrorResponse('This run has no recorded triggering event', 422);
+    }
+
+    // Cron and other Inngest-internal events can't be sent by the app
+    if (eventName.startsWith('inngest/')) {
+      return createErrorResponse('Scheduled runs can only be started by their schedule', 422);
+    }
+
+    const data: Record<string, unknown> = { ...(event?.data || {}) };
+
+    // Runs logged before tokens were resolved by the functions themselves carried one in the
+    // event; the functions no longer read it, so it is dropped rather than restored
+    if (data.apiKey === REDACTED_VALUE) {
+      delete data.apiKey;
+    }
+
+    if (Object.values(data).includes(REDACTED_VALUE)) {
+      return createErrorResponse('This run\'s input contained secrets that were not stored, so it can\'t be re-run', 409);
+    }
+
+    const { ids } = await inngest.send({
+      name: eventName,
+      data
+    } as Parameters<typeof inngest.send>[0]);
+
+    return createSuccessResponse(
+      { triggered: true, eventIds: ids },
+      `${log.function_name} was triggered again with the same input`
+    );
+  } catch (error) {
+    console.error('Error re-running function:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to re-run function'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RelatedHighlight } from '@/lib/types';
+import { authenticateRequest } from '@/lib/api-utils';
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * POST /api/highlights/related
+ *
+ * Find the highlights most similar to a given highlight (or book) using stored embeddings
+ *
+ * Request body (provide either highlightId or bookId):
+ * {
+ *   highlightId?: string;       // The source highlight
+ *   bookId?: string;            // The source book; compares against its average embedding
+ *   limit?: number;             // Optional, max results to return (default: 5)
+ *   excludeSameBook?: boolean;  // Optional, only return highlights from other books (default: true)
+ *                               // Always true for bookId lookups
+ * }
+ *
+ * Response:
+ * {
+ *   results: RelatedHighlight[];  // Similar highlights with similarity scores and book info
+ *   count: number;                // Number of results returned
+ * }
+ *
+ * NOTE: Returns an empty list when the source has no embeddings yet.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate the request using the Authorization header
+    const { user, error: authError } = await authenticateRequest(request);
+
+    if (authError || !user) {
+      return authError || NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { highlightId, bookId, limit = 5, excludeSameBook = true } = body;
+
+    // Validate required fields
+    const hasHighlightId = typeof highlightId === 'string' && highlightId.length > 0;
+    const hasBookId = typeof bookId === 'string' && bookId.length > 0;
+
+    if (hasHighlightId === hasBookId) {
+      return NextResponse.json(
+        { error: 'Exactly one of highlightId or bookId is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate limit
+    const parsedLimit = parseInt(String(limit), 10);
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 50) {
+      return NextResponse.json(
+        { error: 'Limit must be a number between 1 and 50' },
+        { status: 400 }
+      );
+    }
+
+    // Create Supabase client with service role
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = hasHighlightId
+      ? await supabase.rpc('find_related_highlights', {
+          source_highlight_id: highlightId,
+          match_user_id: user.id,
+          match_count: parsedLimit,
+          exclude_same_book: excludeSameBook !== false
+        })
+      : await supabase.rpc('find_related_highlights_for_book', {
+          source_book_id: bookId,
+          match_user_id: user.id,
+          match_count: parsedLimit
+        });
+
+    if (error) {
+      console.error('Related highlights error:', error);
+      return NextResponse.json(
+        { error: 'Failed to find related highlights' },
+        { status: 500 }
+      );
+    }
+
+    // Map to domain format
+    const results: RelatedHighlight[] = (data || []).map((row: any) => ({
+      id: row.id,
+      bookId: row.book_id,
+      rwId: row.rw_id,
+      text: row.rw_text || '',
+      note: row.rw_note,
+      location: row.rw_location,
+      highlightedAt: row.rw_highlighted_at,
+      similarity: row.similarity,
+      book: {
+        rwId: row.book_rw_id,
+        title: row.book_title || 'Untitled',
+        author: row.book_author,
+        coverImageUrl: row.book_cover_image_url
+      }
+    }));
+
+    return NextResponse.json({
+      results,
+      count: results.length
+    });
+
+  } catch (error) {
+    console.error('Error in /api/highlights/related:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
@@ -218,6 +218,7 @@ export async function POST(request: NextRequest) {
           `)
           .eq('id', result.id)
           .eq('user_id', user.id)
+          .eq('highlight_notes.kind', 'attached')
           .single();
 
         if (error || !data) return null;
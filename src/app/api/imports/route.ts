@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { inngest } from '@/inngest';
+import { createServerClient } from '@/lib/supabase';
+import { detectImportFormat, IMPORT_FORMATS, ImportFormat, MAX_IMPORT_FILE_BYTES } from '@/lib/import';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+/**
+ * Upload a highlights file and queue its import
+ *
+ * Request body (multipart/form-data):
+ * - userId: string
+ * - file: Kindle `My Clippings.txt`, CSV (incl. Apple Books annotation dumps) or JSON
+ * - format?: 'kindle' | 'csv' | 'json' | 'auto' (default), guessed from the file when 'auto'
+ *
+ * The file goes to the private `imports` bucket and the import runs in the background;
+ * its summary report shows up in the function logs.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const userId = form.get('userId');
+    const file = form.get('file');
+    const requestedFormat = (form.get('format') as string | null) || 'auto';
+
+    if (typeof userId !== 'string' || !userId) {
+      return createErrorResponse('User ID is required', 400);
+    }
+
+    if (!(file instanceof File) || file.size === 0) {
+      return createErrorResponse('A non-empty file is required', 400);
+    }
+
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      return createErrorResponse(`File is too large (max ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB)`, 413);
+    }
+
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    const content = await file.text();
+    const format = requestedFormat === 'auto'
+      ? detectImportFormat(file.name, content)
+      : (IMPORT_FORMATS as string[]).includes(requestedFormat) ? requestedFormat as ImportFormat : null;
+
+    if (!format) {
+      return createErrorResponse('Unrecognised file format. Choose Kindle clippings, CSV or JSON.', 400);
+    }
+
+    const storagePath = `${userId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+    const { error: uploadError } = await createServerClient().storage
+      .from('imports')
+      .upload(storagePath, content, { contentType: 'text/plain; charset=utf-8' });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    await inngest.send({
+      name: "import/highlights-file",
+      data: {
+        userId,
+        storagePath,
+        fileName: file.name,
+        format
+      }
+    });
+
+    return createSuccessResponse(
+      { triggered: true, format },
+      'Import started'
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to start import'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
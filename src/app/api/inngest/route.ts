@@ -5,13 +5,24 @@ import {
   readwiseConnectionTestFn,
   readwiseSyncBooksFn,
   readwiseSyncHighlightsFn,
+  readwiseSyncChangedBooksFn,
+  readwiseReconcileHighlightsFn,
+  readwiseWriteBackHighlightFn,
+  readwiseImportReaderDocumentsFn,
   migrateHighlightTagsFn,
   airtableImportSparksFn,
   scheduledTasksCronFn,
   scheduledTasksManualFn,
   tagRandomHighlights,
   categorizeRandomHighlights,
-  generateHighlightEmbeddingsFn
+  runAutomationRulesFn,
+  generateHighlightEmbeddingsFn,
+  generateContentEmbeddingsFn,
+  exportMarkdownVaultFn,
+  sendHighlightDigestFn,
+  importHighlightsFileFn,
+  checkStaleIntegrationsCronFn,
+  checkStaleIntegrationsManualFn
 } from "@/inngest";
 
 // Export the API routes for Inngest communication
@@ -23,6 +34,10 @@ export const { GET, POST, PUT } = serve({
     readwiseConnectionTestFn,
     readwiseSyncBooksFn,
     readwiseSyncHighlightsFn,
+    readwiseSyncChangedBooksFn,
+    readwiseReconcileHighlightsFn,
+    readwiseWriteBackHighlightFn,
+    readwiseImportReaderDocumentsFn,
     
     // Tags functions
     migrateHighlightTagsFn,
@@ -32,19 +47,31 @@ export const { GET, POST, PUT } = serve({
     
     // Embeddings functions
     generateHighlightEmbeddingsFn,
+    generateContentEmbeddingsFn,
+    
+    // Export functions
+    exportMarkdownVaultFn,
+    
+    // Email functions
+    sendHighlightDigestFn,
+    
+    // Import functions
+    importHighlightsFileFn,
     
     // Scheduled cron functions
     // Only register cron in production environment to avoid duplicate runs from:
     // - Preview deployments (Vercel creates separate deployments for PRs/branches)
     // - Local development when connected to prod DB
-    ...(process.env.VERCEL_ENV === 'production' ? [scheduledTasksCronFn] : []),
+    ...(process.env.VERCEL_ENV === 'production' ? [scheduledTasksCronFn, checkStaleIntegrationsCronFn] : []),
     
-    // Manual trigger for scheduled tasks (available in all environments for debugging)
+    // Manual triggers for the cron functions (available in all environments for debugging)
     scheduledTasksManualFn,
+    checkStaleIntegrationsManualFn,
     
     // Automation functions
     tagRandomHighlights,
-    categorizeRandomHighlights
+    categorizeRandomHighlights,
+    runAutomationRulesFn
   ],
 });
 
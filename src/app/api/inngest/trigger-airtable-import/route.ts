@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authService, airtableService } from "@/services";
 import { inngest } from "@/inngest";
+import { createServerClient } from "@/lib/supabase";
+import { getIntegrationCredential } from "@/lib/integration-credentials";
+import type { UserSettings } from "@/lib/types";
 
 export async function POST(request: NextRequest) {
   // Get the auth token from the request headers
@@ -22,9 +25,25 @@ export async function POST(request: NextRequest) {
     // Parse the request body
     const body = await request.json();
     const userId = body.userId || user.id;
-    const apiKey = body.apiKey;
-    const baseId = body.baseId;
-    const tableId = body.tableId;
+    
+    // Validate user permissions if the requester wants to run for a different user
+    if (userId !== user.id) {
+      // Only allow admins to run for other users
+      // This would need a proper role check in a real system
+      return NextResponse.json({ error: 'Unauthorized to run task for another user' }, { status: 403 });
+    }
+    
+    // Token, base and table come from the user's saved settings, never from the browser
+    const supabase = createServerClient();
+    const apiKey = await getIntegrationCredential(supabase, userId, 'airtable');
+    const { data: settingsRow } = await supabase
+      .from('user_settings')
+      .select('settings')
+      .eq('id', userId)
+      .maybeSingle();
+    const airtable = (settingsRow?.settings as UserSettings | null)?.integrations?.airtable;
+    const baseId = airtable?.baseId || '';
+    const tableId = airtable?.tableId || '';
     
     console.log('Airtable import parameters:', { 
       userId, 
@@ -34,20 +53,13 @@ export async function POST(request: NextRequest) {
     });
     
     // Validate required parameters using the service
-    const validation = airtableService.validateImportData(userId, apiKey, baseId, tableId);
+    const validation = airtableService.validateImportData(userId, apiKey || '', baseId, tableId);
     if (!validation.valid) {
-      return NextResponse.json({ error: validation.error }, { status: 400 });
-    }
-    
-    // Validate user permissions if the requester wants to run for a different user
-    if (userId !== user.id) {
-      // Only allow admins to run for other users
-      // This would need a proper role check in a real system
-      return NextResponse.json({ error: 'Unauthorized to run task for another user' }, { status: 403 });
+      return NextResponse.json({ error: validation.error }, { status: apiKey ? 400 : 409 });
     }
     
     // Get the import data from the service
-    const importData = airtableService.prepareImportData(userId, apiKey, baseId, tableId);
+    const importData = airtableService.prepareImportData(userId, baseId, tableId);
     
     // Send the Inngest event to import sparks from Airtable
     await inngest.send({
@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { inngest } from '@/inngest';
 import { authService, integrationsService } from '@/services';
+import { createServerClient } from '@/lib/supabase';
+import { getIntegrationCredential } from '@/lib/integration-credentials';
 
 export async function POST(request: NextRequest) {
   try {
     // Get the request body
-    const { userId, apiKey } = await request.json();
+    const { userId } = await request.json();
 
-    // Validate input parameters using the service
-    const validation = integrationsService.validateReadwiseConnectionData(userId, apiKey);
-    if (!validation.valid) {
+    if (!userId) {
       return NextResponse.json(
-        { error: validation.error },
+        { error: 'User ID is required' },
         { status: 400 }
       );
     }
@@ -45,8 +45,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Only check the integration is connected; the function resolves the token itself, so it
+    // never ends up in the event payload
+    const apiKey = await getIntegrationCredential(createServerClient(), userId, 'readwise');
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'Readwise is not connected. Add your access token in the integration settings.' },
+        { status: 409 }
+      );
+    }
+
     // Get the connection test data from the service
-    const connectionData = integrationsService.prepareReadwiseConnectionData(userId, apiKey);
+    const connectionData = integrationsService.prepareReadwiseConnectionData(userId);
 
     // Send the Inngest event
     await inngest.send({
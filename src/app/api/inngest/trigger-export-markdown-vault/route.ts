@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { inngest } from '@/inngest';
+import { exportsService } from '@/services';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get the request body
+    const { userId, exportId, uploadToExternal = false } = await request.json();
+
+    // Validate input parameters using the service
+    const validation = exportsService.validateExportData(userId, exportId);
+    if (!validation.valid) {
+      return createErrorResponse(validation.error || 'Invalid input data', 400);
+    }
+
+    // Authenticate the request
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    // Send the Inngest event; the function checks the export belongs to this user
+    await inngest.send({
+      name: "export/markdown-vault",
+      data: {
+        userId,
+        exportId,
+        uploadToExternal: !!uploadToExternal
+      }
+    });
+
+    return createSuccessResponse(
+      { triggered: true },
+      'Markdown export triggered successfully'
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to trigger Markdown export'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/inngest';
+import { integrationsService } from '@/services';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+import { createServerClient } from '@/lib/supabase';
+import { getIntegrationCredential } from '@/lib/integration-credentials';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get the request body
+    const { userId, fullSync = false } = await request.json();
+
+    if (!userId) {
+      return createErrorResponse('User ID is required', 400);
+    }
+
+    // Authenticate the request
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    // Only check the integration is connected; the function resolves the token itself, so it
+    // never ends up in the event payload
+    const apiKey = await getIntegrationCredential(createServerClient(), userId, 'readwise');
+    if (!apiKey) {
+      return createErrorResponse('Readwise is not connected. Add your access token in the integration settings.', 409);
+    }
+
+    // Validate input parameters using the service
+    const validation = integrationsService.validateReadwiseSyncData(userId, apiKey, fullSync);
+    if (!validation.valid) {
+      return createErrorResponse(validation.error || 'Invalid input data', 400);
+    }
+
+    // Get the sync data from the service
+    const syncData = integrationsService.prepareReadwiseSyncData(userId, fullSync);
+
+    // Send the Inngest event
+    await inngest.send({
+      name: "readwise/import-reader-documents",
+      data: syncData
+    });
+
+    return createSuccessResponse(
+      { triggered: true }, 
+      'Readwise Reader import triggered successfully'
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to trigger Readwise Reader import'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic'; 
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { inngest } from '@/inngest';
+import { integrationsService } from '@/services';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get the request body
+    const { userId, highlightId, note = false, addTagIds = [], removeTagIds = [] } = await request.json();
+
+    if (!Array.isArray(addTagIds) || !Array.isArray(removeTagIds)) {
+      return createErrorResponse('addTagIds and removeTagIds must be arrays', 400);
+    }
+
+    const changes = { note: !!note, addTagIds, removeTagIds };
+
+    // Validate input parameters using the service
+    const validation = integrationsService.validateReadwiseWriteBackData(userId, highlightId, changes);
+    if (!validation.valid) {
+      return createErrorResponse(validation.error || 'Invalid input data', 400);
+    }
+
+    // Authenticate the request
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    // The function re-checks the write-back setting before touching Readwise
+    await inngest.send({
+      name: "readwise/write-back-highlight",
+      data: {
+        userId,
+        highlightId,
+        ...changes
+      }
+    });
+
+    return createSuccessResponse(
+      { triggered: true },
+      'Readwise write-back queued successfully'
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to queue Readwise write-back'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/inngest';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+/**
+ * POST /api/inngest/trigger-send-highlight-digest
+ * 
+ * Manually send the highlight digest email
+ * 
+ * Sends the digest right away with the user's current digest settings, without
+ * touching the schedule. Useful for previewing the email.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get the request body
+    const { userId } = await request.json();
+
+    // Validate input parameters
+    if (!userId) {
+      return createErrorResponse('userId is required', 400);
+    }
+
+    // Authenticate the request
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    // Send the Inngest event
+    await inngest.send({
+      name: "email/send-highlight-digest",
+      data: {
+        userId
+      }
+    });
+
+    return createSuccessResponse(
+      { triggered: true }, 
+      'Highlight digest queued successfully'
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to trigger highlight digest'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
+
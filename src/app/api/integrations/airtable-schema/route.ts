@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getIntegrationCredential } from '@/lib/integration-credentials';
+import { AirtableApiError, fetchAirtableTableSchema } from '@/lib/airtable';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+/**
+ * Read the fields of an Airtable table with the user's stored token
+ *
+ * Request body:
+ * - userId: string
+ * - baseId: string
+ * - tableId: string (ID or name)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, baseId, tableId } = await request.json();
+
+    if (!userId || !baseId || !tableId) {
+      return createErrorResponse('User ID, Base ID and Table ID are required', 400);
+    }
+
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    const token = await getIntegrationCredential(createServerClient(), userId, 'airtable');
+    if (!token) {
+      return createErrorResponse('Airtable is not connected. Save your Personal Access Token first.', 409);
+    }
+
+    const table = await fetchAirtableTableSchema(token, baseId, tableId);
+
+    return createSuccessResponse({ table });
+  } catch (error) {
+    if (error instanceof AirtableApiError) {
+      // Airtable answers 403 both for a wrong base and for a token without the schema scope
+      return error.status === 403
+        ? createErrorResponse('Airtable refused to list the table fields. Check the Base ID and that your token has the schema.bases:read scope.', 400)
+        : createErrorResponse(error.message, error.status === 401 ? 400 : error.status);
+    }
+
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to read Airtable table'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
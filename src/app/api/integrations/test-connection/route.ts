@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getIntegrationCredential, INTEGRATION_PROVIDERS } from '@/lib/integration-credentials';
+import { IntegrationProvider, UserSettings } from '@/lib/types';
+import { authenticateRequest, createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+
+/**
+ * Test the stored token of an integration
+ *
+ * Request body:
+ * - userId: string
+ * - provider: 'readwise' | 'airtable'
+ * - baseId?, tableId?: Airtable table to try, defaulting to the saved settings
+ *
+ * The token is looked up server-side; the browser never has it once saved.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, provider, baseId, tableId } = await request.json();
+
+    if (!userId) {
+      return createErrorResponse('User ID is required', 400);
+    }
+
+    if (!INTEGRATION_PROVIDERS.includes(provider)) {
+      return createErrorResponse('Unknown integration', 400);
+    }
+
+    const authResult = await authenticateRequest(request, userId);
+    if (authResult.error) {
+      return authResult.error;
+    }
+
+    const supabase = createServerClient();
+    const token = await getIntegrationCredential(supabase, userId, provider as IntegrationProvider);
+    if (!token) {
+      return createSuccessResponse({ connected: false, message: 'No token saved' });
+    }
+
+    let response: Response;
+    if (provider === 'readwise') {
+      response = await fetch('https://readwise.io/api/v2/auth/', {
+        headers: { 'Authorization': `Token ${token}` }
+      });
+    } else {
+      const { data } = await supabase
+        .from('user_settings')
+        .select('settings')
+        .eq('id', userId)
+        .maybeSingle();
+      const airtable = (data?.settings as UserSettings | null)?.integrations?.airtable;
+      const base = baseId || airtable?.baseId;
+      const table = tableId || airtable?.tableId;
+
+      if (!base || !table) {
+        return createErrorResponse('Airtable Base ID and Table ID are required', 400);
+      }
+
+      response = await fetch(`https://api.airtable.com/v0/${base}/${table}?maxRecords=1`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+    }
+
+    if (response.ok) {
+      return createSuccessResponse({ connected: true, message: 'Connection successful' });
+    }
+
+    const errorData = await response.json().catch(() => null);
+    return createSuccessResponse({
+      connected: false,
+      message: errorData?.error?.message || errorData?.detail || `The ${provider} API returned status ${response.status}`
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to test connection'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
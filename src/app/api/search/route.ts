@@ -0,0 +1,303 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SearchContentType,
+  SEARCH_CONTENT_TYPES,
+  UnifiedSearchResult
+} from '@/lib/types';
+import { authenticateRequest } from '@/lib/api-utils';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { idsOfType, rankSearchMatches } from '@/lib/search';
+
+/**
+ * POST /api/search
+ *
+ * Search highlights, sparks and notes together using keyword, semantic, or hybrid search
+ *
+ * Request body:
+ * {
+ *   query: string;        // The search query
+ *   mode: 'keyword' | 'semantic' | 'hybrid';  // Search mode
+ *   types?: ('highlight' | 'spark' | 'note')[];  // Optional content type filter (default: all)
+ *   limit?: number;       // Optional, max results to return (default: 10)
+ * }
+ *
+ * Response:
+ * {
+ *   results: UnifiedSearchResult[];  // Mixed results, discriminated by `type`
+ *   count: number;                    // Number of results returned
+ *   mode: string;                     // Search mode used
+ *   types: string[];                  // Content types searched
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate the request using the Authorization header
+    const { user, error: authError } = await authenticateRequest(request);
+
+    if (authError || !user) {
+      return authError || NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { query, mode, types = SEARCH_CONTENT_TYPES, limit = 10 } = body;
+
+    // Validate required fields
+    if (!query || typeof query !== 'string') {
+      return NextResponse.json(
+        { error: 'Query is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (!mode || !['keyword', 'semantic', 'hybrid'].includes(mode)) {
+      return NextResponse.json(
+        { error: 'Mode is required and must be one of: keyword, semantic, hybrid' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(types) ||
+      types.length === 0 ||
+      types.some((type: unknown) => !SEARCH_CONTENT_TYPES.includes(type as SearchContentType))
+    ) {
+      return NextResponse.json(
+        { error: `Types must be a non-empty array of: ${SEARCH_CONTENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate limit
+    const parsedLimit = parseInt(String(limit), 10);
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
+      return NextResponse.json(
+        { error: 'Limit must be a number between 1 and 100' },
+        { status: 400 }
+      );
+    }
+
+    // Create Supabase client with service role
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const searchTypes = Array.from(new Set(types)) as SearchContentType[];
+
+    const topMatches = await rankSearchMatches(supabase, {
+      userId: user.id,
+      query,
+      mode,
+      types: searchTypes,
+      limit: parsedLimit
+    });
+
+    // Fetch full details for the matches, one query per content type
+    const [highlights, sparks, notes] = await Promise.all([
+      fetchHighlights(supabase, idsOfType(topMatches, 'highlight'), user.id),
+      fetchSparks(supabase, idsOfType(topMatches, 'spark'), user.id),
+      fetchNotes(supabase, idsOfType(topMatches, 'note'), user.id)
+    ]);
+
+    // Keep the merged ranking order while attaching the full entities
+    const results = topMatches
+      .map((match): UnifiedSearchResult | null => {
+        switch (match.type) {
+          case 'highlight': {
+            const highlight = highlights.get(match.id);
+            return highlight
+              ? { type: 'highlight', id: match.id, score: match.score, highlight: { ...highlight, score: match.score } }
+              : null;
+          }
+          case 'spark': {
+            const spark = sparks.get(match.id);
+            return spark ? { type: 'spark', id: match.id, score: match.score, spark } : null;
+          }
+          case 'note': {
+            const note = notes.get(match.id);
+            return note ? { type: 'note', id: match.id, score: match.score, note } : null;
+          }
+        }
+      })
+      .filter((result): result is UnifiedSearchResult => result !== null);
+
+    return NextResponse.json({
+      results,
+      count: results.length,
+      mode,
+      query,
+      types: searchTypes
+    });
+
+  } catch (error) {
+    console.error('Error in /api/search:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Fetch highlights with relations and book information, keyed by id
+ */
+async function fetchHighlights(supabase: SupabaseClient, ids: string[], userId: string) {
+  const byId = new Map<string, Extract<UnifiedSearchResult, { type: 'highlight' }>['highlight']>();
+  if (ids.length === 0) return byId;
+
+  const { data, error } = await supabase
+    .from('highlights')
+    .select(`
+      *,
+      categories:highlight_categories(
+        category:categories(id, name)
+      ),
+      tags:highlight_tags(
+        tag:tags(id, name)
+      ),
+      highlight_notes(
+        note_id,
+        notes:note_id(content)
+      ),
+      book:books!highlights_book_id_fkey(
+        id,
+        rw_title,
+        rw_author,
+        rw_cover_image_url
+      )
+    `)
+    .in('id', ids)
+    .eq('user_id', userId)
+    .eq('highlight_notes.kind', 'attached');
+
+  if (error) throw new Error(`Failed to fetch highlight details: ${error.message}`);
+
+  (data || []).forEach((highlight: any) => {
+    byId.set(highlight.id, {
+      id: highlight.id,
+      bookId: highlight.book_id,
+      rwId: highlight.rw_id,
+      text: highlight.rw_text || '',
+      note: highlight.rw_note,
+      location: highlight.rw_location,
+      locationType: highlight.rw_location_type,
+      highlightedAt: highlight.rw_highlighted_at,
+      url: highlight.rw_url,
+      color: highlight.rw_color,
+      categories: (highlight.categories || []).map((catRel: any) => ({
+        id: catRel.category.id,
+        name: catRel.category.name
+      })),
+      tags: (highlight.tags || []).map((tagRel: any) => ({
+        id: tagRel.tag.id,
+        name: tagRel.tag.name
+      })),
+      userNote: highlight.highlight_notes?.[0]?.notes?.content || null,
+      createdAt: highlight.created_at,
+      updatedAt: highlight.updated_at,
+      book: highlight.book ? {
+        id: highlight.book.id,
+        title: highlight.book.rw_title || 'Untitled',
+        author: highlight.book.rw_author,
+        coverImageUrl: highlight.book.rw_cover_image_url
+      } : undefined
+    });
+  });
+
+  return byId;
+}
+
+/**
+ * Fetch sparks with categories and tags, keyed by id
+ */
+async function fetchSparks(supabase: SupabaseClient, ids: string[], userId: string) {
+  const byId = new Map<string, Extract<UnifiedSearchResult, { type: 'spark' }>['spark']>();
+  if (ids.length === 0) return byId;
+
+  const { data, error } = await supabase
+    .from('sparks')
+    .select(`
+      id,
+      body,
+      todo_created_at,
+      todo_id,
+      md5_uid,
+      created_at,
+      updated_at,
+      categories:spark_categories(
+        category:categories(id, name)
+      ),
+      tags:spark_tags(
+        tag:tags(id, name)
+      )
+    `)
+    .in('id', ids)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to fetch spark details: ${error.message}`);
+
+  (data || []).forEach((spark: any) => {
+    byId.set(spark.id, {
+      id: spark.id,
+      body: spark.body,
+      createdAt: spark.created_at,
+      todoCreatedAt: spark.todo_created_at,
+      todoId: spark.todo_id,
+      md5Uid: spark.md5_uid,
+      updatedAt: spark.updated_at,
+      categories: (spark.categories || [])
+        .filter((catRel: any) => catRel.category)
+        .map((catRel: any) => ({ id: catRel.category.id, name: catRel.category.name })),
+      tags: (spark.tags || [])
+        .filter((tagRel: any) => tagRel.tag)
+        .map((tagRel: any) => ({ id: tagRel.tag.id, name: tagRel.tag.name }))
+    });
+  });
+
+  return byId;
+}
+
+/**
+ * Fetch notes, keyed by id
+ */
+async function fetchNotes(supabase: SupabaseClient, ids: string[], userId: string) {
+  const byId = new Map<string, Extract<UnifiedSearchResult, { type: 'note' }>['note']>();
+  if (ids.length === 0) return byId;
+
+  const { data, error } = await supabase
+    .from('notes')
+    .select('id, title, content, created_at, updated_at')
+    .in('id', ids)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to fetch note details: ${error.message}`);
+
+  (data || []).forEach((note: any) => {
+    byId.set(note.id, {
+      id: note.id,
+      title: note.title || '',
+      content: note.content,
+      createdAt: note.created_at,
+      updatedAt: note.updated_at
+    });
+  });
+
+  return byId;
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
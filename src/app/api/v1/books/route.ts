@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { authenticateRequest, createErrorResponse } from '@/lib/api-utils';
+import { BookModel } from '@/lib/types';
+import {
+  afterCursorFilter,
+  createBookSchema,
+  decodeCursor,
+  listQuerySchema,
+  parseBody,
+  parseQuery,
+  toPage,
+  toPublicBook
+} from '@/lib/public-api';
+
+/**
+ * GET /api/v1/books
+ *
+ * List the user's books, newest first
+ *
+ * Query: cursor?, limit? (1-200, default 50)
+ * Response: { data: Book[], nextCursor: string | null }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'books:read');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: params, error: queryError } = parseQuery(request, listQuerySchema);
+    if (queryError) {
+      return queryError;
+    }
+
+    let query = createServerClient()
+      .from('books')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(params.limit + 1);
+
+    if (params.cursor) {
+      const position = decodeCursor(params.cursor);
+      if (!position) {
+        return createErrorResponse('Invalid cursor', 400);
+      }
+      query = query.or(afterCursorFilter(position));
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list books: ${error.message}`);
+    }
+
+    return NextResponse.json(toPage((data || []) as BookModel[], params.limit, toPublicBook));
+  } catch (error) {
+    console.error('Error in GET /api/v1/books:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+/**
+ * POST /api/v1/books
+ *
+ * Add a book. It is stored like a file import (source `api`), so Readwise syncs leave it alone.
+ *
+ * Body: { title, author?, category?, sourceUrl?, coverImageUrl? }
+ * Response (201): { data: Book }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'books:write');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: input, error: bodyError } = await parseBody(request, createBookSchema);
+    if (bodyError) {
+      return bodyError;
+    }
+
+    const { data, error } = await createServerClient()
+      .from('books')
+      .insert({
+        user_id: user.id,
+        rw_title: input.title,
+        rw_author: input.author || null,
+        rw_category: input.category || null,
+        rw_source_url: input.sourceUrl || null,
+        rw_cover_image_url: input.coverImageUrl || null,
+        source: 'api'
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create book: ${error.message}`);
+    }
+
+    return NextResponse.json({ data: toPublicBook(data as BookModel) }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/v1/books:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { authenticateRequest, createErrorResponse } from '@/lib/api-utils';
+import { HighlightModel } from '@/lib/types';
+import {
+  afterCursorFilter,
+  createHighlightSchema,
+  decodeCursor,
+  listHighlightsQuerySchema,
+  parseBody,
+  parseQuery,
+  toPage,
+  toPublicHighlight
+} from '@/lib/public-api';
+
+/**
+ * GET /api/v1/highlights
+ *
+ * List the user's highlights, newest first. Highlights in the trash are left out.
+ *
+ * Query: cursor?, limit? (1-200, default 50), bookId?
+ * Response: { data: Highlight[], nextCursor: string | null }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'highlights:read');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: params, error: queryError } = parseQuery(request, listHighlightsQuerySchema);
+    if (queryError) {
+      return queryError;
+    }
+
+    let query = createServerClient()
+      .from('highlights')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(params.limit + 1);
+
+    if (params.bookId) {
+      query = query.eq('book_id', params.bookId);
+    }
+
+    if (params.cursor) {
+      const position = decodeCursor(params.cursor);
+      if (!position) {
+        return createErrorResponse('Invalid cursor', 400);
+      }
+      query = query.or(afterCursorFilter(position));
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list highlights: ${error.message}`);
+    }
+
+    return NextResponse.json(toPage((data || []) as HighlightModel[], params.limit, toPublicHighlight));
+  } catch (error) {
+    console.error('Error in GET /api/v1/highlights:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+/**
+ * POST /api/v1/highlights
+ *
+ * Add a highlight to one of the user's books (source `api`)
+ *
+ * Body: { bookId, text, note?, location?, locationType?, highlightedAt?, url?, color? }
+ * Response (201): { data: Highlight }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'highlights:write');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: input, error: bodyError } = await parseBody(request, createHighlightSchema);
+    if (bodyError) {
+      return bodyError;
+    }
+
+    const supabase = createServerClient();
+
+    // The service role bypasses RLS, so check the book belongs to the token's owner
+    const { data: book, error: bookError } = await supabase
+      .from('books')
+      .select('id')
+      .eq('id', input.bookId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (bookError) {
+      throw new Error(`Failed to look up book: ${bookError.message}`);
+    }
+
+    if (!book) {
+      return createErrorResponse('Book not found', 400);
+    }
+
+    const { data, error } = await supabase
+      .from('highlights')
+      .insert({
+        user_id: user.id,
+        book_id: input.bookId,
+        rw_text: input.text,
+        rw_note: input.note || null,
+        rw_location: input.location || null,
+        rw_location_type: input.locationType || null,
+        rw_highlighted_at: input.highlightedAt || null,
+        rw_url: input.url || null,
+        rw_color: input.color || null,
+        source: 'api'
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create highlight: ${error.message}`);
+    }
+
+    return NextResponse.json({ data: toPublicHighlight(data as HighlightModel) }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/v1/highlights:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
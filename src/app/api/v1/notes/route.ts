@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { authenticateRequest, createErrorResponse } from '@/lib/api-utils';
+import { NoteModel } from '@/lib/types';
+import {
+  afterCursorFilter,
+  createNoteSchema,
+  decodeCursor,
+  listQuerySchema,
+  parseBody,
+  parseQuery,
+  toPage,
+  toPublicNote
+} from '@/lib/public-api';
+
+/**
+ * GET /api/v1/notes
+ *
+ * List the user's notes, newest first
+ *
+ * Query: cursor?, limit? (1-200, default 50)
+ * Response: { data: Note[], nextCursor: string | null }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'notes:read');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: params, error: queryError } = parseQuery(request, listQuerySchema);
+    if (queryError) {
+      return queryError;
+    }
+
+    let query = createServerClient()
+      .from('notes')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(params.limit + 1);
+
+    if (params.cursor) {
+      const position = decodeCursor(params.cursor);
+      if (!position) {
+        return createErrorResponse('Invalid cursor', 400);
+      }
+      query = query.or(afterCursorFilter(position));
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list notes: ${error.message}`);
+    }
+
+    return NextResponse.json(toPage((data || []) as NoteModel[], params.limit, toPublicNote));
+  } catch (error) {
+    console.error('Error in GET /api/v1/notes:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+/**
+ * POST /api/v1/notes
+ *
+ * Create a note
+ *
+ * Body: { title?, content }
+ * Response (201): { data: Note }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'notes:write');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: input, error: bodyError } = await parseBody(request, createNoteSchema);
+    if (bodyError) {
+      return bodyError;
+    }
+
+    const { data, error } = await createServerClient()
+      .from('notes')
+      .insert({
+        user_id: user.id,
+        title: input.title || null,
+        content: input.content
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create note: ${error.message}`);
+    }
+
+    return NextResponse.json({ data: toPublicNote(data as NoteModel) }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/v1/notes:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
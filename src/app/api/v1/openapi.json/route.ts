@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/public-api';
+
+/**
+ * GET /api/v1/openapi.json
+ *
+ * OpenAPI document for the public REST API, generated from its zod schemas.
+ * Public, so API clients and code generators can fetch it without a token.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(`${request.nextUrl.origin}/api/v1`));
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
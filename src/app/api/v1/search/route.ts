@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { authenticateRequest, createErrorResponse } from '@/lib/api-utils';
+import { HighlightModel, NoteModel, SearchContentType, SparkModel } from '@/lib/types';
+import { idsOfType, rankSearchMatches } from '@/lib/search';
+import {
+  parseQuery,
+  PublicSearchResult,
+  searchQuerySchema,
+  toPublicHighlight,
+  toPublicNote,
+  toPublicSpark
+} from '@/lib/public-api';
+
+const SEARCH_TABLES: Record<SearchContentType, string> = {
+  highlight: 'highlights',
+  spark: 'sparks',
+  note: 'notes'
+};
+
+/**
+ * GET /api/v1/search
+ *
+ * Search highlights, sparks and notes together, best match first
+ *
+ * Query: q, mode? (keyword | semantic | hybrid, default hybrid), types? (comma-separated), limit? (1-100, default 10)
+ * Response: { data: SearchResult[] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'search');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: params, error: queryError } = parseQuery(request, searchQuerySchema);
+    if (queryError) {
+      return queryError;
+    }
+
+    const supabase = createServerClient();
+
+    const matches = await rankSearchMatches(supabase, {
+      userId: user.id,
+      query: params.q,
+      mode: params.mode,
+      types: params.types,
+      limit: params.limit
+    });
+
+    const fetchRows = async (type: SearchContentType) => {
+      const ids = idsOfType(matches, type);
+      if (ids.length === 0) return new Map<string, any>();
+
+      let query = supabase
+        .from(SEARCH_TABLES[type])
+        .select('*')
+        .in('id', ids)
+        .eq('user_id', user.id);
+
+      // Trashed highlights can still be in the search indexes
+      if (type === 'highlight') {
+        query = query.is('deleted_at', null);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to fetch ${type} details: ${error.message}`);
+      }
+      return new Map<string, any>((data || []).map((row: any) => [row.id, row]));
+    };
+
+    const [highlights, sparks, notes] = await Promise.all([
+      fetchRows('highlight'),
+      fetchRows('spark'),
+      fetchRows('note')
+    ]);
+
+    // Keep the ranking order while attaching the records
+    const data = matches
+      .map((match): PublicSearchResult | null => {
+        switch (match.type) {
+          case 'highlight': {
+            const row = highlights.get(match.id) as HighlightModel | undefined;
+            return row ? { type: 'highlight', score: match.score, highlight: toPublicHighlight(row) } : null;
+          }
+          case 'spark': {
+            const row = sparks.get(match.id) as SparkModel | undefined;
+            return row ? { type: 'spark', score: match.score, spark: toPublicSpark(row) } : null;
+          }
+          case 'note': {
+            const row = notes.get(match.id) as NoteModel | undefined;
+            return row ? { type: 'note', score: match.score, note: toPublicNote(row) } : null;
+          }
+        }
+      })
+      .filter((result): result is PublicSearchResult => result !== null);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/v1/search:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { authenticateRequest, createErrorResponse } from '@/lib/api-utils';
+import { sha256Hex } from '@/lib/api-tokens';
+import { SparkModel } from '@/lib/types';
+import {
+  afterCursorFilter,
+  createSparkSchema,
+  decodeCursor,
+  listQuerySchema,
+  parseBody,
+  parseQuery,
+  toPage,
+  toPublicSpark
+} from '@/lib/public-api';
+
+/**
+ * GET /api/v1/sparks
+ *
+ * List the user's sparks, newest first
+ *
+ * Query: cursor?, limit? (1-200, default 50)
+ * Response: { data: Spark[], nextCursor: string | null }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'sparks:read');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: params, error: queryError } = parseQuery(request, listQuerySchema);
+    if (queryError) {
+      return queryError;
+    }
+
+    let query = createServerClient()
+      .from('sparks')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(params.limit + 1);
+
+    if (params.cursor) {
+      const position = decodeCursor(params.cursor);
+      if (!position) {
+        return createErrorResponse('Invalid cursor', 400);
+      }
+      query = query.or(afterCursorFilter(position));
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list sparks: ${error.message}`);
+    }
+
+    return NextResponse.json(toPage((data || []) as SparkModel[], params.limit, toPublicSpark));
+  } catch (error) {
+    console.error('Error in GET /api/v1/sparks:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+/**
+ * POST /api/v1/sparks
+ *
+ * Capture a spark. Deduped like captures in the app: if the user already has a spark
+ * with the same text, that one is returned with status 200 instead of creating another.
+ *
+ * Body: { body }
+ * Response (201 or 200): { data: Spark }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request, undefined, 'sparks:write');
+    if (authError || !user) {
+      return authError || createErrorResponse('Authentication required', 401);
+    }
+
+    const { data: input, error: bodyError } = await parseBody(request, createSparkSchema);
+    if (bodyError) {
+      return bodyError;
+    }
+
+    const supabase = createServerClient();
+
+    // Same hash as sparksService.getDedupeHash, so app and API captures dedupe against each other
+    const md5Uid = await sha256Hex(`${user.id}:${input.body.replace(/\r\n/g, '\n').trim()}`);
+
+    const findExisting = async () => {
+      const { data, error } = await supabase
+        .from('sparks')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('md5_uid', md5Uid)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to look up spark: ${error.message}`);
+      }
+      return data as SparkModel | null;
+    };
+
+    const existing = await findExisting();
+    if (existing) {
+      return NextResponse.json({ data: toPublicSpark(existing) });
+    }
+
+    const { data, error } = await supabase
+      .from('sparks')
+      .insert({
+        user_id: user.id,
+        body: input.body,
+        md5_uid: md5Uid
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // A concurrent request with the same text won the race
+      if (error.code === '23505') {
+        const raced = await findExisting();
+        if (raced) {
+          return NextResponse.json({ data: toPublicSpark(raced) });
+        }
+      }
+      throw new Error(`Failed to create spark: ${error.message}`);
+    }
+
+    return NextResponse.json({ data: toPublicSpark(data as SparkModel) }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/v1/sparks:', error);
+    return createErrorResponse('Internal server error');
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
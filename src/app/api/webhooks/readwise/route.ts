@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+import { inngest } from '@/inngest';
+import { createServerClient } from '@/lib/supabase';
+import { createErrorResponse, createSuccessResponse } from '@/lib/api-utils';
+import { getIntegrationCredential } from '@/lib/integration-credentials';
+
+/**
+ * Collect the Readwise book IDs a webhook payload refers to
+ * Highlight events carry `book_id`; `book_ids` lets other callers pass several at once.
+ */
+function getBookIds(payload: any): number[] {
+  const ids = [
+    payload?.book_id,
+    ...(Array.isArray(payload?.book_ids) ? payload.book_ids : [])
+  ];
+
+  return [...new Set(ids.map(Number).filter(id => Number.isInteger(id) && id > 0))];
+}
+
+/**
+ * POST /api/webhooks/readwise
+ *
+ * Receives Readwise webhooks and queues a sync of just the books that changed, so new
+ * highlights show up within minutes instead of at the next scheduled sync. Payloads
+ * without a book ID queue a regular incremental highlights sync.
+ *
+ * No session: the `secret` in the body (set when creating the webhook in Readwise) is
+ * the only credential and identifies the user.
+ */
+export async function POST(request: NextRequest) {
+  const payload = await request.json().catch(() => null);
+  const secret = typeof payload?.secret === 'string' ? payload.secret : null;
+
+  if (!secret) {
+    return createErrorResponse('Missing webhook secret', 401);
+  }
+
+  try {
+    const supabase = createServerClient();
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('id')
+      .eq('settings->integrations->readwise->>webhookSecret', secret)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return createErrorResponse('Invalid webhook secret', 401);
+    }
+
+    // The sync resolves the token itself, so it never ends up in the event payload
+    const apiKey = await getIntegrationCredential(supabase, data.id, 'readwise');
+    if (!apiKey) {
+      return createErrorResponse('Readwise is not connected for this account', 409);
+    }
+
+    const bookIds = getBookIds(payload);
+
+    if (bookIds.length > 0) {
+      await inngest.send({
+        name: "readwise/sync-changed-books",
+        data: { userId: data.id, bookIds }
+      });
+    } else {
+      await inngest.send({
+        name: "readwise/sync-highlights",
+        data: { userId: data.id }
+      });
+    }
+
+    return createSuccessResponse(
+      { queued: true, bookIds },
+      bookIds.length > 0 ? 'Sync of changed books queued' : 'Highlights sync queued'
+    );
+  } catch (error) {
+    console.error('API Error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to handle Readwise webhook'
+    );
+  }
+}
+
+// Add the dynamic export to force this to be a dynamic route
+export const dynamic = 'force-dynamic';
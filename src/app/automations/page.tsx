@@ -4,7 +4,8 @@ import { useState, useEffect, useMemo } from "react";
 import { useCategorization } from "@/lib/categorization";
 import { CategorizationAutomation } from "@/lib/categorization/types";
 import { toast } from "react-toastify";
-import { Check, X, Info, Search, RotateCcw } from "lucide-react";
+import Link from "next/link";
+import { Check, X, Info, Search, RotateCcw, ListChecks } from "lucide-react";
 import { 
   Table, 
   TableColumn, 
@@ -137,13 +138,13 @@ export default function ContextAutomationsPage() {
     }
   };
 
-  // Approve an automation
-  const handleApproveAutomation = async (automationId: string) => {
+  // Approve an automation, or only some of its actions
+  const handleApproveAutomation = async (automationId: string, actionIds?: string[]) => {
     setActionLoading(true);
     try {
-      const result = await categorization.automations.approveAutomation(automationId);
+      const result = await categorization.automations.approveAutomation(automationId, actionIds);
       if (result.success) {
-        toast.success("Automation approved successfully");
+        toast.success(actionIds ? "Action approved" : "Automation approved successfully");
         fetchAutomations();
         if (selectedAutomation?.id === automationId) {
           // Reload the selected automation to reflect changes
@@ -152,6 +153,12 @@ export default function ContextAutomationsPage() {
         }
       } else {
         toast.error(`Failed to approve automation: ${result.error}`);
+        // Some actions may still have been applied
+        fetchAutomations();
+        if (selectedAutomation?.id === automationId) {
+          const updatedAutomation = await categorization.automations.getAutomation(automationId);
+          setSelectedAutomation(updatedAutomation);
+        }
       }
     } catch (error) {
       console.error("Error approving automation:", error);
@@ -161,13 +168,13 @@ export default function ContextAutomationsPage() {
     }
   };
 
-  // Reject an automation
-  const handleRejectAutomation = async (automationId: string) => {
+  // Reject an automation, or only some of its actions
+  const handleRejectAutomation = async (automationId: string, actionIds?: string[]) => {
     setActionLoading(true);
     try {
-      const result = await categorization.automations.rejectAutomation(automationId);
+      const result = await categorization.automations.rejectAutomation(automationId, actionIds);
       if (result.success) {
-        toast.success("Automation rejected and changes reverted");
+        toast.success(actionIds ? "Action rejected" : "Automation rejected and changes reverted");
         fetchAutomations();
         if (selectedAutomation?.id === automationId) {
           // Reload the selected automation to reflect changes
@@ -185,13 +192,13 @@ export default function ContextAutomationsPage() {
     }
   };
   
-  // Revert an approved automation
-  const handleRevertAutomation = async (automationId: string) => {
+  // Revert an approved automation, or only some of its executed actions
+  const handleRevertAutomation = async (automationId: string, actionIds?: string[]) => {
     setActionLoading(true);
     try {
-      const result = await categorization.automations.revertAutomation(automationId);
+      const result = await categorization.automations.revertAutomation(automationId, actionIds);
       if (result.success) {
-        toast.success("Automation reverted successfully");
+        toast.success(actionIds ? "Action reverted" : "Automation reverted successfully");
         fetchAutomations();
         if (selectedAutomation?.id === automationId) {
           // Reload the selected automation to reflect changes
@@ -216,6 +223,8 @@ export default function ContextAutomationsPage() {
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
       case 'approved':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'partially_approved':
+        return 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200';
       case 'rejected':
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       case 'reverted':
@@ -225,6 +234,16 @@ export default function ContextAutomationsPage() {
     }
   };
   
+  // Statuses are stored in snake_case
+  const formatStatus = (status?: string) => (status || 'pending').replace(/_/g, ' ');
+  
+  // Actions can be reviewed individually until nothing is left pending
+  const isReviewable = (automation: CategorizationAutomation) =>
+    automation.status === 'pending' || automation.status === 'partially_approved';
+  
+  const hasAppliedActions = (automation: CategorizationAutomation) =>
+    automation.status === 'approved' || automation.status === 'partially_approved';
+  
   // Get action status class based on action status
   const getActionStatusClass = (status?: string) => {
     switch (status) {
@@ -274,8 +293,8 @@ export default function ContextAutomationsPage() {
       headerClassName: "px-3 py-2",
       cell: (automation) => (
         <div className="px-3 py-2">
-          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(automation.status || 'pending')}`}>
-            {automation.status || 'pending'}
+          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${getStatusBadgeClass(automation.status || 'pending')}`}>
+            {formatStatus(automation.status)}
           </span>
         </div>
       )
@@ -333,7 +352,7 @@ export default function ContextAutomationsPage() {
             </>
           )}
           
-          {automation.status === 'approved' && (
+          {hasAppliedActions(automation) && (
             <Button
               variant="outline"
               size="sm"
@@ -352,11 +371,19 @@ export default function ContextAutomationsPage() {
 
   return (
     <div className="container mx-auto px-2 sm:px-4 py-6 max-w-screen-xl">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold mb-2">Automation Logs</h1>
-        <p className="text-gray-500 dark:text-gray-400">
-          Manage and review categorization automations for your content
-        </p>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold mb-2">Automation Logs</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Manage and review categorization automations for your content
+          </p>
+        </div>
+        <Link href="/automations/rules" className="shrink-0">
+          <Button variant="outline">
+            <ListChecks className="h-4 w-4 mr-1" />
+            Manage rules
+          </Button>
+        </Link>
       </div>
       
       {/* Filters and Search */}
@@ -393,6 +420,7 @@ export default function ContextAutomationsPage() {
             <option value="">All Status</option>
             <option value="pending">Pending</option>
             <option value="approved">Approved</option>
+            <option value="partially_approved">Partially Approved</option>
             <option value="rejected">Rejected</option>
             <option value="reverted">Reverted</option>
           </select>
@@ -486,7 +514,7 @@ export default function ContextAutomationsPage() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md">
                 <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Status</h3>
-                <p className="text-base font-medium">{selectedAutomation.status || "pending"}</p>
+                <p className="text-base font-medium capitalize">{formatStatus(selectedAutomation.status)}</p>
               </div>
               
               <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-md">
@@ -524,6 +552,7 @@ export default function ContextAutomationsPage() {
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Resource</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Details</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Review</th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200 dark:bg-gray-900 dark:divide-gray-700">
@@ -539,7 +568,7 @@ export default function ContextAutomationsPage() {
                               <span className="text-gray-400">N/A</span>
                             )}
                           </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          <td className="px-4 py-3 text-sm">
                             {action.actionData.action === 'create_category' && (
                               <span>Created category: {action.actionData.category_name}</span>
                             )}
@@ -547,10 +576,25 @@ export default function ContextAutomationsPage() {
                               <span>Created tag: {action.actionData.tag_name}</span>
                             )}
                             {action.actionData.action === 'add_category' && (
-                              <span>Added category ID: {action.actionData.category_id}</span>
+                              action.actionData.category_name
+                                ? <span>Added category: {action.actionData.category_name}</span>
+                                : <span>Added category ID: {action.actionData.category_id}</span>
                             )}
                             {action.actionData.action === 'add_tag' && (
-                              <span>Added tag ID: {action.actionData.tag_id}</span>
+                              action.actionData.tag_name
+                                ? <span>Added tag: {action.actionData.tag_name}</span>
+                                : <span>Added tag ID: {action.actionData.tag_id}</span>
+                            )}
+                            {/* AI suggestions carry the model's confidence and reasoning */}
+                            {typeof action.actionData.confidence === 'number' && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                {Math.round(action.actionData.confidence * 100)}% confidence
+                              </div>
+                            )}
+                            {action.actionData.rationale && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 max-w-xs">
+                                {action.actionData.rationale}
+                              </div>
                             )}
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm">
@@ -563,6 +607,46 @@ export default function ContextAutomationsPage() {
                               </div>
                             )}
                           </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                            <div className="flex justify-end gap-1">
+                              {isReviewable(selectedAutomation) && (action.status === 'pending' || action.status === 'failed') && (
+                                <>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="text-green-600 border-green-200 hover:bg-green-50 hover:border-green-300 dark:text-green-400 dark:border-green-800 dark:hover:bg-green-900/30 px-2 h-7"
+                                    onClick={() => selectedAutomation.id && action.id && handleApproveAutomation(selectedAutomation.id, [action.id])}
+                                    disabled={actionLoading}
+                                    title={action.status === 'failed' ? "Retry action" : "Approve action"}
+                                  >
+                                    <Check className="h-3.5 w-3.5" />
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300 dark:text-red-400 dark:border-red-800 dark:hover:bg-red-900/30 px-2 h-7"
+                                    onClick={() => selectedAutomation.id && action.id && handleRejectAutomation(selectedAutomation.id, [action.id])}
+                                    disabled={actionLoading || action.status === 'failed'}
+                                    title="Reject action"
+                                  >
+                                    <X className="h-3.5 w-3.5" />
+                                  </Button>
+                                </>
+                              )}
+                              {hasAppliedActions(selectedAutomation) && action.status === 'executed' && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-orange-600 border-orange-200 hover:bg-orange-50 hover:border-orange-300 dark:text-orange-400 dark:border-orange-800 dark:hover:bg-orange-900/30 px-2 h-7"
+                                  onClick={() => selectedAutomation.id && action.id && handleRevertAutomation(selectedAutomation.id, [action.id])}
+                                  disabled={actionLoading}
+                                  title="Revert action"
+                                >
+                                  <RotateCcw className="h-3.5 w-3.5" />
+                                </Button>
+                              )}
+                            </div>
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -580,7 +664,7 @@ export default function ContextAutomationsPage() {
                 Close
               </Button>
               
-              {selectedAutomation.status === 'pending' && (
+              {isReviewable(selectedAutomation) && selectedAutomation.actions.some(action => action.status === 'pending') && (
                 <>
                   <Button
                     variant="destructive"
@@ -592,7 +676,7 @@ export default function ContextAutomationsPage() {
                     }}
                     disabled={actionLoading}
                   >
-                    <X className="h-4 w-4 mr-1" /> Reject
+                    <X className="h-4 w-4 mr-1" /> {selectedAutomation.status === 'pending' ? 'Reject' : 'Reject Remaining'}
                   </Button>
                   <Button
                     variant="primary"
@@ -604,12 +688,12 @@ export default function ContextAutomationsPage() {
                     }}
                     disabled={actionLoading}
                   >
-                    <Check className="h-4 w-4 mr-1" /> Approve
+                    <Check className="h-4 w-4 mr-1" /> {selectedAutomation.status === 'pending' ? 'Approve' : 'Approve Remaining'}
                   </Button>
                 </>
               )}
               
-              {selectedAutomation.status === 'approved' && (
+              {hasAppliedActions(selectedAutomation) && (
                 <Button
                   variant="destructive"
                   onClick={() => {
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, ListChecks, Plus } from "lucide-react";
+import { useAutomationRules } from "@/hooks";
+import { RuleEditor, RulesList } from "@/components/AutomationRules";
+import { Button, LoadingPlaceholder } from "@/components/ui";
+import { AutomationRule } from "@/lib/categorization/types";
+
+export default function AutomationRulesPage() {
+  const { rules, isLoading, isSaving, saveRule, deleteRule, toggleRule, previewRule, runRuleNow } = useAutomationRules();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+
+  const openEditor = (rule: AutomationRule | null) => {
+    setEditingRule(rule);
+    setEditorOpen(true);
+  };
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-6 max-w-screen-lg">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <Link
+            href="/automations"
+            className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 mb-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Automation Logs
+          </Link>
+          <h1 className="flex items-center gap-2 text-2xl font-bold mb-2">
+            <ListChecks className="h-6 w-6" />
+            Automation Rules
+          </h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Rules run after each Readwise sync and Airtable import. Matches wait for your review on
+            the automation logs, unless the rule is trusted.
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} className="shrink-0">
+          <Plus className="h-4 w-4 mr-1" />
+          New rule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <LoadingPlaceholder text="Loading rules..." />
+      ) : rules.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-700 p-8 text-center text-gray-500 dark:text-gray-400">
+          No rules yet. Create one to label new highlights, books or sparks automatically.
+        </div>
+      ) : (
+        <RulesList
+          rules={rules}
+          onEdit={openEditor}
+          onToggle={toggleRule}
+          onDelete={deleteRule}
+          onRun={runRuleNow}
+        />
+      )}
+
+      <RuleEditor
+        isOpen={editorOpen}
+        rule={editingRule}
+        isSaving={isSaving}
+        onClose={() => setEditorOpen(false)}
+        onSave={saveRule}
+        onPreview={previewRule}
+      />
+    </div>
+  );
+}
@@ -2,16 +2,20 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { services, categoryService } from '@/services';
+import Link from 'next/link';
+import { labelsService } from '@/services';
 import { Button } from '@/components/ui/button';
 import { Category, Resource } from '@/lib/categorization/types';
-import { ArrowLeft, BookIcon, SparklesIcon, HighlighterIcon } from 'lucide-react';
+import { ArrowLeft, BookIcon, SparklesIcon, HighlighterIcon, FolderIcon } from 'lucide-react';
 
 export default function CategoryPage() {
   const router = useRouter();
   const params = useParams();
   const slug = params.slug as string;
   const [category, setCategory] = useState<Category | null>(null);
+  const [parent, setParent] = useState<Category | null>(null);
+  const [subcategories, setSubcategories] = useState<Category[]>([]);
+  const [includeSubcategories, setIncludeSubcategories] = useState(true);
   const [resources, setResources] = useState<Resource[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -22,21 +26,19 @@ export default function CategoryPage() {
       setError(null);
       
       try {
-        // Use imported category service
-        const categories = await categoryService.getCategories();
-        const categoryData = categories.find(c => c.slug === slug);
+        // Resources of subcategories are rolled up into the parent
+        const rollup = await labelsService.getCategoryRollup(slug, includeSubcategories);
         
-        if (!categoryData) {
+        if (!rollup) {
           setError('Category not found');
           setLoading(false);
           return;
         }
         
-        setCategory(categoryData);
-        
-        // Fetch resources for this category
-        const categoryResources = await categoryService.getResourcesForCategory(categoryData.id);
-        setResources(categoryResources);
+        setCategory(rollup.category);
+        setParent(rollup.parent);
+        setSubcategories(rollup.subcategories);
+        setResources(rollup.resources);
       } catch (err) {
         console.error('Error loading category data:', err);
         setError('Failed to load category data');
@@ -46,7 +48,7 @@ export default function CategoryPage() {
     };
     
     loadCategoryData();
-  }, [slug]);
+  }, [slug, includeSubcategories]);
 
   const getResourceIcon = (type: string) => {
     switch (type) {
@@ -130,11 +132,47 @@ export default function CategoryPage() {
           <div>
             <span className="font-semibold">Slug:</span> {category?.slug}
           </div>
+          {parent && (
+            <div>
+              <span className="font-semibold">Parent:</span>{' '}
+              <Link href={`/category/${parent.slug}`} className="hover:underline">{parent.name}</Link>
+            </div>
+          )}
         </div>
       </div>
 
+      {subcategories.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6 dark:bg-neutral-800">
+          <h2 className="text-xl font-semibold mb-4">Subcategories ({subcategories.length})</h2>
+          <div className="flex flex-wrap gap-2">
+            {subcategories.map((subcategory) => (
+              <Link
+                key={subcategory.id}
+                href={`/category/${subcategory.slug}`}
+                className="flex items-center gap-1 rounded-md border px-2 py-1 text-sm hover:bg-slate-100 dark:hover:bg-neutral-700"
+              >
+                <FolderIcon className="h-4 w-4" />
+                {subcategory.name}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow p-6 dark:bg-neutral-800">
-        <h2 className="text-xl font-semibold mb-4">Resources ({resources.length})</h2>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold">Resources ({resources.length})</h2>
+          {subcategories.length > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeSubcategories}
+                onChange={(e) => setIncludeSubcategories(e.target.checked)}
+              />
+              Include subcategories
+            </label>
+          )}
+        </div>
         {resources.length === 0 ? (
           <p>No resources have been tagged with this category.</p>
         ) : (
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { Share2 } from "lucide-react";
+import { useKnowledgeGraph } from "@/hooks";
+import { KnowledgeGraph } from "@/components/Graph";
+import { SparkPreviewPanel } from "@/components/SparkPreview";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function GraphPage() {
+  const { nodes, edges, isLoading } = useKnowledgeGraph();
+  const [previewSparkId, setPreviewSparkId] = useState<string | null>(null);
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2 mb-2">
+          <Share2 className="h-6 w-6" />
+          Knowledge Graph
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          How your notes connect to each other and to books, highlights and sparks. Link from a
+          note with [[Title]] or mention a highlight or spark with @.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-[70vh] w-full" />
+      ) : nodes.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          No connections yet. Link a note to something and it will show up here.
+        </div>
+      ) : (
+        <KnowledgeGraph nodes={nodes} edges={edges} onOpenSpark={setPreviewSparkId} />
+      )}
+
+      <SparkPreviewPanel
+        sparkId={previewSparkId}
+        onClose={() => setPreviewSparkId(null)}
+        position={{ top: 96, right: 24 }}
+        zIndex={50}
+      />
+    </div>
+  );
+}
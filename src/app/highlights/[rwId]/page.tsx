@@ -4,7 +4,8 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import { useBooksService } from '@/hooks';
 import { BookDomain, HighlightDomain } from '@/lib/types'; 
-import { HighlightsList } from '@/components/Highlights';
+import { HighlightsList, RelatedHighlights } from '@/components/Highlights';
+import { BacklinksPanel } from '@/components/NoteLinks';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ExternalLink, Calendar, Book, Hash } from 'lucide-react';
 import Image from 'next/image';
@@ -190,6 +191,23 @@ export default function HighlightsDetailsPage() {
           </div>
         )}
         
+        {/* Notes linking to the book or its highlights */}
+        <BacklinksPanel
+          entityType="book"
+          entityId={book.id}
+          className="bg-muted/50 p-4 rounded-lg border"
+        />
+        
+        {/* Related highlights from other books */}
+        <div className="bg-muted/50 p-4 rounded-lg border">
+          <RelatedHighlights
+            source={{ bookId: book.id }}
+            limit={6}
+            title="Related from other books"
+            showSameBookToggle={false}
+          />
+        </div>
+        
         {/* Book Highlights Section */}
         <HighlightsList highlights={highlights} />
       </div>
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { Combine, FolderIcon, Tags, Trash2 } from "lucide-react";
+import { useLabelManagement, LabelKind } from "@/hooks";
+import { LabelTable, MergeLabelsModal } from "@/components/Labels";
+import { Button, LoadingPlaceholder } from "@/components/ui";
+
+export default function LabelsPage() {
+  const { categories, tags, isLoading, isWorking, rename, merge, remove, setParent } = useLabelManagement();
+  const [kind, setKind] = useState<LabelKind>("category");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeOpen, setMergeOpen] = useState(false);
+
+  const labels = kind === "category" ? categories : tags;
+  const selected = labels.filter(label => selectedIds.includes(label.id));
+  const plural = kind === "category" ? "categories" : "tags";
+
+  const switchKind = (next: LabelKind) => {
+    setKind(next);
+    setSelectedIds([]);
+  };
+
+  const handleDelete = async () => {
+    const links = selected.reduce((sum, label) => sum + label.usageCount, 0);
+    if (!confirm(`Delete ${selected.length} ${plural}? They will be removed from ${links} items.`)) {
+      return;
+    }
+
+    if (await remove(kind, selectedIds)) {
+      setSelectedIds([]);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-6 max-w-screen-lg">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold mb-2">Categories &amp; Tags</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Rename, merge, delete and nest your categories and tags. A category page also shows
+          everything in its subcategories.
+        </p>
+      </div>
+
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700 p-1">
+          <Button variant={kind === "category" ? "secondary" : "ghost"} size="sm" onClick={() => switchKind("category")}>
+            <FolderIcon className="h-4 w-4 mr-1" />
+            Categories ({categories.length})
+          </Button>
+          <Button variant={kind === "tag" ? "secondary" : "ghost"} size="sm" onClick={() => switchKind("tag")}>
+            <Tags className="h-4 w-4 mr-1" />
+            Tags ({tags.length})
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {selected.length > 0 && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">{selected.length} selected</span>
+          )}
+          <Button variant="outline" size="sm" disabled={selected.length < 2 || isWorking} onClick={() => setMergeOpen(true)}>
+            <Combine className="h-4 w-4 mr-1" />
+            Merge
+          </Button>
+          <Button variant="destructive" size="sm" disabled={selected.length === 0 || isWorking} onClick={handleDelete}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <LoadingPlaceholder text={`Loading ${plural}...`} />
+      ) : (
+        <LabelTable
+          kind={kind}
+          labels={labels}
+          selectedIds={selectedIds}
+          disabled={isWorking}
+          onSelectionChange={setSelectedIds}
+          onRename={(id, name) => rename(kind, id, name)}
+          onSetParent={kind === "category" ? setParent : undefined}
+        />
+      )}
+
+      <MergeLabelsModal
+        isOpen={mergeOpen}
+        kind={kind}
+        labels={selected}
+        isWorking={isWorking}
+        onClose={() => setMergeOpen(false)}
+        onMerge={async (targetId) => {
+          const merged = await merge(kind, selectedIds, targetId);
+          if (merged) {
+            setSelectedIds([]);
+          }
+          return merged;
+        }}
+      />
+    </div>
+  );
+}
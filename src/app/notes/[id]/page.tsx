@@ -2,11 +2,12 @@
 
 import { useState, useEffect, FormEvent } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { useNotesService } from '@/hooks';
+import { useNotesService, useNoteLinks } from '@/hooks';
 import { NoteDomain } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { BacklinksPanel, LinkSuggestTextarea, NoteContent } from '@/components/NoteLinks';
+import { SparkPreviewPanel } from '@/components/SparkPreview';
 import { StickyNote, ArrowLeft, Save, Trash2 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'react-toastify';
@@ -23,6 +24,8 @@ export default function NoteDetailsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [previewSparkId, setPreviewSparkId] = useState<string | null>(null);
+  const { links, refresh: refreshLinks } = useNoteLinks('note', noteId);
 
   // Fetch note data on component mount
   useEffect(() => {
@@ -69,6 +72,8 @@ export default function NoteDetailsPage() {
         toast.success('Note updated successfully');
         setNote(updatedNote);
         setIsEditing(false);
+        // The database re-resolved the note's links on save
+        refreshLinks();
       } else {
         toast.error('Failed to update note');
       }
@@ -189,10 +194,10 @@ export default function NoteDetailsPage() {
               />
             </div>
             <div>
-              <Textarea
-                placeholder="Note content..."
+              <LinkSuggestTextarea
+                placeholder="Note content... Link with [[Note title]] or mention a highlight or spark with @"
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
+                onChange={setContent}
                 className="w-full min-h-[300px]"
                 required
               />
@@ -204,11 +209,30 @@ export default function NoteDetailsPage() {
               Last updated: {new Date(note.updatedAt).toLocaleString()}
             </div>
             <div className="bg-muted/30 p-6 rounded-lg border whitespace-pre-wrap">
-              {note.content}
+              <NoteContent
+                content={note.content}
+                links={links.filter(link => link.noteId === noteId)}
+                onOpenSpark={setPreviewSparkId}
+              />
             </div>
           </div>
         )}
+
+        <BacklinksPanel
+          entityType="note"
+          entityId={noteId}
+          links={links}
+          onOpenSpark={setPreviewSparkId}
+          className="bg-muted/50 p-4 rounded-lg border"
+        />
       </div>
+
+      <SparkPreviewPanel
+        sparkId={previewSparkId}
+        onClose={() => setPreviewSparkId(null)}
+        position={{ top: 96, right: 24 }}
+        zIndex={50}
+      />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { GraduationCap, CheckCircle2, RefreshCw } from 'lucide-react';
+import { useReviewQueue } from '@/hooks';
+import { ReviewCard, ReviewFilters } from '@/components/Review';
+import { Button, LoadingPlaceholder } from '@/components/ui';
+import { ReviewQueueFilters } from '@/lib/types';
+
+export default function ReviewPage() {
+  const [filters, setFilters] = useState<ReviewQueueFilters>({});
+  const { queue, current, reviewedCount, isLoading, isGrading, error, refresh, grade } = useReviewQueue(filters);
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-semibold">
+            <GraduationCap className="h-6 w-6" />
+            Daily Review
+          </h1>
+          <p className="mt-1 text-sm text-neutral-500 dark:text-neutral-400">
+            Resurface highlights on a spaced-repetition schedule. Highlights marked &quot;never&quot; won&apos;t come back.
+          </p>
+        </div>
+        {!isLoading && (
+          <span className="text-sm text-muted-foreground whitespace-nowrap">
+            {queue.length} left · {reviewedCount} reviewed
+          </span>
+        )}
+      </div>
+
+      <ReviewFilters filters={filters} onChange={setFilters} />
+
+      {isLoading && <LoadingPlaceholder text="Loading today's review..." />}
+
+      {error && !isLoading && (
+        <div className="text-sm text-destructive">Error: {error.message}</div>
+      )}
+
+      {!isLoading && !error && !current && (
+        <div className="border border-dashed rounded-lg py-12 text-center space-y-3">
+          <CheckCircle2 className="h-8 w-8 mx-auto text-green-600 dark:text-green-400" />
+          <p className="font-medium">You&apos;re done for today</p>
+          <p className="text-sm text-muted-foreground">
+            {reviewedCount > 0
+              ? `You reviewed ${reviewedCount} ${reviewedCount === 1 ? 'highlight' : 'highlights'}.`
+              : 'Nothing is due with these filters.'}
+          </p>
+          <Button variant="outline" size="sm" onClick={refresh}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Check again
+          </Button>
+        </div>
+      )}
+
+      {!isLoading && current && (
+        <ReviewCard
+          key={current.highlightId}
+          item={current}
+          isGrading={isGrading}
+          onGrade={grade}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,30 +2,43 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { HighlightSearchMode, HighlightSearchResult, DEFAULT_USER_SETTINGS } from '@/lib/types';
-import { useHighlightSearch } from '@/hooks/services/useHighlightSearch';
+import { HighlightSearchMode, SearchContentType, SparkDomain, DEFAULT_USER_SETTINGS } from '@/lib/types';
+import { useSearch } from '@/hooks/services/useSearch';
 import { SearchResultCard } from '@/components/Highlights';
-import { Loader2, Search, Sparkles, Layers } from 'lucide-react';
+import { SparkPreviewPanel } from '@/components/SparkPreview';
+import { Loader2, Search, Sparkles, Layers, BookOpen, Zap, FileText } from 'lucide-react';
+
+const CONTENT_TYPE_FILTERS: { type: SearchContentType; label: string; icon: typeof BookOpen }[] = [
+  { type: 'highlight', label: 'Highlights', icon: BookOpen },
+  { type: 'spark', label: 'Sparks', icon: Zap },
+  { type: 'note', label: 'Notes', icon: FileText }
+];
 
 export default function SearchPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [hasLoadedFromSession, setHasLoadedFromSession] = useState(false);
+  const [selectedSpark, setSelectedSpark] = useState<{
+    spark: SparkDomain;
+    position: { top: number; right: number };
+  } | null>(null);
 
   // Get default settings
   const defaultMode = DEFAULT_USER_SETTINGS.search?.defaultMode || 'semantic';
   const maxResults = DEFAULT_USER_SETTINGS.search?.maxResults || 10;
+  const defaultTypes = DEFAULT_USER_SETTINGS.search?.contentTypes || ['highlight', 'spark', 'note'];
 
   const {
     query,
     setQuery,
     mode,
     setMode,
+    types,
     results,
     isLoading,
     error,
     search
-  } = useHighlightSearch('', defaultMode, maxResults, false); // Manual search only
+  } = useSearch('', defaultMode, maxResults, false, defaultTypes); // Manual search only
 
   // Load search params from URL parameters first, then fall back to sessionStorage
   useEffect(() => {
@@ -73,6 +86,22 @@ export default function SearchPage() {
     setMode(newMode);
   };
 
+  const handleTypeToggle = (type: SearchContentType) => {
+    const nextTypes = types.includes(type)
+      ? types.filter(t => t !== type)
+      : [...types, type];
+
+    // Keep at least one content type selected
+    if (nextTypes.length === 0) return;
+
+    search(query, mode, nextTypes);
+  };
+
+  const handleSparkSelect = (spark: SparkDomain, anchor: HTMLElement) => {
+    const rect = anchor.getBoundingClientRect();
+    setSelectedSpark({ spark, position: { top: rect.bottom + 8, right: rect.left } });
+  };
+
   const handleNewSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim()) {
@@ -112,7 +141,7 @@ export default function SearchPage() {
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <input
               type="search"
-              placeholder="Search highlights..."
+              placeholder="Search highlights, sparks and notes..."
               className="w-full rounded-md border bg-background pl-9 py-2 text-sm outline-none focus:ring-1 focus:ring-spark-primary dark:focus:ring-spark-dark-primary dark:border-spark-dark-neutral/30"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
@@ -167,6 +196,28 @@ export default function SearchPage() {
             </button>
           </div>
         </div>
+
+        {/* Content type filter */}
+        <div className="mt-4">
+          <div className="text-xs text-muted-foreground mb-2">Content types:</div>
+          <div className="flex gap-2">
+            {CONTENT_TYPE_FILTERS.map(({ type, label, icon: Icon }) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => handleTypeToggle(type)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-colors ${
+                  types.includes(type)
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                }`}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
 
       {/* Search info */}
@@ -210,9 +261,9 @@ export default function SearchPage() {
       {!query && !isLoading && (
         <div className="text-center py-12">
           <Search className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-          <h2 className="text-xl font-semibold mb-2">Search your highlights</h2>
+          <h2 className="text-xl font-semibold mb-2">Search your library</h2>
           <p className="text-muted-foreground">
-            Enter a search query above to find highlights using keyword, semantic, or hybrid search.
+            Enter a search query above to find highlights, sparks and notes using keyword, semantic, or hybrid search.
           </p>
         </div>
       )}
@@ -231,10 +282,10 @@ export default function SearchPage() {
       {/* Results */}
       {!isLoading && results.length > 0 && (
         <div className="grid gap-6">
-          {results.map((highlight) => (
+          {results.map((result) => (
             <SearchResultCard
-              key={highlight.id}
-              highlight={highlight}
+              key={`${result.type}-${result.id}`}
+              result={result}
               renderTag={(tag) => tag.name}
               formatDate={(date: string | null) => date ? new Date(date).toLocaleDateString() : ''}
               highlightMatches={(text: string) => <span>{text}</span>}
@@ -243,10 +294,22 @@ export default function SearchPage() {
               onUserNoteChange={() => {}}
               isSavingNote={false}
               searchMode={mode}
+              onSparkSelect={handleSparkSelect}
             />
           ))}
         </div>
       )}
+
+      {/* Spark preview (sparks have no page of their own) */}
+      {selectedSpark && (
+        <SparkPreviewPanel
+          sparkId={selectedSpark.spark.id}
+          sparkDetails={selectedSpark.spark}
+          position={selectedSpark.position}
+          onClose={() => setSelectedSpark(null)}
+          zIndex={50}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,40 @@
+'use client';
+
+import { Trash2 } from 'lucide-react';
+import { useHighlightsTrash } from '@/hooks';
+import { TrashedHighlightsList } from '@/components/Highlights';
+import { LoadingPlaceholder } from '@/components/ui';
+
+export default function TrashPage() {
+  const { highlights, isLoading, error, restoreHighlights } = useHighlightsTrash();
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl">
+      <div className="mb-6">
+        <h1 className="flex items-center gap-2 text-2xl font-semibold">
+          <Trash2 className="h-6 w-6" />
+          Trash
+        </h1>
+        <p className="mt-1 text-sm text-neutral-500 dark:text-neutral-400">
+          Highlights deleted or discarded in Readwise. Restoring one brings back its tags, categories and notes.
+        </p>
+      </div>
+
+      {isLoading && <LoadingPlaceholder text="Loading trash..." />}
+
+      {error && !isLoading && (
+        <div className="text-sm text-destructive">Error: {error.message}</div>
+      )}
+
+      {!isLoading && !error && highlights.length === 0 && (
+        <div className="text-sm text-neutral-500 dark:text-neutral-400 py-8 text-center">
+          The trash is empty.
+        </div>
+      )}
+
+      {!isLoading && highlights.length > 0 && (
+        <TrashedHighlightsList highlights={highlights} onRestore={restoreHighlights} />
+      )}
+    </div>
+  );
+}
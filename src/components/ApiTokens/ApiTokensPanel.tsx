@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+import { useApiTokens } from '@/hooks';
+import { API_TOKEN_SCOPES } from '@/lib/api-tokens';
+import { ApiTokenScope, PersonalAccessTokenDomain } from '@/lib/types';
+import { Button, LoadingPlaceholder } from '@/components/ui';
+
+const EXPIRY_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: null, label: 'Never' }
+];
+
+function tokenStatus(token: PersonalAccessTokenDomain): string {
+  if (token.revokedAt) return `Revoked ${new Date(token.revokedAt).toLocaleDateString()}`;
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) return 'Expired';
+  if (token.expiresAt) return `Expires ${new Date(token.expiresAt).toLocaleDateString()}`;
+  return 'Never expires';
+}
+
+/**
+ * Creates and revokes personal access tokens for scripts using the REST API
+ */
+export function ApiTokensPanel() {
+  const { tokens, isLoading, isCreating, createToken, revokeToken } = useApiTokens();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['highlights:read', 'search']);
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async () => {
+    const expiresAt = expiryDays === null
+      ? null
+      : new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const token = await createToken({ name, scopes, expiresAt });
+    if (token) {
+      setNewToken(token);
+      setName('');
+    }
+  };
+
+  const handleRevoke = async (token: PersonalAccessTokenDomain) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working immediately.`)) {
+      return;
+    }
+    await revokeToken(token.id);
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success('Token copied');
+    } catch {
+      toast.error('Could not copy token');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+        <KeyRound className="h-5 w-5" />
+        API Tokens
+      </h2>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        Personal access tokens let your own scripts use the REST API at <code>/api/v1</code>. Send
+        one as <code>Authorization: Bearer &lt;token&gt;</code>. Each token can only do what its
+        scopes allow. The endpoints are described in the{' '}
+        <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="text-blue-500 hover:underline">
+          OpenAPI document
+        </a>.
+      </p>
+
+      {newToken && (
+        <div className="p-4 mb-6 rounded-md bg-green-50 dark:bg-green-900/20 text-sm">
+          <p className="font-medium mb-2">
+            Copy your new token now. It is stored hashed and can&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 p-2 rounded bg-white dark:bg-gray-900 break-all">{newToken}</code>
+            <Button size="sm" variant="outline" onClick={copyToken}>
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+          <button
+            onClick={() => setNewToken(null)}
+            className="mt-2 text-xs text-gray-500 hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-4 mb-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="api-token-name" className="block text-sm font-medium mb-1">Name</label>
+            <input
+              id="api-token-name"
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="w-full p-2 h-10 border rounded bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="e.g. Daily export script"
+            />
+          </div>
+          <div>
+            <label htmlFor="api-token-expiry" className="block text-sm font-medium mb-1">Expires after</label>
+            <select
+              id="api-token-expiry"
+              value={expiryDays === null ? '' : String(expiryDays)}
+              onChange={e => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              className="w-full p-2 h-10 border rounded bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days === null ? '' : String(option.days)}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-medium mb-2">Scopes</legend>
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {API_TOKEN_SCOPES.map(({ scope, label, description }) => (
+              <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                <span>
+                  {label} <code className="text-xs text-gray-500">{scope}</code>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <Button onClick={handleCreate} disabled={isCreating || !name.trim() || scopes.length === 0}>
+          {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Create token
+        </Button>
+      </div>
+
+      {isLoading && <LoadingPlaceholder text="Loading tokens..." />}
+
+      {!isLoading && tokens.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border-t border-gray-200 dark:border-gray-700">
+          {tokens.map(token => (
+            <li
+              key={token.id}
+              className={`flex items-center justify-between gap-4 py-3 text-sm ${token.revokedAt ? 'opacity-60' : ''}`}
+            >
+              <div className="min-w-0">
+                <div className="font-medium">
+                  {token.name} <code className="text-xs text-gray-500">{token.tokenPrefix}…</code>
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {token.scopes.join(', ')}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  Created {new Date(token.createdAt).toLocaleDateString()}
+                  {' · '}
+                  {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : 'Never used'}
+                  {' · '}
+                  {tokenStatus(token)}
+                </div>
+              </div>
+
+              {!token.revokedAt && (
+                <Button size="sm" variant="outline" onClick={() => handleRevoke(token)}>
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ApiTokensPanel } from './ApiTokensPanel';
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, Trash2, FlaskConical } from "lucide-react";
+import { Button, Input, Modal, Select, Checkbox } from "@/components/ui";
+import { useCategories, useTags } from "@/hooks";
+import {
+  AutomationRule,
+  AutomationRuleInput,
+  ResourceType,
+  RuleAction,
+  RuleCondition,
+  RuleOperator
+} from "@/lib/categorization/types";
+import { RULE_FIELDS_BY_TARGET, RULE_FIELD_LABELS } from "@/lib/categorization/rules";
+import type { RulePreview as RulePreviewResult } from "@/services";
+import { RulePreview } from "./RulePreview";
+
+const TARGET_OPTIONS: { value: ResourceType; label: string }[] = [
+  { value: "highlight", label: "Highlights" },
+  { value: "book", label: "Books" },
+  { value: "spark", label: "Sparks" }
+];
+
+const OPERATOR_OPTIONS: { value: RuleOperator; label: string }[] = [
+  { value: "contains", label: "contains" },
+  { value: "equals", label: "is" },
+  { value: "matches", label: "matches regex" }
+];
+
+const EMPTY_RULE: AutomationRuleInput = {
+  name: "",
+  target: "highlight",
+  matchMode: "all",
+  conditions: [{ field: "highlight_text", operator: "contains", value: "" }],
+  actions: [],
+  trusted: false,
+  enabled: true
+};
+
+const actionKey = (action: RuleAction) =>
+  action.type === "add_category" ? `category:${action.categoryId}` : `tag:${action.tagId}`;
+
+interface RuleEditorProps {
+  isOpen: boolean;
+  rule: AutomationRule | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (input: AutomationRuleInput, ruleId?: string) => Promise<unknown>;
+  onPreview: (rule: AutomationRuleInput & { id?: string }) => Promise<RulePreviewResult | null>;
+}
+
+/**
+ * Modal for creating or editing a rule, with a "test against my library" preview
+ */
+export function RuleEditor({ isOpen, rule, isSaving, onClose, onSave, onPreview }: RuleEditorProps) {
+  const { categories } = useCategories();
+  const { tags } = useTags();
+
+  const [draft, setDraft] = useState<AutomationRuleInput>(EMPTY_RULE);
+  const [preview, setPreview] = useState<RulePreviewResult | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setDraft(rule
+      ? {
+          name: rule.name,
+          target: rule.target,
+          matchMode: rule.matchMode,
+          conditions: rule.conditions,
+          actions: rule.actions,
+          trusted: rule.trusted,
+          enabled: rule.enabled
+        }
+      : EMPTY_RULE);
+    setPreview(null);
+  }, [isOpen, rule]);
+
+  const update = (changes: Partial<AutomationRuleInput>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const fieldOptions = RULE_FIELDS_BY_TARGET[draft.target].map(field => ({
+    value: field,
+    label: RULE_FIELD_LABELS[field]
+  }));
+
+  const changeTarget = (target: ResourceType) => {
+    // Keep conditions that still make sense for the new target
+    const allowed = RULE_FIELDS_BY_TARGET[target];
+    const conditions = draft.conditions.filter(condition => allowed.includes(condition.field));
+    update({
+      target,
+      conditions: conditions.length > 0 ? conditions : [{ field: allowed[0], operator: "contains", value: "" }]
+    });
+  };
+
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    update({
+      conditions: draft.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    });
+  };
+
+  const hasAction = (action: RuleAction) =>
+    draft.actions.some(existing => actionKey(existing) === actionKey(action));
+
+  const toggleAction = (action: RuleAction) => {
+    update({
+      actions: hasAction(action)
+        ? draft.actions.filter(existing => actionKey(existing) !== actionKey(action))
+        : [...draft.actions, action]
+    });
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview(await onPreview({ ...draft, id: rule?.id }));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = await onSave(draft, rule?.id);
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={rule ? "Edit rule" : "New rule"} size="lg">
+      <div className="space-y-5">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="rule-name" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+              Name
+            </label>
+            <Input
+              id="rule-name"
+              value={draft.name}
+              placeholder="e.g. Stoicism highlights"
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </div>
+          <Select
+            label="Applies to"
+            value={draft.target}
+            onChange={(e) => changeTarget(e.target.value as ResourceType)}
+            options={TARGET_OPTIONS}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200">
+            When
+            <select
+              value={draft.matchMode}
+              onChange={(e) => update({ matchMode: e.target.value as AutomationRuleInput["matchMode"] })}
+              className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800"
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            of these are true
+          </div>
+
+          {draft.conditions.map((condition, index) => (
+            <div key={index} className="flex flex-col sm:flex-row gap-2 sm:items-center">
+              <select
+                value={condition.field}
+                onChange={(e) => updateCondition(index, { field: e.target.value as RuleCondition["field"] })}
+                className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800"
+              >
+                {fieldOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { operator: e.target.value as RuleOperator })}
+                className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800"
+              >
+                {OPERATOR_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <Input
+                value={condition.value}
+                placeholder={condition.operator === "matches" ? "/stoic(ism)?/i" : "Value"}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                className="flex-1"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove condition"
+                disabled={draft.conditions.length === 1}
+                onClick={() => update({ conditions: draft.conditions.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({
+              conditions: [...draft.conditions, { field: fieldOptions[0].value, operator: "contains", value: "" }]
+            })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add condition
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-200">Then add</p>
+          {categories.length === 0 && tags.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Create a category or tag first, then pick it here.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {categories.map(category => {
+                const action: RuleAction = { type: "add_category", categoryId: category.id, name: category.name };
+                return (
+                  <label key={`category-${category.id}`} className="flex items-center gap-2 text-sm border rounded-md px-2 py-1 cursor-pointer">
+                    <input type="checkbox" checked={hasAction(action)} onChange={() => toggleAction(action)} />
+                    {category.name}
+                  </label>
+                );
+              })}
+              {tags.map(tag => {
+                const action: RuleAction = { type: "add_tag", tagId: tag.id, name: tag.name };
+                return (
+                  <label key={`tag-${tag.id}`} className="flex items-center gap-2 text-sm border border-dashed rounded-md px-2 py-1 cursor-pointer">
+                    <input type="checkbox" checked={hasAction(action)} onChange={() => toggleAction(action)} />
+                    #{tag.name}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <Checkbox
+          id="rule-trusted"
+          label="Trusted: apply matches right away instead of waiting for review"
+          checked={draft.trusted}
+          onChange={(e) => update({ trusted: e.target.checked })}
+        />
+
+        {preview && <RulePreview preview={preview} />}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={handlePreview} disabled={isPreviewing}>
+            <FlaskConical className="h-4 w-4 mr-1" />
+            {isPreviewing ? "Testing..." : "Test against my library"}
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save rule"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
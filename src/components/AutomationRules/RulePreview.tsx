@@ -0,0 +1,54 @@
+"use client";
+
+import { BookOpen, Highlighter, Sparkles } from "lucide-react";
+import type { RulePreview as RulePreviewResult } from "@/services";
+import { ResourceType } from "@/lib/categorization/types";
+
+const TARGET_ICONS: Record<ResourceType, typeof BookOpen> = {
+  book: BookOpen,
+  highlight: Highlighter,
+  spark: Sparkles
+};
+
+interface RulePreviewProps {
+  preview: RulePreviewResult;
+}
+
+/**
+ * Result of testing a rule against the library: counts plus a sample of matches
+ */
+export function RulePreview({ preview }: RulePreviewProps) {
+  const needsLabels = preview.matchedCount - preview.alreadyLabelled;
+
+  return (
+    <div className="rounded-md border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+      <p className="text-sm">
+        Matched <strong>{preview.matchedCount}</strong> of {preview.scanned} checked
+        {preview.truncated && " (stopped early, your library is larger)"}.{" "}
+        {needsLabels > 0
+          ? <>{needsLabels} would get <strong>{preview.actionsCount}</strong> new labels.</>
+          : "All matches already have these labels."}
+      </p>
+
+      {preview.samples.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 text-sm">
+          {preview.samples.map(subject => {
+            const Icon = TARGET_ICONS[subject.type];
+            return (
+              <li key={subject.id} className="flex items-start gap-2 py-2">
+                <Icon className="h-4 w-4 mt-0.5 shrink-0 text-gray-400" />
+                <span className="line-clamp-2">{subject.label}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {preview.matchedCount > preview.samples.length && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Showing {preview.samples.length} of {preview.matchedCount} matches
+        </p>
+      )}
+    </div>
+  );
+}
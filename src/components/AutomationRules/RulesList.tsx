@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil, Play, Power, ShieldCheck, Trash2 } from "lucide-react";
+import { Badge, Button } from "@/components/ui";
+import { AutomationRule } from "@/lib/categorization/types";
+import { RULE_FIELD_LABELS } from "@/lib/categorization/rules";
+
+const OPERATOR_WORDS = {
+  contains: "contains",
+  equals: "is",
+  matches: "matches"
+} as const;
+
+interface RulesListProps {
+  rules: AutomationRule[];
+  onEdit: (rule: AutomationRule) => void;
+  onToggle: (rule: AutomationRule) => Promise<void>;
+  onDelete: (ruleId: string) => Promise<boolean>;
+  onRun: (rule: AutomationRule) => Promise<void>;
+}
+
+function describeRule(rule: AutomationRule): string {
+  const conditions = rule.conditions
+    .map(condition => `${RULE_FIELD_LABELS[condition.field]} ${OPERATOR_WORDS[condition.operator]} "${condition.value}"`)
+    .join(rule.matchMode === "all" ? " and " : " or ");
+  const labels = rule.actions
+    .map(action => (action.type === "add_tag" ? `#${action.name}` : action.name))
+    .join(", ");
+
+  return `When ${conditions}, add ${labels}`;
+}
+
+/**
+ * The user's rules with enable, edit, run and delete controls
+ */
+export function RulesList({ rules, onEdit, onToggle, onDelete, onRun }: RulesListProps) {
+  const [busyRuleId, setBusyRuleId] = useState<string | null>(null);
+
+  const withBusy = async (ruleId: string, action: () => Promise<unknown>) => {
+    setBusyRuleId(ruleId);
+    try {
+      await action();
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  return (
+    <ul className="space-y-3">
+      {rules.map(rule => (
+        <li
+          key={rule.id}
+          className={`rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 ${rule.enabled ? "" : "opacity-60"}`}
+        >
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+            <div className="min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="font-medium">{rule.name}</h3>
+                <Badge variant="secondary">{rule.target}s</Badge>
+                {rule.trusted && (
+                  <Badge variant="outline" className="gap-1">
+                    <ShieldCheck className="h-3 w-3" />
+                    Trusted
+                  </Badge>
+                )}
+                {!rule.enabled && <Badge variant="outline">Disabled</Badge>}
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-300 break-words">{describeRule(rule)}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {rule.lastRunAt ? `Last run ${new Date(rule.lastRunAt).toLocaleString()}` : "Not run yet"}
+              </p>
+            </div>
+
+            <div className="flex gap-1 shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Run on whole library now"
+                disabled={busyRuleId === rule.id}
+                onClick={() => withBusy(rule.id, () => onRun(rule))}
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title={rule.enabled ? "Disable" : "Enable"}
+                disabled={busyRuleId === rule.id}
+                onClick={() => withBusy(rule.id, () => onToggle(rule))}
+              >
+                <Power className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" title="Edit" onClick={() => onEdit(rule)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete"
+                disabled={busyRuleId === rule.id}
+                onClick={() => {
+                  if (confirm(`Delete the rule "${rule.name}"? Automations it already created are kept.`)) {
+                    withBusy(rule.id, () => onDelete(rule.id));
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,3 @@
+export { RuleEditor } from './RuleEditor';
+export { RulePreview } from './RulePreview';
+export { RulesList } from './RulesList';
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { createPortal } from "react-dom";
+import { useRouter } from "next/navigation";
+import {
+  Search,
+  Book,
+  Highlighter,
+  Zap,
+  FileText,
+  Folder,
+  Tag as TagIcon,
+  Loader2,
+  CornerDownLeft
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useHeaderService } from "@/hooks";
+import { HeaderSearchResult, HeaderSearchResultType } from "@/lib/types";
+import { SparkPreviewPanel } from "@/components/SparkPreview";
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Display order, labels and icons for each result group
+ */
+const RESULT_GROUPS: { type: HeaderSearchResultType; label: string; icon: typeof Book }[] = [
+  { type: 'book', label: 'Books', icon: Book },
+  { type: 'highlight', label: 'Highlights', icon: Highlighter },
+  { type: 'spark', label: 'Sparks', icon: Zap },
+  { type: 'note', label: 'Notes', icon: FileText },
+  { type: 'category', label: 'Categories', icon: Folder },
+  { type: 'tag', label: 'Tags', icon: TagIcon }
+];
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Cmd/Ctrl-K palette searching across books, highlights, sparks, notes, categories and tags
+ *
+ * Arrow keys move the selection, Enter opens it. Sparks have no page, so they open
+ * in the spark preview panel, which stays visible after the palette closes.
+ */
+export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
+  const router = useRouter();
+  const headerService = useHeaderService();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<HeaderSearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [previewSparkId, setPreviewSparkId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const latestRequestId = useRef(0);
+
+  // Reset and focus the input whenever the palette opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery("");
+      setResults([]);
+      setActiveIndex(0);
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen]);
+
+  // Debounced search as the user types
+  useEffect(() => {
+    if (!isOpen || !query.trim()) {
+      // Invalidate a search still in flight so it can't fill the cleared palette
+      latestRequestId.current++;
+      setResults([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const requestId = ++latestRequestId.current;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      const { results: searchResults } = await headerService.search(query);
+
+      // Ignore responses for outdated queries
+      if (requestId !== latestRequestId.current) return;
+
+      setResults(searchResults);
+      setActiveIndex(0);
+      setIsLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, isOpen, headerService]);
+
+  // Results in display order; keyboard navigation indexes into this list
+  const orderedResults = useMemo(
+    () => RESULT_GROUPS.flatMap(group => results.filter(result => result.type === group.type)),
+    [results]
+  );
+
+  // Keep the active item visible while navigating
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleSelect = useCallback((result: HeaderSearchResult) => {
+    onClose();
+
+    if (result.type === 'spark') {
+      setPreviewSparkId(result.id);
+      return;
+    }
+
+    if (result.href) {
+      router.push(result.href);
+    }
+  }, [onClose, router]);
+
+  const handleSearchEverything = () => {
+    onClose();
+    router.push(`/search?${new URLSearchParams({ q: query }).toString()}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, orderedResults.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (orderedResults[activeIndex]) {
+          handleSelect(orderedResults[activeIndex]);
+        } else if (query.trim()) {
+          handleSearchEverything();
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  const sparkPreview = previewSparkId && (
+    <SparkPreviewPanel
+      sparkId={previewSparkId}
+      onClose={() => setPreviewSparkId(null)}
+      position={{ top: 96, right: typeof window !== 'undefined' ? window.innerWidth / 2 - 175 : 0 }}
+      zIndex={50}
+    />
+  );
+
+  if (!isOpen) {
+    return sparkPreview || null;
+  }
+
+  return (
+    <>
+      {sparkPreview}
+      {createPortal(
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-[12vh]"
+          onMouseDown={(e) => {
+            if (e.target === e.currentTarget) onClose();
+          }}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl overflow-hidden flex flex-col"
+            role="dialog"
+            aria-label="Search"
+          >
+            {/* Search input */}
+            <div className="flex items-center gap-2 border-b dark:border-gray-700 px-4">
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 text-muted-foreground animate-spin" />
+              ) : (
+                <Search className="h-4 w-4 text-muted-foreground" />
+              )}
+              <input
+                ref={inputRef}
+                type="text"
+                placeholder="Search books, highlights, sparks, notes, categories and tags..."
+                className="flex-1 bg-transparent py-3 text-sm outline-none"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                aria-activedescendant={orderedResults[activeIndex] ? `command-palette-item-${activeIndex}` : undefined}
+              />
+              <kbd className="text-xs text-muted-foreground border rounded px-1.5 py-0.5">Esc</kbd>
+            </div>
+
+            {/* Results */}
+            <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-2" role="listbox">
+              {query.trim() && !isLoading && orderedResults.length === 0 && (
+                <div className="px-4 py-6 text-center text-sm text-muted-foreground">
+                  No matches for "{query}"
+                </div>
+              )}
+
+              {RESULT_GROUPS.map(({ type, label, icon: Icon }) => {
+                const groupResults = orderedResults.filter(result => result.type === type);
+                if (groupResults.length === 0) return null;
+
+                return (
+                  <div key={type} className="mb-1">
+                    <div className="px-4 py-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                      {label}
+                    </div>
+                    {groupResults.map(result => {
+                      const index = orderedResults.indexOf(result);
+                      const isActive = index === activeIndex;
+
+                      return (
+                        <button
+                          key={`${result.type}-${result.id}`}
+                          id={`command-palette-item-${index}`}
+                          data-index={index}
+                          type="button"
+                          role="option"
+                          aria-selected={isActive}
+                          className={cn(
+                            "w-full flex items-center gap-3 px-4 py-2 text-left text-sm",
+                            isActive ? "bg-secondary" : "hover:bg-secondary/60"
+                          )}
+                          onMouseMove={() => setActiveIndex(index)}
+                          onClick={() => handleSelect(result)}
+                        >
+                          <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                          <div className="flex-1 min-w-0">
+                            <div className="truncate">{result.title}</div>
+                            {result.subtitle && (
+                              <div className="truncate text-xs text-muted-foreground">{result.subtitle}</div>
+                            )}
+                          </div>
+                          {isActive && <CornerDownLeft className="h-3.5 w-3.5 text-muted-foreground" />}
+                        </button>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Footer: fall back to the full search page */}
+            {query.trim() && (
+              <button
+                type="button"
+                className="flex items-center gap-2 border-t dark:border-gray-700 px-4 py-2 text-sm text-muted-foreground hover:bg-secondary/60"
+                onClick={handleSearchEverything}
+              >
+                <Search className="h-3.5 w-3.5" />
+                Search everything for "{query}"
+              </button>
+            )}
+          </div>
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
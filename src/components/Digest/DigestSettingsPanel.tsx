@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Mail } from "lucide-react";
+import { Button, Input, Select } from "@/components/ui";
+import { useCategories, useDigestSettings } from "@/hooks";
+import { DigestSettings, DigestSource } from "@/lib/types";
+
+const SOURCE_OPTIONS: { value: DigestSource; label: string }[] = [
+  { value: "random", label: "Random highlights" },
+  { value: "review", label: "Due for review" },
+  { value: "categories", label: "From chosen categories" }
+];
+
+/**
+ * What goes into the highlight digest email. How often it is sent is set on the
+ * "Email Highlight Digest" row of the scheduled tasks table.
+ */
+export function DigestSettingsPanel() {
+  const { digest, isLoading, isSaving, saveDigest } = useDigestSettings();
+  const { categories } = useCategories();
+  const [draft, setDraft] = useState<Omit<DigestSettings, "unsubscribeToken"> | null>(null);
+
+  useEffect(() => {
+    setDraft(digest);
+  }, [digest]);
+
+  if (isLoading || !draft) {
+    return null;
+  }
+
+  const selectedCategoryIds = draft.categoryIds || [];
+
+  const toggleCategory = (categoryId: string) => {
+    setDraft({
+      ...draft,
+      categoryIds: selectedCategoryIds.includes(categoryId)
+        ? selectedCategoryIds.filter(id => id !== categoryId)
+        : [...selectedCategoryIds, categoryId]
+    });
+  };
+
+  const missingCategories = draft.source === "categories" && selectedCategoryIds.length === 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+        <Mail className="h-5 w-5" />
+        Highlight Digest
+      </h2>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        A daily or weekly email with a few of your highlights, each linking back to its book.
+        Turn it on and pick how often on the &quot;Email Highlight Digest&quot; scheduled task below.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl">
+        <Select
+          label="Highlights to include"
+          value={draft.source}
+          onChange={(e) => setDraft({ ...draft, source: e.target.value as DigestSource })}
+          options={SOURCE_OPTIONS}
+        />
+        <div className="space-y-2">
+          <label htmlFor="digest-count" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+            Highlights per email
+          </label>
+          <Input
+            id="digest-count"
+            type="number"
+            min={1}
+            max={20}
+            value={draft.count}
+            onChange={(e) => setDraft({ ...draft, count: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {draft.source === "categories" && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Categories</p>
+          {categories.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">You don&apos;t have any categories yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {categories.map(category => (
+                <label
+                  key={category.id}
+                  className="flex items-center gap-2 text-sm border rounded-md px-2 py-1 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedCategoryIds.includes(category.id)}
+                    onChange={() => toggleCategory(category.id)}
+                  />
+                  {category.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6 flex items-center gap-3">
+        <Button
+          onClick={() => saveDigest({ ...draft, count: Math.min(Math.max(draft.count || 1, 1), 20) })}
+          disabled={isSaving || missingCategories}
+        >
+          {isSaving ? "Saving..." : "Save digest settings"}
+        </Button>
+        {missingCategories && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">Choose at least one category</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { DigestSettingsPanel } from './DigestSettingsPanel';
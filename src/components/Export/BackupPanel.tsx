@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import { DatabaseBackup, Download, Loader2, Upload } from 'lucide-react';
+import { useBackup } from '@/hooks';
+import type { BackupEntity, BackupJunction } from '@/lib/backup/format';
+import { Button } from '@/components/ui';
+
+const ENTITY_LABELS: Record<BackupEntity, string> = {
+  categories: 'Categories',
+  tags: 'Tags',
+  books: 'Books',
+  highlights: 'Highlights',
+  sparks: 'Sparks',
+  notes: 'Notes'
+};
+
+const JUNCTION_LABELS: Record<BackupJunction, string> = {
+  bookCategories: 'Book categories',
+  bookTags: 'Book tags',
+  highlightCategories: 'Highlight categories',
+  highlightTags: 'Highlight tags',
+  sparkCategories: 'Spark categories',
+  sparkTags: 'Spark tags',
+  bookNotes: 'Book notes',
+  highlightNotes: 'Highlight notes',
+  sparkNotes: 'Spark notes'
+};
+
+/**
+ * JSON backup download and restore, with a dry run that reports conflicts before writing
+ */
+export function BackupPanel() {
+  const { isDownloading, isRestoring, report, downloadBackup, restoreBackup, clearReport } = useBackup();
+  const [includeEmbeddings, setIncludeEmbeddings] = useState(false);
+  const [dryRun, setDryRun] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleRestore = async () => {
+    if (!file) return;
+
+    if (!dryRun && !window.confirm('Restore this backup into your library? Existing records are kept; only missing ones are added.')) {
+      return;
+    }
+
+    await restoreBackup(file, dryRun);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+        <DatabaseBackup className="h-5 w-5" />
+        Backup &amp; Restore
+      </h2>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        A JSON backup contains your books, highlights, sparks, notes, categories, tags and settings.
+        API keys and tokens are never included. Restoring adds what is missing and keeps existing
+        records as they are, so the same backup can be restored more than once.
+      </p>
+
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <Button onClick={() => downloadBackup(includeEmbeddings)} disabled={isDownloading}>
+            {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Download backup
+          </Button>
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeEmbeddings}
+              onChange={e => setIncludeEmbeddings(e.target.checked)}
+            />
+            Include embeddings (much larger file)
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="text-sm"
+            onChange={e => {
+              setFile(e.target.files?.[0] || null);
+              clearReport();
+            }}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+            <input type="checkbox" checked={dryRun} onChange={e => setDryRun(e.target.checked)} />
+            Dry run (don&apos;t write anything)
+          </label>
+          <Button variant="outline" onClick={handleRestore} disabled={!file || isRestoring}>
+            {isRestoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            {dryRun ? 'Check backup' : 'Restore backup'}
+          </Button>
+        </div>
+
+        {report && (
+          <div className="border rounded-md border-gray-200 dark:border-gray-700 p-4 text-sm space-y-4">
+            <div className="font-medium">
+              {report.dryRun ? 'Dry run result (nothing was written)' : 'Restore result'}
+              {' · '}backup version {report.version}
+            </div>
+
+            <table className="w-full text-left">
+              <thead className="text-xs text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-1 font-medium">Type</th>
+                  <th className="py-1 font-medium">In backup</th>
+                  <th className="py-1 font-medium">{report.dryRun ? 'Would create' : 'Created'}</th>
+                  <th className="py-1 font-medium">Already present</th>
+                  <th className="py-1 font-medium">Conflicts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(ENTITY_LABELS) as BackupEntity[]).map(entity => {
+                  const stats = report.entities[entity];
+                  return (
+                    <tr key={entity} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="py-1">{ENTITY_LABELS[entity]}</td>
+                      <td className="py-1">{stats.total}</td>
+                      <td className="py-1">{stats.created}</td>
+                      <td className="py-1">{stats.existing}</td>
+                      <td className={`py-1 ${stats.conflicts > 0 ? 'text-amber-600' : ''}`}>{stats.conflicts}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {(Object.keys(JUNCTION_LABELS) as BackupJunction[])
+                .filter(junction => report.junctions[junction].total > 0)
+                .map(junction => {
+                  const stats = report.junctions[junction];
+                  return `${JUNCTION_LABELS[junction]}: ${stats.linked} linked${stats.skipped > 0 ? `, ${stats.skipped} skipped` : ''}`;
+                })
+                .join(' · ')}
+              {report.settingsRestored && ' · Settings restored'}
+            </div>
+
+            {report.conflictCount > 0 && (
+              <div>
+                <div className="font-medium text-amber-600 mb-1">
+                  {report.conflictCount} conflict{report.conflictCount === 1 ? '' : 's'}
+                  {report.conflicts.length < report.conflictCount && ` (showing first ${report.conflicts.length})`}
+                </div>
+                <ul className="max-h-48 overflow-y-auto text-xs space-y-1">
+                  {report.conflicts.map((conflict, index) => (
+                    <li key={index} className="text-gray-600 dark:text-gray-400">
+                      <span className="font-medium">{conflict.entity}</span>{' '}
+                      <span className="font-mono break-all">{conflict.key.slice(0, 80)}</span>: {conflict.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
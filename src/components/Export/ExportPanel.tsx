@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileArchive, Loader2 } from 'lucide-react';
+import { useExports } from '@/hooks';
+import { ExportStatus } from '@/lib/types';
+import { Button, LoadingPlaceholder } from '@/components/ui';
+
+const STATUS_LABELS: Record<ExportStatus, string> = {
+  pending: 'Queued',
+  processing: 'Exporting...',
+  completed: 'Ready',
+  failed: 'Failed'
+};
+
+function formatSize(bytes: number | null): string {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Starts Markdown vault exports and lists recent ones with download links
+ */
+export function ExportPanel() {
+  const { exports, isLoading, isStarting, error, startMarkdownExport, downloadExport } = useExports();
+  const [uploadToExternal, setUploadToExternal] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const isRunning = exports.some(item => item.status === 'pending' || item.status === 'processing');
+
+  const handleDownload = async (exportId: string) => {
+    setDownloadingId(exportId);
+    try {
+      await downloadExport(exportId);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+        <FileArchive className="h-5 w-5" />
+        Markdown / Obsidian Export
+      </h2>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        Download your books, highlights, sparks and notes as a zip of Markdown files. Each book
+        gets its own file with YAML frontmatter and block references for every highlight, so the
+        folder can be opened directly as an Obsidian vault.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <Button
+          onClick={() => startMarkdownExport(uploadToExternal)}
+          disabled={isStarting || isRunning}
+        >
+          {isStarting || isRunning ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          {isRunning ? 'Export in progress' : 'Export library'}
+        </Button>
+
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={uploadToExternal}
+            onChange={e => setUploadToExternal(e.target.checked)}
+          />
+          Also upload a copy to the configured S3 bucket
+        </label>
+      </div>
+
+      {isLoading && <LoadingPlaceholder text="Loading exports..." />}
+
+      {error && !isLoading && (
+        <div className="text-sm text-destructive">Error: {error.message}</div>
+      )}
+
+      {!isLoading && exports.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border-t border-gray-200 dark:border-gray-700">
+          {exports.map(item => (
+            <li key={item.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium">
+                  {new Date(item.createdAt).toLocaleString()}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {STATUS_LABELS[item.status]}
+                  {item.status === 'completed' && item.fileCount !== null && ` · ${item.fileCount} files`}
+                  {item.status === 'completed' && item.sizeBytes ? ` · ${formatSize(item.sizeBytes)}` : ''}
+                  {item.externalUrl && ' · Uploaded to S3'}
+                  {item.status === 'failed' && item.error && ` · ${item.error}`}
+                </div>
+              </div>
+
+              {item.status === 'completed' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={downloadingId === item.id}
+                  onClick={() => handleDownload(item.id)}
+                >
+                  <Download className="h-4 w-4" />
+                  {downloadingId === item.id ? 'Preparing...' : 'Download'}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
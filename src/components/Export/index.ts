@@ -0,0 +1,2 @@
+export { ExportPanel } from './ExportPanel';
+export { BackupPanel } from './BackupPanel';
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { BarChart3 } from "lucide-react";
+import { useFunctionLogStats } from "@/hooks";
+import type { FunctionStats } from "@/hooks";
+import { FunctionLogStatsRow } from "@/lib/types";
+
+const PERIODS = [7, 14, 30];
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+}
+
+function failureRate(row: FunctionLogStatsRow): number {
+  return row.runs > 0 ? row.failed / row.runs : 0;
+}
+
+/**
+ * The last `days` UTC days, oldest first, as YYYY-MM-DD
+ */
+function lastDays(days: number): string[] {
+  const today = new Date();
+  return Array.from({ length: days }, (_, i) => {
+    const day = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1 - i)));
+    return day.toISOString().slice(0, 10);
+  });
+}
+
+/**
+ * Daily bars for one function: finished runs with failures stacked in red, and p95 duration
+ */
+function DailyCharts({ entry, days }: { entry: FunctionStats; days: string[] }) {
+  const byDay = new Map(entry.daily.map(row => [row.day as string, row]));
+  const maxRuns = Math.max(1, ...entry.daily.map(row => row.runs));
+  const maxP95 = Math.max(1, ...entry.daily.map(row => row.p95_ms || 0));
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <div className="text-[10px] text-gray-500 dark:text-gray-400 mb-1">Runs / failures per day</div>
+        <div className="flex items-end gap-px h-10">
+          {days.map(day => {
+            const row = byDay.get(day);
+            const runs = row?.runs || 0;
+            const failed = row?.failed || 0;
+            return (
+              <div
+                key={day}
+                className="flex-1 flex flex-col justify-end h-full"
+                title={`${day}: ${runs} runs, ${failed} failed`}
+              >
+                <div className="bg-red-400" style={{ height: `${(failed / maxRuns) * 100}%` }}></div>
+                <div className="bg-blue-400" style={{ height: `${((runs - failed) / maxRuns) * 100}%` }}></div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div>
+        <div className="text-[10px] text-gray-500 dark:text-gray-400 mb-1">p95 duration per day</div>
+        <div className="flex items-end gap-px h-10">
+          {days.map(day => {
+            const p95 = byDay.get(day)?.p95_ms ?? null;
+            return (
+              <div key={day} className="flex-1 flex flex-col justify-end h-full" title={`${day}: p95 ${formatMs(p95)}`}>
+                <div className="bg-purple-400" style={{ height: `${((p95 || 0) / maxP95) * 100}%` }}></div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Per-function run counts, failure rates and duration percentiles of finished runs
+ */
+export function FunctionStatsPanel() {
+  const [period, setPeriod] = useState(14);
+  const { stats, isLoading } = useFunctionLogStats(period);
+  const days = lastDays(period);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <BarChart3 className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">Function Performance</h2>
+        </div>
+        <select
+          value={period}
+          onChange={e => setPeriod(Number(e.target.value))}
+          className="text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-1"
+        >
+          {PERIODS.map(days => (
+            <option key={days} value={days}>Last {days} days</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array(3).fill(0).map((_, i) => (
+            <div key={i} className="h-16 bg-gray-100 dark:bg-gray-900 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : stats.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No finished function runs in this period.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {stats.map(entry => {
+            const rate = failureRate(entry.summary);
+            return (
+              <div key={entry.functionId} className="py-3 grid grid-cols-1 lg:grid-cols-2 gap-4 items-center">
+                <div>
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate" title={entry.functionId}>
+                    {entry.functionName}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-300">
+                    <span>{entry.summary.runs} runs</span>
+                    <span className={rate > 0.1 ? "text-red-500" : rate > 0 ? "text-yellow-600 dark:text-yellow-400" : ""}>
+                      {(rate * 100).toFixed(1)}% failed
+                    </span>
+                    <span>p50 {formatMs(entry.summary.p50_ms)}</span>
+                    <span>p95 {formatMs(entry.summary.p95_ms)}</span>
+                    <span>p99 {formatMs(entry.summary.p99_ms)}</span>
+                  </div>
+                </div>
+                <DailyCharts entry={entry} days={days} />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
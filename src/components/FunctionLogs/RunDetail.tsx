@@ -0,0 +1,138 @@
+"use client";
+
+import { Loader2, RotateCcw } from "lucide-react";
+import { useFunctionLogDetail } from "@/hooks";
+import { FunctionLogModel, FunctionLogStepModel } from "@/lib/types";
+
+interface RunDetailProps {
+  log: FunctionLogModel;
+  formatDate: (date: string) => string;
+  formatDuration: (ms: number | null | undefined) => string;
+}
+
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return "—";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Position of each step on a shared time axis, as percentages of the run's span
+ */
+function timelineBars(runStartedAt: string, steps: FunctionLogStepModel[]) {
+  const origin = new Date(runStartedAt).getTime();
+  const spans = steps.map(step => {
+    const start = Math.max(0, new Date(step.started_at).getTime() - origin);
+    return { start, end: start + (step.duration_ms || 0) };
+  });
+  const total = Math.max(1, ...spans.map(span => span.end));
+
+  return spans.map(span => ({
+    left: (span.start / total) * 100,
+    // Keep sub-millisecond steps visible
+    width: Math.max(0.5, ((span.end - span.start) / total) * 100)
+  }));
+}
+
+function JsonBlock({ title, value }: { title: string; value: unknown }) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{title}</h4>
+      <pre className="max-h-60 overflow-auto text-xs text-gray-800 dark:text-gray-200 whitespace-pre-wrap bg-gray-100 dark:bg-gray-900 p-3 rounded-md">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Expanded view of one function run: attempts, step timeline, triggering event and outcome
+ */
+export function RunDetail({ log, formatDate, formatDuration }: RunDetailProps) {
+  const { steps, isLoading, isRerunning, rerun } = useFunctionLogDetail(log.id, log.updated_at);
+
+  const eventName: string | undefined = log.input_params?.event?.name || log.input_params?.eventName;
+  const isScheduled = !eventName || eventName.startsWith("inngest/");
+  const bars = timelineBars(log.started_at, steps);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+          <span>Run <code className="text-xs">{log.run_id}</code></span>
+          {eventName && <span>Event <code className="text-xs">{eventName}</code></span>}
+          <span>
+            Attempt {(log.attempt ?? 0) + 1}
+            {log.max_attempts ? ` of ${log.max_attempts}` : ""}
+          </span>
+          {log.completed_at && <span>Finished {formatDate(log.completed_at)}</span>}
+        </div>
+
+        <button
+          onClick={() => rerun()}
+          disabled={isRerunning || isScheduled}
+          title={isScheduled ? "Scheduled runs can only be started by their schedule" : "Send the triggering event again"}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRerunning
+            ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+            : <RotateCcw className="w-4 h-4 mr-1.5" />}
+          Re-run with same input
+        </button>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Steps</h4>
+        {isLoading ? (
+          <div className="h-16 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+        ) : steps.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No steps were recorded for this run.</p>
+        ) : (
+          <div className="space-y-1.5">
+            {steps.map((step, index) => (
+              <div key={step.id} className="grid grid-cols-12 gap-3 items-center text-xs">
+                <div className="col-span-3 truncate text-gray-800 dark:text-gray-200" title={step.name}>
+                  {step.name}
+                  {step.attempt > 0 && (
+                    <span className="ml-1 text-yellow-600 dark:text-yellow-400">retry {step.attempt}</span>
+                  )}
+                </div>
+                <div className="col-span-6 relative h-4 bg-gray-100 dark:bg-gray-900 rounded">
+                  <div
+                    className={`absolute h-4 rounded ${step.status === "failed" ? "bg-red-400" : "bg-blue-400"}`}
+                    style={{ left: `${bars[index].left}%`, width: `${bars[index].width}%` }}
+                    title={step.error_message || undefined}
+                  ></div>
+                </div>
+                <div className="col-span-1 text-right text-gray-600 dark:text-gray-300">{formatDuration(step.duration_ms)}</div>
+                <div className="col-span-2 text-right text-gray-500 dark:text-gray-400">
+                  {step.status === "failed"
+                    ? <span className="text-red-500 truncate block" title={step.error_message || undefined}>{step.error_message || "Failed"}</span>
+                    : formatBytes(step.output_bytes)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <JsonBlock title="Triggering event (secrets redacted)" value={log.input_params?.event ?? log.input_params} />
+        {log.error_message ? (
+          <div>
+            <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Error</h4>
+            <p className="text-sm text-red-500 mb-2">{log.error_message}</p>
+            {log.error_stack && (
+              <pre className="max-h-48 overflow-auto text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap bg-gray-100 dark:bg-gray-900 p-3 rounded-md">
+                {log.error_stack}
+              </pre>
+            )}
+          </div>
+        ) : (
+          <JsonBlock title="Result" value={log.result_data} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from "react";
 import { ChevronDown, ChevronRight } from "lucide-react";
 import { FunctionLogModel } from "@/lib/types";
 import { StatusBadge } from "./StatusBadge";
+import { RunDetail } from "./RunDetail";
 import React from "react";
 
 interface TableBodyProps {
@@ -130,27 +131,26 @@ export function TableBody({
               return (
                 <React.Fragment key={log.id || `log-${index}`}>
                   <tr 
-                    className={`hover:bg-gray-50 dark:hover:bg-gray-800 ${log.status === "completed" && log.result_data ? "cursor-pointer" : ""}`}
-                    onClick={() => {
-                      if (log.status === "completed" && log.result_data) {
-                        toggleRowExpansion(log.id);
-                      }
-                    }}
+                    className="hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer"
+                    onClick={() => toggleRowExpansion(log.id)}
                   >
                     <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {log.status === "completed" && log.result_data && (
-                        <div className="text-gray-500 dark:text-gray-400">
-                          {expandedRows[log.id] 
-                            ? <ChevronDown className="w-4 h-4" /> 
-                            : <ChevronRight className="w-4 h-4" />}
-                        </div>
-                      )}
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {expandedRows[log.id] 
+                          ? <ChevronDown className="w-4 h-4" /> 
+                          : <ChevronRight className="w-4 h-4" />}
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
                       {log.function_name}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
                       <StatusBadge status={log.status} />
+                      {log.attempt > 0 && (
+                        <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">
+                          attempt {log.attempt + 1}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                       {formatDate(log.started_at)}
@@ -172,15 +172,11 @@ export function TableBody({
                     </td>
                   </tr>
                   
-                  {/* Expandable row for result data */}
-                  {expandedRows[log.id] && log.result_data && (
+                  {/* Expandable row with the run's steps, input and outcome */}
+                  {expandedRows[log.id] && (
                     <tr className="bg-gray-50 dark:bg-gray-800/50">
                       <td colSpan={6} className="px-6 py-4">
-                        <div className="max-h-80 overflow-auto">
-                          <pre className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap bg-gray-100 dark:bg-gray-900 p-4 rounded-md">
-                            {JSON.stringify(log.result_data, null, 2)}
-                          </pre>
-                        </div>
+                        <RunDetail log={log} formatDate={formatDate} formatDuration={formatDuration} />
                       </td>
                     </tr>
                   )}
@@ -2,4 +2,6 @@ export { StatusBadge } from './StatusBadge';
 export { TableHeader } from './TableHeader';
 export { TableBody } from './TableBody';
 export { Pagination } from './Pagination';
+export { RunDetail } from './RunDetail';
+export { FunctionStatsPanel } from './FunctionStatsPanel';
 export { default as FunctionLogsTable } from './FunctionLogsTable'; 
\ No newline at end of file
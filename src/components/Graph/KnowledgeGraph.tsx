@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { GraphEdge, GraphNode } from "@/hooks";
+import { NoteLinkTargetType } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { layoutGraph } from "./layout";
+
+interface KnowledgeGraphProps {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  onOpenSpark?: (sparkId: string) => void;
+}
+
+/**
+ * Above this the O(n²) layout gets slow; the most connected nodes are kept
+ */
+const MAX_NODES = 400;
+
+const TYPE_STYLES: Record<NoteLinkTargetType, { label: string; color: string }> = {
+  note: { label: 'Notes', color: '#f59e0b' },
+  book: { label: 'Books', color: '#3b82f6' },
+  highlight: { label: 'Highlights', color: '#10b981' },
+  spark: { label: 'Sparks', color: '#a855f7' }
+};
+
+const TYPES = Object.keys(TYPE_STYLES) as NoteLinkTargetType[];
+
+function truncate(text: string, length: number = 40): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
+
+function nodeRadius(node: GraphNode): number {
+  return Math.min(4 + Math.sqrt(node.degree) * 2, 14);
+}
+
+/**
+ * Force-directed graph of notes and what they link to
+ *
+ * Drag to pan, scroll to zoom, hover a node to see its neighbours and click it to open it.
+ */
+export function KnowledgeGraph({ nodes, edges, onOpenSpark }: KnowledgeGraphProps) {
+  const router = useRouter();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; viewX: number; viewY: number; moved: boolean } | null>(null);
+  const [visibleTypes, setVisibleTypes] = useState<Set<NoteLinkTargetType>>(new Set(TYPES));
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+
+  const visible = useMemo(() => {
+    const byType = nodes.filter(node => visibleTypes.has(node.type));
+    const kept = byType.length > MAX_NODES
+      ? [...byType].sort((a, b) => b.degree - a.degree).slice(0, MAX_NODES)
+      : byType;
+    const keys = new Set(kept.map(node => node.key));
+
+    return {
+      nodes: kept,
+      edges: edges.filter(edge => keys.has(edge.source) && keys.has(edge.target)),
+      hidden: byType.length - kept.length
+    };
+  }, [nodes, edges, visibleTypes]);
+
+  const positions = useMemo(() => layoutGraph(visible.nodes, visible.edges), [visible]);
+
+  const viewBox = useMemo(() => {
+    const points = Array.from(positions.values());
+    if (points.length === 0) return '-100 -100 200 200';
+    const padding = 40;
+    const minX = Math.min(...points.map(point => point.x)) - padding;
+    const minY = Math.min(...points.map(point => point.y)) - padding;
+    const width = Math.max(...points.map(point => point.x)) - minX + padding;
+    const height = Math.max(...points.map(point => point.y)) - minY + padding;
+    return `${minX} ${minY} ${width} ${height}`;
+  }, [positions]);
+
+  const neighbours = useMemo(() => {
+    if (!hoveredKey) return null;
+    const keys = new Set([hoveredKey]);
+    for (const edge of visible.edges) {
+      if (edge.source === hoveredKey) keys.add(edge.target);
+      if (edge.target === hoveredKey) keys.add(edge.source);
+    }
+    return keys;
+  }, [hoveredKey, visible.edges]);
+
+  // React registers wheel listeners as passive, which can't stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      setView(current => ({
+        ...current,
+        scale: Math.min(Math.max(current.scale * (event.deltaY < 0 ? 1.1 : 1 / 1.1), 0.2), 5)
+      }));
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const toggleType = (type: NoteLinkTargetType) => {
+    setVisibleTypes(current => {
+      const next = new Set(current);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const openNode = (node: GraphNode) => {
+    // A drag that ends on a node shouldn't open it
+    if (dragRef.current?.moved) return;
+
+    if (node.type === 'spark') {
+      onOpenSpark?.(node.id);
+    } else if (node.href) {
+      router.push(node.href);
+    }
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) return;
+
+    // Convert screen pixels to viewBox units so panning tracks the pointer
+    const ratio = svg.viewBox.baseVal.width / svg.clientWidth / view.scale;
+    const offsetX = event.clientX - drag.startX;
+    const offsetY = event.clientY - drag.startY;
+    if (Math.abs(offsetX) + Math.abs(offsetY) > 3) drag.moved = true;
+
+    setView(current => ({
+      ...current,
+      x: drag.viewX + offsetX * ratio * current.scale,
+      y: drag.viewY + offsetY * ratio * current.scale
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {TYPES.map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => toggleType(type)}
+            className={cn(
+              "flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs transition-opacity",
+              !visibleTypes.has(type) && "opacity-40"
+            )}
+          >
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: TYPE_STYLES[type].color }} />
+            {TYPE_STYLES[type].label}
+          </button>
+        ))}
+        {visible.hidden > 0 && (
+          <span className="text-xs text-muted-foreground">
+            Showing the {MAX_NODES} most connected; {visible.hidden} more hidden
+          </span>
+        )}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={viewBox}
+        className="w-full h-[70vh] rounded-lg border bg-white dark:bg-gray-900 cursor-grab active:cursor-grabbing select-none"
+        onMouseDown={(event) => {
+          dragRef.current = { startX: event.clientX, startY: event.clientY, viewX: view.x, viewY: view.y, moved: false };
+        }}
+        onMouseMove={handleMouseMove}
+        onMouseUp={() => {
+          // Cleared after the click handlers have seen whether this was a drag
+          setTimeout(() => { dragRef.current = null; }, 0);
+        }}
+        onMouseLeave={() => { dragRef.current = null; }}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {visible.edges.map((edge, index) => {
+            const source = positions.get(edge.source);
+            const target = positions.get(edge.target);
+            if (!source || !target) return null;
+            const isActive = neighbours?.has(edge.source) && neighbours?.has(edge.target)
+              && (edge.source === hoveredKey || edge.target === hoveredKey);
+
+            return (
+              <line
+                key={index}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke={isActive ? '#6366f1' : '#94a3b8'}
+                strokeOpacity={neighbours && !isActive ? 0.15 : 0.6}
+                strokeWidth={isActive ? 1.5 : 1}
+                strokeDasharray={edge.kind === 'attached' ? undefined : '3 2'}
+              />
+            );
+          })}
+
+          {visible.nodes.map(node => {
+            const position = positions.get(node.key);
+            if (!position) return null;
+            const isDimmed = neighbours !== null && !neighbours.has(node.key);
+            const showLabel = node.key === hoveredKey || (neighbours?.has(node.key) ?? node.degree >= 4);
+
+            return (
+              <g
+                key={node.key}
+                transform={`translate(${position.x} ${position.y})`}
+                className="cursor-pointer"
+                opacity={isDimmed ? 0.2 : 1}
+                onMouseEnter={() => setHoveredKey(node.key)}
+                onMouseLeave={() => setHoveredKey(null)}
+                onClick={() => openNode(node)}
+              >
+                <circle r={nodeRadius(node)} fill={TYPE_STYLES[node.type].color} stroke="#fff" strokeWidth={1} />
+                <title>{node.label}</title>
+                {showLabel && (
+                  <text
+                    y={nodeRadius(node) + 10}
+                    textAnchor="middle"
+                    className="fill-gray-700 dark:fill-gray-300"
+                    style={{ fontSize: 9 }}
+                  >
+                    {truncate(node.label)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <p className="text-xs text-muted-foreground">
+        Solid lines are notes attached to what they describe, dashed lines links written in a note.
+      </p>
+    </div>
+  );
+}
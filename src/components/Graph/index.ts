@@ -0,0 +1 @@
+export { KnowledgeGraph } from './KnowledgeGraph';
@@ -0,0 +1,83 @@
+import { GraphEdge, GraphNode } from '@/hooks';
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+const REPULSION = 1800;
+const SPRING_LENGTH = 60;
+const SPRING_STRENGTH = 0.04;
+const GRAVITY = 0.01;
+
+/**
+ * Force-directed layout: nodes repel each other, links pull their ends together and
+ * weak gravity keeps disconnected clusters on screen
+ *
+ * Runs synchronously and is O(n²) per iteration, so callers should cap the node count.
+ * Starts from a spiral rather than random points, so the same graph lays out the same way.
+ */
+export function layoutGraph(nodes: GraphNode[], edges: GraphEdge[]): Map<string, NodePosition> {
+  const count = nodes.length;
+  const x = new Float64Array(count);
+  const y = new Float64Array(count);
+  const index = new Map(nodes.map((node, i) => [node.key, i]));
+
+  nodes.forEach((_, i) => {
+    const angle = i * 2.399963; // golden angle
+    const radius = 12 * Math.sqrt(i + 1);
+    x[i] = radius * Math.cos(angle);
+    y[i] = radius * Math.sin(angle);
+  });
+
+  const springs = edges
+    .map(edge => [index.get(edge.source), index.get(edge.target)])
+    .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined);
+
+  const iterations = count > 300 ? 120 : 250;
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+
+  for (let step = 0; step < iterations; step++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const offsetX = x[i] - x[j];
+        const offsetY = y[i] - y[j];
+        const distanceSquared = Math.max(offsetX * offsetX + offsetY * offsetY, 1);
+        const force = REPULSION / distanceSquared;
+        const distance = Math.sqrt(distanceSquared);
+        dx[i] += (offsetX / distance) * force;
+        dy[i] += (offsetY / distance) * force;
+        dx[j] -= (offsetX / distance) * force;
+        dy[j] -= (offsetY / distance) * force;
+      }
+    }
+
+    for (const [a, b] of springs) {
+      const offsetX = x[b] - x[a];
+      const offsetY = y[b] - y[a];
+      const distance = Math.max(Math.sqrt(offsetX * offsetX + offsetY * offsetY), 1);
+      const force = (distance - SPRING_LENGTH) * SPRING_STRENGTH;
+      dx[a] += (offsetX / distance) * force;
+      dy[a] += (offsetY / distance) * force;
+      dx[b] -= (offsetX / distance) * force;
+      dy[b] -= (offsetY / distance) * force;
+    }
+
+    // Cool down so the layout settles instead of oscillating
+    const maxMove = 10 * (1 - step / iterations) + 0.5;
+    for (let i = 0; i < count; i++) {
+      dx[i] -= x[i] * GRAVITY;
+      dy[i] -= y[i] * GRAVITY;
+      const move = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      const scale = move > maxMove ? maxMove / move : 1;
+      x[i] += dx[i] * scale;
+      y[i] += dy[i] * scale;
+    }
+  }
+
+  return new Map(nodes.map((node, i) => [node.key, { x: x[i], y: y[i] }]));
+}
@@ -2,7 +2,7 @@
 
 import { HighlightDomain, HighlightTag } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
-import { Tag as TagIcon, BookOpen, CalendarDays, Save } from 'lucide-react';
+import { Tag as TagIcon, BookOpen, CalendarDays, Save, Link2, StickyNote } from 'lucide-react';
 import { 
   Tooltip,
   TooltipContent,
@@ -10,6 +10,8 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { ReactNode, useRef, useEffect, useState } from 'react';
+import { RelatedHighlights } from './RelatedHighlights';
+import { BacklinksPanel } from '@/components/NoteLinks';
 
 interface HighlightCardProps {
   highlight: HighlightDomain;
@@ -37,6 +39,10 @@ export function HighlightCard({
 }: HighlightCardProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [note, setNote] = useState(highlight.userNote || "");
+  // Related highlights are fetched lazily, only once the section is opened
+  const [showRelated, setShowRelated] = useState(false);
+  // Likewise for the notes linking to the highlight
+  const [showBacklinks, setShowBacklinks] = useState(false);
   
   // Auto-resize textarea based on content
   const adjustTextareaHeight = () => {
@@ -114,6 +120,26 @@ export function HighlightCard({
                 ))}
               </div>
             )}
+            
+            {/* Related highlights toggle */}
+            <button
+              type="button"
+              className={`flex items-center gap-1 hover:text-blue-600 ${showRelated ? 'text-blue-500 font-medium' : ''}`}
+              onClick={() => setShowRelated(prev => !prev)}
+            >
+              <Link2 className="h-3.5 w-3.5" />
+              <span>Related</span>
+            </button>
+            
+            {/* Linking notes toggle */}
+            <button
+              type="button"
+              className={`flex items-center gap-1 hover:text-blue-600 ${showBacklinks ? 'text-blue-500 font-medium' : ''}`}
+              onClick={() => setShowBacklinks(prev => !prev)}
+            >
+              <StickyNote className="h-3.5 w-3.5" />
+              <span>Notes</span>
+            </button>
           </div>
         </div>
         
@@ -155,6 +181,20 @@ export function HighlightCard({
           </div>
         </div>
       </div>
+      
+      {/* Related highlights from other books */}
+      {showRelated && (
+        <div className="border-t border-gray-100 dark:border-gray-800 p-6">
+          <RelatedHighlights source={{ highlightId: highlight.id }} />
+        </div>
+      )}
+      
+      {/* Notes linking to the highlight */}
+      {showBacklinks && (
+        <div className="border-t border-gray-100 dark:border-gray-800 p-6">
+          <BacklinksPanel entityType="highlight" entityId={highlight.id} />
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,103 @@
+'use client';
+
+import Link from 'next/link';
+import { BookOpen, Link2, Loader2 } from 'lucide-react';
+import { useRelatedHighlights, RelatedHighlightsSource } from '@/hooks/services/useRelatedHighlights';
+
+interface RelatedHighlightsProps {
+  source: RelatedHighlightsSource;
+  limit?: number;
+  title?: string;
+  /** Book-level lookups always exclude the source book, so the toggle is hidden */
+  showSameBookToggle?: boolean;
+}
+
+/**
+ * Highlights from across the library that are semantically close to a highlight or book
+ */
+export function RelatedHighlights({
+  source,
+  limit = 5,
+  title = 'Related highlights',
+  showSameBookToggle = true
+}: RelatedHighlightsProps) {
+  const {
+    results,
+    isLoading,
+    error,
+    excludeSameBook,
+    setExcludeSameBook
+  } = useRelatedHighlights(source, limit);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="flex items-center gap-1.5 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <Link2 className="h-4 w-4" />
+          {title}
+        </h3>
+        {showSameBookToggle && (
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={excludeSameBook}
+              onChange={(e) => setExcludeSameBook(e.target.checked)}
+            />
+            Other books only
+          </label>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground py-2">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Finding connections...
+        </div>
+      )}
+
+      {error && !isLoading && (
+        <div className="text-xs text-destructive">Error: {error}</div>
+      )}
+
+      {!isLoading && !error && results.length === 0 && (
+        <div className="text-xs text-muted-foreground py-2">
+          No related highlights yet. Embeddings may still be generating.
+        </div>
+      )}
+
+      {!isLoading && results.length > 0 && (
+        <ul className="space-y-2">
+          {results.map(related => (
+            <li
+              key={related.id}
+              className="rounded-md border border-gray-100 dark:border-gray-800 bg-gray-50/60 dark:bg-gray-800/40 p-3"
+            >
+              <p className="text-sm font-serif leading-relaxed text-gray-800 dark:text-gray-200 line-clamp-4">
+                {related.text}
+              </p>
+              <div className="flex items-center justify-between gap-3 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {related.book.rwId ? (
+                  <Link
+                    href={`/highlights/${related.book.rwId}`}
+                    className="flex items-center gap-1 min-w-0 hover:text-blue-600 hover:underline"
+                  >
+                    <BookOpen className="h-3.5 w-3.5 flex-shrink-0" />
+                    <span className="truncate">
+                      {related.book.title}
+                      {related.book.author && ` · ${related.book.author}`}
+                    </span>
+                  </Link>
+                ) : (
+                  <span className="truncate">{related.book.title}</span>
+                )}
+                <span className="flex-shrink-0 font-medium text-blue-700 dark:text-blue-300">
+                  {Math.round(related.similarity * 100)}% similar
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
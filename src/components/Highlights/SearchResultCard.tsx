@@ -1,13 +1,13 @@
 'use client';
 
-import { HighlightSearchResult, HighlightTag } from '@/lib/types';
-import { Tag as TagIcon, BookOpen, CalendarDays, Save, Sparkles } from 'lucide-react';
+import { HighlightSearchResult, HighlightSearchMode, HighlightTag, NoteDomain, SparkDomain, UnifiedSearchResult } from '@/lib/types';
+import { Tag as TagIcon, BookOpen, CalendarDays, Save, Sparkles, Zap, FileText, Folder } from 'lucide-react';
 import { ReactNode, useRef, useEffect, useState } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 
 interface SearchResultCardProps {
-  highlight: HighlightSearchResult;
+  result: UnifiedSearchResult;
   renderTag: (tag: HighlightTag) => string;
   formatDate: (dateString: string | null) => string;
   highlightMatches: (text: string) => ReactNode;
@@ -15,13 +15,78 @@ interface SearchResultCardProps {
   onTagSelect: (tag: string | null) => void;
   onUserNoteChange?: (highlightId: string, note: string) => void;
   isSavingNote?: boolean;
-  searchMode?: 'keyword' | 'semantic' | 'hybrid';
+  searchMode?: HighlightSearchMode;
+  /** Sparks have no page of their own, so the parent decides how to open them (e.g. preview panel) */
+  onSparkSelect?: (spark: SparkDomain, anchor: HTMLElement) => void;
+}
+
+type HighlightResultProps = Omit<SearchResultCardProps, 'result' | 'onSparkSelect'> & {
+  highlight: HighlightSearchResult;
+};
+
+/**
+ * Format a relevance score for display
+ */
+function formatScore(score: number | undefined, searchMode: HighlightSearchMode) {
+  if (!score) return null;
+  
+  if (searchMode === 'keyword') {
+    // For keyword search, score is rank (lower is better)
+    return `Rank ${Math.round(score)}`;
+  } else {
+    // For semantic/hybrid, score is similarity (0-1, higher is better)
+    // Convert to percentage
+    const percentage = Math.round(score * 100);
+    return `${percentage}% match`;
+  }
+}
+
+function ScoreBadge({ label }: { label: string | null }) {
+  if (!label) return null;
+
+  return (
+    <div className="flex-shrink-0 flex items-center gap-2 px-3 py-1.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-sm font-medium">
+      <Sparkles className="h-3.5 w-3.5" />
+      {label}
+    </div>
+  );
+}
+
+/**
+ * Component for displaying a unified search result (highlight, spark or note) with its relevance score
+ */
+export function SearchResultCard({ result, onSparkSelect, ...props }: SearchResultCardProps) {
+  switch (result.type) {
+    case 'highlight':
+      return <HighlightResult highlight={result.highlight} {...props} />;
+    case 'spark':
+      return (
+        <SparkResult
+          spark={result.spark}
+          score={result.score}
+          searchMode={props.searchMode}
+          formatDate={props.formatDate}
+          highlightMatches={props.highlightMatches}
+          onSparkSelect={onSparkSelect}
+        />
+      );
+    case 'note':
+      return (
+        <NoteResult
+          note={result.note}
+          score={result.score}
+          searchMode={props.searchMode}
+          formatDate={props.formatDate}
+          highlightMatches={props.highlightMatches}
+        />
+      );
+  }
 }
 
 /**
- * Component for displaying a search result highlight with book information and relevance score
+ * Highlight result with book information and an editable user note
  */
-export function SearchResultCard({
+function HighlightResult({
   highlight,
   renderTag,
   formatDate,
@@ -31,7 +96,7 @@ export function SearchResultCard({
   onUserNoteChange,
   isSavingNote = false,
   searchMode = 'keyword'
-}: SearchResultCardProps) {
+}: HighlightResultProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [note, setNote] = useState(highlight.userNote || "");
   
@@ -52,22 +117,7 @@ export function SearchResultCard({
     adjustTextareaHeight();
   }, []);
 
-  // Format score for display
-  const formatScore = (score?: number) => {
-    if (!score) return null;
-    
-    if (searchMode === 'keyword') {
-      // For keyword search, score is rank (lower is better)
-      return `Rank ${Math.round(score)}`;
-    } else {
-      // For semantic/hybrid, score is similarity (0-1, higher is better)
-      // Convert to percentage
-      const percentage = Math.round(score * 100);
-      return `${percentage}% match`;
-    }
-  };
-
-  const scoreLabel = formatScore(highlight.score);
+  const scoreLabel = formatScore(highlight.score, searchMode);
 
   return (
     <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm overflow-hidden border border-gray-200 dark:border-gray-800">
@@ -120,12 +170,7 @@ export function SearchResultCard({
             </div>
 
             {/* Relevance score */}
-            {scoreLabel && (
-              <div className="flex-shrink-0 flex items-center gap-2 px-3 py-1.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-sm font-medium">
-                <Sparkles className="h-3.5 w-3.5" />
-                {scoreLabel}
-              </div>
-            )}
+            <ScoreBadge label={scoreLabel} />
           </div>
         </div>
       )}
@@ -228,3 +273,133 @@ export function SearchResultCard({
   );
 }
 
+interface ContentResultProps {
+  score?: number;
+  searchMode?: HighlightSearchMode;
+  formatDate: (dateString: string | null) => string;
+  highlightMatches: (text: string) => ReactNode;
+}
+
+/**
+ * Shared header for spark and note results
+ */
+function ContentResultHeader({
+  icon,
+  label,
+  title,
+  scoreLabel
+}: {
+  icon: ReactNode;
+  label: string;
+  title: ReactNode;
+  scoreLabel: string | null;
+}) {
+  return (
+    <div className="bg-gradient-to-r from-gray-50 to-white dark:from-gray-800 dark:to-gray-900 border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+      <div className="flex items-center gap-4">
+        <div className="w-10 h-10 flex-shrink-0 rounded bg-gradient-to-br from-amber-100 to-amber-200 dark:from-amber-900 dark:to-amber-800 flex items-center justify-center shadow-md">
+          {icon}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{label}</div>
+          {title}
+        </div>
+        <ScoreBadge label={scoreLabel} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Spark result; opened through onSparkSelect since sparks have no dedicated page
+ */
+function SparkResult({
+  spark,
+  score,
+  searchMode = 'keyword',
+  formatDate,
+  highlightMatches,
+  onSparkSelect
+}: ContentResultProps & {
+  spark: SparkDomain;
+  onSparkSelect?: (spark: SparkDomain, anchor: HTMLElement) => void;
+}) {
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm overflow-hidden border border-gray-200 dark:border-gray-800">
+      <ContentResultHeader
+        icon={<Zap className="h-5 w-5 text-amber-600 dark:text-amber-300" />}
+        label="Spark"
+        title={
+          <button
+            type="button"
+            className="font-semibold text-left text-gray-900 dark:text-gray-100 truncate hover:underline max-w-full"
+            onClick={(e) => onSparkSelect?.(spark, e.currentTarget)}
+          >
+            Open spark
+          </button>
+        }
+        scoreLabel={formatScore(score, searchMode)}
+      />
+      <div className="p-6">
+        <p className="text-lg font-serif leading-relaxed text-gray-800 dark:text-gray-200 whitespace-pre-line">
+          {highlightMatches(spark.body)}
+        </p>
+        <div className="flex flex-wrap gap-4 text-xs text-gray-500 dark:text-gray-400 pt-3">
+          <div className="flex items-center gap-1">
+            <CalendarDays className="h-3.5 w-3.5" />
+            <span>{formatDate(spark.todoCreatedAt || spark.createdAt)}</span>
+          </div>
+          {spark.categories.length > 0 && (
+            <div className="flex items-center gap-1">
+              <Folder className="h-3.5 w-3.5" />
+              <span>{spark.categories.map(category => category.name).join(', ')}</span>
+            </div>
+          )}
+          {spark.tags.length > 0 && (
+            <div className="flex items-center gap-1">
+              <TagIcon className="h-3.5 w-3.5" />
+              <span>{spark.tags.map(tag => tag.name).join(', ')}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Note result linking to the note page
+ */
+function NoteResult({
+  note,
+  score,
+  searchMode = 'keyword',
+  formatDate,
+  highlightMatches
+}: ContentResultProps & { note: NoteDomain }) {
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm overflow-hidden border border-gray-200 dark:border-gray-800">
+      <ContentResultHeader
+        icon={<FileText className="h-5 w-5 text-amber-600 dark:text-amber-300" />}
+        label="Note"
+        title={
+          <Link href={`/notes/${note.id}`} className="hover:underline">
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+              {note.title || 'Untitled note'}
+            </h3>
+          </Link>
+        }
+        scoreLabel={formatScore(score, searchMode)}
+      />
+      <div className="p-6">
+        <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line line-clamp-6">
+          {highlightMatches(note.content)}
+        </p>
+        <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 pt-3">
+          <CalendarDays className="h-3.5 w-3.5" />
+          <span>Updated {formatDate(note.updatedAt)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
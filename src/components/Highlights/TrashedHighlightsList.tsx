@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { BookOpen, FolderIcon, RotateCcw, StickyNote, Tag as TagIcon } from 'lucide-react';
+import { HighlightDeletionReason, TrashedHighlight } from '@/lib/types';
+import { Button } from '@/components/ui';
+
+const DELETION_REASON_LABELS: Record<HighlightDeletionReason, string> = {
+  readwise_deleted: 'Deleted in Readwise',
+  readwise_discarded: 'Discarded in Readwise',
+  missing_upstream: 'No longer in Readwise'
+};
+
+interface TrashedHighlightsListProps {
+  highlights: TrashedHighlight[];
+  onRestore: (highlightIds: string[]) => Promise<boolean>;
+}
+
+/**
+ * Highlights in the trash with their preserved tags, categories and notes, and restore controls
+ */
+export function TrashedHighlightsList({ highlights, onRestore }: TrashedHighlightsListProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [restoringIds, setRestoringIds] = useState<Set<string>>(new Set());
+
+  const toggleSelected = (highlightId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(highlightId)) {
+        next.delete(highlightId);
+      } else {
+        next.add(highlightId);
+      }
+      return next;
+    });
+  };
+
+  const handleRestore = async (highlightIds: string[]) => {
+    setRestoringIds(new Set(highlightIds));
+    try {
+      const restored = await onRestore(highlightIds);
+      if (restored) {
+        setSelectedIds(prev => new Set(Array.from(prev).filter(id => !highlightIds.includes(id))));
+      }
+    } finally {
+      setRestoringIds(new Set());
+    }
+  };
+
+  const allSelected = highlights.length > 0 && selectedIds.size === highlights.length;
+  const isRestoring = restoringIds.size > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => setSelectedIds(allSelected ? new Set() : new Set(highlights.map(h => h.id)))}
+          />
+          Select all
+        </label>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={selectedIds.size === 0 || isRestoring}
+          onClick={() => handleRestore(Array.from(selectedIds))}
+        >
+          <RotateCcw className="h-4 w-4" />
+          Restore selected{selectedIds.size > 0 && ` (${selectedIds.size})`}
+        </Button>
+      </div>
+
+      <ul className="space-y-3">
+        {highlights.map(highlight => (
+          <li
+            key={highlight.id}
+            className="flex gap-3 rounded-lg border border-neutral-200 dark:border-spark-dark-neutral/30 p-4"
+          >
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={selectedIds.has(highlight.id)}
+              onChange={() => toggleSelected(highlight.id)}
+            />
+
+            <div className="flex-1 min-w-0 space-y-2">
+              <p className="text-sm font-serif leading-relaxed text-neutral-800 dark:text-neutral-200 line-clamp-4">
+                {highlight.text}
+              </p>
+
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-neutral-500 dark:text-neutral-400">
+                {highlight.book && (
+                  highlight.book.rwId ? (
+                    <Link
+                      href={`/highlights/${highlight.book.rwId}`}
+                      className="flex items-center gap-1 hover:text-blue-600 hover:underline"
+                    >
+                      <BookOpen className="h-3.5 w-3.5" />
+                      {highlight.book.title}
+                      {highlight.book.author && ` · ${highlight.book.author}`}
+                    </Link>
+                  ) : (
+                    <span className="flex items-center gap-1">
+                      <BookOpen className="h-3.5 w-3.5" />
+                      {highlight.book.title}
+                    </span>
+                  )
+                )}
+                {highlight.tags.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <TagIcon className="h-3.5 w-3.5" />
+                    {highlight.tags.map(tag => tag.name).join(', ')}
+                  </span>
+                )}
+                {highlight.categories.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <FolderIcon className="h-3.5 w-3.5" />
+                    {highlight.categories.map(category => category.name).join(', ')}
+                  </span>
+                )}
+                {highlight.userNote && (
+                  <span className="flex items-center gap-1">
+                    <StickyNote className="h-3.5 w-3.5" />
+                    Has note
+                  </span>
+                )}
+              </div>
+
+              <div className="text-xs text-neutral-400 dark:text-neutral-500">
+                {highlight.deletionReason ? DELETION_REASON_LABELS[highlight.deletionReason] : 'Deleted'}
+                {' · '}
+                {new Date(highlight.deletedAt).toLocaleDateString()}
+              </div>
+            </div>
+
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isRestoring}
+              onClick={() => handleRestore([highlight.id])}
+            >
+              <RotateCcw className="h-4 w-4" />
+              {restoringIds.has(highlight.id) ? 'Restoring...' : 'Restore'}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 export { TagFilter } from './TagFilter';
 export { HighlightCard } from './HighlightCard';
 export { SearchResultCard } from './SearchResultCard';
+export { RelatedHighlights } from './RelatedHighlights';
+export { TrashedHighlightsList } from './TrashedHighlightsList';
 export { EmptyState } from './EmptyState';
 export { HighlightTextWithMatches } from './HighlightTextWithMatches';
 export { default as HighlightsList } from './HighlightsList';
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { FileUp, Loader2, Upload } from 'lucide-react';
+import { useHighlightImport } from '@/hooks';
+import type { ImportFormat } from '@/lib/import/format';
+import { Button } from '@/components/ui';
+
+const FORMAT_OPTIONS: Array<{ value: ImportFormat | 'auto'; label: string }> = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'kindle', label: 'Kindle (My Clippings.txt)' },
+  { value: 'csv', label: 'CSV (incl. Apple Books annotations)' },
+  { value: 'json', label: 'JSON' }
+];
+
+/**
+ * Upload highlights from Kindle, Apple Books, CSV or JSON files outside of Readwise
+ */
+export function ImportPanel() {
+  const { isUploading, uploadFile } = useHighlightImport();
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ImportFormat | 'auto'>('auto');
+  const [inputKey, setInputKey] = useState(0);
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    if (await uploadFile(file, format)) {
+      setFile(null);
+      // Reset the file input
+      setInputKey(key => key + 1);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+        <FileUp className="h-5 w-5" />
+        Import Highlights
+      </h2>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        Add highlights from a Kindle <code>My Clippings.txt</code>, a CSV (with a Highlight or Text
+        column, or Apple Books annotations) or a JSON export. Highlights whose text is already in your
+        library are skipped, and books are matched by title and author, so importing the same file
+        twice adds nothing.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          key={inputKey}
+          type="file"
+          accept=".txt,.csv,.tsv,.json,text/plain,text/csv,application/json"
+          className="text-sm"
+          onChange={e => setFile(e.target.files?.[0] || null)}
+        />
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as ImportFormat | 'auto')}
+          className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800"
+        >
+          {FORMAT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <Button onClick={handleImport} disabled={!file || isUploading}>
+          {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          Import
+        </Button>
+      </div>
+    </div>
+  );
+}
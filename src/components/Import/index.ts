@@ -0,0 +1 @@
+export { ImportPanel } from './ImportPanel';
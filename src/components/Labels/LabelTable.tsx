@@ -0,0 +1,188 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Check, CornerDownRight, Pencil, X } from "lucide-react";
+import { Button, Input } from "@/components/ui";
+import { CategoryWithUsage, TagWithUsage } from "@/lib/categorization/types";
+import type { LabelKind } from "@/hooks";
+
+type Label = CategoryWithUsage | TagWithUsage;
+
+interface LabelTableProps {
+  kind: LabelKind;
+  labels: Label[];
+  selectedIds: string[];
+  disabled: boolean;
+  onSelectionChange: (ids: string[]) => void;
+  onRename: (id: string, name: string) => Promise<boolean>;
+  onSetParent?: (categoryId: string, parentId: string | null) => Promise<boolean>;
+}
+
+/**
+ * Order categories as a tree (parents before their children) and record each one's depth.
+ * Tags, and categories whose parent is missing, stay at depth 0.
+ */
+function toTreeRows(labels: Label[]): Array<{ label: Label; depth: number }> {
+  const ids = new Set(labels.map(label => label.id));
+  const parentOf = (label: Label) => {
+    const parentId = "parentId" in label ? label.parentId : null;
+    return parentId && ids.has(parentId) ? parentId : null;
+  };
+
+  const rows: Array<{ label: Label; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const label of labels.filter(l => parentOf(l) === parentId)) {
+      rows.push({ label, depth });
+      visit(label.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return rows;
+}
+
+/**
+ * Selectable list of categories or tags with usage counts, inline rename and,
+ * for categories, a parent picker
+ */
+export function LabelTable({
+  kind,
+  labels,
+  selectedIds,
+  disabled,
+  onSelectionChange,
+  onRename,
+  onSetParent
+}: LabelTableProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const rows = useMemo(() => toTreeRows(labels), [labels]);
+  const allSelected = labels.length > 0 && selectedIds.length === labels.length;
+
+  const toggle = (id: string) => {
+    onSelectionChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const saveName = async (id: string) => {
+    if (await onRename(id, draftName)) {
+      setEditingId(null);
+    }
+  };
+
+  if (labels.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+        No {kind === "category" ? "categories" : "tags"} yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-800 text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="w-10 px-3 py-2">
+              <input
+                type="checkbox"
+                aria-label="Select all"
+                checked={allSelected}
+                onChange={() => onSelectionChange(allSelected ? [] : labels.map(label => label.id))}
+              />
+            </th>
+            <th className="px-3 py-2">Name</th>
+            {onSetParent && <th className="px-3 py-2">Parent</th>}
+            <th className="px-3 py-2 text-right">Used</th>
+            <th className="w-12 px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {rows.map(({ label, depth }) => {
+            const href = kind === "category" && "slug" in label
+              ? `/category/${label.slug}`
+              : `/tag/${encodeURIComponent(label.name)}`;
+
+            return (
+              <tr key={label.id} className={selectedIds.includes(label.id) ? "bg-blue-50 dark:bg-blue-950/30" : ""}>
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${label.name}`}
+                    checked={selectedIds.includes(label.id)}
+                    onChange={() => toggle(label.id)}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                    {depth > 0 && <CornerDownRight className="h-3 w-3 shrink-0 text-gray-400" />}
+                    {editingId === label.id ? (
+                      <form
+                        className="flex items-center gap-1"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          saveName(label.id);
+                        }}
+                      >
+                        <Input
+                          autoFocus
+                          value={draftName}
+                          onChange={(e) => setDraftName(e.target.value)}
+                          className="h-8"
+                        />
+                        <Button type="submit" variant="ghost" size="icon" disabled={disabled} aria-label="Save name">
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => setEditingId(null)} aria-label="Cancel">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </form>
+                    ) : (
+                      <Link href={href} className="hover:underline">
+                        {kind === "tag" ? `#${label.name}` : label.name}
+                      </Link>
+                    )}
+                  </div>
+                </td>
+                {onSetParent && (
+                  <td className="px-3 py-2">
+                    <select
+                      value={("parentId" in label && label.parentId) || ""}
+                      disabled={disabled}
+                      onChange={(e) => onSetParent(label.id, e.target.value || null)}
+                      className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800"
+                    >
+                      <option value="">None (top level)</option>
+                      {labels
+                        .filter(other => other.id !== label.id)
+                        .map(other => (
+                          <option key={other.id} value={other.id}>{other.name}</option>
+                        ))}
+                    </select>
+                  </td>
+                )}
+                <td className="px-3 py-2 text-right tabular-nums">{label.usageCount}</td>
+                <td className="px-3 py-2">
+                  {editingId !== label.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Rename ${label.name}`}
+                      onClick={() => {
+                        setEditingId(label.id);
+                        setDraftName(label.name);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button, Modal } from "@/components/ui";
+import type { LabelKind } from "@/hooks";
+
+interface MergeLabelsModalProps {
+  isOpen: boolean;
+  kind: LabelKind;
+  labels: Array<{ id: string; name: string; usageCount: number }>;
+  isWorking: boolean;
+  onClose: () => void;
+  onMerge: (targetId: string) => Promise<boolean>;
+}
+
+/**
+ * Pick which of the selected categories or tags the others are merged into
+ */
+export function MergeLabelsModal({ isOpen, kind, labels, isWorking, onClose, onMerge }: MergeLabelsModalProps) {
+  const [targetId, setTargetId] = useState<string>("");
+
+  // Default to the most used one, so the fewest links have to move
+  useEffect(() => {
+    if (isOpen && labels.length > 0) {
+      setTargetId([...labels].sort((a, b) => b.usageCount - a.usageCount)[0].id);
+    }
+  }, [isOpen, labels]);
+
+  const plural = kind === "category" ? "categories" : "tags";
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Merge ${labels.length} ${plural}`} size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Everything labelled with the others will be labelled with the one you keep, and the others
+          will be deleted.
+          {kind === "category" && " Their subcategories move under the one you keep."}
+        </p>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Keep</legend>
+          {labels.map(label => (
+            <label key={label.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="merge-target"
+                checked={targetId === label.id}
+                onChange={() => setTargetId(label.id)}
+              />
+              <span>{kind === "tag" ? `#${label.name}` : label.name}</span>
+              <span className="text-gray-500 dark:text-gray-400">({label.usageCount})</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            disabled={!targetId || isWorking}
+            onClick={async () => {
+              if (await onMerge(targetId)) {
+                onClose();
+              }
+            }}
+          >
+            {isWorking ? "Merging..." : "Merge"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
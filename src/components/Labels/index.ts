@@ -0,0 +1,2 @@
+export { LabelTable } from './LabelTable';
+export { MergeLabelsModal } from './MergeLabelsModal';
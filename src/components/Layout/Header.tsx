@@ -10,7 +10,8 @@ import {
   Maximize,
   Minimize,
   Sparkles,
-  Layers
+  Layers,
+  Plus
 } from "lucide-react";
 import { ModeToggle } from "@/components/theme";
 import { LogoutButton } from "@/components/auth";
@@ -18,6 +19,9 @@ import { usePathname, useRouter } from "next/navigation";
 import Link from "next/link";
 import { LogoIcon } from "@/components/icons/LogoIcon";
 import { HighlightSearchMode, DEFAULT_USER_SETTINGS } from "@/lib/types";
+import { CommandPalette } from "@/components/CommandPalette";
+import { SparkComposer } from "@/components/SparkComposer";
+import { NotificationBell } from "@/components/Notifications";
 
 interface HeaderProps {
   toggleRightSidebar: () => void;
@@ -41,8 +45,31 @@ export default function Header({
     DEFAULT_USER_SETTINGS.search?.defaultMode || 'semantic'
   );
   const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isComposerOpen, setIsComposerOpen] = useState(false);
   const searchContainerRef = useRef<HTMLDivElement>(null);
   
+  // Open the command palette (Cmd/Ctrl-K) or spark composer (Alt-N) from anywhere in the app
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsSearchFocused(false);
+        setIsPaletteOpen(open => !open);
+      }
+
+      // Alt+N opens the spark composer; match on code since Option+N types a character on macOS
+      if (event.altKey && !event.metaKey && !event.ctrlKey && event.code === 'KeyN') {
+        event.preventDefault();
+        setIsPaletteOpen(false);
+        setIsComposerOpen(true);
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+  
   // Load search mode preference from localStorage on mount
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -131,11 +158,19 @@ export default function Header({
               <input
                 type="search"
                 placeholder="Search highlights..."
-                className="w-full rounded-md border bg-background pl-9 py-2 text-sm outline-none focus:ring-1 focus:ring-spark-primary dark:focus:ring-spark-dark-primary dark:border-spark-dark-neutral/30"
+                className="w-full rounded-md border bg-background pl-9 pr-12 py-2 text-sm outline-none focus:ring-1 focus:ring-spark-primary dark:focus:ring-spark-dark-primary dark:border-spark-dark-neutral/30"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onFocus={() => setIsSearchFocused(true)}
               />
+              <button
+                type="button"
+                onClick={() => setIsPaletteOpen(true)}
+                className="absolute right-2 top-1.5 text-xs text-muted-foreground border rounded px-1.5 py-0.5 hover:bg-secondary"
+                title="Quick search (Cmd/Ctrl+K)"
+              >
+                ⌘K
+              </button>
             </form>
             
             {/* Search mode dropdown */}
@@ -205,6 +240,19 @@ export default function Header({
             </Button>
           )}
           
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsComposerOpen(true)}
+            className="h-8 w-8"
+            title="New spark (Alt+N)"
+          >
+            <Plus className="h-4 w-4" />
+            <span className="sr-only">New spark</span>
+          </Button>
+          
+          <NotificationBell />
+          
           <ModeToggle />
           
           <Button variant="ghost" size="icon" onClick={toggleRightSidebar} className="h-8 w-8">
@@ -234,6 +282,9 @@ export default function Header({
           <LogoutButton />
         </div>
       </div>
+      
+      <CommandPalette isOpen={isPaletteOpen} onClose={() => setIsPaletteOpen(false)} />
+      <SparkComposer isOpen={isComposerOpen} onClose={() => setIsComposerOpen(false)} />
     </header>
   );
 } 
\ No newline at end of file
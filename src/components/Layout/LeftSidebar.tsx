@@ -15,7 +15,11 @@ import {
   Highlighter,
   StickyNote,
   Bug,
-  FileCog2
+  FileCog2,
+  Trash2,
+  GraduationCap,
+  FolderTree,
+  Share2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
@@ -171,6 +175,18 @@ export default function LeftSidebar({
 
   // Utility sidebar items
   const utilitySidebarItems: NavItem[] = [
+    {
+      name: "Review",
+      icon: <GraduationCap className="h-5 w-5" />,
+      tooltip: "Daily review",
+      href: "/review"
+    },
+    {
+      name: "Graph",
+      icon: <Share2 className="h-5 w-5" />,
+      tooltip: "Knowledge graph",
+      href: "/graph"
+    },
     {
       name: "Automations",
       icon: <FileCog2 />,
@@ -178,6 +194,18 @@ export default function LeftSidebar({
       tooltip: "Automations",
       href: "/automations"
     },
+    {
+      name: "Labels",
+      icon: <FolderTree className="h-5 w-5" />,
+      tooltip: "Manage categories & tags",
+      href: "/labels"
+    },
+    {
+      name: "Trash",
+      icon: <Trash2 className="h-5 w-5" />,
+      tooltip: "Trash",
+      href: "/trash"
+    },
     {
       name: "Debug",
       icon: <Bug className="h-5 w-5" />,
@@ -1,35 +1,105 @@
 'use client';
 
-import { Calendar, Users, FileText, Settings, Search, Plus } from "lucide-react";
+import Link from "next/link";
+import {
+  Highlighter,
+  FileText,
+  Flame,
+  Bot,
+  RefreshCw,
+  BookOpen,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  CircleDashed
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { cn } from "@/lib/utils";
-import { useContentService } from "@/hooks";
-import { QuickAccessItem, ActivityItem, DocumentItem } from "@/services/content.service";
+import { formatDate } from "@/lib/utils";
+import { useDashboard } from "@/hooks";
+import { IntegrationSyncStatus } from "@/lib/types";
 
+function Section({
+  title,
+  icon,
+  action,
+  children
+}: {
+  title: string;
+  icon: React.ReactNode;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-semibold text-lg flex items-center gap-2">
+          {icon}
+          {title}
+        </h2>
+        {action}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function EmptyState({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="border border-dashed rounded-lg p-6 text-sm text-muted-foreground text-center">
+      {children}
+    </div>
+  );
+}
+
+function SyncStatusBadge({ status }: { status: IntegrationSyncStatus }) {
+  if (!status.lastRun) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <CircleDashed className="h-3.5 w-3.5" />
+        Never synced
+      </span>
+    );
+  }
+
+  switch (status.lastRun.status) {
+    case 'completed':
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+          <CheckCircle2 className="h-3.5 w-3.5" />
+          Synced
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+          <XCircle className="h-3.5 w-3.5" />
+          Failed
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center gap-1 text-xs text-spark-primary dark:text-spark-dark-primary">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Running
+        </span>
+      );
+  }
+}
+
+/**
+ * Home dashboard: recent highlights and edits, automations awaiting review,
+ * integration sync status and per-book reading stats
+ */
 export default function MainContent() {
-  const { quickAccessItems, activityItems, documentItems, isLoading } = useContentService();
-  
-  // Map icons to the quick access items
-  const itemsWithIcons = quickAccessItems.map(item => {
-    let icon;
-    switch (item.title) {
-      case "Calendar":
-        icon = <Calendar className="h-6 w-6" />;
-        break;
-      case "Contacts":
-        icon = <Users className="h-6 w-6" />;
-        break;
-      case "Documents":
-        icon = <FileText className="h-6 w-6" />;
-        break;
-      case "Settings":
-        icon = <Settings className="h-6 w-6" />;
-        break;
-      default:
-        icon = <FileText className="h-6 w-6" />;
-    }
-    return { ...item, icon };
-  });
+  const { dashboard, isLoading, refresh } = useDashboard();
+  const {
+    recentHighlights,
+    recentlyEdited,
+    pendingAutomations,
+    pendingAutomationCount,
+    syncStatus,
+    readingStats
+  } = dashboard;
 
   // If still loading data, show a simple loading state
   if (isLoading) {
@@ -53,92 +123,178 @@ export default function MainContent() {
               Your intelligent workspace for personal knowledge management
             </p>
           </div>
-          <div className="flex items-center gap-2">
-            <div className="relative">
-              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-              <input
-                type="search"
-                placeholder="Search in dashboard..."
-                className="rounded-md border bg-background py-2 pl-8 pr-3 text-sm outline-none focus:ring-1 focus:ring-spark-primary dark:focus:ring-spark-dark-primary dark:border-spark-dark-neutral/30"
-              />
-            </div>
-            <Button variant="primary">
-              <Plus className="h-4 w-4 mr-1" />
-              New
-            </Button>
-          </div>
+          <Button variant="outline" size="sm" onClick={refresh}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
         </div>
 
-        {/* Grid section */}
-        <div>
-          <h2 className="font-semibold text-lg mb-4">Quick Access</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {itemsWithIcons.map((item, index) => (
-              <div 
-                key={index}
-                className="border rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow dark-card"
-              >
-                <div className="flex items-start gap-4">
-                  <div className={cn("p-2 rounded-full", item.color)}>
-                    {item.icon}
-                  </div>
-                  <div className="flex-1">
-                    <h3 className="font-medium">{item.title}</h3>
-                    <p className="text-sm text-muted-foreground">
-                      {item.description}
-                    </p>
-                  </div>
+        {/* Integration sync status */}
+        <Section
+          title="Sync Status"
+          icon={<RefreshCw className="h-5 w-5" />}
+          action={
+            <Link href="/settings">
+              <Button variant="ghost" size="sm">Integrations</Button>
+            </Link>
+          }
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {syncStatus.map(status => (
+              <div key={status.integration} className="border rounded-lg p-4 shadow-sm dark-card">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="font-medium">{status.label}</h3>
+                  <SyncStatusBadge status={status} />
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  {status.lastSuccessAt
+                    ? `Last successful sync ${formatDate(status.lastSuccessAt)}`
+                    : 'No successful sync yet'}
+                </p>
+                {status.lastRun?.status === 'failed' && status.lastRun.errorMessage && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-1 line-clamp-2">
+                    {status.lastRun.errorMessage}
+                  </p>
+                )}
               </div>
             ))}
           </div>
-        </div>
+        </Section>
 
-        {/* List section */}
-        <div>
-          <h2 className="font-semibold text-lg mb-4">Recent Activities</h2>
-          <div className="border border-sidebar rounded-lg divide-y divide-sidebar overflow-hidden dark-card">
-            {activityItems.map((item, index) => (
-              <div 
-                key={index}
-                className="p-4 bg-background hover:bg-spark-neutral/10 dark:hover:bg-spark-dark-neutral/20 transition-colors"
-              >
-                <div className="flex items-center justify-between mb-1">
-                  <h3 className="font-medium">{item.title}</h3>
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs text-muted-foreground">{item.date}</span>
-                    <span className={cn("inline-block w-2 h-2 rounded-full", item.statusColor)}></span>
-                    <span className="text-xs font-medium">{item.status}</span>
+        {/* Automations awaiting review */}
+        {pendingAutomationCount > 0 && (
+          <Section
+            title={`Awaiting Review (${pendingAutomationCount})`}
+            icon={<Bot className="h-5 w-5" />}
+            action={
+              <Link href="/automations">
+                <Button variant="branded" size="sm">Review</Button>
+              </Link>
+            }
+          >
+            <div className="border border-sidebar rounded-lg divide-y divide-sidebar overflow-hidden dark-card">
+              {pendingAutomations.map(automation => (
+                <Link
+                  key={automation.id}
+                  href="/automations"
+                  className="block p-4 bg-background hover:bg-spark-neutral/10 dark:hover:bg-spark-dark-neutral/20 transition-colors"
+                >
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">{automation.name}</h3>
+                    <span className="text-xs text-muted-foreground">{formatDate(automation.createdAt)}</span>
                   </div>
-                </div>
-                <p className="text-sm text-muted-foreground">{item.description}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {automation.actionCount} suggested {automation.actionCount === 1 ? 'change' : 'changes'} from {automation.source}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </Section>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Recently synced highlights */}
+          <Section title="Recently Synced Highlights" icon={<Highlighter className="h-5 w-5" />}>
+            {recentHighlights.length === 0 ? (
+              <EmptyState>No highlights synced yet. Connect Readwise in settings to get started.</EmptyState>
+            ) : (
+              <div className="border border-sidebar rounded-lg divide-y divide-sidebar overflow-hidden dark-card">
+                {recentHighlights.map(highlight => {
+                  const content = (
+                    <>
+                      <p className="text-sm line-clamp-3">{highlight.text}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {highlight.bookTitle || 'Unknown book'}
+                        {highlight.bookAuthor && ` · ${highlight.bookAuthor}`}
+                        {` · ${formatDate(highlight.syncedAt)}`}
+                      </p>
+                    </>
+                  );
+                  const className = "block p-4 bg-background hover:bg-spark-neutral/10 dark:hover:bg-spark-dark-neutral/20 transition-colors";
+
+                  return highlight.bookRwId ? (
+                    <Link key={highlight.id} href={`/highlights/${highlight.bookRwId}`} className={className}>
+                      {content}
+                    </Link>
+                  ) : (
+                    <div key={highlight.id} className={className}>{content}</div>
+                  );
+                })}
               </div>
-            ))}
-          </div>
-        </div>
+            )}
+          </Section>
 
-        {/* Recent documents section */}
-        <div>
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="font-semibold text-lg">Recent Documents</h2>
-            <Button variant="branded" size="sm">View All</Button>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {documentItems.map((item, index) => (
-              <div 
-                key={index} 
-                className="border border-sidebar rounded-lg p-4 hover:border-spark-primary dark:hover:border-spark-dark-primary transition-colors group dark-card"
-              >
-                <div className={cn("h-40 rounded border border-sidebar flex items-center justify-center transition-colors mb-2", item.color)}>
-                  <FileText className={cn("h-10 w-10", item.iconColor)} />
-                </div>
-                <h3 className="font-medium truncate">{item.title}</h3>
-                <p className="text-xs text-muted-foreground">{item.updatedAt}</p>
+          {/* Recently edited notes and sparks */}
+          <Section title="Recently Edited" icon={<FileText className="h-5 w-5" />}>
+            {recentlyEdited.length === 0 ? (
+              <EmptyState>Notes and sparks you write will show up here.</EmptyState>
+            ) : (
+              <div className="border border-sidebar rounded-lg divide-y divide-sidebar overflow-hidden dark-card">
+                {recentlyEdited.map(item => {
+                  const content = (
+                    <div className="flex items-center gap-3">
+                      {item.type === 'note'
+                        ? <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        : <Flame className="h-4 w-4 shrink-0 text-muted-foreground" />}
+                      <span className="flex-1 truncate text-sm font-medium">{item.title}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{formatDate(item.updatedAt)}</span>
+                    </div>
+                  );
+                  const className = "block p-4 bg-background hover:bg-spark-neutral/10 dark:hover:bg-spark-dark-neutral/20 transition-colors";
+
+                  // Sparks have no page of their own
+                  return item.type === 'note' ? (
+                    <Link key={`note-${item.id}`} href={`/notes/${item.id}`} className={className}>
+                      {content}
+                    </Link>
+                  ) : (
+                    <div key={`spark-${item.id}`} className={className}>{content}</div>
+                  );
+                })}
               </div>
-            ))}
-          </div>
+            )}
+          </Section>
         </div>
+
+        {/* Reading stats per book */}
+        <Section title="Reading Stats" icon={<BookOpen className="h-5 w-5" />}>
+          {readingStats.length === 0 ? (
+            <EmptyState>Reading stats appear once books have highlights.</EmptyState>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {readingStats.map(book => (
+                <Link
+                  key={book.bookId}
+                  href={`/highlights/${book.rwId}`}
+                  className="border border-sidebar rounded-lg p-4 hover:border-spark-primary dark:hover:border-spark-dark-primary transition-colors dark-card flex gap-3"
+                >
+                  {book.coverImageUrl ? (
+                    <img
+                      src={book.coverImageUrl}
+                      alt=""
+                      className="h-16 w-12 rounded object-cover shrink-0"
+                    />
+                  ) : (
+                    <div className="h-16 w-12 rounded bg-spark-primary/10 dark:bg-spark-dark-primary/20 flex items-center justify-center shrink-0">
+                      <BookOpen className="h-5 w-5 text-spark-primary/70 dark:text-spark-dark-primary/80" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <h3 className="font-medium truncate">{book.title || 'Untitled'}</h3>
+                    {book.author && (
+                      <p className="text-xs text-muted-foreground truncate">{book.author}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {book.highlightCount} {book.highlightCount === 1 ? 'highlight' : 'highlights'}
+                      {book.lastHighlightAt && ` · last ${formatDate(book.lastHighlightAt)}`}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </Section>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import Link from "next/link";
+import { Book, Highlighter, Link2, StickyNote, Zap } from "lucide-react";
+import { useNoteLinks } from "@/hooks";
+import { NoteLinkDomain, NoteLinkTargetType } from "@/lib/types";
+import { noteLinkHref } from "@/lib/note-links";
+
+const TYPE_ICONS: Record<NoteLinkTargetType, typeof Book> = {
+  note: StickyNote,
+  book: Book,
+  highlight: Highlighter,
+  spark: Zap
+};
+
+interface BacklinksPanelProps {
+  entityType: NoteLinkTargetType;
+  entityId: string;
+  /** Links the parent already loaded with useNoteLinks; fetched here otherwise */
+  links?: NoteLinkDomain[];
+  onOpenSpark?: (sparkId: string) => void;
+  className?: string;
+}
+
+function truncate(text: string, length: number = 100): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
+
+/**
+ * Notes linking to a note, book, highlight or spark and, for a note, what it links to
+ */
+export function BacklinksPanel({ entityType, entityId, links: providedLinks, onOpenSpark, className }: BacklinksPanelProps) {
+  const { links: fetchedLinks, isLoading } = useNoteLinks(entityType, providedLinks ? null : entityId);
+  const links = providedLinks ?? fetchedLinks;
+
+  // A note can be attached to and mention the same target; list each note once.
+  // A book's links also cover its highlights, so notes on those are listed with it.
+  const incoming = Array.from(
+    new Map(
+      links
+        .filter(link =>
+          (link.targetType === entityType && link.targetId === entityId)
+          || (entityType === 'book' && link.targetType === 'highlight')
+        )
+        .map(link => [link.noteId, link])
+    ).values()
+  );
+  const outgoing = entityType === 'note' ? links.filter(link => link.noteId === entityId) : [];
+
+  if (!providedLinks && isLoading) {
+    return null;
+  }
+
+  const renderTarget = (link: NoteLinkDomain) => {
+    const Icon = TYPE_ICONS[link.targetType];
+    const label = truncate(link.targetLabel);
+    const href = noteLinkHref(link.targetType, link.targetId, link.targetBookRwId);
+
+    return (
+      <li key={`${link.targetType}:${link.targetId}`} className="flex items-start gap-2 text-sm">
+        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+        {link.targetType === 'spark' && onOpenSpark ? (
+          <button type="button" className="text-left hover:underline" onClick={() => onOpenSpark(link.targetId)}>
+            {label}
+          </button>
+        ) : href ? (
+          <Link href={href} className="hover:underline">{label}</Link>
+        ) : (
+          <span>{label}</span>
+        )}
+        {link.kind === 'attached' && <span className="text-xs text-muted-foreground">(attached)</span>}
+        {link.targetDeleted && <span className="text-xs text-muted-foreground">(in trash)</span>}
+      </li>
+    );
+  };
+
+  return (
+    <div className={className}>
+      {entityType === 'note' && (
+        <div className="mb-4">
+          <h3 className="text-sm font-medium flex items-center gap-1.5 mb-2">
+            <Link2 className="h-4 w-4" />
+            Links to
+          </h3>
+          {outgoing.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Link to a note or book with [[Title]], or mention a highlight or spark with @.
+            </p>
+          ) : (
+            <ul className="space-y-1.5">{outgoing.map(renderTarget)}</ul>
+          )}
+        </div>
+      )}
+
+      <h3 className="text-sm font-medium flex items-center gap-1.5 mb-2">
+        <StickyNote className="h-4 w-4" />
+        {entityType === 'note' ? 'Linked from' : 'Notes'}
+      </h3>
+      {incoming.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No notes link here yet.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {incoming.map(link => (
+            <li key={link.noteId} className="flex items-start gap-2 text-sm">
+              <StickyNote className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <Link href={`/notes/${link.noteId}`} className="hover:underline">
+                {truncate(link.noteTitle) || 'Untitled note'}
+              </Link>
+              {link.kind === 'attached' && <span className="text-xs text-muted-foreground">(attached)</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
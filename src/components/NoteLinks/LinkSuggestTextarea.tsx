@@ -0,0 +1,221 @@
+"use client";
+
+import { useState, useEffect, useRef, TextareaHTMLAttributes } from "react";
+import { Book, Highlighter, Loader2, StickyNote, Zap } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Textarea } from "@/components/ui/textarea";
+import { useHeaderService } from "@/hooks";
+import { HeaderSearchResult, HeaderSearchResultType } from "@/lib/types";
+import { formatMention, formatWikiLink } from "@/lib/note-links";
+
+interface LinkSuggestTextareaProps extends Omit<TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface Trigger {
+  kind: 'wiki' | 'mention';
+  /** Index of the `[[` or `@` that opened the suggestion */
+  start: number;
+  query: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const SUGGESTED_TYPES: Record<Trigger['kind'], HeaderSearchResultType[]> = {
+  wiki: ['note', 'book'],
+  mention: ['highlight', 'spark']
+};
+
+const TYPE_ICONS: Partial<Record<HeaderSearchResultType, typeof Book>> = {
+  note: StickyNote,
+  book: Book,
+  highlight: Highlighter,
+  spark: Zap
+};
+
+/**
+ * The unfinished `[[title` or `@text` just before the caret, if any
+ */
+function findTrigger(value: string, caret: number): Trigger | null {
+  const before = value.slice(0, caret);
+
+  const wiki = /\[\[([^\][|\n]{0,80})$/.exec(before);
+  if (wiki) {
+    return { kind: 'wiki', start: wiki.index, query: wiki[1] };
+  }
+
+  // A mention starts a word, so email addresses don't open it
+  const mention = /(^|\s)@([^\s@[\]()][^@[\]()\n]{0,80})$/.exec(before);
+  if (mention) {
+    return { kind: 'mention', start: mention.index + mention[1].length, query: mention[2] };
+  }
+
+  return null;
+}
+
+function toLinkText(result: HeaderSearchResult): string {
+  switch (result.type) {
+    case 'book':
+      return formatWikiLink(result.title, 'book');
+    case 'highlight':
+    case 'spark':
+      return formatMention(result.type, result.id, result.title);
+    default:
+      return formatWikiLink(result.title);
+  }
+}
+
+/**
+ * Textarea that suggests notes and books after `[[` and highlights and sparks after `@`,
+ * and writes the chosen one as link syntax
+ */
+export function LinkSuggestTextarea({ value, onChange, onKeyDown, className, ...props }: LinkSuggestTextareaProps) {
+  const headerService = useHeaderService();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const latestRequestId = useRef(0);
+  const [trigger, setTrigger] = useState<Trigger | null>(null);
+  const [suggestions, setSuggestions] = useState<HeaderSearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const updateTrigger = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setTrigger(findTrigger(textarea.value, textarea.selectionStart));
+  };
+
+  // Debounced search for the text typed after the trigger
+  useEffect(() => {
+    if (!trigger || trigger.query.trim().length < 2) {
+      // Invalidate a search still in flight so it can't reopen the closed list
+      latestRequestId.current++;
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const requestId = ++latestRequestId.current;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      const { results } = await headerService.search(trigger.query, 5);
+
+      // Ignore responses for outdated queries
+      if (requestId !== latestRequestId.current) return;
+
+      const types = SUGGESTED_TYPES[trigger.kind];
+      setSuggestions(
+        // Untitled notes can't be linked by title
+        results.filter(result => types.includes(result.type) && !(result.type === 'note' && result.title === 'Untitled note'))
+      );
+      setActiveIndex(0);
+      setIsLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [trigger?.kind, trigger?.query, headerService]);
+
+  const insert = (result: HeaderSearchResult) => {
+    const textarea = textareaRef.current;
+    if (!trigger || !textarea) return;
+
+    const linkText = toLinkText(result);
+    const caret = textarea.selectionStart;
+    const next = value.slice(0, trigger.start) + linkText + value.slice(caret);
+    const nextCaret = trigger.start + linkText.length;
+
+    onChange(next);
+    setTrigger(null);
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (trigger && suggestions.length > 0) {
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          setActiveIndex(index => Math.min(index + 1, suggestions.length - 1));
+          return;
+        case 'ArrowUp':
+          e.preventDefault();
+          setActiveIndex(index => Math.max(index - 1, 0));
+          return;
+        case 'Enter':
+        case 'Tab':
+          e.preventDefault();
+          insert(suggestions[activeIndex]);
+          return;
+        case 'Escape':
+          e.preventDefault();
+          setTrigger(null);
+          return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  const isOpen = !!trigger && trigger.query.trim().length >= 2 && (isLoading || suggestions.length > 0);
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        className={className}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setTrigger(findTrigger(e.target.value, e.target.selectionStart));
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key)) updateTrigger();
+        }}
+        onClick={updateTrigger}
+        onBlur={() => setTrigger(null)}
+      />
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-background border rounded-md shadow-lg z-50 max-h-64 overflow-y-auto">
+          {isLoading && suggestions.length === 0 ? (
+            <div className="flex items-center gap-2 px-3 py-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching…
+            </div>
+          ) : (
+            suggestions.map((result, index) => {
+              const Icon = TYPE_ICONS[result.type] || StickyNote;
+              return (
+                <button
+                  key={`${result.type}:${result.id}`}
+                  type="button"
+                  // Keep focus in the textarea so the caret position survives the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insert(result)}
+                  className={cn(
+                    "flex w-full items-start gap-2 px-3 py-2 text-left text-sm",
+                    index === activeIndex ? "bg-secondary" : "hover:bg-secondary/60"
+                  )}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                  <span className="min-w-0">
+                    <span className="block truncate">{result.title}</span>
+                    {result.subtitle && (
+                      <span className="block truncate text-xs text-muted-foreground">{result.subtitle}</span>
+                    )}
+                  </span>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import Link from "next/link";
+import { NoteLinkDomain } from "@/lib/types";
+import { noteLinkHref, parseNoteContent, NoteContentSegment } from "@/lib/note-links";
+
+interface NoteContentProps {
+  content: string;
+  /** The note's outgoing links, as returned for it by useNoteLinks */
+  links: NoteLinkDomain[];
+  onOpenSpark?: (sparkId: string) => void;
+}
+
+const LINK_CLASS = "text-blue-600 dark:text-blue-400 hover:underline";
+
+/**
+ * Find what a wiki-link or mention resolved to
+ *
+ * Wiki-links resolve by title in the database; a note is preferred over a book unless
+ * the link names the type.
+ */
+function resolve(segment: NoteContentSegment, links: NoteLinkDomain[]): NoteLinkDomain | undefined {
+  if (segment.type === 'mention') {
+    return links.find(link => link.targetType === segment.targetType && link.targetId === segment.id);
+  }
+  if (segment.type === 'wiki') {
+    const title = segment.title.toLowerCase();
+    const types = segment.targetType ? [segment.targetType] : ['note', 'book'];
+    for (const type of types) {
+      const match = links.find(link => link.targetType === type && link.targetLabel.trim().toLowerCase() === title);
+      if (match) return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Note text with its [[wiki-links]] and @mentions rendered as links. Links that don't
+ * resolve (nothing has that title, or the mention was removed) are shown struck through.
+ */
+export function NoteContent({ content, links, onOpenSpark }: NoteContentProps) {
+  return (
+    <>
+      {parseNoteContent(content).map((segment, index) => {
+        if (segment.type === 'text') {
+          return <span key={index}>{segment.text}</span>;
+        }
+
+        const label = segment.type === 'mention' ? `@${segment.label}` : segment.label;
+        const link = resolve(segment, links);
+
+        if (!link) {
+          return (
+            <span
+              key={index}
+              className="text-muted-foreground line-through decoration-dotted"
+              title={segment.type === 'wiki' ? `Nothing is called "${segment.title}"` : 'No longer exists'}
+            >
+              {label}
+            </span>
+          );
+        }
+
+        if (link.targetType === 'spark') {
+          return onOpenSpark ? (
+            <button key={index} type="button" className={LINK_CLASS} onClick={() => onOpenSpark(link.targetId)}>
+              {label}
+            </button>
+          ) : (
+            <span key={index} className="text-blue-600 dark:text-blue-400">{label}</span>
+          );
+        }
+
+        const href = noteLinkHref(link.targetType, link.targetId, link.targetBookRwId);
+        return href ? (
+          <Link key={index} href={href} className={LINK_CLASS} title={link.targetDeleted ? 'In the trash' : link.targetLabel}>
+            {label}
+          </Link>
+        ) : (
+          <span key={index}>{label}</span>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,3 @@
+export { NoteContent } from './NoteContent';
+export { BacklinksPanel } from './BacklinksPanel';
+export { LinkSuggestTextarea } from './LinkSuggestTextarea';
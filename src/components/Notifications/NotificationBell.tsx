@@ -0,0 +1,139 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { Bell, AlertTriangle, Clock, Zap, CheckCheck } from "lucide-react";
+import { cn, formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useNotifications } from "@/hooks";
+import { NotificationDomain, NotificationType } from "@/lib/types";
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  job_failed: AlertTriangle,
+  integration_stale: Clock,
+  automation_pending: Zap
+};
+
+/**
+ * Short relative time for recent notifications, the date for older ones
+ */
+function formatWhen(createdAt: string): string {
+  const minutes = Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 60 * 24 * 7) return `${Math.floor(minutes / (60 * 24))}d ago`;
+  return formatDate(createdAt);
+}
+
+export function NotificationBell() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { notifications, unreadCount, isLoading, markAsRead, markAllAsRead } = useNotifications();
+
+  // Close the dropdown on clicks outside it
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+      };
+    }
+  }, [isOpen]);
+
+  const handleSelect = (notification: NotificationDomain) => {
+    markAsRead(notification.id);
+    if (notification.link) {
+      setIsOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsOpen(open => !open)}
+        className="relative h-8 w-8"
+        title="Notifications"
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+        <span className="sr-only">
+          {unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        </span>
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-background border rounded-md shadow-lg z-50">
+          <div className="flex items-center justify-between px-3 py-2 border-b">
+            <span className="text-sm font-medium">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={markAllAsRead}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+              >
+                <CheckCheck className="h-3.5 w-3.5" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">Loading…</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">You&apos;re all caught up</p>
+            ) : (
+              notifications.map(notification => {
+                const Icon = TYPE_ICONS[notification.type] || Bell;
+
+                return (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => handleSelect(notification)}
+                    className={cn(
+                      "flex w-full gap-2 px-3 py-2 text-left border-b last:border-b-0 hover:bg-secondary",
+                      !notification.isRead && "bg-spark-primary/5 dark:bg-spark-dark-primary/10"
+                    )}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-start justify-between gap-2">
+                        <span className={cn("text-sm", !notification.isRead && "font-medium")}>
+                          {notification.title}
+                        </span>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {formatWhen(notification.createdAt)}
+                        </span>
+                      </div>
+                      {notification.body && (
+                        <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-line">
+                          {notification.body}
+                        </p>
+                      )}
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell } from "lucide-react";
+import { Button, Input } from "@/components/ui";
+import { useNotificationSettings } from "@/hooks";
+import { NotificationSettings } from "@/lib/types";
+
+/**
+ * How notifications reach the user. They always show under the header bell;
+ * email is opt-in.
+ */
+export function NotificationSettingsPanel() {
+  const { notificationSettings, isLoading, isSaving, saveNotificationSettings } = useNotificationSettings();
+  const [draft, setDraft] = useState<NotificationSettings | null>(null);
+
+  useEffect(() => {
+    setDraft(notificationSettings);
+  }, [notificationSettings]);
+
+  if (isLoading || !draft) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+        <Bell className="h-5 w-5" />
+        Notifications
+      </h2>
+      <p className="text-gray-500 dark:text-gray-400 mb-6">
+        You&apos;re notified when a background job fails for good, when an integration hasn&apos;t
+        synced for a while, and when automations are waiting for your review.
+      </p>
+
+      <div className="space-y-4 max-w-2xl">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.email}
+            onChange={(e) => setDraft({ ...draft, email: e.target.checked })}
+          />
+          Also send each notification by email
+        </label>
+
+        <div className="space-y-2 max-w-xs">
+          <label htmlFor="stale-integration-days" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+            Warn when an integration hasn&apos;t synced for (days)
+          </label>
+          <Input
+            id="stale-integration-days"
+            type="number"
+            min={1}
+            max={90}
+            value={draft.staleIntegrationDays}
+            onChange={(e) => setDraft({ ...draft, staleIntegrationDays: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <Button
+          onClick={() => saveNotificationSettings({
+            ...draft,
+            staleIntegrationDays: Math.min(Math.max(draft.staleIntegrationDays || 1, 1), 90)
+          })}
+          disabled={isSaving}
+        >
+          {isSaving ? "Saving..." : "Save notification settings"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { BookOpen, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { formatDate } from "@/lib/utils";
+import { ReviewGrade, ReviewQueueItem } from "@/lib/types";
+
+interface ReviewCardProps {
+  item: ReviewQueueItem;
+  isGrading: boolean;
+  onGrade: (grade: ReviewGrade) => void;
+}
+
+/**
+ * Grade buttons in display order, with their keyboard shortcuts
+ */
+const GRADES: { grade: ReviewGrade; label: string; hint: string; key: string; variant: "primary" | "outline" | "ghost" }[] = [
+  { grade: 'soon', label: 'Soon', hint: 'Show again tomorrow', key: '1', variant: 'outline' },
+  { grade: 'keep', label: 'Keep', hint: 'Keep in rotation', key: '2', variant: 'primary' },
+  { grade: 'later', label: 'Later', hint: 'Show much later', key: '3', variant: 'outline' },
+  { grade: 'never', label: 'Never', hint: 'Stop showing this highlight', key: '4', variant: 'ghost' }
+];
+
+/**
+ * A single highlight in the daily review, graded with the buttons or keys 1-4
+ */
+export function ReviewCard({ item, isGrading, onGrade }: ReviewCardProps) {
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+      const match = GRADES.find(option => option.key === event.key);
+      if (match) {
+        event.preventDefault();
+        onGrade(match.grade);
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onGrade]);
+
+  return (
+    <div className="border rounded-lg shadow-sm dark-card p-6 space-y-5">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <BookOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
+          {item.bookRwId ? (
+            <Link href={`/highlights/${item.bookRwId}`} className="text-sm font-medium truncate hover:underline">
+              {item.bookTitle || 'Untitled'}
+            </Link>
+          ) : (
+            <span className="text-sm font-medium truncate">{item.bookTitle || 'Untitled'}</span>
+          )}
+          {item.bookAuthor && (
+            <span className="text-sm text-muted-foreground truncate">· {item.bookAuthor}</span>
+          )}
+        </div>
+        {item.isNew ? (
+          <Badge variant="outline" className="text-xs flex items-center gap-1 shrink-0">
+            <Sparkles className="h-3 w-3" />
+            New
+          </Badge>
+        ) : (
+          <span className="text-xs text-muted-foreground shrink-0">
+            Reviewed {item.reviewCount}×{item.lastReviewedAt && `, last ${formatDate(item.lastReviewedAt)}`}
+          </span>
+        )}
+      </div>
+
+      <blockquote className="text-lg leading-relaxed whitespace-pre-wrap">
+        {item.text}
+      </blockquote>
+
+      {item.note && (
+        <p className="text-sm text-muted-foreground border-l-2 pl-3">{item.note}</p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 pt-2">
+        {GRADES.map(option => (
+          <Button
+            key={option.grade}
+            variant={option.variant}
+            disabled={isGrading}
+            onClick={() => onGrade(option.grade)}
+            title={`${option.hint} (${option.key})`}
+            className="flex flex-col h-auto py-2"
+          >
+            <span>{option.label}</span>
+            <span className="text-[10px] opacity-70">{option.hint}</span>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Select } from "@/components/ui";
+import { useBooksService, useCategories, useTags } from "@/hooks";
+import { ReviewQueueFilters, SidebarItem } from "@/lib/types";
+
+interface ReviewFiltersProps {
+  filters: ReviewQueueFilters;
+  onChange: (filters: ReviewQueueFilters) => void;
+}
+
+/**
+ * Narrow the review queue to a single book, category or tag
+ */
+export function ReviewFilters({ filters, onChange }: ReviewFiltersProps) {
+  const [books, setBooks] = useState<SidebarItem[]>([]);
+  const booksService = useBooksService();
+  const { categories } = useCategories();
+  const { tags } = useTags();
+
+  useEffect(() => {
+    booksService.getBooks().then(setBooks);
+  }, [booksService]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <Select
+        aria-label="Book"
+        value={filters.bookId || ""}
+        onChange={(e) => onChange({ ...filters, bookId: e.target.value || null })}
+        options={[
+          { value: "", label: "All books" },
+          ...books.map(book => ({ value: book.id, label: book.name }))
+        ]}
+      />
+      <Select
+        aria-label="Category"
+        value={filters.categoryId || ""}
+        onChange={(e) => onChange({ ...filters, categoryId: e.target.value || null })}
+        options={[
+          { value: "", label: "All categories" },
+          ...categories.map(category => ({ value: category.id, label: category.name }))
+        ]}
+      />
+      <Select
+        aria-label="Tag"
+        value={filters.tagId || ""}
+        onChange={(e) => onChange({ ...filters, tagId: e.target.value || null })}
+        options={[
+          { value: "", label: "All tags" },
+          ...tags.map(tag => ({ value: tag.id, label: tag.name }))
+        ]}
+      />
+    </div>
+  );
+}
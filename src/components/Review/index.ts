@@ -0,0 +1,2 @@
+export { ReviewCard } from './ReviewCard';
+export { ReviewFilters } from './ReviewFilters';
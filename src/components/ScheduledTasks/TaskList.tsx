@@ -31,6 +31,24 @@ export const availableTasks: ScheduledTask[] = [
     requiresApiKey: true,
     apiKeySource: "readwise"
   },
+  {
+    id: "readwise-reader-import",
+    name: "Import Readwise Reader Documents",
+    description: "Import saved Reader articles with their full text, summary and reading progress",
+    isSchedulable: true,
+    triggerEndpoint: "/api/inngest/trigger-import-reader-documents",
+    requiresApiKey: true,
+    apiKeySource: "readwise"
+  },
+  {
+    id: "readwise-highlights-reconcile",
+    name: "Reconcile Readwise Highlights",
+    description: "Move highlights deleted or discarded in Readwise to the trash (full comparison, run weekly)",
+    isSchedulable: true,
+    triggerEndpoint: "/api/inngest/trigger-reconcile-highlights",
+    requiresApiKey: true,
+    apiKeySource: "readwise"
+  },
   {
     id: "migrate-highlight-tags",
     name: "Migrate Highlight Tags",
@@ -50,17 +68,17 @@ export const availableTasks: ScheduledTask[] = [
   },
   {
     id: "tag-random-highlights",
-    name: "Tag Random Highlights",
-    description: "Select 3 random highlights and create a context automation to tag them with 'automation-test'",
-    isSchedulable: false, // Test/demo task, not for production scheduling
+    name: "Suggest Tags for Random Highlights",
+    description: "Ask AI to suggest tags for 5 random highlights, reusing your existing tags. Suggestions wait for review on the Automations page",
+    isSchedulable: false,
     triggerEndpoint: "/api/inngest/trigger-tag-random-highlights",
     requiresApiKey: false
   },
   {
     id: "categorize-random-highlights",
-    name: "Categorize Random Highlights",
-    description: "Select 5 random highlights and create a context automation to categorize them with 'automation-test'",
-    isSchedulable: false, // Test/demo task, not for production scheduling
+    name: "Suggest Categories for Random Highlights",
+    description: "Ask AI to suggest categories for 5 random highlights, reusing your existing categories. Suggestions wait for review on the Automations page",
+    isSchedulable: false,
     triggerEndpoint: "/api/inngest/trigger-categorize-random-highlights",
     requiresApiKey: false
   },
@@ -72,5 +90,21 @@ export const availableTasks: ScheduledTask[] = [
     triggerEndpoint: "/api/inngest/trigger-generate-embeddings",
     requiresApiKey: false // Uses global OpenAI API key, not user-specific
   },
+  {
+    id: "generate-content-embeddings",
+    name: "Generate Spark & Note Embeddings",
+    description: "Generate AI embeddings for sparks and notes so they appear in semantic search",
+    isSchedulable: true,
+    triggerEndpoint: "/api/inngest/trigger-generate-content-embeddings",
+    requiresApiKey: false // Uses global OpenAI API key, not user-specific
+  },
+  {
+    id: "highlight-digest",
+    name: "Email Highlight Digest",
+    description: "Email yourself a few highlights (random, due for review, or from chosen categories) with links back to each book",
+    isSchedulable: true,
+    triggerEndpoint: "/api/inngest/trigger-send-highlight-digest",
+    requiresApiKey: false
+  },
   // More tasks will be added in the future
 ]; 
\ No newline at end of file
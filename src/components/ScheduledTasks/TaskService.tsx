@@ -14,27 +14,13 @@ export class TaskService {
     task: ScheduledTask, 
     userId: string, 
     token: string,
-    getApiKey: (source: string) => Promise<{ apiKey?: string; baseId?: string; tableId?: string }>
+    isConnected: (source: string) => Promise<boolean>
   ): Promise<void> {
-    // For tasks requiring an API key, fetch it
-    let apiKey, baseId, tableId;
-    if (task.requiresApiKey && task.apiKeySource) {
-      try {
-        const result = await getApiKey(task.apiKeySource);
-        apiKey = result.apiKey;
-        baseId = result.baseId;
-        tableId = result.tableId;
-        
-        if (task.apiKeySource === 'airtable' && (!baseId || !tableId)) {
-          throw new Error(`Missing Airtable Base ID or Table ID. Please configure these in your settings.`);
-        }
-        
-        if (!apiKey) {
-          throw new Error(`No Access Token found for ${task.apiKeySource}. Please add it in your settings.`);
-        }
-      } catch (error) {
-        throw new Error(`Failed to get API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+    // Tasks calling an integration need its token saved; the trigger route looks it up
+    if (task.requiresApiKey && task.apiKeySource && !await isConnected(task.apiKeySource)) {
+      throw new Error(task.apiKeySource === 'airtable'
+        ? 'Airtable is not connected. Please add your token, Base ID and Table ID in your settings.'
+        : `No Access Token found for ${task.apiKeySource}. Please add it in your settings.`);
     }
     
     // Trigger the task
@@ -44,12 +30,7 @@ export class TaskService {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${token}`
       },
-      body: JSON.stringify({
-        userId,
-        ...(apiKey && { apiKey }),
-        ...(baseId && { baseId }),
-        ...(tableId && { tableId })
-      })
+      body: JSON.stringify({ userId })
     });
     
     if (!response.ok) {
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState, useId } from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+interface LabelPickerProps {
+  label: string;
+  icon: React.ReactNode;
+  placeholder: string;
+  value: string[];
+  suggestions: string[];
+  onChange: (value: string[]) => void;
+}
+
+/**
+ * Inline chip input for picking existing labels or typing new ones
+ *
+ * Enter or comma adds the typed name; Backspace on an empty input removes the last chip.
+ */
+export function LabelPicker({
+  label,
+  icon,
+  placeholder,
+  value,
+  suggestions,
+  onChange
+}: LabelPickerProps) {
+  const [draft, setDraft] = useState("");
+  const listId = useId();
+
+  const addDraft = () => {
+    const name = draft.trim().replace(/,$/, "").trim();
+    setDraft("");
+
+    if (!name || value.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+      return;
+    }
+
+    onChange([...value, name]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addDraft();
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 rounded-md border px-2 py-1.5 dark:border-slate-700">
+      <span className="flex items-center gap-1 text-xs text-muted-foreground" title={label}>
+        {icon}
+      </span>
+      {value.map(name => (
+        <Badge key={name} variant="outline" className="text-xs gap-1">
+          {name}
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-red-500"
+            onClick={() => onChange(value.filter(existing => existing !== name))}
+            aria-label={`Remove ${name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <input
+        list={listId}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addDraft}
+        placeholder={value.length === 0 ? placeholder : ""}
+        aria-label={label}
+        className="flex-1 min-w-[120px] bg-transparent text-sm outline-none"
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter(name => !value.includes(name))
+          .map(name => (
+            <option key={name} value={name} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
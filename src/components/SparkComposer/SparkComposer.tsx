@@ -0,0 +1,104 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Folder, Tag, Loader2 } from "lucide-react";
+import { Modal } from "@/components/ui/Modal";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useSparkEditor, useCategories, useTags } from "@/hooks";
+import { LabelPicker } from "./LabelPicker";
+
+interface SparkComposerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Quick-capture dialog for new sparks, opened from the header or with Alt+N
+ */
+export function SparkComposer({ isOpen, onClose }: SparkComposerProps) {
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="New spark" size="lg">
+      {/* Mounted only while open so categories and tags load on demand */}
+      <SparkComposerForm onDone={onClose} />
+    </Modal>
+  );
+}
+
+function SparkComposerForm({ onDone }: { onDone: () => void }) {
+  const [body, setBody] = useState("");
+  const [categoryNames, setCategoryNames] = useState<string[]>([]);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const { captureSpark, isSaving } = useSparkEditor();
+  const { categories } = useCategories();
+  const { tags } = useTags();
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!body.trim() || isSaving) return;
+
+    const spark = await captureSpark(body, { categoryNames, tagNames });
+    if (spark) {
+      onDone();
+    }
+  };
+
+  // Cmd/Ctrl+Enter saves; plain Enter keeps writing
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Textarea
+        ref={textareaRef}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="What's on your mind?"
+        rows={6}
+        className="resize-y"
+      />
+
+      <LabelPicker
+        label="Categories"
+        icon={<Folder className="h-3.5 w-3.5" />}
+        placeholder="Add categories"
+        value={categoryNames}
+        suggestions={categories.map(category => category.name)}
+        onChange={setCategoryNames}
+      />
+
+      <LabelPicker
+        label="Tags"
+        icon={<Tag className="h-3.5 w-3.5" />}
+        placeholder="Add tags"
+        value={tagNames}
+        suggestions={tags.map(tag => tag.name)}
+        onChange={setTagNames}
+      />
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">⌘/Ctrl+Enter to save</span>
+        <div className="flex gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={!body.trim() || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            Save spark
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,2 @@
+export { SparkComposer } from './SparkComposer';
+export { LabelPicker } from './LabelPicker';
@@ -1,13 +1,15 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { X, Sparkles } from "lucide-react";
+import { X, Sparkles, Pencil, Trash2, Undo2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { toast } from "react-toastify";
 import { SparkDomain } from "@/lib/types";
-import { useSparksService, useResourceHelper } from "@/hooks";
+import { useSparksService, useResourceHelper, useSparkEditor, SPARK_UNDO_WINDOW_MS } from "@/hooks";
 import { tagService } from "@/services";
+import { BacklinksPanel } from "@/components/NoteLinks";
 import {
   SparkContent,
   SparkCategories,
@@ -21,18 +23,22 @@ interface SparkPreviewPanelProps {
   onClose: () => void;
   position: { top: number; right: number };
   sparkDetails?: SparkDomain | null;
+  zIndex?: number;
 }
 
 export default function SparkPreviewPanel({ 
   sparkId, 
   onClose,
   position,
-  sparkDetails: initialSparkDetails = null
+  sparkDetails: initialSparkDetails = null,
+  zIndex = -5 // Lower z-index by default to keep it behind both sidebars
 }: SparkPreviewPanelProps) {
   const [sparkDetails, setSparkDetails] = useState<SparkDomain | null>(initialSparkDetails);
   const [loading, setLoading] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
   const [adjustedPosition, setAdjustedPosition] = useState(position);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftBody, setDraftBody] = useState("");
   const panelRef = useRef<HTMLDivElement>(null);
   const panelWidth = 350; // Same as w-[350px]
   const panelMaxHeight = 450; // Same as max-h-[450px]
@@ -40,6 +46,7 @@ export default function SparkPreviewPanel({
   // Get services using hooks
   const { getSparkDetails } = useSparksService();
   const { createSparkResource } = useResourceHelper();
+  const { editSpark, scheduleDelete, isSaving } = useSparkEditor();
   const router = useRouter();
 
   // Load spark details when ID changes
@@ -87,7 +94,65 @@ export default function SparkPreviewPanel({
 
   const handleMouseLeave = () => {
     setIsHovering(false);
-    // Close panel when mouse leaves
+    // Close panel when mouse leaves, unless an edit is in progress
+    if (!isEditing) {
+      onClose();
+    }
+  };
+
+  // Handle editing and deleting the spark
+  const startEditing = () => {
+    if (!sparkDetails) return;
+    setDraftBody(sparkDetails.body);
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!sparkId) return;
+
+    const updated = await editSpark(sparkId, draftBody);
+    if (updated) {
+      setSparkDetails(updated);
+      setIsEditing(false);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === "Escape") {
+      e.stopPropagation();
+      setIsEditing(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!sparkDetails) return;
+
+    const undo = scheduleDelete(sparkDetails);
+
+    toast(
+      ({ closeToast }) => (
+        <div className="flex items-center justify-between gap-3 w-full">
+          <span>Spark deleted</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 flex items-center gap-1"
+            onClick={() => {
+              undo();
+              closeToast();
+            }}
+          >
+            <Undo2 className="h-3.5 w-3.5" />
+            Undo
+          </Button>
+        </div>
+      ),
+      { autoClose: SPARK_UNDO_WINDOW_MS, closeOnClick: false, pauseOnHover: false }
+    );
+
     onClose();
   };
 
@@ -178,22 +243,48 @@ export default function SparkPreviewPanel({
       style={{ 
         top: `${adjustedPosition.top}px`, 
         left: `${adjustedPosition.right}px`,
-        zIndex: -5 // Lower z-index to ensure it's behind both sidebars
+        zIndex
       }}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
     >
       {/* Content with close button in the corner */}
       <div className="p-4 flex-1 overflow-auto relative">
-        <Button 
-          variant="ghost" 
-          size="icon"
-          className="h-6 w-6 absolute top-2 right-2 opacity-70 hover:opacity-100"
-          onClick={onClose}
-        >
-          <X className="h-4 w-4" />
-          <span className="sr-only">Close</span>
-        </Button>
+        <div className="absolute top-2 right-2 flex items-center gap-0.5">
+          {!isEditing && (
+            <>
+              <Button 
+                variant="ghost" 
+                size="icon"
+                className="h-6 w-6 opacity-70 hover:opacity-100"
+                onClick={startEditing}
+                title="Edit spark"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+                <span className="sr-only">Edit</span>
+              </Button>
+              <Button 
+                variant="ghost" 
+                size="icon"
+                className="h-6 w-6 opacity-70 hover:opacity-100 hover:text-red-500"
+                onClick={handleDelete}
+                title="Delete spark"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Delete</span>
+              </Button>
+            </>
+          )}
+          <Button 
+            variant="ghost" 
+            size="icon"
+            className="h-6 w-6 opacity-70 hover:opacity-100"
+            onClick={onClose}
+          >
+            <X className="h-4 w-4" />
+            <span className="sr-only">Close</span>
+          </Button>
+        </div>
         
         {loading ? (
           <div className="flex items-center justify-center h-full">
@@ -202,10 +293,31 @@ export default function SparkPreviewPanel({
         ) : (
           <>
             {/* Spark Content */}
-            <SparkContent 
-              sparkDetails={sparkDetails} 
-              formatDate={formatDate} 
-            />
+            {isEditing ? (
+              <div className="mb-4 mt-6 space-y-2">
+                <Textarea
+                  value={draftBody}
+                  onChange={(e) => setDraftBody(e.target.value)}
+                  onKeyDown={handleEditKeyDown}
+                  rows={5}
+                  autoFocus
+                  className="text-sm resize-y"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleSaveEdit} disabled={isSaving || !draftBody.trim()}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <SparkContent 
+                sparkDetails={sparkDetails} 
+                formatDate={formatDate} 
+              />
+            )}
             
             {/* Categories */}
             <SparkCategories 
@@ -219,6 +331,13 @@ export default function SparkPreviewPanel({
               onAddTag={handleAddTag}
               onRemoveTag={handleRemoveTag}
             />
+
+            {/* Notes linking to the spark */}
+            <BacklinksPanel
+              entityType="spark"
+              entityId={sparkId}
+              className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700"
+            />
             
             {/* Semantic Search Button */}
             <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
@@ -0,0 +1,206 @@
+"use client";
+
+import { AlertTriangle, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type { AirtableFieldMapping, AirtableTextReplacement } from "@/lib/types";
+import type { AirtableTableSchema } from "@/lib/airtable";
+
+type MappedField = 'uid' | 'content' | 'categories' | 'tags' | 'createdAt' | 'todoId';
+
+const MAPPED_FIELDS: Array<{ key: MappedField; label: string; required: boolean; help: string }> = [
+  { key: 'content', label: 'Content', required: true, help: 'Text of the spark' },
+  { key: 'uid', label: 'Unique ID', required: true, help: 'Stable value per record, used to skip records already imported' },
+  { key: 'categories', label: 'Category', required: false, help: 'Text, select or lookup field; the first value is used' },
+  { key: 'tags', label: 'Tags', required: false, help: 'Text, multiple select or lookup field' },
+  { key: 'createdAt', label: 'Created date', required: false, help: 'When the thought was originally captured' },
+  { key: 'todoId', label: 'To-do ID', required: false, help: 'ID of a linked to-do item' }
+];
+
+interface AirtableFieldMappingEditorProps {
+  mapping: AirtableFieldMapping;
+  onChange: (mapping: AirtableFieldMapping) => void;
+  table: AirtableTableSchema | null;
+  problems: string[];
+  isLoadingFields: boolean;
+  canLoadFields: boolean;
+  onLoadFields: () => void;
+}
+
+/**
+ * Edits which Airtable fields become a spark's text, category and tags
+ * Shows the table's fields to pick from once they have been loaded.
+ */
+export default function AirtableFieldMappingEditor({
+  mapping,
+  onChange,
+  table,
+  problems,
+  isLoadingFields,
+  canLoadFields,
+  onLoadFields
+}: AirtableFieldMappingEditorProps) {
+  const setField = (key: MappedField, value: string) => {
+    onChange({ ...mapping, [key]: value || (key === 'uid' || key === 'content' ? '' : null) });
+  };
+
+  const updateReplacement = (index: number, changes: Partial<AirtableTextReplacement>) => {
+    onChange({
+      ...mapping,
+      replacements: mapping.replacements.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+    });
+  };
+
+  const removeReplacement = (index: number) => {
+    onChange({ ...mapping, replacements: mapping.replacements.filter((_, i) => i !== index) });
+  };
+
+  const addReplacement = () => {
+    onChange({ ...mapping, replacements: [...mapping.replacements, { find: '', replace: '', wholeWord: true }] });
+  };
+
+  const inputClass = "w-full p-2 h-10 border rounded bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 dark:border-gray-700 pt-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-medium">Field mapping</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Choose which fields of your table become sparks. Loading the fields checks the mapping against your table.
+          </p>
+        </div>
+        <button
+          onClick={onLoadFields}
+          disabled={!canLoadFields || isLoadingFields}
+          className="h-9 px-3 flex items-center gap-2 border rounded text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          {isLoadingFields ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          {table ? 'Reload fields' : 'Load fields from Airtable'}
+        </button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {MAPPED_FIELDS.map(({ key, label, required, help }) => {
+          const value = mapping[key] || '';
+          const id = `airtable-field-${key}`;
+
+          return (
+            <div key={key}>
+              <label htmlFor={id} className="block text-sm font-medium mb-1">
+                {label}{required && <span className="text-red-500"> *</span>}
+              </label>
+              {table ? (
+                <select id={id} value={value} onChange={(e) => setField(key, e.target.value)} className={inputClass}>
+                  <option value="">{required ? 'Choose a field' : 'Not imported'}</option>
+                  {/* Keep a saved name that is no longer in the table visible, so the problem shows */}
+                  {value && !table.fields.some(field => field.name === value) && (
+                    <option value={value}>{value} (missing)</option>
+                  )}
+                  {table.fields.map(field => (
+                    <option key={field.id} value={field.name}>{field.name} ({field.type})</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={id}
+                  type="text"
+                  value={value}
+                  onChange={(e) => setField(key, e.target.value)}
+                  className={inputClass}
+                  placeholder={required ? 'Field name' : 'Field name (optional)'}
+                />
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{help}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={mapping.requireCategory}
+            onChange={(e) => onChange({ ...mapping, requireCategory: e.target.checked })}
+          />
+          Skip records without a category
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={mapping.requireTags}
+            onChange={(e) => onChange({ ...mapping, requireTags: e.target.checked })}
+          />
+          Skip records without tags
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Text replacements</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Applied to the content of every imported spark, top to bottom, e.g. to expand your own abbreviations.
+        </p>
+        {mapping.replacements.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={rule.find}
+              onChange={(e) => updateReplacement(index, { find: e.target.value })}
+              className="p-2 h-9 border rounded bg-white dark:bg-gray-800 text-sm"
+              placeholder="Find"
+            />
+            <span className="text-gray-400">→</span>
+            <input
+              type="text"
+              value={rule.replace}
+              onChange={(e) => updateReplacement(index, { replace: e.target.value })}
+              className="p-2 h-9 border rounded bg-white dark:bg-gray-800 text-sm"
+              placeholder="Replace with"
+            />
+            <label className="flex items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={!!rule.wholeWord}
+                onChange={(e) => updateReplacement(index, { wholeWord: e.target.checked })}
+              />
+              Whole word
+            </label>
+            <label className="flex items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={!!rule.caseSensitive}
+                onChange={(e) => updateReplacement(index, { caseSensitive: e.target.checked })}
+              />
+              Match case
+            </label>
+            <button
+              onClick={() => removeReplacement(index)}
+              className="p-1 text-gray-400 hover:text-red-500"
+              aria-label="Remove replacement"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addReplacement}
+          className="flex items-center gap-1 text-sm text-blue-500 hover:underline"
+        >
+          <Plus className="h-4 w-4" />
+          Add replacement
+        </button>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          <div className="flex items-center gap-2 font-medium mb-1">
+            <AlertTriangle className="h-4 w-4" />
+            The mapping doesn&apos;t match table &quot;{table?.name}&quot;
+          </div>
+          <ul className="list-disc pl-6 space-y-1">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
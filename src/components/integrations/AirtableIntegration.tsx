@@ -1,17 +1,36 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { toast } from "react-toastify";
 import { useIntegrationsService } from "@/hooks";
 import { CheckCircle, XCircle } from "lucide-react";
+import type { AirtableFieldMapping } from "@/lib/types";
+import {
+  AirtableApiError,
+  AirtableTableSchema,
+  fetchAirtableTableSchema,
+  resolveAirtableFieldMapping,
+  validateAirtableFieldMapping
+} from "@/lib/airtable";
+import AirtableFieldMappingEditor from "./AirtableFieldMappingEditor";
 
 export default function AirtableIntegration() {
+  // Only holds a newly typed token; a saved one never comes back to the browser
   const [apiKey, setApiKey] = useState("");
+  const [tokenHint, setTokenHint] = useState<string | null>(null);
   const [baseId, setBaseId] = useState("");
   const [tableId, setTableId] = useState("");
   const [isConnected, setIsConnected] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [fieldMapping, setFieldMapping] = useState<AirtableFieldMapping>(() => resolveAirtableFieldMapping());
+  const [table, setTable] = useState<AirtableTableSchema | null>(null);
+  const [isLoadingFields, setIsLoadingFields] = useState(false);
+  
+  const mappingProblems = useMemo(
+    () => table ? validateAirtableFieldMapping(fieldMapping, table) : [],
+    [fieldMapping, table]
+  );
   
   const integrationsService = useIntegrationsService();
 
@@ -27,16 +46,17 @@ export default function AirtableIntegration() {
       
       // Apply settings if available
       if (settings) {
-        setApiKey(settings.apiKey || '');
+        setTokenHint(settings.tokenHint);
         setBaseId(settings.baseId || '');
         setTableId(settings.tableId || '');
+        setFieldMapping(resolveAirtableFieldMapping(settings.fieldMapping));
         
         // Check if the connection is valid
-        const isConfigValid = !!(settings.apiKey && settings.baseId && settings.tableId);
-        setIsConnected(isConfigValid && await integrationsService.isAirtableConfigured());
+        const isConfigValid = !!(settings.isConnected && settings.baseId && settings.tableId);
+        setIsConnected(isConfigValid);
         
         console.log('Airtable settings applied:', { 
-          apiKey: !!settings.apiKey, 
+          hasToken: settings.isConnected, 
           baseId: !!settings.baseId,
           tableId: !!settings.tableId,
           isConnected: isConfigValid
@@ -49,6 +69,11 @@ export default function AirtableIntegration() {
   };
 
   const saveSettings = async () => {
+    if (mappingProblems.length > 0) {
+      toast.error('Fix the field mapping before saving');
+      return;
+    }
+    
     setIsSaving(true);
     try {
       console.log('Saving Airtable settings:', {
@@ -58,13 +83,16 @@ export default function AirtableIntegration() {
       });
       
       const success = await integrationsService.updateAirtableSettings({
-        apiKey,
+        // An empty field keeps the saved token
+        ...(apiKey && { apiKey }),
         baseId,
-        tableId
+        tableId,
+        fieldMapping
       });
 
       if (success) {
         toast.success('Airtable settings saved successfully');
+        setApiKey('');
         // Fetch the settings again to verify they were saved correctly
         await fetchUserSettings();
       } else {
@@ -78,8 +106,29 @@ export default function AirtableIntegration() {
     }
   };
 
+  const disconnect = async () => {
+    if (!confirm('Remove the saved Airtable token? Imports and scheduled Airtable tasks will stop.')) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const success = await integrationsService.updateAirtableSettings({ apiKey: '' });
+      if (!success) {
+        throw new Error('Failed to remove token');
+      }
+      toast.success('Airtable disconnected');
+      await fetchUserSettings();
+    } catch (error) {
+      console.error('Error removing Airtable token:', error);
+      toast.error(`Error removing token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const testConnection = async () => {
-    if (!apiKey) {
+    if (!apiKey && !tokenHint) {
       toast.error('Please enter a Personal Access Token first');
       return;
     }
@@ -96,6 +145,18 @@ export default function AirtableIntegration() {
 
     setIsTesting(true);
     try {
+      // A saved token can only be tested by the server
+      if (!apiKey) {
+        const result = await integrationsService.testStoredConnection('airtable', { baseId, tableId });
+        if (result.connected) {
+          toast.success('Connection successful! Your Airtable settings are valid.');
+        } else {
+          toast.error(`Connection failed: ${result.message}`);
+        }
+        setIsConnected(result.connected);
+        return;
+      }
+
       // Test the Airtable connection by making a request to the API
       const url = `https://api.airtable.com/v0/${baseId}/${tableId}?maxRecords=1`;
       const response = await fetch(url, {
@@ -123,6 +184,28 @@ export default function AirtableIntegration() {
     }
   };
 
+  const loadTableFields = async () => {
+    setIsLoadingFields(true);
+    try {
+      const schema = apiKey
+        ? await fetchAirtableTableSchema(apiKey, baseId, tableId)
+        : await integrationsService.getAirtableTableSchema(baseId, tableId);
+      setTable(schema);
+      
+      if (validateAirtableFieldMapping(fieldMapping, schema).length === 0) {
+        toast.success(`Field mapping matches table "${schema.name}"`);
+      }
+    } catch (error) {
+      console.error('Error loading Airtable fields:', error);
+      const message = error instanceof AirtableApiError && error.status === 403
+        ? 'Your token needs the schema.bases:read scope to read the table fields'
+        : error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Error loading fields: ${message}`);
+    } finally {
+      setIsLoadingFields(false);
+    }
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
       <h2 className="text-xl font-semibold mb-4">Airtable Integration</h2>
@@ -142,10 +225,10 @@ export default function AirtableIntegration() {
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
               className="w-full md:w-1/2 p-2 h-10 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Enter your Airtable Personal Access Token"
+              placeholder={tokenHint ? `Saved token ending in ${tokenHint}; enter a new one to replace it` : "Enter your Airtable Personal Access Token"}
             />
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              Create a token from <a href="https://airtable.com/create/tokens" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">Airtable Developer Hub</a>. Choose the <code>data.records:read</code> and <code>data.records:write</code> scopes, and select your base.
+              Create a token from <a href="https://airtable.com/create/tokens" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">Airtable Developer Hub</a>. Choose the <code>data.records:read</code>, <code>data.records:write</code> and <code>schema.bases:read</code> scopes, and select your base.
             </p>
           </div>
           
@@ -174,7 +257,10 @@ export default function AirtableIntegration() {
               id="airtable-table-id"
               type="text"
               value={tableId}
-              onChange={(e) => setTableId(e.target.value)}
+              onChange={(e) => {
+                setTableId(e.target.value);
+                setTable(null);
+              }}
               className="w-full md:w-1/2 p-2 h-10 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="Enter your Airtable Table ID or name"
             />
@@ -183,6 +269,16 @@ export default function AirtableIntegration() {
             </p>
           </div>
           
+          <AirtableFieldMappingEditor
+            mapping={fieldMapping}
+            onChange={setFieldMapping}
+            table={table}
+            problems={mappingProblems}
+            isLoadingFields={isLoadingFields}
+            canLoadFields={!!((apiKey || tokenHint) && baseId && tableId)}
+            onLoadFields={loadTableFields}
+          />
+          
           <div className="flex gap-2 mt-4">
             <button
               onClick={saveSettings}
@@ -194,7 +290,7 @@ export default function AirtableIntegration() {
             
             <button
               onClick={testConnection}
-              disabled={isTesting || !apiKey || !baseId || !tableId}
+              disabled={isTesting || (!apiKey && !tokenHint) || !baseId || !tableId}
               className="h-10 px-4 bg-green-500 text-white rounded text-sm font-medium hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 transition-colors"
             >
               {isTesting ? (
@@ -207,10 +303,20 @@ export default function AirtableIntegration() {
                 </span>
               ) : 'Test Connection'}
             </button>
+            
+            {tokenHint && (
+              <button
+                onClick={disconnect}
+                disabled={isSaving}
+                className="h-10 px-4 border rounded text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                Disconnect
+              </button>
+            )}
           </div>
         </div>
         
-        {apiKey && baseId && tableId && isConnected && (
+        {baseId && tableId && isConnected && (
           <div className="p-4 border rounded-md border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/60 w-full md:w-1/2">
             <div>
               <h3 className="font-medium text-gray-900 dark:text-white">
@@ -226,7 +332,7 @@ export default function AirtableIntegration() {
           </div>
         )}
         
-        {(apiKey || baseId || tableId) && !isConnected && (
+        {(apiKey || tokenHint || baseId || tableId) && !isConnected && (
           <div className="p-4 border rounded-md border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/60 w-full md:w-1/2">
             <div>
               <h3 className="font-medium text-gray-900 dark:text-white">
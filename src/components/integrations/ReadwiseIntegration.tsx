@@ -3,13 +3,19 @@
 import { useState, useEffect } from "react";
 import { toast } from "react-toastify";
 import { useIntegrationsService } from "@/hooks";
-import { CheckCircle, XCircle } from "lucide-react";
+import { CheckCircle, Copy, RefreshCw, XCircle } from "lucide-react";
 
 export default function ReadwiseIntegration() {
+  // Only holds a newly typed token; a saved one never comes back to the browser
   const [apiKey, setApiKey] = useState("");
+  const [tokenHint, setTokenHint] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [writeBack, setWriteBack] = useState(false);
+  const [isSavingWriteBack, setIsSavingWriteBack] = useState(false);
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null);
+  const [isGeneratingSecret, setIsGeneratingSecret] = useState(false);
   
   const integrationsService = useIntegrationsService();
 
@@ -25,15 +31,13 @@ export default function ReadwiseIntegration() {
       
       // Apply settings if available
       if (settings) {
-        setApiKey(settings.accessToken || '');
-        
-        // Check if the connection is valid
-        const isConfigValid = !!settings.accessToken;
-        setIsConnected(isConfigValid && await integrationsService.isReadwiseConfigured());
+        setTokenHint(settings.tokenHint);
+        setWriteBack(!!settings.writeBack);
+        setWebhookSecret(settings.webhookSecret || null);
+        setIsConnected(settings.isConnected);
         
         console.log('Readwise settings applied:', { 
-          apiKey: !!settings.accessToken,
-          isConnected: isConfigValid
+          isConnected: settings.isConnected
         });
       }
     } catch (error) {
@@ -43,6 +47,11 @@ export default function ReadwiseIntegration() {
   };
 
   const saveApiKey = async () => {
+    if (!apiKey) {
+      toast.error('Please enter an Access Token first');
+      return;
+    }
+
     setIsSaving(true);
     try {
       console.log('Saving Readwise API key', { hasKey: !!apiKey });
@@ -53,6 +62,7 @@ export default function ReadwiseIntegration() {
 
       if (success) {
         toast.success('API key saved successfully');
+        setApiKey('');
         // Fetch the settings again to verify they were saved correctly
         await fetchUserSettings();
       } else {
@@ -66,14 +76,97 @@ export default function ReadwiseIntegration() {
     }
   };
 
+  const disconnect = async () => {
+    if (!confirm('Remove the saved Readwise Access Token? Syncs and scheduled Readwise tasks will stop.')) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const success = await integrationsService.updateReadwiseSettings({ accessToken: '' });
+      if (!success) {
+        throw new Error('Failed to remove Access Token');
+      }
+      toast.success('Readwise disconnected');
+      await fetchUserSettings();
+    } catch (error) {
+      console.error('Error removing Readwise Access Token:', error);
+      toast.error(`Error removing Access Token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleWriteBack = async (enabled: boolean) => {
+    setIsSavingWriteBack(true);
+    try {
+      const success = await integrationsService.updateReadwiseSettings({ writeBack: enabled });
+      if (!success) {
+        throw new Error('Failed to save setting');
+      }
+
+      setWriteBack(enabled);
+      toast.success(enabled ? 'Note and tag edits will sync back to Readwise' : 'Readwise write-back turned off');
+    } catch (error) {
+      console.error('Error saving Readwise write-back setting:', error);
+      toast.error(`Error saving setting: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSavingWriteBack(false);
+    }
+  };
+
+  const regenerateWebhookSecret = async () => {
+    if (webhookSecret && !confirm('The current secret will stop working. Update the webhook in Readwise afterwards. Continue?')) {
+      return;
+    }
+
+    setIsGeneratingSecret(true);
+    try {
+      const secret = await integrationsService.regenerateReadwiseWebhookSecret();
+      if (!secret) {
+        throw new Error('Failed to save secret');
+      }
+
+      setWebhookSecret(secret);
+      toast.success('Webhook secret created');
+    } catch (error) {
+      console.error('Error creating Readwise webhook secret:', error);
+      toast.error(`Error creating secret: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsGeneratingSecret(false);
+    }
+  };
+
+  const copyToClipboard = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error(`Could not copy ${label.toLowerCase()}`);
+    }
+  };
+
   const testConnection = async () => {
-    if (!apiKey) {
+    if (!apiKey && !tokenHint) {
       toast.error('Please enter an Access Token first');
       return;
     }
 
     setIsTesting(true);
     try {
+      // A saved token can only be tested by the server
+      if (!apiKey) {
+        const result = await integrationsService.testStoredConnection('readwise');
+        if (result.connected) {
+          toast.success('Connection successful! Your Readwise Access Token is valid.');
+        } else {
+          toast.error(`Connection failed: ${result.message}`);
+        }
+        setIsConnected(result.connected);
+        return;
+      }
+
+
       // Directly test the Readwise API key by calling their auth endpoint
       const response = await fetch('https://readwise.io/api/v2/auth/', {
         method: 'GET',
@@ -119,7 +212,7 @@ export default function ReadwiseIntegration() {
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
               className="w-1/2 p-2 h-10 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Enter your Readwise Access Token"
+              placeholder={tokenHint ? `Saved token ending in ${tokenHint}; enter a new one to replace it` : "Enter your Readwise Access Token"}
             />
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
               Get your Access Token from <a href="https://readwise.io/access_token" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">Readwise API settings</a>
@@ -128,7 +221,7 @@ export default function ReadwiseIntegration() {
             <div className="flex gap-2">
               <button
                 onClick={saveApiKey}
-                disabled={isSaving}
+                disabled={isSaving || !apiKey}
                 className="h-10 px-4 bg-blue-500 text-white rounded text-sm font-medium hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 transition-colors"
               >
                 {isSaving ? 'Saving...' : 'Save Access Token'}
@@ -136,7 +229,7 @@ export default function ReadwiseIntegration() {
               
               <button
                 onClick={testConnection}
-                disabled={isTesting || !apiKey}
+                disabled={isTesting || (!apiKey && !tokenHint)}
                 className="h-10 px-4 bg-green-500 text-white rounded text-sm font-medium hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 transition-colors"
               >
                 {isTesting ? (
@@ -149,11 +242,21 @@ export default function ReadwiseIntegration() {
                   </span>
                 ) : 'Test Connection'}
               </button>
+
+              {tokenHint && (
+                <button
+                  onClick={disconnect}
+                  disabled={isSaving}
+                  className="h-10 px-4 border rounded text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  Disconnect
+                </button>
+              )}
             </div>
           </div>
         </div>
         
-        {apiKey && isConnected && (
+        {isConnected && (
           <div className="p-4 border rounded-md border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/60 w-full md:w-1/2">
             <div>
               <h3 className="font-medium text-gray-900 dark:text-white">
@@ -168,8 +271,66 @@ export default function ReadwiseIntegration() {
             </div>
           </div>
         )}
+
+        {isConnected && (
+          <label className="flex items-start gap-3 w-full md:w-1/2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={writeBack}
+              disabled={isSavingWriteBack}
+              onChange={(e) => toggleWriteBack(e.target.checked)}
+            />
+            <span>
+              <span className="block text-sm font-medium">Sync edits back to Readwise</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Push highlight notes and tags you change here to Readwise. Notes edited in Readwise since the last sync are never overwritten.
+              </span>
+            </span>
+          </label>
+        )}
+        
+        {isConnected && (
+          <div className="w-full md:w-1/2 space-y-2">
+            <h3 className="text-sm font-medium">Instant sync webhook</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Add a webhook in <a href="https://readwise.io/webhooks" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">Readwise</a> with
+              this URL and secret to sync the books you highlight in within minutes, without waiting for the next full sync.
+            </p>
+
+            {webhookSecret && (
+              <div className="space-y-2">
+                {[
+                  { label: 'URL', value: `${window.location.origin}/api/webhooks/readwise` },
+                  { label: 'Secret', value: webhookSecret }
+                ].map(({ label, value }) => (
+                  <div key={label} className="flex items-center gap-2">
+                    <span className="w-14 text-xs text-gray-500 dark:text-gray-400">{label}</span>
+                    <code className="flex-1 truncate rounded bg-gray-100 dark:bg-gray-900 px-2 py-1 text-xs">{value}</code>
+                    <button
+                      onClick={() => copyToClipboard(value, label)}
+                      className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                      aria-label={`Copy ${label}`}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={regenerateWebhookSecret}
+              disabled={isGeneratingSecret}
+              className="inline-flex items-center h-8 px-3 border rounded text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              <RefreshCw className="h-3 w-3 mr-2" />
+              {webhookSecret ? 'Regenerate secret' : 'Create webhook secret'}
+            </button>
+          </div>
+        )}
         
-        {apiKey && !isConnected && (
+        {(apiKey || tokenHint) && !isConnected && (
           <div className="p-4 border rounded-md border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/60 w-full md:w-1/2">
             <div>
               <h3 className="font-medium text-gray-900 dark:text-white">
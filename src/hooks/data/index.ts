@@ -3,8 +3,28 @@
  */
 
 export { useSparks } from './use-sparks';
+export { useSparkEditor, SPARK_UNDO_WINDOW_MS } from './use-spark-editor';
 export { useFunctionLogs } from './use-function-logs';
+export { useFunctionLogDetail } from './use-function-log-detail';
+export { useFunctionLogStats } from './use-function-log-stats';
 export { useUserSettings } from './use-user-settings';
+export { useHighlightsTrash } from './use-highlights-trash';
+export { useExports } from './use-exports';
+export { useBackup } from './use-backup';
+export { useHighlightImport } from './use-highlight-import';
+export { useDashboard } from './use-dashboard';
+export { useReviewQueue } from './use-review-queue';
+export { useDigestSettings } from './use-digest-settings';
+export { useAutomationRules } from './use-automation-rules';
+export { useLabelManagement } from './use-label-management';
+export { useApiTokens } from './use-api-tokens';
+export { useNotifications } from './use-notifications';
+export { useNotificationSettings } from './use-notification-settings';
+export { useNoteLinks } from './use-note-links';
+export { useKnowledgeGraph } from './use-knowledge-graph';
+export type { LabelKind } from './use-label-management';
+export type { FunctionStats } from './use-function-log-stats';
+export type { GraphNode, GraphEdge } from './use-knowledge-graph';
 
 export { 
   useCategories, 
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useApiTokensService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { CreatePersonalAccessTokenInput, PersonalAccessTokenDomain } from '@/lib/types';
+
+interface UseApiTokensReturn {
+  tokens: PersonalAccessTokenDomain[];
+  isLoading: boolean;
+  isCreating: boolean;
+  createToken: (input: CreatePersonalAccessTokenInput) => Promise<string | null>;
+  revokeToken: (tokenId: string) => Promise<boolean>;
+}
+
+/**
+ * React hook for managing personal access tokens for the public REST API
+ */
+export function useApiTokens(): UseApiTokensReturn {
+  const [tokens, setTokens] = useState<PersonalAccessTokenDomain[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const apiTokensService = useApiTokensService();
+
+  useEffect(() => {
+    apiTokensService
+      .getTokens()
+      .then(setTokens)
+      .finally(() => setIsLoading(false));
+  }, [apiTokensService]);
+
+  /**
+   * @returns The new token in plaintext, to show once, or null if it wasn't created
+   */
+  const createToken = useCallback(
+    async (input: CreatePersonalAccessTokenInput) => {
+      setIsCreating(true);
+      try {
+        const created = await apiTokensService.createToken(input);
+
+        if (!created) {
+          toast.error('Failed to create token');
+          return null;
+        }
+
+        setTokens(prev => [created.apiToken, ...prev]);
+        toast.success('Token created');
+        return created.token;
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [apiTokensService]
+  );
+
+  const revokeToken = useCallback(
+    async (tokenId: string) => {
+      const revoked = await apiTokensService.revokeToken(tokenId);
+
+      if (!revoked) {
+        toast.error('Failed to revoke token');
+        return false;
+      }
+
+      setTokens(prev => prev.map(token => (token.id === tokenId ? revoked : token)));
+      toast.success('Token revoked');
+      return true;
+    },
+    [apiTokensService]
+  );
+
+  return {
+    tokens,
+    isLoading,
+    isCreating,
+    createToken,
+    revokeToken
+  };
+}
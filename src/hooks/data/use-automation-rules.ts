@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAutomationRulesService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { AutomationRule, AutomationRuleInput } from '@/lib/categorization/types';
+import { validateRule } from '@/lib/categorization/rules';
+import type { RulePreview } from '@/services';
+
+interface UseAutomationRulesReturn {
+  rules: AutomationRule[];
+  isLoading: boolean;
+  isSaving: boolean;
+  saveRule: (input: AutomationRuleInput, ruleId?: string) => Promise<AutomationRule | null>;
+  deleteRule: (ruleId: string) => Promise<boolean>;
+  toggleRule: (rule: AutomationRule) => Promise<void>;
+  previewRule: (rule: AutomationRuleInput & { id?: string }) => Promise<RulePreview | null>;
+  runRuleNow: (rule: AutomationRule) => Promise<void>;
+}
+
+/**
+ * React hook for managing automation rules and testing them against the library
+ */
+export function useAutomationRules(): UseAutomationRulesReturn {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const automationRulesService = useAutomationRulesService();
+
+  useEffect(() => {
+    automationRulesService
+      .getRules()
+      .then(setRules)
+      .finally(() => setIsLoading(false));
+  }, [automationRulesService]);
+
+  const saveRule = useCallback(
+    async (input: AutomationRuleInput, ruleId?: string) => {
+      // Validate here too so the user sees why, not just that saving failed
+      const problem = validateRule(input);
+      if (problem) {
+        toast.error(problem);
+        return null;
+      }
+
+      setIsSaving(true);
+      try {
+        const saved = await automationRulesService.saveRule(input, ruleId);
+
+        if (!saved) {
+          toast.error('Failed to save rule');
+          return null;
+        }
+
+        setRules(prev => ruleId
+          ? prev.map(rule => (rule.id === ruleId ? saved : rule))
+          : [saved, ...prev]);
+        toast.success(ruleId ? 'Rule updated' : 'Rule created');
+        return saved;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [automationRulesService]
+  );
+
+  const deleteRule = useCallback(
+    async (ruleId: string) => {
+      const deleted = await automationRulesService.deleteRule(ruleId);
+
+      if (!deleted) {
+        toast.error('Failed to delete rule');
+        return false;
+      }
+
+      setRules(prev => prev.filter(rule => rule.id !== ruleId));
+      toast.success('Rule deleted');
+      return true;
+    },
+    [automationRulesService]
+  );
+
+  const toggleRule = useCallback(
+    async (rule: AutomationRule) => {
+      const updated = await automationRulesService.setRuleEnabled(rule.id, !rule.enabled);
+
+      if (!updated) {
+        toast.error(`Failed to ${rule.enabled ? 'disable' : 'enable'} rule`);
+        return;
+      }
+
+      setRules(prev => prev.map(existing => (existing.id === rule.id ? updated : existing)));
+    },
+    [automationRulesService]
+  );
+
+  const previewRule = useCallback(
+    async (rule: AutomationRuleInput & { id?: string }) => {
+      const problem = validateRule(rule);
+      if (problem) {
+        toast.error(problem);
+        return null;
+      }
+
+      const preview = await automationRulesService.previewRule(rule);
+
+      if (!preview) {
+        toast.error('Failed to test rule');
+      }
+
+      return preview;
+    },
+    [automationRulesService]
+  );
+
+  const runRuleNow = useCallback(
+    async (rule: AutomationRule) => {
+      const result = await automationRulesService.runRuleOnLibrary(rule);
+
+      if (!result) {
+        toast.info(`"${rule.name}" found nothing new to label`);
+      } else if (!result.success) {
+        toast.error(result.error || 'Failed to run rule');
+        return;
+      } else if (result.status === 'pending') {
+        toast.success(`"${rule.name}" queued changes for review on the automations page`);
+      } else {
+        toast.success(`"${rule.name}" applied its labels`);
+      }
+
+      setRules(prev => prev.map(existing => (
+        existing.id === rule.id ? { ...existing, lastRunAt: new Date().toISOString() } : existing
+      )));
+    },
+    [automationRulesService]
+  );
+
+  return {
+    rules,
+    isLoading,
+    isSaving,
+    saveRule,
+    deleteRule,
+    toggleRule,
+    previewRule,
+    runRuleNow
+  };
+}
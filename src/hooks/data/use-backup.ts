@@ -0,0 +1,93 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useBackupService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import type { RestoreReport } from '@/lib/backup/format';
+
+interface UseBackupReturn {
+  isDownloading: boolean;
+  isRestoring: boolean;
+  report: RestoreReport | null;
+  downloadBackup: (includeEmbeddings?: boolean) => Promise<void>;
+  restoreBackup: (file: File, dryRun: boolean) => Promise<RestoreReport | null>;
+  clearReport: () => void;
+}
+
+/**
+ * React hook for JSON backup download and restore (with dry run)
+ */
+export function useBackup(): UseBackupReturn {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const backupService = useBackupService();
+
+  const downloadBackup = useCallback(
+    async (includeEmbeddings: boolean = false) => {
+      setIsDownloading(true);
+      try {
+        const result = await backupService.downloadBackup(includeEmbeddings);
+
+        if (!result) {
+          toast.error('Failed to create backup');
+          return;
+        }
+
+        const url = URL.createObjectURL(result.blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = result.fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+      } finally {
+        setIsDownloading(false);
+      }
+    },
+    [backupService]
+  );
+
+  const restoreBackup = useCallback(
+    async (file: File, dryRun: boolean): Promise<RestoreReport | null> => {
+      setIsRestoring(true);
+      try {
+        let archive: unknown;
+        try {
+          archive = JSON.parse(await file.text());
+        } catch {
+          toast.error('The selected file is not valid JSON');
+          return null;
+        }
+
+        const result = await backupService.restoreBackup(archive, dryRun);
+        setReport(result);
+
+        if (dryRun) {
+          toast.info('Dry run complete. Nothing was changed.');
+        } else {
+          toast.success('Backup restored');
+        }
+        return result;
+      } catch (err) {
+        console.error('Error restoring backup:', err);
+        toast.error(err instanceof Error ? err.message : 'Failed to restore backup');
+        return null;
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [backupService]
+  );
+
+  const clearReport = useCallback(() => setReport(null), []);
+
+  return {
+    isDownloading,
+    isRestoring,
+    report,
+    downloadBackup,
+    restoreBackup,
+    clearReport
+  };
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useContentService, useAuthService } from '../services/use-services';
+import { DashboardData } from '@/lib/types';
+
+const EMPTY_DASHBOARD: DashboardData = {
+  recentHighlights: [],
+  recentlyEdited: [],
+  pendingAutomations: [],
+  pendingAutomationCount: 0,
+  syncStatus: [],
+  readingStats: []
+};
+
+interface UseDashboardReturn {
+  dashboard: DashboardData;
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the home dashboard: recent activity, pending reviews, sync status and reading stats
+ */
+export function useDashboard(): UseDashboardReturn {
+  const [dashboard, setDashboard] = useState<DashboardData>(EMPTY_DASHBOARD);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const contentService = useContentService();
+  const authService = useAuthService();
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+
+      const isAuthenticated = await authService.isAuthenticated();
+      if (!isAuthenticated) {
+        setDashboard(EMPTY_DASHBOARD);
+        return;
+      }
+
+      const data = await contentService.getDashboard();
+      setDashboard(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading dashboard:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load dashboard'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contentService, authService]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    dashboard,
+    isLoading,
+    error,
+    refresh
+  };
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useUserSettingsService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { DigestSettings } from '@/lib/types';
+
+type EditableDigestSettings = Omit<DigestSettings, 'unsubscribeToken'>;
+
+interface UseDigestSettingsReturn {
+  digest: EditableDigestSettings | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  saveDigest: (digest: EditableDigestSettings) => Promise<boolean>;
+}
+
+/**
+ * React hook for the highlight digest email content settings
+ */
+export function useDigestSettings(): UseDigestSettingsReturn {
+  const [digest, setDigest] = useState<EditableDigestSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const userSettingsService = useUserSettingsService();
+
+  useEffect(() => {
+    userSettingsService
+      .getDigestSettings()
+      .then(({ unsubscribeToken, ...editable }) => setDigest(editable))
+      .finally(() => setIsLoading(false));
+  }, [userSettingsService]);
+
+  const saveDigest = useCallback(
+    async (next: EditableDigestSettings) => {
+      setIsSaving(true);
+      try {
+        const saved = await userSettingsService.updateDigestSettings(next);
+
+        if (!saved) {
+          toast.error('Failed to save digest settings');
+          return false;
+        }
+
+        setDigest(next);
+        toast.success('Digest settings saved');
+        return true;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [userSettingsService]
+  );
+
+  return {
+    digest,
+    isLoading,
+    isSaving,
+    saveDigest
+  };
+}
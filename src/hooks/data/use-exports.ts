@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useExportsService, useAuthService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { ExportDomain } from '@/lib/types';
+
+// Exports run in the background; poll while one is in flight so the list updates itself
+const POLL_INTERVAL_MS = 5000;
+
+interface UseExportsReturn {
+  exports: ExportDomain[];
+  isLoading: boolean;
+  isStarting: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  startMarkdownExport: (uploadToExternal?: boolean) => Promise<boolean>;
+  downloadExport: (exportId: string) => Promise<void>;
+}
+
+/**
+ * React hook for Markdown vault exports: recent export jobs, starting one and downloading the result
+ */
+export function useExports(): UseExportsReturn {
+  const [exports, setExports] = useState<ExportDomain[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const exportsService = useExportsService();
+  const authService = useAuthService();
+
+  const load = useCallback(async (showLoading: boolean) => {
+    try {
+      if (showLoading) setIsLoading(true);
+
+      const isAuthenticated = await authService.isAuthenticated();
+      if (!isAuthenticated) {
+        setExports([]);
+        return;
+      }
+
+      const data = await exportsService.getRecentExports();
+      setExports(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading exports:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load exports'));
+    } finally {
+      if (showLoading) setIsLoading(false);
+    }
+  }, [exportsService, authService]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const hasRunningExport = exports.some(item => item.status === 'pending' || item.status === 'processing');
+
+  useEffect(() => {
+    if (!hasRunningExport) return;
+
+    const interval = setInterval(() => load(false), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRunningExport, load]);
+
+  const startMarkdownExport = useCallback(
+    async (uploadToExternal: boolean = false): Promise<boolean> => {
+      setIsStarting(true);
+      try {
+        const created = await exportsService.startMarkdownExport(uploadToExternal);
+
+        if (!created) {
+          toast.error('Failed to start export');
+          return false;
+        }
+
+        setExports(prev => [created, ...prev]);
+        toast.success('Export started. It will be ready to download shortly.');
+        return true;
+      } finally {
+        setIsStarting(false);
+      }
+    },
+    [exportsService]
+  );
+
+  const downloadExport = useCallback(
+    async (exportId: string) => {
+      const url = await exportsService.getDownloadUrl(exportId);
+
+      if (!url) {
+        toast.error('Failed to get download link');
+        return;
+      }
+
+      window.location.href = url;
+    },
+    [exportsService]
+  );
+
+  return {
+    exports,
+    isLoading,
+    isStarting,
+    error,
+    refresh,
+    startMarkdownExport,
+    downloadExport
+  };
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { useFunctionLogsService } from '../services/use-services';
+import { FunctionLogModel, FunctionLogStepModel } from '@/lib/types';
+
+interface UseFunctionLogDetailReturn {
+  log: FunctionLogModel | null;
+  steps: FunctionLogStepModel[];
+  isLoading: boolean;
+  isRerunning: boolean;
+  rerun: () => Promise<boolean>;
+}
+
+/**
+ * React hook for one run's step timeline and re-running it
+ *
+ * @param refreshKey - Changes whenever the run's log row changes (e.g. its updated_at), so
+ * the timeline picks up steps recorded since it was opened
+ */
+export function useFunctionLogDetail(logId: string, refreshKey?: string): UseFunctionLogDetailReturn {
+  const [log, setLog] = useState<FunctionLogModel | null>(null);
+  const [steps, setSteps] = useState<FunctionLogStepModel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRerunning, setIsRerunning] = useState(false);
+
+  const functionLogsService = useFunctionLogsService();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    functionLogsService
+      .getFunctionLogDetail(logId)
+      .then(detail => {
+        if (cancelled) return;
+        setLog(detail.log);
+        setSteps(detail.steps);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [functionLogsService, logId, refreshKey]);
+
+  const rerun = useCallback(async () => {
+    setIsRerunning(true);
+    try {
+      await functionLogsService.rerunFunction(logId);
+      toast.success('Function triggered again with the same input');
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to re-run function');
+      return false;
+    } finally {
+      setIsRerunning(false);
+    }
+  }, [functionLogsService, logId]);
+
+  return { log, steps, isLoading, isRerunning, rerun };
+}
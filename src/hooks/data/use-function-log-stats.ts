@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useFunctionLogsService } from '../services/use-services';
+import { FunctionLogStatsRow } from '@/lib/types';
+
+export interface FunctionStats {
+  functionId: string;
+  functionName: string;
+  summary: FunctionLogStatsRow;
+  /** Oldest day first; days without finished runs are absent */
+  daily: FunctionLogStatsRow[];
+}
+
+interface UseFunctionLogStatsReturn {
+  stats: FunctionStats[];
+  isLoading: boolean;
+}
+
+/**
+ * React hook for run count, failure rate and duration percentiles per function
+ */
+export function useFunctionLogStats(days: number = 14): UseFunctionLogStatsReturn {
+  const [rows, setRows] = useState<FunctionLogStatsRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const functionLogsService = useFunctionLogsService();
+
+  useEffect(() => {
+    setIsLoading(true);
+    functionLogsService
+      .getFunctionLogStats(days)
+      .then(setRows)
+      .finally(() => setIsLoading(false));
+  }, [functionLogsService, days]);
+
+  // The RPC returns one summary row (day null) and one row per day for each function
+  const stats = useMemo(() => {
+    const byFunction = new Map<string, FunctionStats>();
+
+    for (const row of rows.filter(row => row.day === null)) {
+      byFunction.set(row.function_id, {
+        functionId: row.function_id,
+        functionName: row.function_name,
+        summary: row,
+        daily: []
+      });
+    }
+
+    for (const row of rows.filter(row => row.day !== null)) {
+      byFunction.get(row.function_id)?.daily.push(row);
+    }
+
+    return Array.from(byFunction.values())
+      .map(entry => ({
+        ...entry,
+        daily: entry.daily.sort((a, b) => (a.day as string).localeCompare(b.day as string))
+      }))
+      .sort((a, b) => b.summary.runs - a.summary.runs);
+  }, [rows]);
+
+  return { stats, isLoading };
+}
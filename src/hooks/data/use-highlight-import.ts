@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useImportsService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import type { ImportFormat } from '@/lib/import/format';
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  kindle: 'Kindle clippings',
+  csv: 'CSV',
+  json: 'JSON'
+};
+
+interface UseHighlightImportReturn {
+  isUploading: boolean;
+  uploadFile: (file: File, format: ImportFormat | 'auto') => Promise<boolean>;
+}
+
+/**
+ * React hook for uploading a highlights file to import
+ */
+export function useHighlightImport(): UseHighlightImportReturn {
+  const [isUploading, setIsUploading] = useState(false);
+
+  const importsService = useImportsService();
+
+  const uploadFile = useCallback(
+    async (file: File, format: ImportFormat | 'auto'): Promise<boolean> => {
+      setIsUploading(true);
+      try {
+        const importedAs = await importsService.uploadHighlightsFile(file, format);
+        toast.success(`Importing ${file.name} as ${FORMAT_LABELS[importedAs]}. The summary appears in the function logs.`);
+        return true;
+      } catch (err) {
+        console.error('Error uploading import file:', err);
+        toast.error(err instanceof Error ? err.message : 'Failed to start import');
+        return false;
+      } finally {
+        setIsUploading(false);
+      }
+    },
+    [importsService]
+  );
+
+  return {
+    isUploading,
+    uploadFile
+  };
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useHighlightsService, useAuthService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { TrashedHighlight } from '@/lib/types';
+
+interface UseHighlightsTrashReturn {
+  highlights: TrashedHighlight[];
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  restoreHighlights: (highlightIds: string[]) => Promise<boolean>;
+}
+
+/**
+ * React hook for the highlights trash: highlights soft-deleted by Readwise sync or reconciliation
+ */
+export function useHighlightsTrash(): UseHighlightsTrashReturn {
+  const [highlights, setHighlights] = useState<TrashedHighlight[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const highlightsService = useHighlightsService();
+  const authService = useAuthService();
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+
+      const isAuthenticated = await authService.isAuthenticated();
+      if (!isAuthenticated) {
+        setHighlights([]);
+        return;
+      }
+
+      const data = await highlightsService.getDeletedHighlights();
+      setHighlights(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading trashed highlights:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load trash'));
+      setHighlights([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [highlightsService, authService]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const restoreHighlights = useCallback(
+    async (highlightIds: string[]): Promise<boolean> => {
+      const restoredIds = await highlightsService.restoreHighlights(highlightIds);
+
+      if (restoredIds.length === 0) {
+        toast.error('Failed to restore highlights');
+        return false;
+      }
+
+      const restored = new Set(restoredIds);
+      setHighlights(prev => prev.filter(highlight => !restored.has(highlight.id)));
+
+      toast.success(
+        restoredIds.length === 1
+          ? 'Highlight restored'
+          : `${restoredIds.length} highlights restored`
+      );
+      return true;
+    },
+    [highlightsService]
+  );
+
+  return {
+    highlights,
+    isLoading,
+    error,
+    refresh,
+    restoreHighlights
+  };
+}
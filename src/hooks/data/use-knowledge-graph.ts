@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useNotesService } from '../services/use-notes-service';
+import { NoteLinkDomain, NoteLinkKind, NoteLinkTargetType } from '@/lib/types';
+import { noteLinkHref } from '@/lib/note-links';
+
+export interface GraphNode {
+  /** `${type}:${id}` */
+  key: string;
+  type: NoteLinkTargetType;
+  id: string;
+  label: string;
+  href: string | null;
+  /** Number of links touching the node */
+  degree: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: NoteLinkKind;
+}
+
+interface UseKnowledgeGraphReturn {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  isLoading: boolean;
+}
+
+/**
+ * Build graph nodes and edges from note links; only connected entities become nodes
+ */
+function buildGraph(links: NoteLinkDomain[]): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  const nodes = new Map<string, GraphNode>();
+
+  const addNode = (type: NoteLinkTargetType, id: string, label: string, href: string | null) => {
+    const key = `${type}:${id}`;
+    const node = nodes.get(key) || { key, type, id, label, href, degree: 0 };
+    node.degree++;
+    nodes.set(key, node);
+    return key;
+  };
+
+  const edges = links.map(link => ({
+    source: addNode('note', link.noteId, link.noteTitle, noteLinkHref('note', link.noteId)),
+    target: addNode(
+      link.targetType,
+      link.targetId,
+      link.targetLabel,
+      noteLinkHref(link.targetType, link.targetId, link.targetBookRwId)
+    ),
+    kind: link.kind
+  }));
+
+  return { nodes: Array.from(nodes.values()), edges };
+}
+
+/**
+ * React hook for the graph of connections between notes, books, highlights and sparks
+ */
+export function useKnowledgeGraph(): UseKnowledgeGraphReturn {
+  const [links, setLinks] = useState<NoteLinkDomain[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { getAllLinks } = useNotesService();
+
+  useEffect(() => {
+    getAllLinks()
+      .then(setLinks)
+      .finally(() => setIsLoading(false));
+  }, [getAllLinks]);
+
+  const graph = useMemo(() => buildGraph(links), [links]);
+
+  return { ...graph, isLoading };
+}
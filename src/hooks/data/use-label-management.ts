@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useLabelsService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { ValidationError } from '@/lib/errors';
+import { CategoryWithUsage, TagWithUsage } from '@/lib/categorization/types';
+
+export type LabelKind = 'category' | 'tag';
+
+interface UseLabelManagementReturn {
+  categories: CategoryWithUsage[];
+  tags: TagWithUsage[];
+  isLoading: boolean;
+  isWorking: boolean;
+  refresh: () => Promise<void>;
+  rename: (kind: LabelKind, id: string, name: string) => Promise<boolean>;
+  merge: (kind: LabelKind, sourceIds: string[], targetId: string) => Promise<boolean>;
+  remove: (kind: LabelKind, ids: string[]) => Promise<boolean>;
+  setParent: (categoryId: string, parentId: string | null) => Promise<boolean>;
+}
+
+/**
+ * React hook for the tag and category management page
+ *
+ * NOTE: Every change reloads both lists, since merges and deletes change usage
+ * counts and category nesting.
+ */
+export function useLabelManagement(): UseLabelManagementReturn {
+  const [categories, setCategories] = useState<CategoryWithUsage[]>([]);
+  const [tags, setTags] = useState<TagWithUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const labelsService = useLabelsService();
+
+  const refresh = useCallback(async () => {
+    const labels = await labelsService.getLabelsWithUsage();
+    setCategories(labels.categories);
+    setTags(labels.tags);
+  }, [labelsService]);
+
+  useEffect(() => {
+    refresh().finally(() => setIsLoading(false));
+  }, [refresh]);
+
+  // Runs a change, shows validation messages as-is and reloads the lists afterwards
+  const run = useCallback(
+    async (change: () => Promise<unknown>, success: string, failure: string) => {
+      setIsWorking(true);
+      try {
+        const result = await change();
+
+        if (result === null || result === false) {
+          toast.error(failure);
+          return false;
+        }
+
+        toast.success(success);
+        await refresh();
+        return true;
+      } catch (error) {
+        toast.error(error instanceof ValidationError ? error.message : failure);
+        return false;
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [refresh]
+  );
+
+  const rename = useCallback(
+    (kind: LabelKind, id: string, name: string) => run(
+      () => kind === 'category' ? labelsService.renameCategory(id, name) : labelsService.renameTag(id, name),
+      `Renamed ${kind}`,
+      `Failed to rename ${kind}`
+    ),
+    [labelsService, run]
+  );
+
+  const merge = useCallback(
+    (kind: LabelKind, sourceIds: string[], targetId: string) => run(
+      () => kind === 'category'
+        ? labelsService.mergeCategories(sourceIds, targetId)
+        : labelsService.mergeTags(sourceIds, targetId),
+      `Merged ${kind === 'category' ? 'categories' : 'tags'}`,
+      `Failed to merge ${kind === 'category' ? 'categories' : 'tags'}`
+    ),
+    [labelsService, run]
+  );
+
+  const remove = useCallback(
+    (kind: LabelKind, ids: string[]) => run(
+      () => kind === 'category' ? labelsService.deleteCategories(ids) : labelsService.deleteTags(ids),
+      `Deleted ${ids.length} ${kind === 'category' ? 'categories' : 'tags'}`,
+      `Failed to delete ${kind === 'category' ? 'categories' : 'tags'}`
+    ),
+    [labelsService, run]
+  );
+
+  const setParent = useCallback(
+    (categoryId: string, parentId: string | null) => run(
+      () => labelsService.setCategoryParent(categoryId, parentId),
+      parentId ? 'Category moved' : 'Category moved to the top level',
+      'Failed to move category'
+    ),
+    [labelsService, run]
+  );
+
+  return {
+    categories,
+    tags,
+    isLoading,
+    isWorking,
+    refresh,
+    rename,
+    merge,
+    remove,
+    setParent
+  };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useNotesService } from '../services/use-notes-service';
+import { NoteLinkDomain, NoteLinkTargetType } from '@/lib/types';
+
+interface UseNoteLinksReturn {
+  links: NoteLinkDomain[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * React hook for the note links touching one note, book, highlight or spark
+ *
+ * USE WHEN: showing backlinks. Links are resolved by the database when a note is saved,
+ * so call `refresh` after saving one.
+ */
+export function useNoteLinks(type: NoteLinkTargetType, id: string | null | undefined): UseNoteLinksReturn {
+  const [links, setLinks] = useState<NoteLinkDomain[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { getLinksFor } = useNotesService();
+
+  const refresh = useCallback(async () => {
+    if (!id) {
+      setLinks([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setLinks(await getLinksFor(type, id));
+    setIsLoading(false);
+  }, [getLinksFor, type, id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    refresh();
+  }, [refresh]);
+
+  return { links, isLoading, refresh };
+}
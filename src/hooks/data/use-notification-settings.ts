@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useUserSettingsService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { NotificationSettings } from '@/lib/types';
+
+interface UseNotificationSettingsReturn {
+  notificationSettings: NotificationSettings | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  saveNotificationSettings: (settings: NotificationSettings) => Promise<boolean>;
+}
+
+/**
+ * React hook for how notifications are delivered
+ */
+export function useNotificationSettings(): UseNotificationSettingsReturn {
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const userSettingsService = useUserSettingsService();
+
+  useEffect(() => {
+    userSettingsService
+      .getNotificationSettings()
+      .then(setNotificationSettings)
+      .finally(() => setIsLoading(false));
+  }, [userSettingsService]);
+
+  const saveNotificationSettings = useCallback(
+    async (next: NotificationSettings) => {
+      setIsSaving(true);
+      try {
+        const saved = await userSettingsService.updateNotificationSettings(next);
+
+        if (!saved) {
+          toast.error('Failed to save notification settings');
+          return false;
+        }
+
+        setNotificationSettings(next);
+        toast.success('Notification settings saved');
+        return true;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [userSettingsService]
+  );
+
+  return {
+    notificationSettings,
+    isLoading,
+    isSaving,
+    saveNotificationSettings
+  };
+}
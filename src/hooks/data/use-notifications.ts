@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { useHeaderService, useNotificationsService } from '../services/use-services';
+import { RealtimeChangePayload, useRealtimeSubscription } from '../patterns/use-realtime-subscription';
+import { NotificationDomain, NotificationModel } from '@/lib/types';
+
+interface UseNotificationsReturn {
+  notifications: NotificationDomain[];
+  unreadCount: number;
+  isLoading: boolean;
+  markAsRead: (notificationId: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+/**
+ * React hook for the header notifications, kept current over Supabase Realtime
+ */
+export function useNotifications(limit: number = 20): UseNotificationsReturn {
+  const [notifications, setNotifications] = useState<NotificationDomain[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const notificationsService = useNotificationsService();
+  const headerService = useHeaderService();
+
+  const refresh = useCallback(async () => {
+    const [latest, count] = await Promise.all([
+      notificationsService.getNotifications(limit),
+      headerService.getNotificationCount()
+    ]);
+    setNotifications(latest);
+    setUnreadCount(count);
+  }, [notificationsService, headerService, limit]);
+
+  useEffect(() => {
+    refresh().finally(() => setIsLoading(false));
+  }, [refresh]);
+
+  // Notifications are created server-side and read from other tabs, so reload on any change
+  const handleRealtimeUpdate = useCallback(
+    (payload: RealtimeChangePayload<NotificationModel>) => {
+      if (payload.eventType === 'INSERT' && payload.new) {
+        toast.info(payload.new.title);
+      }
+      refresh();
+    },
+    [refresh]
+  );
+
+  useRealtimeSubscription<NotificationModel>({ table: 'notifications' }, handleRealtimeUpdate);
+
+  const markAsRead = useCallback(
+    async (notificationId: string) => {
+      const target = notifications.find(notification => notification.id === notificationId);
+      if (!target || target.isRead) return;
+
+      setNotifications(prev =>
+        prev.map(notification => notification.id === notificationId ? { ...notification, isRead: true } : notification)
+      );
+      setUnreadCount(prev => Math.max(0, prev - 1));
+
+      if (!(await notificationsService.markAsRead(notificationId))) {
+        toast.error('Failed to mark notification as read');
+        refresh();
+      }
+    },
+    [notifications, notificationsService, refresh]
+  );
+
+  const markAllAsRead = useCallback(async () => {
+    setNotifications(prev => prev.map(notification => ({ ...notification, isRead: true })));
+    setUnreadCount(0);
+
+    if (!(await notificationsService.markAllAsRead())) {
+      toast.error('Failed to mark notifications as read');
+      refresh();
+    }
+  }, [notificationsService, refresh]);
+
+  return {
+    notifications,
+    unreadCount,
+    isLoading,
+    markAsRead,
+    markAllAsRead
+  };
+}
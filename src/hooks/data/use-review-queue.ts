@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useReviewService, useAuthService } from '../services/use-services';
+import { toast } from 'react-toastify';
+import { ReviewGrade, ReviewQueueFilters, ReviewQueueItem } from '@/lib/types';
+
+interface UseReviewQueueReturn {
+  queue: ReviewQueueItem[];
+  current: ReviewQueueItem | null;
+  reviewedCount: number;
+  isLoading: boolean;
+  isGrading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  grade: (grade: ReviewGrade) => Promise<void>;
+}
+
+/**
+ * React hook for working through today's highlight review queue
+ *
+ * Grading removes the highlight from the local queue; it only comes back on a later
+ * day once it is due again.
+ */
+export function useReviewQueue(filters: ReviewQueueFilters = {}): UseReviewQueueReturn {
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGrading, setIsGrading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const reviewService = useReviewService();
+  const authService = useAuthService();
+
+  const { bookId, categoryId, tagId } = filters;
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+
+      const isAuthenticated = await authService.isAuthenticated();
+      if (!isAuthenticated) {
+        setQueue([]);
+        return;
+      }
+
+      const data = await reviewService.getQueue({ bookId, categoryId, tagId });
+      setQueue(data);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading review queue:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load review queue'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reviewService, authService, bookId, categoryId, tagId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const current = queue[0] ?? null;
+
+  const grade = useCallback(
+    async (value: ReviewGrade) => {
+      if (!current || isGrading) return;
+
+      setIsGrading(true);
+      try {
+        const schedule = await reviewService.gradeHighlight(current.highlightId, value);
+
+        if (!schedule) {
+          toast.error('Failed to save review');
+          return;
+        }
+
+        setQueue(prev => prev.filter(item => item.highlightId !== current.highlightId));
+        setReviewedCount(count => count + 1);
+      } finally {
+        setIsGrading(false);
+      }
+    },
+    [current, isGrading, reviewService]
+  );
+
+  return {
+    queue,
+    current,
+    reviewedCount,
+    isLoading,
+    isGrading,
+    error,
+    refresh,
+    grade
+  };
+}
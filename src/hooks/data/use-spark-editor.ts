@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useSparksService } from '../services/use-services';
+import { notifySparksChanged } from '../ui/use-sparks-changed';
+import { toast } from 'react-toastify';
+import { SparkDomain, SparkLabelsInput } from '@/lib/types';
+
+// How long a deleted spark can still be restored
+export const SPARK_UNDO_WINDOW_MS = 6000;
+
+// Pending deletes live outside React: the preview panel that starts a delete usually
+// unmounts (mouse leave) long before the undo window ends
+const pendingDeletes = new Map<string, ReturnType<typeof setTimeout>>();
+
+interface UseSparkEditorReturn {
+  isSaving: boolean;
+  captureSpark: (body: string, labels?: SparkLabelsInput) => Promise<SparkDomain | null>;
+  editSpark: (sparkId: string, body: string) => Promise<SparkDomain | null>;
+  scheduleDelete: (spark: SparkDomain) => () => void;
+}
+
+/**
+ * React hook for capturing, editing and deleting sparks from anywhere in the app
+ *
+ * Every change is broadcast with `notifySparksChanged` so open lists update in place.
+ *
+ * NOTE: Deletes are deferred by SPARK_UNDO_WINDOW_MS. Closing the tab inside the
+ * window cancels the delete, which errs on the side of keeping the spark.
+ */
+export function useSparkEditor(): UseSparkEditorReturn {
+  const [isSaving, setIsSaving] = useState(false);
+  const sparksService = useSparksService();
+
+  const captureSpark = useCallback(
+    async (body: string, labels: SparkLabelsInput = {}): Promise<SparkDomain | null> => {
+      if (!body.trim()) return null;
+
+      setIsSaving(true);
+      try {
+        const result = await sparksService.createSpark({ body }, labels);
+
+        if (!result) {
+          toast.error('Failed to save spark');
+          return null;
+        }
+
+        if (result.duplicate) {
+          toast.info('You already have this spark');
+          notifySparksChanged({ type: 'updated', spark: result.spark });
+        } else {
+          toast.success('Spark captured');
+          notifySparksChanged({ type: 'created', spark: result.spark });
+        }
+
+        return result.spark;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [sparksService]
+  );
+
+  const editSpark = useCallback(
+    async (sparkId: string, body: string): Promise<SparkDomain | null> => {
+      if (!body.trim()) {
+        toast.error('A spark cannot be empty');
+        return null;
+      }
+
+      setIsSaving(true);
+      try {
+        const updated = await sparksService.updateSpark(sparkId, { body });
+
+        if (!updated) {
+          toast.error('Failed to update spark');
+          return null;
+        }
+
+        notifySparksChanged({ type: 'updated', spark: updated });
+        toast.success('Spark updated');
+        return updated;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [sparksService]
+  );
+
+  /**
+   * Hide a spark now and delete it once the undo window has passed
+   *
+   * @returns A function that cancels the delete and restores the spark
+   */
+  const scheduleDelete = useCallback(
+    (spark: SparkDomain): (() => void) => {
+      const existing = pendingDeletes.get(spark.id);
+      if (existing) {
+        clearTimeout(existing);
+      }
+
+      notifySparksChanged({ type: 'removed', spark });
+
+      const timer = setTimeout(async () => {
+        pendingDeletes.delete(spark.id);
+
+        const deleted = await sparksService.deleteSpark(spark.id);
+        if (!deleted) {
+          toast.error('Failed to delete spark');
+          notifySparksChanged({ type: 'restored', spark });
+        }
+      }, SPARK_UNDO_WINDOW_MS);
+
+      pendingDeletes.set(spark.id, timer);
+
+      return () => {
+        const pending = pendingDeletes.get(spark.id);
+        if (!pending) return; // Already deleted
+
+        clearTimeout(pending);
+        pendingDeletes.delete(spark.id);
+        notifySparksChanged({ type: 'restored', spark });
+      };
+    },
+    [sparksService]
+  );
+
+  return {
+    isSaving,
+    captureSpark,
+    editSpark,
+    scheduleDelete
+  };
+}
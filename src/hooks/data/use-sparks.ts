@@ -120,7 +120,14 @@ export function useSparks(): UseSparksReturn {
   const createSpark = useCallback(
     async (data: CreateSparkInput): Promise<SparkDomain | null> => {
       try {
-        const newSpark = await sparksService.createSpark(data);
+        const result = await sparksService.createSpark(data);
+        
+        if (result?.duplicate) {
+          toast.info('This spark already exists');
+          return result.spark;
+        }
+        
+        const newSpark = result?.spark ?? null;
         
         // Update local state with the new spark
         if (newSpark) {
@@ -177,7 +184,10 @@ export function useSparks(): UseSparksReturn {
   const deleteSpark = useCallback(
     async (sparkId: string): Promise<boolean> => {
       try {
-        await sparksService.delete(sparkId);
+        const deleted = await sparksService.deleteSpark(sparkId);
+        if (!deleted) {
+          throw new Error('Failed to delete spark');
+        }
         
         // Update local state
         setSparks(prev => prev.filter(spark => spark.id !== sparkId));
@@ -2,7 +2,6 @@
  * Service layer hooks
  */
 
-export { useContentService } from './use-content-service';
 export { useFunctionLogsService } from './use-function-logs-service';
 export { useNotesService } from './use-notes-service';
 export { useSidebarService, SIDEBAR_SETTINGS } from './use-sidebar-service';
@@ -16,5 +15,14 @@ export {
   useResourceHelper,
   useAuthService,
   useIntegrationsService,
-  useHeaderService
+  useHeaderService,
+  useExportsService,
+  useBackupService,
+  useImportsService,
+  useContentService,
+  useReviewService,
+  useAutomationRulesService,
+  useLabelsService,
+  useApiTokensService,
+  useNotificationsService
 } from './use-services';
@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import { notesService } from '@/services';
-import { NoteDomain, CreateNoteInput } from '@/lib/types';
+import { NoteDomain, CreateNoteInput, NoteLinkDomain, NoteLinkTargetType } from '@/lib/types';
 
 /**
  * Hook for accessing the Notes service
@@ -26,11 +26,21 @@ export function useNotesService() {
     return notesService.deleteNote(id);
   }, []);
 
+  const getLinksFor = useCallback(async (type: NoteLinkTargetType, id: string): Promise<NoteLinkDomain[]> => {
+    return notesService.getLinksFor(type, id);
+  }, []);
+
+  const getAllLinks = useCallback(async (): Promise<NoteLinkDomain[]> => {
+    return notesService.getAllLinks();
+  }, []);
+
   return {
     getNotes,
     getNoteById,
     createNote,
     updateNote,
-    deleteNote
+    deleteNote,
+    getLinksFor,
+    getAllLinks
   };
 } 
\ No newline at end of file
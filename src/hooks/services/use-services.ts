@@ -72,6 +72,69 @@ export function useHeaderService() {
   return services.header;
 }
 
+/**
+ * Hook to access the exports service in React components
+ */
+export function useExportsService() {
+  return services.exports;
+}
+
+/**
+ * Hook to access the backup service in React components
+ */
+export function useBackupService() {
+  return services.backup;
+}
+
+/**
+ * Hook to access the highlight file import service in React components
+ */
+export function useImportsService() {
+  return services.imports;
+}
+
+/**
+ * Hook to access the content (home dashboard) service in React components
+ */
+export function useContentService() {
+  return services.content;
+}
+
+/**
+ * Hook to access the highlight review service in React components
+ */
+export function useReviewService() {
+  return services.review;
+}
+
+/**
+ * Hook to access the automation rules service in React components
+ */
+export function useAutomationRulesService() {
+  return services.automationRules;
+}
+
+/**
+ * Hook to access the labels (category and tag management) service in React components
+ */
+export function useLabelsService() {
+  return services.labels;
+}
+
+/**
+ * Hook to access the personal access (API) tokens service in React components
+ */
+export function useApiTokensService() {
+  return services.apiTokens;
+}
+
+/**
+ * Hook to access the notifications service in React components
+ */
+export function useNotificationsService() {
+  return services.notifications;
+}
+
 /**
  * Hook to access the user settings service in React components
  */
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RelatedHighlight } from '@/lib/types';
+import { getSupabaseBrowserClient } from '@/lib/supabase';
+
+/**
+ * Source to find related highlights for: a single highlight or a whole book
+ */
+export type RelatedHighlightsSource =
+  | { highlightId: string; bookId?: never }
+  | { bookId: string; highlightId?: never };
+
+/**
+ * Hook for fetching highlights related to a highlight or book via embedding similarity
+ *
+ * @param source - The highlight or book to find related highlights for
+ * @param limit - Maximum number of results to return (default: 5)
+ * @param enabled - Only fetch while true, so collapsed sections don't trigger requests (default: true)
+ * @returns Related highlights, loading state, error, and the same-book toggle
+ */
+export function useRelatedHighlights(
+  source: RelatedHighlightsSource,
+  limit: number = 5,
+  enabled: boolean = true
+) {
+  const [excludeSameBook, setExcludeSameBook] = useState(true);
+  const [results, setResults] = useState<RelatedHighlight[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Use ref to track the latest request to avoid race conditions
+  const latestRequestId = useRef(0);
+
+  const { highlightId, bookId } = source;
+
+  const fetchRelated = useCallback(async () => {
+    const requestId = ++latestRequestId.current;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Get the current auth session for the token
+      const supabase = getSupabaseBrowserClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch('/api/highlights/related', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          highlightId,
+          bookId,
+          limit,
+          excludeSameBook,
+        }),
+      });
+
+      // Only process if this is still the latest request
+      if (requestId !== latestRequestId.current) {
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load related highlights');
+      }
+
+      const data = await response.json();
+      setResults(data.results || []);
+    } catch (err) {
+      if (requestId === latestRequestId.current) {
+        console.error('Error loading related highlights:', err);
+        setError(err instanceof Error ? err.message : 'An error occurred while loading related highlights');
+        setResults([]);
+      }
+    } finally {
+      if (requestId === latestRequestId.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [highlightId, bookId, limit, excludeSameBook]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchRelated();
+    }
+  }, [enabled, fetchRelated]);
+
+  return {
+    results,
+    isLoading,
+    error,
+    excludeSameBook,
+    setExcludeSameBook,
+    refresh: fetchRelated,
+  };
+}
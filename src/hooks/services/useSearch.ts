@@ -1,25 +1,28 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { HighlightSearchMode, HighlightSearchResult } from '@/lib/types';
+import { HighlightSearchMode, SearchContentType, SEARCH_CONTENT_TYPES, UnifiedSearchResult } from '@/lib/types';
 import { getSupabaseBrowserClient } from '@/lib/supabase';
 
 /**
- * Hook for searching highlights
+ * Hook for searching highlights, sparks and notes through the unified search API
  * 
  * @param initialQuery - Initial search query (default: '')
  * @param initialMode - Initial search mode (default: 'keyword')
  * @param limit - Maximum number of results to return (default: 10)
- * @param autoSearch - Whether to automatically search when query/mode changes (default: true)
+ * @param autoSearch - Whether to automatically search when query/mode/types change (default: true)
+ * @param initialTypes - Content types to include in the results (default: all)
  * @returns Search results, loading state, error, and search function
  */
-export function useHighlightSearch(
+export function useSearch(
   initialQuery: string = '',
   initialMode: HighlightSearchMode = 'keyword',
   limit: number = 10,
-  autoSearch: boolean = true
+  autoSearch: boolean = true,
+  initialTypes: SearchContentType[] = SEARCH_CONTENT_TYPES
 ) {
   const [query, setQuery] = useState(initialQuery);
   const [mode, setMode] = useState<HighlightSearchMode>(initialMode);
-  const [results, setResults] = useState<HighlightSearchResult[]>([]);
+  const [types, setTypes] = useState<SearchContentType[]>(initialTypes);
+  const [results, setResults] = useState<UnifiedSearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -29,12 +32,16 @@ export function useHighlightSearch(
   /**
    * Perform the search API call
    */
-  const performSearch = useCallback(async (searchQuery: string, searchMode: HighlightSearchMode) => {
+  const performSearch = useCallback(async (
+    searchQuery: string,
+    searchMode: HighlightSearchMode,
+    searchTypes: SearchContentType[]
+  ) => {
     // Clear any previous errors
     setError(null);
 
     // Don't search if query is empty
-    if (!searchQuery || searchQuery.trim().length === 0) {
+    if (!searchQuery || searchQuery.trim().length === 0 || searchTypes.length === 0) {
       setResults([]);
       setIsLoading(false);
       return;
@@ -54,7 +61,7 @@ export function useHighlightSearch(
         throw new Error('Authentication required');
       }
 
-      const response = await fetch('/api/highlights/search', {
+      const response = await fetch('/api/search', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -63,6 +70,7 @@ export function useHighlightSearch(
         body: JSON.stringify({
           query: searchQuery,
           mode: searchMode,
+          types: searchTypes,
           limit,
         }),
       });
@@ -74,7 +82,7 @@ export function useHighlightSearch(
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to search highlights');
+        throw new Error(errorData.error || 'Failed to search');
       }
 
       const data = await response.json();
@@ -84,7 +92,7 @@ export function useHighlightSearch(
     } catch (err) {
       // Only set error if this is still the latest request
       if (requestId === latestRequestId.current) {
-        console.error('Error searching highlights:', err);
+        console.error('Error searching:', err);
         setError(err instanceof Error ? err.message : 'An error occurred while searching');
         setResults([]);
       }
@@ -111,20 +119,27 @@ export function useHighlightSearch(
       return;
     }
 
-    performSearch(query, mode);
-  }, [query, mode, performSearch, autoSearch]);
+    performSearch(query, mode, types);
+  }, [query, mode, types, performSearch, autoSearch]);
 
   /**
    * Manual search function
    */
-  const search = useCallback((searchQuery: string, searchMode?: HighlightSearchMode) => {
+  const search = useCallback((
+    searchQuery: string,
+    searchMode?: HighlightSearchMode,
+    searchTypes?: SearchContentType[]
+  ) => {
     setQuery(searchQuery);
     if (searchMode) {
       setMode(searchMode);
     }
+    if (searchTypes) {
+      setTypes(searchTypes);
+    }
     
-    performSearch(searchQuery, searchMode || mode);
-  }, [mode, performSearch]);
+    performSearch(searchQuery, searchMode || mode, searchTypes || types);
+  }, [mode, types, performSearch]);
 
   /**
    * Clear search results
@@ -141,6 +156,8 @@ export function useHighlightSearch(
     setQuery,
     mode,
     setMode,
+    types,
+    setTypes,
     results,
     isLoading,
     error,
@@ -4,3 +4,5 @@
 
 export { useLocalStorage } from './use-storage';
 export { useSidebarData } from './useSidebarData';
+export { useSparksChanged, notifySparksChanged } from './use-sparks-changed';
+export type { SparksChange } from './use-sparks-changed';
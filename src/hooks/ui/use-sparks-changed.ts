@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { SparkDomain } from '@/lib/types';
+
+const SPARKS_CHANGED_EVENT = 'spark:changed';
+
+/**
+ * A change to a spark made somewhere in the app
+ *
+ * `removed` fires when a delete is scheduled and `restored` when it is undone, so
+ * lists can hide the spark during the undo window without refetching.
+ */
+export interface SparksChange {
+  type: 'created' | 'updated' | 'removed' | 'restored';
+  spark: SparkDomain;
+}
+
+/**
+ * Broadcast a spark change to every mounted `useSparksChanged` listener
+ *
+ * USE WHEN: Creating, editing or deleting a spark outside the component that lists it
+ * (the composer and preview panel live apart from the sidebar).
+ */
+export function notifySparksChanged(change: SparksChange): void {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<SparksChange>(SPARKS_CHANGED_EVENT, { detail: change }));
+}
+
+/**
+ * Subscribe to spark changes broadcast with `notifySparksChanged`
+ */
+export function useSparksChanged(handler: (change: SparksChange) => void): void {
+  // Keep the latest handler without re-subscribing on every render
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    const listener = (event: Event) => {
+      handlerRef.current((event as CustomEvent<SparksChange>).detail);
+    };
+
+    window.addEventListener(SPARKS_CHANGED_EVENT, listener);
+    return () => window.removeEventListener(SPARKS_CHANGED_EVENT, listener);
+  }, []);
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useMemo, useRef } from 'react';
 import { SidebarType, SidebarItem } from '@/lib/types';
 import { EnhancedSparkItem } from '@/services';
 import { useBooksService, useSparksService, useNotesService, useCategories, useTags } from '@/hooks';
+import { useSparksChanged } from './use-sparks-changed';
 
 interface UseSidebarDataReturn {
   items: SidebarItem[] | EnhancedSparkItem[];
@@ -43,6 +44,24 @@ export function useSidebarData(sidebarType: SidebarType): UseSidebarDataReturn {
     };
   }, [booksService, sparksService, notesService]);
   
+  // Keep the sparks list in step with captures, edits and deletes made elsewhere
+  useSparksChanged(({ type, spark }) => {
+    const item = servicesRef.current.sparks.toSidebarItem(spark);
+    
+    setSparks(prev => {
+      const rest = prev.filter(existing => existing.id !== spark.id);
+      
+      switch (type) {
+        case 'removed':
+          return rest;
+        case 'updated':
+          return prev.map(existing => existing.id === spark.id ? item : existing);
+        default:
+          return [item, ...rest];
+      }
+    });
+  });
+  
   // Get categories and tags with their hooks (they manage their own loading)
   const { categoriesWithUsage, isLoading: loadingCategories } = useCategories();
   const { tagsWithUsage, isLoading: loadingTags } = useTags();
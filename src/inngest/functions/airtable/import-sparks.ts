@@ -1,20 +1,20 @@
 import { inngest } from "../../client";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
 import { createClient } from "@supabase/supabase-js";
+import {
+  AirtableApiError,
+  applyTextReplacements,
+  fetchAirtableTableSchema,
+  readAirtableCellValues,
+  resolveAirtableFieldMapping,
+  validateAirtableFieldMapping
+} from "@/lib/airtable";
+import type { UserSettings } from "@/lib/types";
 
 interface AirtableRecord {
   id: string;
-  fields: {
-    uid?: string;
-    content?: string;
-    Categories?: string[];  // Array of category record IDs
-    "Name (from Categories)"?: string[];  // Array of category names
-    Tags?: string[];  // Array of tag record IDs
-    "Name (from Tags)"?: string[];  // Array of tag names
-    originallyCreated?: string;
-    toDoId?: string;
-    [key: string]: any;
-  };
+  fields: Record<string, unknown>;
   createdTime?: string;
 }
 
@@ -24,44 +24,24 @@ interface AirtableResponse {
 }
 
 /**
- * Apply text replacements to clean up spark content
- */
-function cleanSparkContent(content: string): string {
-  let cleaned = content;
-  
-  // Apply replacements (case-insensitive)
-  const replacements: Array<[RegExp, string]> = [
-    [/\bxtians\b/gi, 'Christians'],
-    [/\bxtian\b/gi, 'Christian'],
-    [/\bq for\b/gi, 'question for'],
-    [/\bq:\s/gi, 'question: '],
-  ];
-  
-  for (const [pattern, replacement] of replacements) {
-    cleaned = cleaned.replace(pattern, replacement);
-  }
-  
-  return cleaned;
-}
-
-/**
- * Import sparks from Airtable "Thoughts Manager" base.
- * Fetches records from the "Thoughts All" table and creates sparks in Supabase.
+ * Import sparks from the user's Airtable table.
+ * Which fields hold the spark text, its unique ID, category, tags and dates comes from
+ * the field mapping in the integration settings (the "Thoughts Manager" schema when
+ * none is saved).
  * 
  * VALIDATION REQUIREMENTS:
- * - content field must be present and non-empty
- * - "Name (from Categories)" must have at least one category name
- * - "Name (from Tags)" must have at least one tag name
- * - uid field must be present (for deduplication)
+ * - the mapped content field must be present and non-empty
+ * - the mapped uid field must be present (for deduplication)
+ * - the mapped category field must have a value, if the mapping requires a category
+ * - the mapped tags field must have at least one value, if the mapping requires tags
  * 
  * AIRTABLE DATA STRUCTURE:
- * - Categories: Array of Airtable record IDs
- * - "Name (from Categories)": Array of category names (takes first one)
- * - Tags: Array of Airtable record IDs
- * - "Name (from Tags)": Array of tag names
+ * - Category and tag fields can be text, select or lookup fields; the first category value is used
+ * - Linked-record fields only hold record IDs, so map a lookup of the linked name instead
+ * - The mapping is checked against the table's schema before importing when the token can read it
  * 
  * DEDUPLICATION:
- * - Uses the existing uid field from Airtable
+ * - Uses the mapped uid field from Airtable
  * - Stores it in md5_uid field (existing unique field for deduplication)
  * - Checks for existing sparks using md5_uid before importing
  * - Only imports new records not already in the database
@@ -74,18 +54,18 @@ function cleanSparkContent(content: string): string {
  * - Updates user_settings with import metadata
  * - Logs the names of newly created categories and tags
  * 
- * @param event - Contains userId, apiKey, baseId, tableId
+ * @param event - Contains userId, baseId, tableId
  * @returns Summary of imported records with counts, skip reasons, and names of newly created categories/tags
  */
 export const airtableImportSparksFn = inngest.createFunction(
   { id: "airtable-import-sparks" },
   { event: "airtable/import-sparks" },
   async ({ event, step, logger }) => {
-    const { userId, apiKey, baseId, tableId } = event.data;
+    const { userId, baseId, tableId } = event.data;
     
     logger.info("Starting Airtable data import", { userId, baseId, tableId });
     
-    if (!userId || !apiKey || !baseId || !tableId) {
+    if (!userId || !baseId || !tableId) {
       logger.error("Missing required parameters");
       return markAsError({ 
         success: false, 
@@ -110,11 +90,60 @@ export const airtableImportSparksFn = inngest.createFunction(
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     try {
-      // Step 1: Fetch data from Airtable
+      // Step 1: Load the user's field mapping and check it against the table
+      const mappingResult = await step.run("load-field-mapping", async () => {
+        const { data, error } = await supabase
+          .from('user_settings')
+          .select('settings')
+          .eq('id', userId)
+          .single();
+        
+        if (error) {
+          logger.error("Failed to load user settings", error);
+          throw error;
+        }
+        
+        const settings = data?.settings as UserSettings | null;
+        const fieldMapping = resolveAirtableFieldMapping(settings?.integrations?.airtable?.fieldMapping);
+        
+        let problems: string[] = [];
+        try {
+          const apiKey = await requireIntegrationCredential(userId, 'airtable', supabase);
+          const table = await fetchAirtableTableSchema(apiKey, baseId, tableId);
+          problems = validateAirtableFieldMapping(fieldMapping, table);
+        } catch (error) {
+          // Tokens created before field mappings may lack the schema.bases:read scope;
+          // missing fields then just leave records to be skipped below
+          if (error instanceof AirtableApiError && (error.status === 401 || error.status === 403)) {
+            logger.warn("Could not read the Airtable table schema, importing without checking the field mapping", {
+              error: error.message
+            });
+          } else {
+            throw error;
+          }
+        }
+        
+        logger.info("Using Airtable field mapping", fieldMapping);
+        return { fieldMapping, problems };
+      });
+      
+      if (mappingResult.problems.length > 0) {
+        logger.error("Airtable field mapping does not match the table", mappingResult.problems);
+        return markAsError({
+          success: false,
+          error: `Airtable field mapping does not match the table: ${mappingResult.problems.join('; ')}`,
+          importedRecords: 0
+        });
+      }
+      
+      const mapping = mappingResult.fieldMapping;
+      
+      // Step 2: Fetch data from Airtable
       const airtableResult = await step.run("fetch-data-from-airtable", async () => {
         logger.info(`Fetching data from Airtable: base ${baseId}, table ${tableId}`);
         
         const url = `https://api.airtable.com/v0/${baseId}/${tableId}`;
+        const apiKey = await requireIntegrationCredential(userId, 'airtable', supabase);
         
         try {
           // Get first page of records
@@ -181,7 +210,7 @@ export const airtableImportSparksFn = inngest.createFunction(
       
       logger.info(`Successfully fetched ${airtableResult.records.length} records from Airtable`);
       
-      // Step 2: Process and transform data
+      // Step 3: Process and transform data
       const processResult = await step.run("process-airtable-data", async () => {
         logger.info("Processing Airtable data");
         
@@ -195,62 +224,45 @@ export const airtableImportSparksFn = inngest.createFunction(
           const fields = record.fields;
           
           // Validate uid field - required for deduplication
-          if (!fields.uid || typeof fields.uid !== 'string' || fields.uid.trim().length === 0) {
+          const [uid] = readAirtableCellValues(fields[mapping.uid]);
+          if (!uid) {
             skippedNoUid++;
-            logger.debug(`Skipping record ${record.id}: missing or empty uid`);
+            logger.debug(`Skipping record ${record.id}: missing or empty ${mapping.uid}`);
             return null;
           }
           
           // Validate content field
-          if (!fields.content || typeof fields.content !== 'string' || fields.content.trim().length === 0) {
+          const content = readAirtableCellValues(fields[mapping.content]).join('\n');
+          if (!content) {
             skippedNoContent++;
             return null;
           }
           
-          // Validate Categories field - required (comes as array of IDs)
-          // Use "Name (from Categories)" to get the actual category name
-          const categoryNames = fields["Name (from Categories)"];
-          if (!categoryNames || !Array.isArray(categoryNames) || categoryNames.length === 0) {
+          // Only the first category is used; a spark has one category from an import
+          const [categoryName] = mapping.categories ? readAirtableCellValues(fields[mapping.categories]) : [];
+          if (!categoryName && mapping.requireCategory) {
             skippedNoCategory++;
             logger.debug(`Skipping record ${record.id}: missing or empty category name`);
             return null;
           }
           
-          // Get the first category name (should only be one)
-          const categoryName = categoryNames[0];
-          if (!categoryName || typeof categoryName !== 'string' || categoryName.trim().length === 0) {
-            skippedNoCategory++;
-            logger.debug(`Skipping record ${record.id}: invalid category name`);
-            return null;
-          }
-          
-          // Validate Tags field - must have at least one tag
-          // Use "Name (from Tags)" to get actual tag names
-          const tagNames = fields["Name (from Tags)"];
-          if (!tagNames || !Array.isArray(tagNames) || tagNames.length === 0) {
+          const tagNames = mapping.tags ? readAirtableCellValues(fields[mapping.tags]) : [];
+          if (tagNames.length === 0 && mapping.requireTags) {
             skippedNoTags++;
             logger.debug(`Skipping record ${record.id}: no valid tags`);
             return null;
           }
           
-          const validTags = tagNames.filter(tag => typeof tag === 'string' && tag.trim().length > 0);
-          
-          if (validTags.length === 0) {
-            skippedNoTags++;
-            logger.debug(`Skipping record ${record.id}: no valid tag names`);
-            return null;
-          }
-          
           // Create a consistent record structure with cleaned content
           return {
             airtable_id: record.id,
-            md5_uid: fields.uid.trim(),
+            md5_uid: uid,
             user_id: userId,
-            body: cleanSparkContent(fields.content.trim()),
-            category: categoryName.trim(),
-            tags: validTags,
-            todo_id: fields.toDoId || null,
-            todo_created_at: fields.originallyCreated || null,
+            body: applyTextReplacements(content, mapping.replacements),
+            category: categoryName || null,
+            tags: Array.from(new Set(tagNames)),
+            todo_id: mapping.todoId ? readAirtableCellValues(fields[mapping.todoId])[0] || null : null,
+            todo_created_at: mapping.createdAt ? readAirtableCellValues(fields[mapping.createdAt])[0] || null : null,
           };
         }).filter(record => record !== null);
         
@@ -276,7 +288,7 @@ export const airtableImportSparksFn = inngest.createFunction(
         };
       });
       
-      // Step 3: Check for existing sparks and filter out duplicates
+      // Step 4: Check for existing sparks and filter out duplicates
       const deduplicationResult = await step.run("check-for-duplicates", async () => {
         const records = processResult.records;
         logger.info(`Checking for duplicates among ${records.length} records`);
@@ -329,7 +341,7 @@ export const airtableImportSparksFn = inngest.createFunction(
         };
       });
       
-      // Step 4: Import new sparks to Supabase
+      // Step 5: Import new sparks to Supabase
       const importResult = await step.run("import-to-supabase", async () => {
         const records = deduplicationResult.newRecords;
         logger.info(`Importing ${records.length} new records to Supabase`);
@@ -345,7 +357,7 @@ export const airtableImportSparksFn = inngest.createFunction(
         }
         
         let importedCount = 0;
-        const importedSparks: Array<{ sparkId: string; category: string; tags: string[] }> = [];
+        const importedSparks: Array<{ sparkId: string; category: string | null; tags: string[] }> = [];
         
         // Import records one by one to handle categories and tags
         for (const record of records) {
@@ -405,7 +417,7 @@ export const airtableImportSparksFn = inngest.createFunction(
         };
       });
       
-      // Step 5: Handle categories and tags
+      // Step 6: Handle categories and tags
       const categorizationResult = await step.run("add-categories-and-tags", async () => {
         const sparks = importResult.importedSparks;
         logger.info(`Adding categories and tags for ${sparks.length} sparks`);
@@ -423,55 +435,58 @@ export const airtableImportSparksFn = inngest.createFunction(
         
         for (const spark of sparks) {
           try {
-            // Get or create category
-            const categorySlug = spark.category.toLowerCase().replace(/\s+/g, '-');
+            // Get or create category, unless the record had none
+            if (spark.category) {
+              const categorySlug = spark.category.toLowerCase().replace(/\s+/g, '-');
             
-            let categoryId: string | null = null;
-            
-            // Try to find existing category
-            const { data: existingCategories } = await supabase
-              .from('categories')
-              .select('id')
-              .eq('slug', categorySlug)
-              .eq('user_id', userId)
-              .limit(1);
+              let categoryId: string | null = null;
             
-            if (existingCategories && existingCategories.length > 0) {
-              categoryId = existingCategories[0].id;
-            } else {
-              // Create new category
-              const { data: newCategory, error: categoryError } = await supabase
+              // Try to find existing category
+              const { data: existingCategories } = await supabase
                 .from('categories')
-                .insert({
-                  name: spark.category,
-                  slug: categorySlug,
-                  user_id: userId
-                })
                 .select('id')
-                .single();
-              
-              if (newCategory) {
-                categoryId = newCategory.id;
-                newCategories.push(spark.category);
-                logger.info(`Created new category: ${spark.category}`);
+                .eq('slug', categorySlug)
+                .eq('user_id', userId)
+                .limit(1);
+            
+              if (existingCategories && existingCategories.length > 0) {
+                categoryId = existingCategories[0].id;
               } else {
-                logger.error(`Failed to create category ${spark.category}:`, categoryError);
+                // Create new category
+                const { data: newCategory, error: categoryError } = await supabase
+                  .from('categories')
+                  .insert({
+                    name: spark.category,
+                    slug: categorySlug,
+                    user_id: userId
+                  })
+                  .select('id')
+                  .single();
+              
+                if (newCategory) {
+                  categoryId = newCategory.id;
+                  newCategories.push(spark.category);
+                  logger.info(`Created new category: ${spark.category}`);
+                } else {
+                  logger.error(`Failed to create category ${spark.category}:`, categoryError);
+                }
               }
-            }
             
-            // Link spark to category
-            if (categoryId) {
-              const { error: junctionError } = await supabase
-                .from('spark_categories')
-                .insert({
-                  spark_id: spark.sparkId,
-                  category_id: categoryId,
-                  created_by: 'airtable-import'
-                });
+              // Link spark to category
+              if (categoryId) {
+                const { error: junctionError } = await supabase
+                  .from('spark_categories')
+                  .insert({
+                    spark_id: spark.sparkId,
+                    category_id: categoryId,
+                    created_by: 'airtable-import'
+                  });
               
-              if (junctionError) {
-                logger.error(`Failed to link spark ${spark.sparkId} to category:`, junctionError);
+                if (junctionError) {
+                  logger.error(`Failed to link spark ${spark.sparkId} to category:`, junctionError);
+                }
               }
+            
             }
             
             // Process tags
@@ -546,15 +561,15 @@ export const airtableImportSparksFn = inngest.createFunction(
         };
       });
       
-      // Step 6: Update import status in user settings
+      // Step 7: Update import status in user settings
       await step.run("update-import-status", async () => {
         logger.info("Updating import status in user settings");
         
         // First get current settings
-        const { data: currentSettings, error: getError } = await supabase
+        const { data: currentRow, error: getError } = await supabase
           .from('user_settings')
-          .select('integrations')
-          .eq('user_id', userId)
+          .select('settings')
+          .eq('id', userId)
           .single();
         
         if (getError) {
@@ -563,7 +578,9 @@ export const airtableImportSparksFn = inngest.createFunction(
         }
         
         // Merge existing settings with new import info
+        const currentSettings = (currentRow?.settings || {}) as UserSettings & Record<string, any>;
         const updatedSettings = {
+          ...currentSettings,
           integrations: {
             ...(currentSettings?.integrations || {}),
             airtable: {
@@ -588,8 +605,8 @@ export const airtableImportSparksFn = inngest.createFunction(
         // Update settings
         const { error } = await supabase
           .from('user_settings')
-          .update(updatedSettings)
-          .eq('user_id', userId);
+          .update({ settings: updatedSettings })
+          .eq('id', userId);
           
         if (error) {
           logger.error("Failed to update import status", error);
@@ -599,6 +616,25 @@ export const airtableImportSparksFn = inngest.createFunction(
         return { success: true };
       });
       
+      // Run the user's automation rules on what this sync imported
+      await step.run("queue-automation-rules", async () => {
+        if (importResult.importedCount === 0) {
+          return { queued: false };
+        }
+        
+        await inngest.send({
+          name: "automations/run-rules",
+          data: {
+            userId,
+            target: 'spark',
+            since: new Date(event.ts ?? Date.now()).toISOString(),
+            trigger: "airtable-import-sparks"
+          }
+        });
+        
+        return { queued: true };
+      });
+      
       // Final log and return
       logger.info("Airtable import completed successfully", {
         totalRecords: airtableResult.records.length,
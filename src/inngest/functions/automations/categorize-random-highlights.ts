@@ -1,25 +1,31 @@
 import { inngest } from "../../../inngest/client";
-import { getRepositories, getServerRepositories } from "@/repositories";
-import { Resource, ResourceType } from "@/lib/categorization/types";
+import { getServerRepositories } from "@/repositories";
+import { ActionData } from "@/lib/categorization/types";
+import {
+  buildSuggestionActions,
+  generateCategorizationSuggestions,
+  SuggestionHighlight,
+  SuggestionVocabularyItem,
+  toSuggestionHighlight
+} from "@/lib/categorization/ai-suggestions";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
-import { HighlightWithRelations } from "@/lib/types";
+import { notifyPendingAutomation } from "@/lib/notifications";
+import { createServerClient } from "@/lib/supabase";
 
-interface HighlightResult {
-  id: string;
-  rw_text: string;
-  book_id: string;
-}
+// Number of random highlights sent to the model per run
+const HIGHLIGHT_COUNT = 5;
 
 interface SelectHighlightsResult {
-  highlights: HighlightResult[];
+  highlights: SuggestionHighlight[];
   success: boolean;
   error?: string;
 }
 
-interface CategoryCheckResult {
-  categoryExists: boolean;
-  categoryId?: string;
+interface SuggestActionsResult {
+  actions: ActionData[];
+  suggestionsCount: number;
   success: boolean;
+  error?: string;
 }
 
 interface AutomationSuccessResult {
@@ -33,44 +39,13 @@ interface AutomationErrorResult {
   success: false;
 }
 
-type AutomationResult = AutomationSuccessResult | AutomationErrorResult;
-
-// Use the JSONB format action data types
-interface AutomationAction {
-  action_data: CreateCategoryAction | AddCategoryAction;
-}
-
-interface CreateCategoryAction {
-  action: 'create_category';
-  category_name: string;
-}
-
-interface AddCategoryAction {
-  action: 'add_category';
-  target: ResourceType;
-  target_id: string;
-  category_id: string;
-  category_name?: string;
-}
-
-// Function to ensure type safety when accessing highlightsResult.error
-function getErrorMessage(result: SelectHighlightsResult): string {
-  if (!result.success) {
-    return result.error || "Failed to select highlights";
-  }
-  
-  if (result.highlights.length === 0) {
-    return "No highlights found for this user";
-  }
-  
-  return "Unknown error";
-}
-
-// Function to safely get the category ID with fallback
-function getCategoryId(result: CategoryCheckResult): string {
-  return (result.categoryExists && result.categoryId) ? result.categoryId : '';
-}
-
+/**
+ * Suggests categories for random highlights with an LLM and queues them as a pending automation
+ *
+ * The model sees highlight text, book metadata and the user's existing categories, so it reuses
+ * their vocabulary. Each action records the model's confidence and rationale for review
+ * on the automations page; nothing is applied until the automation is approved.
+ */
 export const categorizeRandomHighlights = inngest.createFunction(
   { id: "categorize-random-highlights" },
   { event: "automations/categorize-random-highlights" },
@@ -86,48 +61,29 @@ export const categorizeRandomHighlights = inngest.createFunction(
         });
       }
 
-      logger.info("Starting categorize random highlights automation", { userId });
-
-      // Step 1: Check if category exists or create it
-      const categoryCheckResult = await step.run("check-category-exists", async () => {
-        logger.info("Checking if category exists");
-        const repos = getServerRepositories();
-        
-        // Search by slug, but keep both proper category name and slug
-        const existingCategory = await repos.categories.findCategoryByName('Automation Test', userId);
-        if (existingCategory.data) {
-          return {
-            categoryExists: true,
-            categoryId: existingCategory.data.id,
-            success: true
-          } as CategoryCheckResult;
-        }
-        
-        return {
-          categoryExists: false,
-          success: true
-        } as CategoryCheckResult;
-      });
-
-      if (!categoryCheckResult.success) {
-        logger.error("Failed to check category existence");
-        return markAsError({ 
-          success: false, 
-          error: "Failed to check category existence"
+      if (!process.env.OPENAI_API_KEY) {
+        logger.error("OPENAI_API_KEY environment variable not set");
+        return markAsError({
+          success: false,
+          error: "OPENAI_API_KEY not configured"
         });
       }
 
-      // Step 2: Select random highlights - replaced RPC with repository method
+      logger.info("Starting AI category suggestions for random highlights", { userId });
+
+      // Step 1: Select random highlights with their book metadata
       const highlightsResult = await step.run("select-random-highlights", async () => {
         logger.info("Selecting random highlights");
-        
+
         try {
           const repos = getServerRepositories();
-          // Use the repository method to get random highlights with explicit userId
-          const randomHighlights = await repos.highlights.getRandomHighlights(5, userId);
-          
-          // Check if any highlights were found
-          if (!randomHighlights || randomHighlights.length === 0) {
+          const randomHighlights = await repos.highlights.getRandomHighlights(HIGHLIGHT_COUNT, userId);
+
+          const highlights = randomHighlights
+            .map(toSuggestionHighlight)
+            .filter(highlight => highlight.text.trim().length > 0);
+
+          if (highlights.length === 0) {
             logger.warn("No highlights found for user");
             return {
               highlights: [],
@@ -135,112 +91,115 @@ export const categorizeRandomHighlights = inngest.createFunction(
               error: "No highlights found for this user"
             } as SelectHighlightsResult;
           }
-          
-          // Map to the expected format
-          const mappedHighlights = randomHighlights.map(highlight => ({
-            id: highlight.id,
-            rw_text: highlight.rw_text || '',
-            book_id: highlight.book_id
-          }));
-          
-          logger.info(`Selected ${mappedHighlights.length} random highlights`);
-          
+
+          logger.info(`Selected ${highlights.length} random highlights`);
+
           return {
-            highlights: mappedHighlights,
+            highlights,
             success: true
           } as SelectHighlightsResult;
         } catch (error) {
           logger.error("Error selecting random highlights:", error);
           return {
-            highlights: [] as HighlightResult[],
+            highlights: [],
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error selecting highlights'
           } as SelectHighlightsResult;
         }
       });
 
-      if (!highlightsResult.success || highlightsResult.highlights.length === 0) {
-        const errorMsg = getErrorMessage(highlightsResult);
+      if (!highlightsResult.success) {
         logger.error("Failed to select highlights or no highlights found");
-        return markAsError({ 
-          success: false, 
-          error: errorMsg
+        return markAsError({
+          success: false,
+          error: highlightsResult.error || "Failed to select highlights"
+        });
+      }
+
+      // Step 2: Load the user's existing categories so suggestions reuse them
+      const vocabulary = await step.run("load-category-vocabulary", async () => {
+        const repos = getServerRepositories();
+        const categories = await repos.categories.getCategories(userId);
+
+        return categories.map(category => ({ id: category.id, name: category.name })) as SuggestionVocabularyItem[];
+      });
+
+      // Step 3: Ask the model for suggestions and turn them into automation actions
+      const suggestResult = await step.run("generate-category-suggestions", async () => {
+        logger.info("Requesting category suggestions", {
+          highlights: highlightsResult.highlights.length,
+          existingCategories: vocabulary.length
+        });
+
+        try {
+          const suggestions = await generateCategorizationSuggestions(
+            'categories',
+            highlightsResult.highlights,
+            vocabulary
+          );
+
+          return {
+            actions: buildSuggestionActions('categories', suggestions, vocabulary),
+            suggestionsCount: suggestions.length,
+            success: true
+          } as SuggestActionsResult;
+        } catch (error) {
+          logger.error("Error generating category suggestions:", error);
+          return {
+            actions: [],
+            suggestionsCount: 0,
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error generating suggestions'
+          } as SuggestActionsResult;
+        }
+      });
+
+      if (!suggestResult.success) {
+        return markAsError({
+          success: false,
+          error: suggestResult.error || "Failed to generate category suggestions"
         });
       }
 
-      // Step 3: Create a context automation for applying the category
+      if (suggestResult.actions.length === 0) {
+        logger.info("Model returned no confident category suggestions");
+        return markAsLastStep({
+          success: true,
+          automationId: null,
+          highlightsCount: highlightsResult.highlights.length,
+          message: "No confident category suggestions for the selected highlights"
+        });
+      }
+
+      // Step 4: Create a pending automation for review
       const createAutomationResult = await step.run("create-context-automation", async () => {
-        logger.info("Creating context automation for categorizing highlights");
-        
+        logger.info("Creating context automation for suggested categories");
+
         try {
           const repos = getServerRepositories();
-          
-          // Build list of actions for this automation
-          const actions: AutomationAction[] = [];
-          const selectedHighlights = highlightsResult.highlights;
-          
-          // If category doesn't exist, add action to create it
-          if (!categoryCheckResult.categoryExists) {
-            actions.push({
-              action_data: {
-                action: 'create_category',
-                category_name: 'Automation Test'
-              }
-            });
-          }
-          
-          // Add actions to categorize each highlight
-          for (const highlight of selectedHighlights) {
-            if (!highlight || !highlight.id) continue;
-            
-            if (categoryCheckResult.categoryExists && categoryCheckResult.categoryId) {
-              // If category exists, use its ID
-              actions.push({
-                action_data: {
-                  action: 'add_category',
-                  target: 'highlight',
-                  target_id: highlight.id,
-                  category_id: categoryCheckResult.categoryId
-                }
-              });
-            } else {
-              // If category doesn't exist yet, use its name instead
-              // We still need to provide category_id for type compatibility, but we'll use category_name for processing
-              actions.push({
-                action_data: {
-                  action: 'add_category',
-                  target: 'highlight',
-                  target_id: highlight.id,
-                  category_id: '', // Empty string for compatibility
-                  category_name: 'Automation Test'
-                }
-              });
-            }
-          }
-          
-          // Create the automation using the repository
+
           const automation = await repos.automations.createAutomation({
             userId,
-            name: "Random Highlight Categorization",
-            source: 'system'
+            name: "AI Highlight Categorization",
+            source: 'ai'
           });
-          
-          // Create automation actions using the repository
-          for (const action of actions) {
+
+          // Create actions are ordered first so the approve route can resolve new category names
+          for (const actionData of suggestResult.actions) {
             await repos.automations.createAutomationAction({
               automationId: automation.id,
-              action_data: action.action_data
+              action_data: actionData
             });
           }
-          
-          return { 
+
+          return {
             automationId: automation.id,
-            actionsCount: actions.length,
+            actionsCount: suggestResult.actions.length,
             success: true as const
           } satisfies AutomationSuccessResult;
         } catch (error) {
           logger.error("Error creating automation:", error);
-          return { 
+          return {
             success: false as const,
             error: error instanceof Error ? error.message : "Unknown error creating automation"
           } satisfies AutomationErrorResult;
@@ -249,12 +208,21 @@ export const categorizeRandomHighlights = inngest.createFunction(
 
       if (!createAutomationResult.success) {
         logger.error("Failed to create context automation");
-        return markAsError({ 
-          success: false, 
+        return markAsError({
+          success: false,
           error: createAutomationResult.error
         });
       }
 
+      // Step 5: Let the user know it's waiting for review
+      await step.run("notify-pending-automation", async () => {
+        await notifyPendingAutomation(createServerClient(), userId, {
+          id: createAutomationResult.automationId,
+          name: "AI Highlight Categorization",
+          actionsCount: createAutomationResult.actionsCount
+        });
+      });
+
       logger.info("Successfully created context automation", {
         automationId: createAutomationResult.automationId,
         actionsCount: createAutomationResult.actionsCount,
@@ -265,8 +233,8 @@ export const categorizeRandomHighlights = inngest.createFunction(
         success: true,
         automationId: createAutomationResult.automationId,
         highlightsCount: highlightsResult.highlights.length,
-        categoryExists: categoryCheckResult.categoryExists,
-        message: `Created context automation to categorize ${highlightsResult.highlights.length} random highlights with "Automation Test" category`
+        suggestionsCount: suggestResult.suggestionsCount,
+        message: `Created context automation with ${suggestResult.suggestionsCount} category suggestions for ${highlightsResult.highlights.length} random highlights`
       });
     } catch (error) {
       logger.error("Error in categorize random highlights function:", error);
@@ -276,4 +244,4 @@ export const categorizeRandomHighlights = inngest.createFunction(
       });
     }
   }
-); 
\ No newline at end of file
+);
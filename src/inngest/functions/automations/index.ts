@@ -1,2 +1,3 @@
 export { tagRandomHighlights } from './tag-random-highlights';
-export { categorizeRandomHighlights } from './categorize-random-highlights'; 
\ No newline at end of file
+export { categorizeRandomHighlights } from './categorize-random-highlights'; 
+export { runAutomationRulesFn } from './run-automation-rules';
@@ -0,0 +1,143 @@
+import { inngest } from "../../client";
+import { getServerRepositories } from "@/repositories";
+import { createRuleAutomation, evaluateRuleAgainstLibrary } from "@/lib/categorization";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { notifyPendingAutomation } from "@/lib/notifications";
+import { createServerClient } from "@/lib/supabase";
+
+interface RuleRunResult {
+  ruleId: string;
+  scanned: number;
+  matched: number;
+  actionsCount: number;
+  automationId: string | null;
+  pending?: boolean;
+  error?: string;
+}
+
+/**
+ * Runs the user's enabled automation rules for one resource type after a sync
+ *
+ * Sent by readwise-sync-highlights (highlights), readwise-sync-books (books) and
+ * airtable-import-sparks (sparks) with `since` set to when the sync started, so only
+ * resources it created or updated are evaluated. Each rule runs in its own step; a
+ * failing rule doesn't stop the others.
+ */
+export const runAutomationRulesFn = inngest.createFunction(
+  {
+    id: "run-automation-rules",
+    // Rules for the same user run one sync at a time so they don't queue duplicate actions
+    concurrency: {
+      limit: 1,
+      key: "event.data.userId"
+    }
+  },
+  { event: "automations/run-rules" },
+  async ({ event, step, logger }) => {
+    const { userId, target, since, trigger } = event.data;
+
+    if (!userId || !target) {
+      logger.error("Missing userId or target in event data");
+      return markAsError({
+        success: false,
+        error: "Missing userId or target in event data"
+      });
+    }
+
+    try {
+      // Step 1: Load the enabled rules for this resource type
+      const rules = await step.run("load-rules", async () => {
+        const repos = getServerRepositories();
+        return repos.automationRules.getRules({ enabledOnly: true, target }, userId);
+      });
+
+      if (rules.length === 0) {
+        logger.info("No enabled rules for target", { userId, target, trigger });
+        return markAsLastStep({
+          success: true,
+          rulesCount: 0,
+          automationsCount: 0
+        });
+      }
+
+      logger.info(`Running ${rules.length} automation rules`, { userId, target, trigger, since });
+
+      // Step 2: Evaluate each rule and record its matches as an automation
+      const results: RuleRunResult[] = [];
+
+      for (const rule of rules) {
+        const result = await step.run(`run-rule-${rule.id}`, async (): Promise<RuleRunResult> => {
+          const repos = getServerRepositories();
+
+          try {
+            const evaluation = await evaluateRuleAgainstLibrary(rule, repos, { since, userId });
+            const automation = await createRuleAutomation(rule, evaluation, getServerRepositories);
+
+            if (automation && !automation.success) {
+              throw new Error(automation.error || "Failed to create automation");
+            }
+
+            await repos.automationRules.markRuleRun(rule.id);
+
+            return {
+              ruleId: rule.id,
+              scanned: evaluation.scanned,
+              matched: evaluation.matched.length,
+              actionsCount: evaluation.actions.length,
+              automationId: automation?.automationId ?? null,
+              pending: automation?.status === 'pending'
+            };
+          } catch (error) {
+            logger.error(`Error running rule ${rule.id}:`, error);
+            return {
+              ruleId: rule.id,
+              scanned: 0,
+              matched: 0,
+              actionsCount: 0,
+              automationId: null,
+              error: error instanceof Error ? error.message : "Unknown error"
+            };
+          }
+        });
+
+        results.push(result);
+      }
+
+      const failed = results.filter(result => result.error);
+      const automationsCount = results.filter(result => result.automationId).length;
+
+      // Step 3: Let the user know about automations from untrusted rules waiting for review
+      const pending = results.filter(result => result.pending && result.automationId);
+      if (pending.length > 0) {
+        await step.run("notify-pending-automations", async () => {
+          const first = rules.find(rule => rule.id === pending[0].ruleId);
+          await notifyPendingAutomation(createServerClient(), userId, {
+            id: pending[0].automationId!,
+            name: pending.length === 1 ? `Rule "${first?.name}"` : `${pending.length} automation rules`,
+            actionsCount: pending.reduce((sum, result) => sum + result.actionsCount, 0)
+          });
+        });
+      }
+
+      logger.info("Automation rules finished", {
+        rulesCount: rules.length,
+        automationsCount,
+        failedCount: failed.length
+      });
+
+      return markAsLastStep({
+        success: failed.length === 0,
+        rulesCount: rules.length,
+        automationsCount,
+        results,
+        ...(failed.length > 0 && { error: `${failed.length} of ${rules.length} rules failed: ${failed[0].error}` })
+      });
+    } catch (error) {
+      logger.error("Error running automation rules:", error);
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  }
+);
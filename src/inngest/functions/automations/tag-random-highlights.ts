@@ -1,25 +1,31 @@
 import { inngest } from "../../../inngest/client";
-import { getRepositories, getServerRepositories } from "@/repositories";
-import { Resource, ResourceType } from "@/lib/categorization/types";
+import { getServerRepositories } from "@/repositories";
+import { ActionData } from "@/lib/categorization/types";
+import {
+  buildSuggestionActions,
+  generateCategorizationSuggestions,
+  SuggestionHighlight,
+  SuggestionVocabularyItem,
+  toSuggestionHighlight
+} from "@/lib/categorization/ai-suggestions";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
-import { HighlightWithRelations } from "@/lib/types";
+import { notifyPendingAutomation } from "@/lib/notifications";
+import { createServerClient } from "@/lib/supabase";
 
-interface HighlightResult {
-  id: string;
-  rw_text: string;
-  book_id: string;
-}
+// Number of random highlights sent to the model per run
+const HIGHLIGHT_COUNT = 5;
 
 interface SelectHighlightsResult {
-  highlights: HighlightResult[];
+  highlights: SuggestionHighlight[];
   success: boolean;
   error?: string;
 }
 
-interface TagCheckResult {
-  tagExists: boolean;
-  tagId?: string;
+interface SuggestActionsResult {
+  actions: ActionData[];
+  suggestionsCount: number;
   success: boolean;
+  error?: string;
 }
 
 interface AutomationSuccessResult {
@@ -33,44 +39,13 @@ interface AutomationErrorResult {
   success: false;
 }
 
-type AutomationResult = AutomationSuccessResult | AutomationErrorResult;
-
-// Use the JSONB format action data types
-interface AutomationAction {
-  action_data: CreateTagAction | AddTagAction;
-}
-
-interface CreateTagAction {
-  action: 'create_tag';
-  tag_name: string;
-}
-
-interface AddTagAction {
-  action: 'add_tag';
-  target: ResourceType;
-  target_id: string;
-  tag_id: string;
-  tag_name?: string;
-}
-
-// Function to ensure type safety when accessing highlightsResult.error
-function getErrorMessage(result: SelectHighlightsResult): string {
-  if (!result.success) {
-    return result.error || "Failed to select highlights";
-  }
-  
-  if (result.highlights.length === 0) {
-    return "No highlights found for this user";
-  }
-  
-  return "Unknown error";
-}
-
-// Function to safely get the tag ID with fallback
-function getTagId(result: TagCheckResult): string {
-  return (result.tagExists && result.tagId) ? result.tagId : '';
-}
-
+/**
+ * Suggests tags for random highlights with an LLM and queues them as a pending automation
+ *
+ * The model sees highlight text, book metadata and the user's existing tags, so it reuses
+ * their vocabulary. Each action records the model's confidence and rationale for review
+ * on the automations page; nothing is applied until the automation is approved.
+ */
 export const tagRandomHighlights = inngest.createFunction(
   { id: "tag-random-highlights" },
   { event: "automations/tag-random-highlights" },
@@ -86,47 +61,29 @@ export const tagRandomHighlights = inngest.createFunction(
         });
       }
 
-      logger.info("Starting tag random highlights automation", { userId });
-
-      // Step 1: Check if tag exists or create it
-      const tagCheckResult = await step.run("check-tag-exists", async () => {
-        logger.info("Checking if tag exists");
-        const repos = getServerRepositories();
-        
-        const existingTag = await repos.categorization.findTagByName('automation-test', userId);
-        if (existingTag.data) {
-          return {
-            tagExists: true,
-            tagId: existingTag.data.id,
-            success: true
-          } as TagCheckResult;
-        }
-        
-        return {
-          tagExists: false,
-          success: true
-        } as TagCheckResult;
-      });
-
-      if (!tagCheckResult.success) {
-        logger.error("Failed to check tag existence");
-        return markAsError({ 
-          success: false, 
-          error: "Failed to check tag existence"
+      if (!process.env.OPENAI_API_KEY) {
+        logger.error("OPENAI_API_KEY environment variable not set");
+        return markAsError({
+          success: false,
+          error: "OPENAI_API_KEY not configured"
         });
       }
 
-      // Step 2: Select random highlights - replaced RPC with repository method
+      logger.info("Starting AI tag suggestions for random highlights", { userId });
+
+      // Step 1: Select random highlights with their book metadata
       const highlightsResult = await step.run("select-random-highlights", async () => {
         logger.info("Selecting random highlights");
-        
+
         try {
           const repos = getServerRepositories();
-          // Use the repository method to get random highlights with explicit userId
-          const randomHighlights = await repos.highlights.getRandomHighlights(5, userId);
-          
-          // Check if any highlights were found
-          if (!randomHighlights || randomHighlights.length === 0) {
+          const randomHighlights = await repos.highlights.getRandomHighlights(HIGHLIGHT_COUNT, userId);
+
+          const highlights = randomHighlights
+            .map(toSuggestionHighlight)
+            .filter(highlight => highlight.text.trim().length > 0);
+
+          if (highlights.length === 0) {
             logger.warn("No highlights found for user");
             return {
               highlights: [],
@@ -134,112 +91,115 @@ export const tagRandomHighlights = inngest.createFunction(
               error: "No highlights found for this user"
             } as SelectHighlightsResult;
           }
-          
-          // Map to the expected format
-          const mappedHighlights = randomHighlights.map(highlight => ({
-            id: highlight.id,
-            rw_text: highlight.rw_text || '',
-            book_id: highlight.book_id
-          }));
-          
-          logger.info(`Selected ${mappedHighlights.length} random highlights`);
-          
+
+          logger.info(`Selected ${highlights.length} random highlights`);
+
           return {
-            highlights: mappedHighlights,
+            highlights,
             success: true
           } as SelectHighlightsResult;
         } catch (error) {
           logger.error("Error selecting random highlights:", error);
           return {
-            highlights: [] as HighlightResult[],
+            highlights: [],
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error selecting highlights'
           } as SelectHighlightsResult;
         }
       });
 
-      if (!highlightsResult.success || highlightsResult.highlights.length === 0) {
-        const errorMsg = getErrorMessage(highlightsResult);
+      if (!highlightsResult.success) {
         logger.error("Failed to select highlights or no highlights found");
-        return markAsError({ 
-          success: false, 
-          error: errorMsg
+        return markAsError({
+          success: false,
+          error: highlightsResult.error || "Failed to select highlights"
+        });
+      }
+
+      // Step 2: Load the user's existing tags so suggestions reuse them
+      const vocabulary = await step.run("load-tag-vocabulary", async () => {
+        const repos = getServerRepositories();
+        const tags = await repos.tags.getTags(userId);
+
+        return tags.map(tag => ({ id: tag.id, name: tag.name })) as SuggestionVocabularyItem[];
+      });
+
+      // Step 3: Ask the model for suggestions and turn them into automation actions
+      const suggestResult = await step.run("generate-tag-suggestions", async () => {
+        logger.info("Requesting tag suggestions", {
+          highlights: highlightsResult.highlights.length,
+          existingTags: vocabulary.length
+        });
+
+        try {
+          const suggestions = await generateCategorizationSuggestions(
+            'tags',
+            highlightsResult.highlights,
+            vocabulary
+          );
+
+          return {
+            actions: buildSuggestionActions('tags', suggestions, vocabulary),
+            suggestionsCount: suggestions.length,
+            success: true
+          } as SuggestActionsResult;
+        } catch (error) {
+          logger.error("Error generating tag suggestions:", error);
+          return {
+            actions: [],
+            suggestionsCount: 0,
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error generating suggestions'
+          } as SuggestActionsResult;
+        }
+      });
+
+      if (!suggestResult.success) {
+        return markAsError({
+          success: false,
+          error: suggestResult.error || "Failed to generate tag suggestions"
         });
       }
 
-      // Step 3: Create a context automation for applying the tag
+      if (suggestResult.actions.length === 0) {
+        logger.info("Model returned no confident tag suggestions");
+        return markAsLastStep({
+          success: true,
+          automationId: null,
+          highlightsCount: highlightsResult.highlights.length,
+          message: "No confident tag suggestions for the selected highlights"
+        });
+      }
+
+      // Step 4: Create a pending automation for review
       const createAutomationResult = await step.run("create-context-automation", async () => {
-        logger.info("Creating context automation for tagging highlights");
-        
+        logger.info("Creating context automation for suggested tags");
+
         try {
           const repos = getServerRepositories();
-          
-          // Build list of actions for this automation
-          const actions: AutomationAction[] = [];
-          const selectedHighlights = highlightsResult.highlights;
-          
-          // If tag doesn't exist, add action to create it
-          if (!tagCheckResult.tagExists) {
-            actions.push({
-              action_data: {
-                action: 'create_tag',
-                tag_name: 'automation-test'
-              }
-            });
-          }
-          
-          // Add actions to tag each highlight
-          for (const highlight of selectedHighlights) {
-            if (!highlight || !highlight.id) continue;
-            
-            if (tagCheckResult.tagExists && tagCheckResult.tagId) {
-              // If tag exists, use its ID
-              actions.push({
-                action_data: {
-                  action: 'add_tag',
-                  target: 'highlight',
-                  target_id: highlight.id,
-                  tag_id: tagCheckResult.tagId
-                }
-              });
-            } else {
-              // If tag doesn't exist yet, use its name instead
-              // We still need to provide tag_id for type compatibility, but we'll use tag_name for processing
-              actions.push({
-                action_data: {
-                  action: 'add_tag',
-                  target: 'highlight',
-                  target_id: highlight.id,
-                  tag_id: '', // Empty string for compatibility
-                  tag_name: 'automation-test'
-                }
-              });
-            }
-          }
-          
-          // Create the automation using the repository
+
           const automation = await repos.automations.createAutomation({
             userId,
-            name: "Random Highlight Tagging",
-            source: 'system'
+            name: "AI Highlight Tagging",
+            source: 'ai'
           });
-          
-          // Create automation actions using the repository
-          for (const action of actions) {
+
+          // Create actions are ordered first so the approve route can resolve new tag names
+          for (const actionData of suggestResult.actions) {
             await repos.automations.createAutomationAction({
               automationId: automation.id,
-              action_data: action.action_data
+              action_data: actionData
             });
           }
-          
-          return { 
+
+          return {
             automationId: automation.id,
-            actionsCount: actions.length,
+            actionsCount: suggestResult.actions.length,
             success: true as const
           } satisfies AutomationSuccessResult;
         } catch (error) {
           logger.error("Error creating automation:", error);
-          return { 
+          return {
             success: false as const,
             error: error instanceof Error ? error.message : "Unknown error creating automation"
           } satisfies AutomationErrorResult;
@@ -248,12 +208,21 @@ export const tagRandomHighlights = inngest.createFunction(
 
       if (!createAutomationResult.success) {
         logger.error("Failed to create context automation");
-        return markAsError({ 
-          success: false, 
+        return markAsError({
+          success: false,
           error: createAutomationResult.error
         });
       }
 
+      // Step 5: Let the user know it's waiting for review
+      await step.run("notify-pending-automation", async () => {
+        await notifyPendingAutomation(createServerClient(), userId, {
+          id: createAutomationResult.automationId,
+          name: "AI Highlight Tagging",
+          actionsCount: createAutomationResult.actionsCount
+        });
+      });
+
       logger.info("Successfully created context automation", {
         automationId: createAutomationResult.automationId,
         actionsCount: createAutomationResult.actionsCount,
@@ -264,8 +233,8 @@ export const tagRandomHighlights = inngest.createFunction(
         success: true,
         automationId: createAutomationResult.automationId,
         highlightsCount: highlightsResult.highlights.length,
-        tagExists: tagCheckResult.tagExists,
-        message: `Created context automation to tag ${highlightsResult.highlights.length} random highlights with "automation-test" tag`
+        suggestionsCount: suggestResult.suggestionsCount,
+        message: `Created context automation with ${suggestResult.suggestionsCount} tag suggestions for ${highlightsResult.highlights.length} random highlights`
       });
     } catch (error) {
       logger.error("Error in tag random highlights function:", error);
@@ -275,4 +244,4 @@ export const tagRandomHighlights = inngest.createFunction(
       });
     }
   }
-); 
\ No newline at end of file
+);
@@ -0,0 +1 @@
+export { sendHighlightDigestFn, DIGEST_TASK_ID } from './send-highlight-digest';
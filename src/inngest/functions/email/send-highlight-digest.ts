@@ -0,0 +1,177 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { createClient } from "@supabase/supabase-js";
+import { getServerRepositories } from "@/repositories";
+import { sendHighlightDigestEmail } from "@/lib/email/sendEmail";
+import { DigestEmailHighlight } from "@/lib/email/templates/HighlightDigestEmail";
+import { DEFAULT_USER_SETTINGS, DigestSettings, HighlightWithRelations, UserSettings } from "@/lib/types";
+
+export const DIGEST_TASK_ID = "highlight-digest";
+
+// Keeps the email readable whatever is stored in settings
+const MAX_DIGEST_HIGHLIGHTS = 20;
+
+function highlightLink(appUrl: string, bookRwId: number | null | undefined): string {
+  return bookRwId ? `${appUrl}/highlights/${bookRwId}` : appUrl;
+}
+
+function fromHighlight(appUrl: string, highlight: HighlightWithRelations): DigestEmailHighlight {
+  return {
+    id: highlight.id,
+    text: highlight.rw_text || '',
+    note: highlight.rw_note,
+    bookTitle: highlight.book?.rw_title || 'Untitled',
+    bookAuthor: highlight.book?.rw_author,
+    link: highlightLink(appUrl, highlight.book?.rw_id)
+  };
+}
+
+/**
+ * Emails the user a handful of highlights, picked as configured in `settings.digest`:
+ * random ones, the ones due in their spaced-repetition review, or random ones from
+ * chosen categories
+ *
+ * Triggered by the scheduled tasks cron (task `highlight-digest`) or manually. Sending
+ * goes through the transport from `lib/email/transport`, so EMAIL_TRANSPORT=stub or smtp
+ * keeps test runs out of real inboxes.
+ */
+export const sendHighlightDigestFn = inngest.createFunction(
+  {
+    id: "send-highlight-digest",
+    concurrency: {
+      limit: 1,
+      key: "event.data.userId"
+    }
+  },
+  { event: "email/send-highlight-digest" },
+  async ({ event, step, logger }) => {
+    const { userId } = event.data;
+
+    if (!userId) {
+      logger.error("Missing userId in event data");
+      return markAsError({
+        success: false,
+        error: "Missing userId in event data"
+      });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error"
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+    try {
+      // Step 1: Load digest settings, creating the unsubscribe token on first send
+      const config = await step.run("load-digest-settings", async () => {
+        const { data, error } = await supabase
+          .from('user_settings')
+          .select('settings')
+          .eq('id', userId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+
+        const settings = (data?.settings || {}) as UserSettings;
+        const digest: DigestSettings = { ...DEFAULT_USER_SETTINGS.digest!, ...settings.digest };
+
+        if (!digest.unsubscribeToken) {
+          digest.unsubscribeToken = crypto.randomUUID();
+
+          const { error: updateError } = await supabase
+            .from('user_settings')
+            .update({ settings: { ...settings, digest } })
+            .eq('id', userId);
+
+          if (updateError) {
+            throw updateError;
+          }
+        }
+
+        return {
+          digest,
+          frequency: settings.scheduledTasks?.[DIGEST_TASK_ID]?.frequency
+        };
+      });
+
+      // Step 2: Pick the highlights
+      const highlights = await step.run("select-highlights", async () => {
+        const repos = getServerRepositories();
+        const { digest } = config;
+        const count = Math.min(Math.max(Math.round(digest.count) || 1, 1), MAX_DIGEST_HIGHLIGHTS);
+
+        if (digest.source === 'review') {
+          const queue = await repos.reviews.getReviewQueue({}, count, count, userId);
+          return queue.slice(0, count).map(item => ({
+            id: item.highlightId,
+            text: item.text || '',
+            note: item.note,
+            bookTitle: item.bookTitle || 'Untitled',
+            bookAuthor: item.bookAuthor,
+            link: highlightLink(appUrl, item.bookRwId)
+          }));
+        }
+
+        const selected = digest.source === 'categories'
+          ? await repos.highlights.getRandomHighlightsInCategories(digest.categoryIds || [], count, userId)
+          : await repos.highlights.getRandomHighlights(count, userId);
+
+        return selected.map(highlight => fromHighlight(appUrl, highlight));
+      });
+
+      const nonEmpty = highlights.filter(highlight => highlight.text.trim().length > 0);
+
+      if (nonEmpty.length === 0) {
+        logger.info("No highlights to send, skipping digest", { userId, source: config.digest.source });
+        return markAsLastStep({
+          success: true,
+          sent: false,
+          highlightsCount: 0,
+          message: "No highlights matched the digest settings"
+        });
+      }
+
+      // Step 3: Send it
+      await step.run("send-digest-email", async () => {
+        const { data, error } = await supabase.auth.admin.getUserById(userId);
+
+        if (error || !data.user?.email) {
+          throw new Error(`No email address found for user ${userId}`);
+        }
+
+        const period = config.frequency === 'weekly' ? 'weekly' : 'daily';
+
+        await sendHighlightDigestEmail(data.user.email, {
+          subject: `Your ${period} highlights`,
+          highlights: nonEmpty,
+          unsubscribeUrl: `${appUrl}/api/email/unsubscribe?token=${config.digest.unsubscribeToken}`,
+          settingsUrl: `${appUrl}/settings`
+        });
+      });
+
+      logger.info("Highlight digest sent", { userId, highlightsCount: nonEmpty.length });
+
+      return markAsLastStep({
+        success: true,
+        sent: true,
+        highlightsCount: nonEmpty.length
+      });
+    } catch (error) {
+      logger.error("Error sending highlight digest:", error);
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  }
+);
@@ -0,0 +1,213 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { createClient } from "@supabase/supabase-js";
+import { generateEmbeddingBatch } from "@/lib/openai";
+
+/**
+ * Batch size for processing sparks and notes at a time (per content type)
+ */
+const BATCH_SIZE = 250;
+
+/**
+ * OpenAI batch size - sending smaller batches for better reliability
+ */
+const OPENAI_BATCH_SIZE = 50;
+
+/**
+ * Content that needs an embedding, normalised across sparks and notes
+ */
+interface EmbeddableItem {
+  id: string;
+  text: string;
+}
+
+/**
+ * Tables embedded by this function and the text each row is embedded from
+ */
+const CONTENT_SOURCES = [
+  {
+    table: 'sparks',
+    select: 'id, body',
+    // PostgREST `or` filter for rows with any text to embed
+    hasText: 'body.not.is.null',
+    toText: (row: any): string => row.body || ''
+  },
+  {
+    table: 'notes',
+    select: 'id, title, content',
+    hasText: 'content.not.is.null,title.not.is.null',
+    // Include the title so a short note is still findable by its heading
+    toText: (row: any): string => [row.title, row.content].filter(Boolean).join('\n\n')
+  }
+] as const;
+
+/**
+ * Inngest function to generate embeddings for sparks and notes
+ *
+ * Companion to generate-highlight-embeddings so the unified search can rank
+ * all content types semantically. Rows whose text changes have their embedding
+ * cleared by a database trigger, so they are picked up again on the next run.
+ *
+ * PROCESS:
+ * 1. Fetch sparks and notes without embeddings, marking blank ones as skipped
+ * 2. Generate embeddings using OpenAI API
+ * 3. Update the database with the generated embeddings
+ */
+export const generateContentEmbeddingsFn = inngest.createFunction(
+  { id: "embeddings/generate-content-embeddings" },
+  { event: "embeddings/generate-content-embeddings" },
+  async ({ event, step, logger }) => {
+    const { userId } = event.data;
+
+    logger.info("Starting content embeddings generation", { userId });
+
+    if (!userId) {
+      logger.error("Missing user ID");
+      return markAsError({
+        success: false,
+        error: "Missing user ID",
+        processed: 0,
+        failed: 0
+      });
+    }
+
+    if (!process.env.OPENAI_API_KEY) {
+      logger.error("OPENAI_API_KEY environment variable not set");
+      return markAsError({
+        success: false,
+        error: "OPENAI_API_KEY not configured",
+        processed: 0,
+        failed: 0
+      });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error",
+        processed: 0,
+        failed: 0
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    try {
+      const summary: Record<string, { processed: number; failed: number }> = {};
+      let totalProcessed = 0;
+      let totalFailed = 0;
+
+      for (const source of CONTENT_SOURCES) {
+        // Step 1: Fetch rows that need embeddings
+        const items = await step.run(`fetch-${source.table}-without-embeddings`, async () => {
+          const { data, error } = await supabase
+            .from(source.table)
+            .select(source.select)
+            .eq('user_id', userId)
+            .is('embedding', null)
+            // Set without an embedding for rows skipped as blank, see below
+            .is('embedding_updated_at', null)
+            .or(source.hasText)
+            .order('updated_at', { ascending: false })
+            .limit(BATCH_SIZE);
+
+          if (error) {
+            logger.error(`Error fetching ${source.table}`, { error });
+            throw error;
+          }
+
+          logger.info(`Found ${data?.length || 0} ${source.table} to process`);
+
+          const rows = (data || []).map((row: any): EmbeddableItem => ({ id: row.id, text: source.toText(row) }));
+          const blankIds = rows.filter(item => item.text.trim().length === 0).map(item => item.id);
+
+          // Mark whitespace-only rows as handled so they don't take up every batch; the
+          // trigger clearing embeddings on text changes resets the mark once they get text
+          if (blankIds.length > 0) {
+            const { error: skipError } = await supabase
+              .from(source.table)
+              .update({ embedding_updated_at: new Date().toISOString() })
+              .in('id', blankIds)
+              .eq('user_id', userId);
+
+            if (skipError) {
+              logger.error(`Error marking blank ${source.table} as skipped`, { error: skipError });
+              throw skipError;
+            }
+
+            logger.info(`Skipped ${blankIds.length} blank ${source.table}`);
+          }
+
+          return rows.filter(item => item.text.trim().length > 0);
+        });
+
+        summary[source.table] = { processed: 0, failed: 0 };
+
+        // Step 2: Process embeddings in chunks (generate + update DB immediately)
+        const totalChunks = Math.ceil(items.length / OPENAI_BATCH_SIZE);
+
+        for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
+          const chunkResult = await step.run(`process-${source.table}-chunk-${chunkIndex + 1}`, async () => {
+            const chunk = items.slice(chunkIndex * OPENAI_BATCH_SIZE, (chunkIndex + 1) * OPENAI_BATCH_SIZE);
+
+            logger.info(`Processing ${source.table} chunk ${chunkIndex + 1}/${totalChunks} (${chunk.length} items)`);
+
+            const embeddings = await generateEmbeddingBatch(chunk.map(item => item.text));
+
+            let processed = 0;
+            let failed = 0;
+            const now = new Date().toISOString();
+
+            for (let i = 0; i < chunk.length; i++) {
+              const { error } = await supabase
+                .from(source.table)
+                .update({
+                  embedding: `[${embeddings[i].join(',')}]`,
+                  embedding_updated_at: now
+                })
+                .eq('id', chunk[i].id)
+                .eq('user_id', userId);
+
+              if (error) {
+                logger.error(`Error updating embedding for ${source.table} ${chunk[i].id}`, { error });
+                failed++;
+              } else {
+                processed++;
+              }
+            }
+
+            // Return only counts, not the actual embeddings (to avoid step output size limit)
+            return { processed, failed };
+          });
+
+          summary[source.table].processed += chunkResult.processed;
+          summary[source.table].failed += chunkResult.failed;
+        }
+
+        totalProcessed += summary[source.table].processed;
+        totalFailed += summary[source.table].failed;
+      }
+
+      return markAsLastStep({
+        success: true,
+        message: `Successfully processed ${totalProcessed} items, ${totalFailed} failed`,
+        processed: totalProcessed,
+        failed: totalFailed,
+        summary
+      });
+
+    } catch (error) {
+      logger.error("Error in generate-content-embeddings function", { error });
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        processed: 0,
+        failed: 0
+      });
+    }
+  }
+);
@@ -83,6 +83,7 @@ export const generateHighlightEmbeddingsFn = inngest.createFunction(
           .from('highlights')
           .select('id, rw_text, updated_at, embedding_updated_at')
           .eq('user_id', userId)
+          .is('deleted_at', null)
           .is('embedding', null)
           .not('rw_text', 'is', null)
           .order('updated_at', { ascending: false })
@@ -1,2 +1,3 @@
 export { generateHighlightEmbeddingsFn } from './generate-highlight-embeddings';
+export { generateContentEmbeddingsFn } from './generate-content-embeddings';
 
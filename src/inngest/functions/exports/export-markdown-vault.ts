@@ -0,0 +1,497 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import {
+  createZip,
+  dedupeFilePaths,
+  ExportFile,
+  ExportHighlight,
+  renderBook,
+  renderNote,
+  renderSpark
+} from "@/lib/export";
+import { uploadFile } from "@/lib/storage";
+
+const EXPORTS_BUCKET = "exports";
+
+// Books are rendered in batches, one step each, so a large library never has to fit
+// in a single step's time limit
+const BOOKS_PER_STEP = 25;
+const ROWS_PER_STEP = 500;
+
+// PostgREST caps rows per request, so book and highlight queries page through in this size
+const PAGE_SIZE = 1000;
+
+interface ChunkResult {
+  path: string | null;
+  fileCount: number;
+  itemCount: number;
+}
+
+function relationNames(rows: any[] | null | undefined, key: 'category' | 'tag'): string[] {
+  return (rows || [])
+    .map(row => row?.[key]?.name)
+    .filter((name): name is string => typeof name === 'string' && name.length > 0);
+}
+
+function relationNotes(rows: any[] | null | undefined): string[] {
+  return (rows || [])
+    .map(row => row?.notes?.content)
+    .filter((content): content is string => typeof content === 'string' && content.trim().length > 0);
+}
+
+/**
+ * Rendered files are handed from step to step through storage rather than step output,
+ * which has a size limit
+ */
+async function uploadChunk(
+  supabase: SupabaseClient,
+  basePath: string,
+  name: string,
+  files: ExportFile[]
+): Promise<string | null> {
+  if (files.length === 0) return null;
+
+  const path = `${basePath}/chunks/${name}.json`;
+  const { error } = await supabase.storage
+    .from(EXPORTS_BUCKET)
+    .upload(path, JSON.stringify(files), { contentType: 'application/json', upsert: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return path;
+}
+
+/**
+ * Exports the user's library as an Obsidian-compatible Markdown vault in a zip archive
+ *
+ * Layout: `Books/` (one file per book with every active highlight, its user note and a
+ * `^hl-<id>` block ID), `Sparks/` and `Notes/` (standalone notes only; notes attached to a
+ * book, highlight or spark are written into that file). Highlights in the trash are left out.
+ *
+ * The archive lands in the private `exports` storage bucket and is downloaded through a
+ * signed URL. With `uploadToExternal`, a copy also goes to the S3 bucket from `lib/storage`.
+ */
+export const exportMarkdownVaultFn = inngest.createFunction(
+  {
+    id: "export-markdown-vault",
+    // One export per user at a time; each one reads the whole library
+    concurrency: {
+      limit: 1,
+      key: "event.data.userId"
+    }
+  },
+  { event: "export/markdown-vault" },
+  async ({ event, step, logger }) => {
+    const { userId, exportId, uploadToExternal = false } = event.data;
+
+    logger.info("Starting Markdown vault export", { userId, exportId });
+
+    if (!userId || !exportId) {
+      logger.error("Missing user ID or export ID");
+      return markAsError({
+        success: false,
+        error: "Missing user ID or export ID"
+      });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error"
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const basePath = `${userId}/${exportId}`;
+
+    try {
+      // Step 1: Claim the export row
+      const started = await step.run("start-export", async () => {
+        const { data, error } = await supabase
+          .from('exports')
+          .update({ status: 'processing', error: null })
+          .eq('id', exportId)
+          .eq('user_id', userId)
+          .in('status', ['pending', 'processing'])
+          .select('id');
+
+        if (error) {
+          logger.error("Error starting export:", error);
+          throw error;
+        }
+
+        return { found: (data || []).length > 0 };
+      });
+
+      if (!started.found) {
+        logger.warn("Export not found or already finished", { exportId });
+        return markAsError({
+          success: false,
+          error: "Export not found or already finished"
+        });
+      }
+
+      // Step 2: List books, ordered so re-exports produce the same batches
+      const bookIds = await step.run("list-books", async () => {
+        const ids: string[] = [];
+
+        // `id` breaks title ties so pages don't overlap
+        for (let offset = 0; ; offset += PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from('books')
+            .select('id')
+            .eq('user_id', userId)
+            .order('rw_title', { ascending: true })
+            .order('id', { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1);
+
+          if (error) {
+            logger.error("Error listing books:", error);
+            throw error;
+          }
+
+          ids.push(...(data || []).map(book => book.id as string));
+          if (!data || data.length < PAGE_SIZE) break;
+        }
+
+        return ids;
+      });
+
+      logger.info(`Exporting ${bookIds.length} books`);
+
+      const chunks: ChunkResult[] = [];
+      let highlightCount = 0;
+
+      // Step 3: Render books in batches
+      for (let i = 0; i < bookIds.length; i += BOOKS_PER_STEP) {
+        const batch = bookIds.slice(i, i + BOOKS_PER_STEP);
+        const batchNumber = i / BOOKS_PER_STEP + 1;
+
+        const chunk: ChunkResult = await step.run(`render-books-${batchNumber}`, async () => {
+          const { data: books, error: booksError } = await supabase
+            .from('books')
+            .select(`
+              *,
+              categories:book_categories(
+                category:categories(id, name)
+              ),
+              tags:book_tags(
+                tag:tags(id, name)
+              ),
+              book_notes(
+                notes:note_id(content)
+              )
+            `)
+            .in('id', batch)
+            .eq('user_id', userId)
+            .eq('book_notes.kind', 'attached');
+
+          if (booksError) {
+            logger.error("Error fetching books:", booksError);
+            throw booksError;
+          }
+
+          const highlightsByBook = new Map<string, ExportHighlight[]>();
+          let fetched = 0;
+          let offset = 0;
+
+          while (true) {
+            const { data: highlights, error: highlightsError } = await supabase
+              .from('highlights')
+              .select(`
+                *,
+                categories:highlight_categories(
+                  category:categories(id, name)
+                ),
+                tags:highlight_tags(
+                  tag:tags(id, name)
+                ),
+                highlight_notes(
+                  notes:note_id(content)
+                )
+              `)
+              .in('book_id', batch)
+              .eq('user_id', userId)
+              .eq('highlight_notes.kind', 'attached')
+              .is('deleted_at', null)
+              .order('book_id', { ascending: true })
+              .order('rw_highlighted_at', { ascending: true })
+              .order('id', { ascending: true })
+              .range(offset, offset + PAGE_SIZE - 1);
+
+            if (highlightsError) {
+              logger.error("Error fetching highlights:", highlightsError);
+              throw highlightsError;
+            }
+
+            for (const highlight of highlights || []) {
+              const list = highlightsByBook.get(highlight.book_id) || [];
+              list.push({
+                rwId: highlight.rw_id,
+                text: highlight.rw_text || '',
+                readwiseNote: highlight.rw_note,
+                userNote: relationNotes(highlight.highlight_notes)[0] ?? null,
+                location: highlight.rw_location,
+                highlightedAt: highlight.rw_highlighted_at,
+                url: highlight.rw_url,
+                categories: relationNames(highlight.categories, 'category'),
+                tags: relationNames(highlight.tags, 'tag')
+              });
+              highlightsByBook.set(highlight.book_id, list);
+            }
+
+            fetched += (highlights || []).length;
+            if (!highlights || highlights.length < PAGE_SIZE) break;
+            offset += PAGE_SIZE;
+          }
+
+          const files = (books || []).map(book => renderBook({
+            id: book.id,
+            rwId: book.rw_id,
+            title: book.rw_title || '',
+            author: book.rw_author,
+            category: book.rw_category,
+            sourceUrl: book.rw_source_url,
+            readwiseUrl: book.rw_highlights_url,
+            coverImageUrl: book.rw_cover_image_url,
+            documentNote: book.rw_document_note,
+            categories: relationNames(book.categories, 'category'),
+            tags: relationNames(book.tags, 'tag'),
+            notes: relationNotes(book.book_notes),
+            highlights: highlightsByBook.get(book.id) || []
+          }));
+
+          return {
+            path: await uploadChunk(supabase, basePath, `books-${batchNumber}`, files),
+            fileCount: files.length,
+            itemCount: fetched
+          };
+        });
+
+        chunks.push(chunk);
+        highlightCount += chunk.itemCount;
+      }
+
+      // Step 4: Render sparks, a page per step
+      let sparkPage = 0;
+      while (true) {
+        sparkPage++;
+        const offset = (sparkPage - 1) * ROWS_PER_STEP;
+
+        const chunk: ChunkResult = await step.run(`render-sparks-${sparkPage}`, async () => {
+          const { data: sparks, error } = await supabase
+            .from('sparks')
+            .select(`
+              *,
+              categories:spark_categories(
+                category:categories(id, name)
+              ),
+              tags:spark_tags(
+                tag:tags(id, name)
+              ),
+              spark_notes(
+                notes:note_id(content)
+              )
+            `)
+            .eq('user_id', userId)
+            .eq('spark_notes.kind', 'attached')
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(offset, offset + ROWS_PER_STEP - 1);
+
+          if (error) {
+            logger.error("Error fetching sparks:", error);
+            throw error;
+          }
+
+          const files = (sparks || []).map(spark => renderSpark({
+            id: spark.id,
+            body: spark.body || '',
+            createdAt: spark.todo_created_at || spark.created_at,
+            categories: relationNames(spark.categories, 'category'),
+            tags: relationNames(spark.tags, 'tag'),
+            notes: relationNotes(spark.spark_notes)
+          }));
+
+          return {
+            path: await uploadChunk(supabase, basePath, `sparks-${sparkPage}`, files),
+            fileCount: files.length,
+            itemCount: (sparks || []).length
+          };
+        });
+
+        chunks.push(chunk);
+        if (chunk.itemCount < ROWS_PER_STEP) break;
+      }
+
+      // Step 5: Render standalone notes, a page per step
+      let notePage = 0;
+      while (true) {
+        notePage++;
+        const offset = (notePage - 1) * ROWS_PER_STEP;
+
+        const chunk: ChunkResult = await step.run(`render-notes-${notePage}`, async () => {
+          const { data: notes, error } = await supabase
+            .from('notes')
+            .select(`
+              *,
+              highlight_notes(highlight_id),
+              book_notes(book_id),
+              spark_notes(spark_id)
+            `)
+            .eq('user_id', userId)
+            // Notes that only link to something are still standalone
+            .eq('highlight_notes.kind', 'attached')
+            .eq('book_notes.kind', 'attached')
+            .eq('spark_notes.kind', 'attached')
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(offset, offset + ROWS_PER_STEP - 1);
+
+          if (error) {
+            logger.error("Error fetching notes:", error);
+            throw error;
+          }
+
+          // Attached notes are already part of their book or spark file
+          const standalone = (notes || []).filter(note =>
+            (note.highlight_notes || []).length === 0 &&
+            (note.book_notes || []).length === 0 &&
+            (note.spark_notes || []).length === 0 &&
+            (note.content || '').trim().length > 0
+          );
+
+          const files = standalone.map(note => renderNote({
+            id: note.id,
+            title: note.title,
+            content: note.content,
+            createdAt: note.created_at,
+            updatedAt: note.updated_at
+          }));
+
+          return {
+            path: await uploadChunk(supabase, basePath, `notes-${notePage}`, files),
+            fileCount: files.length,
+            itemCount: (notes || []).length
+          };
+        });
+
+        chunks.push(chunk);
+        if (chunk.itemCount < ROWS_PER_STEP) break;
+      }
+
+      // Step 6: Zip every rendered file, store the archive and clean up the chunks
+      const archive = await step.run("build-archive", async () => {
+        const chunkPaths = chunks.map(chunk => chunk.path).filter((path): path is string => !!path);
+        const files: ExportFile[] = [];
+
+        for (const path of chunkPaths) {
+          const { data, error } = await supabase.storage.from(EXPORTS_BUCKET).download(path);
+          if (error || !data) {
+            logger.error(`Error downloading export chunk ${path}:`, error);
+            throw error || new Error(`Export chunk ${path} is missing`);
+          }
+          files.push(...(JSON.parse(await data.text()) as ExportFile[]));
+        }
+
+        const zip = createZip(dedupeFilePaths(files));
+        const storagePath = `${basePath}/spark-export.zip`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(EXPORTS_BUCKET)
+          .upload(storagePath, zip, { contentType: 'application/zip', upsert: true });
+
+        if (uploadError) {
+          logger.error("Error uploading export archive:", uploadError);
+          throw uploadError;
+        }
+
+        let externalUrl: string | null = null;
+        if (uploadToExternal) {
+          if (process.env.BUCKET_NAME) {
+            externalUrl = await uploadFile(`exports/${userId}/${exportId}.zip`, zip);
+          } else {
+            logger.warn("External upload requested but BUCKET_NAME is not configured; skipping");
+          }
+        }
+
+        if (chunkPaths.length > 0) {
+          const { error: removeError } = await supabase.storage.from(EXPORTS_BUCKET).remove(chunkPaths);
+          if (removeError) {
+            // Leftover chunks only cost storage; the archive is complete
+            logger.warn("Error removing export chunks:", removeError);
+          }
+        }
+
+        return {
+          storagePath,
+          externalUrl,
+          fileCount: files.length,
+          sizeBytes: zip.length
+        };
+      });
+
+      // Step 7: Mark the export as completed
+      await step.run("complete-export", async () => {
+        const { error } = await supabase
+          .from('exports')
+          .update({
+            status: 'completed',
+            storage_path: archive.storagePath,
+            external_url: archive.externalUrl,
+            file_count: archive.fileCount,
+            size_bytes: archive.sizeBytes,
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', exportId)
+          .eq('user_id', userId);
+
+        if (error) {
+          logger.error("Error completing export:", error);
+          throw error;
+        }
+
+        return { success: true };
+      });
+
+      logger.info("Markdown vault export completed", {
+        exportId,
+        books: bookIds.length,
+        highlights: highlightCount,
+        files: archive.fileCount,
+        sizeBytes: archive.sizeBytes
+      });
+
+      return markAsLastStep({
+        success: true,
+        exportId,
+        books: bookIds.length,
+        highlights: highlightCount,
+        files: archive.fileCount,
+        sizeBytes: archive.sizeBytes,
+        uploadedExternally: !!archive.externalUrl
+      });
+    } catch (error) {
+      logger.error("Error in Markdown vault export function:", error);
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await supabase
+        .from('exports')
+        .update({ status: 'failed', error: message })
+        .eq('id', exportId)
+        .eq('user_id', userId);
+
+      return markAsError({
+        success: false,
+        error: message
+      });
+    }
+  }
+);
@@ -0,0 +1 @@
+export { exportMarkdownVaultFn } from './export-markdown-vault';
@@ -0,0 +1,123 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { createClient } from "@supabase/supabase-js";
+import { importHighlights, parseImportFile } from "@/lib/import";
+
+const IMPORTS_BUCKET = "imports";
+
+/**
+ * Imports highlights from an uploaded Kindle `My Clippings.txt`, CSV or JSON file
+ *
+ * The file is parsed, deduplicated against the library by normalized text and written
+ * as `books`/`highlights` rows with a synthetic `rw_id`. The ImportReport is the
+ * function's result, so it shows up in the function logs. The upload is deleted afterwards.
+ */
+export const importHighlightsFileFn = inngest.createFunction(
+  {
+    id: "import-highlights-file",
+    // Imports of the same user run one after another, so their dedupe sees each other's rows
+    concurrency: {
+      limit: 1,
+      key: "event.data.userId"
+    }
+  },
+  { event: "import/highlights-file" },
+  async ({ event, step, logger }) => {
+    const { userId, storagePath, fileName, format } = event.data;
+
+    logger.info("Starting highlights file import", { userId, fileName, format });
+
+    if (!userId || !storagePath || !format) {
+      logger.error("Missing user ID, file or format");
+      return markAsError({
+        success: false,
+        error: "Missing user ID, file or format"
+      });
+    }
+
+    // The path is chosen by the upload route; never read another user's upload
+    if (!storagePath.startsWith(`${userId}/`)) {
+      logger.error("Upload does not belong to this user", { storagePath });
+      return markAsError({
+        success: false,
+        error: "Upload does not belong to this user"
+      });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error"
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    try {
+      // Step 1: Parse and write in one step; the parsed file can be larger than a step's output limit.
+      // Retrying is safe because highlights already written are skipped as duplicates.
+      const report = await step.run("import-highlights", async () => {
+        const { data, error } = await supabase.storage.from(IMPORTS_BUCKET).download(storagePath);
+        if (error || !data) {
+          logger.error("Error downloading uploaded file:", error);
+          throw error || new Error(`Uploaded file ${storagePath} is missing`);
+        }
+
+        const parsed = parseImportFile(await data.text(), format);
+        logger.info(`Parsed ${parsed.books.length} books from ${fileName}`);
+
+        return importHighlights(supabase, userId, parsed, { fileName, format });
+      });
+
+      // Step 2: Remove the upload
+      await step.run("delete-uploaded-file", async () => {
+        const { error } = await supabase.storage.from(IMPORTS_BUCKET).remove([storagePath]);
+        if (error) {
+          // A leftover upload only costs storage; the import is complete
+          logger.warn("Error removing uploaded file:", error);
+        }
+      });
+
+      // Run the user's automation rules on what this import added
+      await step.run("queue-automation-rules", async () => {
+        if (report.imported === 0) {
+          return { queued: false };
+        }
+
+        const since = new Date(event.ts ?? Date.now()).toISOString();
+
+        await inngest.send([
+          {
+            name: "automations/run-rules",
+            data: { userId, target: 'book', since, trigger: "import-highlights-file" }
+          },
+          {
+            name: "automations/run-rules",
+            data: { userId, target: 'highlight', since, trigger: "import-highlights-file" }
+          }
+        ]);
+
+        return { queued: true };
+      });
+
+      logger.info("Highlights file import completed", report);
+
+      return markAsLastStep({
+        success: true,
+        ...report
+      });
+    } catch (error) {
+      logger.error("Error in highlights file import function:", error);
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        fileName,
+        format
+      });
+    }
+  }
+);
@@ -0,0 +1 @@
+export { importHighlightsFileFn } from './import-highlights-file';
@@ -0,0 +1,192 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { createClient } from "@supabase/supabase-js";
+import { createNotification, getNotificationSettings } from "@/lib/notifications";
+import type { IntegrationProvider } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Connection {
+  user_id: string;
+  provider: IntegrationProvider;
+  updated_at: string;
+}
+
+// A completed run of any of these counts as a successful sync of the integration
+const SYNC_FUNCTIONS: Record<IntegrationProvider, { label: string; functionNames: string[] }> = {
+  readwise: {
+    label: "Readwise",
+    functionNames: ["readwise-sync-highlights", "readwise-sync-books", "readwise-sync-changed-books"]
+  },
+  airtable: {
+    label: "Airtable",
+    functionNames: ["airtable-import-sparks"]
+  }
+};
+
+/**
+ * Shared logic for the cron and manual stale integration checks
+ *
+ * An integration is stale when it has been connected (or its token replaced) for longer than
+ * the user's `notifications.staleIntegrationDays` without a completed sync. Each stale period
+ * is reported once: a notification created since the last sync, read or not, suppresses
+ * another one.
+ */
+async function checkStaleIntegrations({ step, logger }: { step: any; logger: any }) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    logger.error("Missing Supabase configuration");
+    return markAsError({
+      success: false,
+      error: "Server configuration error"
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    // Step 1: Find every connected integration
+    const connections: Connection[] = await step.run("load-connected-integrations", async () => {
+      const { data, error } = await supabase
+        .from('integration_credentials')
+        .select('user_id, provider, updated_at');
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []) as Connection[];
+    });
+
+    if (connections.length === 0) {
+      return markAsLastStep({
+        success: true,
+        checked: 0,
+        notified: 0
+      });
+    }
+
+    // Step 2: Compare each with its last successful sync
+    const result = await step.run("notify-stale-integrations", async () => {
+      const now = Date.now();
+      const notified: Array<{ userId: string; provider: IntegrationProvider }> = [];
+
+      for (const connection of connections) {
+        try {
+          const sync = SYNC_FUNCTIONS[connection.provider];
+          if (!sync) continue;
+
+          const { data: lastRun, error } = await supabase
+            .from('function_logs')
+            .select('completed_at')
+            .eq('user_id', connection.user_id)
+            .eq('status', 'completed')
+            .in('function_name', sync.functionNames)
+            .order('completed_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          if (error) {
+            throw error;
+          }
+
+          const since = Math.max(
+            new Date(connection.updated_at).getTime(),
+            lastRun?.completed_at ? new Date(lastRun.completed_at).getTime() : 0
+          );
+          const { staleIntegrationDays } = await getNotificationSettings(supabase, connection.user_id);
+          const days = Math.max(1, staleIntegrationDays);
+
+          if (now - since < days * DAY_MS) {
+            continue;
+          }
+
+          const dedupeKey = `integration_stale:${connection.provider}`;
+          const { data: alreadyNotified } = await supabase
+            .from('notifications')
+            .select('id')
+            .eq('user_id', connection.user_id)
+            .eq('dedupe_key', dedupeKey)
+            .gte('created_at', new Date(since).toISOString())
+            .limit(1)
+            .maybeSingle();
+
+          if (alreadyNotified) {
+            continue;
+          }
+
+          const staleDays = Math.floor((now - since) / DAY_MS);
+          const id = await createNotification(supabase, {
+            userId: connection.user_id,
+            type: 'integration_stale',
+            title: `${sync.label} hasn't synced in ${staleDays} days`,
+            body: lastRun?.completed_at
+              ? `The last successful ${sync.label} sync finished on ${new Date(lastRun.completed_at).toUTCString()}. Check that its scheduled task is on and that the token is still valid.`
+              : `${sync.label} is connected but has never synced successfully. Check that its scheduled task is on and that the token is still valid.`,
+            link: '/settings?tab=integrations',
+            dedupeKey,
+            data: { provider: connection.provider, lastSyncAt: lastRun?.completed_at ?? null }
+          });
+
+          if (id) {
+            notified.push({ userId: connection.user_id, provider: connection.provider });
+          }
+        } catch (error) {
+          logger.error(`Error checking ${connection.provider} for user ${connection.user_id}:`, error);
+        }
+      }
+
+      return { notified };
+    });
+
+    logger.info("Stale integration check completed", {
+      checked: connections.length,
+      notified: result.notified.length
+    });
+
+    return markAsLastStep({
+      success: true,
+      checked: connections.length,
+      notified: result.notified.length,
+      notifiedDetails: result.notified
+    });
+  } catch (error) {
+    logger.error("Error checking stale integrations:", error);
+    return markAsError({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+}
+
+/**
+ * CRON-TRIGGERED stale integration check, daily at 07:00 UTC
+ */
+export const checkStaleIntegrationsCronFn = inngest.createFunction(
+  {
+    id: "check-stale-integrations-cron",
+    concurrency: {
+      limit: 1,
+      key: "global"
+    }
+  },
+  { cron: "0 7 * * *" },
+  async ({ step, logger }) => {
+    logger.info('Starting stale integration check (cron triggered)');
+    return checkStaleIntegrations({ step, logger });
+  }
+);
+
+/**
+ * MANUALLY-TRIGGERED stale integration check, for testing and debugging
+ */
+export const checkStaleIntegrationsManualFn = inngest.createFunction(
+  { id: "check-stale-integrations-manual" },
+  { event: "notifications/check-stale-integrations" },
+  async ({ step, logger }) => {
+    logger.info('Starting stale integration check (manually triggered)');
+    return checkStaleIntegrations({ step, logger });
+  }
+);
@@ -0,0 +1 @@
+export { checkStaleIntegrationsCronFn, checkStaleIntegrationsManualFn } from './check-stale-integrations';
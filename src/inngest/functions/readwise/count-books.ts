@@ -1,22 +1,23 @@
 import { inngest } from "../../client";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
 import { throttledReadwiseRequest } from "../../utils/readwise-api";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
 
 // Readwise book count function - counts total books, does not fetch full content
 export const readwiseCountBooksFn = inngest.createFunction(
   { id: "readwise-count-books" },
   { event: "readwise/count-books" },
   async ({ event, step, logger }) => {
-    const { userId, apiKey } = event.data;
+    const { userId } = event.data;
     
     // Use the built-in logger for operational logs
     logger.info("Starting Readwise book count", { userId });
     
-    if (!apiKey) {
-      logger.error("No Readwise API key provided");
+    if (!userId) {
+      logger.error("No user ID provided");
       return markAsError({ 
         success: false, 
-        error: "No API key provided"
+        error: "No user ID provided"
       });
     }
     
@@ -24,6 +25,7 @@ export const readwiseCountBooksFn = inngest.createFunction(
       // Fetch all books from Readwise API with pagination to count them
       const result = await step.run("count-books-from-readwise", async () => {
         logger.info(`Counting Readwise books for user ${userId}`);
+        const apiKey = await requireIntegrationCredential(userId, 'readwise');
         
         const readwiseUrl = "https://readwise.io/api/v2/books/";
         
@@ -0,0 +1,299 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { throttledReadwiseRequest } from "../../utils/readwise-api";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
+import { createClient } from "@supabase/supabase-js";
+
+const READER_LIST_URL = "https://readwise.io/api/v3/list/";
+
+// Each page is fetched and stored in its own step; full HTML makes pages heavy, so a run
+// stops after this many pages and continues from the saved cursor on the next run
+const MAX_PAGES_PER_RUN = 20;
+
+interface PageResult {
+  upserted: number;
+  skipped: number;
+  linkedToBooks: number;
+  nextCursor: string | null;
+  failed: boolean;
+}
+
+// Reader returns published_date as an ISO string or epoch milliseconds
+function toTimestamp(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function toProgress(value: unknown): number | null {
+  const progress = Number(value);
+  if (value === null || value === undefined || isNaN(progress)) return null;
+  return Math.min(Math.max(progress, 0), 1);
+}
+
+/**
+ * Imports Readwise Reader documents (v3 API) into reader_documents
+ *
+ * Highlights and notes inside Reader are skipped here (they have a parent_id and come in
+ * through the v2 highlights sync). Documents are linked to the v2 book with the same
+ * source URL, so a saved article and its highlights end up side by side.
+ *
+ * Runs incrementally via `updatedAfter` once a full import has completed.
+ */
+export const readwiseImportReaderDocumentsFn = inngest.createFunction(
+  { id: "readwise-import-reader-documents" },
+  { event: "readwise/import-reader-documents" },
+  async ({ event, step, logger }) => {
+    const { userId } = event.data;
+
+    logger.info("Starting Readwise Reader documents import", { userId });
+
+    if (!userId) {
+      logger.error("Missing user ID");
+      return markAsError({
+        success: false,
+        error: "Missing user ID",
+        upserted: 0
+      });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error",
+        upserted: 0
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    try {
+      // Step 1: Load import state (incremental timestamp and any in-progress cursor)
+      const syncState = await step.run("fetch-reader-sync-state", async () => {
+        const { data, error } = await supabase
+          .from('user_settings')
+          .select('settings')
+          .eq('id', userId)
+          .single();
+
+        if (error) {
+          logger.warn("Error fetching user settings, starting a full import:", error);
+        }
+
+        const readwise = data?.settings?.integrations?.readwise || {};
+
+        return {
+          lastSyncTime: (readwise.readerLastSyncTime || null) as string | null,
+          cursor: (readwise.readerPaginationCursor || null) as string | null,
+          cursorUpdatedAfter: (readwise.readerCursorUpdatedAfter || null) as string | null,
+          syncStartedAt: (readwise.readerSyncStartedAt || new Date().toISOString()) as string
+        };
+      });
+
+      // A continued run must keep the filter the cursor was issued for
+      const updatedAfter = syncState.cursor ? syncState.cursorUpdatedAfter : syncState.lastSyncTime;
+      const syncType = syncState.cursor ? 'continue' : updatedAfter ? 'incremental' : 'full';
+      logger.info(`Reader import type: ${syncType}${updatedAfter ? ` (updated after ${updatedAfter})` : ''}`);
+
+      // Step 2: Map book source URLs to book IDs for linking
+      const bookMapResult = await step.run("fetch-book-source-urls", async () => {
+        const { data, error } = await supabase
+          .from('books')
+          .select('id, rw_source_url')
+          .eq('user_id', userId)
+          .not('rw_source_url', 'is', null);
+
+        if (error) {
+          logger.error("Error fetching books:", error);
+          throw error;
+        }
+
+        const bookMap: Record<string, string> = {};
+        for (const book of data || []) {
+          bookMap[book.rw_source_url] = book.id;
+        }
+
+        logger.info(`Loaded ${Object.keys(bookMap).length} book source URLs for linking`);
+        return bookMap;
+      });
+
+      // Step 3: Import pages, one step per page
+      let cursor = syncState.cursor;
+      let pages = 0;
+      let upserted = 0;
+      let skipped = 0;
+      let linkedToBooks = 0;
+      let failedPages = 0;
+      let reachedEnd = false;
+
+      while (pages < MAX_PAGES_PER_RUN) {
+        pages++;
+        const pageCursor = cursor;
+
+        const pageResult: PageResult = await step.run(`import-reader-page-${pages}`, async () => {
+          const params = new URLSearchParams({ withHtmlContent: 'true' });
+          if (pageCursor) params.set('pageCursor', pageCursor);
+          if (updatedAfter) params.set('updatedAfter', updatedAfter);
+
+          const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
+          const data = await throttledReadwiseRequest(`${READER_LIST_URL}?${params}`, apiKey, logger);
+          const documents: any[] = data.results || [];
+
+          // Highlights and notes are child documents; they come in through the v2 sync
+          const topLevel = documents.filter(doc => !doc.parent_id);
+
+          const rows = topLevel.map(doc => ({
+            user_id: userId,
+            book_id: (doc.source_url && bookMapResult[doc.source_url]) || null,
+            rw_id: String(doc.id),
+            rw_url: doc.url || null,
+            rw_source_url: doc.source_url || null,
+            rw_title: doc.title || null,
+            rw_author: doc.author || null,
+            rw_source: doc.source || null,
+            rw_site_name: doc.site_name || null,
+            rw_category: doc.category || null,
+            rw_location: doc.location || null,
+            rw_summary: doc.summary || null,
+            rw_notes: doc.notes || null,
+            rw_word_count: Number.isFinite(doc.word_count) ? doc.word_count : null,
+            rw_reading_progress: toProgress(doc.reading_progress),
+            rw_image_url: doc.image_url || null,
+            rw_tags: doc.tags || {},
+            rw_html_content: doc.html_content || null,
+            rw_published_date: toTimestamp(doc.published_date),
+            rw_saved_at: toTimestamp(doc.saved_at),
+            rw_first_opened_at: toTimestamp(doc.first_opened_at),
+            rw_last_opened_at: toTimestamp(doc.last_opened_at),
+            rw_created_at: toTimestamp(doc.created_at),
+            rw_updated: toTimestamp(doc.updated_at)
+          }));
+
+          let failed = false;
+          if (rows.length > 0) {
+            const { error } = await supabase
+              .from('reader_documents')
+              .upsert(rows, {
+                onConflict: 'user_id,rw_id',
+                ignoreDuplicates: false
+              });
+
+            if (error) {
+              // Keep going; the incremental timestamp isn't advanced, so the next run retries them
+              logger.error(`Error upserting Reader page ${pages}:`, error);
+              failed = true;
+            }
+          }
+
+          logger.info(`Reader page ${pages}: ${documents.length} received, ${rows.length} documents, ${documents.length - rows.length} child items skipped`);
+
+          return {
+            upserted: failed ? 0 : rows.length,
+            skipped: documents.length - rows.length,
+            linkedToBooks: failed ? 0 : rows.filter(row => row.book_id).length,
+            nextCursor: data.nextPageCursor || null,
+            failed
+          };
+        });
+
+        upserted += pageResult.upserted;
+        skipped += pageResult.skipped;
+        linkedToBooks += pageResult.linkedToBooks;
+        if (pageResult.failed) failedPages++;
+
+        cursor = pageResult.nextCursor;
+        if (!cursor) {
+          reachedEnd = true;
+          break;
+        }
+      }
+
+      // Step 4: Save import state for the next run
+      await step.run("update-reader-sync-state", async () => {
+        const { data: currentSettings, error: getError } = await supabase
+          .from('user_settings')
+          .select('settings')
+          .eq('id', userId)
+          .single();
+
+        if (getError) {
+          logger.error("Failed to get current user settings", getError);
+          return { success: false };
+        }
+
+        const readwise = currentSettings?.settings?.integrations?.readwise || {};
+
+        // Only advance the incremental timestamp once every page has been read and stored,
+        // using the time the import started so documents updated mid-import are fetched again
+        const nextState = reachedEnd
+          ? {
+              ...(failedPages === 0 && { readerLastSyncTime: syncState.syncStartedAt }),
+              readerPaginationCursor: null,
+              readerCursorUpdatedAfter: null,
+              readerSyncStartedAt: null
+            }
+          : {
+              readerPaginationCursor: cursor,
+              readerCursorUpdatedAfter: updatedAfter,
+              readerSyncStartedAt: syncState.syncStartedAt
+            };
+
+        const { error } = await supabase
+          .from('user_settings')
+          .update({
+            settings: {
+              ...(currentSettings?.settings || {}),
+              integrations: {
+                ...(currentSettings?.settings?.integrations || {}),
+                readwise: {
+                  ...readwise,
+                  ...nextState
+                }
+              }
+            }
+          })
+          .eq('id', userId);
+
+        if (error) {
+          logger.error("Failed to update Reader sync state", error);
+          return { success: false };
+        }
+
+        return { success: true };
+      });
+
+      logger.info("Reader documents import completed", {
+        syncType,
+        pages,
+        upserted,
+        skipped,
+        linkedToBooks,
+        failedPages,
+        hasMoreToSync: !reachedEnd
+      });
+
+      return markAsLastStep({
+        success: true,
+        syncType,
+        pagesProcessed: pages,
+        upserted,
+        skippedChildItems: skipped,
+        linkedToBooks,
+        failedPages,
+        reachedEnd,
+        hasMoreToSync: !reachedEnd
+      });
+    } catch (error) {
+      logger.error("Error in Readwise Reader import function:", error);
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        upserted: 0
+      });
+    }
+  }
+);
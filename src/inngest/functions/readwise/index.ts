@@ -1,4 +1,8 @@
 export { readwiseCountBooksFn } from './count-books';
 export { readwiseConnectionTestFn } from './test-connection';
 export { readwiseSyncBooksFn } from './sync-books';
-export { readwiseSyncHighlightsFn } from './sync-highlights'; 
\ No newline at end of file
+export { readwiseSyncHighlightsFn } from './sync-highlights';
+export { readwiseSyncChangedBooksFn } from './sync-changed-books';
+export { readwiseReconcileHighlightsFn } from './reconcile-highlights';
+export { readwiseWriteBackHighlightFn } from './write-back-highlight';
+export { readwiseImportReaderDocumentsFn } from './import-reader-documents'; 
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { throttledReadwiseRequest } from "../../utils/readwise-api";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
+import { trashHighlightsByRwIds } from "../../utils/highlight-trash";
+import { createClient } from "@supabase/supabase-js";
+
+// Readwise allows up to 1000 results per page on the highlights list endpoint
+const UPSTREAM_PAGE_SIZE = 1000;
+
+// Safety valve against runaway pagination
+const MAX_UPSTREAM_PAGES = 200;
+
+// Supabase caps selects at 1000 rows, so local IDs are read in ranges
+const LOCAL_PAGE_SIZE = 1000;
+
+// Refuse to trash more than this share of the library in one run; a partial upstream
+// response (API hiccup, wrong key) must never wipe a library
+const MAX_TRASH_RATIO = 0.5;
+
+interface UpstreamPage {
+  liveIds: number[];
+  deletedIds: number[];
+  discardedIds: number[];
+  next: string | null;
+}
+
+/**
+ * Full reconciliation between Readwise and the local highlights table
+ *
+ * Incremental syncs only see highlights that changed, so anything removed upstream
+ * without an `updated` bump lingers locally. This walks every highlight ID in Readwise,
+ * compares it with the active local rows and moves the ones missing upstream to the trash.
+ *
+ * NOTE: Highlights the user restored from the trash are left alone, so a restore sticks.
+ */
+export const readwiseReconcileHighlightsFn = inngest.createFunction(
+  { id: "readwise-reconcile-highlights" },
+  { event: "readwise/reconcile-highlights" },
+  async ({ event, step, logger }) => {
+    const { userId } = event.data;
+
+    logger.info("Starting Readwise highlights reconciliation", { userId });
+
+    if (!userId) {
+      logger.error("Missing user ID");
+      return markAsError({
+        success: false,
+        error: "Missing user ID",
+        trashed: 0
+      });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error",
+        trashed: 0
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    try {
+      // Step 1: Collect every highlight ID in Readwise, one step per page so long
+      // libraries don't run into request timeouts
+      const liveIds = new Set<number>();
+      const deletedIds: number[] = [];
+      const discardedIds: number[] = [];
+
+      let pageUrl: string | null = `https://readwise.io/api/v2/highlights/?page_size=${UPSTREAM_PAGE_SIZE}`;
+      let page = 0;
+
+      while (pageUrl && page < MAX_UPSTREAM_PAGES) {
+        page++;
+        const currentUrl: string = pageUrl;
+
+        const pageResult: UpstreamPage = await step.run(`fetch-upstream-ids-page-${page}`, async () => {
+          logger.info(`Fetching upstream highlight IDs, page ${page}`);
+
+          const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
+          const data = await throttledReadwiseRequest(currentUrl, apiKey, logger);
+          const highlights: any[] = data.results || [];
+
+          return {
+            liveIds: highlights.filter(h => !h.is_deleted && !h.is_discard).map(h => Number(h.id)),
+            deletedIds: highlights.filter(h => h.is_deleted).map(h => Number(h.id)),
+            discardedIds: highlights.filter(h => !h.is_deleted && h.is_discard).map(h => Number(h.id)),
+            next: data.next || null
+          };
+        });
+
+        pageResult.liveIds.forEach(id => liveIds.add(id));
+        deletedIds.push(...pageResult.deletedIds);
+        discardedIds.push(...pageResult.discardedIds);
+        pageUrl = pageResult.next;
+      }
+
+      if (pageUrl) {
+        logger.error(`Stopped after ${MAX_UPSTREAM_PAGES} pages without reaching the end of the upstream list`);
+        return markAsError({
+          success: false,
+          error: "Upstream highlight list was not fully read; skipping reconciliation",
+          trashed: 0
+        });
+      }
+
+      logger.info(`Upstream: ${liveIds.size} live, ${deletedIds.length} deleted, ${discardedIds.length} discarded highlights`);
+
+      if (liveIds.size === 0) {
+        logger.warn("Readwise returned no live highlights; refusing to reconcile");
+        return markAsError({
+          success: false,
+          error: "Readwise returned no highlights; skipping reconciliation",
+          trashed: 0
+        });
+      }
+
+      // Step 2: Read the active local highlights that are eligible for reconciliation
+      const localIds = await step.run("fetch-local-highlight-ids", async () => {
+        const ids: number[] = [];
+
+        for (let from = 0; ; from += LOCAL_PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from('highlights')
+            .select('rw_id')
+            .eq('user_id', userId)
+            .eq('source', 'readwise') // Imported highlights were never in Readwise
+            .is('deleted_at', null)
+            .is('restored_at', null)
+            .order('rw_id', { ascending: true })
+            .range(from, from + LOCAL_PAGE_SIZE - 1);
+
+          if (error) {
+            logger.error("Error fetching local highlight IDs:", error);
+            throw error;
+          }
+
+          ids.push(...(data || []).map(row => Number(row.rw_id)));
+
+          if (!data || data.length < LOCAL_PAGE_SIZE) {
+            break;
+          }
+        }
+
+        logger.info(`Found ${ids.length} active local highlights to reconcile`);
+        return ids;
+      });
+
+      const missingIds = localIds.filter(id => !liveIds.has(id));
+      const flaggedIds = new Set([...deletedIds, ...discardedIds]);
+      const missingUpstreamIds = missingIds.filter(id => !flaggedIds.has(id));
+      const candidates = missingIds.length;
+
+      if (localIds.length > 0 && candidates / localIds.length > MAX_TRASH_RATIO) {
+        logger.warn(`Reconciliation would trash ${candidates} of ${localIds.length} highlights; aborting`);
+        return markAsError({
+          success: false,
+          error: `Reconciliation would trash ${candidates} of ${localIds.length} highlights; aborting as a safety measure`,
+          trashed: 0
+        });
+      }
+
+      // Step 3: Move everything no longer live upstream to the trash
+      const trashResult = await step.run("trash-missing-highlights", async () => {
+        const missing = new Set(missingIds);
+
+        const deleted = await trashHighlightsByRwIds(
+          supabase, userId, deletedIds.filter(id => missing.has(id)), 'readwise_deleted', logger
+        );
+        const discarded = await trashHighlightsByRwIds(
+          supabase, userId, discardedIds.filter(id => missing.has(id)), 'readwise_discarded', logger
+        );
+        const missingUpstream = await trashHighlightsByRwIds(
+          supabase, userId, missingUpstreamIds, 'missing_upstream', logger
+        );
+
+        return { deleted, discarded, missingUpstream };
+      });
+
+      const trashed = trashResult.deleted + trashResult.discarded + trashResult.missingUpstream;
+
+      logger.info("Highlights reconciliation completed", {
+        upstreamHighlights: liveIds.size,
+        localHighlights: localIds.length,
+        ...trashResult,
+        trashed
+      });
+
+      return markAsLastStep({
+        success: true,
+        upstreamHighlights: liveIds.size,
+        localHighlights: localIds.length,
+        pagesProcessed: page,
+        trashed,
+        trashedByReason: trashResult
+      });
+    } catch (error) {
+      logger.error("Error in Readwise reconcile highlights function:", error);
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        trashed: 0
+      });
+    }
+  }
+);
@@ -1,6 +1,8 @@
 import { inngest } from "../../client";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
 import { throttledReadwiseRequest } from "../../utils/readwise-api";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
+import { trashHighlightsByBookIds } from "../../utils/highlight-trash";
 import { createClient } from "@supabase/supabase-js";
 
 // Function to import books from Readwise to Supabase
@@ -8,15 +10,15 @@ export const readwiseSyncBooksFn = inngest.createFunction(
   { id: "readwise-sync-books" },
   { event: "readwise/sync-books" },
   async ({ event, step, logger }) => {
-    const { userId, apiKey } = event.data;
+    const { userId } = event.data;
     
     logger.info("Starting Readwise book import", { userId });
     
-    if (!userId || !apiKey) {
-      logger.error("Missing user ID or API key");
+    if (!userId) {
+      logger.error("Missing user ID");
       return markAsError({ 
         success: false, 
-        error: "Missing user ID or API key",
+        error: "Missing user ID",
         readwiseBooks: 0,
         sparkBooks: 0,
         imported: 0,
@@ -103,12 +105,14 @@ export const readwiseSyncBooksFn = inngest.createFunction(
       logger.info("Step 3: Starting to import books from Readwise");
       const importResult = await step.run("import-books-from-readwise", async () => {
         logger.info(`Importing Readwise books for user ${userId}`);
+        const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
         
         const readwiseUrl = "https://readwise.io/api/v2/books/";
         
         let nextUrl = readwiseUrl;
         let booksToInsert = [];
         let booksToUpdate = [];
+        const deletedBookIds: string[] = [];
         let totalReadwiseBooks = 0;
         let page = 1;
         
@@ -130,6 +134,16 @@ export const readwiseSyncBooksFn = inngest.createFunction(
             for (const book of books) {
               // Log the book ID and type for debugging
               logger.info(`Processing Readwise book ${book.id} (${book.title}), ID type: ${typeof book.id}`);
+
+              // Books deleted in Readwise are not imported; their existing highlights go to the trash
+              if (book.is_deleted) {
+                const deletedBook = booksMap.get(Number(book.id));
+                if (deletedBook) {
+                  deletedBookIds.push(deletedBook.id);
+                }
+                logger.info(`Book ${book.id} (${book.title}) is deleted in Readwise, skipping`);
+                continue;
+              }
               
               // Map Readwise book properties to Supabase table columns
               const bookData = {
@@ -252,11 +266,20 @@ export const readwiseSyncBooksFn = inngest.createFunction(
           logger.info("No books to update");
         }
         
-        logger.info(`Completed database operations. Inserted: ${insertedCount}, Updated: ${updatedCount}`);
+        // Soft-delete highlights of books that were deleted in Readwise
+        let trashedCount = 0;
+        try {
+          trashedCount = await trashHighlightsByBookIds(supabase, userId, deletedBookIds, 'readwise_deleted', logger);
+        } catch (error) {
+          logger.error("Failed to trash highlights of deleted books:", error);
+        }
+
+        logger.info(`Completed database operations. Inserted: ${insertedCount}, Updated: ${updatedCount}, Highlights trashed: ${trashedCount}`);
         
         return {
           imported: insertedCount,
           updated: updatedCount,
+          trashedHighlights: trashedCount,
           readwiseBooks: totalReadwiseBooks,
           success: true
         };
@@ -305,12 +328,45 @@ export const readwiseSyncBooksFn = inngest.createFunction(
         return { success: true };
       });
       
+      // Run the user's automation rules on what this sync imported or updated
+      await step.run("queue-automation-rules", async () => {
+        if (importResult.imported + importResult.updated === 0) {
+          return { queued: false };
+        }
+        
+        await inngest.send({
+          name: "automations/run-rules",
+          data: {
+            userId,
+            target: 'book',
+            since: new Date(event.ts ?? Date.now()).toISOString(),
+            trigger: "readwise-sync-books"
+          }
+        });
+        
+        return { queued: true };
+      });
+      
+      // Let a highlight sync waiting on this run carry on
+      await step.run("notify-books-synced", async () => {
+        await inngest.send({
+          name: "readwise/books-synced",
+          data: {
+            userId,
+            success: true,
+            imported: importResult.imported,
+            updated: importResult.updated
+          }
+        });
+      });
+      
       // Final log and return
       logger.info("Book sync completed successfully", { 
         readwiseBooks: importResult.readwiseBooks,
         sparkBooks: sparkBooksCount,
         imported: importResult.imported,
-        updated: importResult.updated
+        updated: importResult.updated,
+        trashedHighlights: importResult.trashedHighlights
       });
       
       return markAsLastStep({ 
@@ -318,10 +374,20 @@ export const readwiseSyncBooksFn = inngest.createFunction(
         readwiseBooks: importResult.readwiseBooks,
         sparkBooks: sparkBooksCount,
         imported: importResult.imported,
-        updated: importResult.updated
+        updated: importResult.updated,
+        trashedHighlights: importResult.trashedHighlights
       });
     } catch (error) {
       logger.error("Error in Readwise sync books function:", error);
+      
+      // Report the failure too, so a waiting highlight sync doesn't sit out its whole timeout
+      await step.run("notify-books-sync-failed", async () => {
+        await inngest.send({
+          name: "readwise/books-synced",
+          data: { userId, success: false, imported: 0, updated: 0 }
+        });
+      });
+      
       return markAsError({ 
         success: false, 
         error: error instanceof Error ? error.message : "Unknown error",
@@ -0,0 +1,265 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { throttledReadwiseRequest } from "../../utils/readwise-api";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
+import { trashHighlightsByBookIds, trashHighlightsByRwIds } from "../../utils/highlight-trash";
+import { createClient } from "@supabase/supabase-js";
+
+// Above this many books a targeted sync makes more API calls than a regular incremental one
+const MAX_TARGETED_BOOKS = 25;
+
+// Function to sync only the given books and their highlights, e.g. after a Readwise webhook
+export const readwiseSyncChangedBooksFn = inngest.createFunction(
+  {
+    id: "readwise-sync-changed-books",
+    // Readwise sends one webhook per highlight; collect a burst into a single run per user
+    batchEvents: {
+      maxSize: 100,
+      timeout: "60s",
+      key: "event.data.userId"
+    }
+  },
+  { event: "readwise/sync-changed-books" },
+  async ({ events, step, logger }) => {
+    // Every event in the batch belongs to the same user
+    const { userId } = events[events.length - 1].data;
+    const rwBookIds = [...new Set(events.flatMap(e => e.data.bookIds || []).map(Number))];
+
+    logger.info("Starting targeted Readwise sync", { userId, books: rwBookIds.length, events: events.length });
+
+    if (!userId || rwBookIds.length === 0) {
+      logger.error("Missing user ID or book IDs");
+      return markAsError({
+        success: false,
+        error: "Missing user ID or book IDs",
+        books: 0,
+        upserted: 0
+      });
+    }
+
+    // Many books changed at once: a regular incremental sync is cheaper
+    if (rwBookIds.length > MAX_TARGETED_BOOKS) {
+      await step.run("fall-back-to-incremental-sync", async () => {
+        logger.info(`${rwBookIds.length} books changed, sending a regular highlights sync instead`);
+        await inngest.send({
+          name: "readwise/sync-highlights",
+          data: { userId }
+        });
+      });
+
+      return markAsLastStep({
+        success: true,
+        fallback: true,
+        books: rwBookIds.length,
+        upserted: 0
+      });
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error",
+        books: 0,
+        upserted: 0
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    try {
+      const syncResult = await step.run("sync-changed-books", async () => {
+        const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
+        let booksSynced = 0;
+        let upsertedCount = 0;
+        let trashedCount = 0;
+        const deletedRwBookIds: number[] = [];
+
+        for (const rwBookId of rwBookIds) {
+          // Book details; a book deleted in Readwise is gone from the API
+          let book: any;
+          try {
+            book = await throttledReadwiseRequest(`https://readwise.io/api/v2/books/${rwBookId}/`, apiKey, logger);
+          } catch (error) {
+            if (error instanceof Error && error.message.includes('(404)')) {
+              logger.info(`Book ${rwBookId} no longer exists in Readwise`);
+              deletedRwBookIds.push(rwBookId);
+              continue;
+            }
+            throw error;
+          }
+
+          if (book.is_deleted) {
+            deletedRwBookIds.push(rwBookId);
+            continue;
+          }
+
+          const { data: savedBook, error: bookError } = await supabase
+            .from('books')
+            .upsert({
+              user_id: userId,
+              rw_id: book.id,
+              rw_title: book.title,
+              rw_author: book.author,
+              rw_category: book.category,
+              rw_source: book.source,
+              rw_num_highlights: book.num_highlights,
+              rw_last_highlight_at: book.last_highlight_at,
+              rw_updated: book.updated,
+              rw_cover_image_url: book.cover_image_url,
+              rw_highlights_url: book.highlights_url,
+              rw_source_url: book.source_url,
+              rw_asin: book.asin,
+              rw_tags: book.tags || [],
+              rw_document_note: book.document_note
+            }, { onConflict: 'user_id,rw_id' })
+            .select('id')
+            .single();
+
+          if (bookError || !savedBook) {
+            logger.error(`Error saving book ${rwBookId}:`, bookError);
+            continue;
+          }
+
+          booksSynced++;
+
+          // All highlights of this book
+          const highlightsToUpsert = [];
+          const deletedRwIds: number[] = [];
+          const discardedRwIds: number[] = [];
+          let nextUrl: string | null = `https://readwise.io/api/v2/highlights/?book_id=${rwBookId}&page_size=1000`;
+
+          while (nextUrl) {
+            const data = await throttledReadwiseRequest(nextUrl, apiKey, logger);
+
+            for (const highlight of data.results || []) {
+              // Deleted/discarded highlights go to the trash instead of being upserted
+              if (highlight.is_deleted) {
+                deletedRwIds.push(highlight.id);
+                continue;
+              }
+              if (highlight.is_discard) {
+                discardedRwIds.push(highlight.id);
+                continue;
+              }
+
+              highlightsToUpsert.push({
+                user_id: userId,
+                book_id: savedBook.id,
+                rw_id: highlight.id,
+                rw_text: highlight.text,
+                rw_note: highlight.note,
+                rw_location: highlight.location,
+                rw_location_type: highlight.location_type,
+                rw_highlighted_at: highlight.highlighted_at,
+                rw_updated: highlight.updated,
+                rw_book_id: highlight.book_id,
+                rw_url: highlight.url,
+                rw_color: highlight.color,
+                rw_tags: highlight.tags || [],
+                // Reactivate highlights that were trashed but are live upstream again
+                deleted_at: null,
+                deletion_reason: null
+              });
+            }
+
+            nextUrl = data.next || null;
+          }
+
+          // Upsert highlights in batches of 100
+          const batchSize = 100;
+          for (let i = 0; i < highlightsToUpsert.length; i += batchSize) {
+            const batch = highlightsToUpsert.slice(i, i + batchSize);
+
+            const { error: upsertError } = await supabase
+              .from('highlights')
+              .upsert(batch, {
+                onConflict: 'user_id,rw_id',
+                ignoreDuplicates: false
+              });
+
+            if (upsertError) {
+              logger.error(`Error upserting highlights of book ${rwBookId}:`, upsertError);
+            } else {
+              upsertedCount += batch.length;
+            }
+          }
+
+          trashedCount += await trashHighlightsByRwIds(supabase, userId, deletedRwIds, 'readwise_deleted', logger);
+          trashedCount += await trashHighlightsByRwIds(supabase, userId, discardedRwIds, 'readwise_discarded', logger);
+
+          logger.info(`Book ${rwBookId} (${book.title}): ${highlightsToUpsert.length} highlights upserted`);
+        }
+
+        // Soft-delete highlights of books that were deleted in Readwise
+        if (deletedRwBookIds.length > 0) {
+          const { data: deletedBooks, error } = await supabase
+            .from('books')
+            .select('id')
+            .eq('user_id', userId)
+            .in('rw_id', deletedRwBookIds);
+
+          if (error) {
+            logger.error("Error fetching deleted books:", error);
+          } else {
+            trashedCount += await trashHighlightsByBookIds(
+              supabase,
+              userId,
+              (deletedBooks || []).map(b => b.id),
+              'readwise_deleted',
+              logger
+            );
+          }
+        }
+
+        return {
+          books: booksSynced,
+          upserted: upsertedCount,
+          trashed: trashedCount
+        };
+      });
+
+      // Run the user's automation rules on what this sync imported or updated
+      await step.run("queue-automation-rules", async () => {
+        if (syncResult.upserted === 0) {
+          return { queued: false };
+        }
+
+        const since = new Date(events[0].ts ?? Date.now()).toISOString();
+
+        await inngest.send([
+          {
+            name: "automations/run-rules",
+            data: { userId, target: 'book', since, trigger: "readwise-sync-changed-books" }
+          },
+          {
+            name: "automations/run-rules",
+            data: { userId, target: 'highlight', since, trigger: "readwise-sync-changed-books" }
+          }
+        ]);
+
+        return { queued: true };
+      });
+
+      logger.info("Targeted Readwise sync completed", syncResult);
+
+      return markAsLastStep({
+        success: true,
+        fallback: false,
+        ...syncResult
+      });
+    } catch (error) {
+      logger.error("Error in Readwise sync changed books function:", error);
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        books: 0,
+        upserted: 0
+      });
+    }
+  }
+);
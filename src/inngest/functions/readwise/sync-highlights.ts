@@ -1,6 +1,8 @@
 import { inngest } from "../../client";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
 import { throttledReadwiseRequest } from "../../utils/readwise-api";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
+import { trashHighlightsByRwIds } from "../../utils/highlight-trash";
 import { createClient } from "@supabase/supabase-js";
 
 // Function to import highlights from Readwise to Supabase
@@ -8,15 +10,15 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
   { id: "readwise-sync-highlights" },
   { event: "readwise/sync-highlights" },
   async ({ event, step, logger }) => {
-    const { userId, apiKey } = event.data;
+    const { userId } = event.data;
 
     logger.info("Starting Readwise highlights import", { userId });
 
-    if (!userId || !apiKey) {
-      logger.error("Missing user ID or API key");
+    if (!userId) {
+      logger.error("Missing user ID");
       return markAsError({
         success: false,
-        error: "Missing user ID or API key",
+        error: "Missing user ID",
         totalHighlights: 0,
         upserted: 0,
         existingHighlights: 0
@@ -44,22 +46,30 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
       // Step 0: Sync books first to ensure all books are up-to-date
       await step.run("sync-books-first", async () => {
         logger.info("Triggering books sync to ensure all books are current before syncing highlights");
-        
-        // Send event to trigger books sync
+
         await inngest.send({
           name: "readwise/sync-books",
-          data: {
-            userId,
-            apiKey
-          }
+          data: { userId }
         });
-        
+
         logger.info("Books sync event sent");
-        return { success: true };
       });
 
-      // Wait a moment for books to sync (you may want to use step.waitForEvent for more robust sync)
-      await step.sleep("wait-for-books-sync", "30s");
+      // Wait for this user's books sync to finish. If it fails or times out we carry on with
+      // the books we have: highlights of missing books are skipped and picked up next sync.
+      const booksSynced = await step.waitForEvent("wait-for-books-sync", {
+        event: "readwise/books-synced",
+        timeout: "15m",
+        match: "data.userId"
+      });
+
+      if (!booksSynced) {
+        logger.warn("Timed out waiting for the books sync, continuing with existing books");
+      } else if (!booksSynced.data.success) {
+        logger.warn("Books sync failed, continuing with existing books");
+      } else {
+        logger.info(`Books sync finished. Imported: ${booksSynced.data.imported}, Updated: ${booksSynced.data.updated}`);
+      }
 
       // Step 1: Get the books first to create a map of book ids
       const booksResult = await step.run("fetch-book-ids", async () => {
@@ -230,6 +240,7 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
       logger.info("Starting to import highlights from Readwise");
       const importResult = await step.run("import-highlights-from-readwise", async () => {
         logger.info(`Importing Readwise highlights for user ${userId} (${syncType} sync)`);
+        const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
 
         // Determine starting URL based on sync type
         const baseUrl = "https://readwise.io/api/v2/highlights/";
@@ -256,6 +267,8 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
         const apiStartTime = Date.now();
 
         let highlightsToUpsert = [];
+        const deletedRwIds: number[] = [];
+        const discardedRwIds: number[] = [];
         let totalReadwiseHighlights = 0;
         let highlightsWithoutBooks = 0;
         let nextCursor: string | null = null;
@@ -281,6 +294,16 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
 
             // Process all highlights on this page in memory
             for (const highlight of highlights) {
+              // Deleted/discarded highlights go to the trash instead of being upserted
+              if (highlight.is_deleted) {
+                deletedRwIds.push(highlight.id);
+                continue;
+              }
+              if (highlight.is_discard) {
+                discardedRwIds.push(highlight.id);
+                continue;
+              }
+
               // Skip highlights without a book_id - we need to import books first
               if (!highlight.book_id) {
                 logger.warn(`Highlight ${highlight.id} has no book_id, skipping`);
@@ -312,14 +335,17 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
                 rw_book_id: highlight.book_id,
                 rw_url: highlight.url,
                 rw_color: highlight.color,
-                rw_tags: highlight.tags || []
+                rw_tags: highlight.tags || [],
+                // Reactivate highlights that were trashed but are live upstream again
+                deleted_at: null,
+                deletion_reason: null
               };
 
               // Add to upsert batch (handles both inserts and updates)
               highlightsToUpsert.push(highlightData);
             }
 
-            logger.info(`Page ${pagesProcessed}: Processed ${highlights.length} highlights. Cumulative totals - To upsert: ${highlightsToUpsert.length}, Without books: ${highlightsWithoutBooks}`);
+            logger.info(`Page ${pagesProcessed}: Processed ${highlights.length} highlights. Cumulative totals - To upsert: ${highlightsToUpsert.length}, To trash: ${deletedRwIds.length + discardedRwIds.length}, Without books: ${highlightsWithoutBooks}`);
 
             // Save the next cursor for continuation
             nextCursor = data.next || null;
@@ -414,6 +440,16 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
           logger.info("No highlights to upsert");
         }
 
+        // Soft-delete highlights Readwise flagged as deleted or discarded
+        let trashedCount = 0;
+        try {
+          trashedCount += await trashHighlightsByRwIds(supabase, userId, deletedRwIds, 'readwise_deleted', logger);
+          trashedCount += await trashHighlightsByRwIds(supabase, userId, discardedRwIds, 'readwise_discarded', logger);
+        } catch (error) {
+          // Don't fail the run over it: the upserts above have already been committed
+          logger.error("Failed to trash deleted highlights:", error);
+        }
+
         // Log database operation metrics
         const dbDuration = Date.now() - dbStartTime;
         const dbDurationSeconds = (dbDuration / 1000).toFixed(2);
@@ -431,13 +467,14 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
           logger.info(`DB Operation Summary: ${batchCount} batches processed, ${upsertedCount} highlights upserted in ${dbDurationSeconds}s`);
         }
 
-        // Get total highlight count for this user after sync (optional monitoring metric)
+        // Get total active highlight count for this user after sync (optional monitoring metric)
         let totalHighlightsInDb = 0;
         try {
           const { count, error: countError } = await supabase
             .from('highlights')
             .select('*', { count: 'exact', head: true })
-            .eq('user_id', userId);
+            .eq('user_id', userId)
+            .is('deleted_at', null);
 
           if (!countError && count !== null) {
             totalHighlightsInDb = count;
@@ -447,10 +484,11 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
           logger.warn("Could not fetch total highlight count:", error);
         }
 
-        logger.info(`Completed database operations. Upserted: ${upsertedCount}${failedBatches.length > 0 ? `, Failed batches: ${failedBatches.length}` : ''}`);
+        logger.info(`Completed database operations. Upserted: ${upsertedCount}, Trashed: ${trashedCount}${failedBatches.length > 0 ? `, Failed batches: ${failedBatches.length}` : ''}`);
 
         return {
           upserted: upsertedCount,
+          trashed: trashedCount,
           totalHighlights: totalReadwiseHighlights,
           withoutBooks: highlightsWithoutBooks,
           totalInDatabase: totalHighlightsInDb,
@@ -527,6 +565,25 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
         return { success: true };
       });
 
+      // Run the user's automation rules on what this sync imported or updated
+      await step.run("queue-automation-rules", async () => {
+        if (importResult.upserted === 0) {
+          return { queued: false };
+        }
+
+        await inngest.send({
+          name: "automations/run-rules",
+          data: {
+            userId,
+            target: 'highlight',
+            since: new Date(event.ts ?? Date.now()).toISOString(),
+            trigger: "readwise-sync-highlights"
+          }
+        });
+
+        return { queued: true };
+      });
+
       // Final log and return
       const hasFailures = importResult.failedBatchCount > 0;
       const isInProgress = !importResult.reachedEnd && importResult.nextCursor;
@@ -548,6 +605,7 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
         totalHighlights: importResult.totalHighlights,
         existingHighlights: existingHighlightsCount,
         upserted: importResult.upserted,
+        trashed: importResult.trashed,
         withoutBooks: importResult.withoutBooks,
         totalInDatabase: importResult.totalInDatabase,
         apiDuration: `${importResult.apiDuration}s`,
@@ -567,6 +625,7 @@ export const readwiseSyncHighlightsFn = inngest.createFunction(
         totalHighlights: importResult.totalHighlights,
         existingHighlights: existingHighlightsCount,
         upserted: importResult.upserted,
+        trashed: importResult.trashed,
         withoutBooks: importResult.withoutBooks,
         totalInDatabase: importResult.totalInDatabase,
         apiDuration: importResult.apiDuration,
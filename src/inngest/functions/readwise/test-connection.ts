@@ -1,22 +1,23 @@
 import { inngest } from "../../client";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
 import { throttledReadwiseAuthRequest } from "../../utils/readwise-api";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
 
 // Function to test Readwise connection (manually triggered only)
 export const readwiseConnectionTestFn = inngest.createFunction(
   { id: "readwise-connection-test" },
   { event: "readwise/test-connection" },
   async ({ event, step, logger }) => {
-    const { userId, apiKey } = event.data;
+    const { userId } = event.data;
     
     // Use the built-in logger for operational logs
     logger.info("Testing Readwise connection", { userId });
     
-    if (!userId || !apiKey) {
-      logger.error("Missing user ID or API key");
+    if (!userId) {
+      logger.error("Missing user ID");
       return markAsError({ 
         success: false, 
-        error: "Missing user ID or API key"
+        error: "Missing user ID"
       });
     }
     
@@ -26,6 +27,7 @@ export const readwiseConnectionTestFn = inngest.createFunction(
         logger.info(`Testing Readwise connection for user ${userId}`);
         
         // Use throttled auth request
+        const apiKey = await requireIntegrationCredential(userId, 'readwise');
         const result = await throttledReadwiseAuthRequest(apiKey, logger);
         
         if (result.success) {
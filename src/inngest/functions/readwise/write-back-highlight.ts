@@ -0,0 +1,304 @@
+import { inngest } from "../../client";
+import { markAsError, markAsLastStep } from "../../utils/function-conventions";
+import { throttledReadwiseRequest } from "../../utils/readwise-api";
+import { createClient } from "@supabase/supabase-js";
+import { requireIntegrationCredential } from "../../utils/integration-credentials";
+import { getIntegrationCredential } from "@/lib/integration-credentials";
+
+const READWISE_HIGHLIGHTS_URL = "https://readwise.io/api/v2/highlights";
+
+interface UpstreamHighlight {
+  note: string;
+  updated: string;
+  tags: Array<{ id: number; name: string }>;
+}
+
+function toUpstreamHighlight(data: any): UpstreamHighlight {
+  return {
+    note: data?.note || '',
+    updated: data?.updated,
+    tags: (data?.tags || []).map((tag: any) => ({ id: Number(tag.id), name: String(tag.name) }))
+  };
+}
+
+/**
+ * Pushes local note and tag edits for a highlight back to Readwise (opt-in)
+ *
+ * Conflict detection: if Readwise changed the highlight after our last sync (its `updated`
+ * is newer than our `rw_updated`) and its note differs from the one we last synced, the
+ * note is not pushed, so an edit made in Readwise is never silently overwritten. Tag adds
+ * and removes are applied regardless, since they merge rather than replace.
+ *
+ * After a clean push, `rw_note`, `rw_tags` and `rw_updated` are refreshed from Readwise so
+ * the next sync sees no difference.
+ */
+export const readwiseWriteBackHighlightFn = inngest.createFunction(
+  {
+    id: "readwise-write-back-highlight",
+    // One push per highlight at a time, so rapid edits can't interleave
+    concurrency: {
+      limit: 1,
+      key: "event.data.highlightId"
+    }
+  },
+  { event: "readwise/write-back-highlight" },
+  async ({ event, step, logger }) => {
+    const { userId, highlightId, note = false, addTagIds = [], removeTagIds = [] } = event.data;
+
+    if (!userId || !highlightId) {
+      logger.error("Missing user ID or highlight ID");
+      return markAsError({
+        success: false,
+        error: "Missing user ID or highlight ID"
+      });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error("Missing Supabase configuration");
+      return markAsError({
+        success: false,
+        error: "Server configuration error"
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    try {
+      // Step 1: Make sure the user still has write-back enabled
+      const settingsResult = await step.run("load-write-back-settings", async () => {
+        const { data, error } = await supabase
+          .from('user_settings')
+          .select('settings')
+          .eq('id', userId)
+          .single();
+
+        if (error) {
+          logger.error("Error fetching user settings:", error);
+          throw error;
+        }
+
+        const readwise = data?.settings?.integrations?.readwise || {};
+        // Only whether a token exists: step output is stored by Inngest, so the token is
+        // looked up again in each step that calls Readwise
+        const connected = !!readwise.writeBack && !!(await getIntegrationCredential(supabase, userId, 'readwise'));
+        return { writeBack: !!readwise.writeBack, connected };
+      });
+
+      if (!settingsResult.writeBack || !settingsResult.connected) {
+        logger.info("Readwise write-back is disabled or not configured; skipping");
+        return markAsLastStep({
+          success: true,
+          skipped: true,
+          message: "Readwise write-back is disabled"
+        });
+      }
+
+      // Step 2: Load the local highlight, its current user note and the tag names involved
+      const local = await step.run("load-local-highlight", async () => {
+        const { data: highlight, error } = await supabase
+          .from('highlights')
+          .select(`
+            rw_id,
+            source,
+            rw_note,
+            rw_updated,
+            deleted_at,
+            highlight_notes(
+              notes:note_id(content)
+            )
+          `)
+          .eq('id', highlightId)
+          .eq('user_id', userId)
+          .eq('highlight_notes.kind', 'attached')
+          .single();
+
+        if (error) {
+          logger.error("Error fetching highlight:", error);
+          throw error;
+        }
+
+        const tagIds = [...addTagIds, ...removeTagIds];
+        const tagNames: Record<string, string> = {};
+
+        if (tagIds.length > 0) {
+          const { data: tags, error: tagsError } = await supabase
+            .from('tags')
+            .select('id, name')
+            .in('id', tagIds)
+            .eq('user_id', userId);
+
+          if (tagsError) {
+            logger.error("Error fetching tags:", tagsError);
+            throw tagsError;
+          }
+
+          for (const tag of tags || []) {
+            tagNames[tag.id] = tag.name;
+          }
+        }
+
+        const noteRows = (highlight as any).highlight_notes || [];
+
+        return {
+          rwId: Number(highlight.rw_id),
+          rwNote: (highlight.rw_note || '') as string,
+          rwUpdated: highlight.rw_updated as string | null,
+          isDeleted: !!highlight.deleted_at,
+          isImported: highlight.source !== 'readwise',
+          userNote: (noteRows[0]?.notes?.content ?? null) as string | null,
+          addTagNames: addTagIds.map((id: string) => tagNames[id]).filter(Boolean) as string[],
+          removeTagNames: removeTagIds.map((id: string) => tagNames[id]).filter(Boolean) as string[]
+        };
+      });
+
+      if (local.isDeleted) {
+        logger.info("Highlight is in the trash; skipping write-back");
+        return markAsLastStep({
+          success: true,
+          skipped: true,
+          message: "Highlight is in the trash"
+        });
+      }
+
+      if (local.isImported) {
+        logger.info("Highlight was imported from a file, not Readwise; skipping write-back");
+        return markAsLastStep({
+          success: true,
+          skipped: true,
+          message: "Highlight is not from Readwise"
+        });
+      }
+
+      const highlightUrl = `${READWISE_HIGHLIGHTS_URL}/${local.rwId}/`;
+
+      // Step 3: Read the current state from Readwise for conflict detection
+      const upstream = await step.run("fetch-upstream-highlight", async () => {
+        const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
+        const data = await throttledReadwiseRequest(highlightUrl, apiKey, logger);
+        return toUpstreamHighlight(data);
+      });
+
+      const changedUpstream = !!local.rwUpdated && !!upstream.updated
+        && new Date(upstream.updated).getTime() > new Date(local.rwUpdated).getTime();
+
+      const wantsNotePush = note && local.userNote !== null && local.userNote !== upstream.note;
+      const noteConflict = wantsNotePush && changedUpstream && upstream.note !== local.rwNote;
+
+      if (noteConflict) {
+        logger.warn("Readwise note changed since last sync; not overwriting it", {
+          rwId: local.rwId,
+          localUpdated: local.rwUpdated,
+          upstreamUpdated: upstream.updated
+        });
+      }
+
+      // Step 4: Push the note
+      const notePushed = await step.run("push-note", async () => {
+        if (!wantsNotePush || noteConflict) {
+          return false;
+        }
+
+        const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
+        await throttledReadwiseRequest(highlightUrl, apiKey, logger, {
+          method: 'PATCH',
+          body: { note: local.userNote }
+        });
+
+        logger.info(`Pushed note for Readwise highlight ${local.rwId}`);
+        return true;
+      });
+
+      // Step 5: Add and remove tags, comparing names case-insensitively
+      const tagResult = await step.run("push-tags", async () => {
+        const upstreamByName = new Map(upstream.tags.map(tag => [tag.name.toLowerCase(), tag]));
+        const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
+        let added = 0;
+        let removed = 0;
+
+        for (const name of local.addTagNames) {
+          if (upstreamByName.has(name.toLowerCase())) continue;
+
+          await throttledReadwiseRequest(`${highlightUrl}tags/`, apiKey, logger, {
+            method: 'POST',
+            body: { name }
+          });
+          added++;
+        }
+
+        for (const name of local.removeTagNames) {
+          const upstreamTag = upstreamByName.get(name.toLowerCase());
+          if (!upstreamTag) continue;
+
+          await throttledReadwiseRequest(`${highlightUrl}tags/${upstreamTag.id}/`, apiKey, logger, {
+            method: 'DELETE'
+          });
+          removed++;
+        }
+
+        if (added > 0 || removed > 0) {
+          logger.info(`Updated tags for Readwise highlight ${local.rwId}`, { added, removed });
+        }
+
+        return { added, removed };
+      });
+
+      const wroteChanges = notePushed || tagResult.added > 0 || tagResult.removed > 0;
+
+      // Step 6: Re-baseline the local copy so the next sync and write-back see no conflict.
+      // Skipped on conflict so the upstream note edit is pulled in by the regular sync instead.
+      if (wroteChanges && !noteConflict) {
+        await step.run("refresh-local-baseline", async () => {
+          const apiKey = await requireIntegrationCredential(userId, 'readwise', supabase);
+          const refreshed = toUpstreamHighlight(
+            await throttledReadwiseRequest(highlightUrl, apiKey, logger)
+          );
+
+          const { error } = await supabase
+            .from('highlights')
+            .update({
+              rw_note: refreshed.note,
+              rw_tags: refreshed.tags,
+              rw_updated: refreshed.updated
+            })
+            .eq('id', highlightId)
+            .eq('user_id', userId);
+
+          if (error) {
+            logger.error("Error refreshing local highlight after write-back:", error);
+            throw error;
+          }
+
+          return { success: true };
+        });
+      }
+
+      if (noteConflict) {
+        return markAsError({
+          success: false,
+          error: "Note was changed in Readwise since the last sync and was not overwritten",
+          conflict: true,
+          rwId: local.rwId,
+          tagsAdded: tagResult.added,
+          tagsRemoved: tagResult.removed
+        });
+      }
+
+      return markAsLastStep({
+        success: true,
+        rwId: local.rwId,
+        notePushed,
+        tagsAdded: tagResult.added,
+        tagsRemoved: tagResult.removed
+      });
+    } catch (error) {
+      logger.error("Error in Readwise write-back function:", error);
+      return markAsError({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  }
+);
@@ -1,41 +1,58 @@
 import { inngest } from "../../client";
 import { markAsError, markAsLastStep } from "../../utils/function-conventions";
 import { createClient } from "@supabase/supabase-js";
+import { getIntegrationCredentials } from "@/lib/integration-credentials";
+import type { IntegrationProvider } from "@/lib/types";
+
+type UserCredentials = Partial<Record<IntegrationProvider, string>>;
 
 // Task configuration mapping
+// Integration tokens are not part of the settings; `credentials` is only used to check a task's
+// integration is connected. Events carry the user ID and the functions resolve the token themselves.
 const TASK_CONFIG: Record<string, {
   eventName: string;
   getEventData: (userId: string, settings: any) => any;
-  validateSettings: (settings: any) => boolean;
+  validateSettings: (settings: any, credentials: UserCredentials) => boolean;
 }> = {
   "airtable-import-sparks": {
     eventName: "airtable/import-sparks",
     getEventData: (userId, settings) => ({
       userId,
-      apiKey: settings.integrations?.airtable?.apiKey,
       baseId: settings.integrations?.airtable?.baseId,
       tableId: settings.integrations?.airtable?.tableId
     }),
-    validateSettings: (settings) => {
+    validateSettings: (settings, credentials) => {
       const airtable = settings.integrations?.airtable;
-      return !!(airtable?.apiKey && airtable?.baseId && airtable?.tableId);
+      return !!(credentials.airtable && airtable?.baseId && airtable?.tableId);
     }
   },
   "readwise-books-import": {
     eventName: "readwise/sync-books",
-    getEventData: (userId, settings) => ({
-      userId,
-      apiKey: settings.integrations?.readwise?.apiKey
+    getEventData: (userId) => ({
+      userId
     }),
-    validateSettings: (settings) => !!settings.integrations?.readwise?.apiKey
+    validateSettings: (settings, credentials) => !!credentials.readwise
   },
   "readwise-highlights-sync": {
     eventName: "readwise/sync-highlights",
-    getEventData: (userId, settings) => ({
-      userId,
-      apiKey: settings.integrations?.readwise?.apiKey
+    getEventData: (userId) => ({
+      userId
+    }),
+    validateSettings: (settings, credentials) => !!credentials.readwise
+  },
+  "readwise-reader-import": {
+    eventName: "readwise/import-reader-documents",
+    getEventData: (userId) => ({
+      userId
     }),
-    validateSettings: (settings) => !!settings.integrations?.readwise?.apiKey
+    validateSettings: (settings, credentials) => !!credentials.readwise
+  },
+  "readwise-highlights-reconcile": {
+    eventName: "readwise/reconcile-highlights",
+    getEventData: (userId) => ({
+      userId
+    }),
+    validateSettings: (settings, credentials) => !!credentials.readwise
   },
   "generate-embeddings": {
     eventName: "embeddings/generate-highlight-embeddings",
@@ -43,6 +60,24 @@ const TASK_CONFIG: Record<string, {
       userId
     }),
     validateSettings: (settings) => true // Uses global OpenAI API key, no user-specific settings required
+  },
+  "generate-content-embeddings": {
+    eventName: "embeddings/generate-content-embeddings",
+    getEventData: (userId, settings) => ({
+      userId
+    }),
+    validateSettings: (settings) => true // Uses global OpenAI API key, no user-specific settings required
+  },
+  "highlight-digest": {
+    eventName: "email/send-highlight-digest",
+    getEventData: (userId, settings) => ({
+      userId
+    }),
+    validateSettings: (settings) => {
+      const digest = settings.digest;
+      // Without categories the category digest has nothing to pick from
+      return !(digest?.source === 'categories' && !digest.categoryIds?.length);
+    }
   }
 };
 
@@ -124,6 +159,8 @@ async function processScheduledTasks({ step, logger }: { step: any; logger: any
         try {
           const settings = user.settings as any;
           const scheduledTasks = settings?.scheduledTasks || {};
+          // Only decrypted when one of the user's tasks is enabled
+          let credentials: UserCredentials | null = null;
           
           // Process each scheduled task for this user
           for (const [taskId, taskSchedule] of Object.entries(scheduledTasks)) {
@@ -142,7 +179,8 @@ async function processScheduledTasks({ step, logger }: { step: any; logger: any
             }
             
             // Validate that user has required settings for this task
-            if (!taskConfig.validateSettings(settings)) {
+            credentials ??= await getIntegrationCredentials(supabase, user.id);
+            if (!taskConfig.validateSettings(settings, credentials)) {
               logger.debug(`Skipping task ${taskId} for user ${user.id}: missing required settings`);
               skippedCount++;
               continue;
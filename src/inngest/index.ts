@@ -20,4 +20,16 @@ export * from './functions/scheduled';
 export * from './functions/automations';
 
 // Export embeddings functions
-export * from './functions/embeddings'; 
\ No newline at end of file
+export * from './functions/embeddings';
+
+// Export exports functions
+export * from './functions/exports';
+
+// Export email functions
+export * from './functions/email';
+
+// Export imports functions
+export * from './functions/imports';
+
+// Export notifications functions
+export * from './functions/notifications';
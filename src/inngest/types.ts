@@ -1,27 +1,58 @@
+import type { ImportFormat } from '@/lib/import/format';
+
 // Define event types for better type safety
 export type AppEvents = {
   "readwise/count-books": {
     data: {
       userId: string;
-      apiKey: string;
     };
   };
   "readwise/test-connection": {
     data: {
       userId: string;
-      apiKey: string;
     }
   };
   "readwise/sync-books": {
     data: {
       userId: string;
-      apiKey: string;
+    }
+  };
+  "readwise/books-synced": {
+    data: {
+      userId: string;
+      success: boolean;
+      imported: number;
+      updated: number;
+    }
+  };
+  "readwise/sync-changed-books": {
+    data: {
+      userId: string;
+      bookIds: number[]; // Readwise book IDs
     }
   };
   "readwise/sync-highlights": {
     data: {
       userId: string;
-      apiKey: string;
+    }
+  };
+  "readwise/reconcile-highlights": {
+    data: {
+      userId: string;
+    }
+  };
+  "readwise/import-reader-documents": {
+    data: {
+      userId: string;
+    }
+  };
+  "readwise/write-back-highlight": {
+    data: {
+      userId: string;
+      highlightId: string;
+      note?: boolean;
+      addTagIds?: string[];
+      removeTagIds?: string[];
     }
   };
   "tags/migrate-highlight-tags": {
@@ -32,7 +63,6 @@ export type AppEvents = {
   "airtable/import-sparks": {
     data: {
       userId: string;
-      apiKey: string;
       baseId: string;
       tableId: string;
     }
@@ -42,6 +72,42 @@ export type AppEvents = {
       userId: string;
     }
   };
+  "embeddings/generate-content-embeddings": {
+    data: {
+      userId: string;
+    }
+  };
+  "export/markdown-vault": {
+    data: {
+      userId: string;
+      exportId: string;
+      uploadToExternal?: boolean;
+    }
+  };
+  "import/highlights-file": {
+    data: {
+      userId: string;
+      storagePath: string; // Uploaded file in the private imports bucket
+      fileName: string;
+      format: ImportFormat;
+    }
+  };
+  "automations/run-rules": {
+    data: {
+      userId: string;
+      target: 'book' | 'highlight' | 'spark';
+      since?: string; // Only evaluate resources updated at or after this time
+      trigger?: string; // ID of the function that sent the event, for logs
+    }
+  };
+  "email/send-highlight-digest": {
+    data: {
+      userId: string;
+    }
+  };
+  "notifications/check-stale-integrations": {
+    data: Record<string, never>;
+  };
 };
 
 // Readwise specific types
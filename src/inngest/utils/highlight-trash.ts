@@ -0,0 +1,90 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { HighlightDeletionReason } from "@/lib/types";
+
+type TrashLogger = {
+  info: (message: string, context?: any) => void;
+  error: (message: string, context?: any) => void;
+};
+
+// Keeps the `in` filter well under PostgREST's URL length limit
+const TRASH_BATCH_SIZE = 200;
+
+/**
+ * Soft-deletes highlights by their Readwise IDs
+ *
+ * Rows stay in place with `deleted_at` set, so tag, category and note links survive
+ * and restoring from the trash brings the highlight back intact. Already-trashed rows
+ * are left alone so their original deletion reason and timestamp are kept.
+ *
+ * @returns Number of highlights moved to the trash
+ */
+export async function trashHighlightsByRwIds(
+  supabase: SupabaseClient,
+  userId: string,
+  rwIds: number[],
+  reason: HighlightDeletionReason,
+  logger: TrashLogger
+): Promise<number> {
+  let trashed = 0;
+  const deletedAt = new Date().toISOString();
+
+  for (let i = 0; i < rwIds.length; i += TRASH_BATCH_SIZE) {
+    const batch = rwIds.slice(i, i + TRASH_BATCH_SIZE);
+
+    const { data, error } = await supabase
+      .from('highlights')
+      .update({ deleted_at: deletedAt, deletion_reason: reason })
+      .eq('user_id', userId)
+      .in('rw_id', batch)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error(`Error trashing highlights (${reason}):`, error);
+      throw error;
+    }
+
+    trashed += data?.length || 0;
+  }
+
+  if (trashed > 0) {
+    logger.info(`Moved ${trashed} highlights to the trash (${reason})`);
+  }
+
+  return trashed;
+}
+
+/**
+ * Soft-deletes every active highlight belonging to the given books
+ *
+ * USE WHEN: Readwise reports a whole book as deleted
+ */
+export async function trashHighlightsByBookIds(
+  supabase: SupabaseClient,
+  userId: string,
+  bookIds: string[],
+  reason: HighlightDeletionReason,
+  logger: TrashLogger
+): Promise<number> {
+  if (bookIds.length === 0) {
+    return 0;
+  }
+
+  const { data, error } = await supabase
+    .from('highlights')
+    .update({ deleted_at: new Date().toISOString(), deletion_reason: reason })
+    .eq('user_id', userId)
+    .in('book_id', bookIds)
+    .is('deleted_at', null)
+    .select('id');
+
+  if (error) {
+    logger.error(`Error trashing highlights for deleted books:`, error);
+    throw error;
+  }
+
+  const trashed = data?.length || 0;
+  logger.info(`Moved ${trashed} highlights from ${bookIds.length} deleted books to the trash`);
+
+  return trashed;
+}
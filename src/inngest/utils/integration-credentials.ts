@@ -0,0 +1,33 @@
+import { NonRetriableError } from "inngest";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getIntegrationCredential } from "@/lib/integration-credentials";
+import { createServerClient } from "@/lib/supabase";
+import type { IntegrationProvider } from "@/lib/types";
+
+const PROVIDER_NAMES: Record<IntegrationProvider, string> = {
+  readwise: 'Readwise',
+  airtable: 'Airtable'
+};
+
+/**
+ * Look up a user's integration token from inside a step
+ *
+ * Inngest stores event payloads and step output, so tokens travel in neither: events carry
+ * only the user ID, and every step that calls the provider resolves the token itself.
+ * Never return the token from `step.run`.
+ *
+ * @throws NonRetriableError when the user has not connected the integration
+ */
+export async function requireIntegrationCredential(
+  userId: string,
+  provider: IntegrationProvider,
+  supabase: SupabaseClient = createServerClient()
+): Promise<string> {
+  const token = await getIntegrationCredential(supabase, userId, provider);
+
+  if (!token) {
+    throw new NonRetriableError(`${PROVIDER_NAMES[provider]} is not connected for this user`);
+  }
+
+  return token;
+}
@@ -3,7 +3,7 @@ const readwiseRateLimit = {
   lastRequestTime: 0,
   requestCount: 0,
   // Default delay is based on endpoint type
-  // Books/Highlights APIs: 20 req/min = 3000ms
+  // Books/Highlights APIs and Reader list: 20 req/min = 3000ms
   // Other endpoints: 240 req/min = 250ms
   defaultDelayMs: {
     list: 3000, // For book/highlight LIST endpoints: 20 req/min
@@ -13,17 +13,29 @@ const readwiseRateLimit = {
   minDelayMs: 250
 };
 
+/**
+ * Options for write requests (note and tag updates)
+ */
+export interface ReadwiseRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+}
+
 /**
  * Makes a throttled request to the Readwise API respecting rate limits
  * Automatically adjusts delay based on response headers or errors
+ *
+ * NOTE: Returns null for empty (204) responses, e.g. tag deletes
  */
 export async function throttledReadwiseRequest(
   url: string, 
   apiKey: string, 
-  logger: { info: (message: string, context?: any) => void; error: (message: string, context?: any) => void; }
+  logger: { info: (message: string, context?: any) => void; error: (message: string, context?: any) => void; },
+  options: ReadwiseRequestOptions = {}
 ): Promise<any> {
   // Determine endpoint type to apply proper rate limit
-  const isListEndpoint = url.includes('/api/v2/books') || url.includes('/api/v2/highlights');
+  // Single-highlight reads and writes (/highlights/<id>/...) use the standard limit
+  const isListEndpoint = /\/api\/(v2\/(books|highlights)|v3\/list)\/?(\?|$)/.test(url);
   const endpointType = isListEndpoint ? 'list' : 'other';
   
   // Set appropriate delay for this endpoint type if not already set
@@ -49,11 +61,12 @@ export async function throttledReadwiseRequest(
   
   try {
     const response = await fetch(url, {
-      method: "GET",
+      method: options.method || "GET",
       headers: {
         "Authorization": `Token ${apiKey}`,
         "Content-Type": "application/json"
-      }
+      },
+      ...(options.body !== undefined && { body: JSON.stringify(options.body) })
     });
     
     // Check for rate limit headers and adjust our delay if needed
@@ -91,7 +104,7 @@ export async function throttledReadwiseRequest(
         await new Promise(resolve => setTimeout(resolve, waitTime));
         
         // Try again with recursion
-        return throttledReadwiseRequest(url, apiKey, logger);
+        return throttledReadwiseRequest(url, apiKey, logger, options);
       }
       
       const errorText = await response.text();
@@ -109,6 +122,10 @@ export async function throttledReadwiseRequest(
       logger.info(`Adjusting Readwise API delay to ${readwiseRateLimit.minDelayMs}ms`);
     }
     
+    if (response.status === 204) {
+      return null;
+    }
+    
     return await response.json();
   } catch (error) {
     // For network errors, increase delay as a precaution
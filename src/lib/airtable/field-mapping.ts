@@ -0,0 +1,202 @@
+import type { AirtableFieldMapping, AirtableTextReplacement } from '@/lib/types';
+
+/**
+ * The "Thoughts Manager" base the Airtable import was written for
+ *
+ * NOTE: Settings saved before field mappings existed have no `fieldMapping`; they keep
+ * importing exactly as before through these defaults.
+ */
+export const DEFAULT_AIRTABLE_FIELD_MAPPING: AirtableFieldMapping = {
+  uid: 'uid',
+  content: 'content',
+  categories: 'Name (from Categories)',
+  tags: 'Name (from Tags)',
+  createdAt: 'originallyCreated',
+  todoId: 'toDoId',
+  requireCategory: true,
+  requireTags: true,
+  replacements: [
+    { find: 'xtians', replace: 'Christians', wholeWord: true },
+    { find: 'xtian', replace: 'Christian', wholeWord: true },
+    { find: 'q for', replace: 'question for', wholeWord: true },
+    { find: 'q: ', replace: 'question: ', wholeWord: true }
+  ]
+};
+
+export interface AirtableField {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface AirtableTableSchema {
+  id: string;
+  name: string;
+  fields: AirtableField[];
+}
+
+/**
+ * Error returned by the Airtable API, keeping the HTTP status
+ * A 403 from the metadata API usually means the token lacks the `schema.bases:read` scope.
+ */
+export class AirtableApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AirtableApiError';
+  }
+}
+
+// Field types whose cell values can't be read as text
+const NON_TEXT_FIELD_TYPES = ['multipleRecordLinks', 'multipleAttachments', 'checkbox', 'button'];
+
+/**
+ * Fill in whatever a stored mapping leaves out with the defaults
+ */
+export function resolveAirtableFieldMapping(stored?: Partial<AirtableFieldMapping> | null): AirtableFieldMapping {
+  return {
+    ...DEFAULT_AIRTABLE_FIELD_MAPPING,
+    ...(stored || {}),
+    replacements: stored?.replacements ?? DEFAULT_AIRTABLE_FIELD_MAPPING.replacements
+  };
+}
+
+/**
+ * Read the table's fields from the Airtable metadata API
+ *
+ * @param tableId - Table ID or name, as entered in the integration settings
+ * @throws AirtableApiError when the request fails or the base has no such table
+ */
+export async function fetchAirtableTableSchema(
+  apiKey: string,
+  baseId: string,
+  tableId: string
+): Promise<AirtableTableSchema> {
+  const response = await fetch(`https://api.airtable.com/v0/meta/bases/${baseId}/tables`, {
+    headers: { 'Authorization': `Bearer ${apiKey}` }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new AirtableApiError(
+      body?.error?.message || body?.error?.type || `Airtable API error (${response.status})`,
+      response.status
+    );
+  }
+
+  const { tables } = await response.json() as { tables: AirtableTableSchema[] };
+
+  let tableName = tableId;
+  try {
+    tableName = decodeURIComponent(tableId);
+  } catch {
+    // Not URL-encoded
+  }
+
+  const table = tables.find(t => t.id === tableId || t.name === tableId || t.name === tableName);
+  if (!table) {
+    throw new AirtableApiError(`Table "${tableName}" was not found in base ${baseId}`, 404);
+  }
+
+  return {
+    id: table.id,
+    name: table.name,
+    fields: table.fields.map(({ id, name, type }) => ({ id, name, type }))
+  };
+}
+
+/**
+ * Check a mapping against the table it will read from
+ *
+ * @returns Problems to show the user; empty when the mapping can be used
+ */
+export function validateAirtableFieldMapping(
+  mapping: AirtableFieldMapping,
+  table: AirtableTableSchema
+): string[] {
+  const problems: string[] = [];
+  const fieldsByName = new Map(table.fields.map(field => [field.name, field]));
+
+  const checkField = (label: string, name: string | null, required: boolean) => {
+    if (!name) {
+      if (required) problems.push(`${label} field is required`);
+      return;
+    }
+
+    const field = fieldsByName.get(name);
+    if (!field) {
+      problems.push(`${label} field "${name}" does not exist in table "${table.name}"`);
+    } else if (field.type === 'multipleRecordLinks') {
+      problems.push(`${label} field "${name}" links to other records and only holds their IDs; map a lookup of their name field instead`);
+    } else if (NON_TEXT_FIELD_TYPES.includes(field.type)) {
+      problems.push(`${label} field "${name}" is a ${field.type} field and can't be read as text`);
+    }
+  };
+
+  checkField('Unique ID', mapping.uid, true);
+  checkField('Content', mapping.content, true);
+  checkField('Category', mapping.categories, mapping.requireCategory);
+  checkField('Tags', mapping.tags, mapping.requireTags);
+  checkField('Created date', mapping.createdAt, false);
+  checkField('To-do ID', mapping.todoId, false);
+
+  if (mapping.replacements.some(rule => !rule.find)) {
+    problems.push('Every text replacement needs text to find');
+  }
+
+  return problems;
+}
+
+/**
+ * Read a cell as a list of strings
+ * Lookups and multiple selects are arrays, collaborators are objects with a name;
+ * formula errors and empty values read as nothing.
+ */
+export function readAirtableCellValues(value: unknown): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(readAirtableCellValues);
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed ? [trimmed] : [];
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return [String(value)];
+  }
+
+  if (typeof value === 'object' && typeof (value as { name?: unknown }).name === 'string') {
+    return readAirtableCellValues((value as { name: string }).name);
+  }
+
+  return [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Apply the mapping's text replacements to a spark body, in order
+ */
+export function applyTextReplacements(text: string, replacements: AirtableTextReplacement[]): string {
+  return replacements.reduce((result, rule) => {
+    if (!rule.find) {
+      return result;
+    }
+
+    let pattern = escapeRegExp(rule.find);
+    // Word boundaries only mean something next to word characters ("q: " ends in a space)
+    if (rule.wholeWord) {
+      if (/^\w/.test(rule.find)) pattern = `\\b${pattern}`;
+      if (/\w$/.test(rule.find)) pattern = `${pattern}\\b`;
+    }
+
+    // A function keeps `$` in the replacement literal
+    return result.replace(new RegExp(pattern, rule.caseSensitive ? 'g' : 'gi'), () => rule.replace);
+  }, text);
+}
@@ -0,0 +1,112 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ApiTokenScope } from './types';
+
+/**
+ * Every personal access token starts with this, which is how `authenticateRequest`
+ * tells them apart from Supabase session JWTs
+ */
+export const API_TOKEN_PREFIX = 'spk_';
+
+export const API_TOKEN_SCOPES: Array<{ scope: ApiTokenScope; label: string; description: string }> = [
+  { scope: 'highlights:read', label: 'Read highlights', description: 'List highlights' },
+  { scope: 'highlights:write', label: 'Write highlights', description: 'Add highlights to your books' },
+  { scope: 'books:read', label: 'Read books', description: 'List books' },
+  { scope: 'books:write', label: 'Write books', description: 'Add books' },
+  { scope: 'sparks:read', label: 'Read sparks', description: 'List sparks' },
+  { scope: 'sparks:write', label: 'Write sparks', description: 'Capture sparks' },
+  { scope: 'notes:read', label: 'Read notes', description: 'List notes' },
+  { scope: 'notes:write', label: 'Write notes', description: 'Create notes' },
+  { scope: 'search', label: 'Search', description: 'Search highlights, sparks and notes' }
+];
+
+// Characters of the token kept in the clear so the user can tell tokens apart
+const TOKEN_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+// last_used_at is only written when it is older than this, not on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface ApiTokenIdentity {
+  tokenId: string;
+  userId: string;
+  scopes: ApiTokenScope[];
+}
+
+/**
+ * Hex SHA-256 of a string, with Web Crypto so it runs in the browser and in route handlers
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generate a new personal access token: the prefix plus 32 random bytes, base64url encoded
+ */
+export function generateApiToken(): { token: string; tokenPrefix: string } {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(32));
+  const encoded = btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  const token = `${API_TOKEN_PREFIX}${encoded}`;
+
+  return { token, tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH) };
+}
+
+export function hashApiToken(token: string): Promise<string> {
+  return sha256Hex(token);
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Resolve a personal access token to its owner and scopes
+ *
+ * USE WHEN: Authenticating a public API request; `authenticateRequest` does this for
+ * bearer tokens with the `spk_` prefix.
+ *
+ * NOTE: Needs a service-role client, since there is no user session to satisfy RLS yet.
+ *
+ * @returns The token's owner and scopes, or null when it is unknown, revoked or expired
+ */
+export async function resolveApiToken(
+  supabase: SupabaseClient<any>,
+  token: string
+): Promise<ApiTokenIdentity | null> {
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .select('id, user_id, scopes, expires_at, last_used_at, revoked_at')
+    .eq('token_hash', await hashApiToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error looking up API token: ${error.message}`);
+  }
+
+  if (!data || data.revoked_at || (data.expires_at && new Date(data.expires_at).getTime() <= Date.now())) {
+    return null;
+  }
+
+  const lastUsed = data.last_used_at ? new Date(data.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+    const { error: updateError } = await supabase
+      .from('personal_access_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', data.id);
+
+    // Usage tracking must not fail the request
+    if (updateError) {
+      console.error('Error updating API token last_used_at:', updateError);
+    }
+  }
+
+  return {
+    tokenId: data.id,
+    userId: data.user_id,
+    scopes: data.scopes as ApiTokenScope[]
+  };
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authService } from '@/services';
-import { AuthenticatedUser } from './types';
+import { createServerClient } from './supabase';
+import { isApiToken, resolveApiToken } from './api-tokens';
+import { ApiTokenScope, AuthenticatedUser } from './types';
 
 /**
  * Interface for authentication result specific to API routes
@@ -8,15 +10,22 @@ import { AuthenticatedUser } from './types';
 export interface AuthResult {
   user: AuthenticatedUser | null;
   error: NextResponse | null;
+  /** Set when the request used a personal access token instead of a session */
+  apiToken?: { id: string; scopes: ApiTokenScope[] };
 }
 
 /**
  * Authenticate a request using the Authorization header
  * This handles token extraction, validation, and user retrieval
+ *
+ * Personal access tokens (`spk_...`) are only accepted when the route names the scope
+ * it needs, so routes built for the app's own session can't be reached with them.
+ * NOTE: For personal access tokens `user.email` is empty.
  */
 export async function authenticateRequest(
   request: NextRequest, 
-  requiredUserId?: string
+  requiredUserId?: string,
+  requiredScope?: ApiTokenScope
 ): Promise<AuthResult> {
   // Check for Authorization header
   const authHeader = request.headers.get('Authorization') || request.headers.get('authorization');
@@ -32,6 +41,10 @@ export async function authenticateRequest(
 
   // Extract token
   const token = authHeader.split(' ')[1];
+
+  if (isApiToken(token)) {
+    return authenticateApiToken(token, requiredUserId, requiredScope);
+  }
   
   // Validate token using auth service
   const { data: { user }, error: authError } = await authService.validateToken(token);
@@ -63,6 +76,50 @@ export async function authenticateRequest(
   };
 }
 
+/**
+ * Authenticate a personal access token for a route that declared the scope it needs
+ */
+async function authenticateApiToken(
+  token: string,
+  requiredUserId?: string,
+  requiredScope?: ApiTokenScope
+): Promise<AuthResult> {
+  if (!requiredScope) {
+    return {
+      user: null,
+      error: createErrorResponse('Personal access tokens can only be used with the /api/v1 endpoints', 403)
+    };
+  }
+
+  const identity = await resolveApiToken(createServerClient(), token);
+  if (!identity) {
+    return {
+      user: null,
+      error: createErrorResponse('Invalid, expired or revoked API token', 401)
+    };
+  }
+
+  if (!identity.scopes.includes(requiredScope)) {
+    return {
+      user: null,
+      error: createErrorResponse(`This token is missing the "${requiredScope}" scope`, 403)
+    };
+  }
+
+  if (requiredUserId && identity.userId !== requiredUserId) {
+    return {
+      user: null,
+      error: createErrorResponse('Unauthorized: Cannot access another user\'s data', 403)
+    };
+  }
+
+  return {
+    user: { id: identity.userId, email: '' },
+    error: null,
+    apiToken: { id: identity.tokenId, scopes: identity.scopes }
+  };
+}
+
 /**
  * Create an error response with standardized format
  */
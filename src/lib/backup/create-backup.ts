@@ -0,0 +1,110 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  BackupArchive,
+  BACKUP_COLUMNS,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  HIGHLIGHT_EMBEDDING_COLUMNS,
+  stripSecrets
+} from './format';
+import { fetchAll, fetchByParentIds } from './queries';
+
+const COLUMNS = BACKUP_COLUMNS[BACKUP_VERSION];
+
+export interface CreateBackupOptions {
+  // Embeddings can be regenerated and make up most of the archive size
+  includeEmbeddings?: boolean;
+}
+
+/**
+ * Read a user's whole library into a backup archive
+ *
+ * NOTE: Requires a service-role client; junction rows are read by parent ID, which
+ * RLS would otherwise filter per row.
+ */
+export async function createBackup(
+  supabase: SupabaseClient,
+  userId: string,
+  options: CreateBackupOptions = {}
+): Promise<BackupArchive> {
+  const includeEmbeddings = !!options.includeEmbeddings;
+
+  const [books, highlights, sparks, notes, categories, tags] = await Promise.all([
+    fetchAll(supabase, 'books', COLUMNS.books.join(', '), userId),
+    fetchAll(
+      supabase,
+      'highlights',
+      (includeEmbeddings ? [...COLUMNS.highlights, ...HIGHLIGHT_EMBEDDING_COLUMNS] : COLUMNS.highlights).join(', '),
+      userId
+    ),
+    fetchAll(supabase, 'sparks', COLUMNS.sparks.join(', '), userId),
+    fetchAll(supabase, 'notes', COLUMNS.notes.join(', '), userId),
+    fetchAll(supabase, 'categories', 'id, name, slug, created_at, updated_at', userId),
+    fetchAll(supabase, 'tags', 'id, name, created_at, updated_at', userId)
+  ]);
+
+  const bookIds = books.map(row => row.id);
+  const highlightIds = highlights.map(row => row.id);
+  const sparkIds = sparks.map(row => row.id);
+
+  // Automation references are left out: automations aren't part of the backup
+  const categoryLink = 'category_id, created_by, created_at';
+  const tagLink = 'tag_id, created_by, created_at';
+
+  const [
+    bookCategories,
+    bookTags,
+    highlightCategories,
+    highlightTags,
+    sparkCategories,
+    sparkTags,
+    bookNotes,
+    highlightNotes,
+    sparkNotes
+  ] = await Promise.all([
+    fetchByParentIds(supabase, 'book_categories', 'book_id', `book_id, ${categoryLink}`, bookIds),
+    fetchByParentIds(supabase, 'book_tags', 'book_id', `book_id, ${tagLink}`, bookIds),
+    fetchByParentIds(supabase, 'highlight_categories', 'highlight_id', `highlight_id, ${categoryLink}`, highlightIds),
+    fetchByParentIds(supabase, 'highlight_tags', 'highlight_id', `highlight_id, ${tagLink}`, highlightIds),
+    fetchByParentIds(supabase, 'spark_categories', 'spark_id', `spark_id, ${categoryLink}`, sparkIds),
+    fetchByParentIds(supabase, 'spark_tags', 'spark_id', `spark_id, ${tagLink}`, sparkIds),
+    fetchByParentIds(supabase, 'book_notes', 'book_id', 'book_id, note_id, kind, created_at', bookIds),
+    fetchByParentIds(supabase, 'highlight_notes', 'highlight_id', 'highlight_id, note_id, kind, created_at', highlightIds),
+    fetchByParentIds(supabase, 'spark_notes', 'spark_id', 'spark_id, note_id, kind, created_at', sparkIds)
+  ]);
+
+  const { data: settingsRow, error: settingsError } = await supabase
+    .from('user_settings')
+    .select('settings')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (settingsError) {
+    throw new Error(`Error reading user_settings: ${settingsError.message}`);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    includesEmbeddings: includeEmbeddings,
+    data: {
+      books,
+      highlights,
+      sparks,
+      notes,
+      categories,
+      tags,
+      bookCategories,
+      bookTags,
+      highlightCategories,
+      highlightTags,
+      sparkCategories,
+      sparkTags,
+      bookNotes,
+      highlightNotes,
+      sparkNotes,
+      userSettings: settingsRow?.settings ? stripSecrets(settingsRow.settings) : null
+    }
+  };
+}
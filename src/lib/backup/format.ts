@@ -0,0 +1,192 @@
+/**
+ * Versioned JSON backup format for a user's library
+ *
+ * Rows keep their original `id` so references between them (highlight → book, junction
+ * rows) can be remapped on restore; `user_id` is dropped since a backup can be restored
+ * into another account or Supabase project.
+ *
+ * NOTE: Bump BACKUP_VERSION when a change would make older restores misread the data,
+ * and keep `restoreBackup` able to read every earlier version.
+ */
+
+export const BACKUP_FORMAT = 'spark-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupRow = Record<string, any>;
+
+export interface BackupData {
+  books: BackupRow[];
+  highlights: BackupRow[];
+  sparks: BackupRow[];
+  notes: BackupRow[];
+  categories: BackupRow[];
+  tags: BackupRow[];
+  bookCategories: BackupRow[];
+  bookTags: BackupRow[];
+  highlightCategories: BackupRow[];
+  highlightTags: BackupRow[];
+  sparkCategories: BackupRow[];
+  sparkTags: BackupRow[];
+  bookNotes: BackupRow[];
+  highlightNotes: BackupRow[];
+  sparkNotes: BackupRow[];
+  userSettings: Record<string, any> | null;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  includesEmbeddings: boolean;
+  data: BackupData;
+}
+
+export type BackupEntity = 'books' | 'highlights' | 'sparks' | 'notes' | 'categories' | 'tags';
+
+export type BackupContentEntity = 'books' | 'highlights' | 'sparks' | 'notes';
+
+/**
+ * Columns backed up for each content table, by archive version. A restore copies only
+ * these, so a hand-edited archive can't set columns the app manages itself.
+ */
+export const BACKUP_COLUMNS: Record<number, Record<BackupContentEntity, string[]>> = {
+  1: {
+    books: [
+      'id', 'rw_id', 'source', 'rw_title', 'rw_author', 'rw_category', 'rw_source', 'rw_num_highlights',
+      'rw_last_highlight_at', 'rw_updated', 'rw_cover_image_url', 'rw_highlights_url',
+      'rw_source_url', 'rw_asin', 'rw_tags', 'rw_document_note', 'created_at', 'updated_at'
+    ],
+    highlights: [
+      'id', 'book_id', 'rw_id', 'source', 'rw_text', 'rw_note', 'rw_location', 'rw_location_type',
+      'rw_highlighted_at', 'rw_url', 'rw_color', 'rw_updated', 'rw_book_id', 'rw_tags',
+      'deleted_at', 'deletion_reason', 'restored_at', 'created_at', 'updated_at'
+    ],
+    sparks: ['id', 'body', 'todo_created_at', 'todo_id', 'md5_uid', 'created_at', 'updated_at'],
+    notes: ['id', 'title', 'content', 'created_at', 'updated_at']
+  }
+};
+
+// Highlight columns only present in archives made with `includeEmbeddings`
+export const HIGHLIGHT_EMBEDDING_COLUMNS = ['embedding', 'embedding_updated_at'];
+
+export type BackupJunction =
+  | 'bookCategories'
+  | 'bookTags'
+  | 'highlightCategories'
+  | 'highlightTags'
+  | 'sparkCategories'
+  | 'sparkTags'
+  | 'bookNotes'
+  | 'highlightNotes'
+  | 'sparkNotes';
+
+export interface RestoreEntityStats {
+  total: number;
+  created: number;
+  existing: number;
+  conflicts: number;
+}
+
+export interface RestoreJunctionStats {
+  total: number;
+  linked: number;
+  skipped: number;
+}
+
+export interface RestoreConflict {
+  entity: BackupEntity | 'userSettings';
+  key: string;
+  reason: string;
+}
+
+export interface RestoreReport {
+  dryRun: boolean;
+  version: number;
+  entities: Record<BackupEntity, RestoreEntityStats>;
+  junctions: Record<BackupJunction, RestoreJunctionStats>;
+  settingsRestored: boolean;
+  conflictCount: number;
+  // Capped at MAX_REPORTED_CONFLICTS; conflictCount has the full number
+  conflicts: RestoreConflict[];
+}
+
+export const MAX_REPORTED_CONFLICTS = 200;
+
+export const BACKUP_ENTITIES: BackupEntity[] = ['categories', 'tags', 'books', 'highlights', 'sparks', 'notes'];
+
+export const BACKUP_JUNCTIONS: BackupJunction[] = [
+  'bookCategories',
+  'bookTags',
+  'highlightCategories',
+  'highlightTags',
+  'sparkCategories',
+  'sparkTags',
+  'bookNotes',
+  'highlightNotes',
+  'sparkNotes'
+];
+
+const SECRET_KEY_PATTERN = /(api_?key|access_?token|token|secret|password)/i;
+
+/**
+ * Whether a settings key holds a credential that must never leave the database
+ */
+export function isSecretSettingsKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Deep copy of user settings with every credential removed
+ */
+export function stripSecrets(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(stripSecrets);
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      if (isSecretSettingsKey(key)) continue;
+      result[key] = stripSecrets(nested);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Validate the shape of an uploaded archive before restoring it
+ */
+export function validateBackupArchive(archive: any): { valid: boolean; error?: string } {
+  if (!archive || typeof archive !== 'object') {
+    return { valid: false, error: 'Backup must be a JSON object' };
+  }
+
+  if (archive.format !== BACKUP_FORMAT) {
+    return { valid: false, error: 'Not a Spark backup file' };
+  }
+
+  if (!Number.isInteger(archive.version) || archive.version < 1) {
+    return { valid: false, error: 'Backup version is missing or invalid' };
+  }
+
+  if (archive.version > BACKUP_VERSION) {
+    return {
+      valid: false,
+      error: `Backup version ${archive.version} is newer than this app supports (${BACKUP_VERSION})`
+    };
+  }
+
+  if (!archive.data || typeof archive.data !== 'object') {
+    return { valid: false, error: 'Backup has no data' };
+  }
+
+  for (const key of [...BACKUP_ENTITIES, ...BACKUP_JUNCTIONS]) {
+    if (archive.data[key] !== undefined && !Array.isArray(archive.data[key])) {
+      return { valid: false, error: `Backup section "${key}" must be an array` };
+    }
+  }
+
+  return { valid: true };
+}
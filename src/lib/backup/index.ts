@@ -0,0 +1,5 @@
+export * from './format';
+export { createBackup } from './create-backup';
+export type { CreateBackupOptions } from './create-backup';
+export { restoreBackup } from './restore-backup';
+export type { RestoreBackupOptions } from './restore-backup';
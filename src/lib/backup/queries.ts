@@ -0,0 +1,71 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BackupRow } from './format';
+
+// PostgREST caps rows per request
+const PAGE_SIZE = 1000;
+// Keeps `.in()` filters well under URL length limits
+const ID_CHUNK_SIZE = 200;
+
+/**
+ * Read every row a user owns from a table, page by page
+ */
+export async function fetchAll(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  userId: string
+): Promise<BackupRow[]> {
+  const rows: BackupRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Error reading ${table}: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as unknown as BackupRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Junction tables have no user_id, so they are read through the IDs of the user's rows
+ */
+export async function fetchByParentIds(
+  supabase: SupabaseClient,
+  table: string,
+  parentColumn: string,
+  columns: string,
+  parentIds: string[]
+): Promise<BackupRow[]> {
+  const rows: BackupRow[] = [];
+
+  for (let i = 0; i < parentIds.length; i += ID_CHUNK_SIZE) {
+    const chunk = parentIds.slice(i, i + ID_CHUNK_SIZE);
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(columns)
+        .in(parentColumn, chunk)
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Error reading ${table}: ${error.message}`);
+      }
+
+      rows.push(...((data || []) as unknown as BackupRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return rows;
+}
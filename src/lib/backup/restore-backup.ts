@@ -0,0 +1,446 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  BackupArchive,
+  BACKUP_COLUMNS,
+  BackupContentEntity,
+  BackupEntity,
+  BackupJunction,
+  BackupRow,
+  BACKUP_ENTITIES,
+  BACKUP_JUNCTIONS,
+  HIGHLIGHT_EMBEDDING_COLUMNS,
+  isSecretSettingsKey,
+  MAX_REPORTED_CONFLICTS,
+  RestoreConflict,
+  RestoreReport
+} from './format';
+import { fetchAll } from './queries';
+import { remapMentionIds, withoutMentionIds } from '@/lib/note-links';
+
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Source for local-import rows from archives made before `source` was backed up. The file
+ * format wasn't recorded; any local source keeps Readwise sync, reconcile and write-back
+ * away from them.
+ */
+const UNKNOWN_LOCAL_SOURCE = 'json';
+
+export interface RestoreBackupOptions {
+  // Report what would happen without writing anything
+  dryRun?: boolean;
+}
+
+interface EntityRestore {
+  entity: BackupEntity;
+  table: string;
+  rows: BackupRow[];
+  existing: BackupRow[];
+  keyOf: (row: BackupRow) => string;
+  // Whether a backup row differs from the existing row it matched
+  differs?: (row: BackupRow, existing: BackupRow) => boolean;
+  // Build the row to insert, or return a reason it can't be restored
+  toInsert: (row: BackupRow, newId: string) => BackupRow | { skip: string };
+}
+
+/**
+ * Sparks are matched on their import identity when they have one, otherwise on content
+ */
+function sparkKey(row: BackupRow): string {
+  if (row.md5_uid) return `md5:${row.md5_uid}`;
+  if (row.todo_id) return `todo:${row.todo_id}`;
+  return `body:${row.created_at}:${row.body}`;
+}
+
+/**
+ * Notes have no natural key; creation time plus content identifies a restored note
+ * well enough to make repeated restores a no-op. Mention IDs are ignored, since mentioned
+ * highlights and sparks may have been restored under new IDs.
+ */
+function noteKey(row: BackupRow): string {
+  return `${row.created_at}:${withoutMentionIds(String(row.content ?? ''))}`;
+}
+
+/**
+ * Where a backed-up book or highlight came from; negative `rw_id`s are local imports
+ */
+function sourceOf(row: BackupRow): string {
+  if (row.source) return String(row.source);
+  return Number(row.rw_id) < 0 ? UNKNOWN_LOCAL_SOURCE : 'readwise';
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Restored settings win over current ones, except credentials, which are never in a
+ * backup and so always keep their current value
+ */
+function mergeSettings(current: Record<string, any>, restored: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...current };
+
+  for (const [key, value] of Object.entries(restored)) {
+    if (isSecretSettingsKey(key)) continue;
+
+    result[key] = isPlainObject(value) && isPlainObject(current[key])
+      ? mergeSettings(current[key], value)
+      : value;
+  }
+
+  return result;
+}
+
+class BackupRestorer {
+  private report: RestoreReport;
+
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string,
+    private archive: BackupArchive,
+    private dryRun: boolean
+  ) {
+    this.report = {
+      dryRun,
+      version: archive.version,
+      entities: Object.fromEntries(
+        BACKUP_ENTITIES.map(entity => [entity, { total: 0, created: 0, existing: 0, conflicts: 0 }])
+      ) as RestoreReport['entities'],
+      junctions: Object.fromEntries(
+        BACKUP_JUNCTIONS.map(junction => [junction, { total: 0, linked: 0, skipped: 0 }])
+      ) as RestoreReport['junctions'],
+      settingsRestored: false,
+      conflictCount: 0,
+      conflicts: []
+    };
+  }
+
+  private rows(section: BackupEntity | BackupJunction): BackupRow[] {
+    return (this.archive.data[section] as BackupRow[] | undefined) || [];
+  }
+
+  /**
+   * The columns of a backup row that its archive version backs up; anything else is dropped
+   */
+  private backedUpFields(entity: BackupContentEntity, row: BackupRow): BackupRow {
+    const columns = entity === 'highlights' && this.archive.includesEmbeddings === true
+      ? [...BACKUP_COLUMNS[this.archive.version].highlights, ...HIGHLIGHT_EMBEDDING_COLUMNS]
+      : BACKUP_COLUMNS[this.archive.version][entity];
+
+    return Object.fromEntries(columns.filter(column => column in row).map(column => [column, row[column]]));
+  }
+
+  private addConflict(conflict: RestoreConflict): void {
+    this.report.conflictCount++;
+    if (this.report.conflicts.length < MAX_REPORTED_CONFLICTS) {
+      this.report.conflicts.push(conflict);
+    }
+    if (conflict.entity !== 'userSettings') {
+      this.report.entities[conflict.entity].conflicts++;
+    }
+  }
+
+  /**
+   * Insert in chunks; when a chunk fails, retry its rows one by one so a single
+   * conflicting row doesn't block the rest
+   *
+   * @returns IDs of the rows that could not be inserted
+   */
+  private async insertRows(
+    entity: BackupEntity,
+    table: string,
+    rows: BackupRow[],
+    keyOf: (row: BackupRow) => string
+  ): Promise<Set<string>> {
+    const failed = new Set<string>();
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+      const { error } = await this.supabase.from(table).insert(chunk);
+      if (!error) continue;
+
+      for (const row of chunk) {
+        const { error: rowError } = await this.supabase.from(table).insert(row);
+        if (rowError) {
+          failed.add(row.id);
+          this.addConflict({ entity, key: keyOf(row), reason: rowError.message });
+        }
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * Match backup rows to existing ones by natural key and insert the rest under new IDs
+   *
+   * @returns Map of backup ID → ID in this database, for rows that exist or were restored
+   */
+  private async restoreEntity(config: EntityRestore): Promise<Map<string, string>> {
+    const { entity, table, rows, existing, keyOf, differs, toInsert } = config;
+    const stats = this.report.entities[entity];
+    const byKey = new Map(existing.map(row => [keyOf(row), row]));
+    const idMap = new Map<string, string>();
+    const pending: BackupRow[] = [];
+    const backupIdByNewId = new Map<string, string>();
+
+    stats.total = rows.length;
+
+    for (const row of rows) {
+      const key = keyOf(row);
+      const match = byKey.get(key);
+
+      if (match) {
+        idMap.set(row.id, match.id);
+        stats.existing++;
+        if (differs?.(row, match)) {
+          this.addConflict({ entity, key, reason: 'Differs from the existing record; kept the existing one' });
+        }
+        continue;
+      }
+
+      const newId = crypto.randomUUID();
+      const prepared = toInsert(row, newId);
+      if ('skip' in prepared) {
+        this.addConflict({ entity, key, reason: prepared.skip });
+        continue;
+      }
+
+      pending.push(prepared);
+      idMap.set(row.id, newId);
+      backupIdByNewId.set(newId, row.id);
+      // Duplicates inside the backup map to the first copy
+      byKey.set(key, prepared);
+    }
+
+    if (!this.dryRun && pending.length > 0) {
+      const failed = await this.insertRows(entity, table, pending, keyOf);
+      for (const newId of Array.from(failed)) {
+        idMap.delete(backupIdByNewId.get(newId)!);
+      }
+      stats.created = pending.length - failed.size;
+    } else {
+      stats.created = pending.length;
+    }
+
+    return idMap;
+  }
+
+  private async restoreJunction(
+    junction: BackupJunction,
+    table: string,
+    parent: { column: string; ids: Map<string, string> },
+    child: { column: string; ids: Map<string, string> },
+    extraColumns: string[]
+  ): Promise<void> {
+    const stats = this.report.junctions[junction];
+    const rows = this.rows(junction);
+    stats.total = rows.length;
+
+    const mapped = rows
+      .filter(row => parent.ids.has(row[parent.column]) && child.ids.has(row[child.column]))
+      .map(row => ({
+        [parent.column]: parent.ids.get(row[parent.column]),
+        [child.column]: child.ids.get(row[child.column]),
+        ...Object.fromEntries(extraColumns.filter(column => row[column] !== undefined).map(column => [column, row[column]]))
+      }));
+
+    stats.skipped = rows.length - mapped.length;
+    stats.linked = mapped.length;
+
+    if (this.dryRun) return;
+
+    for (let i = 0; i < mapped.length; i += INSERT_CHUNK_SIZE) {
+      const { error } = await this.supabase
+        .from(table)
+        .upsert(mapped.slice(i, i + INSERT_CHUNK_SIZE), {
+          onConflict: `${parent.column},${child.column}`,
+          ignoreDuplicates: true
+        });
+
+      if (error) {
+        throw new Error(`Error restoring ${table}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Move the local-import ID sequence past the negative `rw_id`s restored from the backup,
+   * so the next file import doesn't reuse one of them
+   */
+  private async advanceLocalRwIds(): Promise<void> {
+    if (this.dryRun) return;
+
+    const minRwId = [...this.rows('books'), ...this.rows('highlights')]
+      .map(row => Number(row.rw_id))
+      .reduce((min, rwId) => (Number.isInteger(rwId) && rwId < min ? rwId : min), 0);
+    if (minRwId >= 0) return;
+
+    const { error } = await this.supabase.rpc('advance_local_source_rw_id', {
+      p_min_rw_id: minRwId
+    });
+
+    if (error) {
+      throw new Error(`Error advancing the local import ID sequence: ${error.message}`);
+    }
+  }
+
+  private async restoreSettings(): Promise<void> {
+    const restored = this.archive.data.userSettings;
+    if (!isPlainObject(restored)) return;
+
+    const { data, error } = await this.supabase
+      .from('user_settings')
+      .select('settings')
+      .eq('id', this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error reading user_settings: ${error.message}`);
+    }
+
+    this.report.settingsRestored = true;
+    if (this.dryRun) return;
+
+    const { error: upsertError } = await this.supabase
+      .from('user_settings')
+      .upsert({
+        id: this.userId,
+        settings: mergeSettings(data?.settings || {}, restored)
+      });
+
+    if (upsertError) {
+      this.report.settingsRestored = false;
+      this.addConflict({ entity: 'userSettings', key: 'settings', reason: upsertError.message });
+    }
+  }
+
+  async run(): Promise<RestoreReport> {
+    const { supabase, userId } = this;
+
+    const [existingCategories, existingTags, existingBooks, existingHighlights, existingSparks, existingNotes] =
+      await Promise.all([
+        fetchAll(supabase, 'categories', 'id, slug', userId),
+        fetchAll(supabase, 'tags', 'id, name', userId),
+        fetchAll(supabase, 'books', 'id, rw_id, rw_title, rw_updated', userId),
+        fetchAll(supabase, 'highlights', 'id, rw_id, rw_text, rw_note', userId),
+        fetchAll(supabase, 'sparks', 'id, md5_uid, todo_id, body, created_at', userId),
+        fetchAll(supabase, 'notes', 'id, content, created_at', userId)
+      ]);
+
+    const categoryIds = await this.restoreEntity({
+      entity: 'categories',
+      table: 'categories',
+      rows: this.rows('categories'),
+      existing: existingCategories,
+      keyOf: row => String(row.slug),
+      toInsert: (row, id) => ({ id, user_id: userId, name: row.name, slug: row.slug, created_at: row.created_at })
+    });
+
+    const tagIds = await this.restoreEntity({
+      entity: 'tags',
+      table: 'tags',
+      rows: this.rows('tags'),
+      existing: existingTags,
+      keyOf: row => String(row.name),
+      toInsert: (row, id) => ({ id, user_id: userId, name: row.name, created_at: row.created_at })
+    });
+
+    const bookIds = await this.restoreEntity({
+      entity: 'books',
+      table: 'books',
+      rows: this.rows('books'),
+      existing: existingBooks,
+      keyOf: row => String(row.rw_id),
+      differs: (row, existing) =>
+        row.rw_title !== existing.rw_title ||
+        (!!row.rw_updated && !!existing.rw_updated &&
+          new Date(row.rw_updated).getTime() !== new Date(existing.rw_updated).getTime()),
+      toInsert: (row, id) => ({ ...this.backedUpFields('books', row), id, user_id: userId, source: sourceOf(row) })
+    });
+
+    const highlightIds = await this.restoreEntity({
+      entity: 'highlights',
+      table: 'highlights',
+      rows: this.rows('highlights'),
+      existing: existingHighlights,
+      keyOf: row => String(row.rw_id),
+      differs: (row, existing) => row.rw_text !== existing.rw_text || (row.rw_note || '') !== (existing.rw_note || ''),
+      toInsert: (row, id) => {
+        const bookId = bookIds.get(row.book_id);
+        if (!bookId) {
+          return { skip: 'Its book is not in the backup or could not be restored' };
+        }
+        return { ...this.backedUpFields('highlights', row), id, user_id: userId, book_id: bookId, source: sourceOf(row) };
+      }
+    });
+
+    await this.advanceLocalRwIds();
+
+    const sparkIds = await this.restoreEntity({
+      entity: 'sparks',
+      table: 'sparks',
+      rows: this.rows('sparks'),
+      existing: existingSparks,
+      keyOf: sparkKey,
+      differs: (row, existing) => row.body !== existing.body,
+      toInsert: (row, id) => ({ ...this.backedUpFields('sparks', row), id, user_id: userId })
+    });
+
+    const noteIds = await this.restoreEntity({
+      entity: 'notes',
+      table: 'notes',
+      rows: this.rows('notes'),
+      existing: existingNotes,
+      keyOf: noteKey,
+      toInsert: (row, id) => ({
+        ...this.backedUpFields('notes', row),
+        id,
+        user_id: userId,
+        content: remapMentionIds(String(row.content ?? ''), { highlight: highlightIds, spark: sparkIds })
+      })
+    });
+
+    const books = { column: 'book_id', ids: bookIds };
+    const highlights = { column: 'highlight_id', ids: highlightIds };
+    const sparks = { column: 'spark_id', ids: sparkIds };
+    const categories = { column: 'category_id', ids: categoryIds };
+    const tags = { column: 'tag_id', ids: tagIds };
+    const notes = { column: 'note_id', ids: noteIds };
+    const linkColumns = ['created_by', 'created_at'];
+
+    await this.restoreJunction('bookCategories', 'book_categories', books, categories, linkColumns);
+    await this.restoreJunction('bookTags', 'book_tags', books, tags, linkColumns);
+    await this.restoreJunction('highlightCategories', 'highlight_categories', highlights, categories, linkColumns);
+    await this.restoreJunction('highlightTags', 'highlight_tags', highlights, tags, linkColumns);
+    await this.restoreJunction('sparkCategories', 'spark_categories', sparks, categories, linkColumns);
+    await this.restoreJunction('sparkTags', 'spark_tags', sparks, tags, linkColumns);
+    // Links written in note content were already resolved when the notes were inserted
+    await this.restoreJunction('bookNotes', 'book_notes', books, notes, ['kind', 'created_at']);
+    await this.restoreJunction('highlightNotes', 'highlight_notes', highlights, notes, ['kind', 'created_at']);
+    await this.restoreJunction('sparkNotes', 'spark_notes', sparks, notes, ['kind', 'created_at']);
+
+    await this.restoreSettings();
+
+    return this.report;
+  }
+}
+
+/**
+ * Restore a backup archive into a user's library
+ *
+ * Idempotent: rows are matched to existing ones by natural key (`rw_id` for books and
+ * highlights, `md5_uid`/`todo_id` for sparks, slug/name for categories and tags), so
+ * restoring the same backup twice creates nothing the second time. Matched rows are never
+ * overwritten; when they differ from the backup, that is reported as a conflict.
+ *
+ * NOTE: Requires a service-role client. Validate the archive with `validateBackupArchive` first.
+ */
+export async function restoreBackup(
+  supabase: SupabaseClient,
+  userId: string,
+  archive: BackupArchive,
+  options: RestoreBackupOptions = {}
+): Promise<RestoreReport> {
+  return new BackupRestorer(supabase, userId, archive, !!options.dryRun).run();
+}
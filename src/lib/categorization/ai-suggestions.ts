@@ -0,0 +1,270 @@
+/**
+ * AI categorization suggestions
+ *
+ * Asks a chat model to tag or categorize highlights using the user's existing vocabulary,
+ * and turns the answer into automation action data. Nothing is applied here: the actions
+ * land in a pending automation and go through the normal approve/reject flow.
+ *
+ * NOTE: Server-only. Import directly rather than through '@/lib/categorization',
+ * which is also used by client components.
+ */
+
+import { generateChatCompletion, parseJsonResponse, AIModel } from '@/lib/aiClient';
+import { HighlightWithRelations } from '@/lib/types';
+import {
+  ActionData,
+  AddCategoryActionData,
+  AddTagActionData,
+  CreateCategoryActionData,
+  CreateTagActionData
+} from './types';
+
+export type SuggestionKind = 'tags' | 'categories';
+
+/**
+ * Highlight context sent to the model
+ */
+export interface SuggestionHighlight {
+  id: string;
+  text: string;
+  note?: string | null;
+  book?: {
+    title?: string | null;
+    author?: string | null;
+    category?: string | null;
+  } | null;
+}
+
+/**
+ * The user's existing tags or categories, so the model reuses them instead of inventing near-duplicates
+ */
+export interface SuggestionVocabularyItem {
+  id: string;
+  name: string;
+}
+
+/**
+ * A single suggestion as returned by the model
+ */
+export interface CategorizationSuggestion {
+  highlight_id: string;
+  name: string;
+  confidence: number;
+  rationale: string;
+}
+
+export interface SuggestionOptions {
+  model?: AIModel;
+  /** Suggestions below this confidence are dropped (default: 0.5) */
+  minConfidence?: number;
+  /** Maximum suggestions kept per highlight (default: 3) */
+  maxPerHighlight?: number;
+}
+
+const DEFAULT_MODEL: AIModel = 'GPT_4O_MINI';
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+const DEFAULT_MAX_PER_HIGHLIGHT = 3;
+
+// Keep prompts bounded for long highlights
+const MAX_HIGHLIGHT_CHARS = 1500;
+
+const KIND_INSTRUCTIONS: Record<SuggestionKind, string> = {
+  tags: 'Tags are short, lowercase, specific keywords (e.g. "stoicism", "habit-formation"). Suggest up to {max} tags per highlight.',
+  categories: 'Categories are broad, title-cased subject areas (e.g. "Psychology", "Software Engineering"). Suggest at most {max} categories per highlight, usually one.'
+};
+
+/**
+ * Map a highlight (with its book join) to the context sent to the model
+ */
+export function toSuggestionHighlight(highlight: HighlightWithRelations): SuggestionHighlight {
+  return {
+    id: highlight.id,
+    text: highlight.rw_text || '',
+    note: highlight.rw_note,
+    book: highlight.book
+      ? {
+          title: highlight.book.rw_title,
+          author: highlight.book.rw_author,
+          category: highlight.book.rw_category
+        }
+      : null
+  };
+}
+
+function buildPrompt(
+  kind: SuggestionKind,
+  highlights: SuggestionHighlight[],
+  vocabulary: SuggestionVocabularyItem[],
+  maxPerHighlight: number
+): Array<{ role: 'system' | 'user'; content: string }> {
+  const label = kind === 'tags' ? 'tag' : 'category';
+
+  const system = [
+    `You organise a personal library of book highlights by suggesting ${kind}.`,
+    KIND_INSTRUCTIONS[kind].replace('{max}', String(maxPerHighlight)),
+    `Strongly prefer the user's existing ${kind}, using their exact names. Only propose a new ${label} when none of the existing ones fit.`,
+    'Skip a highlight entirely if nothing fits well.',
+    'For each suggestion give a confidence between 0 and 1 and a one-sentence rationale.',
+    'Respond with JSON only, in the form:',
+    `{"suggestions": [{"highlight_id": "<id>", "name": "<${label} name>", "confidence": 0.0, "rationale": "<why>"}]}`
+  ].join('\n');
+
+  const payload = {
+    [`existing_${kind}`]: vocabulary.map(item => item.name),
+    highlights: highlights.map(highlight => ({
+      id: highlight.id,
+      text: highlight.text.slice(0, MAX_HIGHLIGHT_CHARS),
+      note: highlight.note || undefined,
+      book_title: highlight.book?.title || undefined,
+      book_author: highlight.book?.author || undefined,
+      book_category: highlight.book?.category || undefined
+    }))
+  };
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: JSON.stringify(payload) }
+  ];
+}
+
+/**
+ * Drop malformed entries, unknown highlight IDs, duplicates and low-confidence suggestions
+ */
+function sanitizeSuggestions(
+  raw: unknown,
+  highlights: SuggestionHighlight[],
+  minConfidence: number,
+  maxPerHighlight: number
+): CategorizationSuggestion[] {
+  const entries = Array.isArray((raw as any)?.suggestions) ? (raw as any).suggestions : [];
+  const highlightIds = new Set(highlights.map(highlight => highlight.id));
+  const seen = new Set<string>();
+  const perHighlight = new Map<string, number>();
+
+  return entries
+    .map((entry: any): CategorizationSuggestion => ({
+      highlight_id: String(entry?.highlight_id ?? ''),
+      name: String(entry?.name ?? '').trim(),
+      confidence: Math.min(Math.max(Number(entry?.confidence) || 0, 0), 1),
+      rationale: String(entry?.rationale ?? '').trim()
+    }))
+    .sort((a: CategorizationSuggestion, b: CategorizationSuggestion) => b.confidence - a.confidence)
+    .filter((suggestion: CategorizationSuggestion) => {
+      if (!suggestion.name || !highlightIds.has(suggestion.highlight_id)) return false;
+      if (suggestion.confidence < minConfidence) return false;
+
+      const key = `${suggestion.highlight_id}:${suggestion.name.toLowerCase()}`;
+      if (seen.has(key)) return false;
+
+      const count = perHighlight.get(suggestion.highlight_id) || 0;
+      if (count >= maxPerHighlight) return false;
+
+      seen.add(key);
+      perHighlight.set(suggestion.highlight_id, count + 1);
+      return true;
+    });
+}
+
+/**
+ * Ask the model for tag or category suggestions for a batch of highlights
+ *
+ * USE WHEN: building AI categorization automations; pair with buildSuggestionActions
+ *
+ * @throws When the model call fails or returns unparseable JSON
+ */
+export async function generateCategorizationSuggestions(
+  kind: SuggestionKind,
+  highlights: SuggestionHighlight[],
+  vocabulary: SuggestionVocabularyItem[],
+  options: SuggestionOptions = {}
+): Promise<CategorizationSuggestion[]> {
+  const {
+    model = DEFAULT_MODEL,
+    minConfidence = DEFAULT_MIN_CONFIDENCE,
+    maxPerHighlight = DEFAULT_MAX_PER_HIGHLIGHT
+  } = options;
+
+  if (highlights.length === 0) {
+    return [];
+  }
+
+  const response = await generateChatCompletion(
+    buildPrompt(kind, highlights, vocabulary, maxPerHighlight),
+    model,
+    { response_format: { type: 'json_object' }, temperature: 0.2 }
+  );
+
+  return sanitizeSuggestions(parseJsonResponse(response), highlights, minConfidence, maxPerHighlight);
+}
+
+/**
+ * Convert suggestions into automation action data
+ *
+ * Existing names resolve to their IDs (case-insensitive). New names get a single create
+ * action followed by add actions with an empty ID and the name, which the approve route
+ * resolves once the create action has run.
+ *
+ * @example
+ * const actions = buildSuggestionActions('tags', suggestions, existingTags);
+ * // [{ action: 'create_tag', tag_name: 'stoicism', ... }, { action: 'add_tag', tag_id: '', tag_name: 'stoicism', ... }]
+ */
+export function buildSuggestionActions(
+  kind: SuggestionKind,
+  suggestions: CategorizationSuggestion[],
+  vocabulary: SuggestionVocabularyItem[]
+): ActionData[] {
+  const existingByName = new Map(vocabulary.map(item => [item.name.toLowerCase(), item]));
+
+  // Group new names so each is created once, keeping the name casing of the first suggestion
+  const newNames = new Map<string, { name: string; suggestions: CategorizationSuggestion[] }>();
+  for (const suggestion of suggestions) {
+    const key = suggestion.name.toLowerCase();
+    if (existingByName.has(key)) continue;
+
+    const entry = newNames.get(key) || { name: suggestion.name, suggestions: [] };
+    entry.suggestions.push(suggestion);
+    newNames.set(key, entry);
+  }
+
+  const createActions: ActionData[] = Array.from(newNames.values()).map(({ name, suggestions: group }) => {
+    const metadata = {
+      confidence: Math.max(...group.map(suggestion => suggestion.confidence)),
+      rationale: `Suggested for ${group.length} highlight${group.length === 1 ? '' : 's'}`
+    };
+
+    return kind === 'tags'
+      ? { action: 'create_tag', tag_name: name, ...metadata } satisfies CreateTagActionData
+      : { action: 'create_category', category_name: name, ...metadata } satisfies CreateCategoryActionData;
+  });
+
+  const addActions: ActionData[] = suggestions.map(suggestion => {
+    const key = suggestion.name.toLowerCase();
+    const existing = existingByName.get(key);
+    const name = existing ? existing.name : newNames.get(key)!.name;
+    const metadata = {
+      confidence: suggestion.confidence,
+      rationale: suggestion.rationale
+    };
+
+    return kind === 'tags'
+      ? {
+          action: 'add_tag',
+          target: 'highlight',
+          target_id: suggestion.highlight_id,
+          tag_id: existing?.id || '',
+          tag_name: name,
+          ...metadata
+        } satisfies AddTagActionData
+      : {
+          action: 'add_category',
+          target: 'highlight',
+          target_id: suggestion.highlight_id,
+          category_id: existing?.id || '',
+          category_name: name,
+          ...metadata
+        } satisfies AddCategoryActionData;
+  });
+
+  // Create actions first so the approve route can resolve names for the add actions
+  return [...createActions, ...addActions];
+}
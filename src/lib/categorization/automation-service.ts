@@ -1,16 +1,28 @@
-import { Category, CategorizationAction, CategorizationAutomation, CategorizationResult, Resource, ResourceType, Tag, ActionData, AddCategoryActionData, AddTagActionData } from "./types";
+import { Category, CategorizationAction, CategorizationAutomation, CategorizationResult, Resource, ResourceType, Tag, ActionData, AddCategoryActionData, AddTagActionData, AutomationStatus, AutomationActionStatus } from "./types";
 import { AutomationService } from "./services";
+import { isCreateAction } from "./automation-status";
 import { getRepositories } from "@/repositories";
 import { generateSlug } from "@/lib/utils";
 import { createClient } from "@supabase/supabase-js";
 import { getSupabaseBrowserClient } from "@/lib/supabase";
 
 export class AutomationServiceImpl implements AutomationService {
+  /**
+   * @param getRepos Repositories to use; pass getServerRepositories when running outside the browser
+   */
+  constructor(private getRepos: () => ReturnType<typeof getRepositories> = getRepositories) {}
+
   /**
    * Create a new categorization automation
+   *
+   * By default the actions are applied right away and the automation ends up approved.
+   * With `pending`, the actions are only recorded and wait for review on the automations page.
    */
-  async createAutomation(automation: CategorizationAutomation): Promise<CategorizationResult> {
-    const repos = getRepositories();
+  async createAutomation(
+    automation: CategorizationAutomation,
+    options: { pending?: boolean } = {}
+  ): Promise<CategorizationResult> {
+    const repos = this.getRepos();
     const createdResources = {
       categories: [] as Category[],
       tags: [] as Tag[]
@@ -21,9 +33,31 @@ export class AutomationServiceImpl implements AutomationService {
       const newAutomation = await repos.automations.createAutomation({
         userId: automation.userId,
         name: automation.name,
-        source: automation.source
+        source: automation.source,
+        ruleId: automation.ruleId
       });
       
+      if (options.pending) {
+        // Create actions go first so the approve route can resolve new tag/category names
+        const ordered = [
+          ...automation.actions.filter(action => isCreateAction(action.actionData)),
+          ...automation.actions.filter(action => !isCreateAction(action.actionData))
+        ];
+        
+        for (const action of ordered) {
+          await repos.automations.createAutomationAction({
+            automationId: newAutomation.id,
+            action_data: action.actionData
+          });
+        }
+        
+        return {
+          success: true,
+          automationId: newAutomation.id,
+          status: 'pending'
+        };
+      }
+      
       // Process all create_category and create_tag actions first
       const updatedActions: CategorizationAction[] = [];
       
@@ -37,7 +71,7 @@ export class AutomationServiceImpl implements AutomationService {
           const slug = generateSlug(actionData.category_name);
           
           // Check if category already exists
-          const existingCategory = await repos.categories.getCategoryBySlug(slug);
+          const existingCategory = await repos.categories.getCategoryBySlug(slug, automation.userId);
           
           if (existingCategory) {
             // Convert to add_category action if category already exists
@@ -57,7 +91,7 @@ export class AutomationServiceImpl implements AutomationService {
           // Create the new category
           const newCategory = await repos.categories.createCategory({
             name: actionData.category_name
-          });
+          }, automation.userId);
           
           // Record the created category
           createdResources.categories.push({
@@ -77,7 +111,7 @@ export class AutomationServiceImpl implements AutomationService {
             
         } else if (actionData.action === 'create_tag') {
           // Check if tag already exists with this name
-          const existingTag = await repos.categorization.findTagByName(actionData.tag_name);
+          const existingTag = await repos.categorization.findTagByName(actionData.tag_name, automation.userId);
           
           if (existingTag.data) {
             // Convert to add_tag action if tag already exists
@@ -95,7 +129,7 @@ export class AutomationServiceImpl implements AutomationService {
           }
           
           // Create the new tag
-          const newTagResult = await repos.categorization.createTag(actionData.tag_name);
+          const newTagResult = await repos.categorization.createTag(actionData.tag_name, automation.userId);
           const newTag = newTagResult.data;
             
           if (!newTag) {
@@ -146,6 +180,7 @@ export class AutomationServiceImpl implements AutomationService {
           
           // Apply the action immediately
           await repos.automations.addCategoryToResource(resource, actionData.category_id, automationAction.id);
+          await repos.automations.markActionAsExecuted(automationAction.id);
         } else if (actionData.action === 'add_tag') {
           // Extract resource from action data
           const resource: Resource = {
@@ -167,12 +202,16 @@ export class AutomationServiceImpl implements AutomationService {
           
           // Apply the action immediately
           await repos.automations.addTagToResource(resource, actionData.tag_id, automationAction.id);
+          await repos.automations.markActionAsExecuted(automationAction.id);
         }
       }
       
+      const status = await repos.automations.refreshAutomationStatus(newAutomation.id);
+      
       return {
         success: true,
         automationId: newAutomation.id,
+        status,
         createdResources: createdResources.categories.length > 0 || createdResources.tags.length > 0 ? createdResources : undefined
       };
     } catch (error) {
@@ -188,7 +227,7 @@ export class AutomationServiceImpl implements AutomationService {
    * Get a specific automation by ID
    */
   async getAutomation(automationId: string): Promise<CategorizationAutomation | null> {
-    const repos = getRepositories();
+    const repos = this.getRepos();
     
     try {
       // Get the automation
@@ -209,7 +248,7 @@ export class AutomationServiceImpl implements AutomationService {
         return {
           id: action.id,
           actionData: action.action_data,
-          status: action.status as 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'reverted',
+          status: action.status as AutomationActionStatus,
           executedAt: action.executed_at ? new Date(action.executed_at) : undefined
         };
       });
@@ -219,7 +258,7 @@ export class AutomationServiceImpl implements AutomationService {
         userId: automation.user_id,
         name: automation.name,
         source: automation.source as 'ai' | 'user' | 'system',
-        status: automation.status as 'pending' | 'approved' | 'rejected' | 'reverted',
+        status: automation.status as AutomationStatus,
         actions: categorizationActions,
         createdAt: new Date(automation.created_at)
       };
@@ -233,7 +272,7 @@ export class AutomationServiceImpl implements AutomationService {
    * Get all automations for the current user with optional filtering
    */
   async getAutomations(filters?: { status?: string, source?: string }): Promise<CategorizationAutomation[]> {
-    const repos = getRepositories();
+    const repos = this.getRepos();
     
     try {
       const automations = await repos.automations.getAutomations(filters);
@@ -244,7 +283,7 @@ export class AutomationServiceImpl implements AutomationService {
         userId: automation.user_id,
         name: automation.name,
         source: automation.source as 'ai' | 'user' | 'system',
-        status: automation.status as 'pending' | 'approved' | 'rejected' | 'reverted',
+        status: automation.status as AutomationStatus,
         actions: [],  // Actions are loaded separately when a specific automation is selected
         createdAt: new Date(automation.created_at)
       }));
@@ -256,8 +295,9 @@ export class AutomationServiceImpl implements AutomationService {
   
   /**
    * Approve a pending automation
+   * Pass actionIds to approve only some actions; the automation then becomes partially approved
    */
-  async approveAutomation(automationId: string): Promise<CategorizationResult> {
+  async approveAutomation(automationId: string, actionIds?: string[]): Promise<CategorizationResult> {
     try {
       // Get the Supabase client to access the session
       const supabase = getSupabaseBrowserClient();
@@ -277,7 +317,7 @@ export class AutomationServiceImpl implements AutomationService {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`
         },
-        body: JSON.stringify({ automationId })
+        body: JSON.stringify({ automationId, actionIds })
       });
       
       if (!response.ok) {
@@ -300,8 +340,9 @@ export class AutomationServiceImpl implements AutomationService {
   
   /**
    * Reject a pending automation and mark all actions as rejected
+   * Pass actionIds to reject only some actions
    */
-  async rejectAutomation(automationId: string): Promise<CategorizationResult> {
+  async rejectAutomation(automationId: string, actionIds?: string[]): Promise<CategorizationResult> {
     try {
       // Get the Supabase client to access the session
       const supabase = getSupabaseBrowserClient();
@@ -321,7 +362,7 @@ export class AutomationServiceImpl implements AutomationService {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`
         },
-        body: JSON.stringify({ automationId })
+        body: JSON.stringify({ automationId, actionIds })
       });
       
       if (!response.ok) {
@@ -344,8 +385,9 @@ export class AutomationServiceImpl implements AutomationService {
   
   /**
    * Revert an approved automation
+   * Pass actionIds to revert only some executed actions
    */
-  async revertAutomation(automationId: string): Promise<CategorizationResult> {
+  async revertAutomation(automationId: string, actionIds?: string[]): Promise<CategorizationResult> {
     try {
       // Get the Supabase client to access the session
       const supabase = getSupabaseBrowserClient();
@@ -365,7 +407,7 @@ export class AutomationServiceImpl implements AutomationService {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`
         },
-        body: JSON.stringify({ automationId })
+        body: JSON.stringify({ automationId, actionIds })
       });
       
       if (!response.ok) {
@@ -427,7 +469,7 @@ export class AutomationServiceImpl implements AutomationService {
     data: { action: 'create_category', category_name: string },
     createdResources: { categories: Category[], tags: Tag[] }
   ): Promise<void> {
-    const repos = getRepositories();
+    const repos = this.getRepos();
     
     const newCategory = await repos.categories.createCategory({
       name: data.category_name
@@ -447,7 +489,7 @@ export class AutomationServiceImpl implements AutomationService {
     data: { action: 'create_tag', tag_name: string },
     createdResources: { categories: Category[], tags: Tag[] }
   ): Promise<void> {
-    const repos = getRepositories();
+    const repos = this.getRepos();
     
     const newTagResult = await repos.categorization.createTag(data.tag_name);
     const newTag = newTagResult.data;
@@ -468,7 +510,7 @@ export class AutomationServiceImpl implements AutomationService {
     actionId: string, 
     data: { action: 'add_category', target: ResourceType, target_id: string, category_id: string }
   ): Promise<void> {
-    const repos = getRepositories();
+    const repos = this.getRepos();
     
     const automationAction = await repos.automations.getAutomationActionById(actionId);
     if (!automationAction) {
@@ -494,7 +536,7 @@ export class AutomationServiceImpl implements AutomationService {
     actionId: string, 
     data: { action: 'add_tag', target: ResourceType, target_id: string, tag_id: string, tag_name?: string }
   ): Promise<void> {
-    const repos = getRepositories();
+    const repos = this.getRepos();
     
     const automationAction = await repos.automations.getAutomationActionById(actionId);
     if (!automationAction) {
@@ -516,12 +558,12 @@ export class AutomationServiceImpl implements AutomationService {
     let tagId = data.tag_id;
     if ((!tagId || tagId.trim() === '') && data.tag_name) {
       // Try to find an existing tag with this name
-      const { data: existingTag } = await repos.categorization.findTagByName(data.tag_name);
+      const { data: existingTag } = await repos.categorization.findTagByName(data.tag_name, automation.user_id);
       if (existingTag) {
         tagId = existingTag.id;
       } else {
         // Create the tag if it doesn't exist
-        const { data: newTag, error } = await repos.categorization.createTag(data.tag_name);
+        const { data: newTag, error } = await repos.categorization.createTag(data.tag_name, automation.user_id);
         if (newTag) {
           tagId = newTag.id;
         } else {
@@ -572,7 +614,7 @@ export class AutomationServiceImpl implements AutomationService {
       return null; // Must provide either categoryId or tagId
     }
     
-    const repos = getRepositories();
+    const repos = this.getRepos();
     let actionId: string | null = null;
     
     if (categoryId) {
@@ -0,0 +1,92 @@
+import { generateSlug } from "@/lib/utils";
+import { ActionData, AutomationActionStatus, AutomationStatus } from "./types";
+
+/**
+ * Allowed action status transitions, keyed by the current status
+ *
+ * NOTE: 'failed' can be retried or rejected; 'rejected' and 'reverted' are final.
+ */
+export const ACTION_STATUS_TRANSITIONS: Record<AutomationActionStatus, AutomationActionStatus[]> = {
+  pending: ['executing', 'executed', 'failed', 'rejected'],
+  executing: ['executed', 'failed'],
+  executed: ['reverted'],
+  failed: ['executing', 'executed', 'rejected'],
+  rejected: [],
+  reverted: []
+};
+
+/**
+ * Statuses an action may be in before moving to the given status
+ */
+export function getAllowedPreviousStatuses(status: AutomationActionStatus): AutomationActionStatus[] {
+  return (Object.keys(ACTION_STATUS_TRANSITIONS) as AutomationActionStatus[])
+    .filter(current => ACTION_STATUS_TRANSITIONS[current].includes(status));
+}
+
+/**
+ * Derive an automation's status from the statuses of its actions
+ *
+ * - Nothing executed: 'pending' while anything awaits review, otherwise 'reverted' or 'rejected'
+ * - Something executed: 'approved' if every action executed, otherwise 'partially_approved'
+ */
+export function deriveAutomationStatus(actionStatuses: AutomationActionStatus[]): AutomationStatus {
+  const count = (...statuses: AutomationActionStatus[]) =>
+    actionStatuses.filter(status => statuses.includes(status)).length;
+
+  const executed = count('executed');
+  const pending = count('pending', 'executing');
+
+  if (executed === 0) {
+    if (pending > 0 || actionStatuses.length === 0) return 'pending';
+    return count('reverted') > 0 ? 'reverted' : 'rejected';
+  }
+
+  return executed === actionStatuses.length ? 'approved' : 'partially_approved';
+}
+
+/**
+ * Key linking a create action to the add actions that reference its tag or category by name
+ *
+ * Add actions with an ID point at an existing tag/category and have no dependency.
+ * Tags match by exact name and categories by slug, mirroring how the approve route resolves them.
+ */
+export function getDependencyKey(actionData: ActionData): string | null {
+  switch (actionData.action) {
+    case 'create_tag':
+      return `tag:${actionData.tag_name}`;
+    case 'create_category':
+      return `category:${generateSlug(actionData.category_name)}`;
+    case 'add_tag':
+      return !actionData.tag_id && actionData.tag_name ? `tag:${actionData.tag_name}` : null;
+    case 'add_category':
+      return !actionData.category_id && actionData.category_name
+        ? `category:${generateSlug(actionData.category_name)}`
+        : null;
+  }
+}
+
+export function isCreateAction(actionData: ActionData): boolean {
+  return actionData.action === 'create_tag' || actionData.action === 'create_category';
+}
+
+/**
+ * Add actions that depend on the given create action
+ */
+export function findDependants<T extends { actionData: ActionData }>(createAction: T, actions: T[]): T[] {
+  const key = getDependencyKey(createAction.actionData);
+  if (!key) return [];
+
+  return actions.filter(action =>
+    !isCreateAction(action.actionData) && getDependencyKey(action.actionData) === key);
+}
+
+/**
+ * The create action an add action depends on, if it belongs to the same automation
+ */
+export function findDependency<T extends { actionData: ActionData }>(addAction: T, actions: T[]): T | undefined {
+  const key = getDependencyKey(addAction.actionData);
+  if (!key || isCreateAction(addAction.actionData)) return undefined;
+
+  return actions.find(action =>
+    isCreateAction(action.actionData) && getDependencyKey(action.actionData) === key);
+}
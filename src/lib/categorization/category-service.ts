@@ -15,7 +15,8 @@ export class CategoryServiceImpl implements CategoryService {
       return categories.map(category => ({
         id: category.id,
         name: category.name,
-        slug: category.slug
+        slug: category.slug,
+        parentId: category.parent_id ?? null
       }));
     } catch (error) {
       console.error('Error fetching categories:', error);
@@ -36,6 +37,7 @@ export class CategoryServiceImpl implements CategoryService {
         id: category.id,
         name: category.name,
         slug: category.slug,
+        parentId: category.parent_id ?? null,
         usageCount: category.usage_count
       }));
     } catch (error) {
@@ -4,6 +4,13 @@ export * from './types';
 // Export service interfaces
 export * from './services';
 
+// Export automation status helpers
+export * from './automation-status';
+
+// Export automation rule helpers
+export * from './rules';
+export * from './rule-runner';
+
 // Export service implementations
 import { CategoryServiceImpl } from './category-service';
 import { TagServiceImpl } from './tag-service';
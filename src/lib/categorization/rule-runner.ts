@@ -0,0 +1,80 @@
+import { getRepositories } from "@/repositories";
+import { AutomationServiceImpl } from "./automation-service";
+import { evaluateRule, ruleLabelKey } from "./rules";
+import { AutomationRule, CategorizationResult, RuleEvaluation } from "./types";
+
+type Repositories = ReturnType<typeof getRepositories>;
+
+// Subjects are loaded and evaluated in pages of this size
+const RULE_PAGE_SIZE = 500;
+
+/**
+ * Evaluate a rule against the user's library, page by page
+ *
+ * USE WHEN: previewing a rule (no `since`, capped by `maxScanned`) or running it after a
+ * sync (`since` = sync start, so only new and updated resources are checked).
+ *
+ * NOTE: Labels a saved rule already queued, or that the user rejected or reverted, are
+ * not suggested again.
+ */
+export async function evaluateRuleAgainstLibrary(
+  rule: Pick<AutomationRule, 'name' | 'target' | 'matchMode' | 'conditions' | 'actions'> & { id?: string },
+  repos: Repositories,
+  options: { since?: string; maxScanned?: number; userId?: string } = {}
+): Promise<RuleEvaluation> {
+  const { since, maxScanned = Infinity, userId } = options;
+
+  const skip = new Set<string>();
+  if (rule.id) {
+    const earlier = await repos.automations.getUnappliedRuleActions(rule.id);
+    for (const actionData of earlier) {
+      if (actionData.action === 'add_category') skip.add(ruleLabelKey(actionData.target_id, actionData.category_id));
+      if (actionData.action === 'add_tag') skip.add(ruleLabelKey(actionData.target_id, actionData.tag_id));
+    }
+  }
+
+  const total: RuleEvaluation = { scanned: 0, matched: [], alreadyLabelled: 0, actions: [] };
+
+  for (let offset = 0; offset < maxScanned; offset += RULE_PAGE_SIZE) {
+    const limit = Math.min(RULE_PAGE_SIZE, maxScanned - offset);
+    const subjects = await repos.automationRules.getRuleSubjects(rule.target, { since, offset, limit }, userId);
+    const page = evaluateRule(rule, subjects, skip);
+
+    total.scanned += page.scanned;
+    total.matched.push(...page.matched);
+    total.alreadyLabelled += page.alreadyLabelled;
+    total.actions.push(...page.actions);
+
+    if (subjects.length < limit) break;
+  }
+
+  return total;
+}
+
+/**
+ * Turn a rule's matches into an automation
+ *
+ * Trusted rules are applied right away; others wait for review on the automations page.
+ */
+export async function createRuleAutomation(
+  rule: AutomationRule,
+  evaluation: RuleEvaluation,
+  getRepos: () => Repositories = getRepositories
+): Promise<CategorizationResult | null> {
+  if (evaluation.actions.length === 0) {
+    return null;
+  }
+
+  const service = new AutomationServiceImpl(getRepos);
+
+  return service.createAutomation(
+    {
+      userId: rule.userId,
+      name: `Rule: ${rule.name}`,
+      source: 'user',
+      ruleId: rule.id,
+      actions: evaluation.actions.map(actionData => ({ actionData }))
+    },
+    { pending: !rule.trusted }
+  );
+}
@@ -0,0 +1,257 @@
+import {
+  ActionData,
+  AutomationRule,
+  AutomationRuleInput,
+  ResourceType,
+  RuleCondition,
+  RuleEvaluation,
+  RuleField,
+  RuleSubject
+} from "./types";
+
+/**
+ * Fields each rule target can test; highlights can also test their book
+ */
+export const RULE_FIELDS_BY_TARGET: Record<ResourceType, RuleField[]> = {
+  book: ['book_title', 'book_author', 'book_category', 'book_source'],
+  highlight: ['highlight_text', 'highlight_note', 'book_title', 'book_author', 'book_category', 'book_source'],
+  spark: ['spark_body']
+};
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  book_title: 'Book title',
+  book_author: 'Book author',
+  book_category: 'Book category (Readwise)',
+  book_source: 'Book source',
+  highlight_text: 'Highlight text',
+  highlight_note: 'Highlight note',
+  spark_body: 'Spark text'
+};
+
+/**
+ * Limits for user-written regular expressions, which run on the server against every
+ * highlight, book or spark a rule is evaluated on
+ */
+export const MAX_RULE_PATTERN_LENGTH = 200;
+const MAX_RULE_SUBJECT_LENGTH = 10_000;
+
+const UNBOUNDED_REPETITION = /^(?:[+*]|\{\d+,\d*\})/;
+const REPETITION = /^(?:[+*]|\{\d+,?\d*\})/;
+
+/**
+ * Whether a pattern repeats a group that contains a repetition or an alternation, e.g.
+ * `(a+)+`, `(\w*x)*` or `(a|aa)+`: the shapes that backtrack exponentially on a near-miss
+ */
+function repeatsAmbiguousGroup(source: string): boolean {
+  // For each open group, whether it contains a repetition or `|`
+  const groups: boolean[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i += 2;
+    } else if (char === '[') {
+      // Character classes can hold `(`, `|` and quantifier characters literally
+      i += source[i + 1] === ']' ? 2 : 1;
+      while (i < source.length && source[i] !== ']') {
+        i += source[i] === '\\' ? 2 : 1;
+      }
+      i++;
+    } else if (char === '(') {
+      groups.push(false);
+      i++;
+      // Skip group syntax like `?:`, `?=`, `?<=` or `?<name>` so its `?` isn't read as a quantifier
+      if (source[i] === '?') {
+        const syntax = source.slice(i).match(/^\?(?:<[=!]|<[^>]*>|.)/);
+        i += syntax ? syntax[0].length : 1;
+      }
+    } else if (char === ')') {
+      const ambiguous = groups.pop() ?? false;
+      i++;
+      if (ambiguous && UNBOUNDED_REPETITION.test(source.slice(i))) return true;
+      if (groups.length > 0 && (ambiguous || REPETITION.test(source.slice(i)))) {
+        groups[groups.length - 1] = true;
+      }
+    } else {
+      if (groups.length > 0 && (char === '|' || REPETITION.test(source.slice(i)))) {
+        groups[groups.length - 1] = true;
+      }
+      i++;
+    }
+  }
+
+  return false;
+}
+
+function splitRulePattern(value: string): { source: string; flags: string } {
+  const literal = value.match(/^\/(.+)\/([a-z]*)$/);
+  // `g` and `y` make test() carry lastIndex from one subject over to the next
+  return literal
+    ? { source: literal[1], flags: literal[2].replace(/[gy]/g, '') }
+    : { source: value, flags: 'i' };
+}
+
+/**
+ * Why a `matches` condition value can't be used, or null if it can
+ */
+export function rulePatternProblem(value: string): string | null {
+  const { source, flags } = splitRulePattern(value);
+
+  if (source.length > MAX_RULE_PATTERN_LENGTH) {
+    return `Keep regular expressions under ${MAX_RULE_PATTERN_LENGTH} characters`;
+  }
+  if (repeatsAmbiguousGroup(source)) {
+    return `"${value}" repeats a group that contains a repetition or alternatives, which can take too long to match`;
+  }
+
+  try {
+    new RegExp(source, flags);
+  } catch {
+    return `"${value}" is not a valid regular expression`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a `matches` condition value: `/pattern/flags`, or a bare pattern matched case-insensitively
+ *
+ * The `g` and `y` flags are dropped, since the pattern is reused across subjects.
+ *
+ * @returns null if the pattern is invalid or unsafe to run (see rulePatternProblem)
+ */
+export function parseRulePattern(value: string): RegExp | null {
+  if (rulePatternProblem(value)) return null;
+
+  const { source, flags } = splitRulePattern(value);
+  return new RegExp(source, flags);
+}
+
+/**
+ * Check a rule before saving it
+ *
+ * @returns A message describing the first problem, or null if the rule is valid
+ */
+export function validateRule(rule: AutomationRuleInput): string | null {
+  if (!rule.name.trim()) return 'Give the rule a name';
+  if (rule.conditions.length === 0) return 'Add at least one condition';
+  if (rule.actions.length === 0) return 'Add at least one category or tag';
+
+  const allowedFields = RULE_FIELDS_BY_TARGET[rule.target];
+
+  for (const condition of rule.conditions) {
+    if (!allowedFields.includes(condition.field)) {
+      return `${RULE_FIELD_LABELS[condition.field]} can't be used in a ${rule.target} rule`;
+    }
+    if (!condition.value.trim()) {
+      return `Enter a value for ${RULE_FIELD_LABELS[condition.field]}`;
+    }
+    if (condition.operator === 'matches') {
+      const problem = rulePatternProblem(condition.value);
+      if (problem) return problem;
+    }
+  }
+
+  for (const action of rule.actions) {
+    if (action.type === 'add_category' ? !action.categoryId : !action.tagId) {
+      return 'Every action needs an existing category or tag';
+    }
+  }
+
+  return null;
+}
+
+function compileCondition(condition: RuleCondition): (subject: RuleSubject) => boolean {
+  const expected = condition.value.trim().toLowerCase();
+  const pattern = condition.operator === 'matches' ? parseRulePattern(condition.value) : null;
+
+  return (subject) => {
+    const actual = subject.fields[condition.field];
+    if (actual === null || actual === undefined) return false;
+
+    switch (condition.operator) {
+      case 'equals':
+        return actual.trim().toLowerCase() === expected;
+      case 'contains':
+        return actual.toLowerCase().includes(expected);
+      case 'matches':
+        // Long texts are only matched on their start, bounding the time a pattern can take
+        return pattern ? pattern.test(actual.slice(0, MAX_RULE_SUBJECT_LENGTH)) : false;
+    }
+  };
+}
+
+/**
+ * Key for a label already applied to, or rejected for, a resource
+ * USE WHEN: building the `skip` set passed to evaluateRule
+ */
+export function ruleLabelKey(targetId: string, labelId: string): string {
+  return `${targetId}:${labelId}`;
+}
+
+/**
+ * Run a rule against subjects and build the add actions for labels they are missing
+ *
+ * NOTE: Conditions are compiled once per call, so pass subjects in large batches.
+ *
+ * @param skip Label keys (see ruleLabelKey) that must not be suggested again, e.g. ones the user rejected
+ */
+export function evaluateRule(
+  rule: Pick<AutomationRule, 'name' | 'target' | 'matchMode' | 'conditions' | 'actions'>,
+  subjects: RuleSubject[],
+  skip: Set<string> = new Set()
+): RuleEvaluation {
+  const predicates = rule.conditions.map(compileCondition);
+  const matches = (subject: RuleSubject) => rule.matchMode === 'any'
+    ? predicates.some(predicate => predicate(subject))
+    : predicates.every(predicate => predicate(subject));
+
+  const evaluation: RuleEvaluation = { scanned: 0, matched: [], alreadyLabelled: 0, actions: [] };
+  const rationale = `Matched rule "${rule.name}"`;
+
+  for (const subject of subjects) {
+    evaluation.scanned++;
+    if (subject.type !== rule.target || !matches(subject)) continue;
+
+    evaluation.matched.push(subject);
+    let missing = 0;
+
+    for (const action of rule.actions) {
+      const labelId = action.type === 'add_category' ? action.categoryId : action.tagId;
+      const applied = action.type === 'add_category'
+        ? subject.categoryIds.includes(labelId)
+        : subject.tagIds.includes(labelId);
+
+      if (applied || skip.has(ruleLabelKey(subject.id, labelId))) continue;
+      missing++;
+
+      const actionData: ActionData = action.type === 'add_category'
+        ? {
+            action: 'add_category',
+            target: subject.type,
+            target_id: subject.id,
+            category_id: action.categoryId,
+            category_name: action.name,
+            rationale
+          }
+        : {
+            action: 'add_tag',
+            target: subject.type,
+            target_id: subject.id,
+            tag_id: action.tagId,
+            tag_name: action.name,
+            rationale
+          };
+
+      evaluation.actions.push(actionData);
+    }
+
+    if (missing === 0) {
+      evaluation.alreadyLabelled++;
+    }
+  }
+
+  return evaluation;
+}
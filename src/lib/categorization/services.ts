@@ -100,19 +100,19 @@ export interface AutomationService {
   getAutomations(filters?: { status?: string, source?: string }): Promise<CategorizationAutomation[]>;
   
   /**
-   * Approve a pending automation
+   * Approve a pending automation, or only the given actions of it
    */
-  approveAutomation(automationId: string): Promise<CategorizationResult>;
+  approveAutomation(automationId: string, actionIds?: string[]): Promise<CategorizationResult>;
   
   /**
-   * Reject a pending automation and undo all its actions
+   * Reject a pending automation, or only the given actions of it
    */
-  rejectAutomation(automationId: string): Promise<CategorizationResult>;
+  rejectAutomation(automationId: string, actionIds?: string[]): Promise<CategorizationResult>;
   
   /**
-   * Revert an approved automation
+   * Revert an approved automation, or only the given executed actions of it
    */
-  revertAutomation(automationId: string): Promise<CategorizationResult>;
+  revertAutomation(automationId: string, actionIds?: string[]): Promise<CategorizationResult>;
   
   /**
    * Find which automation added a category/tag to a resource
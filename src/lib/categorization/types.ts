@@ -17,6 +17,7 @@ export interface Category {
   id: string;
   name: string;
   slug: string;
+  parentId?: string | null;
 }
 
 /**
@@ -39,14 +40,24 @@ export interface TagWithUsage extends Tag {
   usageCount: number;
 }
 
+/**
+ * Automation status, derived from its actions once any have been reviewed
+ * 'partially_approved' means some actions were executed while others were rejected or are still pending
+ */
+export type AutomationStatus = 'pending' | 'approved' | 'partially_approved' | 'rejected' | 'reverted';
+
+// Status of a single automation action
+export type AutomationActionStatus = 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'reverted';
+
 // Categorization automation
 export interface CategorizationAutomation {
   id?: string;
   userId: string;
   name: string;
   source: 'ai' | 'user' | 'system';
-  status?: 'pending' | 'approved' | 'rejected' | 'reverted';
+  status?: AutomationStatus;
   actions: CategorizationAction[];
+  ruleId?: string; // Set when the automation was produced by an automation rule
   createdAt?: Date;
 }
 
@@ -59,7 +70,15 @@ export type ActionData =
   | CreateTagActionData 
   | CreateCategoryActionData;
 
-export interface AddTagActionData {
+/**
+ * Optional reasoning attached to AI-suggested actions so reviewers can judge them before approving
+ */
+export interface SuggestionMetadata {
+  confidence?: number; // 0-1, as reported by the model
+  rationale?: string;
+}
+
+export interface AddTagActionData extends SuggestionMetadata {
   action: 'add_tag';
   target: ResourceType;
   target_id: string;
@@ -67,19 +86,20 @@ export interface AddTagActionData {
   tag_name?: string;
 }
 
-export interface AddCategoryActionData {
+export interface AddCategoryActionData extends SuggestionMetadata {
   action: 'add_category';
   target: ResourceType;
   target_id: string;
   category_id: string;
+  category_name?: string;
 }
 
-export interface CreateTagActionData {
+export interface CreateTagActionData extends SuggestionMetadata {
   action: 'create_tag';
   tag_name: string;
 }
 
-export interface CreateCategoryActionData {
+export interface CreateCategoryActionData extends SuggestionMetadata {
   action: 'create_category';
   category_name: string;
 }
@@ -90,7 +110,7 @@ export interface CreateCategoryActionData {
 export interface CategorizationAction {
   id?: string;
   actionData: ActionData;
-  status?: 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'reverted';
+  status?: AutomationActionStatus;
   executedAt?: Date;
 }
 
@@ -98,9 +118,86 @@ export interface CategorizationAction {
 export interface CategorizationResult {
   success: boolean;
   automationId?: string;
+  status?: AutomationStatus; // Status after the operation, when it changed
   error?: string;
   createdResources?: {
     categories?: Category[];
     tags?: Tag[];
   };
-} 
\ No newline at end of file
+} 
+
+/**
+ * Fields a rule condition can test. Book fields also work on highlights, through
+ * the highlight's book.
+ */
+export type RuleField =
+  | 'book_title'
+  | 'book_author'
+  | 'book_category'
+  | 'book_source'
+  | 'highlight_text'
+  | 'highlight_note'
+  | 'spark_body';
+
+/**
+ * - equals: case-insensitive exact match
+ * - contains: case-insensitive substring
+ * - matches: regular expression, written as `pattern` or `/pattern/flags`
+ */
+export type RuleOperator = 'equals' | 'contains' | 'matches';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+}
+
+export type RuleAction =
+  | { type: 'add_category'; categoryId: string; name: string }
+  | { type: 'add_tag'; tagId: string; name: string };
+
+/**
+ * A user-defined "if conditions then add labels" rule, evaluated after syncs
+ *
+ * @property matchMode - 'all' requires every condition, 'any' at least one
+ * @property trusted - Apply matches right away instead of creating a pending automation
+ */
+export interface AutomationRule {
+  id: string;
+  userId: string;
+  name: string;
+  target: ResourceType;
+  matchMode: 'all' | 'any';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  trusted: boolean;
+  enabled: boolean;
+  lastRunAt?: string | null;
+  createdAt?: string;
+}
+
+export type AutomationRuleInput = Omit<AutomationRule, 'id' | 'userId' | 'lastRunAt' | 'createdAt'>;
+
+/**
+ * A book, highlight or spark flattened to the fields rules can test, with the labels it already has
+ */
+export interface RuleSubject {
+  id: string;
+  type: ResourceType;
+  label: string; // Short description for previews
+  fields: Partial<Record<RuleField, string | null>>;
+  categoryIds: string[];
+  tagIds: string[];
+}
+
+/**
+ * Outcome of running a rule against a set of subjects
+ *
+ * @property alreadyLabelled - Matches that already have every label the rule adds
+ */
+export interface RuleEvaluation {
+  scanned: number;
+  matched: RuleSubject[];
+  alreadyLabelled: number;
+  actions: ActionData[];
+}
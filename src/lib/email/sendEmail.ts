@@ -1,14 +1,53 @@
-import { Resend } from "resend";
 import { WelcomeEmail } from "./templates/WelcomeEmail";
-import { createElement } from "react";
+import { DigestEmailHighlight, HighlightDigestEmail } from "./templates/HighlightDigestEmail";
+import { NotificationEmail } from "./templates/NotificationEmail";
+import { getEmailTransport } from "./transport";
+import { createElement, ReactElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
 
-const resend = new Resend(process.env.RESEND_API_KEY || "");
+const FROM = process.env.EMAIL_FROM || "no-reply@yourdomain.com";
 
-export async function sendWelcomeEmail(to: string, name: string) {
-  await resend.emails.send({
-    from: process.env.EMAIL_FROM || "no-reply@yourdomain.com",
+/**
+ * Render a template and hand it to the configured transport
+ */
+async function send(to: string, subject: string, element: ReactElement, headers?: Record<string, string>) {
+  await getEmailTransport().send({
+    from: FROM,
     to,
-    subject: "Welcome!",
-    react: createElement(WelcomeEmail, { name }),
+    subject,
+    html: renderToStaticMarkup(element),
+    headers,
   });
 }
+
+export async function sendWelcomeEmail(to: string, name: string) {
+  await send(to, "Welcome!", createElement(WelcomeEmail, { name }));
+}
+
+export async function sendHighlightDigestEmail(
+  to: string,
+  {
+    subject,
+    highlights,
+    unsubscribeUrl,
+    settingsUrl,
+  }: { subject: string; highlights: DigestEmailHighlight[]; unsubscribeUrl: string; settingsUrl: string }
+) {
+  await send(
+    to,
+    subject,
+    createElement(HighlightDigestEmail, { heading: subject, highlights, unsubscribeUrl, settingsUrl }),
+    // Lets mail clients show their own unsubscribe button, which POSTs to the URL (RFC 8058)
+    {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click"
+    }
+  );
+}
+
+export async function sendNotificationEmail(
+  to: string,
+  { title, body, link, settingsUrl }: { title: string; body?: string | null; link: string; settingsUrl: string }
+) {
+  await send(to, title, createElement(NotificationEmail, { title, body, link, settingsUrl }));
+}
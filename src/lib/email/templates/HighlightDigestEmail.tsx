@@ -0,0 +1,53 @@
+import React from 'react';
+
+export interface DigestEmailHighlight {
+  id: string;
+  text: string;
+  note?: string | null;
+  bookTitle: string;
+  bookAuthor?: string | null;
+  link: string;
+}
+
+interface HighlightDigestEmailProps {
+  heading: string;
+  highlights: DigestEmailHighlight[];
+  unsubscribeUrl: string;
+  settingsUrl: string;
+}
+
+// Email clients ignore stylesheets, so everything is inline
+const styles = {
+  body: { fontFamily: 'Georgia, serif', color: '#1f2937', maxWidth: 600, margin: '0 auto', padding: 24 },
+  quote: { fontSize: 17, lineHeight: 1.6, margin: '0 0 8px 0' },
+  note: { fontSize: 14, color: '#4b5563', borderLeft: '2px solid #d1d5db', paddingLeft: 10, margin: '0 0 8px 0' },
+  source: { fontSize: 13, color: '#6b7280', margin: 0 },
+  divider: { border: 0, borderTop: '1px solid #e5e7eb', margin: '24px 0' },
+  footer: { fontSize: 12, color: '#9ca3af' }
+};
+
+export function HighlightDigestEmail({ heading, highlights, unsubscribeUrl, settingsUrl }: HighlightDigestEmailProps) {
+  return (
+    <div style={styles.body}>
+      <h1 style={{ fontSize: 22 }}>{heading}</h1>
+
+      {highlights.map(highlight => (
+        <div key={highlight.id}>
+          <p style={styles.quote}>{highlight.text}</p>
+          {highlight.note && <p style={styles.note}>{highlight.note}</p>}
+          <p style={styles.source}>
+            <a href={highlight.link} style={{ color: '#2563eb' }}>{highlight.bookTitle}</a>
+            {highlight.bookAuthor && ` · ${highlight.bookAuthor}`}
+          </p>
+          <hr style={styles.divider} />
+        </div>
+      ))}
+
+      <p style={styles.footer}>
+        <a href={settingsUrl} style={{ color: '#9ca3af' }}>Change digest settings</a>
+        {' · '}
+        <a href={unsubscribeUrl} style={{ color: '#9ca3af' }}>Unsubscribe</a>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface NotificationEmailProps {
+  title: string;
+  body?: string | null;
+  link: string;
+  settingsUrl: string;
+}
+
+// Email clients ignore stylesheets, so everything is inline
+const styles = {
+  body: { fontFamily: 'Helvetica, Arial, sans-serif', color: '#1f2937', maxWidth: 600, margin: '0 auto', padding: 24 },
+  text: { fontSize: 15, lineHeight: 1.6, margin: '0 0 16px 0', whiteSpace: 'pre-wrap' as const },
+  button: { display: 'inline-block', background: '#2563eb', color: '#ffffff', padding: '8px 16px', borderRadius: 6, textDecoration: 'none', fontSize: 14 },
+  divider: { border: 0, borderTop: '1px solid #e5e7eb', margin: '24px 0' },
+  footer: { fontSize: 12, color: '#9ca3af' }
+};
+
+export function NotificationEmail({ title, body, link, settingsUrl }: NotificationEmailProps) {
+  return (
+    <div style={styles.body}>
+      <h1 style={{ fontSize: 20 }}>{title}</h1>
+      {body && <p style={styles.text}>{body}</p>}
+      <a href={link} style={styles.button}>Open Spark</a>
+      <hr style={styles.divider} />
+      <p style={styles.footer}>
+        You get these emails because notification emails are on.{' '}
+        <a href={settingsUrl} style={{ color: '#9ca3af' }}>Change notification settings</a>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Resend } from "resend";
+
+/**
+ * A rendered email, ready to hand to a transport
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Delivers rendered emails
+ *
+ * USE WHEN: Testing email locally. Set EMAIL_TRANSPORT=smtp to send through a local
+ * SMTP catcher (EMAIL_SERVER_HOST/PORT/USER/PASSWORD), EMAIL_TRANSPORT=stub to only log
+ * messages, or call setEmailTransport() to capture them in code.
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Default transport, sends through the Resend API
+ */
+export function createResendTransport(apiKey: string = process.env.RESEND_API_KEY || ""): EmailTransport {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { error } = await resend.emails.send(message);
+      if (error) {
+        throw new Error(`Resend rejected email to ${message.to}: ${error.message}`);
+      }
+    }
+  };
+}
+
+// nodemailer ships without type definitions; only the call used here is typed
+interface SmtpClient {
+  sendMail(message: EmailMessage): Promise<unknown>;
+}
+
+/**
+ * Sends through any SMTP server, e.g. a local Mailpit or MailHog instance
+ */
+export function createSmtpTransport(): EmailTransport {
+  let client: SmtpClient | null = null;
+
+  return {
+    name: "smtp",
+    async send(message) {
+      if (!client) {
+        const nodemailer = require("nodemailer");
+        const port = Number(process.env.EMAIL_SERVER_PORT || 1025);
+        client = nodemailer.createTransport({
+          host: process.env.EMAIL_SERVER_HOST || "localhost",
+          port,
+          secure: port === 465,
+          auth: process.env.EMAIL_SERVER_USER
+            ? { user: process.env.EMAIL_SERVER_USER, pass: process.env.EMAIL_SERVER_PASSWORD }
+            : undefined
+        }) as SmtpClient;
+      }
+
+      await client.sendMail(message);
+    }
+  };
+}
+
+/**
+ * Logs emails instead of sending them
+ *
+ * @param sent Optional array that receives every message, for inspecting in tests
+ */
+export function createStubTransport(sent?: EmailMessage[]): EmailTransport {
+  return {
+    name: "stub",
+    async send(message) {
+      sent?.push(message);
+      console.log(`[email:stub] To: ${message.to} | Subject: ${message.subject}`);
+    }
+  };
+}
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Get the transport selected by EMAIL_TRANSPORT (resend, smtp or stub; defaults to resend)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    switch (process.env.EMAIL_TRANSPORT) {
+      case "smtp":
+        activeTransport = createSmtpTransport();
+        break;
+      case "stub":
+        activeTransport = createStubTransport();
+        break;
+      default:
+        activeTransport = createResendTransport();
+    }
+  }
+
+  return activeTransport;
+}
+
+/**
+ * Override the transport, or pass null to go back to the EMAIL_TRANSPORT default
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  activeTransport = transport;
+}
@@ -0,0 +1,296 @@
+/**
+ * Markdown rendering for the Obsidian-compatible vault export
+ *
+ * Every file starts with YAML frontmatter. Highlights end with an Obsidian block ID
+ * (`^hl-<readwise id>`) so they can be linked as `[[Book title#^hl-123]]` and the link
+ * survives re-exports.
+ */
+
+export interface ExportHighlight {
+  rwId: number;
+  text: string;
+  readwiseNote: string | null;
+  userNote: string | null;
+  location: string | null;
+  highlightedAt: string | null;
+  url: string | null;
+  categories: string[];
+  tags: string[];
+}
+
+export interface ExportBook {
+  id: string;
+  rwId: number;
+  title: string;
+  author: string | null;
+  category: string | null;
+  sourceUrl: string | null;
+  readwiseUrl: string | null;
+  coverImageUrl: string | null;
+  documentNote: string | null;
+  categories: string[];
+  tags: string[];
+  notes: string[];
+  highlights: ExportHighlight[];
+}
+
+export interface ExportSpark {
+  id: string;
+  body: string;
+  createdAt: string;
+  categories: string[];
+  tags: string[];
+  notes: string[];
+}
+
+export interface ExportNote {
+  id: string;
+  title: string | null;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+type FrontmatterValue = string | number | string[] | null | undefined;
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+/**
+ * JSON string literals are valid double-quoted YAML scalars, which sidesteps
+ * escaping colons, quotes and leading special characters by hand
+ */
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function renderFrontmatter(fields: Record<string, FrontmatterValue>): string {
+  const lines = ['---'];
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null || value === undefined || value === '') continue;
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue;
+      lines.push(`${key}:`);
+      for (const item of value) {
+        lines.push(`  - ${yamlString(item)}`);
+      }
+    } else if (typeof value === 'number') {
+      lines.push(`${key}: ${value}`);
+    } else {
+      lines.push(`${key}: ${yamlString(value)}`);
+    }
+  }
+
+  lines.push('---', '');
+  return lines.join('\n');
+}
+
+/**
+ * Obsidian tags can't contain spaces or punctuation other than `_`, `-` and `/`
+ */
+export function toObsidianTag(name: string): string {
+  return name
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[#.,;:!?'"`()[\]{}<>@$%^&*+=|\\~]/g, '');
+}
+
+function uniqueTags(names: string[]): string[] {
+  return Array.from(new Set(names.map(toObsidianTag).filter(Boolean)));
+}
+
+/**
+ * Strip characters that are invalid in file names on any common OS or that Obsidian
+ * treats as link syntax
+ */
+export function toSafeFileName(name: string, fallback: string): string {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+    .replace(/[\u0000-\u001f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim();
+
+  return cleaned || fallback;
+}
+
+function formatDate(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+function firstLine(text: string): string {
+  return text.trim().split('\n')[0] || '';
+}
+
+/**
+ * The block ID has to sit at the end of the block's last line; a trailing blank line in
+ * the highlight text would otherwise detach it
+ */
+function withBlockId(text: string, blockId: string): string {
+  return `${text.trim()} ^${blockId}`;
+}
+
+function renderHighlight(highlight: ExportHighlight): string {
+  const parts = [withBlockId(highlight.text || '', `hl-${highlight.rwId}`), ''];
+
+  const details: string[] = [];
+  if (highlight.userNote?.trim()) {
+    details.push(`- **Note:** ${highlight.userNote.trim().replace(/\n/g, '\n  ')}`);
+  }
+  if (highlight.readwiseNote?.trim() && highlight.readwiseNote.trim() !== highlight.userNote?.trim()) {
+    details.push(`- **Readwise note:** ${highlight.readwiseNote.trim().replace(/\n/g, '\n  ')}`);
+  }
+
+  const tags = uniqueTags(highlight.tags);
+  if (tags.length > 0) {
+    details.push(`- **Tags:** ${tags.map(tag => `#${tag}`).join(' ')}`);
+  }
+  if (highlight.categories.length > 0) {
+    details.push(`- **Categories:** ${highlight.categories.join(', ')}`);
+  }
+
+  const meta = [
+    highlight.location ? `Location ${highlight.location}` : null,
+    formatDate(highlight.highlightedAt),
+    highlight.url ? `[Open in Readwise](${highlight.url})` : null
+  ].filter(Boolean);
+  if (meta.length > 0) {
+    details.push(`- ${meta.join(' · ')}`);
+  }
+
+  if (details.length > 0) {
+    parts.push(...details, '');
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * One file per book: frontmatter, book-level notes, then every highlight in reading order
+ */
+export function renderBook(book: ExportBook): ExportFile {
+  const title = book.title || `Untitled ${book.rwId}`;
+  const author = book.author ? ` - ${book.author}` : '';
+
+  const frontmatter = renderFrontmatter({
+    title,
+    author: book.author,
+    category: book.category,
+    rw_id: book.rwId,
+    rw_source_url: book.sourceUrl,
+    rw_url: book.readwiseUrl,
+    cover: book.coverImageUrl,
+    categories: book.categories,
+    tags: uniqueTags(book.tags),
+    highlights: book.highlights.length
+  });
+
+  const sections = [frontmatter, `# ${title}`, ''];
+
+  if (book.author) {
+    sections.push(`*${book.author}*`, '');
+  }
+
+  if (book.documentNote?.trim()) {
+    sections.push('## Document note', '', book.documentNote.trim(), '');
+  }
+
+  if (book.notes.length > 0) {
+    sections.push('## Notes', '');
+    for (const note of book.notes) {
+      sections.push(note.trim(), '');
+    }
+  }
+
+  if (book.highlights.length > 0) {
+    sections.push('## Highlights', '');
+    sections.push(book.highlights.map(renderHighlight).join('\n---\n\n'));
+  }
+
+  return {
+    path: `Books/${toSafeFileName(`${title}${author}`, `Book ${book.rwId}`)}.md`,
+    content: sections.join('\n')
+  };
+}
+
+/**
+ * One file per spark, named by date and first line so the folder sorts chronologically
+ */
+export function renderSpark(spark: ExportSpark): ExportFile {
+  const created = formatDate(spark.createdAt) || 'undated';
+
+  const frontmatter = renderFrontmatter({
+    id: spark.id,
+    type: 'spark',
+    created: spark.createdAt,
+    categories: spark.categories,
+    tags: uniqueTags(spark.tags)
+  });
+
+  const sections = [frontmatter, spark.body.trim(), ''];
+
+  if (spark.notes.length > 0) {
+    sections.push('## Notes', '');
+    for (const note of spark.notes) {
+      sections.push(note.trim(), '');
+    }
+  }
+
+  const name = toSafeFileName(firstLine(spark.body).slice(0, 60), spark.id);
+
+  return {
+    path: `Sparks/${created} ${name}.md`,
+    content: sections.join('\n')
+  };
+}
+
+/**
+ * Standalone notes (not attached to a book, highlight or spark)
+ */
+export function renderNote(note: ExportNote): ExportFile {
+  const title = note.title?.trim() || firstLine(note.content).slice(0, 60);
+
+  const frontmatter = renderFrontmatter({
+    id: note.id,
+    type: 'note',
+    title: note.title,
+    created: note.createdAt,
+    updated: note.updatedAt
+  });
+
+  return {
+    path: `Notes/${toSafeFileName(title, note.id)}.md`,
+    content: [frontmatter, note.content.trim(), ''].join('\n')
+  };
+}
+
+/**
+ * Suffix duplicate paths (two books with the same title, sparks with the same first line)
+ * so no file overwrites another inside the archive
+ */
+export function dedupeFilePaths(files: ExportFile[]): ExportFile[] {
+  const used = new Set<string>();
+
+  return files.map(file => {
+    let path = file.path;
+    let counter = 2;
+
+    while (used.has(path.toLowerCase())) {
+      path = file.path.replace(/\.md$/, ` (${counter}).md`);
+      counter++;
+    }
+
+    used.add(path.toLowerCase());
+    return path === file.path ? file : { ...file, path };
+  });
+}
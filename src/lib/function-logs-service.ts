@@ -16,6 +16,53 @@ export interface FunctionLogUpdate {
   error_stack?: string;
   completed_at?: Date;
   duration_ms?: number;
+  attempt?: number;
+  max_attempts?: number;
+}
+
+export interface FunctionLogStepInput {
+  log_id: string;
+  user_id?: string;
+  name: string;
+  op?: string;
+  attempt: number;
+  status: 'completed' | 'failed';
+  started_at: Date;
+  duration_ms: number;
+  output_bytes?: number;
+  error_message?: string;
+}
+
+/**
+ * Placeholder stored in place of secret values in logged event payloads
+ */
+export const REDACTED_VALUE = '[REDACTED]';
+
+const SECRET_KEY_PATTERN = /api[-_]?key|token|secret|password|authorization/i;
+
+/**
+ * Copy a value with every secret-looking key masked
+ *
+ * USE WHEN: persisting event payloads. Readwise and Airtable events carry the user's API key,
+ * and logs are readable by the user in the browser and kept indefinitely.
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && item !== null && item !== undefined && item !== ''
+          ? REDACTED_VALUE
+          : redactSecrets(item)
+      ])
+    ) as T;
+  }
+
+  return value;
 }
 
 /**
@@ -145,6 +192,28 @@ export class FunctionLogsService {
     }
   }
   
+  /**
+   * Record one attempt of a step within a logged run
+   */
+  static async recordStep(step: FunctionLogStepInput): Promise<boolean> {
+    try {
+      const supabase = createServerClient();
+      const { error } = await supabase
+        .from('function_log_steps')
+        .insert(step);
+
+      if (error) {
+        console.error(`Error recording step ${step.name} for log ${step.log_id}:`, error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error in recordStep for ${step.log_id}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Get function logs for a specific user
    */
@@ -0,0 +1,78 @@
+/**
+ * Minimal RFC 4180 CSV reader: quoted fields, escaped quotes ("") and line breaks
+ * inside quotes. The delimiter (comma, semicolon or tab) is taken from the header line.
+ */
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Parse CSV text into rows of cells
+ */
+export function parseCsvRows(content: string): string[][] {
+  const text = content.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Parse CSV text into records keyed by the header row
+ */
+export function parseCsvRecords(content: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) {
+    return [];
+  }
+
+  return rows.map(cells =>
+    Object.fromEntries(header.map((name, index) => [name.trim(), cells[index] ?? '']))
+  );
+}
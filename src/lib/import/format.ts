@@ -0,0 +1,94 @@
+import type { LibrarySource } from '@/lib/types';
+
+/**
+ * Shared shapes for importing highlights from files (Kindle clippings, CSV, JSON)
+ *
+ * Parsers turn a file into ImportedBooks; `importHighlights` writes them as `books` and
+ * `highlights` rows. Imported rows get a synthetic, negative `rw_id` from the database,
+ * so they never collide with Readwise IDs.
+ */
+
+export type ImportFormat = 'kindle' | 'csv' | 'json';
+
+/**
+ * Where the imported rows came from, stored in `books.source` / `highlights.source`
+ *
+ * NOTE: Apple Books has no export of its own; its annotations arrive as a CSV dump of
+ * the AEAnnotation database and are recognised by their column names.
+ */
+export type ImportSource = Exclude<LibrarySource, 'readwise'>;
+
+export const IMPORT_FORMATS: ImportFormat[] = ['kindle', 'csv', 'json'];
+
+// Uploads are read into memory by the import function
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+
+export interface ImportedHighlight {
+  text: string;
+  note: string | null;
+  location: string | null;
+  locationType: 'location' | 'page' | 'order' | null;
+  highlightedAt: string | null;
+  url: string | null;
+  color: string | null;
+  tags: string[];
+}
+
+export interface ImportedBook {
+  title: string;
+  author: string | null;
+  sourceUrl: string | null;
+  highlights: ImportedHighlight[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  books: ImportedBook[];
+  // Entries that were read but can't become highlights (bookmarks, empty rows, ...)
+  skipped: number;
+  warnings: string[];
+}
+
+/**
+ * Summary of an import, returned by the import function and kept in `function_logs`
+ */
+export interface ImportReport {
+  fileName: string;
+  format: ImportFormat;
+  source: ImportSource;
+  booksInFile: number;
+  booksCreated: number;
+  booksMatched: number;
+  highlightsInFile: number;
+  imported: number;
+  duplicatesInFile: number;
+  alreadyInLibrary: number;
+  skipped: number;
+  warnings: string[];
+}
+
+// Keeps the report small enough for a function log row
+export const MAX_IMPORT_WARNINGS = 20;
+
+/**
+ * Normalizes highlight text for duplicate detection
+ * Ignores case, Unicode variants, curly vs straight quotes, whitespace and
+ * surrounding punctuation, which differ between Kindle, Readwise and CSV exports.
+ */
+export function normalizeHighlightText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[‘’‚‛]/g, "'")
+    .replace(/[“”„‟]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'.,;:!?…-]+|[\s"'.,;:!?…-]+$/g, '');
+}
+
+/**
+ * Key used to match an imported book to one already in the library
+ */
+export function bookMatchKey(title: string, author: string | null): string {
+  return `${normalizeHighlightText(title)}\u0000${normalizeHighlightText(author || '')}`;
+}
@@ -0,0 +1,156 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAll } from '../backup/queries';
+import {
+  ImportFormat,
+  ImportReport,
+  MAX_IMPORT_WARNINGS,
+  ParsedImport,
+  bookMatchKey,
+  normalizeHighlightText
+} from './format';
+
+const INSERT_BATCH_SIZE = 100;
+
+export interface ImportHighlightsOptions {
+  fileName: string;
+  format: ImportFormat;
+}
+
+/**
+ * Write parsed books and highlights into the user's library
+ *
+ * Books are matched to existing ones (from Readwise or earlier imports) by title and
+ * author, so clippings of a synced book land on that book. Highlights are skipped when
+ * their normalized text is already in the library or earlier in the same file, which
+ * makes re-importing the same file a no-op.
+ *
+ * NOTE: New rows leave `rw_id` out so the database assigns a synthetic negative one,
+ * and `rw_updated` stays null so imports don't move the Readwise incremental sync baseline.
+ */
+export async function importHighlights(
+  supabase: SupabaseClient,
+  userId: string,
+  parsed: ParsedImport,
+  { fileName, format }: ImportHighlightsOptions
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    fileName,
+    format,
+    source: parsed.source,
+    booksInFile: parsed.books.length,
+    booksCreated: 0,
+    booksMatched: 0,
+    highlightsInFile: parsed.books.reduce((sum, book) => sum + book.highlights.length, 0),
+    imported: 0,
+    duplicatesInFile: 0,
+    alreadyInLibrary: 0,
+    skipped: parsed.skipped,
+    warnings: parsed.warnings.slice(0, MAX_IMPORT_WARNINGS)
+  };
+
+  const existingBooks = await fetchAll(supabase, 'books', 'id, rw_id, rw_title, rw_author', userId);
+  const booksByKey = new Map<string, { id: string; rwId: number }>(
+    existingBooks.map(book => [bookMatchKey(book.rw_title || '', book.rw_author), { id: book.id, rwId: book.rw_id }])
+  );
+
+  const existingTexts = new Set(
+    (await fetchAll(supabase, 'highlights', 'rw_text', userId)).map(row => normalizeHighlightText(row.rw_text || ''))
+  );
+  const seenInFile = new Set<string>();
+
+  // Drop duplicates first, so books without anything new aren't created
+  const pending = parsed.books
+    .map(book => ({
+      book,
+      key: bookMatchKey(book.title, book.author),
+      highlights: book.highlights.filter(highlight => {
+        const normalized = normalizeHighlightText(highlight.text);
+        if (!normalized) {
+          report.skipped++;
+          return false;
+        }
+        if (seenInFile.has(normalized)) {
+          report.duplicatesInFile++;
+          return false;
+        }
+        seenInFile.add(normalized);
+        if (existingTexts.has(normalized)) {
+          report.alreadyInLibrary++;
+          return false;
+        }
+        return true;
+      })
+    }))
+    .filter(entry => entry.highlights.length > 0);
+
+  report.booksMatched = pending.filter(entry => booksByKey.has(entry.key)).length;
+
+  const newBooks = pending
+    .filter(entry => !booksByKey.has(entry.key))
+    .map(({ book, highlights }) => ({
+      user_id: userId,
+      source: parsed.source,
+      rw_title: book.title,
+      rw_author: book.author,
+      rw_source_url: book.sourceUrl,
+      rw_num_highlights: highlights.length,
+      rw_last_highlight_at: highlights
+        .map(highlight => highlight.highlightedAt)
+        .filter((date): date is string => !!date)
+        .sort()
+        .pop() ?? null,
+      rw_tags: []
+    }));
+
+  for (let i = 0; i < newBooks.length; i += INSERT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('books')
+      .insert(newBooks.slice(i, i + INSERT_BATCH_SIZE))
+      .select('id, rw_id, rw_title, rw_author');
+
+    if (error) {
+      throw new Error(`Error creating books: ${error.message}`);
+    }
+
+    for (const book of data || []) {
+      booksByKey.set(bookMatchKey(book.rw_title || '', book.rw_author), { id: book.id, rwId: book.rw_id });
+    }
+    report.booksCreated += data?.length || 0;
+  }
+
+  const highlightRows = pending.flatMap(({ key, highlights }) => {
+    const book = booksByKey.get(key)!;
+
+    return highlights.map(highlight => ({
+      user_id: userId,
+      book_id: book.id,
+      source: parsed.source,
+      rw_book_id: book.rwId,
+      rw_text: highlight.text,
+      rw_note: highlight.note,
+      rw_location: highlight.location,
+      rw_location_type: highlight.locationType,
+      rw_highlighted_at: highlight.highlightedAt,
+      rw_url: highlight.url,
+      rw_color: highlight.color,
+      rw_tags: highlight.tags.map(name => ({ name }))
+    }));
+  });
+
+  for (let i = 0; i < highlightRows.length; i += INSERT_BATCH_SIZE) {
+    const batch = highlightRows.slice(i, i + INSERT_BATCH_SIZE);
+    const { error } = await supabase.from('highlights').insert(batch);
+
+    if (error) {
+      // Keep going: earlier batches are committed and a re-run skips them as duplicates
+      if (report.warnings.length < MAX_IMPORT_WARNINGS) {
+        report.warnings.push(`Failed to save ${batch.length} highlights: ${error.message}`);
+      }
+      continue;
+    }
+
+    report.imported += batch.length;
+  }
+
+  return report;
+}
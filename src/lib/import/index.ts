@@ -0,0 +1,39 @@
+import { ImportFormat, ParsedImport } from './format';
+import { parseKindleClippings } from './kindle';
+import { parseCsvImport, parseJsonImport } from './records';
+
+export * from './format';
+export { parseKindleClippings } from './kindle';
+export { parseCsvImport, parseJsonImport } from './records';
+export { importHighlights } from './import-highlights';
+export type { ImportHighlightsOptions } from './import-highlights';
+
+/**
+ * Guess the format of an uploaded file from its name, falling back to its contents
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat | null {
+  const name = fileName.toLowerCase();
+
+  if (name.endsWith('.json')) return 'json';
+  if (name.endsWith('.csv') || name.endsWith('.tsv')) return 'csv';
+  if (/^={10}\s*$/m.test(content)) return 'kindle';
+  if (/^\s*[[{]/.test(content)) return 'json';
+
+  return null;
+}
+
+/**
+ * Parse an uploaded file in the given format
+ *
+ * @throws Error with a message for the user when the file can't be read as that format
+ */
+export function parseImportFile(content: string, format: ImportFormat): ParsedImport {
+  switch (format) {
+    case 'kindle':
+      return parseKindleClippings(content);
+    case 'csv':
+      return parseCsvImport(content);
+    case 'json':
+      return parseJsonImport(content);
+  }
+}
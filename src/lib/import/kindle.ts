@@ -0,0 +1,166 @@
+import { ImportedBook, ImportedHighlight, ParsedImport, bookMatchKey } from './format';
+
+/**
+ * Parser for Kindle's `My Clippings.txt`
+ *
+ * Each clipping is a title line, a metadata line and the text, ended by a line of `=`:
+ *
+ *   The Pragmatic Programmer (David Thomas;Andrew Hunt)
+ *   - Your Highlight on page 23 | Location 340-342 | Added on Monday, March 4, 2019 10:00:00 PM
+ *
+ *   Text of the highlight
+ *   ==========
+ *
+ * Notes are separate clippings placed at the end of the highlight they belong to, so
+ * they are attached to the highlight whose location range contains them.
+ */
+
+const CLIPPING_SEPARATOR = /^={5,}\s*$/m;
+
+// The metadata line is localized; these cover the languages Kindle ships with most often
+const NOTE_PATTERN = /\b(note|notiz|nota)\b/i;
+const BOOKMARK_PATTERN = /(bookmark|lesezeichen|signet|marcador|segnalibro)/i;
+const LOCATION_PATTERN = /(?:location|loc\.?|position|posición|posizione|emplacement)\s+(\d+)(?:\s*-\s*(\d+))?/i;
+const PAGE_PATTERN = /(?:page|seite|página|pagina)\s+(\d+)/i;
+const ADDED_PATTERN = /\|\s*[^|]*?(?:added on|hinzugefügt am|ajouté le|añadido el|aggiunto il)\s+(.+)$/i;
+
+interface Clipping {
+  title: string;
+  author: string | null;
+  kind: 'highlight' | 'note' | 'bookmark';
+  locationStart: number | null;
+  locationEnd: number | null;
+  page: string | null;
+  addedAt: string | null;
+  text: string;
+}
+
+/**
+ * Split "Title (Author)" into its parts; the author is in the last parentheses
+ */
+function parseTitleLine(line: string): { title: string; author: string | null } {
+  const cleaned = line.replace(/^﻿/, '').trim();
+  const match = cleaned.match(/^(.*\S)\s*\(([^()]*)\)$/);
+
+  if (!match) {
+    return { title: cleaned, author: null };
+  }
+
+  return { title: match[1].trim(), author: match[2].trim() || null };
+}
+
+function parseAddedAt(metaLine: string): string | null {
+  const raw = metaLine.match(ADDED_PATTERN)?.[1];
+  if (!raw) {
+    return null;
+  }
+
+  // Date.parse doesn't accept a leading weekday ("Monday, March 4, 2019 ...")
+  const parsed = Date.parse(raw.replace(/^[^\d,]+,\s*/, '').trim());
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function parseClipping(block: string): Clipping | null {
+  const lines = block.split(/\r?\n/).map(line => line.trimEnd());
+  while (lines.length > 0 && lines[0].trim() === '') {
+    lines.shift();
+  }
+
+  if (lines.length < 2) {
+    return null;
+  }
+
+  const { title, author } = parseTitleLine(lines[0]);
+  const metaLine = lines[1];
+  const location = metaLine.match(LOCATION_PATTERN);
+  const page = metaLine.match(PAGE_PATTERN)?.[1] ?? null;
+
+  const kind = BOOKMARK_PATTERN.test(metaLine)
+    ? 'bookmark'
+    : NOTE_PATTERN.test(metaLine) ? 'note' : 'highlight';
+
+  return {
+    title,
+    author,
+    kind,
+    locationStart: location ? Number(location[1]) : null,
+    locationEnd: location?.[2] ? Number(location[2]) : location ? Number(location[1]) : null,
+    page,
+    addedAt: parseAddedAt(metaLine),
+    text: lines.slice(2).join('\n').trim()
+  };
+}
+
+/**
+ * Parse the contents of a `My Clippings.txt` file
+ */
+export function parseKindleClippings(content: string): ParsedImport {
+  const books = new Map<string, ImportedBook>();
+  // Highlight ranges per book, for attaching notes
+  const ranges = new Map<string, Array<{ start: number; end: number; highlight: ImportedHighlight }>>();
+  const warnings: string[] = [];
+  let skipped = 0;
+
+  const blocks = content.split(CLIPPING_SEPARATOR).filter(block => block.trim() !== '');
+
+  for (const block of blocks) {
+    const clipping = parseClipping(block);
+
+    if (!clipping || !clipping.title) {
+      skipped++;
+      warnings.push(`Unreadable clipping: ${block.trim().slice(0, 60)}`);
+      continue;
+    }
+
+    if (clipping.kind === 'bookmark' || !clipping.text) {
+      skipped++;
+      continue;
+    }
+
+    const key = bookMatchKey(clipping.title, clipping.author);
+
+    if (clipping.kind === 'note') {
+      // A note sits at the end location of its highlight
+      const target = clipping.locationStart !== null
+        ? [...(ranges.get(key) || [])].reverse().find(range =>
+            clipping.locationStart! >= range.start && clipping.locationStart! <= range.end)
+        : undefined;
+
+      if (target) {
+        target.highlight.note = target.highlight.note
+          ? `${target.highlight.note}\n\n${clipping.text}`
+          : clipping.text;
+      } else {
+        skipped++;
+        warnings.push(`Note without a matching highlight in "${clipping.title}": ${clipping.text.slice(0, 60)}`);
+      }
+      continue;
+    }
+
+    let book = books.get(key);
+    if (!book) {
+      book = { title: clipping.title, author: clipping.author, sourceUrl: null, highlights: [] };
+      books.set(key, book);
+      ranges.set(key, []);
+    }
+
+    const highlight: ImportedHighlight = {
+      text: clipping.text,
+      note: null,
+      location: clipping.locationStart !== null ? String(clipping.locationStart) : clipping.page,
+      locationType: clipping.locationStart !== null ? 'location' : clipping.page ? 'page' : null,
+      highlightedAt: clipping.addedAt,
+      url: null,
+      color: null,
+      tags: []
+    };
+
+    book.highlights.push(highlight);
+
+    if (clipping.locationStart !== null) {
+      ranges.get(key)!.push({ start: clipping.locationStart, end: clipping.locationEnd!, highlight });
+    }
+  }
+
+  return { source: 'kindle', books: [...books.values()], skipped, warnings };
+}
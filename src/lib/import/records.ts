@@ -0,0 +1,217 @@
+import { parseCsvRecords } from './csv';
+import {
+  ImportedBook,
+  ImportedHighlight,
+  ImportSource,
+  ParsedImport,
+  bookMatchKey
+} from './format';
+
+/**
+ * Turns rows from CSV files and JSON exports of other tools into books and highlights
+ *
+ * Column names are matched loosely (case, spaces and punctuation are ignored) against the
+ * aliases below, which cover Readwise's own CSV format, common highlight exporters and
+ * Apple Books' AEAnnotation database columns.
+ */
+
+type RecordField = 'text' | 'title' | 'author' | 'note' | 'location' | 'page' | 'date' | 'url' | 'sourceUrl' | 'tags' | 'color';
+
+const FIELD_ALIASES: Record<RecordField, string[]> = {
+  text: ['highlight', 'text', 'quote', 'highlighttext', 'annotation', 'content', 'zannotationselectedtext'],
+  title: ['title', 'booktitle', 'book', 'sourcetitle', 'document', 'ztitle'],
+  author: ['author', 'authors', 'bookauthor', 'zauthor'],
+  note: ['note', 'notes', 'comment', 'annotationnote', 'zannotationnote'],
+  location: ['location', 'loc', 'position'],
+  page: ['page', 'pagenumber'],
+  date: ['date', 'highlightedat', 'created', 'createdat', 'dateadded', 'addedon', 'zannotationcreationdate'],
+  url: ['url', 'link', 'highlighturl'],
+  sourceUrl: ['sourceurl', 'bookurl', 'documenturl'],
+  tags: ['tags', 'tag', 'labels'],
+  color: ['color', 'colour', 'highlightcolor']
+};
+
+// Apple stores dates as seconds since 2001-01-01 (Core Data reference date)
+const CORE_DATA_EPOCH_SECONDS = 978307200;
+
+const UNTITLED_BOOK = 'Imported highlights';
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Look up a field in a record by any of its aliases
+ */
+function pick(record: Record<string, any>, field: RecordField): any {
+  for (const [key, value] of Object.entries(record)) {
+    if (FIELD_ALIASES[field].includes(normalizeKey(key)) && value !== null && value !== undefined && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function asText(value: any): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function parseDate(value: any, source: ImportSource): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const numeric = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(String(value).trim()) ? Number(value) : null;
+
+  let time: number;
+  if (numeric !== null) {
+    if (source === 'apple_books') {
+      time = (numeric + CORE_DATA_EPOCH_SECONDS) * 1000;
+    } else {
+      // Unix timestamps, in seconds or milliseconds
+      time = numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+  } else {
+    time = Date.parse(String(value));
+  }
+
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * Tags as a list: a JSON array (of strings or { name } objects) or a comma/semicolon list
+ */
+function parseTags(value: any): string[] {
+  if (Array.isArray(value)) {
+    return value
+      .map(tag => asText(typeof tag === 'object' && tag !== null ? tag.name : tag))
+      .filter((tag): tag is string => !!tag);
+  }
+
+  const text = asText(value);
+  return text ? text.split(/[,;]/).map(tag => tag.trim()).filter(Boolean) : [];
+}
+
+function toHighlight(record: Record<string, any>, source: ImportSource): ImportedHighlight | null {
+  const text = asText(pick(record, 'text'));
+  if (!text) {
+    return null;
+  }
+
+  const location = asText(pick(record, 'location'));
+  const page = asText(pick(record, 'page'));
+
+  return {
+    text,
+    note: asText(pick(record, 'note')),
+    location: location ?? page,
+    locationType: location ? 'location' : page ? 'page' : null,
+    highlightedAt: parseDate(pick(record, 'date'), source),
+    url: asText(pick(record, 'url')),
+    color: asText(pick(record, 'color')),
+    tags: parseTags(pick(record, 'tags'))
+  };
+}
+
+/**
+ * Group flat highlight records into books
+ *
+ * @param parent Book fields for records nested under a book in a JSON export
+ */
+function addRecords(
+  books: Map<string, ImportedBook>,
+  records: Record<string, any>[],
+  source: ImportSource,
+  parent?: Record<string, any>
+): number {
+  let skipped = 0;
+
+  for (const record of records) {
+    if (typeof record !== 'object' || record === null) {
+      skipped++;
+      continue;
+    }
+
+    const highlight = toHighlight(record, source);
+    if (!highlight) {
+      skipped++;
+      continue;
+    }
+
+    const bookFields = parent || record;
+    const title = asText(pick(bookFields, 'title')) || UNTITLED_BOOK;
+    const author = asText(pick(bookFields, 'author'));
+    const key = bookMatchKey(title, author);
+
+    let book = books.get(key);
+    if (!book) {
+      book = {
+        title,
+        author,
+        sourceUrl: asText(pick(bookFields, 'sourceUrl')) ?? (parent ? asText(pick(parent, 'url')) : null),
+        highlights: []
+      };
+      books.set(key, book);
+    }
+
+    book.highlights.push(highlight);
+  }
+
+  return skipped;
+}
+
+/**
+ * Parse a CSV file with one highlight per row
+ */
+export function parseCsvImport(content: string): ParsedImport {
+  const records = parseCsvRecords(content);
+  const headers = Object.keys(records[0] || {}).map(normalizeKey);
+  const source: ImportSource = headers.includes('zannotationselectedtext') ? 'apple_books' : 'csv';
+
+  if (records.length > 0 && !headers.some(header => FIELD_ALIASES.text.includes(header))) {
+    throw new Error(`No highlight text column found. Expected one of: Highlight, Text, Quote`);
+  }
+
+  const books = new Map<string, ImportedBook>();
+  const skipped = addRecords(books, records, source);
+
+  return { source, books: [...books.values()], skipped, warnings: [] };
+}
+
+/**
+ * Parse a JSON export: an array of highlights, an array of books each with a
+ * `highlights` array, or an object wrapping either under `highlights`/`books`/`results`
+ */
+export function parseJsonImport(content: string): ParsedImport {
+  let data: any;
+  try {
+    data = JSON.parse(content.replace(/^﻿/, ''));
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const items: any[] = Array.isArray(data)
+    ? data
+    : data?.highlights ?? data?.books ?? data?.results ?? [];
+
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a list of highlights or books');
+  }
+
+  const books = new Map<string, ImportedBook>();
+  let skipped = 0;
+
+  for (const item of items) {
+    if (item && Array.isArray(item.highlights)) {
+      skipped += addRecords(books, item.highlights, 'json', item);
+    } else {
+      skipped += addRecords(books, [item], 'json');
+    }
+  }
+
+  return { source: 'json', books: [...books.values()], skipped, warnings: [] };
+}
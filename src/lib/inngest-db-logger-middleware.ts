@@ -1,6 +1,13 @@
-import { FunctionLogsService } from "./function-logs-service";
+import { NonRetriableError, StepError } from "inngest";
+import { FunctionLogsService, redactSecrets } from "./function-logs-service";
+import { createNotification } from "./notifications";
 import { createServerClient } from "./supabase";
 
+/**
+ * Inngest retries a function 3 times unless it configures `retries`
+ */
+const DEFAULT_RETRIES = 3;
+
 /**
  * Track function execution contexts by runId to ensure transformOutput can access
  * the same context used in beforeExecution
@@ -8,8 +15,12 @@ import { createServerClient } from "./supabase";
 const functionContexts = new Map<string, { 
   functionId: string;
   functionName: string;
+  userId?: string;
   logId?: string;
   isCompleting?: boolean; // Flag to prevent double completion
+  attempt: number; // Zero-indexed, as reported by Inngest
+  maxAttempts: number;
+  executionStartedAt?: number; // When this request started running new code
 }>();
 
 /**
@@ -37,12 +48,15 @@ export const databaseLoggerMiddleware = {
         // Extract function and event information
         const functionName = fn.name || 'unknown-function';
         // Important: Some Inngest functions use name as ID
-        const functionId = fn.id || functionName; 
+        // NOTE: In SDK v3 `id` is a method (it takes an optional app prefix), not a property
+        const functionId = (typeof fn.id === 'function' ? fn.id() : fn.id) || functionName;
         const eventName = ctx.event?.name;
         const userId = ctx.event?.data?.userId || ctx.event?.user?.id;
         
         // Get Inngest's run ID
         const runId = ctx.runId || '';
+        const attempt: number = ctx.attempt ?? 0;
+        const maxAttempts: number = (fn.opts?.retries ?? DEFAULT_RETRIES) + 1;
         
         // Log all function details for debugging
         debugLog('FUNCTION RUN DETAILS', {
@@ -69,11 +83,20 @@ export const databaseLoggerMiddleware = {
         functionContexts.set(runId, {
           functionId,
           functionName,
-          isCompleting: false
+          userId,
+          isCompleting: false,
+          attempt,
+          maxAttempts
         });
         
         return {
           beforeExecution: async () => {
+            // Every request runs at most one new step, so this is also when that step started
+            const startingContext = functionContexts.get(runId);
+            if (startingContext) {
+              startingContext.executionStartedAt = Date.now();
+            }
+
             try {
               // Check database FIRST to see if this run has already been logged
               const supabase = createServerClient();
@@ -107,7 +130,7 @@ export const databaseLoggerMiddleware = {
                 user_id: userId,
                 run_id: runId,
                 input_params: {
-                  event: ctx.event,
+                  event: redactSecrets(ctx.event),
                   eventName
                 }
               });
@@ -126,11 +149,12 @@ export const databaseLoggerMiddleware = {
             }
           },
           
-          transformOutput: ({ result }: { result: any }) => {
+          transformOutput: async ({ result, step }: { result: any; step?: { name?: string; displayName?: string; op?: string } }) => {
             // Always log when transformOutput is called
             debugLog('transformOutput called', { 
               runId: runId, 
-              result: result ? 'Present' : 'Missing'
+              result: result ? 'Present' : 'Missing',
+              step: step ? step.displayName || step.name : 'None'
             });
             
             // Get the function context from our cache
@@ -139,34 +163,33 @@ export const databaseLoggerMiddleware = {
             
             // Only update the log if we have a logId
             if (context?.logId) {
-              // Check if this is an intermediate result or final result
-              if (result && !context.isCompleting) {
-                // Check if this is the final step using the isLastStep convention
-                const isFinalResult = result.isLastStep === true || 
-                                     (result.data && result.data.isLastStep === true);
-                
-                if (isFinalResult) {
-                  // This is marked as the final result, mark the function as completed
-                  context.isCompleting = true;
-                  functionContexts.set(runId, context);
-                  debugLog(`Processing final result for run ${runId} (marked with isLastStep)`);
-                  updateLogStatus(context.logId, result);
+              if (step) {
+                // A step ran (or failed) in this request; the run itself goes on
+                await recordStep(context, context.logId, step, result);
+                if (!context.isCompleting) {
+                  await updateLogWithoutCompletingStatus(context.logId, result, context);
+                }
+              } else if (!context.isCompleting) {
+                // Without a step, the function itself returned or threw
+                if (result?.error !== undefined && willRetry(result.error, context)) {
+                  debugLog(`Attempt ${context.attempt + 1} of ${context.maxAttempts} failed for run ${runId}, Inngest will retry`);
+                  await updateLogWithoutCompletingStatus(context.logId, result, context);
                 } else {
-                  // This is an intermediate step result, just update the data
-                  // but keep the function status as "started"
-                  debugLog(`Processing intermediate result for run ${runId}`);
-                  updateLogWithoutCompletingStatus(context.logId, result);
-                  return result;
+                  context.isCompleting = true;
+                  debugLog(`Processing final result for run ${runId}`);
+                  await updateLogStatus(context.logId, result, context);
+
+                  const failure = failureMessage(result);
+                  if (failure !== null) {
+                    await notifyJobFailure(context, failure);
+                  }
                 }
-              } else {
-                // Update the log status (this is likely an error case)
-                updateLogStatus(context.logId, result);
               }
             } else {
               debugLog(`No log ID found for run ${runId}`);
               
               // Try to find the log ID in database as fallback
-              (async () => {
+              if (!step) {
                 try {
                   const supabase = createServerClient();
                   const { data: logEntry } = await supabase
@@ -177,12 +200,12 @@ export const databaseLoggerMiddleware = {
                     
                   if (logEntry?.id) {
                     debugLog(`Found log ID ${logEntry.id} in database for run ${runId}`);
-                    updateLogStatus(logEntry.id, result);
+                    await updateLogStatus(logEntry.id, result, context);
                   }
                 } catch (err) {
                   console.error('Error finding log entry:', err);
                 }
-              })();
+              }
             }
             
             // Must return the original result
@@ -200,10 +223,67 @@ export const databaseLoggerMiddleware = {
   }
 };
 
+type RunContext = NonNullable<ReturnType<typeof functionContexts.get>>;
+
+/**
+ * Whether Inngest will run the function again after this error
+ *
+ * Mirrors the SDK: NonRetriableError and StepError (a step that exhausted its own retries)
+ * end the run, anything else is retried until the attempts run out.
+ */
+function willRetry(error: unknown, context: RunContext): boolean {
+  if (error instanceof NonRetriableError || error instanceof StepError) {
+    return false;
+  }
+  return context.attempt + 1 < context.maxAttempts;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Size of a step's output as Inngest stores it, in bytes
+ */
+function outputBytes(data: unknown): number | undefined {
+  if (data === undefined) return undefined;
+  try {
+    return Buffer.byteLength(JSON.stringify(data), 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Helper function to add a step attempt to the run's timeline
+ */
+async function recordStep(
+  context: RunContext,
+  logId: string,
+  step: { name?: string; displayName?: string; op?: string },
+  result: any
+) {
+  const startedAt = context.executionStartedAt ?? Date.now();
+  const failed = result?.error !== undefined;
+
+  await FunctionLogsService.recordStep({
+    log_id: logId,
+    user_id: context.userId,
+    name: step.displayName || step.name || 'unnamed-step',
+    op: step.op,
+    attempt: context.attempt,
+    status: failed ? 'failed' : 'completed',
+    started_at: new Date(startedAt),
+    duration_ms: Date.now() - startedAt,
+    output_bytes: failed ? undefined : outputBytes(result?.data),
+    error_message: failed ? errorMessage(result.error) : undefined
+  });
+}
+
 /**
  * Helper function to update log with data without changing status
  */
-async function updateLogWithoutCompletingStatus(logId: string, result: any) {
+async function updateLogWithoutCompletingStatus(logId: string, result: any, context: RunContext) {
   try {
     // Make sure we have a logId before trying to update
     if (!logId) return;
@@ -213,7 +293,11 @@ async function updateLogWithoutCompletingStatus(logId: string, result: any) {
     // Update the result data while maintaining the 'started' status
     await FunctionLogsService.updateFunctionLog(logId, {
       status: 'started', // Keep the status as started
-      result_data: result.data || result // Update the result data
+      result_data: result.data || result, // Update the result data
+      // A failed attempt that will be retried keeps its error visible until the next one
+      ...(result.error !== undefined ? { error_message: errorMessage(result.error) } : {}),
+      attempt: context.attempt,
+      max_attempts: context.maxAttempts
     });
     
     debugLog(`Updated log ${logId} with data without changing status`);
@@ -222,10 +306,49 @@ async function updateLogWithoutCompletingStatus(logId: string, result: any) {
   }
 }
 
+/**
+ * Why a final result is a failure, or null when the run succeeded
+ *
+ * A function that returns `markAsError(...)` handled its own failure, so it counts as
+ * failed too rather than completed.
+ */
+function failureMessage(result: any): string | null {
+  if (result?.error) {
+    return errorMessage(result.error);
+  }
+  if (result?.data?.success === false) {
+    return result.data.error ? String(result.data.error) : 'Function reported failure';
+  }
+  return null;
+}
+
+/**
+ * Tell the user a background job gave up, once per function until they read it
+ */
+async function notifyJobFailure(context: RunContext, message: string) {
+  if (!context.userId) return;
+
+  try {
+    await createNotification(createServerClient(), {
+      userId: context.userId,
+      type: 'job_failed',
+      title: `${context.functionName} failed`,
+      body: context.attempt > 0
+        ? `${message}\n\nGave up after ${context.attempt + 1} attempts.`
+        : message,
+      link: '/settings?tab=background-jobs',
+      dedupeKey: `job_failed:${context.functionId}`,
+      data: { functionId: context.functionId, logId: context.logId }
+    });
+  } catch (err) {
+    console.error("Error creating job failure notification:", err);
+  }
+}
+
 /**
  * Helper function to update log status
  */
-async function updateLogStatus(logId: string, result: any) {
+async function updateLogStatus(logId: string, result: any, context?: RunContext) {
   try {
     // Make sure we have a logId before trying to update
     if (!logId) return;
@@ -233,25 +356,33 @@ async function updateLogStatus(logId: string, result: any) {
     debugLog(`Updating log status for ${logId}`, { 
       hasError: !!result.error 
     });
+
+    const attempts = context
+      ? { attempt: context.attempt, max_attempts: context.maxAttempts }
+      : {};
+    
+    const failure = failureMessage(result);
     
-    if (result.error) {
+    if (failure !== null) {
       // Log failure with error details
       await FunctionLogsService.updateFunctionLog(logId, {
         status: "failed",
-        error_message: result.error instanceof Error ? result.error.message : String(result.error),
+        error_message: failure,
         error_stack: result.error instanceof Error ? result.error.stack : undefined,
-        result_data: result.data || result
+        result_data: result.data || result,
+        ...attempts
       });
       debugLog(`Updated log ${logId} as failed`);
     } else {
       // Log successful completion with result data
       await FunctionLogsService.updateFunctionLog(logId, {
         status: "completed",
-        result_data: result.data || result
+        result_data: result.data || result,
+        ...attempts
       });
       debugLog(`Updated log ${logId} as completed`);
     }
   } catch (err) {
     console.error("Error updating function log status:", err);
   }
-} 
\ No newline at end of file
+}
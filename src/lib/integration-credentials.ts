@@ -0,0 +1,50 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { IntegrationProvider } from './types';
+
+export const INTEGRATION_PROVIDERS: IntegrationProvider[] = ['readwise', 'airtable'];
+
+/**
+ * Look up a user's decrypted integration token
+ *
+ * USE WHEN: A server route, webhook or Inngest function needs to call Readwise or Airtable
+ * on a user's behalf. Tokens are never sent to or accepted back from the browser for this.
+ *
+ * NOTE: Needs a service-role client; the lookup function is not executable by users.
+ *
+ * @returns The token, or null when the user has not connected the integration
+ */
+export async function getIntegrationCredential(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: IntegrationProvider
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_integration_credential', {
+    p_user_id: userId,
+    p_provider: provider
+  });
+
+  if (error) {
+    throw new Error(`Error reading ${provider} credentials: ${error.message}`);
+  }
+
+  return (data as string | null) || null;
+}
+
+/**
+ * Look up every integration token a user has stored
+ */
+export async function getIntegrationCredentials(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Partial<Record<IntegrationProvider, string>>> {
+  const credentials: Partial<Record<IntegrationProvider, string>> = {};
+
+  for (const provider of INTEGRATION_PROVIDERS) {
+    const token = await getIntegrationCredential(supabase, userId, provider);
+    if (token) {
+      credentials[provider] = token;
+    }
+  }
+
+  return credentials;
+}
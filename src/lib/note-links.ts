@@ -0,0 +1,125 @@
+/**
+ * Link syntax in note content
+ *
+ *   [[Title]]                      a note or, when no note has that title, a book
+ *   [[note:Title]], [[book:Title]]   the same, forcing the target type
+ *   [[Title|shown text]]           any of the above with a display alias
+ *   @[shown text](highlight:<id>)  a highlight; @[...](spark:<id>) a spark
+ *
+ * Links are resolved and stored by the database (see the add_note_links migration);
+ * this module only parses and writes the syntax.
+ *
+ * NOTE: The patterns must match those in the migration.
+ */
+
+export type WikiLinkTargetType = 'note' | 'book';
+export type MentionTargetType = 'highlight' | 'spark';
+
+export type NoteContentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'wiki'; raw: string; targetType: WikiLinkTargetType | null; title: string; label: string }
+  | { type: 'mention'; raw: string; targetType: MentionTargetType; id: string; label: string };
+
+const WIKI_LINK_SOURCE = String.raw`\[\[((note|book):)?([^\][|]+)(\|[^\][]*)?\]\]`;
+const UUID_SOURCE = String.raw`[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}`;
+const MENTION_SOURCE = String.raw`@\[([^\]]*)\]\((highlight|spark):(${UUID_SOURCE})\)`;
+
+/**
+ * Split note content into plain text, wiki-links and mentions, in order
+ */
+export function parseNoteContent(content: string): NoteContentSegment[] {
+  const pattern = new RegExp(`${WIKI_LINK_SOURCE}|${MENTION_SOURCE}`, 'g');
+  const segments: NoteContentSegment[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, match.index) });
+    }
+
+    if (match[3] !== undefined) {
+      const title = match[3].trim();
+      segments.push({
+        type: 'wiki',
+        raw: match[0],
+        targetType: (match[2] as WikiLinkTargetType | undefined) ?? null,
+        title,
+        label: match[4] ? match[4].slice(1).trim() || title : title
+      });
+    } else {
+      segments.push({
+        type: 'mention',
+        raw: match[0],
+        targetType: match[6] as MentionTargetType,
+        id: match[7],
+        label: match[5]
+      });
+    }
+
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Wiki-link text for a note or book title
+ *
+ * Titles containing brackets or a pipe can't be linked and are written as plain text.
+ */
+export function formatWikiLink(title: string, targetType?: WikiLinkTargetType): string {
+  const clean = title.replace(/\s+/g, ' ').trim();
+  if (!clean || /[[\]|]/.test(clean)) {
+    return clean;
+  }
+  return targetType === 'book' ? `[[book:${clean}]]` : `[[${clean}]]`;
+}
+
+/**
+ * Mention text for a highlight or spark, shown as a short excerpt of it
+ */
+export function formatMention(targetType: MentionTargetType, id: string, text: string, maxLength: number = 60): string {
+  const singleLine = text.replace(/\s+/g, ' ').replace(/[[\]]/g, '').trim();
+  const label = singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+  return `@[${label}](${targetType}:${id})`;
+}
+
+/**
+ * Point mentions at new IDs, e.g. for notes restored from a backup whose highlights and
+ * sparks were restored under new IDs. Mentions of IDs not in the maps are left as they are.
+ */
+export function remapMentionIds(content: string, ids: Record<MentionTargetType, Map<string, string>>): string {
+  return content.replace(new RegExp(MENTION_SOURCE, 'g'), (raw, label: string, targetType: MentionTargetType, id: string) => {
+    const mapped = ids[targetType].get(id);
+    return mapped ? `@[${label}](${targetType}:${mapped})` : raw;
+  });
+}
+
+/**
+ * Content with mention IDs removed, for comparing notes across databases
+ */
+export function withoutMentionIds(content: string): string {
+  return content.replace(new RegExp(MENTION_SOURCE, 'g'), (_raw, label: string, targetType: string) => `@[${label}](${targetType})`);
+}
+
+/**
+ * Route showing a link target, or null for sparks, which open in the spark preview panel
+ *
+ * Highlights have no page of their own; they link to their book's highlights.
+ */
+export function noteLinkHref(type: 'note' | 'book' | 'highlight' | 'spark', id: string, bookRwId?: number | null): string | null {
+  switch (type) {
+    case 'note':
+      return `/notes/${id}`;
+    case 'book':
+    case 'highlight':
+      return bookRwId !== null && bookRwId !== undefined ? `/highlights/${bookRwId}` : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,122 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendNotificationEmail } from './email/sendEmail';
+import { DEFAULT_USER_SETTINGS, NotificationSettings, NotificationType, UserSettings } from './types';
+
+export interface CreateNotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  /** In-app path, e.g. /automations */
+  link?: string;
+  /** While a notification with this key is unread, new ones with the same key are dropped */
+  dedupeKey?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Read a user's notification settings, filled in with defaults
+ */
+export async function getNotificationSettings(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationSettings> {
+  const { data } = await supabase
+    .from('user_settings')
+    .select('settings')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const settings = (data?.settings || {}) as UserSettings;
+  return { ...DEFAULT_USER_SETTINGS.notifications!, ...settings.notifications };
+}
+
+/**
+ * Notify a user in the app, and by email when they turned that on
+ *
+ * USE WHEN: A background job needs the user's attention. Safe to call repeatedly with the
+ * same `dedupeKey`; the user gets one notification until they read it.
+ *
+ * NOTE: Needs a service-role client; users can't insert notifications. A failed email is
+ * logged, not thrown, since the in-app notification already exists.
+ *
+ * @returns The new notification's ID, or null when an unread duplicate already exists
+ */
+export async function createNotification(
+  supabase: SupabaseClient,
+  input: CreateNotificationInput
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: input.userId,
+      type: input.type,
+      title: input.title,
+      body: input.body ?? null,
+      link: input.link ?? null,
+      dedupe_key: input.dedupeKey ?? null,
+      data: input.data ?? {}
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // Unique violation on (user_id, dedupe_key) among unread notifications
+    if (error.code === '23505') {
+      return null;
+    }
+    throw new Error(`Error creating notification: ${error.message}`);
+  }
+
+  try {
+    const settings = await getNotificationSettings(supabase, input.userId);
+
+    if (settings.email) {
+      const { data: userData, error: userError } = await supabase.auth.admin.getUserById(input.userId);
+
+      if (userError || !userData.user?.email) {
+        throw new Error(`No email address found for user ${input.userId}`);
+      }
+
+      const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+      await sendNotificationEmail(userData.user.email, {
+        title: input.title,
+        body: input.body,
+        link: `${appUrl}${input.link || '/'}`,
+        settingsUrl: `${appUrl}/settings`
+      });
+
+      await supabase
+        .from('notifications')
+        .update({ emailed_at: new Date().toISOString() })
+        .eq('id', data.id);
+    }
+  } catch (emailError) {
+    console.error(`Error emailing notification ${data.id}:`, emailError);
+  }
+
+  return data.id;
+}
+
+/**
+ * Tell the user a background job queued an automation for review
+ *
+ * Pending automations share one dedupe key, so a burst of them (several rules after one
+ * sync) is a single unread notification pointing at the automations page.
+ */
+export async function notifyPendingAutomation(
+  supabase: SupabaseClient,
+  userId: string,
+  automation: { id: string; name: string; actionsCount: number }
+): Promise<string | null> {
+  return createNotification(supabase, {
+    userId,
+    type: 'automation_pending',
+    title: 'Automations are waiting for review',
+    body: `${automation.name} suggested ${automation.actionsCount} ${automation.actionsCount === 1 ? 'change' : 'changes'}. Approve or reject them on the automations page.`,
+    link: '/automations',
+    dedupeKey: 'automation_pending',
+    data: { automationId: automation.id }
+  });
+}
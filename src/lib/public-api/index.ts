@@ -0,0 +1,4 @@
+export * from './schemas';
+export * from './pagination';
+export * from './request';
+export * from './openapi';
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { API_TOKEN_SCOPES } from '@/lib/api-tokens';
+import type { ApiTokenScope } from '@/lib/types';
+import {
+  bookSchema,
+  createBookSchema,
+  createHighlightSchema,
+  createNoteSchema,
+  createSparkSchema,
+  errorSchema,
+  highlightSchema,
+  listHighlightsQuerySchema,
+  listQuerySchema,
+  noteSchema,
+  searchQuerySchema,
+  searchResultSchema,
+  sparkSchema
+} from './schemas';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Schemas emitted once under components.schemas and referenced everywhere else
+ */
+const COMPONENTS: Record<string, z.ZodTypeAny> = {
+  Book: bookSchema,
+  Highlight: highlightSchema,
+  Spark: sparkSchema,
+  Note: noteSchema,
+  SearchResult: searchResultSchema,
+  Error: errorSchema
+};
+
+const componentNames = new Map<z.ZodTypeAny, string>(
+  Object.entries(COMPONENTS).map(([name, schema]) => [schema, name])
+);
+
+/**
+ * Convert a zod schema to JSON Schema (OpenAPI 3.1 dialect)
+ *
+ * Covers the zod types the public API schemas use; anything else becomes `{}` (any value),
+ * so a new schema type shows up as an untyped field rather than breaking the document.
+ * Effects (transforms, refinements) are described by their input schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, useRefs: boolean = true): JsonSchema {
+  const componentName = useRefs ? componentNames.get(schema) : undefined;
+  if (componentName) {
+    return { $ref: `#/components/schemas/${componentName}` };
+  }
+
+  const json = convert(schema);
+  if (schema.description && json.description === undefined) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape)
+      .filter(([, value]) => !value.isOptional())
+      .map(([key]) => key);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') json.minLength = check.value;
+      if (check.kind === 'max') json.maxLength = check.value;
+      if (check.kind === 'uuid') json.format = 'uuid';
+      if (check.kind === 'url') json.format = 'uri';
+      if (check.kind === 'datetime') json.format = 'date-time';
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') json.type = 'integer';
+      if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: 'array',
+      items: zodToJsonSchema(schema.element),
+      ...(schema._def.minLength ? { minItems: schema._def.minLength.value } : {}),
+      ...(schema._def.maxLength ? { maxItems: schema._def.maxLength.value } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    return typeof inner.type === 'string'
+      ? { ...inner, type: [inner.type, 'null'] }
+      : { anyOf: [inner, { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  return {};
+}
+
+interface OperationDefinition {
+  method: 'get' | 'post';
+  path: string;
+  summary: string;
+  scope: ApiTokenScope;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  /** Component name of the returned resource */
+  resource: string;
+  /** `page` is a cursor-paginated list, `list` a plain one */
+  returns: 'single' | 'page' | 'list';
+  /** Description of the 201 response of a create operation */
+  created?: string;
+  /** Description of the 200 response of a create operation that can return an existing record */
+  existing?: string;
+}
+
+const OPERATIONS: OperationDefinition[] = [
+  { method: 'get', path: '/books', summary: 'List books', scope: 'books:read', query: listQuerySchema, resource: 'Book', returns: 'page' },
+  { method: 'post', path: '/books', summary: 'Add a book', scope: 'books:write', body: createBookSchema, resource: 'Book', returns: 'single', created: 'The book was created' },
+  { method: 'get', path: '/highlights', summary: 'List highlights', scope: 'highlights:read', query: listHighlightsQuerySchema, resource: 'Highlight', returns: 'page' },
+  { method: 'post', path: '/highlights', summary: 'Add a highlight to a book', scope: 'highlights:write', body: createHighlightSchema, resource: 'Highlight', returns: 'single', created: 'The highlight was created' },
+  { method: 'get', path: '/sparks', summary: 'List sparks', scope: 'sparks:read', query: listQuerySchema, resource: 'Spark', returns: 'page' },
+  { method: 'post', path: '/sparks', summary: 'Capture a spark', scope: 'sparks:write', body: createSparkSchema, resource: 'Spark', returns: 'single', created: 'The spark was created', existing: 'A spark with the same text already existed and is returned instead' },
+  { method: 'get', path: '/notes', summary: 'List notes', scope: 'notes:read', query: listQuerySchema, resource: 'Note', returns: 'page' },
+  { method: 'post', path: '/notes', summary: 'Create a note', scope: 'notes:write', body: createNoteSchema, resource: 'Note', returns: 'single', created: 'The note was created' },
+  { method: 'get', path: '/search', summary: 'Search highlights, sparks and notes', scope: 'search', query: searchQuerySchema, resource: 'SearchResult', returns: 'list' }
+];
+
+function queryParameters(query: z.AnyZodObject): JsonSchema[] {
+  return Object.entries(query.shape as Record<string, z.ZodTypeAny>).map(([name, schema]) => {
+    const json = zodToJsonSchema(schema);
+    const { description, ...rest } = json;
+    return {
+      name,
+      in: 'query',
+      required: !schema.isOptional(),
+      ...(description ? { description } : {}),
+      schema: rest
+    };
+  });
+}
+
+function dataResponse(description: string, resource: string, returns: OperationDefinition['returns']): JsonSchema {
+  const ref = { $ref: `#/components/schemas/${resource}` };
+  const properties: JsonSchema = returns === 'single'
+    ? { data: ref }
+    : { data: { type: 'array', items: ref } };
+
+  if (returns === 'page') {
+    properties.nextCursor = { type: ['string', 'null'], description: 'Pass as `cursor` to get the next page; null on the last page' };
+  }
+
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: { type: 'object', properties, required: Object.keys(properties) }
+      }
+    }
+  };
+}
+
+function errorResponse(description: string): JsonSchema {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+  };
+}
+
+function buildOperation(operation: OperationDefinition): JsonSchema {
+  const responses: JsonSchema = operation.created
+    ? { '201': dataResponse(operation.created, operation.resource, operation.returns) }
+    : { '200': dataResponse('OK', operation.resource, operation.returns) };
+
+  if (operation.existing) {
+    responses['200'] = dataResponse(operation.existing, operation.resource, operation.returns);
+  }
+
+  return {
+    summary: operation.summary,
+    description: `Requires the \`${operation.scope}\` scope.`,
+    security: [{ bearerAuth: [operation.scope] }],
+    ...(operation.query ? { parameters: queryParameters(operation.query) } : {}),
+    ...(operation.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: zodToJsonSchema(operation.body) } } } }
+      : {}),
+    responses: {
+      ...responses,
+      '400': errorResponse('Invalid query or body'),
+      '401': errorResponse('Missing, invalid, expired or revoked token'),
+      '403': errorResponse('The token is missing the required scope')
+    }
+  };
+}
+
+/**
+ * Build the OpenAPI document served at /api/v1/openapi.json
+ *
+ * @param serverUrl - Base URL of the API, e.g. https://example.com/api/v1
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, JsonSchema> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = { ...(paths[operation.path] || {}), [operation.method]: buildOperation(operation) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Spark API',
+      version: '1.0.0',
+      description: 'Read and add to your library from your own scripts. Create a personal access token under Settings → API and send it as a bearer token. List endpoints return newest first; pass `nextCursor` as `cursor` to get the next page.'
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Personal access token. Scopes: ${API_TOKEN_SCOPES.map(({ scope }) => scope).join(', ')}`
+        }
+      },
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENTS).map(([name, schema]) => [name, zodToJsonSchema(schema, false)])
+      )
+    }
+  };
+}
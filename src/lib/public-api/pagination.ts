@@ -0,0 +1,68 @@
+/**
+ * Cursor pagination for the public REST API
+ *
+ * Lists are ordered newest first by (created_at, id). A cursor is the position of the
+ * last row of a page, so rows created while a script is paging don't shift or repeat
+ * the pages it hasn't read yet, unlike offsets.
+ */
+
+export interface Page<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+export interface CursorPosition {
+  createdAt: string;
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.createdAt, position.id])).toString('base64url');
+}
+
+/**
+ * @returns The position, or null when the cursor wasn't issued by this API
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+    const [createdAt, id] = decoded;
+    if (typeof createdAt !== 'string' || isNaN(Date.parse(createdAt))) return null;
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PostgREST `or` filter for the rows after a cursor in (created_at desc, id desc) order
+ */
+export function afterCursorFilter(position: CursorPosition): string {
+  // Timestamps contain ':' and '.', which must be quoted inside an or filter
+  return `created_at.lt."${position.createdAt}",and(created_at.eq."${position.createdAt}",id.lt.${position.id})`;
+}
+
+/**
+ * Turn up to `limit + 1` rows into a page; the extra row only signals that there is more
+ */
+export function toPage<Row extends { created_at: string; id: string }, T>(
+  rows: Row[],
+  limit: number,
+  map: (row: Row) => T
+): Page<T> {
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    data: pageRows.map(map),
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ createdAt: last.created_at, id: last.id })
+      : null
+  };
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createErrorResponse } from '@/lib/api-utils';
+
+type ParseResult<T> = { data: T; error: null } | { data: null; error: NextResponse };
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Validate the query string against a schema, or build the 400 response to return
+ */
+export function parseQuery<S extends z.ZodTypeAny>(request: NextRequest, schema: S): ParseResult<z.output<S>> {
+  const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+  const result = schema.safeParse(params);
+
+  return result.success
+    ? { data: result.data, error: null }
+    : { data: null, error: createErrorResponse(`Invalid query: ${formatIssues(result.error)}`, 400) };
+}
+
+/**
+ * Validate a JSON body against a schema, or build the 400 response to return
+ */
+export async function parseBody<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Promise<ParseResult<z.output<S>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { data: null, error: createErrorResponse('Request body must be valid JSON', 400) };
+  }
+
+  const result = schema.safeParse(body);
+
+  return result.success
+    ? { data: result.data, error: null }
+    : { data: null, error: createErrorResponse(`Invalid body: ${formatIssues(result.error)}`, 400) };
+}
@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import type {
+  BookModel,
+  HighlightModel,
+  NoteModel,
+  SearchContentType,
+  SparkModel
+} from '@/lib/types';
+import { SEARCH_CONTENT_TYPES } from '@/lib/types';
+
+/**
+ * Schemas for the public REST API (/api/v1)
+ *
+ * Resources are camelCase and leave out Readwise-internal columns, so the API can stay
+ * stable while the tables change. The OpenAPI document is generated from these.
+ */
+
+const timestamp = z.string().datetime({ offset: true });
+
+export const librarySourceSchema = z
+  .enum(['readwise', 'kindle', 'apple_books', 'csv', 'json', 'api'])
+  .describe('Where the record came from');
+
+export const bookSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().nullable(),
+  author: z.string().nullable(),
+  category: z.string().nullable().describe('e.g. books, articles, tweets'),
+  sourceUrl: z.string().nullable(),
+  coverImageUrl: z.string().nullable(),
+  source: librarySourceSchema,
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const highlightSchema = z.object({
+  id: z.string().uuid(),
+  bookId: z.string().uuid(),
+  text: z.string(),
+  note: z.string().nullable().describe('Note attached to the highlight where it was made'),
+  location: z.string().nullable(),
+  locationType: z.string().nullable(),
+  highlightedAt: timestamp.nullable(),
+  url: z.string().nullable(),
+  color: z.string().nullable(),
+  source: librarySourceSchema,
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const sparkSchema = z.object({
+  id: z.string().uuid(),
+  body: z.string(),
+  todoId: z.string().nullable(),
+  todoCreatedAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const noteSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().nullable(),
+  content: z.string(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const createBookSchema = z.object({
+  title: z.string().trim().min(1).max(1000),
+  author: z.string().trim().max(1000).optional(),
+  category: z.string().trim().max(100).optional(),
+  sourceUrl: z.string().url().optional(),
+  coverImageUrl: z.string().url().optional()
+});
+
+export const createHighlightSchema = z.object({
+  bookId: z.string().uuid().describe('Book the highlight belongs to'),
+  text: z.string().trim().min(1).max(20000),
+  note: z.string().trim().max(20000).optional(),
+  location: z.string().max(100).optional(),
+  locationType: z.string().max(50).optional().describe('e.g. page, location, order'),
+  highlightedAt: timestamp.optional(),
+  url: z.string().url().optional(),
+  color: z.string().max(50).optional()
+});
+
+export const createSparkSchema = z.object({
+  body: z.string().trim().min(1).max(20000)
+});
+
+export const createNoteSchema = z.object({
+  title: z.string().trim().max(500).optional(),
+  content: z.string().trim().min(1).max(100000)
+});
+
+export const listQuerySchema = z.object({
+  cursor: z.string().optional().describe('`nextCursor` from the previous page'),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+export const listHighlightsQuerySchema = listQuerySchema.extend({
+  bookId: z.string().uuid().optional().describe('Only highlights from this book')
+});
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).describe('The search query'),
+  mode: z.enum(['keyword', 'semantic', 'hybrid']).default('hybrid'),
+  types: z
+    .string()
+    .optional()
+    .describe(`Comma-separated content types to search: ${SEARCH_CONTENT_TYPES.join(', ')} (default: all)`)
+    .transform((value, ctx) => {
+      if (!value) return SEARCH_CONTENT_TYPES;
+
+      const types = Array.from(new Set(value.split(',').map(type => type.trim()).filter(Boolean)));
+      const unknown = types.filter(type => !SEARCH_CONTENT_TYPES.includes(type as SearchContentType));
+      if (types.length === 0 || unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Types must be a comma-separated list of: ${SEARCH_CONTENT_TYPES.join(', ')}`
+        });
+        return z.NEVER;
+      }
+
+      return types as SearchContentType[];
+    }),
+  limit: z.coerce.number().int().min(1).max(100).default(10)
+});
+
+export const searchResultSchema = z.object({
+  type: z.enum(['highlight', 'spark', 'note']),
+  score: z.number(),
+  highlight: highlightSchema.optional(),
+  spark: sparkSchema.optional(),
+  note: noteSchema.optional()
+});
+
+export const errorSchema = z.object({
+  error: z.string()
+});
+
+export type PublicBook = z.infer<typeof bookSchema>;
+export type PublicHighlight = z.infer<typeof highlightSchema>;
+export type PublicSpark = z.infer<typeof sparkSchema>;
+export type PublicNote = z.infer<typeof noteSchema>;
+export type PublicSearchResult = z.infer<typeof searchResultSchema>;
+
+export function toPublicBook(row: BookModel): PublicBook {
+  return {
+    id: row.id,
+    title: row.rw_title,
+    author: row.rw_author,
+    category: row.rw_category,
+    sourceUrl: row.rw_source_url,
+    coverImageUrl: row.rw_cover_image_url,
+    source: row.source || 'readwise',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export function toPublicHighlight(row: HighlightModel): PublicHighlight {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    text: row.rw_text || '',
+    note: row.rw_note,
+    location: row.rw_location,
+    locationType: row.rw_location_type,
+    highlightedAt: row.rw_highlighted_at,
+    url: row.rw_url,
+    color: row.rw_color,
+    source: row.source || 'readwise',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export function toPublicSpark(row: SparkModel): PublicSpark {
+  return {
+    id: row.id,
+    body: row.body,
+    todoId: row.todo_id,
+    todoCreatedAt: row.todo_created_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export function toPublicNote(row: NoteModel): PublicNote {
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
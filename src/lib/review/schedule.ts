@@ -0,0 +1,98 @@
+/**
+ * SM-2 scheduling for the daily highlight review
+ *
+ * Readers grade how often they want to see a highlight rather than how well they
+ * remembered it, so each grade maps onto an SM-2 quality score:
+ * - soon:  quality 3, the schedule restarts (seen again tomorrow)
+ * - keep:  quality 4, the normal SM-2 progression
+ * - later: quality 5, and the interval gets an extra boost
+ * - never: the highlight is suspended and leaves the queue
+ */
+
+import { ReviewGrade } from '@/lib/types';
+
+export interface ReviewScheduleState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+}
+
+export interface ScheduledReview extends ReviewScheduleState {
+  dueAt: string;
+  suspended: boolean;
+}
+
+export const INITIAL_REVIEW_STATE: ReviewScheduleState = {
+  easeFactor: 2.5,
+  intervalDays: 0,
+  repetitions: 0
+};
+
+const MIN_EASE_FACTOR = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+const LATER_INTERVAL_BONUS = 1.3;
+
+const GRADE_QUALITY: Record<Exclude<ReviewGrade, 'never'>, number> = {
+  soon: 3,
+  keep: 4,
+  later: 5
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Next schedule for a highlight after it is graded
+ *
+ * @example
+ * scheduleReview(INITIAL_REVIEW_STATE, 'keep') // due in 1 day
+ * scheduleReview({ easeFactor: 2.5, intervalDays: 6, repetitions: 2 }, 'keep') // due in 15 days
+ */
+export function scheduleReview(
+  state: ReviewScheduleState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduledReview {
+  if (grade === 'never') {
+    return { ...state, dueAt: now.toISOString(), suspended: true };
+  }
+
+  const quality = GRADE_QUALITY[grade];
+
+  // Standard SM-2 ease update, clamped to the usual floor
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+
+  if (grade === 'soon') {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = state.repetitions + 1;
+
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(state.intervalDays * easeFactor);
+    }
+
+    if (grade === 'later') {
+      intervalDays = Math.round(intervalDays * LATER_INTERVAL_BONUS) + 1;
+    }
+  }
+
+  intervalDays = Math.min(intervalDays, MAX_INTERVAL_DAYS);
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    suspended: false
+  };
+}
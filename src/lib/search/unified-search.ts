@@ -0,0 +1,130 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { HighlightSearchMode, SearchContentType } from '@/lib/types';
+import { generateEmbedding } from '@/lib/openai';
+
+/**
+ * RPC functions backing each searchable content type
+ */
+const SEARCH_RPCS: Record<SearchContentType, { semantic: string; keyword: string }> = {
+  highlight: { semantic: 'search_highlights_semantic', keyword: 'search_highlights_keyword' },
+  spark: { semantic: 'search_sparks_semantic', keyword: 'search_sparks_keyword' },
+  note: { semantic: 'search_notes_semantic', keyword: 'search_notes_keyword' }
+};
+
+/**
+ * Reciprocal Rank Fusion constant (same as the highlight search)
+ */
+const RRF_K = 60;
+
+export interface RankedMatch {
+  type: SearchContentType;
+  id: string;
+  score: number;
+}
+
+export interface UnifiedSearchOptions {
+  userId: string;
+  query: string;
+  mode: HighlightSearchMode;
+  types: SearchContentType[];
+  limit: number;
+}
+
+/**
+ * Rank highlights, sparks and notes together for a query
+ *
+ * USE WHEN: A route searches across content types; it then loads the matched rows in
+ * whatever shape it returns, keeping this order.
+ *
+ * NOTE: Needs a service-role client; every RPC is scoped to `userId` explicitly.
+ */
+export async function rankSearchMatches(
+  supabase: SupabaseClient<any>,
+  { userId, query, mode, types, limit }: UnifiedSearchOptions
+): Promise<RankedMatch[]> {
+  // Only embed the query once, regardless of how many content types are searched
+  const embeddingString = mode === 'keyword'
+    ? null
+    : `[${(await generateEmbedding(query)).join(',')}]`;
+
+  // Rank each content type independently, then merge by score.
+  // Similarities (semantic) and RRF scores (hybrid) are on the same scale across types.
+  const rankedByType = await Promise.all(
+    types.map(type =>
+      rankContentType(supabase, type, mode, query, embeddingString, userId, limit)
+    )
+  );
+
+  return rankedByType
+    .flat()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export function idsOfType(matches: RankedMatch[], type: SearchContentType): string[] {
+  return matches.filter(match => match.type === type).map(match => match.id);
+}
+
+/**
+ * Rank a single content type for the query, returning ids with scores
+ */
+async function rankContentType(
+  supabase: SupabaseClient<any>,
+  type: SearchContentType,
+  mode: HighlightSearchMode,
+  query: string,
+  embeddingString: string | null,
+  userId: string,
+  limit: number
+): Promise<RankedMatch[]> {
+  const rpcs = SEARCH_RPCS[type];
+
+  const runKeyword = async (count: number) => {
+    const { data, error } = await supabase.rpc(rpcs.keyword, {
+      search_text: query,
+      match_user_id: userId,
+      match_count: count
+    });
+    if (error) throw new Error(`Keyword search failed for ${type}: ${error.message}`);
+    return (data || []) as Array<{ id: string; rank: number }>;
+  };
+
+  const runSemantic = async (count: number) => {
+    const { data, error } = await supabase.rpc(rpcs.semantic, {
+      query_embedding: embeddingString,
+      match_user_id: userId,
+      match_count: count
+    });
+    if (error) throw new Error(`Semantic search failed for ${type}: ${error.message}`);
+    return (data || []) as Array<{ id: string; similarity: number }>;
+  };
+
+  switch (mode) {
+    case 'keyword':
+      return (await runKeyword(limit)).map(row => ({ type, id: row.id, score: row.rank }));
+
+    case 'semantic':
+      return (await runSemantic(limit)).map(row => ({ type, id: row.id, score: row.similarity }));
+
+    case 'hybrid': {
+      // Get more results for better fusion
+      const [semanticRows, keywordRows] = await Promise.all([
+        runSemantic(limit * 2),
+        runKeyword(limit * 2)
+      ]);
+
+      // Reciprocal Rank Fusion (RRF) algorithm
+      const scores = new Map<string, number>();
+      [semanticRows, keywordRows].forEach(rows => {
+        rows.forEach((row, index) => {
+          scores.set(row.id, (scores.get(row.id) || 0) + 1 / (RRF_K + index + 1));
+        });
+      });
+
+      return Array.from(scores.entries())
+        .map(([id, score]) => ({ type, id, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+  }
+}
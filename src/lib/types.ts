@@ -65,13 +65,14 @@ export type Database = {
           rw_asin: string | null;
           rw_tags: string[] | null;
           rw_document_note: string | null;
+          source: LibrarySource;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
-          rw_id: number;
+          rw_id?: number; // Omitted for imported books; the database assigns a negative one
           rw_title?: string | null;
           rw_author?: string | null;
           rw_category?: string | null;
@@ -85,6 +86,7 @@ export type Database = {
           rw_asin?: string | null;
           rw_tags?: string[] | null;
           rw_document_note?: string | null;
+          source?: LibrarySource;
           created_at?: string;
           updated_at?: string;
         };
@@ -105,6 +107,7 @@ export type Database = {
           rw_asin?: string | null;
           rw_tags?: string[] | null;
           rw_document_note?: string | null;
+          source?: LibrarySource;
           created_at?: string;
           updated_at?: string;
         };
@@ -196,18 +199,20 @@ export interface UserSettings {
     width: number;
   };
   integrations?: {
+    // Tokens are not stored here but in integration_credentials (see getIntegrationCredential)
     readwise?: {
-      apiKey?: string;
       lastSyncTime?: string;
       bookCount?: number;
       isConnected?: boolean;
+      writeBack?: boolean; // Push highlight note and tag edits back to Readwise
+      webhookSecret?: string; // Identifies the user on incoming Readwise webhooks
     },
     airtable?: {
-      apiKey?: string; // This is actually a Personal Access Token (API keys deprecated Feb 2024)
       baseId?: string;
       tableId?: string;
       isConnected?: boolean;
       lastImported?: string;
+      fieldMapping?: AirtableFieldMapping; // Which table fields become sparks, categories and tags
     }
   };
   scheduledTasks?: {
@@ -220,10 +225,82 @@ export interface UserSettings {
   search?: {
     maxResults?: number;
     defaultMode?: HighlightSearchMode;
+    contentTypes?: SearchContentType[];
   };
+  digest?: DigestSettings;
+  notifications?: NotificationSettings;
   // Additional settings can be added here in the future
 }
 
+/**
+ * Where the highlight digest email picks its highlights from
+ * - random: random highlights from the recent library
+ * - review: highlights due in the spaced-repetition review
+ * - categories: random highlights from the chosen categories
+ */
+export type DigestSource = 'random' | 'review' | 'categories';
+
+/**
+ * Content settings for the highlight digest email
+ *
+ * NOTE: How often it is sent lives in scheduledTasks['highlight-digest'] like every
+ * other scheduled task.
+ *
+ * @property unsubscribeToken - Secret used by the unsubscribe link in each email
+ */
+export interface DigestSettings {
+  source: DigestSource;
+  count: number;
+  categoryIds?: string[];
+  unsubscribeToken?: string;
+}
+
+/**
+ * How the user hears about background jobs that need attention
+ *
+ * @property email - Also email each new notification to the account address
+ * @property staleIntegrationDays - Days without a successful sync before a connected
+ * integration is reported as stale
+ */
+export interface NotificationSettings {
+  email: boolean;
+  staleIntegrationDays: number;
+}
+
+/**
+ * Rewrites applied to spark text during an Airtable import, in order
+ *
+ * `find` is matched literally, not as a regular expression.
+ */
+export interface AirtableTextReplacement {
+  find: string;
+  replace: string;
+  wholeWord?: boolean;
+  caseSensitive?: boolean;
+}
+
+/**
+ * How the columns of a user's Airtable table map onto sparks
+ *
+ * Values are Airtable field names; `null` leaves the optional ones out. Categories and
+ * tags must be text, select or lookup fields: linked-record fields only hold record IDs.
+ *
+ * @property uid - Stable per-record value used to skip records that were already imported
+ * @property requireCategory - Skip records with no category instead of importing them uncategorized
+ * @property requireTags - Skip records with no tags instead of importing them untagged
+ */
+export interface AirtableFieldMapping {
+  uid: string;
+  content: string;
+  categories: string | null;
+  tags: string | null;
+  createdAt: string | null;
+  todoId: string | null;
+  requireCategory: boolean;
+  requireTags: boolean;
+  replacements: AirtableTextReplacement[];
+}
+
 /**
  * Default settings values for new users
  * These values are used when a user has no stored settings
@@ -238,13 +315,12 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
   },
   integrations: {
     readwise: {
-      apiKey: '',
       lastSyncTime: '',
       bookCount: 0,
-      isConnected: false
+      isConnected: false,
+      writeBack: false
     },
     airtable: {
-      apiKey: '',
       baseId: '',
       tableId: '',
       isConnected: false,
@@ -254,7 +330,17 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
   scheduledTasks: {},
   search: {
     maxResults: 10,
-    defaultMode: 'semantic'
+    defaultMode: 'semantic',
+    contentTypes: ['highlight', 'spark', 'note']
+  },
+  digest: {
+    source: 'random',
+    count: 5,
+    categoryIds: []
+  },
+  notifications: {
+    email: false,
+    staleIntegrationDays: 7
   }
 };
 
@@ -381,6 +467,23 @@ export interface CreateSparkInput {
   md5Uid?: string | null;
 }
 
+/**
+ * Categories and tags to attach to a spark, by name; missing ones are created
+ */
+export interface SparkLabelsInput {
+  categoryNames?: string[];
+  tagNames?: string[];
+}
+
+/**
+ * Result of creating a spark; `duplicate` is set when an identical spark already
+ * existed and was returned instead of inserting a new one
+ */
+export interface CreateSparkResult {
+  spark: SparkDomain;
+  duplicate: boolean;
+}
+
 /**
  * Enhanced Spark item combining SidebarItem with SparkDetails
  */
@@ -404,6 +507,14 @@ export interface BookTag {
   name: string;
 }
 
+/**
+ * Where a book or highlight came from: Readwise, or the kind of file it was imported from
+ *
+ * NOTE: Rows from local sources have a synthetic negative `rw_id`; anything that calls
+ * the Readwise API with an `rw_id` must skip them.
+ */
+export type LibrarySource = 'readwise' | 'kindle' | 'apple_books' | 'csv' | 'json' | 'api';
+
 /**
  * Database model for a book
  */
@@ -424,6 +535,7 @@ export interface BookModel {
   rw_asin: string | null;
   rw_tags: string[] | null;
   rw_document_note: string | null;
+  source?: LibrarySource;
   created_at: string;
   updated_at: string;
 }
@@ -469,6 +581,44 @@ export interface BookDomain {
   updatedAt: string;
 }
 
+/**
+ * Readwise Reader location (the inbox/later/archive triage state)
+ */
+export type ReaderLocation = 'new' | 'later' | 'shortlist' | 'archive' | 'feed';
+
+/**
+ * Database model for a Readwise Reader document (v3 API)
+ */
+export interface ReaderDocumentModel {
+  id: string;
+  user_id: string;
+  book_id: string | null;
+  rw_id: string;
+  rw_url: string | null;
+  rw_source_url: string | null;
+  rw_title: string | null;
+  rw_author: string | null;
+  rw_source: string | null;
+  rw_site_name: string | null;
+  rw_category: string | null;
+  rw_location: ReaderLocation | null;
+  rw_summary: string | null;
+  rw_notes: string | null;
+  rw_word_count: number | null;
+  rw_reading_progress: number | null;
+  rw_image_url: string | null;
+  rw_tags: Record<string, unknown> | null;
+  rw_html_content: string | null;
+  rw_published_date: string | null;
+  rw_saved_at: string | null;
+  rw_first_opened_at: string | null;
+  rw_last_opened_at: string | null;
+  rw_created_at: string | null;
+  rw_updated: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Basic book info for lists
  */
@@ -476,6 +626,7 @@ export interface BookBasicInfo {
   id: string;
   rwId: number;
   title: string;
+  author?: string | null;
   numHighlights: number;
   lastHighlightAt: string | null;
 }
@@ -523,6 +674,14 @@ export interface HighlightCategory {
   name: string;
 }
 
+/**
+ * Why a highlight was moved to the trash
+ *
+ * - readwise_deleted / readwise_discarded: flagged by Readwise during sync
+ * - missing_upstream: no longer returned by Readwise during reconciliation
+ */
+export type HighlightDeletionReason = 'readwise_deleted' | 'readwise_discarded' | 'missing_upstream';
+
 /**
  * Database model for a highlight
  */
@@ -543,6 +702,10 @@ export interface HighlightModel {
   updated_at: string;
   embedding?: number[] | null;
   embedding_updated_at?: string | null;
+  deleted_at?: string | null;
+  deletion_reason?: HighlightDeletionReason | null;
+  restored_at?: string | null;
+  source?: LibrarySource;
 }
 
 /**
@@ -567,6 +730,12 @@ export interface HighlightWithRelations extends HighlightModel {
       content: string;
     };
   }[];
+  book?: {
+    rw_id?: number | null;
+    rw_title: string | null;
+    rw_author: string | null;
+    rw_category: string | null;
+  } | null;
 }
 
 /**
@@ -588,6 +757,22 @@ export interface HighlightDomain {
   userNote: string | null;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string | null;
+  deletionReason?: HighlightDeletionReason | null;
+}
+
+/**
+ * Trashed highlight with the book it belongs to, for the trash view
+ */
+export interface TrashedHighlight extends HighlightDomain {
+  deletedAt: string;
+  deletionReason: HighlightDeletionReason | null;
+  book: {
+    id: string;
+    rwId: number | null;
+    title: string;
+    author: string | null;
+  } | null;
 }
 
 /**
@@ -624,6 +809,26 @@ export interface HighlightSearchResult extends HighlightDomain {
   };
 }
 
+/**
+ * Highlight similar to a source highlight, found via embedding nearest-neighbour search
+ */
+export interface RelatedHighlight {
+  id: string;
+  bookId: string;
+  rwId: number;
+  text: string;
+  note: string | null;
+  location: string | null;
+  highlightedAt: string | null;
+  similarity: number; // Cosine similarity (0-1, higher is more similar)
+  book: {
+    rwId: number | null;
+    title: string;
+    author: string | null;
+    coverImageUrl: string | null;
+  };
+}
+
 /**
  * Input for highlight search
  */
@@ -633,6 +838,41 @@ export interface HighlightSearchInput {
   limit?: number;
 }
 
+/**
+ * Content types covered by the unified search (/api/search)
+ */
+export type SearchContentType = 'highlight' | 'spark' | 'note';
+
+export const SEARCH_CONTENT_TYPES: SearchContentType[] = ['highlight', 'spark', 'note'];
+
+/**
+ * Unified search result across content types
+ *
+ * `type` discriminates which payload is present, so consumers can switch on it
+ * to render each kind. `score` follows the same semantics as HighlightSearchResult.
+ */
+export type UnifiedSearchResult =
+  | { type: 'highlight'; id: string; score?: number; highlight: HighlightSearchResult }
+  | { type: 'spark'; id: string; score?: number; spark: SparkDomain }
+  | { type: 'note'; id: string; score?: number; note: NoteDomain };
+
+/**
+ * Entity types returned by the header command-palette search
+ */
+export type HeaderSearchResultType = 'book' | 'highlight' | 'spark' | 'note' | 'category' | 'tag';
+
+/**
+ * A single command-palette search result
+ */
+export interface HeaderSearchResult {
+  type: HeaderSearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string | null;
+  /** Route to navigate to; null for sparks, which open in the spark preview panel */
+  href: string | null;
+}
+
 /**
  * User model from Supabase auth
  */
@@ -684,6 +924,7 @@ export interface CategoryModel {
   id: string;
   name: string;
   slug: string;
+  parent_id?: string | null;
   user_id: string;
   created_at: string;
   updated_at: string;
@@ -703,6 +944,7 @@ export interface CategoryDomain {
   id: string;
   name: string;
   slug: string;
+  parentId: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -763,24 +1005,43 @@ export interface CreateTagInput {
   name: string;
 }
 
+/**
+ * Integrations whose tokens are kept encrypted in `integration_credentials`
+ */
+export type IntegrationProvider = 'readwise' | 'airtable';
+
 /**
  * Interface for Airtable integration settings
  */
 export interface AirtableSettings {
-  apiKey: string | null;
   baseId: string | null;
   tableId: string | null;
   isConnected?: boolean;
+  tokenHint?: string | null;
   lastImported?: string | null;
+  fieldMapping?: AirtableFieldMapping | null;
 }
 
 /**
  * Interface for Readwise integration settings
  */
 export interface ReadwiseSettings {
-  accessToken: string | null;
   lastSync: string | null;
   isConnected?: boolean;
+  tokenHint?: string | null;
+  writeBack?: boolean;
+}
+
+/**
+ * Local highlight edits to push back to Readwise
+ *
+ * The note itself is not sent: the write-back job reads the highlight's current user
+ * note when it runs, so rapid edits collapse into a single push.
+ */
+export interface ReadwiseWriteBackChanges {
+  note?: boolean;
+  addTagIds?: string[];
+  removeTagIds?: string[];
 }
 
 /**
@@ -788,7 +1049,6 @@ export interface ReadwiseSettings {
  */
 export interface ReadwiseConnectionTestData {
   userId: string;
-  apiKey: string;
 }
 
 /**
@@ -796,7 +1056,6 @@ export interface ReadwiseConnectionTestData {
  */
 export interface ReadwiseSyncData {
   userId: string;
-  apiKey: string;
   fullSync?: boolean;
 }
 
@@ -859,6 +1118,8 @@ export type CategorizationAutomationSource = 'ai' | 'user' | 'system';
  * @property created_at - Record creation timestamp
  * @property updated_at - Record update timestamp
  * @property user_id - The ID of the user who triggered the function
+ * @property attempt - Zero-indexed attempt that last reported; above 0 means Inngest retried
+ * @property max_attempts - Attempts Inngest makes before giving up (retries + 1)
  */
 export interface FunctionLogModel {
   id: string;
@@ -876,6 +1137,40 @@ export interface FunctionLogModel {
   created_at: string;
   updated_at: string;
   user_id: string;
+  attempt: number;
+  max_attempts: number | null;
+}
+
+/**
+ * One attempt of one step of a logged run, for the run's timeline
+ */
+export interface FunctionLogStepModel {
+  id: string;
+  log_id: string;
+  user_id: string | null;
+  name: string;
+  op: string | null;
+  attempt: number;
+  status: 'completed' | 'failed';
+  started_at: string;
+  duration_ms: number | null;
+  output_bytes: number | null;
+  error_message: string | null;
+  created_at: string;
+}
+
+/**
+ * Run statistics of one function, overall (day is null) or for one UTC day
+ */
+export interface FunctionLogStatsRow {
+  function_id: string;
+  function_name: string;
+  day: string | null;
+  runs: number;
+  failed: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  p99_ms: number | null;
 }
 
 /**
@@ -926,6 +1221,272 @@ export interface FunctionLogsApiResponse {
   };
 }
 
+/**
+ * Status of an export job
+ */
+export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Export database model
+ */
+export interface ExportModel {
+  id: string;
+  user_id: string;
+  format: 'markdown';
+  status: ExportStatus;
+  storage_path: string | null;
+  external_url: string | null;
+  file_count: number | null;
+  size_bytes: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * Export domain model for the UI
+ */
+export interface ExportDomain {
+  id: string;
+  format: 'markdown';
+  status: ExportStatus;
+  externalUrl: string | null;
+  fileCount: number | null;
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * What a personal access token may do in the public REST API
+ */
+export type ApiTokenScope =
+  | 'highlights:read'
+  | 'highlights:write'
+  | 'books:read'
+  | 'books:write'
+  | 'sparks:read'
+  | 'sparks:write'
+  | 'notes:read'
+  | 'notes:write'
+  | 'search';
+
+/**
+ * Personal access token database model
+ */
+export interface PersonalAccessTokenModel {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  token_hash: string;
+  scopes: ApiTokenScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Personal access token domain model for the UI (never includes the token)
+ */
+export interface PersonalAccessTokenDomain {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Input for creating a personal access token
+ */
+export interface CreatePersonalAccessTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: string | null;
+}
+
+/**
+ * Why a notification was created
+ * - job_failed: a background job failed after its last retry
+ * - integration_stale: a connected integration hasn't synced successfully in a while
+ * - automation_pending: a background job queued an automation for review
+ */
+export type NotificationType = 'job_failed' | 'integration_stale' | 'automation_pending';
+
+/**
+ * Database model for a notification
+ */
+export interface NotificationModel {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  dedupe_key: string | null;
+  data: Record<string, unknown>;
+  read_at: string | null;
+  emailed_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Domain model for a notification
+ */
+export interface NotificationDomain {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+/**
+ * A recently synced highlight on the home dashboard
+ */
+export interface DashboardHighlight {
+  id: string;
+  text: string;
+  bookId: string;
+  // Readwise ID used in /highlights/[rwId] links
+  bookRwId: number | null;
+  bookTitle: string | null;
+  bookAuthor: string | null;
+  syncedAt: string;
+}
+
+/**
+ * A recently edited note or spark on the home dashboard
+ */
+export interface DashboardEditedItem {
+  id: string;
+  type: 'note' | 'spark';
+  title: string;
+  updatedAt: string;
+}
+
+/**
+ * An automation awaiting review on the home dashboard
+ */
+export interface DashboardPendingAutomation {
+  id: string;
+  name: string;
+  source: string;
+  actionCount: number;
+  createdAt: string;
+}
+
+/**
+ * Integrations whose sync runs are tracked in function_logs
+ */
+export type DashboardIntegration = 'readwise' | 'readwise-reader' | 'airtable';
+
+/**
+ * Last sync status of an integration, derived from function_logs
+ */
+export interface IntegrationSyncStatus {
+  integration: DashboardIntegration;
+  label: string;
+  // Null when the integration has never run
+  lastRun: {
+    functionName: string;
+    status: FunctionLogModel['status'];
+    startedAt: string;
+    completedAt: string | null;
+    errorMessage: string | null;
+  } | null;
+  lastSuccessAt: string | null;
+}
+
+/**
+ * Reading stats for a single book
+ */
+export interface BookReadingStats {
+  bookId: string;
+  rwId: number;
+  title: string | null;
+  author: string | null;
+  coverImageUrl: string | null;
+  highlightCount: number;
+  lastHighlightAt: string | null;
+}
+
+/**
+ * Everything shown on the home dashboard
+ */
+export interface DashboardData {
+  recentHighlights: DashboardHighlight[];
+  recentlyEdited: DashboardEditedItem[];
+  pendingAutomations: DashboardPendingAutomation[];
+  pendingAutomationCount: number;
+  syncStatus: IntegrationSyncStatus[];
+  readingStats: BookReadingStats[];
+}
+
+/**
+ * How often the reader wants to see a highlight again in the daily review
+ */
+export type ReviewGrade = 'keep' | 'soon' | 'later' | 'never';
+
+/**
+ * Highlight review state database model
+ */
+export interface HighlightReviewModel {
+  id: string;
+  user_id: string;
+  highlight_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  review_count: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  last_grade: ReviewGrade | null;
+  suspended: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Optional filters narrowing the review queue
+ */
+export interface ReviewQueueFilters {
+  bookId?: string | null;
+  categoryId?: string | null;
+  tagId?: string | null;
+}
+
+/**
+ * A highlight in today's review queue
+ */
+export interface ReviewQueueItem {
+  highlightId: string;
+  bookId: string;
+  text: string;
+  note: string | null;
+  highlightedAt: string | null;
+  bookRwId: number | null;
+  bookTitle: string | null;
+  bookAuthor: string | null;
+  bookCoverImageUrl: string | null;
+  // Never reviewed before
+  isNew: boolean;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  reviewCount: number;
+  lastReviewedAt: string | null;
+}
+
 /**
  * Note database model
  */
@@ -964,6 +1525,47 @@ export interface CreateNoteInput {
   content: string;
 }
 
+/**
+ * What a note can link to
+ */
+export type NoteLinkTargetType = 'note' | 'book' | 'highlight' | 'spark';
+
+/**
+ * attached: the note belongs to the target (e.g. a highlight's user note);
+ * linked: the note links to the target in its content
+ */
+export type NoteLinkKind = 'attached' | 'linked';
+
+/**
+ * Row returned by the get_note_links database function
+ */
+export interface NoteLinkModel {
+  note_id: string;
+  note_title: string;
+  target_type: NoteLinkTargetType;
+  target_id: string;
+  target_label: string;
+  target_book_rw_id: number | null;
+  kind: NoteLinkKind;
+  target_deleted: boolean;
+}
+
+/**
+ * A link from a note to a book, highlight, spark or other note
+ */
+export interface NoteLinkDomain {
+  noteId: string;
+  noteTitle: string;
+  targetType: NoteLinkTargetType;
+  targetId: string;
+  targetLabel: string;
+  /** Readwise ID of the book page showing the target; books and highlights only */
+  targetBookRwId: number | null;
+  kind: NoteLinkKind;
+  /** The target is a highlight in the trash */
+  targetDeleted: boolean;
+}
+
 /**
  * Props interface for the AppLayout component
  */
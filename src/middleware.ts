@@ -55,8 +55,10 @@ export const config = {
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - api/inngest (Inngest webhook endpoint)
+     * - api/webhooks (incoming webhooks from integrations)
+     * - api/v1 (public REST API, called by scripts with personal access tokens)
      * - public folder
      */
-    '/((?!_next/static|_next/image|favicon.ico|api/inngest|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
+    '/((?!_next/static|_next/image|favicon.ico|api/inngest|api/webhooks|api/v1|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
   ],
 }; 
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { BaseRepository } from './base.repository';
+import { DatabaseError } from '@/lib/errors';
+import {
+  CreatePersonalAccessTokenInput,
+  PersonalAccessTokenDomain,
+  PersonalAccessTokenModel
+} from '@/lib/types';
+import { DbClient } from '@/lib/db';
+import { generateApiToken, hashApiToken } from '@/lib/api-tokens';
+
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at';
+
+export class ApiTokensRepository extends BaseRepository<PersonalAccessTokenModel> {
+  constructor(client: DbClient) {
+    super(client, 'personal_access_tokens');
+  }
+
+  /**
+   * Get the current user's tokens, newest first, including revoked ones
+   */
+  async getTokens(): Promise<PersonalAccessTokenDomain[]> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('personal_access_tokens')
+      .select(TOKEN_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new DatabaseError('Error fetching API tokens', error);
+    }
+
+    return (data || []).map(row => this.mapToDomain(row as PersonalAccessTokenModel));
+  }
+
+  /**
+   * Create a token for the current user
+   *
+   * NOTE: The token is generated here and only its hash is stored; the returned
+   * plaintext is the only copy there will ever be.
+   */
+  async createToken(
+    input: CreatePersonalAccessTokenInput
+  ): Promise<{ token: string; apiToken: PersonalAccessTokenDomain }> {
+    const userId = await this.getUserId();
+    const { token, tokenPrefix } = generateApiToken();
+
+    const { data, error } = await this.client
+      .from('personal_access_tokens')
+      .insert({
+        user_id: userId,
+        name: input.name.trim(),
+        token_prefix: tokenPrefix,
+        token_hash: await hashApiToken(token),
+        scopes: input.scopes,
+        expires_at: input.expiresAt || null
+      })
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new DatabaseError('Error creating API token', error);
+    }
+
+    return { token, apiToken: this.mapToDomain(data as PersonalAccessTokenModel) };
+  }
+
+  /**
+   * Revoke a token; the row is kept so the list still shows when it was last used
+   */
+  async revokeToken(tokenId: string): Promise<PersonalAccessTokenDomain> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('personal_access_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', tokenId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new DatabaseError('Error revoking API token', error);
+    }
+
+    return this.mapToDomain(data as PersonalAccessTokenModel);
+  }
+
+  /**
+   * Map a database token model to the domain model
+   */
+  mapToDomain(row: PersonalAccessTokenModel): PersonalAccessTokenDomain {
+    return {
+      id: row.id,
+      name: row.name,
+      tokenPrefix: row.token_prefix,
+      scopes: row.scopes,
+      expiresAt: row.expires_at,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,225 @@
+import { BaseRepository } from './base.repository';
+import { DbClient } from '@/lib/db';
+import { DatabaseError } from '@/lib/errors';
+import {
+  AutomationRule,
+  AutomationRuleInput,
+  ResourceType,
+  RuleSubject
+} from '@/lib/categorization/types';
+
+/**
+ * Database model for an automation rule
+ */
+export interface AutomationRuleModel {
+  id: string;
+  user_id: string;
+  name: string;
+  target: ResourceType;
+  match_mode: 'all' | 'any';
+  conditions: AutomationRule['conditions'];
+  actions: AutomationRule['actions'];
+  trusted: boolean;
+  enabled: boolean;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Options for loading rule subjects one page at a time
+ *
+ * @property since - Only resources created or updated at or after this time
+ */
+export interface RuleSubjectsQuery {
+  since?: string;
+  offset?: number;
+  limit?: number;
+}
+
+const BOOK_FIELDS = 'rw_title, rw_author, rw_category, rw_source';
+
+/**
+ * Repository for user-defined automation rules and the library data they run against
+ */
+export class AutomationRulesRepository extends BaseRepository<AutomationRuleModel> {
+  constructor(client: DbClient) {
+    super(client, 'automation_rules');
+  }
+
+  /**
+   * Get the user's rules, newest first
+   * @param overrideUserId Optional user ID to override the session user
+   */
+  async getRules(options: { enabledOnly?: boolean; target?: ResourceType } = {}, overrideUserId?: string): Promise<AutomationRule[]> {
+    const userId = overrideUserId || await this.getUserId();
+
+    let query = this.client
+      .from('automation_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (options.enabledOnly) {
+      query = query.eq('enabled', true);
+    }
+
+    if (options.target) {
+      query = query.eq('target', options.target);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new DatabaseError('Error fetching automation rules', error);
+    }
+
+    return (data || []).map(row => this.mapRule(row as AutomationRuleModel));
+  }
+
+  /**
+   * Create a rule for the current user
+   */
+  async createRule(input: AutomationRuleInput): Promise<AutomationRule> {
+    const row = await this.create(this.toRow(input));
+    return this.mapRule(row);
+  }
+
+  /**
+   * Update one of the current user's rules
+   */
+  async updateRule(ruleId: string, input: Partial<AutomationRuleInput>): Promise<AutomationRule> {
+    const row = await this.update(ruleId, this.toRow(input));
+    return this.mapRule(row);
+  }
+
+  /**
+   * Delete one of the current user's rules; automations it produced are kept
+   */
+  async deleteRule(ruleId: string): Promise<void> {
+    await this.delete(ruleId);
+  }
+
+  /**
+   * Record that a rule was evaluated after a sync
+   */
+  async markRuleRun(ruleId: string): Promise<void> {
+    const { error } = await this.client
+      .from('automation_rules')
+      .update({ last_run_at: new Date().toISOString() })
+      .eq('id', ruleId);
+
+    if (error) {
+      throw new DatabaseError(`Error updating last run of rule ${ruleId}`, error);
+    }
+  }
+
+  /**
+   * Load one page of books, highlights or sparks flattened for rule evaluation
+   *
+   * NOTE: Trashed highlights are skipped. Pages are ordered by ID so paging is stable
+   * while a sync is still writing.
+   *
+   * @param overrideUserId Optional user ID to override the session user
+   */
+  async getRuleSubjects(
+    target: ResourceType,
+    { since, offset = 0, limit = 500 }: RuleSubjectsQuery = {},
+    overrideUserId?: string
+  ): Promise<RuleSubject[]> {
+    const userId = overrideUserId || await this.getUserId();
+
+    const select = {
+      book: `id, ${BOOK_FIELDS}, book_categories(category_id), book_tags(tag_id)`,
+      highlight: `id, rw_text, rw_note, book:books!highlights_book_id_fkey(${BOOK_FIELDS}), highlight_categories(category_id), highlight_tags(tag_id)`,
+      spark: 'id, body, spark_categories(category_id), spark_tags(tag_id)'
+    }[target];
+
+    let query = this.client
+      .from(`${target}s`)
+      .select(select)
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (target === 'highlight') {
+      query = query.is('deleted_at', null);
+    }
+
+    if (since) {
+      query = query.gte('updated_at', since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new DatabaseError(`Error fetching ${target}s for automation rules`, error);
+    }
+
+    return ((data || []) as any[]).map(row => this.mapSubject(target, row));
+  }
+
+  /**
+   * Map a books/highlights/sparks row to a rule subject
+   */
+  private mapSubject(target: ResourceType, row: any): RuleSubject {
+    const book = target === 'book' ? row : row.book;
+    const bookFields = book
+      ? {
+          book_title: book.rw_title,
+          book_author: book.rw_author,
+          book_category: book.rw_category,
+          book_source: book.rw_source
+        }
+      : {};
+
+    const text = target === 'highlight' ? row.rw_text : target === 'spark' ? row.body : row.rw_title;
+
+    return {
+      id: row.id,
+      type: target,
+      label: (text || 'Untitled').slice(0, 140),
+      fields: target === 'highlight'
+        ? { ...bookFields, highlight_text: row.rw_text, highlight_note: row.rw_note }
+        : target === 'spark'
+          ? { spark_body: row.body }
+          : bookFields,
+      categoryIds: (row[`${target}_categories`] || []).map((link: any) => link.category_id),
+      tagIds: (row[`${target}_tags`] || []).map((link: any) => link.tag_id)
+    };
+  }
+
+  /**
+   * Map an input object to table columns, leaving out fields that weren't provided
+   */
+  private toRow(input: Partial<AutomationRuleInput>): Partial<AutomationRuleModel> {
+    return {
+      ...(input.name !== undefined && { name: input.name.trim() }),
+      ...(input.target !== undefined && { target: input.target }),
+      ...(input.matchMode !== undefined && { match_mode: input.matchMode }),
+      ...(input.conditions !== undefined && { conditions: input.conditions }),
+      ...(input.actions !== undefined && { actions: input.actions }),
+      ...(input.trusted !== undefined && { trusted: input.trusted }),
+      ...(input.enabled !== undefined && { enabled: input.enabled })
+    };
+  }
+
+  /**
+   * Map a database row to the domain model
+   */
+  private mapRule(row: AutomationRuleModel): AutomationRule {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      target: row.target,
+      matchMode: row.match_mode,
+      conditions: row.conditions || [],
+      actions: row.actions || [],
+      trusted: row.trusted,
+      enabled: row.enabled,
+      lastRunAt: row.last_run_at,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -1,8 +1,9 @@
 import { BaseRepository } from './base.repository';
 import { DbClient } from '@/lib/db';
-import { DatabaseError } from '@/lib/errors';
-import { Resource, ResourceType, ActionData, AddTagActionData, AddCategoryActionData, CreateTagActionData, CreateCategoryActionData } from '@/lib/categorization/types';
+import { DatabaseError, ValidationError } from '@/lib/errors';
+import { Resource, ResourceType, ActionData, AddTagActionData, AddCategoryActionData, CreateTagActionData, CreateCategoryActionData, AutomationStatus, AutomationActionStatus } from '@/lib/categorization/types';
 import { createClient } from '@supabase/supabase-js';
+import { deriveAutomationStatus, findDependants, getAllowedPreviousStatuses, isCreateAction } from '@/lib/categorization/automation-status';
 
 /**
  * Database model for an automation
@@ -13,6 +14,7 @@ export interface AutomationModel {
   name: string;
   source: string;
   status: string;
+  rule_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -46,6 +48,7 @@ export interface CreateAutomationInput {
   userId: string;
   name: string;
   source: 'ai' | 'user' | 'system';
+  ruleId?: string;
 }
 
 /**
@@ -74,7 +77,8 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
         user_id: input.userId,
         name: input.name,
         source: input.source,
-        status: 'pending'
+        status: 'pending',
+        ...(input.ruleId && { rule_id: input.ruleId })
       })
       .select()
       .single();
@@ -155,7 +159,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
       .from('automation_actions')
       .select('*')
       .eq('automation_id', automationId)
-      // .eq('status', 'executed')  // Comment this out
+      .eq('status', 'executed')
       .order('executed_at', { ascending: true });
     
     if (error) {
@@ -167,6 +171,24 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
     return data as AutomationActionModel[];
   }
 
+  /**
+   * Get actions from a rule's earlier automations that are still pending or were turned down
+   * USE WHEN: evaluating a rule, so it doesn't queue the same label twice or re-suggest a rejected one
+   */
+  async getUnappliedRuleActions(ruleId: string): Promise<ActionData[]> {
+    const { data, error } = await this.client
+      .from('automation_actions')
+      .select('action_data, automations!inner(rule_id)')
+      .eq('automations.rule_id', ruleId)
+      .in('status', ['pending', 'executing', 'failed', 'rejected', 'reverted']);
+    
+    if (error) {
+      throw new DatabaseError(`Error fetching earlier actions for rule ${ruleId}`, error);
+    }
+    
+    return (data || []).map(row => row.action_data as ActionData);
+  }
+
   /**
    * Get categories created by an automation
    */
@@ -232,7 +254,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
   /**
    * Update an automation's status
    */
-  async updateAutomationStatus(automationId: string, status: 'pending' | 'approved' | 'rejected' | 'reverted'): Promise<void> {
+  async updateAutomationStatus(automationId: string, status: AutomationStatus): Promise<void> {
     const { error } = await this.client
       .from('automations')
       .update({ status, updated_at: new Date().toISOString() })
@@ -254,11 +276,11 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
    * Reject an automation - directly updates the automation and actions status without calling a stored procedure
    */
   async rejectAutomation(automationId: string): Promise<void> {
-    // Update automation status to rejected
-    await this.updateAutomationStatus(automationId, 'rejected');
-    
     // Mark all pending actions as rejected
     await this.updateAllActionStatusForAutomation(automationId, 'rejected', { currentStatus: 'pending' });
+    
+    // Actions approved earlier stay applied, so the status may end up partially approved
+    await this.refreshAutomationStatus(automationId);
   }
 
   /**
@@ -266,12 +288,11 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
    * The actual reversion of effects is handled by revertAutomationActions
    */
   async revertAutomation(automationId: string, userId?: string): Promise<void> {
-    // First delete the data
+    // First delete the data; reverted actions are marked as they are undone
     await this.revertAutomationActions(automationId, userId);
     
-    // Only then update the statuses
-    await this.updateAutomationStatus(automationId, 'reverted');
-    await this.updateAllActionStatusForAutomation(automationId, 'reverted', { currentStatus: 'executed' });
+    // Only then update the automation status
+    await this.refreshAutomationStatus(automationId);
   }
 
   /**
@@ -488,10 +509,13 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
 
   /**
    * Update an action's status
+   * Only transitions allowed by ACTION_STATUS_TRANSITIONS are applied, so an action
+   * can't be approved after being rejected or reverted twice
+   * @throws ValidationError if the action is not in a status that can move to the new one
    */
   async updateActionStatus(
     actionId: string, 
-    status: 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'reverted',
+    status: AutomationActionStatus,
     executedAt?: Date
   ): Promise<void> {
     const updates: any = { 
@@ -504,14 +528,61 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
       updates.executed_at = executedAt.toISOString();
     }
     
-    const { error } = await this.client
+    // Guard on the current status in the same query to avoid races between concurrent reviews
+    const { data, error } = await this.client
       .from('automation_actions')
       .update(updates)
-      .eq('id', actionId);
+      .eq('id', actionId)
+      .in('status', getAllowedPreviousStatuses(status))
+      .select('id');
     
     if (error) {
       throw new DatabaseError(`Error updating action status for action ${actionId}`, error);
     }
+    
+    if (!data || data.length === 0) {
+      throw new ValidationError(`Action ${actionId} cannot be moved to '${status}' from its current status`);
+    }
+  }
+
+  /**
+   * Recalculate an automation's status from its actions and persist it
+   * USE WHEN: after approving, rejecting or reverting individual actions
+   */
+  async refreshAutomationStatus(automationId: string): Promise<AutomationStatus> {
+    const actions = await this.getAutomationActions(automationId);
+    const status = deriveAutomationStatus(actions.map(action => action.status as AutomationActionStatus));
+    
+    await this.updateAutomationStatus(automationId, status);
+    
+    return status;
+  }
+
+  /**
+   * Reject pending actions of an automation (all of them when actionIds is omitted)
+   * Rejecting a create action also rejects the pending add actions that rely on its tag/category
+   * @returns IDs of the actions that were rejected
+   */
+  async rejectAutomationActions(automationId: string, actionIds?: string[]): Promise<string[]> {
+    const pendingActions = (await this.getAutomationActions(automationId))
+      .filter(action => action.status === 'pending')
+      .map(action => ({ ...action, actionData: action.action_data }));
+    
+    const selected = new Set(actionIds
+      ? actionIds.filter(id => pendingActions.some(action => action.id === id))
+      : pendingActions.map(action => action.id));
+    
+    for (const action of pendingActions) {
+      if (isCreateAction(action.actionData) && selected.has(action.id)) {
+        findDependants(action, pendingActions).forEach(dependant => selected.add(dependant.id));
+      }
+    }
+    
+    for (const actionId of selected) {
+      await this.updateActionStatus(actionId, 'rejected');
+    }
+    
+    return Array.from(selected);
   }
 
   /**
@@ -519,7 +590,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
    */
   async updateAllActionStatusForAutomation(
     automationId: string, 
-    status: 'pending' | 'executing' | 'executed' | 'failed' | 'rejected' | 'reverted',
+    status: AutomationActionStatus,
     filter?: { currentStatus?: string }
   ): Promise<void> {
     let query = this.client
@@ -602,19 +673,28 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
   }
 
   /**
-   * Revert all actions of an automation
+   * Revert executed actions of an automation
+   * 
+   * When actionIds is given only those actions are reverted. Reverting a create action also
+   * reverts the add actions using its tag/category, and create actions left without executed
+   * dependants are cleaned up so no unused tags or categories remain.
+   * 
+   * @returns IDs of the actions that were reverted
    */
-  async revertAutomationActions(automationId: string, userId?: string): Promise<void> {
+  async revertAutomationActions(automationId: string, userId?: string, actionIds?: string[]): Promise<string[]> {
     console.log(`Starting revertAutomationActions for automation ${automationId}`);
     
     // Get all executed actions for this automation
-    const actions = await this.getExecutedAutomationActions(automationId);
+    const executedActions = await this.getExecutedAutomationActions(automationId);
+    const actions = actionIds
+      ? this.selectActionsToRevert(executedActions, actionIds)
+      : executedActions;
     console.log(`Found ${actions.length} executed actions to revert`);
     
     // If no actions, log that
     if (actions.length === 0) {
       console.log(`No executed actions found for automation ${automationId}`);
-      return;
+      return [];
     }
 
     // Get user ID from parameter or from session as fallback
@@ -629,7 +709,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
     }
     
     // Process actions in reverse order (LIFO)
-    for (const action of actions.reverse()) {
+    for (const action of [...actions].reverse()) {
       const actionData = action.action_data;
       
       // Determine what to undo based on action type
@@ -709,6 +789,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
             .select('id')
             .eq('created_by_automation_id', automationId)
             .eq('name', tag_name)
+            .eq('user_id', userIdToUse)
             .single();
             
           if (linkedTag) {
@@ -721,6 +802,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
               .from('tags')
               .select('id')
               .eq('name', tag_name)
+              .eq('user_id', userIdToUse)
               .is('created_by_automation_id', null)
               .single();
               
@@ -793,6 +875,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
             .select('id')
             .eq('created_by_automation_id', automationId)
             .eq('name', category_name)
+            .eq('user_id', userIdToUse)
             .single();
             
           if (linkedCategory) {
@@ -805,6 +888,7 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
               .from('categories')
               .select('id')
               .eq('name', category_name)
+              .eq('user_id', userIdToUse)
               .is('created_by_automation_id', null)
               .single();
               
@@ -862,5 +946,36 @@ export class AutomationsRepository extends BaseRepository<AutomationModel> {
         }
       }
     }
+    
+    // Mark the reverted actions so later reviews see their final state
+    for (const action of actions) {
+      await this.updateActionStatus(action.id, 'reverted');
+    }
+    
+    return actions.map(action => action.id);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Expand a selection of executed actions with the actions that must be reverted alongside them
+   * - Reverting a create action removes its tag/category, so its dependants go too
+   * - A create action whose dependants are all being reverted has nothing left to serve
+   */
+  private selectActionsToRevert(executedActions: AutomationActionModel[], actionIds: string[]): AutomationActionModel[] {
+    const candidates = executedActions.map(action => ({ ...action, actionData: action.action_data }));
+    const selected = new Set(actionIds.filter(id => candidates.some(action => action.id === id)));
+    
+    for (const action of candidates) {
+      if (!isCreateAction(action.actionData)) continue;
+      
+      const dependants = findDependants(action, candidates);
+      
+      if (selected.has(action.id)) {
+        dependants.forEach(dependant => selected.add(dependant.id));
+      } else if (dependants.length > 0 && dependants.every(dependant => selected.has(dependant.id))) {
+        selected.add(action.id);
+      }
+    }
+    
+    return executedActions.filter(action => selected.has(action.id));
+  }
+}
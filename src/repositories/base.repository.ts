@@ -213,6 +213,46 @@ export abstract class BaseRepository<T extends Record<string, any>> {
     return crypto.randomUUID();
   }
 
+  /**
+   * Build an ILIKE pattern for a free-text query.
+   * 
+   * USE IN: Custom search methods passing the pattern to `.ilike()`
+   * DO NOT USE IN: `.or()` filters (use toOrSearchPattern instead)
+   * 
+   * NOTE: Escapes LIKE wildcards so user input matches literally.
+   * 
+   * @param query - Raw user input
+   * @returns Pattern wrapped in `%` for substring matching
+   * 
+   * @example
+   * await this.client.from('tags').select('*').ilike('name', this.toSearchPattern(query));
+   */
+  protected toSearchPattern(query: string): string {
+    const sanitized = query
+      .trim()
+      .replace(/[\\%_]/g, match => `\\${match}`);
+    return `%${sanitized}%`;
+  }
+
+  /**
+   * Build an ILIKE pattern for a free-text query, quoted for use inside an `.or()` filter.
+   * 
+   * USE IN: Custom search methods matching several columns with `.or()`
+   * 
+   * NOTE: The `.or()` grammar gives commas, parentheses, dots, colons and quotes a
+   * meaning, so the pattern is wrapped in double quotes with `"` and `\` escaped.
+   * 
+   * @param query - Raw user input
+   * @returns Quoted pattern wrapped in `%` for substring matching
+   * 
+   * @example
+   * const pattern = this.toOrSearchPattern(query);
+   * await this.client.from('books').select('*').or(`rw_title.ilike.${pattern},rw_author.ilike.${pattern}`);
+   */
+  protected toOrSearchPattern(query: string): string {
+    return `"${this.toSearchPattern(query).replace(/["\\]/g, match => `\\${match}`)}"`;
+  }
+
   /**
    * Get all records for the current authenticated user.
    * 
@@ -44,6 +44,35 @@ export class BooksRepository extends BaseRepository<BookModel> {
     }));
   }
 
+  /**
+   * Search books by title or author
+   */
+  async searchBooks(query: string, limit: number = 5): Promise<BookBasicInfo[]> {
+    const userId = await this.getUserId();
+    const pattern = this.toOrSearchPattern(query);
+    
+    const { data, error } = await this.client
+      .from('books')
+      .select('id, rw_id, rw_title, rw_author, rw_num_highlights, rw_last_highlight_at')
+      .eq('user_id', userId)
+      .or(`rw_title.ilike.${pattern},rw_author.ilike.${pattern}`)
+      .order('rw_last_highlight_at', { ascending: false, nullsFirst: false })
+      .limit(limit);
+    
+    if (error) {
+      throw new DatabaseError('Error searching books', error);
+    }
+    
+    return data.map(book => ({
+      id: book.id,
+      rwId: book.rw_id,
+      title: book.rw_title || 'Untitled Book',
+      author: book.rw_author,
+      numHighlights: book.rw_num_highlights || 0,
+      lastHighlightAt: book.rw_last_highlight_at
+    }));
+  }
+
   /**
    * Get a book by ID with its related categories and tags
    */
@@ -3,6 +3,7 @@ import { DbClient } from '@/lib/db';
 import { DatabaseError, ValidationError } from '@/lib/errors';
 import { Resource, ResourceType } from '@/lib/categorization/types';
 import { CategoryModel, CategoryDomain, CreateCategoryInput, CategoryModelWithUsage, CategoryDomainWithUsage } from '@/lib/types';
+import { generateSlug } from '@/lib/utils';
 
 /**
  * Repository for categories
@@ -14,11 +15,12 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
 
   /**
    * Get all categories for the current user
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async getCategories(): Promise<CategoryModel[]> {
+  async getCategories(overrideUserId?: string): Promise<CategoryModel[]> {
     try {
       console.log('CategoriesRepository.getCategories - getting userId'); 
-      const userId = await this.getUserId();
+      const userId = overrideUserId || await this.getUserId();
       console.log('CategoriesRepository.getCategories - userId:', userId);
       
       console.log('CategoriesRepository.getCategories - querying database');
@@ -44,13 +46,34 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
     }
   }
 
+  /**
+   * Search categories by name
+   */
+  async searchCategories(query: string, limit: number = 5): Promise<CategoryModel[]> {
+    const userId = await this.getUserId();
+    
+    const { data, error } = await this.client
+      .from('categories')
+      .select('*')
+      .eq('user_id', userId)
+      .ilike('name', this.toSearchPattern(query))
+      .order('name', { ascending: true })
+      .limit(limit);
+    
+    if (error) {
+      throw new DatabaseError('Error searching categories', error);
+    }
+    
+    return data || [];
+  }
+
   /**
    * Find a category by name and userId (for use in Inngest functions)
    * @param name The category name to search for
    * @param userId The user ID to filter by
    */
   async findCategoryByName(name: string, userId: string) {
-    const slug = this.generateSlug(name);
+    const slug = generateSlug(name);
     
     const { data, error } = await this.client
       .from('categories')
@@ -86,10 +109,14 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
   }
 
   /**
-   * Get a category by slug
+   * Get one of the user's categories by slug
+   *
+   * NOTE: Slugs are only unique per user, so this must always filter by owner.
+   *
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async getCategoryBySlug(slug: string): Promise<CategoryModel | null> {
-    const userId = await this.getUserId();
+  async getCategoryBySlug(slug: string, overrideUserId?: string): Promise<CategoryModel | null> {
+    const userId = overrideUserId || await this.getUserId();
     
     const { data, error } = await this.client
       .from('categories')
@@ -110,13 +137,14 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
 
   /**
    * Create a new category
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async createCategory(input: CreateCategoryInput): Promise<CategoryModel> {
-    const userId = await this.getUserId();
-    const slug = this.generateSlug(input.name);
+  async createCategory(input: CreateCategoryInput, overrideUserId?: string): Promise<CategoryModel> {
+    const userId = overrideUserId || await this.getUserId();
+    const slug = generateSlug(input.name);
     
     // Check if category with this slug already exists
-    const existingCategory = await this.getCategoryBySlug(slug);
+    const existingCategory = await this.getCategoryBySlug(slug, userId);
     if (existingCategory) {
       return existingCategory; // Return existing category instead of creating duplicate
     }
@@ -139,25 +167,58 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
   }
 
   /**
-   * Update an existing category
+   * Rename a category and/or move it under another category
+   *
+   * NOTE: Renaming regenerates the slug, so old /category/<slug> links stop working.
+   * A name whose slug is already taken is rejected; merge the two categories instead.
+   *
+   * @param updates.parentId null moves the category to the top level
    */
   async updateCategory(
     categoryId: string, 
-    updates: {name: string}
+    updates: { name?: string; parentId?: string | null }
   ): Promise<CategoryModel> {
     const userId = await this.getUserId();
     
     // Verify the category exists and belongs to this user
     await this.verifyUserOwnership('categories', categoryId, userId);
     
-    // Generate a new slug if name is changing
-    const slug = this.generateSlug(updates.name);
+    const changes: Partial<CategoryModel> = {};
+    
+    if (updates.name !== undefined) {
+      const name = updates.name.trim();
+      const slug = generateSlug(name);
+      
+      if (!slug) {
+        throw new ValidationError('Category name cannot be empty');
+      }
+      
+      const existing = await this.getCategoryBySlug(slug);
+      if (existing && existing.id !== categoryId) {
+        throw new ValidationError(`A category named "${existing.name}" already exists. Merge them instead.`);
+      }
+      
+      changes.name = name;
+      changes.slug = slug;
+    }
+    
+    if (updates.parentId !== undefined) {
+      if (updates.parentId) {
+        await this.verifyUserOwnership('categories', updates.parentId, userId);
+        
+        const descendants = await this.getDescendantCategoryIds(categoryId);
+        if (updates.parentId === categoryId || descendants.includes(updates.parentId)) {
+          throw new ValidationError('A category cannot be nested inside itself or one of its subcategories');
+        }
+      }
+      
+      changes.parent_id = updates.parentId;
+    }
     
     const { data, error } = await this.client
       .from('categories')
       .update({
-        name: updates.name,
-        slug,
+        ...changes,
         updated_at: new Date().toISOString()
       })
       .eq('id', categoryId)
@@ -196,6 +257,154 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
     }
   }
 
+  /**
+   * Delete several categories and all their links at once
+   *
+   * NOTE: Subcategories are kept and move to the top level.
+   */
+  async deleteCategories(categoryIds: string[]): Promise<void> {
+    if (categoryIds.length === 0) {
+      return;
+    }
+    
+    const userId = await this.getUserId();
+    
+    const { data: owned, error: ownedError } = await this.client
+      .from('categories')
+      .select('id')
+      .in('id', categoryIds)
+      .eq('user_id', userId);
+    
+    if (ownedError) {
+      throw new DatabaseError('Error checking categories to delete', ownedError);
+    }
+    
+    if ((owned || []).length !== new Set(categoryIds).size) {
+      throw new ValidationError('Some categories were not found');
+    }
+    
+    for (const type of ['book', 'highlight', 'spark'] as ResourceType[]) {
+      const { junctionTable } = this.getJunctionInfo(type);
+      
+      const { error } = await this.client
+        .from(junctionTable)
+        .delete()
+        .in('category_id', categoryIds);
+      
+      if (error) {
+        throw new DatabaseError(`Error removing category relations from ${junctionTable}`, error);
+      }
+    }
+    
+    const { error } = await this.client
+      .from('categories')
+      .delete()
+      .in('id', categoryIds)
+      .eq('user_id', userId);
+    
+    if (error) {
+      throw new DatabaseError('Error deleting categories', error);
+    }
+  }
+
+  /**
+   * Merge categories into a target category
+   *
+   * Links are moved and deduplicated by the merge_categories database function,
+   * which also re-points subcategories, pending automation actions and rules.
+   *
+   * @returns The number of links moved to the target
+   */
+  async mergeCategories(sourceIds: string[], targetId: string): Promise<number> {
+    const { data, error } = await this.client.rpc('merge_categories', {
+      source_ids: sourceIds,
+      target_id: targetId
+    });
+    
+    if (error) {
+      throw new DatabaseError(`Error merging categories into ${targetId}`, error);
+    }
+    
+    return data ?? 0;
+  }
+
+  /**
+   * Get the IDs of every category nested below a category, at any depth
+   */
+  async getDescendantCategoryIds(categoryId: string): Promise<string[]> {
+    const userId = await this.getUserId();
+    
+    const { data, error } = await this.client
+      .from('categories')
+      .select('id, parent_id')
+      .eq('user_id', userId);
+    
+    if (error) {
+      throw new DatabaseError(`Error fetching subcategories of ${categoryId}`, error);
+    }
+    
+    const childrenByParent = new Map<string, string[]>();
+    for (const row of data || []) {
+      if (!row.parent_id) continue;
+      childrenByParent.set(row.parent_id, [...(childrenByParent.get(row.parent_id) || []), row.id]);
+    }
+    
+    const descendants: string[] = [];
+    const queue = [...(childrenByParent.get(categoryId) || [])];
+    
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (descendants.includes(id) || id === categoryId) continue;
+      descendants.push(id);
+      queue.push(...(childrenByParent.get(id) || []));
+    }
+    
+    return descendants;
+  }
+
+  /**
+   * Get every resource linked to any of the given categories, each listed once
+   * USE WHEN: rolling a parent category up with its subcategories
+   */
+  async getResourcesForCategories(categoryIds: string[]): Promise<Array<{ id: string; type: ResourceType }>> {
+    const userId = await this.getUserId();
+    
+    const { data: owned, error: ownedError } = await this.client
+      .from('categories')
+      .select('id')
+      .in('id', categoryIds)
+      .eq('user_id', userId);
+    
+    if (ownedError) {
+      throw new DatabaseError('Error checking category ownership', ownedError);
+    }
+    
+    const ownedIds = (owned || []).map(row => row.id);
+    if (ownedIds.length === 0) {
+      return [];
+    }
+    
+    const resources: Array<{ id: string; type: ResourceType }> = [];
+    
+    for (const type of ['book', 'highlight', 'spark'] as ResourceType[]) {
+      const { junctionTable, resourceIdColumn } = this.getJunctionInfo(type);
+      
+      const { data, error } = await this.client
+        .from(junctionTable)
+        .select(resourceIdColumn)
+        .in('category_id', ownedIds);
+      
+      if (error) {
+        throw new DatabaseError(`Error fetching ${type}s for categories`, error);
+      }
+      
+      const ids = new Set(data.map(item => item[resourceIdColumn as keyof typeof item] as string));
+      ids.forEach(id => resources.push({ id, type }));
+    }
+    
+    return resources;
+  }
+
   /**
    * Get all categories for a resource
    */
@@ -390,24 +599,12 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
       id: category.id,
       name: category.name,
       slug: category.slug,
+      parentId: category.parent_id ?? null,
       createdAt: category.created_at,
       updatedAt: category.updated_at
     };
   }
 
-  /**
-   * Generate a URL-friendly slug from a name
-   */
-  private generateSlug(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/\s+/g, '-')        // Replace spaces with hyphens
-      .replace(/[^\w\-]+/g, '')     // Remove non-word chars
-      .replace(/\-\-+/g, '-')       // Replace multiple hyphens with single hyphen
-      .replace(/^-+/, '')           // Trim hyphen from start
-      .replace(/-+$/, '');          // Trim hyphen from end
-  }
-
   /**
    * Get junction table info for a resource type
    */
@@ -461,6 +658,7 @@ export class CategoriesRepository extends BaseRepository<CategoryModel> {
       id: category.id,
       name: category.name,
       slug: category.slug,
+      parentId: category.parent_id ?? null,
       createdAt: category.created_at,
       updatedAt: category.updated_at,
       usageCount: category.usage_count
@@ -156,12 +156,16 @@ export class CategorizationRepository extends BaseRepository<Record<string, any>
   }
 
   /**
-   * Get all tags
+   * Get all tags of the current user
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async getAllTags() {
+  async getAllTags(overrideUserId?: string) {
+    const userId = overrideUserId || await this.getUserId();
+    
     const { data, error } = await this.client
       .from('tags')
       .select('*')
+      .eq('user_id', userId)
       .order('name');
       
     if (error) {
@@ -173,12 +177,15 @@ export class CategorizationRepository extends BaseRepository<Record<string, any>
   }
 
   /**
-   * Create a new tag
+   * Create a new tag for the current user
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async createTag(name: string) {
+  async createTag(name: string, overrideUserId?: string) {
+    const userId = overrideUserId || await this.getUserId();
+    
     const { data, error } = await this.client
       .from('tags')
-      .insert({ name })
+      .insert({ name, user_id: userId })
       .select()
       .single();
       
@@ -186,15 +193,18 @@ export class CategorizationRepository extends BaseRepository<Record<string, any>
   }
 
   /**
-   * Find tag by name
+   * Find one of the user's tags by name
    * @param name The tag name to search for
-   * @param userId Optional user ID (not used for filtering, kept for API compatibility)
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async findTagByName(name: string, userId?: string) {
+  async findTagByName(name: string, overrideUserId?: string) {
+    const userId = overrideUserId || await this.getUserId();
+    
     const { data, error } = await this.client
       .from('tags')
       .select('*')
       .eq('name', name)
+      .eq('user_id', userId)
       .single();
       
     return { data, error };
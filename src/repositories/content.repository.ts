@@ -1,50 +1,248 @@
-import { getSupabaseBrowserClient } from '@/lib/supabase';
+import { BaseRepository } from './base.repository';
+import { DbClient } from '@/lib/db';
+import { DatabaseError } from '@/lib/errors';
+import {
+  BookReadingStats,
+  DashboardEditedItem,
+  DashboardHighlight,
+  DashboardIntegration,
+  DashboardPendingAutomation,
+  IntegrationSyncStatus
+} from '@/lib/types';
 
 /**
- * Repository for content-related data access
+ * Inngest functions that count as a sync for each integration, by function_logs.function_name
  */
-export class ContentRepository {
+const INTEGRATION_SYNC_FUNCTIONS: Record<DashboardIntegration, { label: string; functionNames: string[] }> = {
+  readwise: {
+    label: 'Readwise',
+    functionNames: ['readwise-sync-books', 'readwise-sync-highlights']
+  },
+  'readwise-reader': {
+    label: 'Readwise Reader',
+    functionNames: ['readwise-import-reader-documents']
+  },
+  airtable: {
+    label: 'Airtable',
+    functionNames: ['airtable-import-sparks']
+  }
+};
+
+/**
+ * Repository for the home dashboard
+ *
+ * NOTE: Read-only and spans several tables; each method is a single focused query so
+ * the dashboard can load its sections in parallel.
+ */
+export class ContentRepository extends BaseRepository<Record<string, any>> {
+  constructor(client: DbClient) {
+    super(client, 'content');
+  }
+
   /**
-   * Get recent items from the database
+   * Get the most recently synced highlights, skipping ones in the trash
    */
-  async getRecentItems(userId: string, limit: number = 10) {
-    const supabase = getSupabaseBrowserClient();
-    
-    // This is a placeholder for future implementation
-    // In a real app, this would fetch recent items from a relevant table
-    return {
-      data: [],
-      error: null
-    };
+  async getRecentHighlights(limit: number = 8): Promise<DashboardHighlight[]> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('highlights')
+      .select('id, rw_text, book_id, created_at, book:books(rw_id, rw_title, rw_author)')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError('Error fetching recent highlights', error);
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      text: row.rw_text,
+      bookId: row.book_id,
+      bookRwId: row.book?.rw_id ?? null,
+      bookTitle: row.book?.rw_title ?? null,
+      bookAuthor: row.book?.rw_author ?? null,
+      syncedAt: row.created_at
+    }));
   }
 
   /**
-   * Get quick access items for a user
+   * Get the most recently edited notes and sparks, newest first
    */
-  async getQuickAccessItems(userId: string) {
-    const supabase = getSupabaseBrowserClient();
-    
-    // This is a placeholder for future implementation
-    // In a real app, this would fetch pinned or frequently accessed items
-    return {
-      data: [],
-      error: null
-    };
+  async getRecentlyEdited(limit: number = 8): Promise<DashboardEditedItem[]> {
+    const userId = await this.getUserId();
+
+    const [notesResult, sparksResult] = await Promise.all([
+      this.client
+        .from('notes')
+        .select('id, title, content, updated_at')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .limit(limit),
+      this.client
+        .from('sparks')
+        .select('id, body, updated_at')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .limit(limit)
+    ]);
+
+    if (notesResult.error) {
+      throw new DatabaseError('Error fetching recently edited notes', notesResult.error);
+    }
+
+    if (sparksResult.error) {
+      throw new DatabaseError('Error fetching recently edited sparks', sparksResult.error);
+    }
+
+    const notes: DashboardEditedItem[] = (notesResult.data || []).map(note => ({
+      id: note.id,
+      type: 'note',
+      title: note.title || note.content.split('\n')[0] || 'Untitled Note',
+      updatedAt: note.updated_at
+    }));
+
+    const sparks: DashboardEditedItem[] = (sparksResult.data || []).map(spark => ({
+      id: spark.id,
+      type: 'spark',
+      title: spark.body.split('\n')[0],
+      updatedAt: spark.updated_at
+    }));
+
+    return [...notes, ...sparks]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit);
   }
 
   /**
-   * Get recent documents for a user
+   * Get automations awaiting review along with the total number pending
+   *
+   * A partially approved automation only counts while some of its actions are still
+   * pending, and only those actions are counted.
    */
-  async getRecentDocuments(userId: string, limit: number = 3) {
-    const supabase = getSupabaseBrowserClient();
-    
-    // This is a placeholder for future implementation
-    // In a real app, this would fetch recent documents
+  async getPendingAutomations(
+    limit: number = 5
+  ): Promise<{ automations: DashboardPendingAutomation[]; count: number }> {
+    const userId = await this.getUserId();
+
+    const { data, error, count } = await this.client
+      .from('automations')
+      .select('id, name, source, created_at, actions:automation_actions!inner(status)', { count: 'exact' })
+      .eq('user_id', userId)
+      .in('status', ['pending', 'partially_approved'])
+      .eq('actions.status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError('Error fetching pending automations', error);
+    }
+
     return {
-      data: [],
-      error: null
+      automations: (data || []).map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        source: row.source,
+        actionCount: row.actions?.length ?? 0,
+        createdAt: row.created_at
+      })),
+      count: count || 0
     };
   }
-}
 
-export const contentRepository = new ContentRepository(); 
\ No newline at end of file
+  /**
+   * Get the last run and last successful run of each integration's sync functions
+   */
+  async getIntegrationSyncStatus(): Promise<IntegrationSyncStatus[]> {
+    const userId = await this.getUserId();
+
+    const entries = Object.entries(INTEGRATION_SYNC_FUNCTIONS) as [
+      DashboardIntegration,
+      { label: string; functionNames: string[] }
+    ][];
+
+    return Promise.all(
+      entries.map(async ([integration, { label, functionNames }]) => {
+        const [lastRunResult, lastSuccessResult] = await Promise.all([
+          this.client
+            .from('function_logs')
+            .select('function_name, status, started_at, completed_at, error_message')
+            .eq('user_id', userId)
+            .in('function_name', functionNames)
+            .order('started_at', { ascending: false })
+            .limit(1)
+            .maybeSingle(),
+          this.client
+            .from('function_logs')
+            .select('completed_at')
+            .eq('user_id', userId)
+            .in('function_name', functionNames)
+            .eq('status', 'completed')
+            .order('started_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        ]);
+
+        if (lastRunResult.error) {
+          throw new DatabaseError(`Error fetching ${label} sync status`, lastRunResult.error);
+        }
+
+        if (lastSuccessResult.error) {
+          throw new DatabaseError(`Error fetching ${label} sync status`, lastSuccessResult.error);
+        }
+
+        const lastRun = lastRunResult.data;
+
+        return {
+          integration,
+          label,
+          lastRun: lastRun
+            ? {
+                functionName: lastRun.function_name,
+                status: lastRun.status,
+                startedAt: lastRun.started_at,
+                completedAt: lastRun.completed_at,
+                errorMessage: lastRun.error_message
+              }
+            : null,
+          lastSuccessAt: lastSuccessResult.data?.completed_at ?? null
+        };
+      })
+    );
+  }
+
+  /**
+   * Get highlight counts for the books read most recently
+   *
+   * NOTE: Counts come from the highlights table rather than rw_num_highlights, so
+   * trashed highlights aren't counted.
+   */
+  async getBookReadingStats(limit: number = 6): Promise<BookReadingStats[]> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('books')
+      .select('id, rw_id, rw_title, rw_author, rw_cover_image_url, rw_last_highlight_at, highlights(count)')
+      .eq('user_id', userId)
+      .is('highlights.deleted_at', null)
+      .not('rw_last_highlight_at', 'is', null)
+      .order('rw_last_highlight_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError('Error fetching book reading stats', error);
+    }
+
+    return (data || []).map((row: any) => ({
+      bookId: row.id,
+      rwId: row.rw_id,
+      title: row.rw_title,
+      author: row.rw_author,
+      coverImageUrl: row.rw_cover_image_url,
+      highlightCount: row.highlights?.[0]?.count ?? 0,
+      lastHighlightAt: row.rw_last_highlight_at
+    }));
+  }
+}
@@ -0,0 +1,70 @@
+import { BaseRepository } from './base.repository';
+import { DatabaseError } from '@/lib/errors';
+import { ExportDomain, ExportModel } from '@/lib/types';
+import { DbClient } from '@/lib/db';
+
+export class ExportsRepository extends BaseRepository<ExportModel> {
+  constructor(client: DbClient) {
+    super(client, 'exports');
+  }
+
+  /**
+   * Get the most recent exports for the current user
+   */
+  async getRecentExports(limit: number = 10): Promise<ExportDomain[]> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('exports')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError('Error fetching exports', error);
+    }
+
+    return (data || []).map(row => this.mapToDomain(row as ExportModel));
+  }
+
+  /**
+   * Create a pending Markdown export row for the export job to fill in
+   */
+  async createMarkdownExport(): Promise<ExportDomain> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('exports')
+      .insert({
+        user_id: userId,
+        format: 'markdown',
+        status: 'pending'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError('Error creating export', error);
+    }
+
+    return this.mapToDomain(data as ExportModel);
+  }
+
+  /**
+   * Map a database export model to the domain model
+   */
+  mapToDomain(row: ExportModel): ExportDomain {
+    return {
+      id: row.id,
+      format: row.format,
+      status: row.status,
+      externalUrl: row.external_url,
+      fileCount: row.file_count,
+      sizeBytes: row.size_bytes,
+      error: row.error,
+      createdAt: row.created_at,
+      completedAt: row.completed_at
+    };
+  }
+}
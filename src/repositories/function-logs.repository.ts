@@ -1,6 +1,6 @@
 import { BaseRepository } from './base.repository';
 import { handleServiceError } from '@/lib/errors';
-import { FunctionLogModel, FunctionLogsFilter } from '@/lib/types';
+import { FunctionLogModel, FunctionLogStatsRow, FunctionLogStepModel, FunctionLogsFilter } from '@/lib/types';
 import { DbClient } from '@/lib/db';
 
 export class FunctionLogsRepository extends BaseRepository<FunctionLogModel> {
@@ -55,4 +55,49 @@ export class FunctionLogsRepository extends BaseRepository<FunctionLogModel> {
       return { logs: [], count: 0 };
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get a run of the current user with its step timeline, oldest step first
+   */
+  async getFunctionLogDetail(logId: string): Promise<{ log: FunctionLogModel | null, steps: FunctionLogStepModel[] }> {
+    const userId = await this.getUserId();
+
+    const [logResult, stepsResult] = await Promise.all([
+      this.client
+        .from('function_logs')
+        .select('*')
+        .eq('id', logId)
+        .eq('user_id', userId)
+        .maybeSingle(),
+      this.client
+        .from('function_log_steps')
+        .select('*')
+        .eq('log_id', logId)
+        .order('started_at', { ascending: true })
+    ]);
+
+    if (logResult.error) throw logResult.error;
+    if (stepsResult.error) throw stepsResult.error;
+
+    return {
+      log: logResult.data as FunctionLogModel | null,
+      steps: (stepsResult.data || []) as FunctionLogStepModel[]
+    };
+  }
+
+  /**
+   * Get run counts, failures and duration percentiles per function over the last `days` days
+   */
+  async getFunctionLogStats(days: number = 14): Promise<FunctionLogStatsRow[]> {
+    const { data, error } = await this.client.rpc('get_function_log_stats', { p_days: days });
+
+    if (error) throw error;
+
+    return ((data || []) as FunctionLogStatsRow[]).map(row => ({
+      ...row,
+      // bigint counts arrive as numbers or strings depending on the driver
+      runs: Number(row.runs),
+      failed: Number(row.failed)
+    }));
+  }
+}
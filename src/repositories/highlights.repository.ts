@@ -7,7 +7,8 @@ import {
   HighlightModel,
   HighlightWithRelations,
   HighlightDomain,
-  CreateHighlightInput
+  CreateHighlightInput,
+  TrashedHighlight
 } from '@/lib/types';
 
 /**
@@ -41,6 +42,8 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
       `)
       .eq('book_id', bookId)
       .eq('user_id', userId)
+      .eq('highlight_notes.kind', 'attached')
+      .is('deleted_at', null)
       .order('rw_highlighted_at', { ascending: true });
     
     if (error) {
@@ -73,6 +76,7 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
       `)
       .eq('id', highlightId)
       .eq('user_id', userId)
+      .eq('highlight_notes.kind', 'attached')
       .single();
     
     if (error) {
@@ -188,11 +192,12 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
     // Verify the highlight exists and belongs to this user
     await this.verifyUserOwnership('highlights', highlightId, userId);
     
-    // First, check if there's an existing note for this highlight
+    // First, check if there's an existing note for this highlight (not one that merely mentions it)
     const { data: existingNotes, error: fetchError } = await this.client
       .from('highlight_notes')
       .select('note_id')
       .eq('highlight_id', highlightId)
+      .eq('kind', 'attached')
       .maybeSingle();
     
     if (fetchError) {
@@ -268,6 +273,90 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
     }
   }
 
+  /**
+   * Get highlights in the trash, most recently deleted first
+   *
+   * Tags, categories and notes are still linked, so the trash view can show what
+   * a restore brings back.
+   */
+  async getDeletedHighlights(limit: number = 200): Promise<TrashedHighlight[]> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('highlights')
+      .select(`
+        *,
+        trashed_book:books!highlights_book_id_fkey(id, rw_id, rw_title, rw_author),
+        categories:highlight_categories(
+          category:categories(id, name)
+        ),
+        tags:highlight_tags(
+          tag:tags(id, name)
+        ),
+        highlight_notes(
+          note_id,
+          notes:note_id(content)
+        )
+      `)
+      .eq('user_id', userId)
+      .eq('highlight_notes.kind', 'attached')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError('Error fetching deleted highlights', error);
+    }
+
+    return (data || []).map((row: any) => ({
+      ...this.mapToDomain(row as HighlightWithRelations),
+      deletedAt: row.deleted_at,
+      deletionReason: row.deletion_reason ?? null,
+      book: row.trashed_book
+        ? {
+            id: row.trashed_book.id,
+            rwId: row.trashed_book.rw_id ?? null,
+            title: row.trashed_book.rw_title || 'Untitled',
+            author: row.trashed_book.rw_author ?? null
+          }
+        : null
+    }));
+  }
+
+  /**
+   * Restore highlights from the trash
+   *
+   * NOTE: Sets `restored_at` so reconciliation does not trash them again. A later sync
+   * that sees the highlight flagged as deleted in Readwise will still move it back.
+   *
+   * @returns IDs of the highlights that were restored
+   */
+  async restoreHighlights(highlightIds: string[]): Promise<string[]> {
+    const userId = await this.getUserId();
+
+    if (highlightIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('highlights')
+      .update({
+        deleted_at: null,
+        deletion_reason: null,
+        restored_at: new Date().toISOString()
+      })
+      .in('id', highlightIds)
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError('Error restoring highlights', error);
+    }
+
+    return (data || []).map(row => row.id);
+  }
+
   /**
    * Map a database highlight model with relations to the domain model
    */
@@ -324,7 +413,9 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
       tags,
       userNote,
       createdAt: highlight.created_at,
-      updatedAt: highlight.updated_at
+      updatedAt: highlight.updated_at,
+      deletedAt: highlight.deleted_at ?? null,
+      deletionReason: highlight.deletion_reason ?? null
     };
   }
 
@@ -342,6 +433,7 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
         note:notes(content)
       `)
       .eq('highlight_id', highlightId)
+      .eq('kind', 'attached')
       .maybeSingle();
     
     if (error) {
@@ -377,6 +469,7 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
       .from('highlights')
       .select('id')
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false })
       .limit(100);  // Sample size of recent highlights
     
@@ -393,11 +486,60 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
     const shuffled = [...recentHighlights].sort(() => 0.5 - Math.random());
     const selectedIds = shuffled.slice(0, Math.min(count, shuffled.length)).map(h => h.id);
     
-    // Now fetch the full highlight data with relations for just these selected IDs
+    return this.getHighlightsWithRelationsByIds(selectedIds, userId);
+  }
+
+  /**
+   * Get random highlights filed under any of the given categories
+   * @param categoryIds Categories to pick from
+   * @param count Number of random highlights to fetch
+   * @param overrideUserId Optional user ID to override the session user
+   * @returns Array of highlights with relations
+   */
+  async getRandomHighlightsInCategories(
+    categoryIds: string[],
+    count: number = 5,
+    overrideUserId?: string
+  ): Promise<HighlightWithRelations[]> {
+    if (categoryIds.length === 0) {
+      return [];
+    }
+    
+    const userId = overrideUserId || await this.getUserId();
+    
+    const { data: linked, error: fetchError } = await this.client
+      .from('highlight_categories')
+      .select('highlight_id, highlights!inner(user_id, deleted_at)')
+      .in('category_id', categoryIds)
+      .eq('highlights.user_id', userId)
+      .is('highlights.deleted_at', null)
+      .limit(500);
+    
+    if (fetchError) {
+      throw new DatabaseError('Error fetching category highlights for selection', fetchError);
+    }
+    
+    // A highlight in several of the categories appears once per category
+    const candidateIds = Array.from(new Set((linked || []).map(row => row.highlight_id as string)));
+    const shuffled = candidateIds.sort(() => 0.5 - Math.random());
+    
+    return this.getHighlightsWithRelationsByIds(shuffled.slice(0, count), userId);
+  }
+
+  /**
+   * Fetch highlights with book, categories, tags and notes for a known set of IDs
+   * @private
+   */
+  private async getHighlightsWithRelationsByIds(ids: string[], userId: string): Promise<HighlightWithRelations[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    
     const { data, error } = await this.client
       .from('highlights')
       .select(`
         *,
+        book:books!highlights_book_id_fkey(rw_id, rw_title, rw_author, rw_category),
         categories:highlight_categories(
           category:categories(id, name)
         ),
@@ -409,8 +551,9 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
           notes:note_id(content)
         )
       `)
-      .in('id', selectedIds)
-      .eq('user_id', userId);
+      .in('id', ids)
+      .eq('user_id', userId)
+      .eq('highlight_notes.kind', 'attached');
     
     if (error) {
       throw new DatabaseError('Error fetching selected highlights details', error);
@@ -434,6 +577,7 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
       .from('highlights')
       .select('*')
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .or('embedding.is.null,updated_at.gt.embedding_updated_at')
       .not('rw_text', 'is', null) // Only get highlights with text
       .order('updated_at', { ascending: false })
@@ -480,6 +624,42 @@ export class HighlightsRepository extends BaseRepository<HighlightModel> {
     }
   }
 
+  /**
+   * Search highlight text and notes by substring, including the parent book for routing
+   * 
+   * @param queryText - The search text
+   * @param limit - Maximum number of results to return
+   */
+  async searchHighlightsByText(
+    queryText: string,
+    limit: number = 5
+  ): Promise<Array<Pick<HighlightModel, 'id' | 'rw_text' | 'rw_note'> & {
+    book: { rw_id: number; rw_title: string | null } | null;
+  }>> {
+    const userId = await this.getUserId();
+    const pattern = this.toOrSearchPattern(queryText);
+    
+    const { data, error } = await this.client
+      .from('highlights')
+      .select(`
+        id,
+        rw_text,
+        rw_note,
+        book:books!highlights_book_id_fkey(rw_id, rw_title)
+      `)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .or(`rw_text.ilike.${pattern},rw_note.ilike.${pattern}`)
+      .order('rw_highlighted_at', { ascending: false, nullsFirst: false })
+      .limit(limit);
+    
+    if (error) {
+      throw new DatabaseError('Error searching highlights', error);
+    }
+    
+    return (data || []) as any;
+  }
+
   /**
    * Perform semantic search using vector similarity
    * 
@@ -11,6 +11,12 @@ import { UserSettingsRepository } from './user-settings.repository';
 import { CategorizationRepository } from './categorization.repository';
 import { AutomationsRepository } from './automations.repository';
 import { NotesRepository } from './notes.repository';
+import { ExportsRepository } from './exports.repository';
+import { ContentRepository } from './content.repository';
+import { ReviewsRepository } from './reviews.repository';
+import { AutomationRulesRepository } from './automation-rules.repository';
+import { ApiTokensRepository } from './api-tokens.repository';
+import { NotificationsRepository } from './notifications.repository';
 import { 
   SparkDomain,
   BookDomain,
@@ -39,6 +45,12 @@ class RepositoriesRegistry {
   private categorizationRepo: CategorizationRepository | null = null;
   private automationsRepo: AutomationsRepository | null = null;
   private notesRepo: NotesRepository | null = null;
+  private exportsRepo: ExportsRepository | null = null;
+  private contentRepo: ContentRepository | null = null;
+  private reviewsRepo: ReviewsRepository | null = null;
+  private automationRulesRepo: AutomationRulesRepository | null = null;
+  private apiTokensRepo: ApiTokensRepository | null = null;
+  private notificationsRepo: NotificationsRepository | null = null;
   
   constructor(serverSide: boolean = false) {
     this.client = getDbClient(serverSide);
@@ -164,6 +176,66 @@ class RepositoriesRegistry {
     return this.notesRepo;
   }
   
+  /**
+   * Get the Exports repository
+   */
+  get exports(): ExportsRepository {
+    if (!this.exportsRepo) {
+      this.exportsRepo = new ExportsRepository(this.client);
+    }
+    return this.exportsRepo;
+  }
+  
+  /**
+   * Get the Content (home dashboard) repository
+   */
+  get content(): ContentRepository {
+    if (!this.contentRepo) {
+      this.contentRepo = new ContentRepository(this.client);
+    }
+    return this.contentRepo;
+  }
+  
+  /**
+   * Get the highlight Reviews repository
+   */
+  get reviews(): ReviewsRepository {
+    if (!this.reviewsRepo) {
+      this.reviewsRepo = new ReviewsRepository(this.client);
+    }
+    return this.reviewsRepo;
+  }
+
+  /**
+   * Get the AutomationRules repository
+   */
+  get automationRules(): AutomationRulesRepository {
+    if (!this.automationRulesRepo) {
+      this.automationRulesRepo = new AutomationRulesRepository(this.client);
+    }
+    return this.automationRulesRepo;
+  }
+
+  /**
+   * Get the personal access (API) tokens repository
+   */
+  get apiTokens(): ApiTokensRepository {
+    if (!this.apiTokensRepo) {
+      this.apiTokensRepo = new ApiTokensRepository(this.client);
+    }
+    return this.apiTokensRepo;
+  }
+
+  /**
+   * Get the notifications repository
+   */
+  get notifications(): NotificationsRepository {
+    if (!this.notificationsRepo) {
+      this.notificationsRepo = new NotificationsRepository(this.client);
+    }
+    return this.notificationsRepo;
+  }
+  
   /**
    * Reset all repositories (useful for testing)
    */
@@ -180,6 +252,12 @@ class RepositoriesRegistry {
     this.categorizationRepo = null;
     this.automationsRepo = null;
     this.notesRepo = null;
+    this.exportsRepo = null;
+    this.contentRepo = null;
+    this.reviewsRepo = null;
+    this.automationRulesRepo = null;
+    this.apiTokensRepo = null;
+    this.notificationsRepo = null;
   }
 }
 
@@ -215,7 +293,13 @@ export type {
   FunctionLogsRepository,
   UserSettingsRepository,
   CategorizationRepository,
-  AutomationsRepository
+  AutomationsRepository,
+  ExportsRepository,
+  ContentRepository,
+  ReviewsRepository,
+  AutomationRulesRepository,
+  ApiTokensRepository,
+  NotificationsRepository
 };
 
 // Re-export repository domain models for convenience
@@ -1,6 +1,7 @@
 import { BaseRepository } from './base.repository';
 import { DbClient } from '@/lib/db';
 import { DatabaseError, NotFoundError } from '@/lib/errors';
+import { AirtableFieldMapping, IntegrationProvider } from '@/lib/types';
 
 /**
  * Repository for integration settings
@@ -10,6 +11,44 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
     super(client, 'user_settings');
   }
 
+  /**
+   * Whether the current user has a stored token for a provider, and its last characters
+   * The token itself can only be read server-side (see getIntegrationCredential).
+   */
+  async getCredentialStatus(provider: IntegrationProvider) {
+    const userId = await this.getUserId();
+    
+    const { data, error } = await this.client
+      .from('integration_credentials')
+      .select('hint, updated_at')
+      .eq('user_id', userId)
+      .eq('provider', provider)
+      .maybeSingle();
+    
+    if (error) {
+      throw new DatabaseError(`Error fetching ${provider} credentials`, error);
+    }
+    
+    return {
+      isConnected: !!data,
+      tokenHint: data?.hint || null
+    };
+  }
+
+  /**
+   * Store (or, with an empty token, remove) the current user's token for a provider
+   */
+  async setCredential(provider: IntegrationProvider, token: string) {
+    const { error } = await this.client.rpc('set_integration_credential', {
+      p_provider: provider,
+      p_secret: token
+    });
+    
+    if (error) {
+      throw new DatabaseError(`Error saving ${provider} credentials`, error);
+    }
+  }
+
   /**
    * Get Airtable integration settings for the current user
    */
@@ -28,11 +67,13 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
     
     // Get values from the settings JSONB field
     const settings = data?.settings || {};
+    const credential = await this.getCredentialStatus('airtable');
     
     return {
-      apiKey: settings?.integrations?.airtable?.apiKey || null,
+      ...credential,
       baseId: settings?.integrations?.airtable?.baseId || null,
-      tableId: settings?.integrations?.airtable?.tableId || null
+      tableId: settings?.integrations?.airtable?.tableId || null,
+      fieldMapping: settings?.integrations?.airtable?.fieldMapping || null
     };
   }
 
@@ -43,6 +84,7 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
     apiKey?: string;
     baseId?: string;
     tableId?: string;
+    fieldMapping?: AirtableFieldMapping;
   }) {
     const userId = await this.getUserId();
     
@@ -71,7 +113,7 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
     
     // Update only the fields that were provided
     if (settings.apiKey !== undefined) {
-      currentSettings.integrations.airtable.apiKey = settings.apiKey;
+      await this.setCredential('airtable', settings.apiKey);
     }
     
     if (settings.baseId !== undefined) {
@@ -82,11 +124,16 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
       currentSettings.integrations.airtable.tableId = settings.tableId;
     }
     
+    if (settings.fieldMapping !== undefined) {
+      currentSettings.integrations.airtable.fieldMapping = settings.fieldMapping;
+    }
+    
     // Set isConnected based on whether all required fields are present
+    const { isConnected: hasToken } = await this.getCredentialStatus('airtable');
     const allFieldsPresent = 
-      currentSettings.integrations.airtable.apiKey && 
-      currentSettings.integrations.airtable.baseId && 
-      currentSettings.integrations.airtable.tableId;
+      hasToken && 
+      !!currentSettings.integrations.airtable.baseId && 
+      !!currentSettings.integrations.airtable.tableId;
     
     currentSettings.integrations.airtable.isConnected = allFieldsPresent;
     
@@ -123,10 +170,13 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
     
     // Get values from the settings JSONB field
     const settings = data?.settings || {};
+    const credential = await this.getCredentialStatus('readwise');
     
     return {
-      accessToken: settings?.integrations?.readwise?.apiKey || null,
-      lastSync: settings?.integrations?.readwise?.lastSyncTime || null
+      ...credential,
+      lastSync: settings?.integrations?.readwise?.lastSyncTime || null,
+      writeBack: !!settings?.integrations?.readwise?.writeBack,
+      webhookSecret: settings?.integrations?.readwise?.webhookSecret || null
     };
   }
 
@@ -136,6 +186,8 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
   async updateReadwiseSettings(settings: {
     accessToken?: string;
     lastSync?: string;
+    writeBack?: boolean;
+    webhookSecret?: string;
   }) {
     const userId = await this.getUserId();
     
@@ -164,16 +216,21 @@ export class IntegrationsRepository extends BaseRepository<Record<string, any>>
     
     // Update only the fields that were provided
     if (settings.accessToken !== undefined) {
-      currentSettings.integrations.readwise.apiKey = settings.accessToken;
+      await this.setCredential('readwise', settings.accessToken);
+      currentSettings.integrations.readwise.isConnected = !!settings.accessToken.trim();
     }
     
     if (settings.lastSync !== undefined) {
       currentSettings.integrations.readwise.lastSyncTime = settings.lastSync;
     }
     
-    // Set isConnected based on whether the API key is present
-    currentSettings.integrations.readwise.isConnected = 
-      !!currentSettings.integrations.readwise.apiKey;
+    if (settings.writeBack !== undefined) {
+      currentSettings.integrations.readwise.writeBack = settings.writeBack;
+    }
+    
+    if (settings.webhookSecret !== undefined) {
+      currentSettings.integrations.readwise.webhookSecret = settings.webhookSecret;
+    }
     
     // Update settings in the database
     const { error } = await this.client
@@ -5,7 +5,10 @@ import {
   NoteModel, 
   NoteWithRelations, 
   NoteDomain,
-  CreateNoteInput
+  CreateNoteInput,
+  NoteLinkModel,
+  NoteLinkDomain,
+  NoteLinkTargetType
 } from '@/lib/types';
 
 /**
@@ -140,6 +143,70 @@ export class NotesRepository extends BaseRepository<NoteModel> {
     }
   }
 
+  /**
+   * Search notes by title or content
+   */
+  async searchNotes(query: string, limit: number = 5): Promise<NoteModel[]> {
+    try {
+      const userId = await this.getUserId();
+      const pattern = this.toOrSearchPattern(query);
+      
+      const { data, error } = await this.client
+        .from(this.tableName)
+        .select('*')
+        .eq('user_id', userId)
+        .or(`title.ilike.${pattern},content.ilike.${pattern}`)
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw new DatabaseError(`Error searching notes: ${error.message}`);
+      
+      return data || [];
+    } catch (error) {
+      console.error('Error in NotesRepository.searchNotes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the links of the current user's notes, or only those touching one entity
+   *
+   * For a note that is its outgoing links and the notes linking to it; for a book, links
+   * to the book and to its highlights. Links are written in note content and resolved
+   * by the database, so there is no method to add one.
+   */
+  async getNoteLinks(entity?: { type: NoteLinkTargetType; id: string }): Promise<NoteLinkDomain[]> {
+    try {
+      const { data, error } = await this.client.rpc('get_note_links', {
+        p_entity_type: entity?.type ?? null,
+        p_entity_id: entity?.id ?? null
+      });
+
+      if (error) throw new DatabaseError(`Error fetching note links: ${error.message}`);
+
+      return ((data || []) as NoteLinkModel[]).map(link => this.mapLinkToDomain(link));
+    } catch (error) {
+      console.error('Error in NotesRepository.getNoteLinks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map a get_note_links row to the domain model
+   */
+  mapLinkToDomain(link: NoteLinkModel): NoteLinkDomain {
+    return {
+      noteId: link.note_id,
+      noteTitle: link.note_title,
+      targetType: link.target_type,
+      targetId: link.target_id,
+      targetLabel: link.target_label,
+      targetBookRwId: link.target_book_rw_id,
+      kind: link.kind,
+      targetDeleted: link.target_deleted
+    };
+  }
+
   /**
    * Map a database note model to the domain model
    */
@@ -0,0 +1,87 @@
+import { BaseRepository } from './base.repository';
+import { DatabaseError } from '@/lib/errors';
+import { NotificationDomain, NotificationModel } from '@/lib/types';
+import { DbClient } from '@/lib/db';
+
+export class NotificationsRepository extends BaseRepository<NotificationModel> {
+  constructor(client: DbClient) {
+    super(client, 'notifications');
+  }
+
+  /**
+   * Get the current user's most recent notifications, newest first
+   */
+  async getNotifications(limit: number = 20): Promise<NotificationDomain[]> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError('Error fetching notifications', error);
+    }
+
+    return (data || []).map(row => this.mapToDomain(row as NotificationModel));
+  }
+
+  /**
+   * Count the current user's unread notifications
+   */
+  async getUnreadCount(): Promise<number> {
+    const userId = await this.getUserId();
+
+    const { count, error } = await this.client
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new DatabaseError('Error counting unread notifications', error);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Mark notifications as read; without IDs, all of the current user's unread ones
+   */
+  async markAsRead(notificationIds?: string[]): Promise<void> {
+    const userId = await this.getUserId();
+
+    let query = this.client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (notificationIds) {
+      query = query.in('id', notificationIds);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw new DatabaseError('Error marking notifications as read', error);
+    }
+  }
+
+  /**
+   * Map a database notification model to the domain model
+   */
+  mapToDomain(row: NotificationModel): NotificationDomain {
+    return {
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      body: row.body,
+      link: row.link,
+      isRead: row.read_at !== null,
+      createdAt: row.created_at
+    };
+  }
+}
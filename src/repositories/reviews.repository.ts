@@ -0,0 +1,152 @@
+import { BaseRepository } from './base.repository';
+import { DbClient } from '@/lib/db';
+import { DatabaseError } from '@/lib/errors';
+import {
+  HighlightReviewModel,
+  ReviewGrade,
+  ReviewQueueFilters,
+  ReviewQueueItem
+} from '@/lib/types';
+import { ScheduledReview } from '@/lib/review';
+
+/**
+ * Repository for spaced-repetition review state of highlights
+ */
+export class ReviewsRepository extends BaseRepository<HighlightReviewModel> {
+  constructor(client: DbClient) {
+    super(client, 'highlight_reviews');
+  }
+
+  /**
+   * Get today's review queue: due highlights first, then new ones up to the daily cap
+   *
+   * NOTE: Trashed highlights and highlights graded "never" are excluded by the
+   * get_review_queue function.
+   *
+   * @param overrideUserId Optional user ID to override the session user
+   */
+  async getReviewQueue(
+    filters: ReviewQueueFilters = {},
+    dueLimit: number = 20,
+    newLimit: number = 10,
+    overrideUserId?: string
+  ): Promise<ReviewQueueItem[]> {
+    const userId = overrideUserId || await this.getUserId();
+
+    const { data, error } = await this.client.rpc('get_review_queue', {
+      match_user_id: userId,
+      due_limit: dueLimit,
+      new_limit: newLimit,
+      filter_book_id: filters.bookId || null,
+      filter_category_id: filters.categoryId || null,
+      filter_tag_id: filters.tagId || null
+    });
+
+    if (error) {
+      throw new DatabaseError('Error fetching review queue', error);
+    }
+
+    return (data || []).map((row: any) => this.mapQueueItem(row));
+  }
+
+  /**
+   * Get the review state of a single highlight, or null if it was never reviewed
+   */
+  async getReviewState(highlightId: string): Promise<HighlightReviewModel | null> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await this.client
+      .from('highlight_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('highlight_id', highlightId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Error fetching review state for highlight ${highlightId}`, error);
+    }
+
+    return data as HighlightReviewModel | null;
+  }
+
+  /**
+   * Store the outcome of grading a highlight
+   *
+   * The write only lands if the stored state is still `previous`: an existing row must
+   * have the same `updated_at`, and a first review fails if another one created the row.
+   *
+   * @returns The saved state, or null if the highlight was graded elsewhere in the meantime
+   */
+  async saveReview(
+    highlightId: string,
+    grade: ReviewGrade,
+    schedule: ScheduledReview,
+    previous: HighlightReviewModel | null
+  ): Promise<HighlightReviewModel | null> {
+    const userId = await this.getUserId();
+
+    const values = {
+      ease_factor: schedule.easeFactor,
+      interval_days: schedule.intervalDays,
+      repetitions: schedule.repetitions,
+      review_count: (previous?.review_count ?? 0) + 1,
+      due_at: schedule.dueAt,
+      suspended: schedule.suspended,
+      last_grade: grade,
+      last_reviewed_at: new Date().toISOString()
+    };
+
+    if (!previous) {
+      const { data, error } = await this.client
+        .from('highlight_reviews')
+        .insert({ user_id: userId, highlight_id: highlightId, ...values })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') return null; // Unique violation: reviewed in another tab
+        throw new DatabaseError(`Error saving review for highlight ${highlightId}`, error);
+      }
+
+      return data as HighlightReviewModel;
+    }
+
+    const { data, error } = await this.client
+      .from('highlight_reviews')
+      .update(values)
+      .eq('id', previous.id)
+      .eq('user_id', userId)
+      .eq('updated_at', previous.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Error saving review for highlight ${highlightId}`, error);
+    }
+
+    return data as HighlightReviewModel | null;
+  }
+
+  /**
+   * Map a get_review_queue row to the domain model
+   */
+  private mapQueueItem(row: any): ReviewQueueItem {
+    return {
+      highlightId: row.highlight_id,
+      bookId: row.book_id,
+      text: row.rw_text,
+      note: row.rw_note,
+      highlightedAt: row.rw_highlighted_at,
+      bookRwId: row.book_rw_id,
+      bookTitle: row.book_title,
+      bookAuthor: row.book_author,
+      bookCoverImageUrl: row.book_cover_image_url,
+      isNew: row.is_new,
+      easeFactor: row.ease_factor !== null ? Number(row.ease_factor) : 2.5,
+      intervalDays: row.interval_days ?? 0,
+      repetitions: row.repetitions ?? 0,
+      reviewCount: row.review_count ?? 0,
+      lastReviewedAt: row.last_reviewed_at
+    };
+  }
+}
@@ -116,6 +116,78 @@ export class SparksRepository extends BaseRepository<SparkModel> {
     });
   }
 
+  /**
+   * Find the current user's spark with a given dedupe hash
+   */
+  async getSparkByMd5Uid(md5Uid: string): Promise<SparkWithRelations | null> {
+    const userId = await this.getUserId();
+    
+    const { data, error } = await this.client
+      .from('sparks')
+      .select(`
+        id, 
+        user_id,
+        body, 
+        todo_created_at, 
+        todo_id,
+        md5_uid,
+        created_at,
+        updated_at,
+        categories:spark_categories(
+          category:categories(id, name)
+        ),
+        tags:spark_tags(
+          tag:tags(id, name)
+        )
+      `)
+      .eq('md5_uid', md5Uid)
+      .eq('user_id', userId)
+      .maybeSingle();
+    
+    if (error) {
+      throw new DatabaseError('Error fetching spark by md5_uid', error);
+    }
+    
+    return data as unknown as SparkWithRelations | null;
+  }
+
+  /**
+   * Update the dedupe hash of a spark after its body changed
+   */
+  async updateSparkMd5Uid(sparkId: string, md5Uid: string): Promise<SparkModel> {
+    return this.update(sparkId, { md5_uid: md5Uid });
+  }
+
+  /**
+   * Delete a spark
+   *
+   * NOTE: Category, tag and note links are removed by ON DELETE CASCADE.
+   */
+  async deleteSpark(sparkId: string): Promise<void> {
+    return this.delete(sparkId);
+  }
+
+  /**
+   * Search sparks by body text
+   */
+  async searchSparks(query: string, limit: number = 5): Promise<Pick<SparkModel, 'id' | 'body' | 'created_at'>[]> {
+    const userId = await this.getUserId();
+    
+    const { data, error } = await this.client
+      .from('sparks')
+      .select('id, body, created_at')
+      .eq('user_id', userId)
+      .ilike('body', this.toSearchPattern(query))
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) {
+      throw new DatabaseError('Error searching sparks', error);
+    }
+    
+    return data || [];
+  }
+
   /**
    * Map a database spark model with relations to the domain model
    */
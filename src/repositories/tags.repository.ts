@@ -42,9 +42,10 @@ export class TagsRepository extends BaseRepository<TagModel> {
 
   /**
    * Get all tags for the current user
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async getTags(): Promise<TagModel[]> {
-    const userId = await this.getUserId();
+  async getTags(overrideUserId?: string): Promise<TagModel[]> {
+    const userId = overrideUserId || await this.getUserId();
     
     const { data, error } = await this.client
       .from('tags')
@@ -59,6 +60,27 @@ export class TagsRepository extends BaseRepository<TagModel> {
     return data;
   }
 
+  /**
+   * Search tags by name
+   */
+  async searchTags(query: string, limit: number = 5): Promise<TagModel[]> {
+    const userId = await this.getUserId();
+    
+    const { data, error } = await this.client
+      .from('tags')
+      .select('*')
+      .eq('user_id', userId)
+      .ilike('name', this.toSearchPattern(query))
+      .order('name', { ascending: true })
+      .limit(limit);
+    
+    if (error) {
+      throw new DatabaseError('Error searching tags', error);
+    }
+    
+    return data || [];
+  }
+
   /**
    * Get a tag by ID
    */
@@ -83,10 +105,11 @@ export class TagsRepository extends BaseRepository<TagModel> {
   }
 
   /**
-   * Get a tag by name
+   * Get one of the user's tags by name
+   * @param overrideUserId Optional user ID for server-side calls without a session
    */
-  async getTagByName(name: string): Promise<TagModel | null> {
-    const userId = await this.getUserId();
+  async getTagByName(name: string, overrideUserId?: string): Promise<TagModel | null> {
+    const userId = overrideUserId || await this.getUserId();
     
     // Standardize the name to match how it would be stored in the database
     const standardizedName = name.trim().toLowerCase().replace(/\s+/g, '-');
@@ -140,7 +163,10 @@ export class TagsRepository extends BaseRepository<TagModel> {
   }
 
   /**
-   * Update an existing tag
+   * Rename a tag
+   *
+   * NOTE: The name is standardized like in createTag. A name another tag already
+   * has is rejected; merge the two tags instead.
    */
   async updateTag(
     tagId: string, 
@@ -151,10 +177,20 @@ export class TagsRepository extends BaseRepository<TagModel> {
     // Verify the tag exists and belongs to this user
     await this.verifyUserOwnership('tags', tagId, userId);
     
+    const standardizedName = updates.name.trim().toLowerCase().replace(/\s+/g, '-');
+    if (!standardizedName) {
+      throw new ValidationError('Tag name cannot be empty');
+    }
+    
+    const existingTag = await this.getTagByName(standardizedName);
+    if (existingTag && existingTag.id !== tagId) {
+      throw new ValidationError(`A tag named "${existingTag.name}" already exists. Merge them instead.`);
+    }
+    
     const { data, error } = await this.client
       .from('tags')
       .update({
-        name: updates.name,
+        name: standardizedName,
         updated_at: new Date().toISOString()
       })
       .eq('id', tagId)
@@ -193,6 +229,75 @@ export class TagsRepository extends BaseRepository<TagModel> {
     }
   }
 
+  /**
+   * Delete several tags and all their links at once
+   */
+  async deleteTags(tagIds: string[]): Promise<void> {
+    if (tagIds.length === 0) {
+      return;
+    }
+    
+    const userId = await this.getUserId();
+    
+    const { data: owned, error: ownedError } = await this.client
+      .from('tags')
+      .select('id')
+      .in('id', tagIds)
+      .eq('user_id', userId);
+    
+    if (ownedError) {
+      throw new DatabaseError('Error checking tags to delete', ownedError);
+    }
+    
+    if ((owned || []).length !== new Set(tagIds).size) {
+      throw new ValidationError('Some tags were not found');
+    }
+    
+    for (const type of ['book', 'highlight', 'spark'] as ResourceType[]) {
+      const { junctionTable } = this.getJunctionInfo(type);
+      
+      const { error } = await this.client
+        .from(junctionTable)
+        .delete()
+        .in('tag_id', tagIds);
+      
+      if (error) {
+        throw new DatabaseError(`Error removing tag relations from ${junctionTable}`, error);
+      }
+    }
+    
+    const { error } = await this.client
+      .from('tags')
+      .delete()
+      .in('id', tagIds)
+      .eq('user_id', userId);
+    
+    if (error) {
+      throw new DatabaseError('Error deleting tags', error);
+    }
+  }
+
+  /**
+   * Merge tags into a target tag
+   *
+   * Links are moved and deduplicated by the merge_tags database function, which
+   * also re-points pending automation actions and rules.
+   *
+   * @returns The number of links moved to the target
+   */
+  async mergeTags(sourceIds: string[], targetId: string): Promise<number> {
+    const { data, error } = await this.client.rpc('merge_tags', {
+      source_ids: sourceIds,
+      target_id: targetId
+    });
+    
+    if (error) {
+      throw new DatabaseError(`Error merging tags into ${targetId}`, error);
+    }
+    
+    return data ?? 0;
+  }
+
   /**
    * Get all tags for a resource
    */
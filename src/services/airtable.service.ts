@@ -6,7 +6,6 @@ import { handleServiceError, handleServiceItemError } from '@/lib/errors';
  */
 export interface AirtableImportData {
   userId: string;
-  apiKey: string;
   baseId: string;
   tableId: string;
 }
@@ -54,16 +53,16 @@ export const airtableService = {
   
   /**
    * Prepare Airtable import data
+   *
+   * NOTE: The token is not part of it; the function resolves it server-side
    */
   prepareImportData(
     userId: string, 
-    apiKey: string, 
     baseId: string, 
     tableId: string
   ): AirtableImportData {
     return {
       userId,
-      apiKey,
       baseId,
       tableId
     };
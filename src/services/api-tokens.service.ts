@@ -0,0 +1,66 @@
+import { getRepositories } from '@/repositories';
+import { handleServiceError, handleServiceItemError, ValidationError } from '@/lib/errors';
+import { API_TOKEN_SCOPES } from '@/lib/api-tokens';
+import { CreatePersonalAccessTokenInput, PersonalAccessTokenDomain } from '@/lib/types';
+
+/**
+ * A token that was just created: `token` is shown to the user once and never again
+ */
+export interface CreatedApiToken {
+  token: string;
+  apiToken: PersonalAccessTokenDomain;
+}
+
+/**
+ * Service for personal access tokens used with the public REST API
+ */
+export const apiTokensService = {
+  /**
+   * Get the current user's tokens, including revoked ones
+   */
+  async getTokens(): Promise<PersonalAccessTokenDomain[]> {
+    try {
+      return await getRepositories().apiTokens.getTokens();
+    } catch (error) {
+      return handleServiceError<PersonalAccessTokenDomain>(error, 'Error in apiTokensService.getTokens');
+    }
+  },
+
+  /**
+   * Create a token with the given scopes
+   */
+  async createToken(input: CreatePersonalAccessTokenInput): Promise<CreatedApiToken | null> {
+    try {
+      if (!input.name.trim()) {
+        throw new ValidationError('Token name is required');
+      }
+
+      if (input.scopes.length === 0) {
+        throw new ValidationError('Choose at least one scope');
+      }
+
+      if (input.scopes.some(scope => !API_TOKEN_SCOPES.some(s => s.scope === scope))) {
+        throw new ValidationError('Unknown token scope');
+      }
+
+      if (input.expiresAt && new Date(input.expiresAt).getTime() <= Date.now()) {
+        throw new ValidationError('Expiry date must be in the future');
+      }
+
+      return await getRepositories().apiTokens.createToken(input);
+    } catch (error) {
+      return handleServiceItemError<CreatedApiToken>(error, 'Error in apiTokensService.createToken');
+    }
+  },
+
+  /**
+   * Revoke a token; requests using it fail from then on
+   */
+  async revokeToken(tokenId: string): Promise<PersonalAccessTokenDomain | null> {
+    try {
+      return await getRepositories().apiTokens.revokeToken(tokenId);
+    } catch (error) {
+      return handleServiceItemError<PersonalAccessTokenDomain>(error, `Error in apiTokensService.revokeToken for token ${tokenId}`);
+    }
+  }
+};
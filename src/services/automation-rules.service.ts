@@ -0,0 +1,131 @@
+import { getRepositories } from '@/repositories';
+import { handleServiceError, handleServiceItemError, ValidationError } from '@/lib/errors';
+import {
+  AutomationRule,
+  AutomationRuleInput,
+  CategorizationResult,
+  createRuleAutomation,
+  evaluateRuleAgainstLibrary,
+  RuleSubject,
+  validateRule
+} from '@/lib/categorization';
+
+// A preview reads the library in the browser, so it stops after this many resources
+export const RULE_PREVIEW_LIMIT = 5000;
+const RULE_PREVIEW_SAMPLES = 25;
+
+/**
+ * What a rule would do if it ran against the library now
+ *
+ * @property truncated - The library has more resources than RULE_PREVIEW_LIMIT
+ */
+export interface RulePreview {
+  scanned: number;
+  matchedCount: number;
+  alreadyLabelled: number;
+  actionsCount: number;
+  samples: RuleSubject[];
+  truncated: boolean;
+}
+
+/**
+ * Service for user-defined automation rules
+ */
+export const automationRulesService = {
+  /**
+   * Get the current user's rules
+   */
+  async getRules(): Promise<AutomationRule[]> {
+    try {
+      return await getRepositories().automationRules.getRules();
+    } catch (error) {
+      return handleServiceError<AutomationRule>(error, 'Error in automationRulesService.getRules');
+    }
+  },
+
+  /**
+   * Create a rule, or update it when a rule ID is given
+   */
+  async saveRule(input: AutomationRuleInput, ruleId?: string): Promise<AutomationRule | null> {
+    try {
+      const problem = validateRule(input);
+      if (problem) {
+        throw new ValidationError(problem);
+      }
+
+      const repo = getRepositories().automationRules;
+      return ruleId ? await repo.updateRule(ruleId, input) : await repo.createRule(input);
+    } catch (error) {
+      return handleServiceItemError<AutomationRule>(error, 'Error in automationRulesService.saveRule');
+    }
+  },
+
+  /**
+   * Turn a rule on or off without editing it
+   */
+  async setRuleEnabled(ruleId: string, enabled: boolean): Promise<AutomationRule | null> {
+    try {
+      return await getRepositories().automationRules.updateRule(ruleId, { enabled });
+    } catch (error) {
+      return handleServiceItemError<AutomationRule>(error, `Error in automationRulesService.setRuleEnabled for rule ${ruleId}`);
+    }
+  },
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(ruleId: string): Promise<boolean> {
+    try {
+      await getRepositories().automationRules.deleteRule(ruleId);
+      return true;
+    } catch (error) {
+      console.error(`Error in automationRulesService.deleteRule for rule ${ruleId}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * Test a rule, saved or not, against the library without changing anything
+   */
+  async previewRule(rule: AutomationRuleInput & { id?: string }): Promise<RulePreview | null> {
+    try {
+      const problem = validateRule(rule);
+      if (problem) {
+        throw new ValidationError(problem);
+      }
+
+      const evaluation = await evaluateRuleAgainstLibrary(rule, getRepositories(), {
+        maxScanned: RULE_PREVIEW_LIMIT
+      });
+
+      return {
+        scanned: evaluation.scanned,
+        matchedCount: evaluation.matched.length,
+        alreadyLabelled: evaluation.alreadyLabelled,
+        actionsCount: evaluation.actions.length,
+        samples: evaluation.matched.slice(0, RULE_PREVIEW_SAMPLES),
+        truncated: evaluation.scanned >= RULE_PREVIEW_LIMIT
+      };
+    } catch (error) {
+      return handleServiceItemError<RulePreview>(error, 'Error in automationRulesService.previewRule');
+    }
+  },
+
+  /**
+   * Run a saved rule against the whole library now instead of waiting for the next sync
+   *
+   * @returns The created automation, or null if nothing matched or it failed
+   */
+  async runRuleOnLibrary(rule: AutomationRule): Promise<CategorizationResult | null> {
+    try {
+      const repos = getRepositories();
+      const evaluation = await evaluateRuleAgainstLibrary(rule, repos, { maxScanned: RULE_PREVIEW_LIMIT });
+      const result = await createRuleAutomation(rule, evaluation);
+
+      await repos.automationRules.markRuleRun(rule.id);
+      return result;
+    } catch (error) {
+      return handleServiceItemError<CategorizationResult>(error, `Error in automationRulesService.runRuleOnLibrary for rule ${rule.id}`);
+    }
+  }
+};
@@ -0,0 +1,77 @@
+import { getSupabaseBrowserClient } from '@/lib/supabase';
+import { handleServiceItemError } from '@/lib/errors';
+import type { RestoreReport } from '@/lib/backup/format';
+
+async function getSession() {
+  const supabase = getSupabaseBrowserClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+  return session;
+}
+
+/**
+ * Service for JSON backup and restore of the user's library
+ */
+export const backupService = {
+  /**
+   * Download a JSON backup of the current user's library
+   *
+   * @returns The backup file, ready to hand to the browser as a download
+   */
+  async downloadBackup(includeEmbeddings: boolean = false): Promise<{ blob: Blob; fileName: string } | null> {
+    try {
+      const session = await getSession();
+
+      const response = await fetch('/api/backup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ userId: session.user.id, includeEmbeddings })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Server returned status ${response.status}`);
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'spark-backup.json';
+
+      return { blob: await response.blob(), fileName };
+    } catch (error) {
+      return handleServiceItemError(error, 'Error in backupService.downloadBackup');
+    }
+  },
+
+  /**
+   * Restore a backup file into the current user's library
+   *
+   * USE WHEN: restoring from a file picked by the user. Run with `dryRun` first to show
+   * what would be created and which records conflict.
+   *
+   * @throws Error with the server's message when the file is invalid or the restore fails
+   */
+  async restoreBackup(archive: unknown, dryRun: boolean): Promise<RestoreReport> {
+    const session = await getSession();
+
+    const response = await fetch('/api/backup/restore', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ userId: session.user.id, archive, dryRun })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `Server returned status ${response.status}`);
+    }
+
+    return result.data as RestoreReport;
+  }
+};
@@ -4,6 +4,7 @@ import { TagDomain } from '@/repositories/tags.repository';
 import { Resource, ResourceType, Category, Tag, CategorizationAutomation, CategorizationAction, CategorizationResult, CategoryWithUsage, TagWithUsage } from '@/lib/categorization/types';
 import { CategoryService, TagService, AutomationService } from '@/lib/categorization/services';
 import { handleServiceError, handleServiceItemError, ValidationError } from '@/lib/errors';
+import { integrationsService } from './integrations.service';
 
 /**
  * Service for managing categories
@@ -255,6 +256,10 @@ export const tagService: TagService = {
       }
       
       await repo.addTagToResource(resource, tagId);
+
+      if (resource.type === 'highlight') {
+        void integrationsService.queueReadwiseWriteBack(resource.id, { addTagIds: [tagId] });
+      }
     } catch (error) {
       if (error instanceof ValidationError) {
         throw error;
@@ -271,6 +276,10 @@ export const tagService: TagService = {
       const repo = getRepositories().tags;
       
       await repo.removeTagFromResource(resource, tagId);
+
+      if (resource.type === 'highlight') {
+        void integrationsService.queueReadwiseWriteBack(resource.id, { removeTagIds: [tagId] });
+      }
     } catch (error) {
       console.error(`Error in tagService.removeTagFromResource for resource ${resource.id} and tag ${tagId}:`, error);
     }
@@ -0,0 +1,91 @@
+import { getRepositories } from '@/repositories';
+import { handleServiceError, handleServiceItemError } from '@/lib/errors';
+import { getSupabaseBrowserClient } from '@/lib/supabase';
+import { ExportDomain } from '@/lib/types';
+
+async function postWithSession(url: string, body: Record<string, unknown>): Promise<any> {
+  const supabase = getSupabaseBrowserClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify({ userId: session.user.id, ...body })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Server returned status ${response.status}`);
+  }
+
+  return result;
+}
+
+/**
+ * Service for exporting the library out of Spark
+ */
+export const exportsService = {
+  /**
+   * Get the most recent exports for the current user
+   */
+  async getRecentExports(limit: number = 10): Promise<ExportDomain[]> {
+    try {
+      return await getRepositories().exports.getRecentExports(limit);
+    } catch (error) {
+      return handleServiceError<ExportDomain>(error, 'Error in exportsService.getRecentExports');
+    }
+  },
+
+  /**
+   * Validate export trigger data
+   */
+  validateExportData(userId: string, exportId: string): { valid: boolean; error?: string } {
+    if (!userId) {
+      return { valid: false, error: 'User ID is required' };
+    }
+
+    if (!exportId) {
+      return { valid: false, error: 'Export ID is required' };
+    }
+
+    return { valid: true };
+  },
+
+  /**
+   * Start a Markdown (Obsidian vault) export
+   *
+   * The export row is created first so the UI can show it as pending while the job runs.
+   *
+   * @param uploadToExternal - Also upload the archive to the configured S3 bucket
+   */
+  async startMarkdownExport(uploadToExternal: boolean = false): Promise<ExportDomain | null> {
+    try {
+      const created = await getRepositories().exports.createMarkdownExport();
+      await postWithSession('/api/inngest/trigger-export-markdown-vault', {
+        exportId: created.id,
+        uploadToExternal
+      });
+      return created;
+    } catch (error) {
+      return handleServiceItemError<ExportDomain>(error, 'Error in exportsService.startMarkdownExport');
+    }
+  },
+
+  /**
+   * Get a short-lived download URL for a completed export
+   */
+  async getDownloadUrl(exportId: string): Promise<string | null> {
+    try {
+      const result = await postWithSession('/api/exports/download', { exportId });
+      return result.data?.url ?? null;
+    } catch (error) {
+      return handleServiceItemError<string>(error, `Error in exportsService.getDownloadUrl for export ${exportId}`);
+    }
+  }
+};
@@ -1,6 +1,7 @@
 import { getRepositories } from '@/repositories';
-import { FunctionLogModel, FunctionLogsFilter } from '@/lib/types';
+import { FunctionLogModel, FunctionLogStatsRow, FunctionLogStepModel, FunctionLogsFilter } from '@/lib/types';
 import { handleServiceError } from '@/lib/errors';
+import { getSupabaseBrowserClient } from '@/lib/supabase';
 import { BaseService } from './base.service';
 import { FunctionLogsRepository } from '@/repositories/function-logs.repository';
 
@@ -27,6 +28,58 @@ class FunctionLogsService extends BaseService<FunctionLogModel, FunctionLogsRepo
     }
   }
 
+  /**
+   * Get a run with its step timeline
+   */
+  async getFunctionLogDetail(
+    logId: string
+  ): Promise<{ log: FunctionLogModel | null, steps: FunctionLogStepModel[] }> {
+    try {
+      return await this.repository.getFunctionLogDetail(logId);
+    } catch (error) {
+      console.error('Error in FunctionLogsService.getFunctionLogDetail:', error);
+      return { log: null, steps: [] };
+    }
+  }
+
+  /**
+   * Get per-function run statistics over the last `days` days
+   */
+  async getFunctionLogStats(days: number = 14): Promise<FunctionLogStatsRow[]> {
+    try {
+      return await this.repository.getFunctionLogStats(days);
+    } catch (error) {
+      return handleServiceError<FunctionLogStatsRow>(error, 'Error in FunctionLogsService.getFunctionLogStats');
+    }
+  }
+
+  /**
+   * Send a run's triggering event again, so the function runs with the same input
+   *
+   * @throws When the run can't be re-run, with the server's reason
+   */
+  async rerunFunction(logId: string): Promise<void> {
+    const supabase = getSupabaseBrowserClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch('/api/function-logs/rerun', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ userId: session.user.id, logId })
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Server returned status ${response.status}`);
+    }
+  }
+
   /**
    * Format date for display
    */
@@ -1,40 +1,106 @@
+import { getRepositories } from '@/repositories';
 import { handleServiceError, handleServiceItemError } from '@/lib/errors';
+import { HeaderSearchResult } from '@/lib/types';
+
+/**
+ * Shorten long text for single-line display in search results
+ */
+function truncate(text: string | null | undefined, length: number = 120): string {
+  const singleLine = (text || '').replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
 
 /**
  * Service for handling header-related operations
  */
 export const headerService = {
   /**
-   * Perform a search query across the application
-   * This is a placeholder for future search functionality
+   * Search books, highlights, sparks, notes, categories and tags by text
+   * 
+   * Results are ordered by type (books first, tags last) so the command palette
+   * can group them without re-sorting.
+   * 
+   * @param query - Free-text query
+   * @param limitPerType - Maximum results per entity type
    */
-  async search(query: string): Promise<{ results: any[] }> {
+  async search(query: string, limitPerType: number = 5): Promise<{ results: HeaderSearchResult[] }> {
     try {
-      // TODO: Implement actual search functionality
-      // This would connect to search repositories or external search services
-      
-      // For now, return a mock empty result
+      if (!query.trim()) {
+        return { results: [] };
+      }
+
+      const repos = getRepositories();
+
+      const [books, highlights, sparks, notes, categories, tags] = await Promise.all([
+        repos.books.searchBooks(query, limitPerType),
+        repos.highlights.searchHighlightsByText(query, limitPerType),
+        repos.sparks.searchSparks(query, limitPerType),
+        repos.notes.searchNotes(query, limitPerType),
+        repos.categories.searchCategories(query, limitPerType),
+        repos.tags.searchTags(query, limitPerType)
+      ]);
+
+      const results: HeaderSearchResult[] = [
+        ...books.map((book): HeaderSearchResult => ({
+          type: 'book',
+          id: book.id,
+          title: book.title,
+          subtitle: book.author,
+          href: `/highlights/${book.rwId}`
+        })),
+        ...highlights.map((highlight): HeaderSearchResult => ({
+          type: 'highlight',
+          id: highlight.id,
+          title: truncate(highlight.rw_text || highlight.rw_note),
+          subtitle: highlight.book?.rw_title,
+          // Highlights have no page of their own; open the book's highlights
+          href: highlight.book ? `/highlights/${highlight.book.rw_id}` : null
+        })),
+        ...sparks.map((spark): HeaderSearchResult => ({
+          type: 'spark',
+          id: spark.id,
+          title: truncate(spark.body),
+          subtitle: new Date(spark.created_at).toLocaleDateString(),
+          href: null
+        })),
+        ...notes.map((note): HeaderSearchResult => ({
+          type: 'note',
+          id: note.id,
+          title: note.title || 'Untitled note',
+          subtitle: truncate(note.content, 80),
+          href: `/notes/${note.id}`
+        })),
+        ...categories.map((category): HeaderSearchResult => ({
+          type: 'category',
+          id: category.id,
+          title: category.name,
+          href: `/category/${category.slug}`
+        })),
+        ...tags.map((tag): HeaderSearchResult => ({
+          type: 'tag',
+          id: tag.id,
+          title: tag.name,
+          href: `/tag/${encodeURIComponent(tag.name)}`
+        }))
+      ];
+
+      // Highlights without a resolvable book can't be navigated to
       return {
-        results: []
+        results: results.filter(result => result.href !== null || result.type === 'spark')
       };
     } catch (error) {
       // Since this is not returning an array but a single object,
       // use handleServiceItemError and provide a fallback
-      return handleServiceItemError<{ results: any[] }>(error, `Error in headerService.search`) || { results: [] };
+      return handleServiceItemError<{ results: HeaderSearchResult[] }>(error, `Error in headerService.search`) || { results: [] };
     }
   },
 
   /**
-   * Get user notification count
-   * This is a placeholder for future notification functionality
+   * Get the current user's unread notification count
    */
   async getNotificationCount(): Promise<number> {
     try {
-      // TODO: Implement actual notification count functionality
-      // This would connect to a notifications repository
-      
-      // For now, return a mock count of 0
-      return 0;
+      return await getRepositories().notifications.getUnreadCount();
     } catch (error) {
       console.error(`Error in headerService.getNotificationCount:`, error);
       return 0;
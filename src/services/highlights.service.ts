@@ -1,7 +1,8 @@
 import { getRepositories } from '@/repositories';
-import { HighlightDomain, CreateHighlightInput, HighlightSearchMode, HighlightSearchResult } from '@/lib/types';
+import { HighlightDomain, CreateHighlightInput, HighlightSearchMode, HighlightSearchResult, TrashedHighlight } from '@/lib/types';
 import { handleServiceError, handleServiceItemError } from '@/lib/errors';
 import { generateEmbedding } from '@/lib/openai';
+import { integrationsService } from './integrations.service';
 
 /**
  * Service for handling highlights-related operations
@@ -147,6 +148,32 @@ export const highlightsService = {
     }
   },
 
+  /**
+   * Get highlights in the trash (soft-deleted during Readwise sync or reconciliation)
+   */
+  async getDeletedHighlights(limit?: number): Promise<TrashedHighlight[]> {
+    try {
+      const repo = getRepositories().highlights;
+      return await repo.getDeletedHighlights(limit);
+    } catch (error) {
+      return handleServiceError<TrashedHighlight>(error, 'Error in highlightsService.getDeletedHighlights');
+    }
+  },
+
+  /**
+   * Restore highlights from the trash with their tags, categories and notes intact
+   *
+   * @returns IDs of the highlights that were restored
+   */
+  async restoreHighlights(highlightIds: string[]): Promise<string[]> {
+    try {
+      const repo = getRepositories().highlights;
+      return await repo.restoreHighlights(highlightIds);
+    } catch (error) {
+      return handleServiceError<string>(error, 'Error in highlightsService.restoreHighlights');
+    }
+  },
+
   /**
    * Update user note for a highlight
    */
@@ -155,6 +182,10 @@ export const highlightsService = {
       const repo = getRepositories().highlights;
       
       await repo.updateUserNote(highlightId, note);
+
+      // Opt-in push to Readwise; never blocks the local save
+      void integrationsService.queueReadwiseWriteBack(highlightId, { note: true });
+
       return true;
     } catch (error) {
       console.error(`Error in highlightsService.updateUserNote for highlight ${highlightId}:`, error);
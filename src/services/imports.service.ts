@@ -0,0 +1,45 @@
+import { getSupabaseBrowserClient } from '@/lib/supabase';
+import type { ImportFormat } from '@/lib/import/format';
+
+/**
+ * Service for importing highlights from files (Kindle clippings, CSV, JSON)
+ */
+export const importsService = {
+  /**
+   * Upload a highlights file and start its import in the background
+   *
+   * NOTE: Returns once the file is uploaded; the import summary is written to the
+   * function logs when the import finishes.
+   *
+   * @param format 'auto' guesses the format from the file name and contents
+   * @returns The format the file is imported as
+   * @throws Error with the server's message when the file is rejected
+   */
+  async uploadHighlightsFile(file: File, format: ImportFormat | 'auto' = 'auto'): Promise<ImportFormat> {
+    const supabase = getSupabaseBrowserClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const form = new FormData();
+    form.append('userId', session.user.id);
+    form.append('format', format);
+    form.append('file', file);
+
+    const response = await fetch('/api/imports', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: form
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `Server returned status ${response.status}`);
+    }
+
+    return result.data.format as ImportFormat;
+  }
+};
@@ -20,6 +20,15 @@ export { headerService } from './header.service';
 export { userSettingsService } from './user-settings.service';
 export { airtableService } from './airtable.service';
 export { notesService } from './notes.service';
+export { exportsService } from './exports.service';
+export { backupService } from './backup.service';
+export { importsService } from './imports.service';
+export { contentService } from './content.service';
+export { reviewService } from './review.service';
+export { automationRulesService } from './automation-rules.service';
+export { labelsService } from './labels.service';
+export { apiTokensService } from './api-tokens.service';
+export { notificationsService } from './notifications.service';
 
 // Re-export type interfaces from services for convenience
 export type { EnhancedSparkItem } from './sparks.service';
@@ -28,6 +37,9 @@ export type { AirtableSettings, ReadwiseSettings, ReadwiseConnectionTestData, Re
 export type { SortField, SortDirection, SortState } from './sidebar.service';
 export type { AirtableImportData } from './airtable.service';
 export type { TagMigrationData } from './categorization.service';
+export type { RulePreview } from './automation-rules.service';
+export type { CategoryRollup } from './labels.service';
+export type { CreatedApiToken } from './api-tokens.service';
 
 /**
  * Convenience bundler for all services
@@ -43,6 +55,15 @@ import { functionLogsService } from './function-logs.service';
 import { headerService } from './header.service';
 import { userSettingsService } from './user-settings.service';
 import { airtableService } from './airtable.service';
+import { exportsService } from './exports.service';
+import { backupService } from './backup.service';
+import { importsService } from './imports.service';
+import { contentService } from './content.service';
+import { reviewService } from './review.service';
+import { automationRulesService } from './automation-rules.service';
+import { labelsService } from './labels.service';
+import { apiTokensService } from './api-tokens.service';
+import { notificationsService } from './notifications.service';
 
 export const services = {
   sparks: sparksService,
@@ -55,5 +76,14 @@ export const services = {
   functionLogs: functionLogsService,
   header: headerService,
   userSettings: userSettingsService,
-  airtable: airtableService
+  airtable: airtableService,
+  exports: exportsService,
+  backup: backupService,
+  imports: importsService,
+  content: contentService,
+  review: reviewService,
+  automationRules: automationRulesService,
+  labels: labelsService,
+  apiTokens: apiTokensService,
+  notifications: notificationsService
 }; 
\ No newline at end of file
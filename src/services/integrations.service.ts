@@ -1,21 +1,32 @@
 import { getRepositories } from '@/repositories';
 import { handleServiceItemError } from '@/lib/errors';
+import { getSupabaseBrowserClient } from '@/lib/supabase';
+import { AirtableFieldMapping, IntegrationProvider, ReadwiseWriteBackChanges } from '@/lib/types';
+import type { AirtableTableSchema } from '@/lib/airtable';
 
 /**
  * Interface for Airtable settings
+ *
+ * NOTE: The token is write-only from the browser; only whether one is stored and its
+ * last characters come back.
  */
 export interface AirtableSettings {
-  apiKey: string | null;
+  isConnected: boolean;
+  tokenHint: string | null;
   baseId: string | null;
   tableId: string | null;
+  fieldMapping?: AirtableFieldMapping | null;
 }
 
 /**
  * Interface for Readwise settings
  */
 export interface ReadwiseSettings {
-  accessToken: string | null;
+  isConnected: boolean;
+  tokenHint: string | null;
   lastSync: string | null;
+  writeBack?: boolean;
+  webhookSecret?: string | null;
 }
 
 /**
@@ -23,7 +34,6 @@ export interface ReadwiseSettings {
  */
 export interface ReadwiseConnectionTestData {
   userId: string;
-  apiKey: string;
 }
 
 /**
@@ -31,10 +41,36 @@ export interface ReadwiseConnectionTestData {
  */
 export interface ReadwiseSyncData {
   userId: string;
-  apiKey: string;
   fullSync?: boolean;
 }
 
+/**
+ * POST to an integrations API route as the signed-in user
+ */
+async function postIntegrationsApi(url: string, body: Record<string, unknown>) {
+  const supabase = getSupabaseBrowserClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify({ userId: session.user.id, ...body })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Server returned status ${response.status}`);
+  }
+
+  return result;
+}
+
 /**
  * Service for managing integrations
  */
@@ -48,7 +84,8 @@ export const integrationsService = {
       return await repo.getAirtableSettings();
     } catch (error) {
       return handleServiceItemError<AirtableSettings>(error, 'Error in integrationsService.getAirtableSettings') || {
-        apiKey: null,
+        isConnected: false,
+        tokenHint: null,
         baseId: null,
         tableId: null
       };
@@ -62,6 +99,7 @@ export const integrationsService = {
     apiKey?: string;
     baseId?: string;
     tableId?: string;
+    fieldMapping?: AirtableFieldMapping;
   }): Promise<boolean> {
     try {
       const repo = getRepositories().integrations;
@@ -81,7 +119,8 @@ export const integrationsService = {
       return await repo.getReadwiseSettings();
     } catch (error) {
       return handleServiceItemError<ReadwiseSettings>(error, 'Error in integrationsService.getReadwiseSettings') || {
-        accessToken: null,
+        isConnected: false,
+        tokenHint: null,
         lastSync: null
       };
     }
@@ -93,6 +132,8 @@ export const integrationsService = {
   async updateReadwiseSettings(settings: {
     accessToken?: string;
     lastSync?: string;
+    writeBack?: boolean;
+    webhookSecret?: string;
   }): Promise<boolean> {
     try {
       const repo = getRepositories().integrations;
@@ -103,13 +144,52 @@ export const integrationsService = {
     }
   },
 
+  /**
+   * Create a new secret for the Readwise webhook
+   *
+   * NOTE: The old secret stops working right away, so the webhook in Readwise has to be updated.
+   *
+   * @returns The new secret, or null if it couldn't be saved
+   */
+  async regenerateReadwiseWebhookSecret(): Promise<string | null> {
+    const webhookSecret = crypto.randomUUID();
+    const saved = await this.updateReadwiseSettings({ webhookSecret });
+    return saved ? webhookSecret : null;
+  },
+
+  /**
+   * Check the stored token of an integration against the provider
+   *
+   * USE WHEN: The token was saved earlier; the browser can't read it back to test it itself.
+   *
+   * @param options - Airtable base and table to try, defaulting to the saved ones
+   * @throws Error with the server's message when the test couldn't run
+   */
+  async testStoredConnection(
+    provider: IntegrationProvider,
+    options: { baseId?: string; tableId?: string } = {}
+  ): Promise<{ connected: boolean; message: string }> {
+    const result = await postIntegrationsApi('/api/integrations/test-connection', { provider, ...options });
+    return result.data;
+  },
+
+  /**
+   * Read the fields of an Airtable table with the stored token
+   *
+   * @throws Error with Airtable's message, e.g. when the token lacks the schema.bases:read scope
+   */
+  async getAirtableTableSchema(baseId: string, tableId: string): Promise<AirtableTableSchema> {
+    const result = await postIntegrationsApi('/api/integrations/airtable-schema', { baseId, tableId });
+    return result.data.table;
+  },
+
   /**
    * Check if Airtable integration is configured
    */
   async isAirtableConfigured(): Promise<boolean> {
     try {
       const settings = await this.getAirtableSettings();
-      return !!(settings.apiKey && settings.baseId && settings.tableId);
+      return !!(settings.isConnected && settings.baseId && settings.tableId);
     } catch (error) {
       console.error('Error in integrationsService.isAirtableConfigured:', error);
       return false;
@@ -122,7 +202,7 @@ export const integrationsService = {
   async isReadwiseConfigured(): Promise<boolean> {
     try {
       const settings = await this.getReadwiseSettings();
-      return !!settings.accessToken;
+      return settings.isConnected;
     } catch (error) {
       console.error('Error in integrationsService.isReadwiseConfigured:', error);
       return false;
@@ -171,14 +251,14 @@ export const integrationsService = {
   
   /**
    * Prepare Readwise connection test data
+   *
+   * NOTE: The token is not part of it; the function resolves it server-side
    */
   prepareReadwiseConnectionData(
-    userId: string, 
-    apiKey: string
+    userId: string
   ): ReadwiseConnectionTestData {
     return {
-      userId,
-      apiKey
+      userId
     };
   },
 
@@ -211,19 +291,94 @@ export const integrationsService = {
   
   /**
    * Prepare Readwise sync data
+   *
+   * NOTE: The token is not part of it; the function resolves it server-side
    */
   prepareReadwiseSyncData(
     userId: string, 
-    apiKey: string,
     fullSync: boolean = false
   ): ReadwiseSyncData {
     return {
       userId,
-      apiKey,
       fullSync
     };
   },
 
+  /**
+   * Validate a Readwise write-back request
+   */
+  validateReadwiseWriteBackData(
+    userId: string,
+    highlightId: string,
+    changes: ReadwiseWriteBackChanges
+  ): { valid: boolean; error?: string } {
+    if (!userId) {
+      return { valid: false, error: 'User ID is required' };
+    }
+
+    if (!highlightId) {
+      return { valid: false, error: 'Highlight ID is required' };
+    }
+
+    const tagIds = [...(changes.addTagIds || []), ...(changes.removeTagIds || [])];
+    if (!tagIds.every(id => typeof id === 'string' && id.length > 0)) {
+      return { valid: false, error: 'Tag IDs must be non-empty strings' };
+    }
+
+    if (!changes.note && tagIds.length === 0) {
+      return { valid: false, error: 'Nothing to write back' };
+    }
+
+    return { valid: true };
+  },
+
+  /**
+   * Queue a push of local highlight edits to Readwise, if the user opted in
+   *
+   * USE WHEN: a highlight's user note or tags change in the browser. Fire-and-forget:
+   * failures are logged and never block the local save.
+   *
+   * @returns Whether a write-back job was queued
+   */
+  async queueReadwiseWriteBack(highlightId: string, changes: ReadwiseWriteBackChanges): Promise<boolean> {
+    // Server-side callers (automations, imports) don't write back
+    if (typeof window === 'undefined') {
+      return false;
+    }
+
+    try {
+      const settings = await this.getReadwiseSettings();
+      if (!settings.writeBack || !settings.isConnected) {
+        return false;
+      }
+
+      const supabase = getSupabaseBrowserClient();
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        return false;
+      }
+
+      const response = await fetch('/api/inngest/trigger-readwise-write-back', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ userId: session.user.id, highlightId, ...changes })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Server returned status ${response.status}`);
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error in integrationsService.queueReadwiseWriteBack for highlight ${highlightId}:`, error);
+      return false;
+    }
+  },
+
   /**
    * Trigger Airtable import
    */
@@ -0,0 +1,186 @@
+import { getRepositories } from '@/repositories';
+import { handleServiceItemError, ValidationError } from '@/lib/errors';
+import { Category, CategoryWithUsage, Resource, Tag, TagWithUsage } from '@/lib/categorization/types';
+
+/**
+ * A category together with its subcategories and the resources of the whole subtree
+ */
+export interface CategoryRollup {
+  category: Category;
+  parent: Category | null;
+  subcategories: Category[];
+  resources: Resource[];
+}
+
+/**
+ * Service for managing categories and tags in bulk: rename, merge, delete and nesting
+ *
+ * NOTE: Errors a user can fix (name taken, nesting loop) are rethrown as
+ * ValidationError so the UI can show the message; everything else returns false/null.
+ */
+export const labelsService = {
+  /**
+   * Get all categories and tags with usage counts
+   */
+  async getLabelsWithUsage(): Promise<{ categories: CategoryWithUsage[]; tags: TagWithUsage[] }> {
+    try {
+      const repos = getRepositories();
+      const [categories, tags] = await Promise.all([
+        repos.categories.getCategoriesWithUsage(),
+        repos.tags.getTagsWithUsage()
+      ]);
+
+      return {
+        categories: categories.map(category => repos.categories.mapToDomainWithUsage(category)),
+        tags: tags.map(tag => repos.tags.mapToDomainWithUsage(tag))
+      };
+    } catch (error) {
+      console.error('Error in labelsService.getLabelsWithUsage:', error);
+      return { categories: [], tags: [] };
+    }
+  },
+
+  /**
+   * Rename a category; its slug is regenerated from the new name
+   */
+  async renameCategory(categoryId: string, name: string): Promise<Category | null> {
+    try {
+      const repo = getRepositories().categories;
+      return repo.mapToDomain(await repo.updateCategory(categoryId, { name }));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      return handleServiceItemError<Category>(error, `Error in labelsService.renameCategory for category ${categoryId}`);
+    }
+  },
+
+  /**
+   * Nest a category under another one, or move it to the top level with null
+   */
+  async setCategoryParent(categoryId: string, parentId: string | null): Promise<Category | null> {
+    try {
+      const repo = getRepositories().categories;
+      return repo.mapToDomain(await repo.updateCategory(categoryId, { parentId }));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      return handleServiceItemError<Category>(error, `Error in labelsService.setCategoryParent for category ${categoryId}`);
+    }
+  },
+
+  /**
+   * Rename a tag
+   */
+  async renameTag(tagId: string, name: string): Promise<Tag | null> {
+    try {
+      const repo = getRepositories().tags;
+      return repo.mapToDomain(await repo.updateTag(tagId, { name }));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      return handleServiceItemError<Tag>(error, `Error in labelsService.renameTag for tag ${tagId}`);
+    }
+  },
+
+  /**
+   * Merge categories into one of them
+   *
+   * @returns The number of links moved, or null if the merge failed
+   */
+  async mergeCategories(sourceIds: string[], targetId: string): Promise<number | null> {
+    try {
+      const sources = sourceIds.filter(id => id !== targetId);
+      if (sources.length === 0) {
+        throw new ValidationError('Choose at least one other category to merge');
+      }
+
+      return await getRepositories().categories.mergeCategories(sources, targetId);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      return handleServiceItemError<number>(error, `Error in labelsService.mergeCategories into ${targetId}`);
+    }
+  },
+
+  /**
+   * Merge tags into one of them
+   *
+   * @returns The number of links moved, or null if the merge failed
+   */
+  async mergeTags(sourceIds: string[], targetId: string): Promise<number | null> {
+    try {
+      const sources = sourceIds.filter(id => id !== targetId);
+      if (sources.length === 0) {
+        throw new ValidationError('Choose at least one other tag to merge');
+      }
+
+      return await getRepositories().tags.mergeTags(sources, targetId);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      return handleServiceItemError<number>(error, `Error in labelsService.mergeTags into ${targetId}`);
+    }
+  },
+
+  /**
+   * Delete categories and their links; subcategories move to the top level
+   */
+  async deleteCategories(categoryIds: string[]): Promise<boolean> {
+    try {
+      await getRepositories().categories.deleteCategories(categoryIds);
+      return true;
+    } catch (error) {
+      console.error('Error in labelsService.deleteCategories:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Delete tags and their links
+   */
+  async deleteTags(tagIds: string[]): Promise<boolean> {
+    try {
+      await getRepositories().tags.deleteTags(tagIds);
+      return true;
+    } catch (error) {
+      console.error('Error in labelsService.deleteTags:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Load a category by slug with its subcategories and the resources of every
+   * category below it
+   *
+   * @param includeSubcategories false limits resources to the category itself
+   */
+  async getCategoryRollup(slug: string, includeSubcategories: boolean = true): Promise<CategoryRollup | null> {
+    try {
+      const repo = getRepositories().categories;
+
+      const categories = (await repo.getCategories()).map(category => repo.mapToDomain(category));
+      const category = categories.find(c => c.slug === slug);
+      if (!category) {
+        return null;
+      }
+
+      const descendantIds = includeSubcategories ? await repo.getDescendantCategoryIds(category.id) : [];
+      const resources = await repo.getResourcesForCategories([category.id, ...descendantIds]);
+      const userId = (await getRepositories().auth.getSession())?.user?.id || '';
+
+      return {
+        category,
+        parent: categories.find(c => c.id === category.parentId) || null,
+        subcategories: categories.filter(c => c.parentId === category.id),
+        resources: resources.map(resource => ({ ...resource, userId }))
+      };
+    } catch (error) {
+      return handleServiceItemError<CategoryRollup>(error, `Error in labelsService.getCategoryRollup for ${slug}`);
+    }
+  }
+};
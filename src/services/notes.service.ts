@@ -1,5 +1,5 @@
 import { getRepositories } from '@/repositories';
-import { NoteDomain, CreateNoteInput } from '@/lib/types';
+import { NoteDomain, CreateNoteInput, NoteLinkDomain, NoteLinkTargetType } from '@/lib/types';
 import { handleServiceError, handleServiceItemError } from '@/lib/errors';
 
 /**
@@ -63,6 +63,28 @@ class NotesService {
     }
   }
 
+  /**
+   * Get the note links touching a note, book, highlight or spark
+   */
+  async getLinksFor(type: NoteLinkTargetType, id: string): Promise<NoteLinkDomain[]> {
+    try {
+      return await getRepositories().notes.getNoteLinks({ type, id });
+    } catch (error) {
+      return handleServiceError<NoteLinkDomain>(error, `Error in notesService.getLinksFor for ${type} ${id}`);
+    }
+  }
+
+  /**
+   * Get every link of the current user's notes, for the knowledge graph
+   */
+  async getAllLinks(): Promise<NoteLinkDomain[]> {
+    try {
+      return await getRepositories().notes.getNoteLinks();
+    } catch (error) {
+      return handleServiceError<NoteLinkDomain>(error, 'Error in notesService.getAllLinks');
+    }
+  }
+
   /**
    * Delete a note
    */
@@ -0,0 +1,57 @@
+import { getRepositories } from '@/repositories';
+import { handleServiceError } from '@/lib/errors';
+import { NotificationDomain } from '@/lib/types';
+
+/**
+ * Service for in-app notifications
+ */
+export const notificationsService = {
+  /**
+   * Get the current user's most recent notifications, read and unread
+   */
+  async getNotifications(limit: number = 20): Promise<NotificationDomain[]> {
+    try {
+      return await getRepositories().notifications.getNotifications(limit);
+    } catch (error) {
+      return handleServiceError<NotificationDomain>(error, 'Error in notificationsService.getNotifications');
+    }
+  },
+
+  /**
+   * Count the current user's unread notifications
+   */
+  async getUnreadCount(): Promise<number> {
+    try {
+      return await getRepositories().notifications.getUnreadCount();
+    } catch (error) {
+      console.error('Error in notificationsService.getUnreadCount:', error);
+      return 0;
+    }
+  },
+
+  /**
+   * Mark one notification as read
+   */
+  async markAsRead(notificationId: string): Promise<boolean> {
+    try {
+      await getRepositories().notifications.markAsRead([notificationId]);
+      return true;
+    } catch (error) {
+      console.error('Error in notificationsService.markAsRead:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Mark all of the current user's notifications as read
+   */
+  async markAllAsRead(): Promise<boolean> {
+    try {
+      await getRepositories().notifications.markAsRead();
+      return true;
+    } catch (error) {
+      console.error('Error in notificationsService.markAllAsRead:', error);
+      return false;
+    }
+  }
+};
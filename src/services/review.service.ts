@@ -0,0 +1,60 @@
+import { getRepositories } from '@/repositories';
+import { handleServiceError, handleServiceItemError } from '@/lib/errors';
+import { scheduleReview, INITIAL_REVIEW_STATE, ScheduledReview } from '@/lib/review';
+import { ReviewGrade, ReviewQueueFilters, ReviewQueueItem } from '@/lib/types';
+
+// Daily caps; new highlights are introduced slowly so the due pile stays manageable
+export const REVIEW_DUE_LIMIT = 20;
+export const REVIEW_NEW_LIMIT = 10;
+
+/**
+ * Service for the daily spaced-repetition review of highlights
+ */
+export const reviewService = {
+  /**
+   * Get today's review queue, optionally narrowed to a book, category or tag
+   */
+  async getQueue(filters: ReviewQueueFilters = {}): Promise<ReviewQueueItem[]> {
+    try {
+      return await getRepositories().reviews.getReviewQueue(filters, REVIEW_DUE_LIMIT, REVIEW_NEW_LIMIT);
+    } catch (error) {
+      return handleServiceError<ReviewQueueItem>(error, 'Error in reviewService.getQueue');
+    }
+  },
+
+  /**
+   * Grade a highlight and schedule its next review
+   *
+   * The schedule is computed from the stored state rather than the queue item, and
+   * only saved if that state hasn't changed since, so grading the same highlight from
+   * two tabs doesn't double-count.
+   *
+   * @returns The new schedule, or null if saving failed or another grade got there first
+   */
+  async gradeHighlight(highlightId: string, grade: ReviewGrade): Promise<ScheduledReview | null> {
+    try {
+      const repo = getRepositories().reviews;
+      const current = await repo.getReviewState(highlightId);
+
+      const state = current
+        ? {
+            easeFactor: Number(current.ease_factor),
+            intervalDays: current.interval_days,
+            repetitions: current.repetitions
+          }
+        : INITIAL_REVIEW_STATE;
+
+      const schedule = scheduleReview(state, grade);
+      const saved = await repo.saveReview(highlightId, grade, schedule, current);
+
+      if (!saved) {
+        console.warn(`Highlight ${highlightId} was graded elsewhere while this grade was being saved`);
+        return null;
+      }
+
+      return schedule;
+    } catch (error) {
+      return handleServiceItemError<ScheduledReview>(error, `Error in reviewService.gradeHighlight for highlight ${highlightId}`);
+    }
+  }
+};
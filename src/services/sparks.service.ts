@@ -1,5 +1,5 @@
 import { getRepositories } from '@/repositories';
-import { CreateSparkInput, SparkDomain, EnhancedSparkItem, SidebarItem, SparkModel } from '@/lib/types';
+import { CreateSparkInput, CreateSparkResult, SparkLabelsInput, SparkDomain, EnhancedSparkItem, SidebarItem, SparkModel } from '@/lib/types';
 import { formatDate } from '@/lib/db';
 import { handleServiceError, handleServiceItemError } from '@/lib/errors';
 import { BaseService } from './base.service';
@@ -25,25 +25,27 @@ class SparksService extends BaseService<SparkModel, SparksRepository> {
       const sparksWithRelations = await this.repository.getSparks();
       
       // Transform the results into the expected format
-      const enhancedSparks = sparksWithRelations.map(spark => {
-        const sparkDomain = this.repository.mapToDomain(spark);
-        const rawDate = sparkDomain.todoCreatedAt || sparkDomain.createdAt;
-        
-        return {
-          id: sparkDomain.id,
-          name: sparkDomain.body,
-          date: formatDate(rawDate),
-          sortDate: rawDate, // Store raw date for sorting
-          details: sparkDomain
-        };
-      });
-      
-      return enhancedSparks;
+      return sparksWithRelations.map(spark => this.toSidebarItem(this.repository.mapToDomain(spark)));
     } catch (error) {
       return handleServiceError<EnhancedSparkItem>(error, 'Error in SparksService.getSparks');
     }
   }
 
+  /**
+   * Shape a spark for the sidebar list
+   */
+  toSidebarItem(spark: SparkDomain): EnhancedSparkItem {
+    const rawDate = spark.todoCreatedAt || spark.createdAt;
+    
+    return {
+      id: spark.id,
+      name: spark.body,
+      date: formatDate(rawDate),
+      sortDate: rawDate, // Store raw date for sorting
+      details: spark
+    };
+  }
+
   /**
    * Get detailed information for a single spark
    */
@@ -63,41 +65,73 @@ class SparksService extends BaseService<SparkModel, SparksRepository> {
 
   /**
    * Create a new spark
+   *
+   * Captures are deduped on `md5_uid`: if the user already has a spark with the same
+   * body, that spark is returned with `duplicate: true` instead of inserting another.
    */
-  async createSpark(input: Omit<CreateSparkInput, 'md5Uid'>): Promise<SparkDomain | null> {
+  async createSpark(
+    input: Omit<CreateSparkInput, 'md5Uid'>,
+    labels: SparkLabelsInput = {}
+  ): Promise<CreateSparkResult | null> {
     try {
-      // Generate a simple hash to avoid duplicates
-      const md5Uid = await this.generateMd5Hash(input.body);
+      const body = input.body.trim();
+      const md5Uid = await this.getDedupeHash(body);
+      
+      const existing = await this.repository.getSparkByMd5Uid(md5Uid);
+      if (existing) {
+        // Labels picked while capturing a duplicate still apply to the existing spark
+        const spark = await this.addLabels(existing.id, labels);
+        return spark ? { spark, duplicate: true } : null;
+      }
       
       // Create the spark
       const newSpark = await this.repository.createSpark({
         ...input,
+        body,
         md5Uid
       });
       
-      // Get the full details with relationships
-      const sparkWithRelations = await this.repository.getSparkById(newSpark.id);
+      // Attach labels and get the full details with relationships
+      const spark = await this.addLabels(newSpark.id, labels);
       
-      if (!sparkWithRelations) {
-        return null;
-      }
-      
-      return this.repository.mapToDomain(sparkWithRelations);
+      return spark ? { spark, duplicate: false } : null;
     } catch (error) {
-      return handleServiceItemError<SparkDomain>(error, 'Error in SparksService.createSpark');
+      return handleServiceItemError<CreateSparkResult>(error, 'Error in SparksService.createSpark');
     }
   }
 
   /**
    * Update an existing spark
+   *
+   * NOTE: Changing the body also changes the dedupe hash. Edits that would make the
+   * spark identical to another one are rejected rather than merged.
    */
   async updateSpark(
     sparkId: string, 
     updates: Partial<Omit<CreateSparkInput, 'md5Uid'>>
   ): Promise<SparkDomain | null> {
     try {
+      const body = updates.body !== undefined ? updates.body.trim() : undefined;
+      
+      if (body !== undefined) {
+        const current = await this.repository.getSparkById(sparkId);
+        const md5Uid = await this.getDedupeHash(body);
+        
+        // Imported sparks keep their source UID (e.g. Airtable) so re-imports still match;
+        // only hashes this service generated follow the body
+        const hashFollowsBody = !!current && current.md5_uid === await this.getDedupeHash(current.body);
+        
+        if (hashFollowsBody && current.md5_uid !== md5Uid) {
+          const existing = await this.repository.getSparkByMd5Uid(md5Uid);
+          if (existing && existing.id !== sparkId) {
+            throw new Error('Another spark already has this text');
+          }
+          await this.repository.updateSparkMd5Uid(sparkId, md5Uid);
+        }
+      }
+      
       // Update the spark
-      await this.repository.updateSpark(sparkId, updates);
+      await this.repository.updateSpark(sparkId, { ...updates, body });
       
       // Get the updated spark with relationships
       const sparkWithRelations = await this.repository.getSparkById(sparkId);
@@ -112,6 +146,67 @@ class SparksService extends BaseService<SparkModel, SparksRepository> {
     }
   }
 
+  /**
+   * Permanently delete a spark
+   */
+  async deleteSpark(sparkId: string): Promise<boolean> {
+    try {
+      await this.repository.deleteSpark(sparkId);
+      return true;
+    } catch (error) {
+      console.error(`Error in SparksService.deleteSpark for spark ${sparkId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Attach categories and tags to a spark by name, creating any that don't exist yet
+   *
+   * @returns The spark with its updated relations
+   */
+  async addLabels(sparkId: string, labels: SparkLabelsInput): Promise<SparkDomain | null> {
+    const { categories, tags, auth } = getRepositories();
+    const categoryNames = (labels.categoryNames || []).map(name => name.trim()).filter(Boolean);
+    const tagNames = (labels.tagNames || []).map(name => name.trim()).filter(Boolean);
+    
+    if (categoryNames.length > 0 || tagNames.length > 0) {
+      const session = await auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+      
+      const resource = { id: sparkId, type: 'spark' as const, userId: session.user.id };
+      
+      for (const name of categoryNames) {
+        const category = await categories.createCategory({ name });
+        await categories.addCategoryToResource(resource, category.id);
+      }
+      
+      for (const name of tagNames) {
+        const tag = await tags.createTag({ name });
+        await tags.addTagToResource(resource, tag.id);
+      }
+    }
+    
+    const sparkWithRelations = await this.repository.getSparkById(sparkId);
+    return sparkWithRelations ? this.repository.mapToDomain(sparkWithRelations) : null;
+  }
+
+  /**
+   * Dedupe hash for a spark body
+   *
+   * md5_uid is unique across all users, so the hash is scoped to the owner; otherwise
+   * two users capturing the same text would collide.
+   */
+  private async getDedupeHash(body: string): Promise<string> {
+    const session = await getRepositories().auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+    
+    return this.generateMd5Hash(`${session.user.id}:${body.replace(/\r\n/g, '\n').trim()}`);
+  }
+
   /**
    * Generate an MD5 hash from a string
    * Used to avoid duplicate sparks
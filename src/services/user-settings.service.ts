@@ -1,5 +1,5 @@
 import { getRepositories } from '@/repositories';
-import { UserSettings } from '@/lib/types';
+import { DEFAULT_USER_SETTINGS, DigestSettings, NotificationSettings, UserSettings } from '@/lib/types';
 import { handleServiceItemError } from '@/lib/errors';
 
 /**
@@ -59,5 +59,37 @@ export const userSettingsService = {
     return this.updateUserSettings({
       leftSidebar: { width }
     });
+  },
+
+  /**
+   * Get the highlight digest content settings, filled in with defaults
+   */
+  async getDigestSettings(): Promise<DigestSettings> {
+    const settings = await this.getUserSettings();
+    return { ...DEFAULT_USER_SETTINGS.digest!, ...settings?.digest };
+  },
+
+  /**
+   * Update the highlight digest content settings
+   *
+   * NOTE: The unsubscribe token is left alone so links in emails already sent keep working.
+   */
+  async updateDigestSettings(digest: Omit<DigestSettings, 'unsubscribeToken'>): Promise<UserSettings | null> {
+    return this.updateUserSettings({ digest });
+  },
+
+  /**
+   * Get the notification delivery settings, filled in with defaults
+   */
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    const settings = await this.getUserSettings();
+    return { ...DEFAULT_USER_SETTINGS.notifications!, ...settings?.notifications };
+  },
+
+  /**
+   * Update the notification delivery settings
+   */
+  async updateNotificationSettings(notifications: NotificationSettings): Promise<UserSettings | null> {
+    return this.updateUserSettings({ notifications });
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,220 @@
+-- Extend semantic search to sparks and notes
+-- Mirrors the highlights embedding setup (see 20251009131127_add_embeddings_to_highlights.sql)
+
+-- Add embedding columns to sparks
+ALTER TABLE sparks
+  ADD COLUMN IF NOT EXISTS embedding vector(1536);
+
+ALTER TABLE sparks
+  ADD COLUMN IF NOT EXISTS embedding_updated_at TIMESTAMPTZ;
+
+-- Add embedding columns to notes
+ALTER TABLE notes
+  ADD COLUMN IF NOT EXISTS embedding vector(1536);
+
+ALTER TABLE notes
+  ADD COLUMN IF NOT EXISTS embedding_updated_at TIMESTAMPTZ;
+
+-- HNSW indexes for fast cosine similarity search
+CREATE INDEX IF NOT EXISTS sparks_embedding_idx
+  ON sparks
+  USING hnsw (embedding vector_cosine_ops)
+  WITH (m = 16, ef_construction = 64);
+
+CREATE INDEX IF NOT EXISTS notes_embedding_idx
+  ON notes
+  USING hnsw (embedding vector_cosine_ops)
+  WITH (m = 16, ef_construction = 64);
+
+-- Clear stale embeddings when the embedded text changes so the
+-- generate-content-embeddings function picks the row up again
+CREATE OR REPLACE FUNCTION clear_spark_embedding_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.embedding := NULL;
+    NEW.embedding_updated_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER clear_sparks_embedding_on_change
+BEFORE UPDATE ON sparks
+FOR EACH ROW
+EXECUTE FUNCTION clear_spark_embedding_on_change();
+
+CREATE OR REPLACE FUNCTION clear_note_embedding_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content OR NEW.title IS DISTINCT FROM OLD.title THEN
+    NEW.embedding := NULL;
+    NEW.embedding_updated_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER clear_notes_embedding_on_change
+BEFORE UPDATE ON notes
+FOR EACH ROW
+EXECUTE FUNCTION clear_note_embedding_on_change();
+
+-- Semantic search over sparks
+CREATE OR REPLACE FUNCTION search_sparks_semantic(
+  query_embedding vector(1536),
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  todo_created_at timestamptz,
+  todo_id text,
+  md5_uid text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_id,
+    s.body,
+    s.todo_created_at,
+    s.todo_id,
+    s.md5_uid,
+    s.created_at,
+    s.updated_at,
+    1 - (s.embedding <=> query_embedding) as similarity
+  FROM sparks s
+  WHERE s.user_id = match_user_id
+    AND s.embedding IS NOT NULL
+  ORDER BY s.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Keyword search over sparks
+CREATE OR REPLACE FUNCTION search_sparks_keyword(
+  search_text text,
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  todo_created_at timestamptz,
+  todo_id text,
+  md5_uid text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_id,
+    s.body,
+    s.todo_created_at,
+    s.todo_id,
+    s.md5_uid,
+    s.created_at,
+    s.updated_at,
+    ts_rank(to_tsvector('english', s.body), plainto_tsquery('english', search_text)) as rank
+  FROM sparks s
+  WHERE s.user_id = match_user_id
+    AND s.body ILIKE '%' || search_text || '%'
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Semantic search over notes
+CREATE OR REPLACE FUNCTION search_notes_semantic(
+  query_embedding vector(1536),
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  content text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    n.id,
+    n.user_id,
+    n.title,
+    n.content,
+    n.created_at,
+    n.updated_at,
+    1 - (n.embedding <=> query_embedding) as similarity
+  FROM notes n
+  WHERE n.user_id = match_user_id
+    AND n.embedding IS NOT NULL
+  ORDER BY n.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Keyword search over notes (title and content)
+CREATE OR REPLACE FUNCTION search_notes_keyword(
+  search_text text,
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  content text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    n.id,
+    n.user_id,
+    n.title,
+    n.content,
+    n.created_at,
+    n.updated_at,
+    ts_rank(
+      to_tsvector('english', coalesce(n.title, '') || ' ' || n.content),
+      plainto_tsquery('english', search_text)
+    ) as rank
+  FROM notes n
+  WHERE n.user_id = match_user_id
+    AND (
+      n.content ILIKE '%' || search_text || '%'
+      OR n.title ILIKE '%' || search_text || '%'
+    )
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON COLUMN sparks.embedding IS 'OpenAI embedding vector (1536 dimensions) of the spark body for semantic search';
+COMMENT ON COLUMN sparks.embedding_updated_at IS 'Timestamp when the embedding was last generated or updated';
+COMMENT ON COLUMN notes.embedding IS 'OpenAI embedding vector (1536 dimensions) of the note title and content for semantic search';
+COMMENT ON COLUMN notes.embedding_updated_at IS 'Timestamp when the embedding was last generated or updated';
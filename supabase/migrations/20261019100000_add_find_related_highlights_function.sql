@@ -0,0 +1,129 @@
+-- Nearest-neighbour lookup for a single highlight using its stored embedding
+-- Powers the "Related highlights" section (cross-book connections)
+
+CREATE OR REPLACE FUNCTION find_related_highlights(
+  source_highlight_id uuid,
+  match_user_id uuid,
+  match_count int DEFAULT 5,
+  exclude_same_book boolean DEFAULT true
+)
+RETURNS TABLE (
+  id uuid,
+  book_id uuid,
+  rw_id integer,
+  rw_text text,
+  rw_note text,
+  rw_location text,
+  rw_highlighted_at timestamptz,
+  book_rw_id integer,
+  book_title text,
+  book_author text,
+  book_cover_image_url text,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  source_embedding vector(1536);
+  source_book_id uuid;
+BEGIN
+  SELECT h.embedding, h.book_id
+  INTO source_embedding, source_book_id
+  FROM highlights h
+  WHERE h.id = source_highlight_id
+    AND h.user_id = match_user_id;
+
+  -- Nothing to compare against until the highlight has been embedded
+  IF source_embedding IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.book_id,
+    h.rw_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_location,
+    h.rw_highlighted_at,
+    b.rw_id as book_rw_id,
+    b.rw_title as book_title,
+    b.rw_author as book_author,
+    b.rw_cover_image_url as book_cover_image_url,
+    1 - (h.embedding <=> source_embedding) as similarity
+  FROM highlights h
+  LEFT JOIN books b ON b.id = h.book_id
+  WHERE h.user_id = match_user_id
+    AND h.id <> source_highlight_id
+    AND h.embedding IS NOT NULL
+    AND (NOT exclude_same_book OR h.book_id IS DISTINCT FROM source_book_id)
+  ORDER BY h.embedding <=> source_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION find_related_highlights(uuid, uuid, int, boolean) IS 'Returns the highlights most similar to the given highlight, optionally excluding highlights from the same book';
+
+-- Book-level variant: compares against the centroid of the book's highlight embeddings
+-- and always excludes the book itself
+CREATE OR REPLACE FUNCTION find_related_highlights_for_book(
+  source_book_id uuid,
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  book_id uuid,
+  rw_id integer,
+  rw_text text,
+  rw_note text,
+  rw_location text,
+  rw_highlighted_at timestamptz,
+  book_rw_id integer,
+  book_title text,
+  book_author text,
+  book_cover_image_url text,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  book_embedding vector(1536);
+BEGIN
+  SELECT AVG(h.embedding)
+  INTO book_embedding
+  FROM highlights h
+  WHERE h.book_id = source_book_id
+    AND h.user_id = match_user_id
+    AND h.embedding IS NOT NULL;
+
+  IF book_embedding IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.book_id,
+    h.rw_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_location,
+    h.rw_highlighted_at,
+    b.rw_id as book_rw_id,
+    b.rw_title as book_title,
+    b.rw_author as book_author,
+    b.rw_cover_image_url as book_cover_image_url,
+    1 - (h.embedding <=> book_embedding) as similarity
+  FROM highlights h
+  LEFT JOIN books b ON b.id = h.book_id
+  WHERE h.user_id = match_user_id
+    AND h.book_id IS DISTINCT FROM source_book_id
+    AND h.embedding IS NOT NULL
+  ORDER BY h.embedding <=> book_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION find_related_highlights_for_book(uuid, uuid, int) IS 'Returns highlights from other books most similar to the average embedding of the given book';
@@ -0,0 +1,18 @@
+-- Allow automations to be approved action by action
+-- 'partially_approved' is derived from action statuses when some actions were executed
+-- and others were rejected or are still pending
+-- NOTE: The table carries two status constraints (from the reverted-status migrations); both must allow it
+
+ALTER TABLE automations
+DROP CONSTRAINT IF EXISTS automations_status_check;
+
+ALTER TABLE automations
+ADD CONSTRAINT automations_status_check
+CHECK (status IN ('pending', 'approved', 'partially_approved', 'rejected', 'reverted'));
+
+ALTER TABLE automations
+DROP CONSTRAINT IF EXISTS automation_jobs_status_check;
+
+ALTER TABLE automations
+ADD CONSTRAINT automation_jobs_status_check
+CHECK (status IN ('pending', 'approved', 'partially_approved', 'rejected', 'reverted'));
@@ -0,0 +1,282 @@
+-- Soft delete for highlights removed or discarded in Readwise
+-- Deleted highlights keep their row (and therefore their tag, category and note links)
+-- so restoring one from the trash brings it back intact
+
+ALTER TABLE highlights
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deletion_reason text,
+  ADD COLUMN IF NOT EXISTS restored_at timestamptz;
+
+ALTER TABLE highlights
+  DROP CONSTRAINT IF EXISTS highlights_deletion_reason_check;
+
+ALTER TABLE highlights
+  ADD CONSTRAINT highlights_deletion_reason_check
+  CHECK (deletion_reason IS NULL OR deletion_reason IN ('readwise_deleted', 'readwise_discarded', 'missing_upstream'));
+
+COMMENT ON COLUMN highlights.deleted_at IS 'When the highlight was moved to the trash; NULL for active highlights';
+COMMENT ON COLUMN highlights.deletion_reason IS 'Why the highlight was trashed: deleted or discarded in Readwise, or missing during reconciliation';
+COMMENT ON COLUMN highlights.restored_at IS 'When the user last restored the highlight from the trash; reconciliation leaves these alone';
+
+-- Most queries only read active highlights
+CREATE INDEX IF NOT EXISTS idx_highlights_user_active
+  ON highlights(user_id)
+  WHERE deleted_at IS NULL;
+
+-- Trash view
+CREATE INDEX IF NOT EXISTS idx_highlights_user_deleted_at
+  ON highlights(user_id, deleted_at DESC)
+  WHERE deleted_at IS NOT NULL;
+
+-- Recreate the search and related-highlight functions so trashed highlights are excluded
+
+CREATE OR REPLACE FUNCTION search_highlights_semantic(
+  query_embedding vector(1536),
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  book_id uuid,
+  rw_id integer,
+  rw_text text,
+  rw_note text,
+  rw_location text,
+  rw_location_type text,
+  rw_highlighted_at timestamptz,
+  rw_url text,
+  rw_color text,
+  rw_updated timestamptz,
+  rw_book_id integer,
+  rw_tags jsonb,
+  created_at timestamptz,
+  updated_at timestamptz,
+  embedding vector(1536),
+  embedding_updated_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    h.id,
+    h.user_id,
+    h.book_id,
+    h.rw_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_location,
+    h.rw_location_type,
+    h.rw_highlighted_at,
+    h.rw_url,
+    h.rw_color,
+    h.rw_updated,
+    h.rw_book_id,
+    h.rw_tags,
+    h.created_at,
+    h.updated_at,
+    h.embedding,
+    h.embedding_updated_at,
+    1 - (h.embedding <=> query_embedding) as similarity
+  FROM highlights h
+  WHERE h.user_id = match_user_id
+    AND h.embedding IS NOT NULL
+    AND h.deleted_at IS NULL
+  ORDER BY h.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_highlights_keyword(
+  search_text text,
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  book_id uuid,
+  rw_id integer,
+  rw_text text,
+  rw_note text,
+  rw_location text,
+  rw_location_type text,
+  rw_highlighted_at timestamptz,
+  rw_url text,
+  rw_color text,
+  rw_updated timestamptz,
+  rw_book_id integer,
+  rw_tags jsonb,
+  created_at timestamptz,
+  updated_at timestamptz,
+  embedding vector(1536),
+  embedding_updated_at timestamptz,
+  rank real
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    h.id,
+    h.user_id,
+    h.book_id,
+    h.rw_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_location,
+    h.rw_location_type,
+    h.rw_highlighted_at,
+    h.rw_url,
+    h.rw_color,
+    h.rw_updated,
+    h.rw_book_id,
+    h.rw_tags,
+    h.created_at,
+    h.updated_at,
+    h.embedding,
+    h.embedding_updated_at,
+    ts_rank(to_tsvector('english', h.rw_text), plainto_tsquery('english', search_text)) as rank
+  FROM highlights h
+  WHERE h.user_id = match_user_id
+    AND h.deleted_at IS NULL
+    AND (
+      h.rw_text ILIKE '%' || search_text || '%' 
+      OR h.rw_note ILIKE '%' || search_text || '%'
+    )
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION find_related_highlights(
+  source_highlight_id uuid,
+  match_user_id uuid,
+  match_count int DEFAULT 5,
+  exclude_same_book boolean DEFAULT true
+)
+RETURNS TABLE (
+  id uuid,
+  book_id uuid,
+  rw_id integer,
+  rw_text text,
+  rw_note text,
+  rw_location text,
+  rw_highlighted_at timestamptz,
+  book_rw_id integer,
+  book_title text,
+  book_author text,
+  book_cover_image_url text,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  source_embedding vector(1536);
+  source_book_id uuid;
+BEGIN
+  SELECT h.embedding, h.book_id
+  INTO source_embedding, source_book_id
+  FROM highlights h
+  WHERE h.id = source_highlight_id
+    AND h.user_id = match_user_id;
+
+  -- Nothing to compare against until the highlight has been embedded
+  IF source_embedding IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.book_id,
+    h.rw_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_location,
+    h.rw_highlighted_at,
+    b.rw_id as book_rw_id,
+    b.rw_title as book_title,
+    b.rw_author as book_author,
+    b.rw_cover_image_url as book_cover_image_url,
+    1 - (h.embedding <=> source_embedding) as similarity
+  FROM highlights h
+  LEFT JOIN books b ON b.id = h.book_id
+  WHERE h.user_id = match_user_id
+    AND h.id <> source_highlight_id
+    AND h.deleted_at IS NULL
+    AND h.embedding IS NOT NULL
+    AND (NOT exclude_same_book OR h.book_id IS DISTINCT FROM source_book_id)
+  ORDER BY h.embedding <=> source_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION find_related_highlights(uuid, uuid, int, boolean) IS 'Returns the highlights most similar to the given highlight, optionally excluding highlights from the same book';
+
+-- Book-level variant: compares against the centroid of the book's highlight embeddings
+-- and always excludes the book itself
+CREATE OR REPLACE FUNCTION find_related_highlights_for_book(
+  source_book_id uuid,
+  match_user_id uuid,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  book_id uuid,
+  rw_id integer,
+  rw_text text,
+  rw_note text,
+  rw_location text,
+  rw_highlighted_at timestamptz,
+  book_rw_id integer,
+  book_title text,
+  book_author text,
+  book_cover_image_url text,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  book_embedding vector(1536);
+BEGIN
+  SELECT AVG(h.embedding)
+  INTO book_embedding
+  FROM highlights h
+  WHERE h.book_id = source_book_id
+    AND h.user_id = match_user_id
+    AND h.embedding IS NOT NULL
+    AND h.deleted_at IS NULL;
+
+  IF book_embedding IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.book_id,
+    h.rw_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_location,
+    h.rw_highlighted_at,
+    b.rw_id as book_rw_id,
+    b.rw_title as book_title,
+    b.rw_author as book_author,
+    b.rw_cover_image_url as book_cover_image_url,
+    1 - (h.embedding <=> book_embedding) as similarity
+  FROM highlights h
+  LEFT JOIN books b ON b.id = h.book_id
+  WHERE h.user_id = match_user_id
+    AND h.book_id IS DISTINCT FROM source_book_id
+    AND h.embedding IS NOT NULL
+    AND h.deleted_at IS NULL
+  ORDER BY h.embedding <=> book_embedding
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION find_related_highlights_for_book(uuid, uuid, int) IS 'Returns highlights from other books most similar to the average embedding of the given book';
@@ -0,0 +1,68 @@
+-- Create reader_documents table to store Readwise Reader (v3 API) documents
+-- Saved articles, PDFs, emails etc. with their full text, linked to the matching
+-- v2 book when the document also has highlights
+CREATE TABLE IF NOT EXISTS reader_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_id UUID REFERENCES books(id) ON DELETE SET NULL,
+  rw_id TEXT NOT NULL,
+  rw_url TEXT,
+  rw_source_url TEXT,
+  rw_title TEXT,
+  rw_author TEXT,
+  rw_source TEXT,
+  rw_site_name TEXT,
+  rw_category TEXT,
+  rw_location TEXT,
+  rw_summary TEXT,
+  rw_notes TEXT,
+  rw_word_count INTEGER,
+  rw_reading_progress REAL,
+  rw_image_url TEXT,
+  rw_tags JSONB,
+  rw_html_content TEXT,
+  rw_published_date TIMESTAMPTZ,
+  rw_saved_at TIMESTAMPTZ,
+  rw_first_opened_at TIMESTAMPTZ,
+  rw_last_opened_at TIMESTAMPTZ,
+  rw_created_at TIMESTAMPTZ,
+  rw_updated TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, rw_id),
+  CONSTRAINT reader_documents_reading_progress_check
+    CHECK (rw_reading_progress IS NULL OR (rw_reading_progress >= 0 AND rw_reading_progress <= 1))
+);
+
+COMMENT ON TABLE reader_documents IS 'Documents imported from Readwise Reader (v3 API)';
+COMMENT ON COLUMN reader_documents.book_id IS 'Matching Readwise v2 book (by source URL), if the document has highlights';
+COMMENT ON COLUMN reader_documents.rw_location IS 'Reader location: new, later, shortlist, archive or feed';
+COMMENT ON COLUMN reader_documents.rw_reading_progress IS 'Reading progress between 0 and 1';
+
+-- Add Row Level Security (RLS) to reader_documents table
+ALTER TABLE reader_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only view their own reader documents"
+  ON reader_documents FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reader documents"
+  ON reader_documents FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reader documents"
+  ON reader_documents FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reader documents"
+  ON reader_documents FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX reader_documents_user_id_rw_id_idx ON reader_documents(user_id, rw_id);
+CREATE INDEX reader_documents_book_id_idx ON reader_documents(book_id) WHERE book_id IS NOT NULL;
+CREATE INDEX reader_documents_user_location_idx ON reader_documents(user_id, rw_location);
+
+CREATE TRIGGER update_reader_documents_modified_timestamp
+BEFORE UPDATE ON reader_documents
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_timestamp();
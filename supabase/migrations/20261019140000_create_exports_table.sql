@@ -0,0 +1,49 @@
+-- Create exports table to track Markdown vault export jobs
+CREATE TABLE IF NOT EXISTS exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  format TEXT NOT NULL DEFAULT 'markdown',
+  status TEXT NOT NULL DEFAULT 'pending',
+  storage_path TEXT,
+  external_url TEXT,
+  file_count INTEGER,
+  size_bytes BIGINT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT exports_format_check CHECK (format IN ('markdown')),
+  CONSTRAINT exports_status_check CHECK (status IN ('pending', 'processing', 'completed', 'failed'))
+);
+
+COMMENT ON TABLE exports IS 'Export jobs that write the user library out as a downloadable archive';
+COMMENT ON COLUMN exports.storage_path IS 'Path of the zip archive in the private exports storage bucket';
+COMMENT ON COLUMN exports.external_url IS 'URL of the copy uploaded to the external S3 bucket, when requested';
+
+-- Add Row Level Security (RLS) to exports table
+ALTER TABLE exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only view their own exports"
+  ON exports FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own exports"
+  ON exports FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exports"
+  ON exports FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX exports_user_created_idx ON exports(user_id, created_at DESC);
+
+CREATE TRIGGER update_exports_modified_timestamp
+BEFORE UPDATE ON exports
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_timestamp();
+
+-- Private bucket for export archives and their intermediate chunks.
+-- Only the service role writes here; downloads go through signed URLs.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,171 @@
+-- Spaced-repetition review state per highlight, powering the daily /review queue
+-- A highlight without a row has never been reviewed and is "new"
+CREATE TABLE IF NOT EXISTS highlight_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  highlight_id UUID NOT NULL REFERENCES highlights(id) ON DELETE CASCADE,
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMPTZ,
+  last_grade TEXT,
+  suspended BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT highlight_reviews_highlight_unique UNIQUE (highlight_id),
+  CONSTRAINT highlight_reviews_last_grade_check CHECK (last_grade IS NULL OR last_grade IN ('keep', 'soon', 'later', 'never'))
+);
+
+COMMENT ON TABLE highlight_reviews IS 'SM-2 style review schedule for each highlight the user has reviewed';
+COMMENT ON COLUMN highlight_reviews.suspended IS 'Set when the highlight is graded "never"; suspended highlights leave the queue for good';
+COMMENT ON COLUMN highlight_reviews.created_at IS 'When the highlight was first reviewed; used to cap new highlights per day';
+
+ALTER TABLE highlight_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only view their own highlight reviews"
+  ON highlight_reviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own highlight reviews"
+  ON highlight_reviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own highlight reviews"
+  ON highlight_reviews FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own highlight reviews"
+  ON highlight_reviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX highlight_reviews_user_due_idx
+  ON highlight_reviews(user_id, due_at)
+  WHERE NOT suspended;
+
+CREATE TRIGGER update_highlight_reviews_modified_timestamp
+BEFORE UPDATE ON highlight_reviews
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_timestamp();
+
+-- Today's review queue: due highlights first, then a capped number of new ones.
+-- New highlights are picked in a per-day pseudo-random order so the queue stays
+-- stable across reloads but varies from day to day.
+-- Optional filters narrow the queue to a book, category or tag.
+CREATE OR REPLACE FUNCTION get_review_queue(
+  match_user_id uuid,
+  due_limit int DEFAULT 20,
+  new_limit int DEFAULT 10,
+  filter_book_id uuid DEFAULT NULL,
+  filter_category_id uuid DEFAULT NULL,
+  filter_tag_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  highlight_id uuid,
+  book_id uuid,
+  rw_text text,
+  rw_note text,
+  rw_highlighted_at timestamptz,
+  book_rw_id integer,
+  book_title text,
+  book_author text,
+  book_cover_image_url text,
+  is_new boolean,
+  ease_factor numeric,
+  interval_days integer,
+  repetitions integer,
+  review_count integer,
+  due_at timestamptz,
+  last_reviewed_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  introduced_today int;
+BEGIN
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.book_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_highlighted_at,
+    b.rw_id,
+    b.rw_title,
+    b.rw_author,
+    b.rw_cover_image_url,
+    false,
+    r.ease_factor,
+    r.interval_days,
+    r.repetitions,
+    r.review_count,
+    r.due_at,
+    r.last_reviewed_at
+  FROM highlight_reviews r
+  JOIN highlights h ON h.id = r.highlight_id
+  LEFT JOIN books b ON b.id = h.book_id
+  WHERE r.user_id = match_user_id
+    AND NOT r.suspended
+    AND r.due_at <= now()
+    AND h.deleted_at IS NULL
+    AND (filter_book_id IS NULL OR h.book_id = filter_book_id)
+    AND (filter_category_id IS NULL OR EXISTS (
+      SELECT 1 FROM highlight_categories hc
+      WHERE hc.highlight_id = h.id AND hc.category_id = filter_category_id
+    ))
+    AND (filter_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM highlight_tags ht
+      WHERE ht.highlight_id = h.id AND ht.tag_id = filter_tag_id
+    ))
+  ORDER BY r.due_at
+  LIMIT due_limit;
+
+  SELECT count(*)
+  INTO introduced_today
+  FROM highlight_reviews r
+  WHERE r.user_id = match_user_id
+    AND r.created_at >= date_trunc('day', now());
+
+  IF introduced_today >= new_limit THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.book_id,
+    h.rw_text,
+    h.rw_note,
+    h.rw_highlighted_at,
+    b.rw_id,
+    b.rw_title,
+    b.rw_author,
+    b.rw_cover_image_url,
+    true,
+    NULL::numeric,
+    NULL::integer,
+    NULL::integer,
+    NULL::integer,
+    NULL::timestamptz,
+    NULL::timestamptz
+  FROM highlights h
+  LEFT JOIN books b ON b.id = h.book_id
+  WHERE h.user_id = match_user_id
+    AND h.deleted_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM highlight_reviews r WHERE r.highlight_id = h.id)
+    AND (filter_book_id IS NULL OR h.book_id = filter_book_id)
+    AND (filter_category_id IS NULL OR EXISTS (
+      SELECT 1 FROM highlight_categories hc
+      WHERE hc.highlight_id = h.id AND hc.category_id = filter_category_id
+    ))
+    AND (filter_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM highlight_tags ht
+      WHERE ht.highlight_id = h.id AND ht.tag_id = filter_tag_id
+    ))
+  ORDER BY md5(h.id::text || current_date::text)
+  LIMIT new_limit - introduced_today;
+END;
+$$;
+
+COMMENT ON FUNCTION get_review_queue(uuid, int, int, uuid, uuid, uuid) IS 'Returns the daily spaced-repetition review queue: due highlights, then new highlights up to the daily cap';
@@ -0,0 +1,59 @@
+-- User-defined condition -> action rules, evaluated after Readwise and Airtable syncs
+-- Matches become automations: pending for review, or applied right away for trusted rules
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  target TEXT NOT NULL,
+  match_mode TEXT NOT NULL DEFAULT 'all',
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  trusted BOOLEAN NOT NULL DEFAULT false,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT automation_rules_target_check CHECK (target IN ('book', 'highlight', 'spark')),
+  CONSTRAINT automation_rules_match_mode_check CHECK (match_mode IN ('all', 'any'))
+);
+
+COMMENT ON TABLE automation_rules IS 'User-defined categorization rules run after syncs';
+COMMENT ON COLUMN automation_rules.conditions IS 'Array of {field, operator, value}; operator is equals, contains or matches (regex)';
+COMMENT ON COLUMN automation_rules.actions IS 'Array of {type: add_category|add_tag, categoryId|tagId, name}';
+COMMENT ON COLUMN automation_rules.trusted IS 'Apply matches immediately instead of queueing them for review';
+
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only view their own automation rules"
+  ON automation_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own automation rules"
+  ON automation_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own automation rules"
+  ON automation_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own automation rules"
+  ON automation_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX automation_rules_user_target_idx
+  ON automation_rules(user_id, target)
+  WHERE enabled;
+
+CREATE TRIGGER update_automation_rules_modified_timestamp
+BEFORE UPDATE ON automation_rules
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_timestamp();
+
+-- Link automations to the rule that produced them, so a rule doesn't re-suggest
+-- labels the user already rejected
+ALTER TABLE automations
+  ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES automation_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS automations_rule_id_idx
+  ON automations(rule_id)
+  WHERE rule_id IS NOT NULL;
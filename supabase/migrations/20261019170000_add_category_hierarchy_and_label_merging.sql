@@ -0,0 +1,160 @@
+-- Parent/child nesting for categories. A category page rolls up the resources of
+-- its subcategories. Deleting a parent moves its children to the top level.
+ALTER TABLE categories
+ADD COLUMN parent_id UUID NULL REFERENCES categories(id) ON DELETE SET NULL;
+
+ALTER TABLE categories
+ADD CONSTRAINT categories_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX categories_parent_id_idx ON categories(parent_id);
+
+-- Expose parent_id in the usage view (new columns must go at the end)
+CREATE OR REPLACE VIEW category_usage_counts AS
+SELECT
+  c.id,
+  c.name,
+  c.slug,
+  c.user_id,
+  c.created_at,
+  c.updated_at,
+  (
+    SELECT COUNT(*) FROM book_categories bc WHERE bc.category_id = c.id
+  ) +
+  (
+    SELECT COUNT(*) FROM highlight_categories hc WHERE hc.category_id = c.id
+  ) +
+  (
+    SELECT COUNT(*) FROM spark_categories sc WHERE sc.category_id = c.id
+  ) AS usage_count,
+  c.parent_id
+FROM
+  categories c
+WHERE
+  c.user_id = auth.uid();
+
+-- Merge tags into one target tag.
+-- Every book/highlight/spark link to a source tag is moved to the target, and
+-- links the resource already had are dropped. Pending automation actions and
+-- automation rules that use a source tag are pointed at the target. Then the
+-- source tags are deleted.
+-- Runs as the calling user, so RLS limits it to their own rows.
+-- Returns the number of links moved.
+CREATE OR REPLACE FUNCTION merge_tags(source_ids uuid[], target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_name text;
+  resource text;
+  moved integer;
+  total_moved integer := 0;
+BEGIN
+  source_ids := array_remove(source_ids, target_id);
+
+  SELECT name INTO target_name FROM tags WHERE id = target_id AND user_id = auth.uid();
+  IF target_name IS NULL THEN
+    RAISE EXCEPTION 'Target tag % not found', target_id;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM tags WHERE id = ANY(source_ids) AND user_id = auth.uid()) <> cardinality(source_ids) THEN
+    RAISE EXCEPTION 'Some source tags were not found';
+  END IF;
+
+  FOREACH resource IN ARRAY ARRAY['book', 'highlight', 'spark'] LOOP
+    EXECUTE format(
+      'INSERT INTO %1$I (%2$I, tag_id, automation_action_id, created_by, created_at)
+       SELECT %2$I, $1, automation_action_id, created_by, created_at FROM %1$I WHERE tag_id = ANY($2)
+       ON CONFLICT DO NOTHING',
+      resource || '_tags', resource || '_id'
+    ) USING target_id, source_ids;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    total_moved := total_moved + moved;
+
+    EXECUTE format('DELETE FROM %I WHERE tag_id = ANY($1)', resource || '_tags') USING source_ids;
+  END LOOP;
+
+  UPDATE automation_actions
+  SET action_data = action_data || jsonb_build_object('tag_id', target_id, 'tag_name', target_name)
+  WHERE action_data->>'tag_id' = ANY(source_ids::text[]);
+
+  UPDATE automation_rules
+  SET actions = (
+    SELECT jsonb_agg(DISTINCT CASE
+      WHEN a->>'tagId' = ANY(source_ids::text[]) THEN a || jsonb_build_object('tagId', target_id, 'name', target_name)
+      ELSE a
+    END)
+    FROM jsonb_array_elements(actions) a
+  )
+  WHERE user_id = auth.uid()
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(actions) a WHERE a->>'tagId' = ANY(source_ids::text[]));
+
+  DELETE FROM tags WHERE id = ANY(source_ids) AND user_id = auth.uid();
+
+  RETURN total_moved;
+END;
+$$;
+
+COMMENT ON FUNCTION merge_tags(uuid[], uuid) IS 'Moves all links, automation actions and rules from the source tags to the target tag, then deletes the sources';
+
+-- Merge categories into one target category.
+-- Works like merge_tags. Subcategories of a source become subcategories of the target.
+CREATE OR REPLACE FUNCTION merge_categories(source_ids uuid[], target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_name text;
+  resource text;
+  moved integer;
+  total_moved integer := 0;
+BEGIN
+  source_ids := array_remove(source_ids, target_id);
+
+  SELECT name INTO target_name FROM categories WHERE id = target_id AND user_id = auth.uid();
+  IF target_name IS NULL THEN
+    RAISE EXCEPTION 'Target category % not found', target_id;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM categories WHERE id = ANY(source_ids) AND user_id = auth.uid()) <> cardinality(source_ids) THEN
+    RAISE EXCEPTION 'Some source categories were not found';
+  END IF;
+
+  FOREACH resource IN ARRAY ARRAY['book', 'highlight', 'spark'] LOOP
+    EXECUTE format(
+      'INSERT INTO %1$I (%2$I, category_id, automation_action_id, created_by, created_at)
+       SELECT %2$I, $1, automation_action_id, created_by, created_at FROM %1$I WHERE category_id = ANY($2)
+       ON CONFLICT DO NOTHING',
+      resource || '_categories', resource || '_id'
+    ) USING target_id, source_ids;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    total_moved := total_moved + moved;
+
+    EXECUTE format('DELETE FROM %I WHERE category_id = ANY($1)', resource || '_categories') USING source_ids;
+  END LOOP;
+
+  -- The target can't stay nested under a category that is about to be deleted
+  UPDATE categories SET parent_id = NULL WHERE id = target_id AND parent_id = ANY(source_ids);
+  UPDATE categories SET parent_id = target_id WHERE parent_id = ANY(source_ids) AND id <> target_id;
+
+  UPDATE automation_actions
+  SET action_data = action_data || jsonb_build_object('category_id', target_id, 'category_name', target_name)
+  WHERE action_data->>'category_id' = ANY(source_ids::text[]);
+
+  UPDATE automation_rules
+  SET actions = (
+    SELECT jsonb_agg(DISTINCT CASE
+      WHEN a->>'categoryId' = ANY(source_ids::text[]) THEN a || jsonb_build_object('categoryId', target_id, 'name', target_name)
+      ELSE a
+    END)
+    FROM jsonb_array_elements(actions) a
+  )
+  WHERE user_id = auth.uid()
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(actions) a WHERE a->>'categoryId' = ANY(source_ids::text[]));
+
+  DELETE FROM categories WHERE id = ANY(source_ids) AND user_id = auth.uid();
+
+  RETURN total_moved;
+END;
+$$;
+
+COMMENT ON FUNCTION merge_categories(uuid[], uuid) IS 'Moves all links, subcategories, automation actions and rules from the source categories to the target category, then deletes the sources';
@@ -0,0 +1,222 @@
+-- Migration: Scope categories and tags to their owner
+-- Description: categories.slug and tags.name were unique across all users, so two
+-- users couldn't both have a "philosophy" category. Also, nothing stopped one user's
+-- resource from being linked to another user's category or tag. This migration:
+--   1. makes slug (categories) and name (tags) unique per user,
+--   2. gives every user their own copy of any category/tag they were sharing, and
+--      moves their links and pending automation actions to that copy,
+--   3. requires junction rows to link a resource and a label with the same owner,
+--      in RLS and in a trigger, so service-role writes are checked too.
+
+-- 1. Per-user uniqueness
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_slug_key;
+ALTER TABLE categories ADD CONSTRAINT categories_user_id_slug_unique UNIQUE (user_id, slug);
+
+-- tags_name_user_id_unique already exists; only the original global one is dropped
+ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_name_key;
+
+-- 2. Split shared categories and tags
+DO $$
+DECLARE
+  resource text;
+BEGIN
+  FOREACH resource IN ARRAY ARRAY['book', 'highlight', 'spark'] LOOP
+    -- Copy each category another user's resource links to into that user's account
+    EXECUTE format(
+      'INSERT INTO categories (name, slug, user_id)
+       SELECT DISTINCT ON (r.user_id, c.slug) c.name, c.slug, r.user_id
+       FROM %1$I j
+       JOIN %2$I r ON r.id = j.%3$I
+       JOIN categories c ON c.id = j.category_id
+       WHERE c.user_id <> r.user_id
+       ON CONFLICT (user_id, slug) DO NOTHING',
+      resource || '_categories', resource || 's', resource || '_id'
+    );
+
+    -- Link the resource to its owner's copy instead
+    EXECUTE format(
+      'INSERT INTO %1$I (%3$I, category_id, automation_action_id, created_by, created_at)
+       SELECT j.%3$I, own.id, j.automation_action_id, j.created_by, j.created_at
+       FROM %1$I j
+       JOIN %2$I r ON r.id = j.%3$I
+       JOIN categories c ON c.id = j.category_id
+       JOIN categories own ON own.user_id = r.user_id AND own.slug = c.slug
+       WHERE c.user_id <> r.user_id
+       ON CONFLICT DO NOTHING',
+      resource || '_categories', resource || 's', resource || '_id'
+    );
+
+    EXECUTE format(
+      'DELETE FROM %1$I j
+       USING %2$I r, categories c
+       WHERE r.id = j.%3$I AND c.id = j.category_id AND c.user_id <> r.user_id',
+      resource || '_categories', resource || 's', resource || '_id'
+    );
+
+    -- Same for tags, matched by name
+    EXECUTE format(
+      'INSERT INTO tags (name, user_id)
+       SELECT DISTINCT ON (r.user_id, t.name) t.name, r.user_id
+       FROM %1$I j
+       JOIN %2$I r ON r.id = j.%3$I
+       JOIN tags t ON t.id = j.tag_id
+       WHERE t.user_id <> r.user_id
+       ON CONFLICT (name, user_id) DO NOTHING',
+      resource || '_tags', resource || 's', resource || '_id'
+    );
+
+    EXECUTE format(
+      'INSERT INTO %1$I (%3$I, tag_id, automation_action_id, created_by, created_at)
+       SELECT j.%3$I, own.id, j.automation_action_id, j.created_by, j.created_at
+       FROM %1$I j
+       JOIN %2$I r ON r.id = j.%3$I
+       JOIN tags t ON t.id = j.tag_id
+       JOIN tags own ON own.user_id = r.user_id AND own.name = t.name
+       WHERE t.user_id <> r.user_id
+       ON CONFLICT DO NOTHING',
+      resource || '_tags', resource || 's', resource || '_id'
+    );
+
+    EXECUTE format(
+      'DELETE FROM %1$I j
+       USING %2$I r, tags t
+       WHERE r.id = j.%3$I AND t.id = j.tag_id AND t.user_id <> r.user_id',
+      resource || '_tags', resource || 's', resource || '_id'
+    );
+  END LOOP;
+END $$;
+
+-- Automation actions that point at another user's category or tag get the owner's copy
+INSERT INTO categories (name, slug, user_id)
+SELECT DISTINCT ON (a.user_id, c.slug) c.name, c.slug, a.user_id
+FROM automation_actions aa
+JOIN automations a ON a.id = aa.automation_id
+JOIN categories c ON c.id::text = aa.action_data->>'category_id'
+WHERE c.user_id <> a.user_id
+ON CONFLICT (user_id, slug) DO NOTHING;
+
+UPDATE automation_actions aa
+SET action_data = aa.action_data || jsonb_build_object('category_id', own.id)
+FROM automations a, categories c, categories own
+WHERE a.id = aa.automation_id
+AND c.id::text = aa.action_data->>'category_id'
+AND c.user_id <> a.user_id
+AND own.user_id = a.user_id
+AND own.slug = c.slug;
+
+INSERT INTO tags (name, user_id)
+SELECT DISTINCT ON (a.user_id, t.name) t.name, a.user_id
+FROM automation_actions aa
+JOIN automations a ON a.id = aa.automation_id
+JOIN tags t ON t.id::text = aa.action_data->>'tag_id'
+WHERE t.user_id <> a.user_id
+ON CONFLICT (name, user_id) DO NOTHING;
+
+UPDATE automation_actions aa
+SET action_data = aa.action_data || jsonb_build_object('tag_id', own.id)
+FROM automations a, tags t, tags own
+WHERE a.id = aa.automation_id
+AND t.id::text = aa.action_data->>'tag_id'
+AND t.user_id <> a.user_id
+AND own.user_id = a.user_id
+AND own.name = t.name;
+
+-- 3a. RLS: a user can only link their own resources to their own categories and tags,
+-- and can't hand a category or tag over to another user
+DROP POLICY IF EXISTS "Users can update their own categories" ON categories;
+CREATE POLICY "Users can update their own categories"
+  ON categories FOR UPDATE
+  TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own tags" ON tags;
+CREATE POLICY "Users can update their own tags"
+  ON tags FOR UPDATE
+  TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DO $$
+DECLARE
+  resource text;
+  label text;
+  label_table text;
+BEGIN
+  FOREACH resource IN ARRAY ARRAY['book', 'highlight', 'spark'] LOOP
+    FOREACH label IN ARRAY ARRAY['category', 'tag'] LOOP
+      label_table := CASE label WHEN 'category' THEN 'categories' ELSE 'tags' END;
+
+      EXECUTE format(
+        'DROP POLICY IF EXISTS %I ON %I',
+        'Users can only insert their own ' || resource || ' ' || label_table,
+        resource || '_' || label_table
+      );
+
+      EXECUTE format(
+        'CREATE POLICY %1$I ON %2$I FOR INSERT
+         WITH CHECK (
+           EXISTS (SELECT 1 FROM %3$I r WHERE r.id = %2$I.%4$I AND r.user_id = auth.uid())
+           AND EXISTS (SELECT 1 FROM %5$I l WHERE l.id = %2$I.%6$I AND l.user_id = auth.uid())
+         )',
+        'Users can only insert their own ' || resource || ' ' || label_table,
+        resource || '_' || label_table,
+        resource || 's',
+        resource || '_id',
+        label_table,
+        label || '_id'
+      );
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- 3b. Trigger: the same owner check for writes that bypass RLS (service role)
+-- Trigger arguments: resource table, resource ID column, label table, label ID column
+CREATE OR REPLACE FUNCTION check_label_link_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resource_owner uuid;
+  label_owner uuid;
+BEGIN
+  EXECUTE format('SELECT user_id FROM %I WHERE id = $1', TG_ARGV[0])
+    INTO resource_owner
+    USING (to_jsonb(NEW)->>TG_ARGV[1])::uuid;
+
+  EXECUTE format('SELECT user_id FROM %I WHERE id = $1', TG_ARGV[2])
+    INTO label_owner
+    USING (to_jsonb(NEW)->>TG_ARGV[3])::uuid;
+
+  IF resource_owner IS DISTINCT FROM label_owner THEN
+    RAISE EXCEPTION 'Cannot link % % to % % owned by another user',
+      TG_ARGV[0], to_jsonb(NEW)->>TG_ARGV[1], TG_ARGV[2], to_jsonb(NEW)->>TG_ARGV[3];
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  resource text;
+  label text;
+  label_table text;
+BEGIN
+  FOREACH resource IN ARRAY ARRAY['book', 'highlight', 'spark'] LOOP
+    FOREACH label IN ARRAY ARRAY['category', 'tag'] LOOP
+      label_table := CASE label WHEN 'category' THEN 'categories' ELSE 'tags' END;
+
+      EXECUTE format(
+        'CREATE TRIGGER %1$I
+         BEFORE INSERT OR UPDATE ON %2$I
+         FOR EACH ROW
+         EXECUTE FUNCTION check_label_link_owner(%3$L, %4$L, %5$L, %6$L)',
+        'check_' || resource || '_' || label_table || '_owner',
+        resource || '_' || label_table,
+        resource || 's',
+        resource || '_id',
+        label_table,
+        label || '_id'
+      );
+    END LOOP;
+  END LOOP;
+END $$;
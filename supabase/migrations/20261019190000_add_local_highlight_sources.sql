@@ -0,0 +1,39 @@
+-- Highlights imported from files (Kindle "My Clippings.txt", Apple Books, CSV, JSON)
+-- live next to the ones synced from Readwise.
+
+-- Where a book or highlight came from. Readwise-only jobs (sync, reconcile, write-back)
+-- skip everything else.
+ALTER TABLE books ADD COLUMN source TEXT NOT NULL DEFAULT 'readwise';
+ALTER TABLE highlights ADD COLUMN source TEXT NOT NULL DEFAULT 'readwise';
+
+ALTER TABLE books ADD CONSTRAINT books_source_check
+  CHECK (source IN ('readwise', 'kindle', 'apple_books', 'csv', 'json'));
+ALTER TABLE highlights ADD CONSTRAINT highlights_source_check
+  CHECK (source IN ('readwise', 'kindle', 'apple_books', 'csv', 'json'));
+
+-- Synthetic ID space for local sources. rw_id stays NOT NULL and UNIQUE (user_id, rw_id)
+-- keeps working: imported rows get negative IDs from this sequence, Readwise IDs are
+-- always positive. Readwise syncs pass rw_id explicitly, so only imports use the default.
+CREATE SEQUENCE local_source_rw_id_seq AS integer
+  INCREMENT BY -1
+  MINVALUE -2147483648
+  MAXVALUE -1
+  START WITH -1;
+
+ALTER TABLE books ALTER COLUMN rw_id SET DEFAULT nextval('local_source_rw_id_seq');
+ALTER TABLE highlights ALTER COLUMN rw_id SET DEFAULT nextval('local_source_rw_id_seq');
+
+ALTER TABLE books ADD CONSTRAINT books_local_rw_id_check
+  CHECK (source = 'readwise' OR rw_id < 0);
+ALTER TABLE highlights ADD CONSTRAINT highlights_local_rw_id_check
+  CHECK (source = 'readwise' OR rw_id < 0);
+
+COMMENT ON COLUMN books.source IS 'readwise, or the file format a local import came from';
+COMMENT ON COLUMN highlights.source IS 'readwise, or the file format a local import came from';
+COMMENT ON SEQUENCE local_source_rw_id_seq IS 'Negative rw_id values for books and highlights that are not from Readwise';
+
+-- Private bucket for uploaded import files. The import function deletes each file
+-- once it has been processed; only the service role reads and writes here.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('imports', 'imports', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,158 @@
+-- Integration secrets (Readwise access tokens, Airtable personal access tokens) move out of
+-- user_settings.settings into Supabase Vault, encrypted at rest. The browser only ever sees
+-- whether a provider is connected and the last characters of its token; trigger routes,
+-- scheduled tasks and webhooks resolve the token server-side from the user ID.
+
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+CREATE TABLE IF NOT EXISTS public.integration_credentials (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('readwise', 'airtable')),
+  -- vault.secrets row holding the encrypted token
+  secret_id UUID NOT NULL,
+  -- Last four characters, shown as the masked token
+  hint TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, provider)
+);
+
+COMMENT ON TABLE public.integration_credentials IS 'Which integrations a user has a stored token for; the token itself lives in vault.secrets';
+
+-- Owners can see their connection state, but never write rows directly or read secret_id
+ALTER TABLE public.integration_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own integration credentials"
+  ON public.integration_credentials
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+REVOKE ALL ON public.integration_credentials FROM anon, authenticated;
+GRANT SELECT (user_id, provider, hint, created_at, updated_at) ON public.integration_credentials TO authenticated;
+
+-- Store, replace or (with an empty secret) remove a user's token for a provider
+CREATE OR REPLACE FUNCTION public.store_integration_credential(
+  p_user_id UUID,
+  p_provider TEXT,
+  p_secret TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_secret TEXT := btrim(coalesce(p_secret, ''));
+  v_secret_id UUID;
+BEGIN
+  SELECT secret_id INTO v_secret_id
+  FROM public.integration_credentials
+  WHERE user_id = p_user_id AND provider = p_provider;
+
+  IF v_secret = '' THEN
+    IF v_secret_id IS NOT NULL THEN
+      DELETE FROM public.integration_credentials WHERE user_id = p_user_id AND provider = p_provider;
+      DELETE FROM vault.secrets WHERE id = v_secret_id;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF v_secret_id IS NULL THEN
+    v_secret_id := vault.create_secret(
+      v_secret,
+      'integration:' || p_provider || ':' || p_user_id,
+      p_provider || ' token for user ' || p_user_id
+    );
+
+    INSERT INTO public.integration_credentials (user_id, provider, secret_id, hint)
+    VALUES (p_user_id, p_provider, v_secret_id, right(v_secret, 4));
+  ELSE
+    PERFORM vault.update_secret(v_secret_id, v_secret);
+
+    UPDATE public.integration_credentials
+    SET hint = right(v_secret, 4), updated_at = now()
+    WHERE user_id = p_user_id AND provider = p_provider;
+  END IF;
+END;
+$$;
+
+-- Called from the browser: the token goes in but never comes back out
+CREATE OR REPLACE FUNCTION public.set_integration_credential(p_provider TEXT, p_secret TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.store_integration_credential(auth.uid(), p_provider, p_secret);
+END;
+$$;
+
+-- Server-side lookup of the decrypted token
+CREATE OR REPLACE FUNCTION public.get_integration_credential(p_user_id UUID, p_provider TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT s.decrypted_secret
+  FROM public.integration_credentials c
+  JOIN vault.decrypted_secrets s ON s.id = c.secret_id
+  WHERE c.user_id = p_user_id AND c.provider = p_provider;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.store_integration_credential(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_integration_credential(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_integration_credential(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.store_integration_credential(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_integration_credential(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.set_integration_credential(TEXT, TEXT) TO authenticated;
+
+-- Move the existing plaintext tokens into the vault
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT
+      id,
+      settings->'integrations'->'readwise'->>'apiKey' AS readwise_key,
+      settings->'integrations'->'airtable'->>'apiKey' AS airtable_key
+    FROM public.user_settings
+  LOOP
+    IF coalesce(r.readwise_key, '') <> '' THEN
+      PERFORM public.store_integration_credential(r.id, 'readwise', r.readwise_key);
+    END IF;
+
+    IF coalesce(r.airtable_key, '') <> '' THEN
+      PERFORM public.store_integration_credential(r.id, 'airtable', r.airtable_key);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+UPDATE public.user_settings
+SET settings = settings #- '{integrations,readwise,apiKey}' #- '{integrations,airtable,apiKey}'
+WHERE settings->'integrations'->'readwise' ? 'apiKey'
+   OR settings->'integrations'->'airtable' ? 'apiKey';
+
+-- Older clients and restored backups must not put plaintext tokens back into the settings
+CREATE OR REPLACE FUNCTION public.strip_integration_secrets_from_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.settings := NEW.settings #- '{integrations,readwise,apiKey}' #- '{integrations,airtable,apiKey}';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER strip_integration_secrets_from_settings
+  BEFORE INSERT OR UPDATE OF settings ON public.user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.strip_integration_secrets_from_settings();
@@ -0,0 +1,68 @@
+-- Personal access tokens for the public REST API (/api/v1). Scripts authenticate with
+-- `Authorization: Bearer spk_...`; only a SHA-256 hash of the token is stored, so a token
+-- is shown once when it is created and can't be recovered afterwards.
+
+CREATE TABLE IF NOT EXISTS public.personal_access_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  -- First characters of the token, shown in the token list to tell tokens apart
+  token_prefix TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY[
+      'highlights:read', 'highlights:write',
+      'books:read', 'books:write',
+      'sparks:read', 'sparks:write',
+      'notes:read', 'notes:write',
+      'search'
+    ]::TEXT[]
+  ),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id
+  ON public.personal_access_tokens(user_id, created_at DESC);
+
+COMMENT ON TABLE public.personal_access_tokens IS 'Scoped tokens for the public REST API; the token itself is never stored';
+COMMENT ON COLUMN public.personal_access_tokens.token_hash IS 'Hex SHA-256 of the full token, looked up by the API with the service role';
+
+ALTER TABLE public.personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own personal access tokens"
+  ON public.personal_access_tokens
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own personal access tokens"
+  ON public.personal_access_tokens
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own personal access tokens"
+  ON public.personal_access_tokens
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own personal access tokens"
+  ON public.personal_access_tokens
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Books and highlights created through the API are local rows like file imports:
+-- negative rw_id, skipped by the Readwise-only jobs.
+ALTER TABLE books DROP CONSTRAINT books_source_check;
+ALTER TABLE highlights DROP CONSTRAINT highlights_source_check;
+
+ALTER TABLE books ADD CONSTRAINT books_source_check
+  CHECK (source IN ('readwise', 'kindle', 'apple_books', 'csv', 'json', 'api'));
+ALTER TABLE highlights ADD CONSTRAINT highlights_source_check
+  CHECK (source IN ('readwise', 'kindle', 'apple_books', 'csv', 'json', 'api'));
+
+COMMENT ON COLUMN books.source IS 'readwise, the file format a local import came from, or api';
+COMMENT ON COLUMN highlights.source IS 'readwise, the file format a local import came from, or api';
@@ -0,0 +1,87 @@
+-- Per-run detail for function logs: a row per step attempt (name, duration, output size,
+-- error), which attempt of the run is current, and duration/failure statistics per function.
+
+ALTER TABLE public.function_logs
+  ADD COLUMN IF NOT EXISTS attempt INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INTEGER;
+
+COMMENT ON COLUMN public.function_logs.attempt IS 'Zero-indexed attempt of the run that last reported, as counted by Inngest';
+COMMENT ON COLUMN public.function_logs.max_attempts IS 'Attempts Inngest makes before giving up (retries + 1)';
+
+CREATE TABLE IF NOT EXISTS public.function_log_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  log_id UUID NOT NULL REFERENCES public.function_logs(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  op TEXT,
+  attempt INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL,
+  duration_ms INTEGER,
+  output_bytes INTEGER,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_function_log_steps_log_id ON public.function_log_steps(log_id, started_at);
+
+COMMENT ON TABLE public.function_log_steps IS 'Each attempt of each step.run in a logged Inngest run, written by the database logger middleware';
+
+ALTER TABLE public.function_log_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can access all function log steps"
+  ON public.function_log_steps
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "Users can see their own function log steps"
+  ON public.function_log_steps
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Event payloads used to be logged verbatim, including integration tokens
+UPDATE public.function_logs
+SET input_params = input_params #- '{event,data,apiKey}'
+WHERE input_params->'event'->'data' ? 'apiKey';
+
+-- Run count, failures and duration percentiles of the caller's finished runs, per function
+-- (day IS NULL) and per function and UTC day. Runs logged before function_id was recorded
+-- are grouped by their name.
+CREATE OR REPLACE FUNCTION public.get_function_log_stats(p_days INTEGER DEFAULT 14)
+RETURNS TABLE (
+  function_id TEXT,
+  function_name TEXT,
+  day DATE,
+  runs BIGINT,
+  failed BIGINT,
+  p50_ms DOUBLE PRECISION,
+  p95_ms DOUBLE PRECISION,
+  p99_ms DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  SELECT
+    coalesce(l.function_id, l.function_name) AS function_id,
+    max(l.function_name) AS function_name,
+    (l.started_at AT TIME ZONE 'UTC')::date AS day,
+    count(*) AS runs,
+    count(*) FILTER (WHERE l.status = 'failed') AS failed,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY l.duration_ms) AS p50_ms,
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY l.duration_ms) AS p95_ms,
+    percentile_cont(0.99) WITHIN GROUP (ORDER BY l.duration_ms) AS p99_ms
+  FROM public.function_logs l
+  WHERE l.user_id = auth.uid()
+    AND l.status <> 'started'
+    AND l.started_at >= now() - make_interval(days => p_days)
+  GROUP BY GROUPING SETS (
+    (coalesce(l.function_id, l.function_name)),
+    (coalesce(l.function_id, l.function_name), (l.started_at AT TIME ZONE 'UTC')::date)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_function_log_stats(INTEGER) TO authenticated;
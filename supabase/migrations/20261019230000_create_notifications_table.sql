@@ -0,0 +1,48 @@
+-- In-app notifications: failed background jobs, integrations that stopped syncing and
+-- automations waiting for review. Rows are written server-side (service role); users can
+-- only read theirs and mark them read.
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('job_failed', 'integration_stale', 'automation_pending')),
+  title TEXT NOT NULL,
+  body TEXT,
+  -- In-app path to open, e.g. /automations
+  link TEXT,
+  -- At most one unread notification per key, so a job failing every hour notifies once
+  dedupe_key TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  emailed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_unread_dedupe
+  ON public.notifications(user_id, dedupe_key)
+  WHERE read_at IS NULL AND dedupe_key IS NOT NULL;
+
+COMMENT ON TABLE public.notifications IS 'In-app notifications, created by background jobs and shown under the header bell';
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Marking read is the only change users can make
+REVOKE INSERT, UPDATE, DELETE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+ALTER publication supabase_realtime ADD TABLE public.notifications;
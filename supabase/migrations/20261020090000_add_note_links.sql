@@ -0,0 +1,393 @@
+-- Links written in note content
+--
+--   [[Title]]                     a note or, when no note has that title, a book
+--   [[note:Title]], [[book:Title]]  the same, forcing the target type
+--   [[Title|shown text]]          any of the above with a display alias
+--   @[shown text](highlight:<id>) a highlight; @[...](spark:<id>) a spark
+--
+-- Links to books, highlights and sparks are stored in the existing junction tables as
+-- kind = 'linked', next to the notes attached to them ('attached', e.g. a highlight's
+-- user note). Note-to-note links get their own table. Triggers keep all of it in sync
+-- with the content, so every write path (app, public API, backup restore) is covered.
+--
+-- NOTE: The patterns here must match those in src/lib/note-links.ts
+
+ALTER TABLE public.book_notes
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'attached' CHECK (kind IN ('attached', 'linked'));
+ALTER TABLE public.highlight_notes
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'attached' CHECK (kind IN ('attached', 'linked'));
+ALTER TABLE public.spark_notes
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'attached' CHECK (kind IN ('attached', 'linked'));
+
+COMMENT ON COLUMN public.book_notes.kind IS 'attached: the note belongs to the book; linked: the note links to it in its content';
+COMMENT ON COLUMN public.highlight_notes.kind IS 'attached: the highlight''s user note; linked: the note mentions it in its content';
+COMMENT ON COLUMN public.spark_notes.kind IS 'attached: the note belongs to the spark; linked: the note mentions it in its content';
+
+CREATE TABLE IF NOT EXISTS public.note_links (
+  source_note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  target_note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (source_note_id, target_note_id),
+  CHECK (source_note_id <> target_note_id)
+);
+
+CREATE INDEX IF NOT EXISTS note_links_target_note_id_idx ON public.note_links(target_note_id);
+
+COMMENT ON TABLE public.note_links IS '[[wiki-links]] between notes, maintained by triggers on notes';
+
+ALTER TABLE public.note_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can only view their own note links"
+  ON public.note_links FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.notes
+    WHERE notes.id = note_links.source_note_id
+    AND notes.user_id = auth.uid()
+  ));
+
+-- Wiki-links resolve by case-insensitive title
+CREATE INDEX IF NOT EXISTS notes_user_title_lower_idx ON public.notes(user_id, lower(btrim(title)));
+CREATE INDEX IF NOT EXISTS books_user_title_lower_idx ON public.books(user_id, lower(btrim(rw_title)));
+
+-- Resolve the links in a note's content and replace its stored links with them
+CREATE OR REPLACE FUNCTION public.sync_note_links(p_note_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_content TEXT;
+  v_note_ids UUID[];
+  v_note_titles TEXT[];
+  v_book_ids UUID[];
+  v_highlight_ids UUID[];
+  v_spark_ids UUID[];
+BEGIN
+  SELECT user_id, content INTO v_user_id, v_content
+  FROM public.notes
+  WHERE id = p_note_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Several notes can share a title; link the most recently edited one
+  SELECT coalesce(array_agg(resolved.id), '{}'), coalesce(array_agg(resolved.title), '{}')
+  INTO v_note_ids, v_note_titles
+  FROM (
+    SELECT DISTINCT ON (w.title) w.title, n.id
+    FROM (
+      SELECT m[2] AS target_type, lower(btrim(m[3])) AS title
+      FROM regexp_matches(v_content, '\[\[((note|book):)?([^][|]+)(\|[^][]*)?\]\]', 'g') AS m
+    ) w
+    JOIN public.notes n
+      ON n.user_id = v_user_id
+      AND lower(btrim(n.title)) = w.title
+      AND n.id <> p_note_id
+    WHERE w.target_type IS DISTINCT FROM 'book'
+    ORDER BY w.title, n.updated_at DESC
+  ) resolved;
+
+  SELECT coalesce(array_agg(resolved.id), '{}')
+  INTO v_book_ids
+  FROM (
+    SELECT DISTINCT ON (w.title) b.id
+    FROM (
+      SELECT m[2] AS target_type, lower(btrim(m[3])) AS title
+      FROM regexp_matches(v_content, '\[\[((note|book):)?([^][|]+)(\|[^][]*)?\]\]', 'g') AS m
+    ) w
+    JOIN public.books b
+      ON b.user_id = v_user_id
+      AND lower(btrim(b.rw_title)) = w.title
+    WHERE w.target_type = 'book'
+      OR (w.target_type IS NULL AND NOT (w.title = ANY(v_note_titles)))
+    ORDER BY w.title, b.updated_at DESC
+  ) resolved;
+
+  SELECT coalesce(array_agg(DISTINCT h.id), '{}')
+  INTO v_highlight_ids
+  FROM regexp_matches(v_content, '@\[[^]]*\]\(highlight:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)', 'g') AS m
+  JOIN public.highlights h ON h.id = m[1]::uuid AND h.user_id = v_user_id;
+
+  SELECT coalesce(array_agg(DISTINCT s.id), '{}')
+  INTO v_spark_ids
+  FROM regexp_matches(v_content, '@\[[^]]*\]\(spark:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)', 'g') AS m
+  JOIN public.sparks s ON s.id = m[1]::uuid AND s.user_id = v_user_id;
+
+  DELETE FROM public.note_links
+  WHERE source_note_id = p_note_id AND NOT (target_note_id = ANY(v_note_ids));
+  INSERT INTO public.note_links (source_note_id, target_note_id)
+  SELECT p_note_id, unnest(v_note_ids)
+  ON CONFLICT DO NOTHING;
+
+  -- Attached rows are left alone; a note attached to what it also links to stays attached
+  DELETE FROM public.book_notes
+  WHERE note_id = p_note_id AND kind = 'linked' AND NOT (book_id = ANY(v_book_ids));
+  INSERT INTO public.book_notes (book_id, note_id, kind)
+  SELECT unnest(v_book_ids), p_note_id, 'linked'
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.highlight_notes
+  WHERE note_id = p_note_id AND kind = 'linked' AND NOT (highlight_id = ANY(v_highlight_ids));
+  INSERT INTO public.highlight_notes (highlight_id, note_id, kind)
+  SELECT unnest(v_highlight_ids), p_note_id, 'linked'
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.spark_notes
+  WHERE note_id = p_note_id AND kind = 'linked' AND NOT (spark_id = ANY(v_spark_ids));
+  INSERT INTO public.spark_notes (spark_id, note_id, kind)
+  SELECT unnest(v_spark_ids), p_note_id, 'linked'
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+-- Re-resolve a user's notes whose content may contain [[p_title]], e.g. once a note or
+-- book with that title appears or goes away
+CREATE OR REPLACE FUNCTION public.resync_notes_mentioning(p_user_id UUID, p_title TEXT, p_exclude_note_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_note_id UUID;
+BEGIN
+  IF nullif(btrim(p_title), '') IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOR v_note_id IN
+    SELECT id FROM public.notes
+    WHERE user_id = p_user_id
+      AND id IS DISTINCT FROM p_exclude_note_id
+      AND strpos(content, '[[') > 0
+      AND strpos(lower(content), lower(btrim(p_title))) > 0
+  LOOP
+    PERFORM public.sync_note_links(v_note_id);
+  END LOOP;
+END;
+$$;
+
+-- Point [[Old title]] links in the given notes at a renamed target, keeping any
+-- prefix and alias. The content update re-syncs each rewritten note.
+CREATE OR REPLACE FUNCTION public.rewrite_wiki_links(p_note_ids UUID[], p_target_type TEXT, p_old_title TEXT, p_new_title TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_pattern TEXT;
+BEGIN
+  IF nullif(btrim(p_old_title), '') IS NULL OR nullif(btrim(p_new_title), '') IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_pattern := '\[\[(' || p_target_type || ':)?\s*'
+    || regexp_replace(btrim(p_old_title), '([.^$|?*+()\[\]{}\\])', '\\\1', 'g')
+    || '\s*(\|[^][]*)?\]\]';
+
+  UPDATE public.notes
+  SET content = regexp_replace(content, v_pattern, '[[\1' || replace(btrim(p_new_title), '\', '\\') || '\2]]', 'gi')
+  WHERE id = ANY(p_note_ids)
+    AND content ~* v_pattern;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_note_links(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resync_notes_mentioning(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.rewrite_wiki_links(UUID[], TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Notes: content changes re-resolve the note's own links; title changes move links
+-- that pointed at the old title and pick up links that were waiting for the new one
+CREATE OR REPLACE FUNCTION public.handle_note_links_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_source_ids UUID[];
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Links to the deleted title may fall back to another note or a book
+    PERFORM public.resync_notes_mentioning(OLD.user_id, OLD.title, OLD.id);
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.sync_note_links(NEW.id);
+    PERFORM public.resync_notes_mentioning(NEW.user_id, NEW.title, NEW.id);
+    RETURN NULL;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    PERFORM public.sync_note_links(NEW.id);
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    v_source_ids := ARRAY(SELECT source_note_id FROM public.note_links WHERE target_note_id = NEW.id);
+    PERFORM public.rewrite_wiki_links(v_source_ids, 'note', OLD.title, NEW.title);
+    -- Sources whose text wasn't rewritten (e.g. the title was cleared) drop the link
+    PERFORM public.sync_note_links(source_id) FROM unnest(v_source_ids) AS source_id;
+    PERFORM public.resync_notes_mentioning(NEW.user_id, OLD.title, NEW.id);
+    PERFORM public.resync_notes_mentioning(NEW.user_id, NEW.title, NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_note_links_on_insert
+AFTER INSERT ON public.notes
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_note_links_change();
+
+CREATE TRIGGER sync_note_links_on_update
+AFTER UPDATE OF content, title ON public.notes
+FOR EACH ROW
+WHEN (OLD.content IS DISTINCT FROM NEW.content OR OLD.title IS DISTINCT FROM NEW.title)
+EXECUTE FUNCTION public.handle_note_links_change();
+
+CREATE TRIGGER sync_note_links_on_delete
+AFTER DELETE ON public.notes
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_note_links_change();
+
+-- Books: the same for [[book titles]], which change when Readwise renames a book
+CREATE OR REPLACE FUNCTION public.handle_book_links_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.resync_notes_mentioning(OLD.user_id, OLD.rw_title);
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM public.rewrite_wiki_links(
+      ARRAY(SELECT note_id FROM public.book_notes WHERE book_id = NEW.id AND kind = 'linked'),
+      'book', OLD.rw_title, NEW.rw_title
+    );
+    PERFORM public.resync_notes_mentioning(NEW.user_id, OLD.rw_title);
+  END IF;
+
+  PERFORM public.resync_notes_mentioning(NEW.user_id, NEW.rw_title);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_book_links_on_insert
+AFTER INSERT ON public.books
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_book_links_change();
+
+CREATE TRIGGER sync_book_links_on_update
+AFTER UPDATE OF rw_title ON public.books
+FOR EACH ROW
+WHEN (OLD.rw_title IS DISTINCT FROM NEW.rw_title)
+EXECUTE FUNCTION public.handle_book_links_change();
+
+CREATE TRIGGER sync_book_links_on_delete
+AFTER DELETE ON public.books
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_book_links_change();
+
+-- Highlights and sparks: a mention of one that is deleted for good (not trashed) can
+-- never resolve again, so it is turned back into its plain text
+CREATE OR REPLACE FUNCTION public.unlink_deleted_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.notes
+  SET content = regexp_replace(content, '@\[([^]]*)\]\(' || TG_ARGV[0] || ':' || OLD.id::text || '\)', '\1', 'gi')
+  WHERE user_id = OLD.user_id
+    AND strpos(content, OLD.id::text) > 0;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER unlink_deleted_highlight_mentions
+BEFORE DELETE ON public.highlights
+FOR EACH ROW
+EXECUTE FUNCTION public.unlink_deleted_mentions('highlight');
+
+CREATE TRIGGER unlink_deleted_spark_mentions
+BEFORE DELETE ON public.sparks
+FOR EACH ROW
+EXECUTE FUNCTION public.unlink_deleted_mentions('spark');
+
+-- Every link of the caller's notes, optionally only those touching one entity. A note's
+-- links are its outgoing links and the notes linking to it; a book's include its highlights'.
+CREATE OR REPLACE FUNCTION public.get_note_links(p_entity_type TEXT DEFAULT NULL, p_entity_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  note_id UUID,
+  note_title TEXT,
+  target_type TEXT,
+  target_id UUID,
+  target_label TEXT,
+  target_book_rw_id INTEGER,
+  kind TEXT,
+  target_deleted BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+  WITH edges AS (
+    SELECT bn.note_id, 'book' AS target_type, b.id AS target_id, coalesce(b.rw_title, 'Untitled') AS target_label,
+      b.id AS target_book_id, b.rw_id AS target_book_rw_id, bn.kind, false AS target_deleted
+    FROM public.book_notes bn
+    JOIN public.books b ON b.id = bn.book_id
+    UNION ALL
+    SELECT hn.note_id, 'highlight', h.id, left(coalesce(h.rw_text, ''), 160),
+      h.book_id, hb.rw_id, hn.kind, h.deleted_at IS NOT NULL
+    FROM public.highlight_notes hn
+    JOIN public.highlights h ON h.id = hn.highlight_id
+    LEFT JOIN public.books hb ON hb.id = h.book_id
+    UNION ALL
+    SELECT sn.note_id, 'spark', s.id, left(s.body, 160), NULL, NULL, sn.kind, false
+    FROM public.spark_notes sn
+    JOIN public.sparks s ON s.id = sn.spark_id
+    UNION ALL
+    SELECT nl.source_note_id, 'note', t.id, coalesce(nullif(btrim(t.title), ''), left(t.content, 160)),
+      NULL, NULL, 'linked', false
+    FROM public.note_links nl
+    JOIN public.notes t ON t.id = nl.target_note_id
+  )
+  SELECT
+    e.note_id,
+    coalesce(nullif(btrim(n.title), ''), left(n.content, 160)) AS note_title,
+    e.target_type,
+    e.target_id,
+    e.target_label,
+    e.target_book_rw_id,
+    e.kind,
+    e.target_deleted
+  FROM edges e
+  JOIN public.notes n ON n.id = e.note_id
+  WHERE n.user_id = auth.uid()
+    AND (
+      p_entity_id IS NULL
+      OR (p_entity_type = 'note' AND (e.note_id = p_entity_id OR (e.target_type = 'note' AND e.target_id = p_entity_id)))
+      OR (p_entity_type = 'book' AND e.target_book_id = p_entity_id)
+      OR (p_entity_type IN ('highlight', 'spark') AND e.target_type = p_entity_type AND e.target_id = p_entity_id)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_note_links(TEXT, UUID) TO authenticated;
+
+-- Resolve links already written in existing notes
+SELECT public.sync_note_links(id)
+FROM public.notes
+WHERE strpos(content, '[[') > 0 OR strpos(content, '@[') > 0;
@@ -0,0 +1,29 @@
+-- Restoring a backup inserts books and highlights from local imports with the negative
+-- rw_id they had in the source database. Move local_source_rw_id_seq past them, so the
+-- next import doesn't draw an ID the user already has and hit UNIQUE (user_id, rw_id).
+
+CREATE OR REPLACE FUNCTION public.advance_local_source_rw_id(p_min_rw_id INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_last_value BIGINT;
+  v_is_called BOOLEAN;
+BEGIN
+  IF p_min_rw_id IS NULL OR p_min_rw_id >= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT last_value, is_called INTO v_last_value, v_is_called
+  FROM public.local_source_rw_id_seq;
+
+  -- The sequence counts down; only ever move it further down
+  IF (CASE WHEN v_is_called THEN v_last_value - 1 ELSE v_last_value END) >= p_min_rw_id THEN
+    PERFORM setval('public.local_source_rw_id_seq', p_min_rw_id);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_local_source_rw_id(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,24 @@
+-- Revoking a personal access token must stick: the browser may only rename or revoke its
+-- tokens, never widen scopes, extend expires_at or clear revoked_at.
+-- last_used_at is written by the API with the service role, which isn't affected.
+REVOKE UPDATE ON public.personal_access_tokens FROM anon, authenticated;
+GRANT UPDATE (name, revoked_at) ON public.personal_access_tokens TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.keep_personal_access_token_revoked()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at THEN
+    RAISE EXCEPTION 'A revoked personal access token cannot be restored';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_personal_access_token_revoked
+BEFORE UPDATE OF revoked_at ON public.personal_access_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_personal_access_token_revoked();
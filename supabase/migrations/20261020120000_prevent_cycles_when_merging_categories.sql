@@ -0,0 +1,80 @@
+-- merge_categories could leave a parent cycle when a source was an ancestor of the target:
+-- with A > C > B, merging A into B made C a child of B while B stayed under C.
+CREATE OR REPLACE FUNCTION merge_categories(source_ids uuid[], target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_name text;
+  ancestor_ids uuid[] := '{}';
+  ancestor_id uuid;
+  topmost_source integer;
+  resource text;
+  moved integer;
+  total_moved integer := 0;
+BEGIN
+  source_ids := array_remove(source_ids, target_id);
+
+  SELECT name INTO target_name FROM categories WHERE id = target_id AND user_id = auth.uid();
+  IF target_name IS NULL THEN
+    RAISE EXCEPTION 'Target category % not found', target_id;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM categories WHERE id = ANY(source_ids) AND user_id = auth.uid()) <> cardinality(source_ids) THEN
+    RAISE EXCEPTION 'Some source categories were not found';
+  END IF;
+
+  FOREACH resource IN ARRAY ARRAY['book', 'highlight', 'spark'] LOOP
+    EXECUTE format(
+      'INSERT INTO %1$I (%2$I, category_id, automation_action_id, created_by, created_at)
+       SELECT %2$I, $1, automation_action_id, created_by, created_at FROM %1$I WHERE category_id = ANY($2)
+       ON CONFLICT DO NOTHING',
+      resource || '_categories', resource || '_id'
+    ) USING target_id, source_ids;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    total_moved := total_moved + moved;
+
+    EXECUTE format('DELETE FROM %I WHERE category_id = ANY($1)', resource || '_categories') USING source_ids;
+  END LOOP;
+
+  -- If a source is an ancestor of the target, the categories between them would become
+  -- children of the target while the target still hangs below them. Lift the target
+  -- to just above the topmost such source (or to the top level) first.
+  SELECT parent_id INTO ancestor_id FROM categories WHERE id = target_id;
+  WHILE ancestor_id IS NOT NULL AND ancestor_id <> target_id AND NOT ancestor_id = ANY(ancestor_ids) LOOP
+    ancestor_ids := ancestor_ids || ancestor_id;
+    SELECT parent_id INTO ancestor_id FROM categories WHERE id = ancestor_id;
+  END LOOP;
+
+  FOR i IN 1..cardinality(ancestor_ids) LOOP
+    IF ancestor_ids[i] = ANY(source_ids) THEN
+      topmost_source := i;
+    END IF;
+  END LOOP;
+
+  IF topmost_source IS NOT NULL THEN
+    UPDATE categories SET parent_id = ancestor_ids[topmost_source + 1] WHERE id = target_id;
+  END IF;
+
+  UPDATE categories SET parent_id = target_id WHERE parent_id = ANY(source_ids) AND id <> target_id;
+
+  UPDATE automation_actions
+  SET action_data = action_data || jsonb_build_object('category_id', target_id, 'category_name', target_name)
+  WHERE action_data->>'category_id' = ANY(source_ids::text[]);
+
+  UPDATE automation_rules
+  SET actions = (
+    SELECT jsonb_agg(DISTINCT CASE
+      WHEN a->>'categoryId' = ANY(source_ids::text[]) THEN a || jsonb_build_object('categoryId', target_id, 'name', target_name)
+      ELSE a
+    END)
+    FROM jsonb_array_elements(actions) a
+  )
+  WHERE user_id = auth.uid()
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(actions) a WHERE a->>'categoryId' = ANY(source_ids::text[]));
+
+  DELETE FROM categories WHERE id = ANY(source_ids) AND user_id = auth.uid();
+
+  RETURN total_moved;
+END;
+$$;